@@ -1151,8 +1151,10 @@ public struct SessionsPatchParams: Codable, Sendable {
     public let model: AnyCodable?
     public let spawnedby: AnyCodable?
     public let spawndepth: AnyCodable?
+    public let subagentrole: AnyCodable?
     public let sendpolicy: AnyCodable?
     public let groupactivation: AnyCodable?
+    public let mcpservers: AnyCodable?
 
     public init(
         key: String,
@@ -1169,8 +1171,10 @@ public struct SessionsPatchParams: Codable, Sendable {
         model: AnyCodable?,
         spawnedby: AnyCodable?,
         spawndepth: AnyCodable?,
+        subagentrole: AnyCodable?,
         sendpolicy: AnyCodable?,
-        groupactivation: AnyCodable?)
+        groupactivation: AnyCodable?,
+        mcpservers: AnyCodable?)
     {
         self.key = key
         self.label = label
@@ -1186,8 +1190,10 @@ public struct SessionsPatchParams: Codable, Sendable {
         self.model = model
         self.spawnedby = spawnedby
         self.spawndepth = spawndepth
+        self.subagentrole = subagentrole
         self.sendpolicy = sendpolicy
         self.groupactivation = groupactivation
+        self.mcpservers = mcpservers
     }
 
     private enum CodingKeys: String, CodingKey {
@@ -1205,8 +1211,10 @@ public struct SessionsPatchParams: Codable, Sendable {
         case model
         case spawnedby = "spawnedBy"
         case spawndepth = "spawnDepth"
+        case subagentrole = "subagentRole"
         case sendpolicy = "sendPolicy"
         case groupactivation = "groupActivation"
+        case mcpservers = "mcpServers"
     }
 }
 
@@ -1268,6 +1276,68 @@ public struct SessionsCompactParams: Codable, Sendable {
     }
 }
 
+public struct SessionsForkParams: Codable, Sendable {
+    public let key: String
+    public let turn: Int?
+    public let label: String?
+    public let switch: Bool?
+
+    public init(
+        key: String,
+        turn: Int?,
+        label: String?,
+        switch: Bool?)
+    {
+        self.key = key
+        self.turn = turn
+        self.label = label
+        self.switch = switch
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case turn
+        case label
+        case switch
+    }
+}
+
+public struct SessionsForksParams: Codable, Sendable {
+    public let key: String
+    public let includeturns: Bool?
+
+    public init(
+        key: String,
+        includeturns: Bool?)
+    {
+        self.key = key
+        self.includeturns = includeturns
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case includeturns = "includeTurns"
+    }
+}
+
+public struct SessionsSwitchParams: Codable, Sendable {
+    public let key: String
+    public let target: String
+
+    public init(
+        key: String,
+        target: String)
+    {
+        self.key = key
+        self.target = target
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case target
+    }
+}
+
 public struct SessionsUsageParams: Codable, Sendable {
     public let key: String?
     public let startdate: String?
@@ -2181,18 +2251,22 @@ public struct SkillsStatusParams: Codable, Sendable {
 public struct ToolsCatalogParams: Codable, Sendable {
     public let agentid: String?
     public let includeplugins: Bool?
+    public let includemcp: Bool?
 
     public init(
         agentid: String?,
-        includeplugins: Bool?)
+        includeplugins: Bool?,
+        includemcp: Bool?)
     {
         self.agentid = agentid
         self.includeplugins = includeplugins
+        self.includemcp = includemcp
     }
 
     private enum CodingKeys: String, CodingKey {
         case agentid = "agentId"
         case includeplugins = "includePlugins"
+        case includemcp = "includeMcp"
     }
 }
 
@@ -2220,6 +2294,7 @@ public struct ToolCatalogEntry: Codable, Sendable {
     public let description: String
     public let source: AnyCodable
     public let pluginid: String?
+    public let mcpserver: String?
     public let optional: Bool?
     public let defaultprofiles: [AnyCodable]
 
@@ -2229,6 +2304,7 @@ public struct ToolCatalogEntry: Codable, Sendable {
         description: String,
         source: AnyCodable,
         pluginid: String?,
+        mcpserver: String?,
         optional: Bool?,
         defaultprofiles: [AnyCodable])
     {
@@ -2237,6 +2313,7 @@ public struct ToolCatalogEntry: Codable, Sendable {
         self.description = description
         self.source = source
         self.pluginid = pluginid
+        self.mcpserver = mcpserver
         self.optional = optional
         self.defaultprofiles = defaultprofiles
     }
@@ -2247,6 +2324,7 @@ public struct ToolCatalogEntry: Codable, Sendable {
         case description
         case source
         case pluginid = "pluginId"
+        case mcpserver = "mcpServer"
         case optional
         case defaultprofiles = "defaultProfiles"
     }
@@ -2257,6 +2335,7 @@ public struct ToolCatalogGroup: Codable, Sendable {
     public let label: String
     public let source: AnyCodable
     public let pluginid: String?
+    public let mcpserver: String?
     public let tools: [ToolCatalogEntry]
 
     public init(
@@ -2264,12 +2343,14 @@ public struct ToolCatalogGroup: Codable, Sendable {
         label: String,
         source: AnyCodable,
         pluginid: String?,
+        mcpserver: String?,
         tools: [ToolCatalogEntry])
     {
         self.id = id
         self.label = label
         self.source = source
         self.pluginid = pluginid
+        self.mcpserver = mcpserver
         self.tools = tools
     }
 
@@ -2278,6 +2359,7 @@ public struct ToolCatalogGroup: Codable, Sendable {
         case label
         case source
         case pluginid = "pluginId"
+        case mcpserver = "mcpServer"
         case tools
     }
 }
@@ -2383,6 +2465,8 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
+    public let failuredelivery: AnyCodable?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2400,6 +2484,8 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: AnyCodable?,
+        retry: [String: AnyCodable]?,
+        failuredelivery: AnyCodable?,
         state: [String: AnyCodable])
     {
         self.id = id
@@ -2416,6 +2502,8 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.failuredelivery = failuredelivery
         self.state = state
     }
 
@@ -2434,6 +2522,8 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case failuredelivery = "failureDelivery"
         case state
     }
 }
@@ -2490,6 +2580,8 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
+    public let failuredelivery: AnyCodable?
 
     public init(
         name: String,
@@ -2502,7 +2594,9 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: AnyCodable?)
+        delivery: AnyCodable?,
+        retry: [String: AnyCodable]?,
+        failuredelivery: AnyCodable?)
     {
         self.name = name
         self.agentid = agentid
@@ -2515,6 +2609,8 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.failuredelivery = failuredelivery
     }
 
     private enum CodingKeys: String, CodingKey {
@@ -2529,6 +2625,8 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case failuredelivery = "failureDelivery"
     }
 }
 
@@ -2586,6 +2684,44 @@ public struct CronRunsParams: Codable, Sendable {
     }
 }
 
+public struct CronDeadLetterParams: Codable, Sendable {
+    public let scope: AnyCodable?
+    public let id: String?
+    public let jobid: String?
+    public let limit: Int?
+    public let offset: Int?
+    public let query: String?
+    public let sortdir: AnyCodable?
+
+    public init(
+        scope: AnyCodable?,
+        id: String?,
+        jobid: String?,
+        limit: Int?,
+        offset: Int?,
+        query: String?,
+        sortdir: AnyCodable?)
+    {
+        self.scope = scope
+        self.id = id
+        self.jobid = jobid
+        self.limit = limit
+        self.offset = offset
+        self.query = query
+        self.sortdir = sortdir
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case scope
+        case id
+        case jobid = "jobId"
+        case limit
+        case offset
+        case query
+        case sortdir = "sortDir"
+    }
+}
+
 public struct CronRunLogEntry: Codable, Sendable {
     public let ts: Int
     public let jobid: String
@@ -2601,6 +2737,11 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let runatms: Int?
     public let durationms: Int?
     public let nextrunatms: Int?
+    public let triggeredby: String?
+    public let errorkind: AnyCodable?
+    public let attempt: Int?
+    public let retryatms: Int?
+    public let deadlettered: Bool?
     public let model: String?
     public let provider: String?
     public let usage: [String: AnyCodable]?
@@ -2621,6 +2762,11 @@ public struct CronRunLogEntry: Codable, Sendable {
         runatms: Int?,
         durationms: Int?,
         nextrunatms: Int?,
+        triggeredby: String?,
+        errorkind: AnyCodable?,
+        attempt: Int?,
+        retryatms: Int?,
+        deadlettered: Bool?,
         model: String?,
         provider: String?,
         usage: [String: AnyCodable]?,
@@ -2640,6 +2786,11 @@ public struct CronRunLogEntry: Codable, Sendable {
         self.runatms = runatms
         self.durationms = durationms
         self.nextrunatms = nextrunatms
+        self.triggeredby = triggeredby
+        self.errorkind = errorkind
+        self.attempt = attempt
+        self.retryatms = retryatms
+        self.deadlettered = deadlettered
         self.model = model
         self.provider = provider
         self.usage = usage
@@ -2661,6 +2812,11 @@ public struct CronRunLogEntry: Codable, Sendable {
         case runatms = "runAtMs"
         case durationms = "durationMs"
         case nextrunatms = "nextRunAtMs"
+        case triggeredby = "triggeredBy"
+        case errorkind = "errorKind"
+        case attempt
+        case retryatms = "retryAtMs"
+        case deadlettered = "deadLettered"
         case model
         case provider
         case usage
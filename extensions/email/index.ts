@@ -0,0 +1,17 @@
+import type { ChannelPlugin, OpenClawPluginApi } from "openclaw/plugin-sdk";
+import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
+import { emailPlugin } from "./src/channel.js";
+import { setEmailRuntime } from "./src/runtime.js";
+
+const plugin = {
+  id: "email",
+  name: "Email",
+  description: "Email (IMAP/SMTP) channel plugin",
+  configSchema: emptyPluginConfigSchema(),
+  register(api: OpenClawPluginApi) {
+    setEmailRuntime(api.runtime);
+    api.registerChannel({ plugin: emailPlugin as ChannelPlugin });
+  },
+};
+
+export default plugin;
@@ -0,0 +1,236 @@
+import { readFileSync } from "node:fs";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "openclaw/plugin-sdk/account-id";
+import { normalizeEmailAddress } from "./normalize.js";
+import type { CoreConfig, EmailAccountConfig } from "./types.js";
+
+export type ResolvedEmailImap = {
+  host: string;
+  port: number;
+  tls: boolean;
+  user: string;
+  password: string;
+  mailbox: string;
+  pollIntervalMs: number;
+  idle: boolean;
+};
+
+export type ResolvedEmailSmtp = {
+  host: string;
+  port: number;
+  secure: boolean;
+  starttls: boolean;
+  user: string;
+  password: string;
+};
+
+export type ResolvedEmailAccount = {
+  accountId: string;
+  enabled: boolean;
+  name?: string;
+  configured: boolean;
+  address: string;
+  displayName?: string;
+  imap: ResolvedEmailImap;
+  smtp: ResolvedEmailSmtp;
+  passwordSource: "env" | "passwordFile" | "config" | "none";
+  config: EmailAccountConfig;
+};
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+
+function listConfiguredAccountIds(cfg: CoreConfig): string[] {
+  const accounts = cfg.channels?.email?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return [];
+  }
+  const ids = new Set<string>();
+  for (const key of Object.keys(accounts)) {
+    if (key.trim()) {
+      ids.add(normalizeAccountId(key));
+    }
+  }
+  return [...ids];
+}
+
+function resolveAccountConfig(cfg: CoreConfig, accountId: string): EmailAccountConfig | undefined {
+  const accounts = cfg.channels?.email?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return undefined;
+  }
+  const direct = accounts[accountId] as EmailAccountConfig | undefined;
+  if (direct) {
+    return direct;
+  }
+  const normalized = normalizeAccountId(accountId);
+  const matchKey = Object.keys(accounts).find((key) => normalizeAccountId(key) === normalized);
+  return matchKey ? (accounts[matchKey] as EmailAccountConfig | undefined) : undefined;
+}
+
+function mergeEmailAccountConfig(cfg: CoreConfig, accountId: string): EmailAccountConfig {
+  const { accounts: _ignored, ...base } = (cfg.channels?.email ?? {}) as EmailAccountConfig & {
+    accounts?: unknown;
+  };
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  const merged: EmailAccountConfig = { ...base, ...account };
+  if (base.imap || account.imap) {
+    merged.imap = { ...base.imap, ...account.imap };
+  }
+  if (base.smtp || account.smtp) {
+    merged.smtp = { ...base.smtp, ...account.smtp };
+  }
+  return merged;
+}
+
+function readPasswordFile(filePath?: string): string {
+  if (!filePath?.trim()) {
+    return "";
+  }
+  try {
+    return readFileSync(filePath.trim(), "utf-8").trim();
+  } catch {
+    // Ignore unreadable files here; status will still surface missing configuration.
+    return "";
+  }
+}
+
+function resolvePassword(params: {
+  accountId: string;
+  envKey: string;
+  password?: string;
+  passwordFile?: string;
+}) {
+  if (params.accountId === DEFAULT_ACCOUNT_ID) {
+    const envPassword =
+      process.env[params.envKey]?.trim() || process.env.EMAIL_PASSWORD?.trim() || "";
+    if (envPassword) {
+      return { password: envPassword, source: "env" as const };
+    }
+  }
+  const filePassword = readPasswordFile(params.passwordFile);
+  if (filePassword) {
+    return { password: filePassword, source: "passwordFile" as const };
+  }
+  const configPassword = params.password?.trim();
+  if (configPassword) {
+    return { password: configPassword, source: "config" as const };
+  }
+  return { password: "", source: "none" as const };
+}
+
+export function listEmailAccountIds(cfg: CoreConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) {
+    return [DEFAULT_ACCOUNT_ID];
+  }
+  return ids.toSorted((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultEmailAccountId(cfg: CoreConfig): string {
+  const ids = listEmailAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) {
+    return DEFAULT_ACCOUNT_ID;
+  }
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+export function resolveEmailAccount(params: {
+  cfg: CoreConfig;
+  accountId?: string | null;
+}): ResolvedEmailAccount {
+  const hasExplicitAccountId = Boolean(params.accountId?.trim());
+  const baseEnabled = params.cfg.channels?.email?.enabled !== false;
+
+  const resolve = (accountId: string) => {
+    const merged = mergeEmailAccountConfig(params.cfg, accountId);
+    const isDefault = accountId === DEFAULT_ACCOUNT_ID;
+    const enabled = baseEnabled && merged.enabled !== false;
+
+    const address =
+      normalizeEmailAddress(
+        merged.address?.trim() || (isDefault ? process.env.EMAIL_ADDRESS?.trim() : "") || "",
+      ) ?? "";
+
+    const imapConfig = merged.imap ?? {};
+    const imapTls = imapConfig.tls ?? true;
+    const imapPassword = resolvePassword({
+      accountId,
+      envKey: "EMAIL_IMAP_PASSWORD",
+      password: imapConfig.password,
+      passwordFile: imapConfig.passwordFile,
+    });
+    const imap: ResolvedEmailImap = {
+      host: (
+        imapConfig.host?.trim() ||
+        (isDefault ? process.env.EMAIL_IMAP_HOST?.trim() : "") ||
+        ""
+      ).trim(),
+      port: imapConfig.port ?? (imapTls ? 993 : 143),
+      tls: imapTls,
+      user: imapConfig.user?.trim() || address,
+      password: imapPassword.password,
+      mailbox: imapConfig.mailbox?.trim() || "INBOX",
+      pollIntervalMs: (imapConfig.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000,
+      idle: imapConfig.idle !== false,
+    };
+
+    const smtpConfig = merged.smtp ?? {};
+    const smtpPort = smtpConfig.port ?? (smtpConfig.secure === false ? 587 : 465);
+    const smtpPassword = resolvePassword({
+      accountId,
+      envKey: "EMAIL_SMTP_PASSWORD",
+      password: smtpConfig.password,
+      passwordFile: smtpConfig.passwordFile,
+    });
+    const smtp: ResolvedEmailSmtp = {
+      host: (
+        smtpConfig.host?.trim() ||
+        (isDefault ? process.env.EMAIL_SMTP_HOST?.trim() : "") ||
+        ""
+      ).trim(),
+      port: smtpPort,
+      secure: smtpConfig.secure ?? smtpPort === 465,
+      starttls: smtpConfig.starttls !== false,
+      user: smtpConfig.user?.trim() || imap.user,
+      // Most providers share one credential between IMAP and SMTP.
+      password: smtpPassword.password || imap.password,
+    };
+
+    return {
+      accountId,
+      enabled,
+      name: merged.name?.trim() || undefined,
+      configured: Boolean(address && imap.host && smtp.host),
+      address,
+      displayName: merged.displayName?.trim() || undefined,
+      imap,
+      smtp,
+      passwordSource: imapPassword.source,
+      config: merged,
+    } satisfies ResolvedEmailAccount;
+  };
+
+  const normalized = normalizeAccountId(params.accountId);
+  const primary = resolve(normalized);
+  if (hasExplicitAccountId) {
+    return primary;
+  }
+  if (primary.configured) {
+    return primary;
+  }
+
+  const fallbackId = resolveDefaultEmailAccountId(params.cfg);
+  if (fallbackId === primary.accountId) {
+    return primary;
+  }
+  const fallback = resolve(fallbackId);
+  if (!fallback.configured) {
+    return primary;
+  }
+  return fallback;
+}
+
+export function listEnabledEmailAccounts(cfg: CoreConfig): ResolvedEmailAccount[] {
+  return listEmailAccountIds(cfg)
+    .map((accountId) => resolveEmailAccount({ cfg, accountId }))
+    .filter((account) => account.enabled);
+}
@@ -0,0 +1,276 @@
+import {
+  buildBaseAccountStatusSnapshot,
+  buildBaseChannelStatusSummary,
+  buildChannelConfigSchema,
+  DEFAULT_ACCOUNT_ID,
+  deleteAccountFromConfigSection,
+  formatPairingApproveHint,
+  PAIRING_APPROVED_MESSAGE,
+  setAccountEnabledInConfigSection,
+  type ChannelPlugin,
+} from "openclaw/plugin-sdk";
+import {
+  listEmailAccountIds,
+  resolveDefaultEmailAccountId,
+  resolveEmailAccount,
+  type ResolvedEmailAccount,
+} from "./accounts.js";
+import { EmailConfigSchema } from "./config-schema.js";
+import { monitorEmailProvider } from "./monitor.js";
+import {
+  looksLikeEmailTargetId,
+  normalizeEmailAddress,
+  normalizeEmailAllowEntry,
+  normalizeEmailMessagingTarget,
+} from "./normalize.js";
+import { probeEmail } from "./probe.js";
+import { getEmailRuntime } from "./runtime.js";
+import { sendMessageEmail } from "./send.js";
+import type { CoreConfig, EmailProbe } from "./types.js";
+
+const meta = {
+  id: "email",
+  label: "Email",
+  selectionLabel: "Email (IMAP/SMTP)",
+  docsPath: "/channels/email",
+  docsLabel: "email",
+  blurb: "Any mailbox over IMAP and SMTP; replies stay in the original thread.",
+  aliases: ["imap", "smtp"],
+  order: 90,
+  quickstartAllowFrom: true,
+};
+
+function resolveThreadId(threadId?: string | number | null): string | undefined {
+  return threadId == null ? undefined : String(threadId);
+}
+
+export const emailPlugin: ChannelPlugin<ResolvedEmailAccount, EmailProbe> = {
+  id: "email",
+  meta,
+  pairing: {
+    idLabel: "emailAddress",
+    normalizeAllowEntry: (entry) => normalizeEmailAllowEntry(entry),
+    notifyApproval: async ({ id }) => {
+      const target = normalizeEmailAddress(id);
+      if (!target) {
+        throw new Error(`invalid email pairing id: ${id}`);
+      }
+      await sendMessageEmail(target, PAIRING_APPROVED_MESSAGE);
+    },
+  },
+  capabilities: {
+    chatTypes: ["direct"],
+    threads: true,
+    media: true,
+    blockStreaming: true,
+  },
+  reload: { configPrefixes: ["channels.email"] },
+  configSchema: buildChannelConfigSchema(EmailConfigSchema),
+  config: {
+    listAccountIds: (cfg) => listEmailAccountIds(cfg as CoreConfig),
+    resolveAccount: (cfg, accountId) => resolveEmailAccount({ cfg: cfg as CoreConfig, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultEmailAccountId(cfg as CoreConfig),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg: cfg as CoreConfig,
+        sectionKey: "email",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg: cfg as CoreConfig,
+        sectionKey: "email",
+        accountId,
+        clearBaseFields: ["name", "address", "displayName", "imap", "smtp"],
+      }),
+    isConfigured: (account) => account.configured,
+    describeAccount: (account) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      address: account.address,
+      imapHost: account.imap.host,
+      smtpHost: account.smtp.host,
+      passwordSource: account.passwordSource,
+    }),
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      (resolveEmailAccount({ cfg: cfg as CoreConfig, accountId }).config.allowFrom ?? []).map(
+        (entry) => String(entry),
+      ),
+    formatAllowFrom: ({ allowFrom }) =>
+      allowFrom.map((entry) => normalizeEmailAllowEntry(String(entry))).filter(Boolean),
+    resolveDefaultTo: ({ cfg, accountId }) =>
+      resolveEmailAccount({ cfg: cfg as CoreConfig, accountId }).config.defaultTo?.trim() ||
+      undefined,
+  },
+  security: {
+    resolveDmPolicy: ({ cfg, accountId, account }) => {
+      const resolvedAccountId = accountId ?? account.accountId ?? DEFAULT_ACCOUNT_ID;
+      const useAccountPath = Boolean(
+        (cfg as CoreConfig).channels?.email?.accounts?.[resolvedAccountId],
+      );
+      const basePath = useAccountPath
+        ? `channels.email.accounts.${resolvedAccountId}.`
+        : "channels.email.";
+      return {
+        policy: account.config.dmPolicy ?? "allowlist",
+        allowFrom: account.config.allowFrom ?? [],
+        policyPath: `${basePath}dmPolicy`,
+        allowFromPath: `${basePath}allowFrom`,
+        approveHint: formatPairingApproveHint("email"),
+        normalizeEntry: (raw) => normalizeEmailAllowEntry(raw),
+      };
+    },
+    collectWarnings: ({ account }) => {
+      const warnings: string[] = [];
+      if (account.config.dmPolicy === "open") {
+        warnings.push(
+          '- Email dmPolicy="open" lets any sender (including spam) reach the agent. Prefer channels.email.dmPolicy="allowlist" with channels.email.allowFrom.',
+        );
+      }
+      if (account.config.dmPolicy === "pairing") {
+        warnings.push(
+          '- Email dmPolicy="pairing" mails a pairing code to every unknown sender, including spoofed spam addresses. Prefer "allowlist" unless the mailbox is private.',
+        );
+      }
+      if (!account.imap.tls) {
+        warnings.push(
+          "- Email IMAP TLS is disabled (channels.email.imap.tls=false); mail and credentials are plaintext.",
+        );
+      }
+      if (!account.smtp.secure && !account.smtp.starttls) {
+        warnings.push(
+          "- Email SMTP has neither secure nor starttls enabled; mail and credentials are plaintext.",
+        );
+      }
+      return warnings;
+    },
+  },
+  messaging: {
+    normalizeTarget: normalizeEmailMessagingTarget,
+    targetResolver: {
+      looksLikeId: looksLikeEmailTargetId,
+      hint: "<address>",
+    },
+  },
+  resolver: {
+    resolveTargets: async ({ inputs, kind }) => {
+      return inputs.map((input) => {
+        if (kind === "group") {
+          return {
+            input,
+            resolved: false,
+            note: "email has no group targets",
+          };
+        }
+        const normalized = normalizeEmailMessagingTarget(input);
+        if (!normalized) {
+          return {
+            input,
+            resolved: false,
+            note: "invalid email address",
+          };
+        }
+        return {
+          input,
+          resolved: true,
+          id: normalized,
+          name: normalized,
+        };
+      });
+    },
+  },
+  directory: {
+    self: async () => null,
+    listPeers: async ({ cfg, accountId, query, limit }) => {
+      const account = resolveEmailAccount({ cfg: cfg as CoreConfig, accountId });
+      const q = query?.trim().toLowerCase() ?? "";
+      const ids = new Set<string>();
+      for (const entry of account.config.allowFrom ?? []) {
+        const normalized = normalizeEmailAddress(String(entry));
+        if (normalized) {
+          ids.add(normalized);
+        }
+      }
+      return Array.from(ids)
+        .filter((id) => (q ? id.includes(q) : true))
+        .slice(0, limit && limit > 0 ? limit : undefined)
+        .map((id) => ({ kind: "user", id }));
+    },
+    listGroups: async () => [],
+  },
+  outbound: {
+    deliveryMode: "direct",
+    chunker: (text, limit) => getEmailRuntime().channel.text.chunkMarkdownText(text, limit),
+    chunkerMode: "markdown",
+    textChunkLimit: 20000,
+    sendText: async ({ to, text, accountId, replyToId, threadId }) => {
+      const result = await sendMessageEmail(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+        threadId: resolveThreadId(threadId),
+      });
+      return { channel: "email", ...result };
+    },
+    sendMedia: async ({ to, text, mediaUrl, mediaLocalRoots, accountId, replyToId, threadId }) => {
+      const result = await sendMessageEmail(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+        threadId: resolveThreadId(threadId),
+        mediaUrls: mediaUrl ? [mediaUrl] : [],
+        mediaLocalRoots,
+      });
+      return { channel: "email", ...result };
+    },
+  },
+  status: {
+    defaultRuntime: {
+      accountId: DEFAULT_ACCOUNT_ID,
+      running: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+    },
+    buildChannelSummary: ({ account, snapshot }) => ({
+      ...buildBaseChannelStatusSummary(snapshot),
+      address: account.address,
+      imapHost: account.imap.host,
+      smtpHost: account.smtp.host,
+      probe: snapshot.probe,
+      lastProbeAt: snapshot.lastProbeAt ?? null,
+    }),
+    probeAccount: async ({ cfg, account, timeoutMs }) =>
+      probeEmail(cfg as CoreConfig, { accountId: account.accountId, timeoutMs }),
+    buildAccountSnapshot: ({ account, runtime, probe }) => ({
+      ...buildBaseAccountStatusSnapshot({ account, runtime, probe }),
+      address: account.address,
+      imapHost: account.imap.host,
+      smtpHost: account.smtp.host,
+      passwordSource: account.passwordSource,
+    }),
+  },
+  gateway: {
+    startAccount: async (ctx) => {
+      const account = ctx.account;
+      if (!account.configured) {
+        throw new Error(
+          `Email is not configured for account "${account.accountId}" (need address, imap.host and smtp.host in channels.email).`,
+        );
+      }
+      ctx.log?.info(
+        `[${account.accountId}] starting email provider (${account.address} via ${account.imap.host})`,
+      );
+      // Runs until the abort signal fires so the gateway keeps the account marked running.
+      await monitorEmailProvider({
+        accountId: account.accountId,
+        config: ctx.cfg as CoreConfig,
+        runtime: ctx.runtime,
+        abortSignal: ctx.abortSignal,
+        statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+      });
+    },
+  },
+};
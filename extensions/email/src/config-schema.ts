@@ -0,0 +1,72 @@
+import {
+  DmPolicySchema,
+  MarkdownConfigSchema,
+  ReplyRuntimeConfigSchemaShape,
+  requireOpenAllowFrom,
+} from "openclaw/plugin-sdk";
+import { z } from "zod";
+
+const EmailImapSchema = z
+  .object({
+    host: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    tls: z.boolean().optional(),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    passwordFile: z.string().optional(),
+    mailbox: z.string().optional(),
+    pollIntervalSeconds: z.number().int().min(5).optional(),
+    idle: z.boolean().optional(),
+  })
+  .strict();
+
+const EmailSmtpSchema = z
+  .object({
+    host: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    secure: z.boolean().optional(),
+    starttls: z.boolean().optional(),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    passwordFile: z.string().optional(),
+  })
+  .strict();
+
+export const EmailAccountSchemaBase = z
+  .object({
+    name: z.string().optional(),
+    enabled: z.boolean().optional(),
+    address: z.string().optional(),
+    displayName: z.string().optional(),
+    imap: EmailImapSchema.optional(),
+    smtp: EmailSmtpSchema.optional(),
+    dmPolicy: DmPolicySchema.optional().default("allowlist"),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    defaultTo: z.string().optional(),
+    defaultSubject: z.string().optional(),
+    markdown: MarkdownConfigSchema,
+    ...ReplyRuntimeConfigSchemaShape,
+  })
+  .strict();
+
+export const EmailAccountSchema = EmailAccountSchemaBase.superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.email.dmPolicy="open" requires channels.email.allowFrom to include "*"',
+  });
+});
+
+export const EmailConfigSchema = EmailAccountSchemaBase.extend({
+  accounts: z.record(z.string(), EmailAccountSchema.optional()).optional(),
+}).superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.email.dmPolicy="open" requires channels.email.allowFrom to include "*"',
+  });
+});
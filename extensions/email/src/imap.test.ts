@@ -0,0 +1,141 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { connectImapClient, quoteImapString } from "./imap.js";
+
+type FakeImapServer = {
+  port: number;
+  commands: string[];
+  pushExists: () => void;
+  close: () => Promise<void>;
+};
+
+const MESSAGE = "From: alice@example.com\r\nSubject: Hi\r\n\r\nHello {5}\r\n";
+
+async function startFakeImapServer(): Promise<FakeImapServer> {
+  const commands: string[] = [];
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.write("* OK fake IMAP ready\r\n");
+    let buffer = "";
+    let idleTag: string | null = null;
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf-8");
+      let lineEnd = buffer.indexOf("\r\n");
+      while (lineEnd >= 0) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        commands.push(line);
+        if (idleTag && line === "DONE") {
+          socket.write(`${idleTag} OK IDLE terminated\r\n`);
+          idleTag = null;
+        } else {
+          const [tag, ...rest] = line.split(" ");
+          const command = rest.join(" ");
+          if (command.startsWith("LOGIN")) {
+            socket.write(`${tag} OK LOGIN completed\r\n`);
+          } else if (command === "CAPABILITY") {
+            socket.write(`* CAPABILITY IMAP4rev1 IDLE\r\n${tag} OK done\r\n`);
+          } else if (command.startsWith("SELECT")) {
+            socket.write(
+              `* 2 EXISTS\r\n* OK [UIDVALIDITY 42] ok\r\n${tag} OK [READ-WRITE] SELECT completed\r\n`,
+            );
+          } else if (command === "UID SEARCH UNSEEN") {
+            socket.write(`* SEARCH 7 3\r\n${tag} OK SEARCH completed\r\n`);
+          } else if (command.startsWith("UID FETCH 7")) {
+            const size = Buffer.byteLength(MESSAGE);
+            socket.write(`* 2 FETCH (UID 7 BODY[] {${size}}\r\n${MESSAGE})\r\n`);
+            socket.write(`${tag} OK FETCH completed\r\n`);
+          } else if (command.startsWith("UID STORE")) {
+            socket.write(`${tag} OK STORE completed\r\n`);
+          } else if (command === "IDLE") {
+            idleTag = tag ?? null;
+            socket.write("+ idling\r\n");
+          } else if (command === "LOGOUT") {
+            socket.write(`* BYE\r\n${tag} OK LOGOUT completed\r\n`);
+            socket.end();
+          } else {
+            socket.write(`${tag} BAD unknown command\r\n`);
+          }
+        }
+        lineEnd = buffer.indexOf("\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address() as net.AddressInfo;
+  return {
+    port: address.port,
+    commands,
+    pushExists: () => {
+      for (const socket of sockets) {
+        socket.write("* 3 EXISTS\r\n");
+      }
+    },
+    close: async () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+describe("imap client", () => {
+  let server: FakeImapServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("quotes strings with backslashes and quotes", () => {
+    expect(quoteImapString('pa"ss\\word')).toBe('"pa\\"ss\\\\word"');
+  });
+
+  it("logs in, searches and fetches literal message bodies", async () => {
+    server = await startFakeImapServer();
+    const client = await connectImapClient({
+      host: "127.0.0.1",
+      port: server.port,
+      tls: false,
+      user: "bot@example.org",
+      password: "secret",
+    });
+
+    expect(client.capabilities.has("IDLE")).toBe(true);
+    expect(await client.select("INBOX")).toEqual({ exists: 2, uidValidity: 42 });
+    expect(await client.searchUnseen()).toEqual([3, 7]);
+    expect((await client.fetchMessage(7))?.toString("utf-8")).toBe(MESSAGE);
+    await client.markSeen(7);
+    await client.logout();
+
+    expect(server.commands).toContain('A1 LOGIN "bot@example.org" "secret"');
+    expect(server.commands).toContain("A6 UID STORE 7 +FLAGS.SILENT (\\Seen)");
+  });
+
+  it("returns from IDLE when the server announces new mail", async () => {
+    server = await startFakeImapServer();
+    const client = await connectImapClient({
+      host: "127.0.0.1",
+      port: server.port,
+      tls: false,
+      user: "bot",
+      password: "secret",
+    });
+    await client.select("INBOX");
+
+    const idle = client.idle({ timeoutMs: 5000 });
+    await expect.poll(() => server?.commands.includes("A4 IDLE")).toBe(true);
+    server.pushExists();
+    await expect(idle).resolves.toBe("exists");
+    expect(server.commands).toContain("DONE");
+
+    const controller = new AbortController();
+    const aborted = client.idle({ timeoutMs: 5000, abortSignal: controller.signal });
+    controller.abort();
+    await expect(aborted).resolves.toBe("aborted");
+    await client.logout();
+  });
+});
@@ -0,0 +1,367 @@
+import net from "node:net";
+import tls from "node:tls";
+
+export type ImapClientOptions = {
+  host: string;
+  port: number;
+  tls: boolean;
+  user: string;
+  password: string;
+  connectTimeoutMs?: number;
+  commandTimeoutMs?: number;
+  onLine?: (line: string) => void;
+};
+
+export type ImapResponse = {
+  /** Response text; literal payloads are replaced by their `{N}` markers. */
+  text: string;
+  literals: Buffer[];
+};
+
+export type ImapIdleResult = "exists" | "timeout" | "aborted";
+
+export type ImapClient = {
+  capabilities: ReadonlySet<string>;
+  select: (mailbox: string) => Promise<{ exists: number; uidValidity?: number }>;
+  searchUnseen: () => Promise<number[]>;
+  fetchMessage: (uid: number) => Promise<Buffer | null>;
+  markSeen: (uid: number) => Promise<void>;
+  /** Waits for new mail with IDLE; resolves on EXISTS, timeout or abort. */
+  idle: (params: { timeoutMs: number; abortSignal?: AbortSignal }) => Promise<ImapIdleResult>;
+  logout: () => Promise<void>;
+  close: () => void;
+  isClosed: () => boolean;
+};
+
+type PendingCommand = {
+  tag: string;
+  label: string;
+  untagged: ImapResponse[];
+  resolve: (value: { text: string; untagged: ImapResponse[] }) => void;
+  reject: (error: Error) => void;
+  onContinuation?: () => void;
+};
+
+const TAGGED_RE = /^(A\d+) (OK|NO|BAD)\b ?(.*)$/i;
+
+function toError(err: unknown): Error {
+  if (err instanceof Error) {
+    return err;
+  }
+  return new Error(typeof err === "string" ? err : JSON.stringify(err));
+}
+
+export function quoteImapString(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+function parseCapabilities(text: string): string[] {
+  const match = text.match(/CAPABILITY ([^\]]+)/i);
+  return match?.[1] ? match[1].trim().toUpperCase().split(/\s+/) : [];
+}
+
+export async function connectImapClient(options: ImapClientOptions): Promise<ImapClient> {
+  const connectTimeoutMs = options.connectTimeoutMs ?? 15000;
+  const commandTimeoutMs = options.commandTimeoutMs ?? 30000;
+
+  if (!options.host.trim()) {
+    throw new Error("IMAP host is required");
+  }
+
+  const socket = options.tls
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+
+  let buffer = Buffer.alloc(0);
+  let current: ImapResponse = { text: "", literals: [] };
+  let literalBytes: number | null = null;
+  let closed = false;
+  let tagCounter = 0;
+  let pending: PendingCommand | null = null;
+  let greeting: { resolve: (text: string) => void; reject: (error: Error) => void } | null = null;
+  const capabilities = new Set<string>();
+  const untaggedListeners = new Set<(response: ImapResponse) => void>();
+
+  const failAll = (error: Error) => {
+    greeting?.reject(error);
+    greeting = null;
+    pending?.reject(error);
+    pending = null;
+  };
+
+  const handleResponse = (response: ImapResponse) => {
+    options.onLine?.(response.text);
+    if (greeting) {
+      const resolveGreeting = greeting;
+      greeting = null;
+      if (/^\* (OK|PREAUTH)\b/i.test(response.text)) {
+        resolveGreeting.resolve(response.text);
+      } else {
+        resolveGreeting.reject(new Error(`IMAP greeting rejected: ${response.text}`));
+      }
+      return;
+    }
+    if (response.text.startsWith("+")) {
+      pending?.onContinuation?.();
+      return;
+    }
+    if (response.text.startsWith("* ")) {
+      for (const cap of parseCapabilities(response.text)) {
+        capabilities.add(cap);
+      }
+      pending?.untagged.push(response);
+      for (const listener of untaggedListeners) {
+        listener(response);
+      }
+      return;
+    }
+    const tagged = response.text.match(TAGGED_RE);
+    if (!tagged || !pending || tagged[1] !== pending.tag) {
+      return;
+    }
+    const command = pending;
+    pending = null;
+    const status = tagged[2]?.toUpperCase();
+    const text = tagged[3] ?? "";
+    if (status === "OK") {
+      for (const cap of parseCapabilities(text)) {
+        capabilities.add(cap);
+      }
+      command.resolve({ text, untagged: command.untagged });
+    } else {
+      command.reject(new Error(`IMAP ${command.label} failed: ${status} ${text}`.trim()));
+    }
+  };
+
+  const drain = () => {
+    while (true) {
+      if (literalBytes !== null) {
+        if (buffer.length < literalBytes) {
+          return;
+        }
+        current.literals.push(Buffer.from(buffer.subarray(0, literalBytes)));
+        buffer = buffer.subarray(literalBytes);
+        literalBytes = null;
+        continue;
+      }
+      const lineEnd = buffer.indexOf("\r\n");
+      if (lineEnd < 0) {
+        return;
+      }
+      const line = buffer.subarray(0, lineEnd).toString("utf-8");
+      buffer = buffer.subarray(lineEnd + 2);
+      current.text += line;
+      const literal = line.match(/\{(\d+)\}$/);
+      if (literal?.[1]) {
+        literalBytes = Number.parseInt(literal[1], 10);
+        continue;
+      }
+      const response = current;
+      current = { text: "", literals: [] };
+      handleResponse(response);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    drain();
+  });
+  socket.on("error", (err) => {
+    failAll(toError(err));
+  });
+  socket.on("close", () => {
+    closed = true;
+    failAll(new Error("IMAP connection closed"));
+  });
+
+  const write = (line: string) => {
+    if (closed || socket.destroyed) {
+      throw new Error("IMAP connection closed");
+    }
+    socket.write(`${line}\r\n`);
+  };
+
+  const run = (
+    command: string,
+    params?: { label?: string; timeoutMs?: number; onContinuation?: () => void },
+  ): Promise<{ text: string; untagged: ImapResponse[] }> => {
+    if (pending) {
+      return Promise.reject(new Error("IMAP command already in progress"));
+    }
+    tagCounter += 1;
+    const tag = `A${tagCounter}`;
+    const label = params?.label ?? command.split(" ", 1)[0] ?? command;
+    return new Promise((resolve, reject) => {
+      const timeoutMs = params?.timeoutMs ?? commandTimeoutMs;
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              if (pending?.tag === tag) {
+                pending = null;
+              }
+              reject(new Error(`IMAP ${label} timed out after ${timeoutMs}ms`));
+              socket.destroy();
+            }, timeoutMs)
+          : null;
+      pending = {
+        tag,
+        label,
+        untagged: [],
+        onContinuation: params?.onContinuation,
+        resolve: (value) => {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          resolve(value);
+        },
+        reject: (error) => {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          reject(error);
+        },
+      };
+      try {
+        write(`${tag} ${command}`);
+      } catch (err) {
+        pending?.reject(toError(err));
+        pending = null;
+      }
+    });
+  };
+
+  const greetingText = new Promise<string>((resolve, reject) => {
+    greeting = { resolve, reject };
+  });
+  const connectTimer = setTimeout(() => {
+    failAll(new Error(`IMAP connect timed out after ${connectTimeoutMs}ms`));
+    socket.destroy();
+  }, connectTimeoutMs);
+  try {
+    const greetingLine = await greetingText;
+    if (!/^\* PREAUTH\b/i.test(greetingLine)) {
+      await run(`LOGIN ${quoteImapString(options.user)} ${quoteImapString(options.password)}`, {
+        label: "LOGIN",
+      });
+    }
+    capabilities.clear();
+    await run("CAPABILITY");
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  } finally {
+    clearTimeout(connectTimer);
+  }
+
+  const client: ImapClient = {
+    capabilities,
+    select: async (mailbox) => {
+      const { untagged } = await run(`SELECT ${quoteImapString(mailbox)}`, { label: "SELECT" });
+      let exists = 0;
+      let uidValidity: number | undefined;
+      for (const response of untagged) {
+        const existsMatch = response.text.match(/^\* (\d+) EXISTS/i);
+        if (existsMatch?.[1]) {
+          exists = Number.parseInt(existsMatch[1], 10);
+        }
+        const validity = response.text.match(/UIDVALIDITY (\d+)/i);
+        if (validity?.[1]) {
+          uidValidity = Number.parseInt(validity[1], 10);
+        }
+      }
+      return { exists, uidValidity };
+    },
+    searchUnseen: async () => {
+      const { untagged } = await run("UID SEARCH UNSEEN", { label: "SEARCH" });
+      const uids: number[] = [];
+      for (const response of untagged) {
+        const match = response.text.match(/^\* SEARCH\b(.*)$/i);
+        for (const token of match?.[1]?.trim().split(/\s+/) ?? []) {
+          const uid = Number.parseInt(token, 10);
+          if (Number.isFinite(uid) && uid > 0) {
+            uids.push(uid);
+          }
+        }
+      }
+      return uids.toSorted((a, b) => a - b);
+    },
+    fetchMessage: async (uid) => {
+      const { untagged } = await run(`UID FETCH ${uid} (BODY.PEEK[])`, { label: "FETCH" });
+      const response = untagged.find(
+        (entry) => /^\* \d+ FETCH\b/i.test(entry.text) && entry.literals.length > 0,
+      );
+      return response?.literals[0] ?? null;
+    },
+    markSeen: async (uid) => {
+      await run(`UID STORE ${uid} +FLAGS.SILENT (\\Seen)`, { label: "STORE" });
+    },
+    idle: async ({ timeoutMs, abortSignal }) => {
+      if (abortSignal?.aborted) {
+        return "aborted";
+      }
+      let result: ImapIdleResult = "timeout";
+      let idling = false;
+      let stopRequested = false;
+      const sendDone = () => {
+        try {
+          write("DONE");
+        } catch {
+          // The close handler settles the pending IDLE command.
+        }
+      };
+      const stop = (reason: ImapIdleResult) => {
+        if (stopRequested) {
+          return;
+        }
+        stopRequested = true;
+        result = reason;
+        if (idling) {
+          sendDone();
+        }
+      };
+      const onUntagged = (response: ImapResponse) => {
+        if (/^\* \d+ (EXISTS|RECENT)\b/i.test(response.text)) {
+          stop("exists");
+        }
+      };
+      const onAbort = () => stop("aborted");
+      untaggedListeners.add(onUntagged);
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+      const timer = setTimeout(() => stop("timeout"), timeoutMs);
+      try {
+        await run("IDLE", {
+          timeoutMs: 0,
+          onContinuation: () => {
+            idling = true;
+            if (stopRequested) {
+              sendDone();
+            }
+          },
+        });
+      } finally {
+        clearTimeout(timer);
+        abortSignal?.removeEventListener("abort", onAbort);
+        untaggedListeners.delete(onUntagged);
+      }
+      return result;
+    },
+    logout: async () => {
+      if (closed) {
+        return;
+      }
+      try {
+        await run("LOGOUT", { timeoutMs: 5000 });
+      } catch {
+        // Servers may close before the tagged OK; the connection is going away regardless.
+      } finally {
+        socket.destroy();
+      }
+    },
+    close: () => {
+      closed = true;
+      socket.destroy();
+    },
+    isClosed: () => closed || socket.destroyed,
+  };
+  return client;
+}
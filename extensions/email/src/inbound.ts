@@ -0,0 +1,288 @@
+import {
+  createNormalizedOutboundDeliverer,
+  createReplyPrefixOptions,
+  createScopedPairingAccess,
+  logInboundDrop,
+  readStoreAllowFromForDmPolicy,
+  resolveDmGroupAccessWithCommandGate,
+  resolveOutboundMediaUrls,
+  resolveThreadSessionKeys,
+  type OpenClawConfig,
+  type OutboundReplyPayload,
+  type RuntimeEnv,
+} from "openclaw/plugin-sdk";
+import type { ResolvedEmailAccount } from "./accounts.js";
+import { stripQuotedReply } from "./mime.js";
+import { isEmailSenderAllowed, normalizeEmailAllowlist } from "./normalize.js";
+import { getEmailRuntime } from "./runtime.js";
+import { rememberEmailMessage, sendMessageEmail } from "./send.js";
+import type { CoreConfig, EmailInboundMessage } from "./types.js";
+
+const CHANNEL_ID = "email" as const;
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+export function normalizeEmailThreadId(threadId: string): string {
+  return threadId.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+async function deliverEmailReply(params: {
+  payload: OutboundReplyPayload;
+  to: string;
+  replyTo: string;
+  accountId: string;
+  statusSink?: (patch: { lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { payload, to, replyTo, accountId, statusSink } = params;
+  const text = payload.text ?? "";
+  const mediaUrls = resolveOutboundMediaUrls(payload);
+  if (!text.trim() && mediaUrls.length === 0) {
+    return;
+  }
+  await sendMessageEmail(to, text, { accountId, replyTo, mediaUrls });
+  statusSink?.({ lastOutboundAt: Date.now() });
+}
+
+async function saveInboundAttachments(params: {
+  message: EmailInboundMessage;
+  account: ResolvedEmailAccount;
+  runtime: RuntimeEnv;
+}): Promise<Array<{ path: string; contentType?: string }>> {
+  const core = getEmailRuntime();
+  const maxBytes = (params.account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+  const saved: Array<{ path: string; contentType?: string }> = [];
+  for (const attachment of params.message.attachments) {
+    try {
+      const media = await core.channel.media.saveMediaBuffer(
+        attachment.content,
+        attachment.contentType,
+        "inbound",
+        maxBytes,
+        attachment.fileName,
+      );
+      saved.push({ path: media.path, contentType: media.contentType });
+    } catch (err) {
+      params.runtime.log?.(
+        `email: skipped attachment ${attachment.fileName ?? "(unnamed)"}: ${String(err)}`,
+      );
+    }
+  }
+  return saved;
+}
+
+export async function handleEmailInbound(params: {
+  message: EmailInboundMessage;
+  account: ResolvedEmailAccount;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { message, account, config, runtime, statusSink } = params;
+  const core = getEmailRuntime();
+  const pairing = createScopedPairingAccess({
+    core,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+
+  const senderId = message.fromAddress;
+  const senderName = message.fromName;
+  rememberEmailMessage({
+    messageId: message.messageId,
+    threadId: message.threadId,
+    subject: message.subject,
+    references: message.references,
+  });
+
+  const text = stripQuotedReply(message.text);
+  if (!text && message.attachments.length === 0) {
+    return;
+  }
+
+  statusSink?.({ lastInboundAt: message.timestamp });
+
+  const dmPolicy = account.config.dmPolicy ?? "allowlist";
+  const configAllowFrom = normalizeEmailAllowlist(account.config.allowFrom);
+  const storeAllowFrom = await readStoreAllowFromForDmPolicy({
+    provider: CHANNEL_ID,
+    accountId: account.accountId,
+    dmPolicy,
+    readStore: pairing.readStoreForDmPolicy,
+  });
+  const storeAllowList = normalizeEmailAllowlist(storeAllowFrom);
+
+  const allowTextCommands = core.channel.commands.shouldHandleTextCommands({
+    cfg: config as OpenClawConfig,
+    surface: CHANNEL_ID,
+  });
+  const useAccessGroups =
+    (config.commands as Record<string, unknown> | undefined)?.useAccessGroups !== false;
+  const hasControlCommand = core.channel.text.hasControlCommand(text, config as OpenClawConfig);
+  const access = resolveDmGroupAccessWithCommandGate({
+    isGroup: false,
+    dmPolicy,
+    allowFrom: configAllowFrom,
+    storeAllowFrom: storeAllowList,
+    isSenderAllowed: (allowFrom) => isEmailSenderAllowed({ allowFrom, senderAddress: senderId }),
+    command: {
+      useAccessGroups,
+      allowTextCommands,
+      hasControlCommand,
+    },
+  });
+
+  if (access.decision !== "allow") {
+    if (access.decision === "pairing") {
+      const { code, created } = await pairing.upsertPairingRequest({
+        id: senderId,
+        meta: { name: senderName || undefined },
+      });
+      if (created) {
+        try {
+          await sendMessageEmail(
+            senderId,
+            core.channel.pairing.buildPairingReply({
+              channel: CHANNEL_ID,
+              idLine: `Your email address: ${senderId}`,
+              code,
+            }),
+            { accountId: account.accountId, replyTo: message.messageId },
+          );
+          statusSink?.({ lastOutboundAt: Date.now() });
+        } catch (err) {
+          runtime.error?.(`email: pairing reply failed for ${senderId}: ${String(err)}`);
+        }
+      }
+    }
+    runtime.log?.(`email: drop sender ${senderId} (reason=${access.reason})`);
+    return;
+  }
+
+  if (access.shouldBlockControlCommand) {
+    logInboundDrop({
+      log: (line) => runtime.log?.(line),
+      channel: CHANNEL_ID,
+      reason: "control command (unauthorized)",
+      target: senderId,
+    });
+    return;
+  }
+
+  const media = await saveInboundAttachments({ message, account, runtime });
+  const rawBody = text || (media.length > 0 ? "<media:attachment>" : "");
+  if (!rawBody) {
+    return;
+  }
+
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg: config as OpenClawConfig,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+    peer: { kind: "direct", id: senderId },
+  });
+  // Every email thread gets its own session, keyed by the thread's root Message-ID.
+  const threadKeys = resolveThreadSessionKeys({
+    baseSessionKey: route.sessionKey,
+    threadId: message.threadId,
+    parentSessionKey: route.sessionKey,
+    normalizeThreadId: normalizeEmailThreadId,
+  });
+  const sessionKey = threadKeys.sessionKey;
+
+  const fromLabel = senderName ? `${senderName} <${senderId}>` : senderId;
+  const storePath = core.channel.session.resolveStorePath(
+    (config.session as Record<string, unknown> | undefined)?.store as string | undefined,
+    {
+      agentId: route.agentId,
+    },
+  );
+  const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(config as OpenClawConfig);
+  const previousTimestamp = core.channel.session.readSessionUpdatedAt({
+    storePath,
+    sessionKey,
+  });
+  const subjectLine = message.subject ? `Subject: ${message.subject}\n\n` : "";
+  const body = core.channel.reply.formatAgentEnvelope({
+    channel: "Email",
+    from: fromLabel,
+    timestamp: message.timestamp,
+    previousTimestamp,
+    envelope: envelopeOptions,
+    body: `${subjectLine}${rawBody}`,
+  });
+
+  const ctxPayload = core.channel.reply.finalizeInboundContext({
+    Body: body,
+    BodyForAgent: `${subjectLine}${rawBody}`,
+    RawBody: rawBody,
+    CommandBody: rawBody,
+    From: `email:${senderId}`,
+    To: `email:${account.address}`,
+    SessionKey: sessionKey,
+    ParentSessionKey: threadKeys.parentSessionKey,
+    AccountId: route.accountId,
+    ChatType: "direct",
+    ConversationLabel: fromLabel,
+    ThreadLabel: message.subject || undefined,
+    SenderName: senderName || undefined,
+    SenderId: senderId,
+    Provider: CHANNEL_ID,
+    Surface: CHANNEL_ID,
+    MessageSid: message.messageId,
+    ReplyToId: message.inReplyTo,
+    MessageThreadId: message.threadId,
+    Timestamp: message.timestamp,
+    MediaPath: media[0]?.path,
+    MediaType: media[0]?.contentType,
+    MediaPaths: media.length > 0 ? media.map((entry) => entry.path) : undefined,
+    MediaTypes:
+      media.length > 0
+        ? media.map((entry) => entry.contentType ?? "application/octet-stream")
+        : undefined,
+    OriginatingChannel: CHANNEL_ID,
+    OriginatingTo: `email:${senderId}`,
+    CommandAuthorized: access.commandAuthorized,
+  });
+
+  await core.channel.session.recordInboundSession({
+    storePath,
+    sessionKey: ctxPayload.SessionKey ?? sessionKey,
+    ctx: ctxPayload,
+    onRecordError: (err) => {
+      runtime.error?.(`email: failed updating session meta: ${String(err)}`);
+    },
+  });
+
+  const { onModelSelected, ...prefixOptions } = createReplyPrefixOptions({
+    cfg: config as OpenClawConfig,
+    agentId: route.agentId,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+  const deliverReply = createNormalizedOutboundDeliverer(async (payload) => {
+    await deliverEmailReply({
+      payload,
+      to: senderId,
+      replyTo: message.messageId,
+      accountId: account.accountId,
+      statusSink,
+    });
+  });
+
+  await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+    ctx: ctxPayload,
+    cfg: config as OpenClawConfig,
+    dispatcherOptions: {
+      ...prefixOptions,
+      deliver: deliverReply,
+      onError: (err, info) => {
+        runtime.error?.(`email ${info.kind} reply failed: ${String(err)}`);
+      },
+    },
+    replyOptions: {
+      onModelSelected,
+      // One email per reply unless block streaming is explicitly enabled.
+      disableBlockStreaming:
+        typeof account.config.blockStreaming === "boolean" ? !account.config.blockStreaming : true,
+    },
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEmailMessage,
+  buildReplySubject,
+  decodeMimeHeader,
+  parseEmailMessage,
+  resolveEmailThreadId,
+  stripQuotedReply,
+} from "./mime.js";
+
+function crlf(lines: string[]): string {
+  return lines.join("\r\n");
+}
+
+describe("email mime parsing", () => {
+  it("decodes encoded-word headers", () => {
+    expect(decodeMimeHeader("=?UTF-8?B?SGVsbG8gd8O2cmxk?=")).toBe("Hello wörld");
+    expect(decodeMimeHeader("=?iso-8859-1?Q?Caf=E9_menu?= today")).toBe("Café menu today");
+  });
+
+  it("parses threading headers and prefers the plain-text alternative", () => {
+    const parsed = parseEmailMessage(
+      crlf([
+        'From: "Alice" <Alice@Example.com>',
+        "To: bot@example.org",
+        "Subject: =?UTF-8?Q?Re:_Quarterly_r=C3=A9port?=",
+        "Message-ID: <m3@example.com>",
+        "In-Reply-To: <m2@example.org>",
+        "References: <m1@example.com>",
+        " <m2@example.org>",
+        'Content-Type: multipart/alternative; boundary="b1"',
+        "",
+        "--b1",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        "Looks good =E2=80=94 ship it.",
+        "",
+        "On Mon, Dec 1, 2025 at 9:00 AM Bot <bot@example.org> wrote:",
+        "> Here is the draft.",
+        "--b1",
+        "Content-Type: text/html",
+        "",
+        "<p>Looks good</p>",
+        "--b1--",
+        "",
+      ]),
+    );
+
+    expect(parsed.from).toEqual({ address: "alice@example.com", name: "Alice" });
+    expect(parsed.subject).toBe("Re: Quarterly réport");
+    expect(parsed.messageId).toBe("<m3@example.com>");
+    expect(parsed.inReplyTo).toBe("<m2@example.org>");
+    expect(parsed.references).toEqual(["<m1@example.com>", "<m2@example.org>"]);
+    expect(stripQuotedReply(parsed.text)).toBe("Looks good — ship it.");
+    expect(
+      resolveEmailThreadId({
+        messageId: "<m3@example.com>",
+        inReplyTo: parsed.inReplyTo,
+        references: parsed.references,
+      }),
+    ).toBe("<m1@example.com>");
+  });
+
+  it("collects attachments from multipart/mixed and flags automated mail", () => {
+    const parsed = parseEmailMessage(
+      crlf([
+        "From: reports@example.com",
+        "Subject: Weekly numbers",
+        "Auto-Submitted: auto-generated",
+        'Content-Type: multipart/mixed; boundary="outer"',
+        "",
+        "--outer",
+        "Content-Type: text/html; charset=utf-8",
+        "",
+        "<div>See&nbsp;attached<br>Thanks</div>",
+        "--outer",
+        'Content-Type: text/csv; name="numbers.csv"',
+        'Content-Disposition: attachment; filename="numbers.csv"',
+        "Content-Transfer-Encoding: base64",
+        "",
+        Buffer.from("a,b\n1,2\n").toString("base64"),
+        "--outer--",
+      ]),
+    );
+
+    expect(parsed.text).toBe("See attached\nThanks");
+    expect(parsed.autoSubmitted).toBe(true);
+    expect(parsed.attachments).toHaveLength(1);
+    expect(parsed.attachments[0]?.fileName).toBe("numbers.csv");
+    expect(parsed.attachments[0]?.contentType).toBe("text/csv");
+    expect(parsed.attachments[0]?.content.toString("utf-8")).toBe("a,b\n1,2\n");
+  });
+});
+
+describe("email mime building", () => {
+  it("builds replies that round-trip through the parser", () => {
+    const raw = buildEmailMessage({
+      from: { address: "bot@example.org", name: "Clawd Bot" },
+      to: "alice@example.com",
+      subject: buildReplySubject("Quarterly réport"),
+      text: `Done.\n.\nA long line ${"x".repeat(120)} with ünïcode`,
+      messageId: "<r1@example.org>",
+      inReplyTo: "<m3@example.com>",
+      references: ["<m1@example.com>", "<m3@example.com>"],
+      attachments: [
+        { fileName: "summary.txt", contentType: "text/plain", content: Buffer.from("hello") },
+      ],
+      date: new Date("2025-12-01T10:00:00Z"),
+    });
+
+    expect(raw).toContain("In-Reply-To: <m3@example.com>\r\n");
+    expect(raw).toContain("References: <m1@example.com>\r\n <m3@example.com>\r\n");
+    expect(raw).toContain("Auto-Submitted: auto-replied\r\n");
+    expect(raw.split("\r\n").every((line) => line.length <= 998)).toBe(true);
+
+    const parsed = parseEmailMessage(raw);
+    expect(parsed.subject).toBe("Re: Quarterly réport");
+    expect(parsed.from).toEqual({ address: "bot@example.org", name: "Clawd Bot" });
+    expect(parsed.text).toBe(`Done.\n.\nA long line ${"x".repeat(120)} with ünïcode`);
+    expect(parsed.attachments.map((entry) => entry.content.toString())).toEqual(["hello"]);
+  });
+
+  it("does not stack reply prefixes", () => {
+    expect(buildReplySubject("RE: status")).toBe("RE: status");
+    expect(buildReplySubject("status")).toBe("Re: status");
+  });
+});
@@ -0,0 +1,479 @@
+import { randomUUID } from "node:crypto";
+import type { EmailAttachment } from "./types.js";
+
+export type ParsedEmailAddress = {
+  address: string;
+  name?: string;
+};
+
+export type ParsedEmail = {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  from?: ParsedEmailAddress;
+  subject: string;
+  date?: number;
+  /** Plain-text body (HTML-only mail is flattened to text). */
+  text: string;
+  attachments: EmailAttachment[];
+  /** True for bounces and auto-replies that should never reach the agent. */
+  autoSubmitted: boolean;
+};
+
+type MimeHeaders = Map<string, string>;
+
+type MimePart = {
+  headers: MimeHeaders;
+  /** Raw body bytes held as a latin1 string so binary content survives splitting. */
+  body: string;
+};
+
+type ContentType = {
+  type: string;
+  params: Record<string, string>;
+};
+
+const CRLF = "\r\n";
+const MAX_MULTIPART_DEPTH = 8;
+
+function splitHeaderBlock(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) {
+    return { head: raw, body: "" };
+  }
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaderBlock(head: string): MimeHeaders {
+  const headers: MimeHeaders = new Map();
+  const unfolded = head.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+  return headers;
+}
+
+function parseMimePart(raw: string): MimePart {
+  const { head, body } = splitHeaderBlock(raw);
+  return { headers: parseHeaderBlock(head), body };
+}
+
+function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [first = "", ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  for (const segment of rest) {
+    const eq = segment.indexOf("=");
+    if (eq <= 0) {
+      continue;
+    }
+    const key = segment.slice(0, eq).trim().toLowerCase().replace(/\*$/, "");
+    let paramValue = segment.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1);
+    }
+    // RFC 2231 extended values (filename*=utf-8''name.pdf).
+    const extended = paramValue.match(/^([\w-]+)'[\w-]*'(.*)$/);
+    if (extended?.[2] !== undefined) {
+      try {
+        paramValue = decodeURIComponent(extended[2]);
+      } catch {
+        paramValue = extended[2];
+      }
+    }
+    params[key] = paramValue;
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function parseContentType(value?: string): ContentType {
+  const parsed = parseHeaderParams(value || "text/plain");
+  return { type: parsed.value || "text/plain", params: parsed.params };
+}
+
+function decodeCharset(bytes: Buffer, charset?: string): string {
+  const label = charset?.trim().toLowerCase() || "utf-8";
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString("utf-8");
+  }
+}
+
+function decodeQuotedPrintableBytes(input: string): Buffer {
+  const withoutSoftBreaks = input.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < withoutSoftBreaks.length; i += 1) {
+    const char = withoutSoftBreaks[i];
+    const hex = withoutSoftBreaks.slice(i + 1, i + 3);
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      i += 2;
+      continue;
+    }
+    bytes.push(withoutSoftBreaks.charCodeAt(i) & 0xff);
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransferEncoding(body: string, encoding?: string): Buffer {
+  const normalized = encoding?.trim().toLowerCase();
+  if (normalized === "base64") {
+    return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  }
+  if (normalized === "quoted-printable") {
+    return decodeQuotedPrintableBytes(body);
+  }
+  return Buffer.from(body, "latin1");
+}
+
+/** Decodes RFC 2047 encoded-words (`=?utf-8?B?...?=`) in a header value. */
+export function decodeMimeHeader(value: string): string {
+  const joined = value.replace(/(\?=)\s+(=\?)/g, "$1$2");
+  return joined.replace(
+    /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+    (_match, charset: string, mode: string, text: string) => {
+      const bytes =
+        mode.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintableBytes(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset.split("*", 1)[0]);
+    },
+  );
+}
+
+/** Extracts `<id@host>` tokens from Message-ID, In-Reply-To and References headers. */
+export function parseMessageIds(value?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+export function parseEmailAddress(value?: string): ParsedEmailAddress | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const decoded = decodeMimeHeader(value).trim();
+  const angle = decoded.match(/^(.*)<([^<>]+)>\s*$/);
+  if (angle) {
+    const name = angle[1]
+      ?.trim()
+      .replace(/^"(.*)"$/, "$1")
+      .trim();
+    return { address: angle[2]?.trim().toLowerCase() ?? "", name: name || undefined };
+  }
+  const bare = decoded.replace(/\(.*\)/g, "").trim();
+  return bare ? { address: bare.toLowerCase() } : undefined;
+}
+
+function decodeTextPart(part: MimePart): string {
+  const contentType = parseContentType(part.headers.get("content-type"));
+  const bytes = decodeTransferEncoding(part.body, part.headers.get("content-transfer-encoding"));
+  return decodeCharset(bytes, contentType.params.charset).replace(/\r\n/g, "\n");
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line.startsWith(delimiter)) {
+      if (current) {
+        parts.push(current.join(CRLF));
+      }
+      if (line.slice(delimiter.length).startsWith("--")) {
+        current = null;
+        break;
+      }
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) {
+    parts.push(current.join(CRLF));
+  }
+  return parts;
+}
+
+type CollectedContent = {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+};
+
+function collectContent(part: MimePart, out: CollectedContent, depth: number) {
+  const contentType = parseContentType(part.headers.get("content-type"));
+  const disposition = parseHeaderParams(part.headers.get("content-disposition") ?? "");
+  const fileName = disposition.params.filename ?? contentType.params.name;
+
+  if (contentType.type.startsWith("multipart/") && contentType.params.boundary) {
+    if (depth >= MAX_MULTIPART_DEPTH) {
+      return;
+    }
+    const children = splitMultipart(part.body, contentType.params.boundary).map(parseMimePart);
+    if (contentType.type === "multipart/alternative") {
+      // Prefer the plain-text alternative and only fall back to HTML.
+      const plain = children.find((child) =>
+        parseContentType(child.headers.get("content-type")).type.startsWith("text/plain"),
+      );
+      const chosen =
+        plain ??
+        children.find((child) =>
+          parseContentType(child.headers.get("content-type")).type.startsWith("text/html"),
+        ) ??
+        children[0];
+      if (chosen) {
+        collectContent(chosen, out, depth + 1);
+      }
+      return;
+    }
+    for (const child of children) {
+      collectContent(child, out, depth + 1);
+    }
+    return;
+  }
+
+  const isAttachment = disposition.value === "attachment" || Boolean(fileName);
+  if (!isAttachment && contentType.type === "text/plain") {
+    out.plain.push(decodeTextPart(part));
+    return;
+  }
+  if (!isAttachment && contentType.type === "text/html") {
+    out.html.push(decodeTextPart(part));
+    return;
+  }
+  out.attachments.push({
+    fileName: fileName ? decodeMimeHeader(fileName) : undefined,
+    contentType: contentType.type,
+    content: decodeTransferEncoding(part.body, part.headers.get("content-transfer-encoding")),
+  });
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+wrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+  /^_{10,}\s*$/,
+];
+
+/**
+ * Drops the quoted history that mail clients append below a reply so the agent only sees the
+ * new text. The full thread already lives in the session transcript.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let end = lines.length;
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i]?.trim() ?? "";
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(line))) {
+      end = i;
+      break;
+    }
+    if (line.startsWith(">") && lines.slice(i).every((rest) => !rest.trim() || /^>/.test(rest))) {
+      end = i;
+      break;
+    }
+  }
+  const kept = lines.slice(0, end);
+  // Mail signatures start with "-- " on their own line.
+  const signature = kept.findIndex((line) => line === "-- ");
+  return (signature >= 0 ? kept.slice(0, signature) : kept).join("\n").trim();
+}
+
+export function parseEmailMessage(raw: Buffer | string): ParsedEmail {
+  const source = typeof raw === "string" ? Buffer.from(raw, "utf-8") : raw;
+  const root = parseMimePart(source.toString("latin1"));
+  const collected: CollectedContent = { plain: [], html: [], attachments: [] };
+  collectContent(root, collected, 0);
+
+  const plain = collected.plain.join("\n\n").trim();
+  const text = plain || htmlToText(collected.html.join("\n"));
+  const headers = root.headers;
+  const dateHeader = headers.get("date");
+  const parsedDate = dateHeader ? Date.parse(dateHeader) : Number.NaN;
+  const autoSubmitted = headers.get("auto-submitted")?.toLowerCase();
+  const precedence = headers.get("precedence")?.toLowerCase();
+  const subjectRaw = headers.get("subject");
+
+  return {
+    messageId: parseMessageIds(headers.get("message-id"))[0],
+    inReplyTo: parseMessageIds(headers.get("in-reply-to"))[0],
+    references: parseMessageIds(headers.get("references")),
+    from: parseEmailAddress(headers.get("from")),
+    subject: subjectRaw ? decodeMimeHeader(subjectRaw).trim() : "",
+    date: Number.isFinite(parsedDate) ? parsedDate : undefined,
+    text,
+    attachments: collected.attachments,
+    autoSubmitted:
+      (autoSubmitted !== undefined && autoSubmitted !== "no") ||
+      precedence === "bulk" ||
+      precedence === "junk" ||
+      precedence === "auto_reply",
+  };
+}
+
+/** The first Message-ID in the chain identifies the thread for session routing. */
+export function resolveEmailThreadId(params: {
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+}): string {
+  return params.references[0] ?? params.inReplyTo ?? params.messageId;
+}
+
+export function buildReplySubject(subject: string): string {
+  const trimmed = subject.trim();
+  if (!trimmed) {
+    return "Re:";
+  }
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+export function createEmailMessageId(address: string): string {
+  const domain = address.includes("@") ? address.slice(address.lastIndexOf("@") + 1) : "openclaw";
+  return `<${randomUUID()}@${domain || "openclaw"}>`;
+}
+
+function encodeHeaderValue(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(clean)) {
+    return clean;
+  }
+  return `=?UTF-8?B?${Buffer.from(clean, "utf-8").toString("base64")}?=`;
+}
+
+export function formatEmailAddress(params: { address: string; name?: string }): string {
+  if (!params.name?.trim()) {
+    return params.address;
+  }
+  const name = params.name.trim();
+  const encoded = encodeHeaderValue(name);
+  const quoted = encoded === name ? `"${name.replace(/["\\]/g, "\\$&")}"` : encoded;
+  return `${quoted} <${params.address}>`;
+}
+
+export function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line, "utf-8");
+      let out = "";
+      let current = "";
+      for (let i = 0; i < bytes.length; i += 1) {
+        const byte = bytes[i] ?? 0;
+        const isLast = i === bytes.length - 1;
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        if (current.length + token.length > 75) {
+          out += `${current}=${CRLF}`;
+          current = "";
+        }
+        current += token;
+      }
+      return out + current;
+    })
+    .join(CRLF);
+}
+
+function wrapBase64(content: Buffer): string {
+  return (content.toString("base64").match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+export type BuildEmailMessageParams = {
+  from: { address: string; name?: string };
+  to: string;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: EmailAttachment[];
+  date?: Date;
+};
+
+/** Builds an RFC 5322 message (CRLF line endings) with threading headers and attachments. */
+export function buildEmailMessage(params: BuildEmailMessageParams): string {
+  const headers = [
+    `From: ${formatEmailAddress(params.from)}`,
+    `To: ${params.to}`,
+    `Subject: ${encodeHeaderValue(params.subject)}`,
+    `Date: ${(params.date ?? new Date()).toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: ${params.messageId}`,
+  ];
+  if (params.inReplyTo) {
+    headers.push(`In-Reply-To: ${params.inReplyTo}`);
+  }
+  if (params.references?.length) {
+    headers.push(`References: ${params.references.join(`${CRLF} `)}`);
+  }
+  // Marks agent mail as automated so other responders do not loop on it (RFC 3834).
+  headers.push(
+    "MIME-Version: 1.0",
+    `Auto-Submitted: ${params.inReplyTo ? "auto-replied" : "auto-generated"}`,
+  );
+
+  const textHeaders = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+  ];
+  const textBody = encodeQuotedPrintable(params.text);
+  const attachments = params.attachments ?? [];
+  if (attachments.length === 0) {
+    return [...headers, ...textHeaders, "", textBody, ""].join(CRLF);
+  }
+
+  const boundary = `openclaw-${randomUUID()}`;
+  const lines = [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textHeaders,
+    "",
+    textBody,
+  ];
+  for (const attachment of attachments) {
+    const fileName = encodeHeaderValue(attachment.fileName?.trim() || "attachment").replace(
+      /"/g,
+      "",
+    );
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType || "application/octet-stream"}; name="${fileName}"`,
+      `Content-Disposition: attachment; filename="${fileName}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(attachment.content),
+    );
+  }
+  lines.push(`--${boundary}--`, "");
+  return lines.join(CRLF);
+}
@@ -0,0 +1,190 @@
+import { createLoggerBackedRuntime, type RuntimeEnv } from "openclaw/plugin-sdk";
+import { resolveEmailAccount, type ResolvedEmailAccount } from "./accounts.js";
+import { connectImapClient, type ImapClient } from "./imap.js";
+import { handleEmailInbound } from "./inbound.js";
+import { parseEmailMessage, resolveEmailThreadId } from "./mime.js";
+import { getEmailRuntime } from "./runtime.js";
+import type { CoreConfig, EmailInboundMessage } from "./types.js";
+
+export type EmailMonitorOptions = {
+  accountId?: string;
+  config?: CoreConfig;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+  onMessage?: (message: EmailInboundMessage) => void | Promise<void>;
+};
+
+// Servers drop IDLE sessions after 30 minutes (RFC 2177); re-issue well before that.
+const IDLE_REFRESH_MS = 25 * 60 * 1000;
+const RECONNECT_BASE_MS = 2000;
+const RECONNECT_MAX_MS = 60_000;
+
+function waitWithAbort(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  if (abortSignal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", done);
+      resolve();
+    }
+    abortSignal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Converts a fetched RFC 5322 message into an inbound event. Returns null for our own mail,
+ * auto-replies and bounces so they never reach the agent (and cannot start reply loops).
+ */
+export function toEmailInboundMessage(params: {
+  uid: number;
+  raw: Buffer;
+  account: Pick<ResolvedEmailAccount, "address">;
+  fallbackIdPrefix?: string;
+}): EmailInboundMessage | null {
+  const parsed = parseEmailMessage(params.raw);
+  const fromAddress = parsed.from?.address;
+  if (!fromAddress || fromAddress === params.account.address || parsed.autoSubmitted) {
+    return null;
+  }
+  const domain = params.account.address.split("@")[1] || "openclaw";
+  const messageId =
+    parsed.messageId ?? `<imap-${params.fallbackIdPrefix ?? "0"}-${params.uid}@${domain}>`;
+  return {
+    uid: params.uid,
+    messageId,
+    threadId: resolveEmailThreadId({
+      messageId,
+      inReplyTo: parsed.inReplyTo,
+      references: parsed.references,
+    }),
+    inReplyTo: parsed.inReplyTo,
+    references: parsed.references,
+    fromAddress,
+    fromName: parsed.from?.name,
+    subject: parsed.subject,
+    text: parsed.text,
+    attachments: parsed.attachments,
+    timestamp: parsed.date ?? Date.now(),
+  };
+}
+
+export async function monitorEmailProvider(opts: EmailMonitorOptions): Promise<void> {
+  const core = getEmailRuntime();
+  const cfg = opts.config ?? (core.config.loadConfig() as CoreConfig);
+  const account = resolveEmailAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+
+  const runtime: RuntimeEnv =
+    opts.runtime ??
+    createLoggerBackedRuntime({
+      logger: core.logging.getChildLogger(),
+      exitError: () => new Error("Runtime exit not available"),
+    });
+
+  if (!account.configured) {
+    throw new Error(
+      `Email is not configured for account "${account.accountId}" (need address, imap.host and smtp.host in channels.email).`,
+    );
+  }
+
+  const logger = core.logging.getChildLogger({
+    channel: "email",
+    accountId: account.accountId,
+  });
+
+  const dispatch = (message: EmailInboundMessage) => {
+    core.channel.activity.record({
+      channel: "email",
+      accountId: account.accountId,
+      direction: "inbound",
+      at: message.timestamp,
+    });
+    const task = opts.onMessage
+      ? opts.onMessage(message)
+      : handleEmailInbound({
+          message,
+          account,
+          config: cfg,
+          runtime,
+          statusSink: opts.statusSink,
+        });
+    // Agent turns can take minutes; keep the mailbox loop responsive while they run.
+    void Promise.resolve(task).catch((err) => {
+      logger.error(`[${account.accountId}] email handler failed: ${String(err)}`);
+    });
+  };
+
+  const processUnseen = async (client: ImapClient, uidValidity?: number) => {
+    for (const uid of await client.searchUnseen()) {
+      if (opts.abortSignal?.aborted) {
+        return;
+      }
+      const raw = await client.fetchMessage(uid);
+      // Mark first so a message that crashes the handler is not redelivered forever.
+      await client.markSeen(uid);
+      if (!raw) {
+        continue;
+      }
+      const message = toEmailInboundMessage({
+        uid,
+        raw,
+        account,
+        fallbackIdPrefix: uidValidity !== undefined ? String(uidValidity) : undefined,
+      });
+      if (!message) {
+        if (core.logging.shouldLogVerbose()) {
+          logger.debug?.(`[${account.accountId}] skipped uid ${uid} (own or automated mail)`);
+        }
+        continue;
+      }
+      dispatch(message);
+    }
+  };
+
+  let attempt = 0;
+  while (!opts.abortSignal?.aborted) {
+    let client: ImapClient | null = null;
+    try {
+      client = await connectImapClient({
+        ...account.imap,
+        onLine: (line) => {
+          if (core.logging.shouldLogVerbose()) {
+            logger.debug?.(`[${account.accountId}] << ${line.slice(0, 200)}`);
+          }
+        },
+      });
+      const { uidValidity } = await client.select(account.imap.mailbox);
+      const useIdle = account.imap.idle && client.capabilities.has("IDLE");
+      logger.info(
+        `[${account.accountId}] watching ${account.imap.mailbox} on ${account.imap.host}:${account.imap.port} (${useIdle ? "idle" : "poll"})`,
+      );
+      attempt = 0;
+      while (!opts.abortSignal?.aborted) {
+        await processUnseen(client, uidValidity);
+        if (useIdle) {
+          await client.idle({ timeoutMs: IDLE_REFRESH_MS, abortSignal: opts.abortSignal });
+        } else {
+          await waitWithAbort(account.imap.pollIntervalMs, opts.abortSignal);
+        }
+      }
+    } catch (err) {
+      if (opts.abortSignal?.aborted) {
+        break;
+      }
+      attempt += 1;
+      const delayMs = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+      logger.error(
+        `[${account.accountId}] IMAP error: ${String(err)}; reconnecting in ${Math.round(delayMs / 1000)}s`,
+      );
+      await waitWithAbort(delayMs, opts.abortSignal);
+    } finally {
+      await client?.logout();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  isEmailSenderAllowed,
+  normalizeEmailAddress,
+  normalizeEmailAllowEntry,
+  normalizeEmailMessagingTarget,
+} from "./normalize.js";
+
+describe("email normalize", () => {
+  it("extracts bare lowercase addresses from common forms", () => {
+    expect(normalizeEmailAddress("Alice@Example.com")).toBe("alice@example.com");
+    expect(normalizeEmailAddress('"Alice B" <alice@example.com>')).toBe("alice@example.com");
+    expect(normalizeEmailAddress("mailto:alice@example.com?subject=hi")).toBe("alice@example.com");
+    expect(normalizeEmailMessagingTarget("email:bob@example.org")).toBe("bob@example.org");
+    expect(normalizeEmailAddress("not an address")).toBeUndefined();
+    expect(normalizeEmailAddress("missing@tld")).toBeUndefined();
+  });
+
+  it("keeps wildcard and domain allowlist entries", () => {
+    expect(normalizeEmailAllowEntry("*")).toBe("*");
+    expect(normalizeEmailAllowEntry("@Example.com")).toBe("@example.com");
+    expect(normalizeEmailAllowEntry("email:Alice@Example.com")).toBe("alice@example.com");
+    expect(normalizeEmailAllowEntry("@nodot")).toBe("");
+  });
+
+  it("matches senders by address or domain", () => {
+    expect(
+      isEmailSenderAllowed({
+        allowFrom: ["alice@example.com"],
+        senderAddress: "Alice@example.com",
+      }),
+    ).toBe(true);
+    expect(
+      isEmailSenderAllowed({ allowFrom: ["@example.com"], senderAddress: "carol@example.com" }),
+    ).toBe(true);
+    expect(
+      isEmailSenderAllowed({ allowFrom: ["@example.com"], senderAddress: "eve@evil-example.com" }),
+    ).toBe(false);
+    expect(isEmailSenderAllowed({ allowFrom: [], senderAddress: "alice@example.com" })).toBe(false);
+    expect(isEmailSenderAllowed({ allowFrom: ["*"], senderAddress: "anyone@example.net" })).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { isNormalizedSenderAllowed } from "openclaw/plugin-sdk";
+
+const EMAIL_PREFIX_RE = /^(email|mailto):/i;
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+\.[^\s@<>()",;:]+$/u;
+
+function stripEmailPrefix(raw: string): string {
+  return raw.trim().replace(EMAIL_PREFIX_RE, "").trim();
+}
+
+/** Returns the bare, lowercased address from `addr`, `Name <addr>`, `email:addr` or `mailto:addr`. */
+export function normalizeEmailAddress(raw: string): string | undefined {
+  let value = stripEmailPrefix(raw);
+  const angle = value.match(/<([^<>]+)>\s*$/);
+  if (angle?.[1]) {
+    value = stripEmailPrefix(angle[1]);
+  }
+  value = value.split("?", 1)[0]?.trim().toLowerCase() ?? "";
+  if (!EMAIL_ADDRESS_PATTERN.test(value)) {
+    return undefined;
+  }
+  return value;
+}
+
+export function looksLikeEmailTargetId(raw: string): boolean {
+  return normalizeEmailAddress(raw) !== undefined;
+}
+
+export function normalizeEmailMessagingTarget(raw: string): string | undefined {
+  return normalizeEmailAddress(raw);
+}
+
+/**
+ * Allowlist entries are full addresses or `@domain` wildcards; `*` allows everyone.
+ */
+export function normalizeEmailAllowEntry(raw: string): string {
+  const value = stripEmailPrefix(raw).toLowerCase();
+  if (!value || value === "*") {
+    return value;
+  }
+  if (value.startsWith("@")) {
+    return /^@[^\s@]+\.[^\s@]+$/u.test(value) ? value : "";
+  }
+  return normalizeEmailAddress(value) ?? "";
+}
+
+export function normalizeEmailAllowlist(entries?: Array<string | number>): string[] {
+  return (entries ?? []).map((entry) => normalizeEmailAllowEntry(String(entry))).filter(Boolean);
+}
+
+export function isEmailSenderAllowed(params: {
+  allowFrom: Array<string | number>;
+  senderAddress: string;
+}): boolean {
+  const allowFrom = normalizeEmailAllowlist(params.allowFrom);
+  const sender = normalizeEmailAddress(params.senderAddress);
+  if (!sender) {
+    return false;
+  }
+  if (isNormalizedSenderAllowed({ senderId: sender, allowFrom })) {
+    return true;
+  }
+  const domain = sender.slice(sender.lastIndexOf("@"));
+  return allowFrom.includes(domain);
+}
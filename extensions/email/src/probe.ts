@@ -0,0 +1,55 @@
+import { resolveEmailAccount } from "./accounts.js";
+import { connectImapClient } from "./imap.js";
+import { openSmtpSession } from "./smtp.js";
+import type { CoreConfig, EmailProbe } from "./types.js";
+
+function formatError(err: unknown): string {
+  if (err instanceof Error) {
+    return err.message;
+  }
+  return typeof err === "string" ? err : JSON.stringify(err);
+}
+
+export async function probeEmail(
+  cfg: CoreConfig,
+  opts?: { accountId?: string; timeoutMs?: number },
+): Promise<EmailProbe> {
+  const account = resolveEmailAccount({ cfg, accountId: opts?.accountId });
+  const base: EmailProbe = {
+    ok: false,
+    imapHost: account.imap.host,
+    smtpHost: account.smtp.host,
+    address: account.address,
+  };
+
+  if (!account.configured) {
+    return {
+      ...base,
+      error: "missing address, imap.host or smtp.host",
+    };
+  }
+
+  const timeoutMs = opts?.timeoutMs ?? 8000;
+  const started = Date.now();
+  try {
+    const imap = await connectImapClient({
+      ...account.imap,
+      connectTimeoutMs: timeoutMs,
+      commandTimeoutMs: timeoutMs,
+    });
+    await imap.logout();
+  } catch (err) {
+    return { ...base, error: `imap: ${formatError(err)}` };
+  }
+  try {
+    const smtp = await openSmtpSession({ ...account.smtp, timeoutMs });
+    await smtp.quit();
+  } catch (err) {
+    return { ...base, error: `smtp: ${formatError(err)}` };
+  }
+  return {
+    ...base,
+    ok: true,
+    latencyMs: Date.now() - started,
+  };
+}
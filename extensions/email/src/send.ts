@@ -0,0 +1,186 @@
+import { resolveEmailAccount } from "./accounts.js";
+import { buildEmailMessage, buildReplySubject, createEmailMessageId } from "./mime.js";
+import { normalizeEmailMessagingTarget } from "./normalize.js";
+import { getEmailRuntime } from "./runtime.js";
+import { sendSmtpMail } from "./smtp.js";
+import type { CoreConfig, EmailAttachment } from "./types.js";
+
+type SendEmailOptions = {
+  accountId?: string;
+  /** Message-ID being answered; sets In-Reply-To and extends References. */
+  replyTo?: string;
+  /** Thread root Message-ID, used when the exact message being answered is unknown. */
+  threadId?: string;
+  subject?: string;
+  mediaUrls?: string[];
+  mediaLocalRoots?: readonly string[];
+};
+
+export type SendEmailResult = {
+  messageId: string;
+  to: string;
+  threadId: string;
+};
+
+export type EmailThreadContext = {
+  messageId: string;
+  threadId: string;
+  subject: string;
+  references: string[];
+};
+
+const DEFAULT_MEDIA_MAX_MB = 20;
+const MAX_REMEMBERED_MESSAGES = 1000;
+const rememberedMessages = new Map<string, EmailThreadContext>();
+
+/**
+ * Keeps recent message headers so replies can carry In-Reply-To/References and the original
+ * subject without refetching the thread from IMAP.
+ */
+export function rememberEmailMessage(context: EmailThreadContext) {
+  rememberedMessages.delete(context.messageId);
+  rememberedMessages.set(context.messageId, context);
+  if (context.threadId !== context.messageId && !rememberedMessages.has(context.threadId)) {
+    rememberedMessages.set(context.threadId, context);
+  }
+  while (rememberedMessages.size > MAX_REMEMBERED_MESSAGES) {
+    const oldest = rememberedMessages.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    rememberedMessages.delete(oldest);
+  }
+}
+
+function resolveThreadContext(opts: SendEmailOptions): EmailThreadContext | undefined {
+  const replyTo = opts.replyTo?.trim();
+  if (replyTo) {
+    const known = rememberedMessages.get(replyTo);
+    if (known) {
+      return known;
+    }
+  }
+  const threadId = opts.threadId?.trim();
+  if (threadId) {
+    // Answer the latest message we know of in the thread.
+    let latest = rememberedMessages.get(threadId);
+    for (const context of rememberedMessages.values()) {
+      if (context.threadId === threadId) {
+        latest = context;
+      }
+    }
+    if (latest) {
+      return latest;
+    }
+  }
+  if (replyTo && /^<[^<>\s]+>$/.test(replyTo)) {
+    // Unknown message (e.g. after a restart): thread by id and fall back to a fresh subject.
+    return {
+      messageId: replyTo,
+      threadId: threadId || replyTo,
+      subject: "",
+      references: threadId && threadId !== replyTo ? [threadId] : [],
+    };
+  }
+  return undefined;
+}
+
+async function loadAttachments(params: {
+  mediaUrls: string[];
+  maxBytes: number;
+  localRoots?: readonly string[];
+}): Promise<EmailAttachment[]> {
+  const runtime = getEmailRuntime();
+  const attachments: EmailAttachment[] = [];
+  for (const mediaUrl of params.mediaUrls) {
+    // Attachments are sent as-is; image optimization is for chat previews, not mail.
+    const media = await runtime.media.loadWebMedia(mediaUrl, {
+      maxBytes: params.maxBytes,
+      optimizeImages: false,
+      localRoots: params.localRoots,
+    });
+    attachments.push({
+      fileName: media.fileName,
+      contentType: media.contentType ?? "application/octet-stream",
+      content: media.buffer,
+    });
+  }
+  return attachments;
+}
+
+export async function sendMessageEmail(
+  to: string,
+  text: string,
+  opts: SendEmailOptions = {},
+): Promise<SendEmailResult> {
+  const runtime = getEmailRuntime();
+  const cfg = runtime.config.loadConfig() as CoreConfig;
+  const account = resolveEmailAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+
+  if (!account.configured) {
+    throw new Error(
+      `Email is not configured for account "${account.accountId}" (need address, imap.host and smtp.host in channels.email).`,
+    );
+  }
+
+  const recipient = normalizeEmailMessagingTarget(to);
+  if (!recipient) {
+    throw new Error(`Invalid email target: ${to}`);
+  }
+
+  const tableMode = runtime.channel.text.resolveMarkdownTableMode({
+    cfg,
+    channel: "email",
+    accountId: account.accountId,
+  });
+  const body = runtime.channel.text.convertMarkdownTables(text.trim(), tableMode);
+  const mediaUrls = (opts.mediaUrls ?? []).filter((url) => url.trim());
+  if (!body.trim() && mediaUrls.length === 0) {
+    throw new Error("Message must be non-empty for email sends");
+  }
+
+  const attachments = await loadAttachments({
+    mediaUrls,
+    maxBytes: (account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024,
+    localRoots: opts.mediaLocalRoots,
+  });
+
+  const thread = resolveThreadContext(opts);
+  const messageId = createEmailMessageId(account.address);
+  const subject = thread?.subject
+    ? buildReplySubject(thread.subject)
+    : opts.subject?.trim() ||
+      account.config.defaultSubject?.trim() ||
+      `Message from ${account.displayName ?? "OpenClaw"}`;
+  const references = thread ? [...thread.references, thread.messageId] : [];
+
+  const data = buildEmailMessage({
+    from: { address: account.address, name: account.displayName },
+    to: recipient,
+    subject,
+    text: body,
+    messageId,
+    inReplyTo: thread?.messageId,
+    references,
+    attachments,
+  });
+
+  await sendSmtpMail({
+    ...account.smtp,
+    clientName: account.address.split("@")[1],
+    envelope: { from: account.address, recipients: [recipient], data },
+  });
+
+  const threadId = thread?.threadId ?? messageId;
+  rememberEmailMessage({ messageId, threadId, subject, references });
+  runtime.channel.activity.record({
+    channel: "email",
+    accountId: account.accountId,
+    direction: "outbound",
+  });
+
+  return { messageId, to: recipient, threadId };
+}
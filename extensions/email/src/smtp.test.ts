@@ -0,0 +1,160 @@
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { dotStuff, sendSmtpMail } from "./smtp.js";
+
+type FakeSmtpServer = {
+  port: number;
+  commands: string[];
+  messages: string[];
+  close: () => Promise<void>;
+};
+
+async function startFakeSmtpServer(params: { auth: string }): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.write("220 fake.smtp ESMTP\r\n");
+    let buffer = "";
+    let data: string[] | null = null;
+    let loginStep = 0;
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf-8");
+      let lineEnd = buffer.indexOf("\r\n");
+      while (lineEnd >= 0) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        if (data) {
+          if (line === ".") {
+            messages.push(data.join("\r\n"));
+            data = null;
+            socket.write("250 2.0.0 queued\r\n");
+          } else {
+            data.push(line);
+          }
+        } else {
+          commands.push(line);
+          if (loginStep === 1) {
+            loginStep = 2;
+            socket.write("334 UGFzc3dvcmQ6\r\n");
+          } else if (loginStep === 2) {
+            loginStep = 0;
+            socket.write("235 2.7.0 accepted\r\n");
+          } else if (line.startsWith("EHLO")) {
+            socket.write(`250-fake.smtp\r\n250-AUTH ${params.auth}\r\n250 8BITMIME\r\n`);
+          } else if (line.startsWith("AUTH PLAIN")) {
+            socket.write("235 2.7.0 accepted\r\n");
+          } else if (line === "AUTH LOGIN") {
+            loginStep = 1;
+            socket.write("334 VXNlcm5hbWU6\r\n");
+          } else if (line.startsWith("MAIL FROM") || line.startsWith("RCPT TO")) {
+            socket.write("250 ok\r\n");
+          } else if (line === "DATA") {
+            data = [];
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.write("221 bye\r\n");
+            socket.end();
+          } else {
+            socket.write("502 unknown\r\n");
+          }
+        }
+        lineEnd = buffer.indexOf("\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address() as net.AddressInfo;
+  return {
+    port: address.port,
+    commands,
+    messages,
+    close: async () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+describe("smtp client", () => {
+  let server: FakeSmtpServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("dot-stuffs lines that start with a period", () => {
+    expect(dotStuff("a\n.b\r\n..c")).toBe("a\r\n..b\r\n...c\r\n");
+  });
+
+  it("authenticates with PLAIN and delivers the message", async () => {
+    server = await startFakeSmtpServer({ auth: "PLAIN LOGIN" });
+    const reply = await sendSmtpMail({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      starttls: false,
+      user: "bot@example.org",
+      password: "secret",
+      clientName: "example.org",
+      envelope: {
+        from: "bot@example.org",
+        recipients: ["alice@example.com"],
+        data: "Subject: hi\r\n\r\nline one\r\n.hidden dot\r\n",
+      },
+    });
+
+    expect(reply.code).toBe(250);
+    expect(server.commands).toEqual([
+      "EHLO example.org",
+      `AUTH PLAIN ${Buffer.from("\0bot@example.org\0secret").toString("base64")}`,
+      "MAIL FROM:<bot@example.org>",
+      "RCPT TO:<alice@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(server.messages).toEqual(["Subject: hi\r\n\r\nline one\r\n..hidden dot"]);
+  });
+
+  it("falls back to AUTH LOGIN and surfaces rejected commands", async () => {
+    server = await startFakeSmtpServer({ auth: "LOGIN" });
+    await expect(
+      sendSmtpMail({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+        starttls: false,
+        user: "bot",
+        password: "secret",
+        envelope: { from: "bot@example.org", recipients: [], data: "x" },
+      }),
+    ).rejects.toThrow("at least one recipient");
+    expect(server.commands.slice(1, 4)).toEqual([
+      "AUTH LOGIN",
+      Buffer.from("bot").toString("base64"),
+      Buffer.from("secret").toString("base64"),
+    ]);
+  });
+
+  it("refuses to authenticate when STARTTLS is required but not offered", async () => {
+    server = await startFakeSmtpServer({ auth: "PLAIN LOGIN" });
+    await expect(
+      sendSmtpMail({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+        starttls: true,
+        user: "bot",
+        password: "secret",
+        clientName: "example.org",
+        envelope: { from: "bot@example.org", recipients: ["alice@example.com"], data: "x" },
+      }),
+    ).rejects.toThrow("SMTP server does not offer STARTTLS");
+    expect(server.commands).toEqual(["EHLO example.org"]);
+  });
+});
@@ -0,0 +1,240 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+export type SmtpConnectOptions = {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (SMTPS). */
+  secure: boolean;
+  /** Upgrade with STARTTLS when the server offers it. */
+  starttls: boolean;
+  user?: string;
+  password?: string;
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+export type SmtpEnvelope = {
+  from: string;
+  recipients: string[];
+  /** Full RFC 5322 message with CRLF line endings. */
+  data: string;
+};
+
+export type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+export type SmtpSession = {
+  extensions: ReadonlySet<string>;
+  send: (envelope: SmtpEnvelope) => Promise<SmtpReply>;
+  quit: () => Promise<void>;
+};
+
+type ReplyReader = {
+  next: () => Promise<SmtpReply>;
+  detach: () => void;
+};
+
+function toError(err: unknown): Error {
+  if (err instanceof Error) {
+    return err;
+  }
+  return new Error(typeof err === "string" ? err : JSON.stringify(err));
+}
+
+function formatReply(reply: SmtpReply): string {
+  return `${reply.code} ${reply.lines.join(" ")}`.trim();
+}
+
+/** Escapes lines that start with "." so they do not terminate DATA early (RFC 5321 4.5.2). */
+export function dotStuff(data: string): string {
+  const normalized = data.replace(/\r?\n/g, "\r\n");
+  const stuffed = normalized.replace(/(^|\r\n)\./g, "$1..");
+  return stuffed.endsWith("\r\n") ? stuffed : `${stuffed}\r\n`;
+}
+
+function createReplyReader(socket: net.Socket): ReplyReader {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }> = [];
+  let failure: Error | null = null;
+
+  const flush = () => {
+    while (replies.length > 0 && waiters.length > 0) {
+      waiters.shift()?.resolve(replies.shift() as SmtpReply);
+    }
+    if (failure) {
+      for (const waiter of waiters.splice(0)) {
+        waiter.reject(failure);
+      }
+    }
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf-8");
+    let lineEnd = buffer.indexOf("\r\n");
+    while (lineEnd >= 0) {
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const match = line.match(/^(\d{3})([ -])(.*)$/);
+      if (match) {
+        lines.push(match[3] ?? "");
+        if (match[2] === " ") {
+          replies.push({ code: Number.parseInt(match[1] ?? "0", 10), lines });
+          lines = [];
+        }
+      }
+      lineEnd = buffer.indexOf("\r\n");
+    }
+    flush();
+  };
+  const onError = (err: unknown) => {
+    failure = toError(err);
+    flush();
+  };
+  const onClose = () => {
+    failure ??= new Error("SMTP connection closed");
+    flush();
+  };
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        flush();
+      }),
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function parseExtensions(reply: SmtpReply): Set<string> {
+  // The first line of the EHLO reply is the server greeting.
+  return new Set(reply.lines.slice(1).map((line) => line.trim().toUpperCase()));
+}
+
+function supportsAuth(extensions: ReadonlySet<string>, mechanism: string): boolean {
+  for (const entry of extensions) {
+    if (/^AUTH[ =]/.test(entry) && entry.slice(5).split(/\s+/).includes(mechanism)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export async function openSmtpSession(options: SmtpConnectOptions): Promise<SmtpSession> {
+  const timeoutMs = options.timeoutMs ?? 30000;
+  if (!options.host.trim()) {
+    throw new Error("SMTP host is required");
+  }
+
+  let socket: net.Socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(timeoutMs, () => {
+    socket.destroy(new Error(`SMTP connection timed out after ${timeoutMs}ms`));
+  });
+  let reader = createReplyReader(socket);
+
+  const expect = async (accepted: number[], label: string): Promise<SmtpReply> => {
+    const reply = await reader.next();
+    if (!accepted.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${formatReply(reply)}`);
+    }
+    return reply;
+  };
+  const command = async (line: string, accepted: number[], label?: string) => {
+    socket.write(`${line}\r\n`);
+    return await expect(accepted, label ?? line.split(" ", 1)[0] ?? line);
+  };
+  const clientName = options.clientName?.trim() || os.hostname() || "localhost";
+
+  try {
+    await expect([220], "greeting");
+    let extensions = parseExtensions(await command(`EHLO ${clientName}`, [250]));
+
+    if (!options.secure && options.starttls) {
+      // A missing STARTTLS (possibly stripped in transit) must not downgrade to plaintext AUTH.
+      if (!extensions.has("STARTTLS")) {
+        throw new Error(
+          "SMTP server does not offer STARTTLS (set smtp.starttls: false to allow plaintext)",
+        );
+      }
+      await command("STARTTLS", [220]);
+      reader.detach();
+      const plain = socket;
+      socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const upgraded = tls.connect({ socket: plain, servername: options.host }, () =>
+          resolve(upgraded),
+        );
+        upgraded.once("error", reject);
+      });
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(new Error(`SMTP connection timed out after ${timeoutMs}ms`));
+      });
+      reader = createReplyReader(socket);
+      extensions = parseExtensions(await command(`EHLO ${clientName}`, [250]));
+    }
+
+    const user = options.user?.trim();
+    if (user && options.password) {
+      if (supportsAuth(extensions, "PLAIN") || !supportsAuth(extensions, "LOGIN")) {
+        const token = Buffer.from(`\0${user}\0${options.password}`, "utf-8").toString("base64");
+        await command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      } else {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(Buffer.from(user, "utf-8").toString("base64"), [334], "AUTH");
+        await command(Buffer.from(options.password, "utf-8").toString("base64"), [235], "AUTH");
+      }
+    }
+
+    const session: SmtpSession = {
+      extensions,
+      send: async (envelope) => {
+        if (envelope.recipients.length === 0) {
+          throw new Error("SMTP send requires at least one recipient");
+        }
+        await command(`MAIL FROM:<${envelope.from}>`, [250], "MAIL");
+        for (const recipient of envelope.recipients) {
+          await command(`RCPT TO:<${recipient}>`, [250, 251], "RCPT");
+        }
+        await command("DATA", [354]);
+        socket.write(`${dotStuff(envelope.data)}.\r\n`);
+        return await expect([250], "DATA");
+      },
+      quit: async () => {
+        try {
+          await command("QUIT", [221]);
+        } catch {
+          // Some servers drop the connection without a 221; the session is done either way.
+        } finally {
+          socket.destroy();
+        }
+      },
+    };
+    return session;
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  }
+}
+
+export async function sendSmtpMail(
+  options: SmtpConnectOptions & { envelope: SmtpEnvelope },
+): Promise<SmtpReply> {
+  const session = await openSmtpSession(options);
+  try {
+    return await session.send(options.envelope);
+  } finally {
+    await session.quit();
+  }
+}
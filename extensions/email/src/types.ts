@@ -0,0 +1,101 @@
+import type { BaseProbeResult } from "openclaw/plugin-sdk";
+import type {
+  BlockStreamingCoalesceConfig,
+  DmConfig,
+  DmPolicy,
+  MarkdownConfig,
+  OpenClawConfig,
+} from "openclaw/plugin-sdk";
+
+export type EmailImapConfig = {
+  host?: string;
+  port?: number;
+  /** Implicit TLS (IMAPS). Defaults to true. */
+  tls?: boolean;
+  user?: string;
+  password?: string;
+  passwordFile?: string;
+  /** Mailbox to watch for new mail. Defaults to INBOX. */
+  mailbox?: string;
+  /** Poll interval when IDLE is unavailable or disabled. Defaults to 60 seconds. */
+  pollIntervalSeconds?: number;
+  /** Use IMAP IDLE for push delivery when the server supports it. Defaults to true. */
+  idle?: boolean;
+};
+
+export type EmailSmtpConfig = {
+  host?: string;
+  port?: number;
+  /** Implicit TLS (SMTPS, usually port 465). Defaults to true when port is 465. */
+  secure?: boolean;
+  /** Require a STARTTLS upgrade on plaintext connections. Defaults to true. */
+  starttls?: boolean;
+  user?: string;
+  password?: string;
+  passwordFile?: string;
+};
+
+export type EmailAccountConfig = {
+  name?: string;
+  enabled?: boolean;
+  /** Mailbox address used as the From header and to ignore our own messages. */
+  address?: string;
+  displayName?: string;
+  imap?: EmailImapConfig;
+  smtp?: EmailSmtpConfig;
+  dmPolicy?: DmPolicy;
+  /** Sender addresses (or `@domain` entries) allowed to reach the agent. */
+  allowFrom?: Array<string | number>;
+  defaultTo?: string;
+  /** Subject used for outbound mail that does not continue a thread. */
+  defaultSubject?: string;
+  markdown?: MarkdownConfig;
+  historyLimit?: number;
+  dmHistoryLimit?: number;
+  dms?: Record<string, DmConfig>;
+  textChunkLimit?: number;
+  chunkMode?: "length" | "newline";
+  blockStreaming?: boolean;
+  blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
+  responsePrefix?: string;
+  mediaMaxMb?: number;
+};
+
+export type EmailConfig = EmailAccountConfig & {
+  accounts?: Record<string, EmailAccountConfig>;
+};
+
+export type CoreConfig = OpenClawConfig & {
+  channels?: OpenClawConfig["channels"] & {
+    email?: EmailConfig;
+  };
+};
+
+export type EmailAttachment = {
+  fileName?: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type EmailInboundMessage = {
+  uid: number;
+  /** RFC 5322 Message-ID including angle brackets. */
+  messageId: string;
+  /** Message-ID of the first message in the thread; used as the session thread id. */
+  threadId: string;
+  inReplyTo?: string;
+  references: string[];
+  fromAddress: string;
+  fromName?: string;
+  subject: string;
+  text: string;
+  attachments: EmailAttachment[];
+  timestamp: number;
+};
+
+export type EmailProbe = BaseProbeResult<string> & {
+  imapHost: string;
+  smtpHost: string;
+  address: string;
+  latencyMs?: number;
+};
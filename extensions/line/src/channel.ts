@@ -345,6 +345,18 @@ export const linePlugin: ChannelPlugin<ResolvedLineAccount> = {
     deliveryMode: "direct",
     chunker: (text, limit) => getLineRuntime().channel.text.chunkMarkdownText(text, limit),
     textChunkLimit: 5000, // LINE allows up to 5000 characters per text message
+    renderChoices: ({ payload }) => {
+      // Quick replies send the label back as text, which resolves the pick by label.
+      const lineData = (payload.channelData?.line as LineChannelData | undefined) ?? {};
+      const labels = (payload.choices ?? []).map((choice) => choice.label);
+      return {
+        ...payload,
+        channelData: {
+          ...payload.channelData,
+          line: { ...lineData, quickReplies: [...(lineData.quickReplies ?? []), ...labels] },
+        },
+      };
+    },
     sendPayload: async ({ to, payload, accountId, cfg }) => {
       const runtime = getLineRuntime();
       const lineData = (payload.channelData?.line as LineChannelData | undefined) ?? {};
@@ -18,7 +18,7 @@ export const matrixMessageActions: ChannelMessageActionAdapter = {
       return [];
     }
     const gate = createActionGate((cfg as CoreConfig).channels?.matrix?.actions);
-    const actions = new Set<ChannelMessageActionName>(["send", "poll"]);
+    const actions = new Set<ChannelMessageActionName>(["send", "poll", "poll-results"]);
     if (gate("reactions")) {
       actions.add("react");
       actions.add("reactions");
@@ -41,7 +41,7 @@ export const matrixMessageActions: ChannelMessageActionAdapter = {
     }
     return Array.from(actions);
   },
-  supportsAction: ({ action }) => action !== "poll",
+  supportsAction: ({ action }) => action !== "poll" && action !== "poll-results",
   extractToolSend: ({ args }): ChannelToolSend | null => {
     const action = typeof args.action === "string" ? args.action.trim() : "";
     if (action !== "sendMessage") {
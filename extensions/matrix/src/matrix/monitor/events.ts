@@ -1,6 +1,18 @@
 import type { MatrixClient } from "@vector-im/matrix-bot-sdk";
-import type { PluginRuntime, RuntimeLogger } from "openclaw/plugin-sdk";
+import {
+  closeTrackedPoll,
+  recordPollVote,
+  type PluginRuntime,
+  type RuntimeLogger,
+} from "openclaw/plugin-sdk";
 import type { MatrixAuth } from "../client.js";
+import {
+  isPollEndType,
+  isPollResponseType,
+  parsePollResponseAnswers,
+  resolvePollAnswerIndex,
+  type PollResponseContent,
+} from "../poll-types.js";
 import { sendReadReceiptMatrix } from "../send.js";
 import type { MatrixRawEvent } from "./types.js";
 import { EventType } from "./types.js";
@@ -31,6 +43,31 @@ function createSelfUserIdResolver(client: Pick<MatrixClient, "getUserId">) {
   };
 }
 
+function handlePollRelationEvent(accountId: string | undefined, event: MatrixRawEvent) {
+  const content = (event.content ?? {}) as PollResponseContent;
+  const pollId = content["m.relates_to"]?.event_id;
+  if (!pollId) {
+    return;
+  }
+  if (isPollEndType(event.type)) {
+    closeTrackedPoll({ channel: "matrix", accountId, pollId, reason: "closed" });
+    return;
+  }
+  if (!event.sender) {
+    return;
+  }
+  const optionIndexes = parsePollResponseAnswers(content)
+    .map((answerId) => resolvePollAnswerIndex(answerId))
+    .filter((index): index is number => index !== null);
+  recordPollVote({
+    channel: "matrix",
+    accountId,
+    pollId,
+    voterId: event.sender,
+    optionIndexes,
+  });
+}
+
 export function registerMatrixMonitorEvents(params: {
   client: MatrixClient;
   auth: MatrixAuth;
@@ -40,6 +77,7 @@ export function registerMatrixMonitorEvents(params: {
   logger: RuntimeLogger;
   formatNativeDependencyHint: PluginRuntime["system"]["formatNativeDependencyHint"];
   onRoomMessage: (roomId: string, event: MatrixRawEvent) => void | Promise<void>;
+  accountId?: string | null;
 }): void {
   const {
     client,
@@ -51,6 +89,7 @@ export function registerMatrixMonitorEvents(params: {
     formatNativeDependencyHint,
     onRoomMessage,
   } = params;
+  const accountId = params.accountId ?? undefined;
 
   const resolveSelfUserId = createSelfUserIdResolver(client);
   client.on("room.message", (roomId: string, event: MatrixRawEvent) => {
@@ -137,6 +176,10 @@ export function registerMatrixMonitorEvents(params: {
       }
       return;
     }
+    if (isPollResponseType(eventType) || isPollEndType(eventType)) {
+      handlePollRelationEvent(accountId, event);
+      return;
+    }
     if (eventType === EventType.RoomMember) {
       const membership = (event?.content as { membership?: string } | undefined)?.membership;
       const stateKey = (event as { state_key?: string }).state_key ?? "";
@@ -309,6 +309,7 @@ export async function monitorMatrixProvider(opts: MonitorMatrixOpts = {}): Promi
     logger,
     formatNativeDependencyHint: core.system.formatNativeDependencyHint,
     onRoomMessage: handleRoomMessage,
+    accountId: opts.accountId,
   });
 
   logVerboseMessage("matrix: starting client");
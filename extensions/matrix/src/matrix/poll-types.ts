@@ -76,6 +76,35 @@ export function isPollStartType(eventType: string): boolean {
   return (POLL_START_TYPES as readonly string[]).includes(eventType);
 }
 
+export function isPollResponseType(eventType: string): boolean {
+  return (POLL_RESPONSE_TYPES as readonly string[]).includes(eventType);
+}
+
+export function isPollEndType(eventType: string): boolean {
+  return (POLL_END_TYPES as readonly string[]).includes(eventType);
+}
+
+export type PollResponseContent = {
+  [M_POLL_RESPONSE]?: { answers?: string[] };
+  [ORG_POLL_RESPONSE]?: { answers?: string[] };
+  "m.relates_to"?: { rel_type?: string; event_id?: string };
+};
+
+/** Selected answer ids of a poll response; an empty list retracts the vote. */
+export function parsePollResponseAnswers(content: PollResponseContent): string[] {
+  const response = content[M_POLL_RESPONSE] ?? content[ORG_POLL_RESPONSE];
+  return Array.isArray(response?.answers)
+    ? response.answers.filter((answer): answer is string => typeof answer === "string")
+    : [];
+}
+
+/** Option index for answer ids generated by `buildPollStartContent` (`answer1`, `answer2`, ...). */
+export function resolvePollAnswerIndex(answerId: string): number | null {
+  const match = answerId.match(/^answer(\d+)$/);
+  const index = match ? Number.parseInt(match[1] ?? "", 10) - 1 : -1;
+  return index >= 0 ? index : null;
+}
+
 export function getTextContent(text?: TextContent): string {
   if (!text) {
     return "";
@@ -21,9 +21,19 @@ const memoryCorePlugin = {
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        const memoryWriteTool = api.runtime.tools.createMemoryWriteTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        const memoryUpdateTool = api.runtime.tools.createMemoryUpdateTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        return [memorySearchTool, memoryGetTool, memoryWriteTool, memoryUpdateTool].filter(
+          (tool) => tool !== null,
+        );
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "memory_write", "memory_update"] },
     );
 
     api.registerCli(
@@ -0,0 +1,19 @@
+import type { ChannelPlugin, OpenClawPluginApi } from "openclaw/plugin-sdk";
+import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
+import { webhookPlugin } from "./src/channel.js";
+import { handleWebhookChannelRequest } from "./src/monitor.js";
+import { setWebhookRuntime } from "./src/runtime.js";
+
+const plugin = {
+  id: "webhook",
+  name: "Webhook",
+  description: "Generic inbound/outbound webhook channel plugin",
+  configSchema: emptyPluginConfigSchema(),
+  register(api: OpenClawPluginApi) {
+    setWebhookRuntime(api.runtime);
+    api.registerChannel({ plugin: webhookPlugin as ChannelPlugin });
+    api.registerHttpHandler(handleWebhookChannelRequest);
+  },
+};
+
+export default plugin;
@@ -0,0 +1,161 @@
+import { readFileSync } from "node:fs";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "openclaw/plugin-sdk/account-id";
+import type { CoreConfig, WebhookAccountConfig } from "./types.js";
+
+export type ResolvedWebhookAccount = {
+  accountId: string;
+  enabled: boolean;
+  name?: string;
+  configured: boolean;
+  webhookPath: string;
+  secret: string;
+  secretSource: "env" | "secretFile" | "config" | "none";
+  callbackUrl: string;
+  config: WebhookAccountConfig;
+};
+
+export const DEFAULT_WEBHOOK_PATH = "/webhook-channel";
+
+function listConfiguredAccountIds(cfg: CoreConfig): string[] {
+  const accounts = cfg.channels?.webhook?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return [];
+  }
+  const ids = new Set<string>();
+  for (const key of Object.keys(accounts)) {
+    if (key.trim()) {
+      ids.add(normalizeAccountId(key));
+    }
+  }
+  return [...ids];
+}
+
+function resolveAccountConfig(
+  cfg: CoreConfig,
+  accountId: string,
+): WebhookAccountConfig | undefined {
+  const accounts = cfg.channels?.webhook?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return undefined;
+  }
+  const direct = accounts[accountId] as WebhookAccountConfig | undefined;
+  if (direct) {
+    return direct;
+  }
+  const normalized = normalizeAccountId(accountId);
+  const matchKey = Object.keys(accounts).find((key) => normalizeAccountId(key) === normalized);
+  return matchKey ? (accounts[matchKey] as WebhookAccountConfig | undefined) : undefined;
+}
+
+function mergeWebhookAccountConfig(cfg: CoreConfig, accountId: string): WebhookAccountConfig {
+  const { accounts: _ignored, ...base } = (cfg.channels?.webhook ?? {}) as WebhookAccountConfig & {
+    accounts?: unknown;
+  };
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  const merged: WebhookAccountConfig = { ...base, ...account };
+  if (base.callbackHeaders || account.callbackHeaders) {
+    merged.callbackHeaders = { ...base.callbackHeaders, ...account.callbackHeaders };
+  }
+  return merged;
+}
+
+function resolveSecret(accountId: string, merged: WebhookAccountConfig) {
+  if (accountId === DEFAULT_ACCOUNT_ID) {
+    const envSecret = process.env.WEBHOOK_CHANNEL_SECRET?.trim();
+    if (envSecret) {
+      return { secret: envSecret, source: "env" as const };
+    }
+  }
+  if (merged.secretFile?.trim()) {
+    try {
+      const fileSecret = readFileSync(merged.secretFile.trim(), "utf-8").trim();
+      if (fileSecret) {
+        return { secret: fileSecret, source: "secretFile" as const };
+      }
+    } catch {
+      // Ignore unreadable files here; status will still surface missing configuration.
+    }
+  }
+  const configSecret = merged.secret?.trim();
+  if (configSecret) {
+    return { secret: configSecret, source: "config" as const };
+  }
+  return { secret: "", source: "none" as const };
+}
+
+function resolveWebhookPath(accountId: string, merged: WebhookAccountConfig): string {
+  const configured = merged.webhookPath?.trim();
+  if (configured) {
+    return configured.startsWith("/") ? configured : `/${configured}`;
+  }
+  // Give every named account its own path so signatures never have to disambiguate targets.
+  return accountId === DEFAULT_ACCOUNT_ID
+    ? DEFAULT_WEBHOOK_PATH
+    : `${DEFAULT_WEBHOOK_PATH}/${encodeURIComponent(accountId)}`;
+}
+
+export function listWebhookAccountIds(cfg: CoreConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) {
+    return [DEFAULT_ACCOUNT_ID];
+  }
+  return ids.toSorted((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultWebhookAccountId(cfg: CoreConfig): string {
+  const ids = listWebhookAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) {
+    return DEFAULT_ACCOUNT_ID;
+  }
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+export function resolveWebhookAccount(params: {
+  cfg: CoreConfig;
+  accountId?: string | null;
+}): ResolvedWebhookAccount {
+  const hasExplicitAccountId = Boolean(params.accountId?.trim());
+  const baseEnabled = params.cfg.channels?.webhook?.enabled !== false;
+
+  const resolve = (accountId: string) => {
+    const merged = mergeWebhookAccountConfig(params.cfg, accountId);
+    const isDefault = accountId === DEFAULT_ACCOUNT_ID;
+    const enabled = baseEnabled && merged.enabled !== false;
+    const secret = resolveSecret(accountId, merged);
+    const callbackUrl =
+      merged.callbackUrl?.trim() ||
+      (isDefault ? process.env.WEBHOOK_CHANNEL_CALLBACK_URL?.trim() : "") ||
+      "";
+
+    return {
+      accountId,
+      enabled,
+      name: merged.name?.trim() || undefined,
+      configured: Boolean(secret.secret && callbackUrl),
+      webhookPath: resolveWebhookPath(accountId, merged),
+      secret: secret.secret,
+      secretSource: secret.source,
+      callbackUrl,
+      config: merged,
+    } satisfies ResolvedWebhookAccount;
+  };
+
+  const normalized = normalizeAccountId(params.accountId);
+  const primary = resolve(normalized);
+  if (hasExplicitAccountId) {
+    return primary;
+  }
+  if (primary.configured) {
+    return primary;
+  }
+
+  const fallbackId = resolveDefaultWebhookAccountId(params.cfg);
+  if (fallbackId === primary.accountId) {
+    return primary;
+  }
+  const fallback = resolve(fallbackId);
+  if (!fallback.configured) {
+    return primary;
+  }
+  return fallback;
+}
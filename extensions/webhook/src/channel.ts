@@ -0,0 +1,214 @@
+import {
+  buildBaseAccountStatusSnapshot,
+  buildBaseChannelStatusSummary,
+  buildChannelConfigSchema,
+  DEFAULT_ACCOUNT_ID,
+  deleteAccountFromConfigSection,
+  formatPairingApproveHint,
+  PAIRING_APPROVED_MESSAGE,
+  setAccountEnabledInConfigSection,
+  type ChannelPlugin,
+} from "openclaw/plugin-sdk";
+import {
+  listWebhookAccountIds,
+  resolveDefaultWebhookAccountId,
+  resolveWebhookAccount,
+  type ResolvedWebhookAccount,
+} from "./accounts.js";
+import { WebhookConfigSchema } from "./config-schema.js";
+import { monitorWebhookProvider } from "./monitor.js";
+import {
+  looksLikeWebhookTargetId,
+  normalizeWebhookAllowEntry,
+  normalizeWebhookMessagingTarget,
+} from "./normalize.js";
+import { getWebhookRuntime } from "./runtime.js";
+import { sendMessageWebhook } from "./send.js";
+import type { CoreConfig } from "./types.js";
+
+const meta = {
+  id: "webhook",
+  label: "Webhook",
+  selectionLabel: "Webhook (generic HTTP bridge)",
+  docsPath: "/channels/webhook",
+  docsLabel: "webhook",
+  blurb: "Bridge any internal system: signed JSON in, signed JSON callbacks out.",
+  order: 95,
+};
+
+function resolveThreadId(threadId?: string | number | null): string | undefined {
+  return threadId == null ? undefined : String(threadId);
+}
+
+export const webhookPlugin: ChannelPlugin<ResolvedWebhookAccount> = {
+  id: "webhook",
+  meta,
+  pairing: {
+    idLabel: "webhookSenderId",
+    normalizeAllowEntry: (entry) => normalizeWebhookAllowEntry(entry),
+    notifyApproval: async ({ id }) => {
+      // Direct conversations default to the sender id, so approval lands in the sender's chat.
+      await sendMessageWebhook(id, PAIRING_APPROVED_MESSAGE);
+    },
+  },
+  capabilities: {
+    chatTypes: ["direct", "group"],
+    threads: true,
+    media: true,
+    blockStreaming: true,
+  },
+  reload: { configPrefixes: ["channels.webhook"] },
+  configSchema: buildChannelConfigSchema(WebhookConfigSchema),
+  config: {
+    listAccountIds: (cfg) => listWebhookAccountIds(cfg as CoreConfig),
+    resolveAccount: (cfg, accountId) =>
+      resolveWebhookAccount({ cfg: cfg as CoreConfig, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultWebhookAccountId(cfg as CoreConfig),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg: cfg as CoreConfig,
+        sectionKey: "webhook",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg: cfg as CoreConfig,
+        sectionKey: "webhook",
+        accountId,
+        clearBaseFields: ["name", "webhookPath", "secret", "secretFile", "callbackUrl"],
+      }),
+    isConfigured: (account) => account.configured,
+    describeAccount: (account) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      webhookPath: account.webhookPath,
+      secretSource: account.secretSource,
+    }),
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      (resolveWebhookAccount({ cfg: cfg as CoreConfig, accountId }).config.allowFrom ?? []).map(
+        (entry) => String(entry),
+      ),
+    formatAllowFrom: ({ allowFrom }) =>
+      allowFrom.map((entry) => normalizeWebhookAllowEntry(String(entry))).filter(Boolean),
+    resolveDefaultTo: ({ cfg, accountId }) =>
+      resolveWebhookAccount({ cfg: cfg as CoreConfig, accountId }).config.defaultTo?.trim() ||
+      undefined,
+  },
+  security: {
+    resolveDmPolicy: ({ cfg, accountId, account }) => {
+      const resolvedAccountId = accountId ?? account.accountId ?? DEFAULT_ACCOUNT_ID;
+      const useAccountPath = Boolean(
+        (cfg as CoreConfig).channels?.webhook?.accounts?.[resolvedAccountId],
+      );
+      const basePath = useAccountPath
+        ? `channels.webhook.accounts.${resolvedAccountId}.`
+        : "channels.webhook.";
+      return {
+        policy: account.config.dmPolicy ?? "allowlist",
+        allowFrom: account.config.allowFrom ?? [],
+        policyPath: `${basePath}dmPolicy`,
+        allowFromPath: `${basePath}allowFrom`,
+        approveHint: formatPairingApproveHint("webhook"),
+        normalizeEntry: (raw) => normalizeWebhookAllowEntry(raw),
+      };
+    },
+    collectWarnings: ({ account }) => {
+      const warnings: string[] = [];
+      if (!account.secret) {
+        warnings.push(
+          "- Webhook channel has no secret (channels.webhook.secret); every inbound request is rejected.",
+        );
+      }
+      if (account.callbackUrl.startsWith("http://")) {
+        warnings.push(
+          "- Webhook callbackUrl uses plain http; replies are signed but not encrypted in transit.",
+        );
+      }
+      if (account.config.groupPolicy === "open") {
+        warnings.push(
+          '- Webhook groupPolicy="open" lets any sender in any group conversation reach the agent. Prefer channels.webhook.groupPolicy="allowlist" with channels.webhook.groupAllowFrom.',
+        );
+      }
+      return warnings;
+    },
+  },
+  messaging: {
+    normalizeTarget: normalizeWebhookMessagingTarget,
+    targetResolver: {
+      looksLikeId: looksLikeWebhookTargetId,
+      hint: "<conversationId>",
+    },
+  },
+  directory: {
+    self: async () => null,
+    listPeers: async () => [],
+    listGroups: async () => [],
+  },
+  outbound: {
+    deliveryMode: "direct",
+    chunker: (text, limit) => getWebhookRuntime().channel.text.chunkMarkdownText(text, limit),
+    chunkerMode: "markdown",
+    textChunkLimit: 20000,
+    sendText: async ({ to, text, accountId, replyToId, threadId }) => {
+      const result = await sendMessageWebhook(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+        threadId: resolveThreadId(threadId),
+      });
+      return { channel: "webhook", messageId: result.messageId, chatId: result.conversationId };
+    },
+    sendMedia: async ({ to, text, mediaUrl, mediaLocalRoots, accountId, replyToId, threadId }) => {
+      const result = await sendMessageWebhook(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+        threadId: resolveThreadId(threadId),
+        mediaUrls: mediaUrl ? [mediaUrl] : [],
+        mediaLocalRoots,
+      });
+      return { channel: "webhook", messageId: result.messageId, chatId: result.conversationId };
+    },
+  },
+  status: {
+    defaultRuntime: {
+      accountId: DEFAULT_ACCOUNT_ID,
+      running: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+    },
+    buildChannelSummary: ({ account, snapshot }) => ({
+      ...buildBaseChannelStatusSummary(snapshot),
+      webhookPath: account.webhookPath,
+      callbackUrl: account.callbackUrl || null,
+    }),
+    buildAccountSnapshot: ({ account, runtime }) => ({
+      ...buildBaseAccountStatusSnapshot({ account, runtime }),
+      webhookPath: account.webhookPath,
+      secretSource: account.secretSource,
+    }),
+  },
+  gateway: {
+    startAccount: async (ctx) => {
+      const account = ctx.account;
+      if (!account.configured) {
+        throw new Error(
+          `Webhook channel is not configured for account "${account.accountId}" (need secret and callbackUrl in channels.webhook).`,
+        );
+      }
+      ctx.log?.info(
+        `[${account.accountId}] starting webhook channel (${account.webhookPath} -> ${account.callbackUrl})`,
+      );
+      await monitorWebhookProvider({
+        accountId: account.accountId,
+        config: ctx.cfg as CoreConfig,
+        runtime: ctx.runtime,
+        abortSignal: ctx.abortSignal,
+        statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+      });
+    },
+  },
+};
@@ -0,0 +1,52 @@
+import {
+  DmPolicySchema,
+  GroupPolicySchema,
+  MarkdownConfigSchema,
+  ReplyRuntimeConfigSchemaShape,
+  requireOpenAllowFrom,
+  RetryConfigSchema,
+} from "openclaw/plugin-sdk";
+import { z } from "zod";
+
+export const WebhookAccountSchemaBase = z
+  .object({
+    name: z.string().optional(),
+    enabled: z.boolean().optional(),
+    webhookPath: z.string().optional(),
+    secret: z.string().optional(),
+    secretFile: z.string().optional(),
+    callbackUrl: z.string().url().optional(),
+    callbackHeaders: z.record(z.string(), z.string()).optional(),
+    callbackTimeoutMs: z.number().int().min(1000).optional(),
+    retry: RetryConfigSchema,
+    dmPolicy: DmPolicySchema.optional().default("allowlist"),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    groupPolicy: GroupPolicySchema.optional().default("allowlist"),
+    groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    defaultTo: z.string().optional(),
+    markdown: MarkdownConfigSchema,
+    ...ReplyRuntimeConfigSchemaShape,
+  })
+  .strict();
+
+export const WebhookAccountSchema = WebhookAccountSchemaBase.superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.webhook.dmPolicy="open" requires channels.webhook.allowFrom to include "*"',
+  });
+});
+
+export const WebhookConfigSchema = WebhookAccountSchemaBase.extend({
+  accounts: z.record(z.string(), WebhookAccountSchema.optional()).optional(),
+}).superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.webhook.dmPolicy="open" requires channels.webhook.allowFrom to include "*"',
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  createNormalizedOutboundDeliverer,
+  createReplyPrefixOptions,
+  createScopedPairingAccess,
+  logInboundDrop,
+  readStoreAllowFromForDmPolicy,
+  resolveAllowlistProviderRuntimeGroupPolicy,
+  resolveDefaultGroupPolicy,
+  resolveDmGroupAccessWithCommandGate,
+  resolveOutboundMediaUrls,
+  resolveThreadSessionKeys,
+  type OpenClawConfig,
+  type OutboundReplyPayload,
+  type RuntimeEnv,
+} from "openclaw/plugin-sdk";
+import type { ResolvedWebhookAccount } from "./accounts.js";
+import { isWebhookSenderAllowed, normalizeWebhookAllowlist } from "./normalize.js";
+import { getWebhookRuntime } from "./runtime.js";
+import { sendMessageWebhook } from "./send.js";
+import type { CoreConfig, WebhookInboundMessage } from "./types.js";
+
+const CHANNEL_ID = "webhook" as const;
+
+async function deliverWebhookReply(params: {
+  payload: OutboundReplyPayload;
+  conversationId: string;
+  replyTo?: string;
+  threadId?: string;
+  accountId: string;
+  statusSink?: (patch: { lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { payload, conversationId, replyTo, threadId, accountId, statusSink } = params;
+  const text = payload.text ?? "";
+  const mediaUrls = resolveOutboundMediaUrls(payload);
+  if (!text.trim() && mediaUrls.length === 0) {
+    return;
+  }
+  await sendMessageWebhook(conversationId, text, { accountId, replyTo, threadId, mediaUrls });
+  statusSink?.({ lastOutboundAt: Date.now() });
+}
+
+export async function handleWebhookInbound(params: {
+  message: WebhookInboundMessage;
+  account: ResolvedWebhookAccount;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { message, account, config, runtime, statusSink } = params;
+  const core = getWebhookRuntime();
+  const pairing = createScopedPairingAccess({
+    core,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+
+  const isGroup = message.chatType === "group";
+  const senderId = message.senderId;
+  const text = message.text;
+  statusSink?.({ lastInboundAt: message.timestamp });
+
+  const dmPolicy = account.config.dmPolicy ?? "allowlist";
+  const { groupPolicy } = resolveAllowlistProviderRuntimeGroupPolicy({
+    providerConfigPresent: config.channels?.webhook !== undefined,
+    groupPolicy: account.config.groupPolicy,
+    defaultGroupPolicy: resolveDefaultGroupPolicy(config),
+  });
+  const configAllowFrom = normalizeWebhookAllowlist(account.config.allowFrom);
+  const configGroupAllowFrom = normalizeWebhookAllowlist(account.config.groupAllowFrom);
+  const storeAllowFrom = await readStoreAllowFromForDmPolicy({
+    provider: CHANNEL_ID,
+    accountId: account.accountId,
+    dmPolicy,
+    readStore: pairing.readStoreForDmPolicy,
+  });
+
+  const allowTextCommands = core.channel.commands.shouldHandleTextCommands({
+    cfg: config as OpenClawConfig,
+    surface: CHANNEL_ID,
+  });
+  const useAccessGroups =
+    (config.commands as Record<string, unknown> | undefined)?.useAccessGroups !== false;
+  const hasControlCommand = core.channel.text.hasControlCommand(text, config as OpenClawConfig);
+  const access = resolveDmGroupAccessWithCommandGate({
+    isGroup,
+    dmPolicy,
+    groupPolicy,
+    allowFrom: configAllowFrom,
+    groupAllowFrom: configGroupAllowFrom,
+    storeAllowFrom: normalizeWebhookAllowlist(storeAllowFrom),
+    isSenderAllowed: (allowFrom) => isWebhookSenderAllowed({ allowFrom, senderId }),
+    command: {
+      useAccessGroups,
+      allowTextCommands,
+      hasControlCommand,
+    },
+  });
+
+  if (access.decision !== "allow") {
+    if (access.decision === "pairing") {
+      const { code, created } = await pairing.upsertPairingRequest({
+        id: senderId,
+        meta: { name: message.senderName || undefined },
+      });
+      if (created) {
+        try {
+          await sendMessageWebhook(
+            message.conversationId,
+            core.channel.pairing.buildPairingReply({
+              channel: CHANNEL_ID,
+              idLine: `Your sender id: ${senderId}`,
+              code,
+            }),
+            { accountId: account.accountId, replyTo: message.messageId },
+          );
+          statusSink?.({ lastOutboundAt: Date.now() });
+        } catch (err) {
+          runtime.error?.(`webhook: pairing reply failed for ${senderId}: ${String(err)}`);
+        }
+      }
+    }
+    runtime.log?.(
+      `webhook: drop ${isGroup ? "group " : ""}sender ${senderId} (reason=${access.reason})`,
+    );
+    return;
+  }
+
+  if (access.shouldBlockControlCommand) {
+    logInboundDrop({
+      log: (line) => runtime.log?.(line),
+      channel: CHANNEL_ID,
+      reason: "control command (unauthorized)",
+      target: senderId,
+    });
+    return;
+  }
+
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg: config as OpenClawConfig,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+    peer: { kind: isGroup ? "group" : "direct", id: message.conversationId },
+  });
+  // The conversation id (plus optional thread id) is the stable session identity, so the
+  // external system controls which messages share context.
+  const threadKeys = resolveThreadSessionKeys({
+    baseSessionKey: route.sessionKey,
+    threadId: message.threadId,
+    parentSessionKey: route.sessionKey,
+  });
+  const sessionKey = threadKeys.sessionKey;
+
+  const senderLabel = message.senderName ? `${message.senderName} (${senderId})` : senderId;
+  const conversationLabel = isGroup
+    ? message.conversationName || message.conversationId
+    : senderLabel;
+  const storePath = core.channel.session.resolveStorePath(
+    (config.session as Record<string, unknown> | undefined)?.store as string | undefined,
+    {
+      agentId: route.agentId,
+    },
+  );
+  const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(config as OpenClawConfig);
+  const previousTimestamp = core.channel.session.readSessionUpdatedAt({
+    storePath,
+    sessionKey,
+  });
+  const body = core.channel.reply.formatAgentEnvelope({
+    channel: "Webhook",
+    from: isGroup ? `${senderLabel} in ${conversationLabel}` : senderLabel,
+    timestamp: message.timestamp,
+    previousTimestamp,
+    envelope: envelopeOptions,
+    body: text,
+  });
+
+  const ctxPayload = core.channel.reply.finalizeInboundContext({
+    Body: body,
+    BodyForAgent: text,
+    RawBody: text,
+    CommandBody: text,
+    From: isGroup ? `webhook:group:${message.conversationId}` : `webhook:${senderId}`,
+    To: `webhook:${message.conversationId}`,
+    SessionKey: sessionKey,
+    ParentSessionKey: threadKeys.parentSessionKey,
+    AccountId: route.accountId,
+    ChatType: isGroup ? "group" : "direct",
+    ConversationLabel: conversationLabel,
+    GroupSubject: isGroup ? message.conversationName || undefined : undefined,
+    SenderName: message.senderName || undefined,
+    SenderId: senderId,
+    Provider: CHANNEL_ID,
+    Surface: CHANNEL_ID,
+    MessageSid: message.messageId,
+    MessageThreadId: message.threadId,
+    Timestamp: message.timestamp,
+    OriginatingChannel: CHANNEL_ID,
+    OriginatingTo: `webhook:${message.conversationId}`,
+    CommandAuthorized: access.commandAuthorized,
+  });
+
+  await core.channel.session.recordInboundSession({
+    storePath,
+    sessionKey: ctxPayload.SessionKey ?? sessionKey,
+    ctx: ctxPayload,
+    onRecordError: (err) => {
+      runtime.error?.(`webhook: failed updating session meta: ${String(err)}`);
+    },
+  });
+
+  const { onModelSelected, ...prefixOptions } = createReplyPrefixOptions({
+    cfg: config as OpenClawConfig,
+    agentId: route.agentId,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+  const deliverReply = createNormalizedOutboundDeliverer(async (payload) => {
+    await deliverWebhookReply({
+      payload,
+      conversationId: message.conversationId,
+      replyTo: message.messageId,
+      threadId: message.threadId,
+      accountId: account.accountId,
+      statusSink,
+    });
+  });
+
+  await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+    ctx: ctxPayload,
+    cfg: config as OpenClawConfig,
+    dispatcherOptions: {
+      ...prefixOptions,
+      deliver: deliverReply,
+      onError: (err, info) => {
+        runtime.error?.(`webhook ${info.kind} reply failed: ${String(err)}`);
+      },
+    },
+    replyOptions: {
+      onModelSelected,
+      disableBlockStreaming:
+        typeof account.config.blockStreaming === "boolean"
+          ? !account.config.blockStreaming
+          : undefined,
+    },
+  });
+}
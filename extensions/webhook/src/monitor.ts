@@ -0,0 +1,167 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  createDedupeCache,
+  isRequestBodyLimitError,
+  readRequestBodyWithLimit,
+  registerWebhookTarget,
+  rejectNonPostWebhookRequest,
+  requestBodyErrorToText,
+  resolveSingleWebhookTarget,
+  resolveWebhookTargets,
+  type RuntimeEnv,
+} from "openclaw/plugin-sdk";
+import { resolveWebhookAccount, type ResolvedWebhookAccount } from "./accounts.js";
+import { handleWebhookInbound } from "./inbound.js";
+import { parseWebhookInboundPayload } from "./payload.js";
+import {
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./signature.js";
+import type { CoreConfig } from "./types.js";
+
+export type WebhookMonitorOptions = {
+  accountId?: string;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  abortSignal?: AbortSignal;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+};
+
+type WebhookTarget = {
+  account: ResolvedWebhookAccount;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  path: string;
+  statusSink?: WebhookMonitorOptions["statusSink"];
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const webhookTargets = new Map<string, WebhookTarget[]>();
+// Callers that retry after a timeout resend the same messageId; answer them without a new turn.
+const recentMessageIds = createDedupeCache({ ttlMs: 10 * 60_000, maxSize: 5000 });
+
+function readHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function respondJson(res: ServerResponse, statusCode: number, body: Record<string, unknown>) {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+export function registerWebhookChannelTarget(target: WebhookTarget): () => void {
+  return registerWebhookTarget(webhookTargets, target).unregister;
+}
+
+export async function handleWebhookChannelRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> {
+  const resolved = resolveWebhookTargets(req, webhookTargets);
+  if (!resolved) {
+    return false;
+  }
+  const { path, targets } = resolved;
+
+  if (rejectNonPostWebhookRequest(req, res)) {
+    return true;
+  }
+
+  let rawBody: string;
+  try {
+    rawBody = await readRequestBodyWithLimit(req, { maxBytes: MAX_BODY_BYTES, timeoutMs: 30_000 });
+  } catch (err) {
+    if (isRequestBodyLimitError(err)) {
+      respondJson(res, err.statusCode, { ok: false, error: requestBodyErrorToText(err.code) });
+      return true;
+    }
+    respondJson(res, 400, { ok: false, error: "invalid request body" });
+    return true;
+  }
+
+  // Authenticate before parsing so unsigned traffic never reaches the JSON parser.
+  const timestamp = readHeader(req, WEBHOOK_TIMESTAMP_HEADER);
+  const signature = readHeader(req, WEBHOOK_SIGNATURE_HEADER);
+  const matched = resolveSingleWebhookTarget(
+    targets,
+    (target) =>
+      verifyWebhookSignature({ secret: target.account.secret, body: rawBody, timestamp, signature })
+        .ok,
+  );
+  if (matched.kind !== "single") {
+    respondJson(res, 401, { ok: false, error: "invalid signature" });
+    console.warn(
+      `[webhook] request rejected: ${matched.kind === "ambiguous" ? "ambiguous target" : "invalid signature"} path=${path}`,
+    );
+    return true;
+  }
+  const target = matched.target;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(rawBody);
+  } catch {
+    respondJson(res, 400, { ok: false, error: "invalid json" });
+    return true;
+  }
+  const parsed = parseWebhookInboundPayload(value);
+  if (!parsed.ok) {
+    respondJson(res, 400, { ok: false, error: parsed.error });
+    return true;
+  }
+  const message = parsed.message;
+
+  if (
+    message.messageId &&
+    recentMessageIds.check(`${target.account.accountId}:${message.messageId}`)
+  ) {
+    respondJson(res, 200, { ok: true, duplicate: true });
+    return true;
+  }
+
+  // Replies go to the callback URL, so acknowledge now instead of holding the request open.
+  respondJson(res, 202, { ok: true });
+  handleWebhookInbound({
+    message,
+    account: target.account,
+    config: target.config,
+    runtime: target.runtime,
+    statusSink: target.statusSink,
+  }).catch((err) => {
+    target.runtime.error?.(`[${target.account.accountId}] webhook inbound failed: ${String(err)}`);
+  });
+  return true;
+}
+
+export async function monitorWebhookProvider(options: WebhookMonitorOptions): Promise<void> {
+  const account = resolveWebhookAccount({
+    cfg: options.config,
+    accountId: options.accountId,
+  });
+  const unregister = registerWebhookChannelTarget({
+    account,
+    config: options.config,
+    runtime: options.runtime,
+    path: account.webhookPath,
+    statusSink: options.statusSink,
+  });
+  options.runtime.log?.(
+    `[${account.accountId}] webhook channel listening on ${account.webhookPath}`,
+  );
+
+  // Stays pending until the gateway aborts the account so it is reported as running.
+  return await new Promise((resolve) => {
+    const stop = () => {
+      unregister();
+      resolve();
+    };
+    if (options.abortSignal?.aborted) {
+      stop();
+      return;
+    }
+    options.abortSignal?.addEventListener("abort", stop, { once: true });
+  });
+}
@@ -0,0 +1,32 @@
+import { isNormalizedSenderAllowed } from "openclaw/plugin-sdk";
+
+export const WEBHOOK_PREFIX_RE = /^webhook:/i;
+
+/** Conversation ids are opaque to OpenClaw; only the optional `webhook:` prefix is removed. */
+export function normalizeWebhookMessagingTarget(raw: string): string | undefined {
+  const value = raw.trim().replace(WEBHOOK_PREFIX_RE, "").trim();
+  return value || undefined;
+}
+
+export function looksLikeWebhookTargetId(raw: string): boolean {
+  return normalizeWebhookMessagingTarget(raw) !== undefined;
+}
+
+export function normalizeWebhookAllowEntry(raw: string): string {
+  return raw.trim().replace(WEBHOOK_PREFIX_RE, "").trim().toLowerCase();
+}
+
+export function normalizeWebhookAllowlist(entries?: Array<string | number>): string[] {
+  return (entries ?? []).map((entry) => normalizeWebhookAllowEntry(String(entry))).filter(Boolean);
+}
+
+export function isWebhookSenderAllowed(params: {
+  allowFrom: Array<string | number>;
+  senderId: string;
+}): boolean {
+  return isNormalizedSenderAllowed({
+    senderId: params.senderId,
+    allowFrom: params.allowFrom,
+    stripPrefixRe: WEBHOOK_PREFIX_RE,
+  });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseWebhookInboundPayload } from "./payload.js";
+
+const NOW_MS = 1_767_225_600_000;
+
+describe("parseWebhookInboundPayload", () => {
+  it("defaults the conversation to the sender for direct chats", () => {
+    expect(parseWebhookInboundPayload({ senderId: "alice", text: " hello " }, NOW_MS)).toEqual({
+      ok: true,
+      message: {
+        conversationId: "alice",
+        conversationName: undefined,
+        chatType: "direct",
+        senderId: "alice",
+        senderName: undefined,
+        text: "hello",
+        messageId: undefined,
+        threadId: undefined,
+        timestamp: NOW_MS,
+      },
+    });
+  });
+
+  it("reads group conversations, numeric ids and ISO timestamps", () => {
+    const parsed = parseWebhookInboundPayload(
+      {
+        conversationId: 42,
+        conversationName: "Ops",
+        chatType: "GROUP",
+        senderId: "bob",
+        senderName: "Bob",
+        text: "deploy?",
+        messageId: "m-1",
+        threadId: "t-9",
+        timestamp: "2026-01-01T00:00:00Z",
+      },
+      NOW_MS,
+    );
+    expect(parsed).toEqual({
+      ok: true,
+      message: {
+        conversationId: "42",
+        conversationName: "Ops",
+        chatType: "group",
+        senderId: "bob",
+        senderName: "Bob",
+        text: "deploy?",
+        messageId: "m-1",
+        threadId: "t-9",
+        timestamp: Date.parse("2026-01-01T00:00:00Z"),
+      },
+    });
+  });
+
+  it("rejects invalid payloads", () => {
+    expect(parseWebhookInboundPayload([])).toEqual({
+      ok: false,
+      error: "payload must be a JSON object",
+    });
+    expect(parseWebhookInboundPayload({ text: "hi" })).toEqual({
+      ok: false,
+      error: "senderId is required",
+    });
+    expect(parseWebhookInboundPayload({ senderId: "a", text: "  " })).toEqual({
+      ok: false,
+      error: "text is required",
+    });
+    expect(parseWebhookInboundPayload({ senderId: "a", text: "hi", chatType: "channel" })).toEqual({
+      ok: false,
+      error: 'chatType must be "direct" or "group"',
+    });
+    expect(parseWebhookInboundPayload({ senderId: "a".repeat(300), text: "hi" })).toEqual({
+      ok: false,
+      error: "senderId is too long",
+    });
+  });
+});
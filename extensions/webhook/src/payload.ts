@@ -0,0 +1,85 @@
+import type { WebhookInboundMessage } from "./types.js";
+
+export type ParsedWebhookPayload =
+  | { ok: true; message: WebhookInboundMessage }
+  | { ok: false; error: string };
+
+const MAX_ID_LENGTH = 256;
+
+function readString(record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key];
+  if (typeof value === "string") {
+    return value.trim() || undefined;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function readTimestamp(value: unknown, nowMs: number): number {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return nowMs;
+}
+
+/**
+ * Validates an inbound JSON body. `senderId` and `text` are required; `conversationId`
+ * defaults to the sender so a plain `{ senderId, text }` body is a direct chat.
+ */
+export function parseWebhookInboundPayload(
+  value: unknown,
+  nowMs: number = Date.now(),
+): ParsedWebhookPayload {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, error: "payload must be a JSON object" };
+  }
+  const record = value as Record<string, unknown>;
+  const senderId = readString(record, "senderId");
+  if (!senderId) {
+    return { ok: false, error: "senderId is required" };
+  }
+  const text = typeof record.text === "string" ? record.text.trim() : "";
+  if (!text) {
+    return { ok: false, error: "text is required" };
+  }
+  const conversationId = readString(record, "conversationId") ?? senderId;
+  const messageId = readString(record, "messageId");
+  const threadId = readString(record, "threadId");
+  for (const [label, id] of [
+    ["senderId", senderId],
+    ["conversationId", conversationId],
+    ["messageId", messageId],
+    ["threadId", threadId],
+  ] as const) {
+    if (id && id.length > MAX_ID_LENGTH) {
+      return { ok: false, error: `${label} is too long` };
+    }
+  }
+  const chatTypeRaw = readString(record, "chatType")?.toLowerCase();
+  if (chatTypeRaw && chatTypeRaw !== "direct" && chatTypeRaw !== "group") {
+    return { ok: false, error: 'chatType must be "direct" or "group"' };
+  }
+
+  return {
+    ok: true,
+    message: {
+      conversationId,
+      conversationName: readString(record, "conversationName"),
+      chatType: chatTypeRaw === "group" ? "group" : "direct",
+      senderId,
+      senderName: readString(record, "senderName"),
+      text,
+      messageId,
+      threadId,
+      timestamp: readTimestamp(record.timestamp, nowMs),
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import type { PluginRuntime } from "openclaw/plugin-sdk";
+
+let runtime: PluginRuntime | null = null;
+
+export function setWebhookRuntime(next: PluginRuntime) {
+  runtime = next;
+}
+
+export function getWebhookRuntime(): PluginRuntime {
+  if (!runtime) {
+    throw new Error("Webhook runtime not initialized");
+  }
+  return runtime;
+}
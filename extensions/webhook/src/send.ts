@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import { fetchWithSsrFGuard, resolveRetryConfig, retryAsync } from "openclaw/plugin-sdk";
+import { resolveWebhookAccount, type ResolvedWebhookAccount } from "./accounts.js";
+import { normalizeWebhookMessagingTarget } from "./normalize.js";
+import { getWebhookRuntime } from "./runtime.js";
+import { buildWebhookSignatureHeaders } from "./signature.js";
+import type { CoreConfig, WebhookCallbackAttachment, WebhookCallbackPayload } from "./types.js";
+
+type SendWebhookOptions = {
+  accountId?: string;
+  replyTo?: string;
+  threadId?: string;
+  mediaUrls?: string[];
+  mediaLocalRoots?: readonly string[];
+};
+
+export type SendWebhookResult = {
+  messageId: string;
+  conversationId: string;
+};
+
+export const WEBHOOK_RETRY_DEFAULTS = {
+  attempts: 3,
+  minDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: 0.1,
+};
+
+const DEFAULT_CALLBACK_TIMEOUT_MS = 10_000;
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+export class WebhookCallbackError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, opts: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "WebhookCallbackError";
+    this.status = opts.status;
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+function parseRetryAfterMs(header: string | null): number | undefined {
+  const value = header?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+/** Retries rate limits, server errors and transport failures; other 4xx responses are final. */
+function isRetryableCallbackError(err: unknown): boolean {
+  if (err instanceof WebhookCallbackError) {
+    return err.status === undefined || err.status === 429 || err.status >= 500;
+  }
+  return true;
+}
+
+function isRemoteMediaUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+async function loadAttachments(params: {
+  mediaUrls: string[];
+  maxBytes: number;
+  localRoots?: readonly string[];
+}): Promise<WebhookCallbackAttachment[]> {
+  const runtime = getWebhookRuntime();
+  const attachments: WebhookCallbackAttachment[] = [];
+  for (const mediaUrl of params.mediaUrls) {
+    const media = await runtime.media.loadWebMedia(mediaUrl, {
+      maxBytes: params.maxBytes,
+      optimizeImages: false,
+      localRoots: params.localRoots,
+    });
+    attachments.push({
+      fileName: media.fileName,
+      contentType: media.contentType ?? "application/octet-stream",
+      data: media.buffer.toString("base64"),
+    });
+  }
+  return attachments;
+}
+
+async function postCallback(params: {
+  account: ResolvedWebhookAccount;
+  body: string;
+}): Promise<string | undefined> {
+  const { account, body } = params;
+  const timeoutMs = account.config.callbackTimeoutMs ?? DEFAULT_CALLBACK_TIMEOUT_MS;
+  let guarded: Awaited<ReturnType<typeof fetchWithSsrFGuard>>;
+  try {
+    guarded = await fetchWithSsrFGuard({
+      url: account.callbackUrl,
+      init: {
+        method: "POST",
+        headers: {
+          ...account.config.callbackHeaders,
+          "Content-Type": "application/json",
+          // Signed per attempt so retries carry a fresh timestamp.
+          ...buildWebhookSignatureHeaders({ secret: account.secret, body }),
+        },
+        body,
+      },
+      timeoutMs,
+      // The operator chose this host, so it may be private; redirects elsewhere stay guarded.
+      policy: { allowedHostnames: [new URL(account.callbackUrl).hostname] },
+      auditContext: "webhook.callback",
+    });
+  } catch (err) {
+    throw new WebhookCallbackError(`Webhook callback request failed: ${String(err)}`);
+  }
+  const { response, release } = guarded;
+  let responseText: string;
+  try {
+    responseText = await response.text().catch(() => "");
+  } finally {
+    await release();
+  }
+  if (!response.ok) {
+    throw new WebhookCallbackError(
+      `Webhook callback failed (${response.status}): ${responseText.slice(0, 200) || response.statusText}`,
+      {
+        status: response.status,
+        retryAfterMs: parseRetryAfterMs(response.headers.get("retry-after")),
+      },
+    );
+  }
+  try {
+    const parsed = JSON.parse(responseText) as { messageId?: unknown };
+    return typeof parsed.messageId === "string" && parsed.messageId.trim()
+      ? parsed.messageId.trim()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function sendMessageWebhook(
+  to: string,
+  text: string,
+  opts: SendWebhookOptions = {},
+): Promise<SendWebhookResult> {
+  const runtime = getWebhookRuntime();
+  const cfg = runtime.config.loadConfig() as CoreConfig;
+  const account = resolveWebhookAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+
+  if (!account.configured) {
+    throw new Error(
+      `Webhook channel is not configured for account "${account.accountId}" (need secret and callbackUrl in channels.webhook).`,
+    );
+  }
+
+  const conversationId = normalizeWebhookMessagingTarget(to);
+  if (!conversationId) {
+    throw new Error(`Invalid webhook target: ${to}`);
+  }
+
+  const tableMode = runtime.channel.text.resolveMarkdownTableMode({
+    cfg,
+    channel: "webhook",
+    accountId: account.accountId,
+  });
+  const body = runtime.channel.text.convertMarkdownTables(text.trim(), tableMode);
+  const mediaUrls = (opts.mediaUrls ?? []).map((url) => url.trim()).filter(Boolean);
+  if (!body.trim() && mediaUrls.length === 0) {
+    throw new Error("Message must be non-empty for webhook sends");
+  }
+
+  const remoteMediaUrls = mediaUrls.filter(isRemoteMediaUrl);
+  const attachments = await loadAttachments({
+    mediaUrls: mediaUrls.filter((url) => !isRemoteMediaUrl(url)),
+    maxBytes: (account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024,
+    localRoots: opts.mediaLocalRoots,
+  });
+
+  const messageId = randomUUID();
+  const payload: WebhookCallbackPayload = {
+    event: "message",
+    accountId: account.accountId,
+    messageId,
+    conversationId,
+    text: body,
+    mediaUrls: remoteMediaUrls.length > 0 ? remoteMediaUrls : undefined,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    replyToId: opts.replyTo?.trim() || undefined,
+    threadId: opts.threadId?.trim() || undefined,
+    timestamp: Date.now(),
+  };
+  const serialized = JSON.stringify(payload);
+
+  const retryConfig = resolveRetryConfig(WEBHOOK_RETRY_DEFAULTS, account.config.retry);
+  const remoteMessageId = await retryAsync(() => postCallback({ account, body: serialized }), {
+    ...retryConfig,
+    label: "webhook-callback",
+    shouldRetry: isRetryableCallbackError,
+    retryAfterMs: (err) => (err instanceof WebhookCallbackError ? err.retryAfterMs : undefined),
+    onRetry: (info) => {
+      runtime.logging
+        .getChildLogger({ channel: "webhook" })
+        .warn(
+          `webhook callback retry ${info.attempt}/${info.maxAttempts} in ${info.delayMs}ms: ${String(info.err)}`,
+        );
+    },
+  });
+
+  runtime.channel.activity.record({
+    channel: "webhook",
+    accountId: account.accountId,
+    direction: "outbound",
+  });
+
+  return { messageId: remoteMessageId ?? messageId, conversationId };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWebhookSignatureHeaders,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./signature.js";
+
+const NOW_MS = 1_767_225_600_000;
+
+describe("webhook signatures", () => {
+  it("round-trips signed headers", () => {
+    const body = JSON.stringify({ senderId: "alice", text: "hi" });
+    const headers = buildWebhookSignatureHeaders({ secret: "s3cret", body, nowMs: NOW_MS });
+
+    expect(headers[WEBHOOK_TIMESTAMP_HEADER]).toBe("1767225600");
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(
+      verifyWebhookSignature({
+        secret: "s3cret",
+        body,
+        timestamp: headers[WEBHOOK_TIMESTAMP_HEADER],
+        signature: headers[WEBHOOK_SIGNATURE_HEADER],
+        nowMs: NOW_MS + 10_000,
+      }),
+    ).toEqual({ ok: true });
+  });
+
+  it("accepts a bare hex digest", () => {
+    const signature = computeWebhookSignature({ secret: "k", timestamp: "1767225600", body: "{}" });
+    expect(
+      verifyWebhookSignature({
+        secret: "k",
+        body: "{}",
+        timestamp: "1767225600",
+        signature: signature.slice("sha256=".length).toUpperCase(),
+        nowMs: NOW_MS,
+      }),
+    ).toEqual({ ok: true });
+  });
+
+  it("rejects tampered bodies, wrong secrets and missing headers", () => {
+    const headers = buildWebhookSignatureHeaders({ secret: "k", body: "{}", nowMs: NOW_MS });
+    const base = {
+      timestamp: headers[WEBHOOK_TIMESTAMP_HEADER],
+      signature: headers[WEBHOOK_SIGNATURE_HEADER],
+      nowMs: NOW_MS,
+    };
+
+    expect(verifyWebhookSignature({ ...base, secret: "k", body: '{"x":1}' })).toEqual({
+      ok: false,
+      reason: "mismatch",
+    });
+    expect(verifyWebhookSignature({ ...base, secret: "other", body: "{}" })).toEqual({
+      ok: false,
+      reason: "mismatch",
+    });
+    expect(verifyWebhookSignature({ ...base, secret: "k", body: "{}", signature: null })).toEqual({
+      ok: false,
+      reason: "missing",
+    });
+    expect(verifyWebhookSignature({ ...base, secret: "", body: "{}" })).toEqual({
+      ok: false,
+      reason: "missing",
+    });
+  });
+
+  it("rejects timestamps outside the tolerance window", () => {
+    const headers = buildWebhookSignatureHeaders({ secret: "k", body: "{}", nowMs: NOW_MS });
+    const check = (nowMs: number) =>
+      verifyWebhookSignature({
+        secret: "k",
+        body: "{}",
+        timestamp: headers[WEBHOOK_TIMESTAMP_HEADER],
+        signature: headers[WEBHOOK_SIGNATURE_HEADER],
+        nowMs,
+      });
+
+    expect(check(NOW_MS + 301_000)).toEqual({ ok: false, reason: "stale" });
+    expect(check(NOW_MS - 301_000)).toEqual({ ok: false, reason: "stale" });
+    expect(
+      verifyWebhookSignature({
+        secret: "k",
+        body: "{}",
+        timestamp: "not-a-number",
+        signature: headers[WEBHOOK_SIGNATURE_HEADER],
+        nowMs: NOW_MS,
+      }),
+    ).toEqual({ ok: false, reason: "stale" });
+  });
+});
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-openclaw-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-openclaw-timestamp";
+
+/** Requests older (or further in the future) than this are rejected to limit replays. */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_PREFIX = "sha256=";
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Binding the timestamp into the digest keeps a
+ * captured request from being replayed later with a fresh timestamp header.
+ */
+export function computeWebhookSignature(params: {
+  secret: string;
+  timestamp: string;
+  body: string;
+}): string {
+  const digest = createHmac("sha256", params.secret)
+    .update(`${params.timestamp}.${params.body}`, "utf8")
+    .digest("hex");
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+export function buildWebhookSignatureHeaders(params: {
+  secret: string;
+  body: string;
+  nowMs?: number;
+}): Record<string, string> {
+  const timestamp = String(Math.floor((params.nowMs ?? Date.now()) / 1000));
+  return {
+    [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    [WEBHOOK_SIGNATURE_HEADER]: computeWebhookSignature({
+      secret: params.secret,
+      timestamp,
+      body: params.body,
+    }),
+  };
+}
+
+export type WebhookSignatureCheck =
+  | { ok: true }
+  | { ok: false; reason: "missing" | "stale" | "mismatch" };
+
+export function verifyWebhookSignature(params: {
+  secret: string;
+  body: string;
+  timestamp?: string | null;
+  signature?: string | null;
+  nowMs?: number;
+  toleranceSeconds?: number;
+}): WebhookSignatureCheck {
+  const timestamp = params.timestamp?.trim() ?? "";
+  const signature = params.signature?.trim().toLowerCase() ?? "";
+  if (!params.secret || !timestamp || !signature) {
+    return { ok: false, reason: "missing" };
+  }
+  const timestampSeconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(timestampSeconds)) {
+    return { ok: false, reason: "stale" };
+  }
+  const tolerance = params.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((params.nowMs ?? Date.now()) / 1000);
+  if (Math.abs(nowSeconds - timestampSeconds) > tolerance) {
+    return { ok: false, reason: "stale" };
+  }
+  const expected = Buffer.from(
+    computeWebhookSignature({ secret: params.secret, timestamp, body: params.body }),
+    "utf8",
+  );
+  const received = Buffer.from(
+    signature.startsWith(SIGNATURE_PREFIX) ? signature : `${SIGNATURE_PREFIX}${signature}`,
+    "utf8",
+  );
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, reason: "mismatch" };
+  }
+  return { ok: true };
+}
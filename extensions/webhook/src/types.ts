@@ -0,0 +1,91 @@
+import type {
+  BlockStreamingCoalesceConfig,
+  DmConfig,
+  DmPolicy,
+  GroupPolicy,
+  MarkdownConfig,
+  OpenClawConfig,
+  OutboundRetryConfig,
+} from "openclaw/plugin-sdk";
+
+export type WebhookAccountConfig = {
+  name?: string;
+  enabled?: boolean;
+  /** Gateway HTTP path that accepts inbound messages. Defaults to /webhook-channel. */
+  webhookPath?: string;
+  /** Shared HMAC-SHA256 secret used to verify inbound requests and sign callbacks. */
+  secret?: string;
+  secretFile?: string;
+  /** URL that receives agent replies as signed JSON POSTs. */
+  callbackUrl?: string;
+  /** Extra headers sent with every callback request (e.g. an API key for the receiver). */
+  callbackHeaders?: Record<string, string>;
+  /** Per-attempt callback timeout. Defaults to 10 seconds. */
+  callbackTimeoutMs?: number;
+  /** Retry policy for callback deliveries (429, 5xx and network errors). */
+  retry?: OutboundRetryConfig;
+  dmPolicy?: DmPolicy;
+  /** Sender ids allowed to reach the agent. */
+  allowFrom?: Array<string | number>;
+  groupPolicy?: GroupPolicy;
+  /** Sender ids allowed in group conversations. Falls back to allowFrom. */
+  groupAllowFrom?: Array<string | number>;
+  defaultTo?: string;
+  markdown?: MarkdownConfig;
+  historyLimit?: number;
+  dmHistoryLimit?: number;
+  dms?: Record<string, DmConfig>;
+  textChunkLimit?: number;
+  chunkMode?: "length" | "newline";
+  blockStreaming?: boolean;
+  blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
+  responsePrefix?: string;
+  mediaMaxMb?: number;
+};
+
+export type WebhookConfig = WebhookAccountConfig & {
+  accounts?: Record<string, WebhookAccountConfig>;
+};
+
+export type CoreConfig = OpenClawConfig & {
+  channels?: OpenClawConfig["channels"] & {
+    webhook?: WebhookConfig;
+  };
+};
+
+export type WebhookInboundMessage = {
+  /** Conversation the message belongs to; replies are addressed to it. */
+  conversationId: string;
+  conversationName?: string;
+  chatType: "direct" | "group";
+  senderId: string;
+  senderName?: string;
+  text: string;
+  /** Sender-side message id, used for deduplication and reply threading. */
+  messageId?: string;
+  threadId?: string;
+  timestamp: number;
+};
+
+export type WebhookCallbackAttachment = {
+  fileName?: string;
+  contentType: string;
+  /** Base64-encoded file content. */
+  data: string;
+};
+
+export type WebhookCallbackPayload = {
+  event: "message";
+  accountId: string;
+  /** Generated per delivery and stable across retries so receivers can deduplicate. */
+  messageId: string;
+  conversationId: string;
+  text: string;
+  /** Remote media, forwarded as URLs. */
+  mediaUrls?: string[];
+  /** Local media (e.g. generated files), inlined because the receiver cannot read them. */
+  attachments?: WebhookCallbackAttachment[];
+  replyToId?: string;
+  threadId?: string;
+  timestamp: number;
+};
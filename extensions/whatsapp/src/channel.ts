@@ -253,6 +253,7 @@ export const whatsappPlugin: ChannelPlugin<ResolvedWhatsAppAccount> = {
       }
       if (gate("polls")) {
         actions.add("poll");
+        actions.add("poll-results");
       }
       return Array.from(actions);
     },
@@ -1,6 +1,11 @@
 import { describe, expect, it, vi } from "vitest";
 import type { GatewayClient } from "../gateway/client.js";
-import { parseSessionMeta, resolveSessionKey } from "./session-mapper.js";
+import {
+  parseSessionMeta,
+  resolveSessionKey,
+  syncSessionMcpServers,
+  toSessionMcpServers,
+} from "./session-mapper.js";
 
 function createGateway(resolveLabelKey = "agent:main:label"): {
   gateway: GatewayClient;
@@ -53,4 +58,59 @@ describe("acp session mapper", () => {
     expect(key).toBe("agent:main:override");
     expect(request).not.toHaveBeenCalled();
   });
+
+  it("maps ACP http MCP servers and skips stdio and sse", () => {
+    const result = toSessionMcpServers([
+      {
+        name: "fs",
+        command: "mcp-fs",
+        args: ["--root", "."],
+        env: [{ name: "TOKEN", value: "x" }],
+      },
+      {
+        type: "http",
+        name: "docs",
+        url: "https://mcp.example.com/mcp",
+        headers: [{ name: "Authorization", value: "Bearer y" }],
+      },
+      { type: "sse", name: "legacy", url: "https://mcp.example.com/sse", headers: [] },
+    ]);
+
+    expect(result.servers).toEqual({
+      docs: {
+        transport: "http",
+        url: "https://mcp.example.com/mcp",
+        headers: { Authorization: "Bearer y" },
+      },
+    });
+    expect(result.skipped).toEqual(["fs", "legacy"]);
+  });
+
+  it("patches session MCP servers only when the client sends some", async () => {
+    const { gateway, request } = createGateway();
+    const log = vi.fn();
+
+    await syncSessionMcpServers({ servers: [], sessionKey: "acp:1", gateway, log });
+    expect(request).not.toHaveBeenCalled();
+
+    await syncSessionMcpServers({
+      servers: [{ name: "fs", command: "mcp-fs", args: [], env: [] }],
+      sessionKey: "acp:1",
+      gateway,
+      log,
+    });
+    expect(request).not.toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith("ignoring unsupported MCP servers (stdio/sse): fs");
+
+    await syncSessionMcpServers({
+      servers: [{ type: "http", name: "docs", url: "https://mcp.example.com/mcp", headers: [] }],
+      sessionKey: "acp:1",
+      gateway,
+      log,
+    });
+    expect(request).toHaveBeenCalledWith("sessions.patch", {
+      key: "acp:1",
+      mcpServers: { docs: { transport: "http", url: "https://mcp.example.com/mcp", headers: {} } },
+    });
+  });
 });
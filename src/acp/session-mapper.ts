@@ -1,3 +1,5 @@
+import type { McpServer } from "@agentclientprotocol/sdk";
+import type { McpServerConfig } from "../config/types.mcp.js";
 import type { GatewayClient } from "../gateway/client.js";
 import { readBool, readString } from "./meta.js";
 import type { AcpServerOptions } from "./types.js";
@@ -96,3 +98,51 @@ export async function resetSessionIfNeeded(params: {
   }
   await params.gateway.request("sessions.reset", { key: params.sessionKey });
 }
+
+/**
+ * Convert ACP `mcpServers` into session-scoped MCP config.
+ * Only http servers are supported: stdio servers would run on the Gateway host, and SSE is
+ * deprecated in MCP. Unsupported servers are returned in `skipped`.
+ */
+export function toSessionMcpServers(servers: McpServer[]): {
+  servers: Record<string, McpServerConfig>;
+  skipped: string[];
+} {
+  const result: Record<string, McpServerConfig> = {};
+  const skipped: string[] = [];
+  for (const server of servers) {
+    const name = server.name?.trim();
+    if (!name) {
+      continue;
+    }
+    if ("type" in server && server.type === "http") {
+      result[name] = {
+        transport: "http",
+        url: server.url,
+        headers: Object.fromEntries(server.headers.map((header) => [header.name, header.value])),
+      };
+      continue;
+    }
+    skipped.push(name);
+  }
+  return { servers: result, skipped };
+}
+
+export async function syncSessionMcpServers(params: {
+  servers: McpServer[];
+  sessionKey: string;
+  gateway: GatewayClient;
+  log: (message: string) => void;
+}): Promise<void> {
+  if (params.servers.length === 0) {
+    return;
+  }
+  const { servers, skipped } = toSessionMcpServers(params.servers);
+  if (skipped.length > 0) {
+    params.log(`ignoring unsupported MCP servers (stdio/sse): ${skipped.join(", ")}`);
+  }
+  if (Object.keys(servers).length === 0) {
+    return;
+  }
+  await params.gateway.request("sessions.patch", { key: params.sessionKey, mcpServers: servers });
+}
@@ -36,7 +36,12 @@ import {
   inferToolKind,
 } from "./event-mapper.js";
 import { readBool, readNumber, readString } from "./meta.js";
-import { parseSessionMeta, resetSessionIfNeeded, resolveSessionKey } from "./session-mapper.js";
+import {
+  parseSessionMeta,
+  resetSessionIfNeeded,
+  resolveSessionKey,
+  syncSessionMcpServers,
+} from "./session-mapper.js";
 import { defaultAcpSessionStore, type AcpSessionStore } from "./session.js";
 import { ACP_AGENT_INFO, type AcpServerOptions } from "./types.js";
 
@@ -130,7 +135,7 @@ export class AcpGatewayAgent implements Agent {
           embeddedContext: true,
         },
         mcpCapabilities: {
-          http: false,
+          http: true,
           sse: false,
         },
         sessionCapabilities: {
@@ -143,9 +148,6 @@ export class AcpGatewayAgent implements Agent {
   }
 
   async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
     this.enforceSessionCreateRateLimit("newSession");
 
     const sessionId = randomUUID();
@@ -163,6 +165,13 @@ export class AcpGatewayAgent implements Agent {
       opts: this.opts,
     });
 
+    await syncSessionMcpServers({
+      servers: params.mcpServers,
+      sessionKey,
+      gateway: this.gateway,
+      log: this.log,
+    });
+
     const session = this.sessionStore.createSession({
       sessionId,
       sessionKey,
@@ -174,9 +183,6 @@ export class AcpGatewayAgent implements Agent {
   }
 
   async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
     if (!this.sessionStore.hasSession(params.sessionId)) {
       this.enforceSessionCreateRateLimit("loadSession");
     }
@@ -195,6 +201,13 @@ export class AcpGatewayAgent implements Agent {
       opts: this.opts,
     });
 
+    await syncSessionMcpServers({
+      servers: params.mcpServers,
+      sessionKey,
+      gateway: this.gateway,
+      log: this.log,
+    });
+
     const session = this.sessionStore.createSession({
       sessionId: params.sessionId,
       sessionKey,
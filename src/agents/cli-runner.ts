@@ -28,6 +28,11 @@ import { resolveOpenClawDocsPath } from "./docs-path.js";
 import { FailoverError, resolveFailoverStatus } from "./failover-error.js";
 import { classifyFailoverReason, isFailoverErrorMessage } from "./pi-embedded-helpers.js";
 import type { EmbeddedPiRunResult } from "./pi-embedded-runner.js";
+import {
+  applyRunUsageBudgets,
+  recordRunUsageBudgetSpend,
+  withUsageBudgetNotices,
+} from "./run-usage-budgets.js";
 import { redactRunIdentifier, resolveRunWorkspaceDir } from "./workspace-run.js";
 
 const log = createSubsystemLogger("agent/claude-cli");
@@ -50,7 +55,17 @@ export async function runCliAgent(params: {
   ownerNumbers?: string[];
   cliSessionId?: string;
   images?: ImageContent[];
+  messageChannel?: string;
+  messageProvider?: string;
+  agentAccountId?: string;
+  senderId?: string | null;
+  chatType?: string;
+  usageBudgetNotices?: boolean;
 }): Promise<EmbeddedPiRunResult> {
+  const budgetGate = await applyRunUsageBudgets({ ...params, canSwitchProvider: false });
+  if (budgetGate.stopResult) {
+    return budgetGate.stopResult;
+  }
   const started = Date.now();
   const workspaceResolution = resolveRunWorkspaceDir({
     workspaceDir: params.workspaceDir,
@@ -74,7 +89,7 @@ export async function runCliAgent(params: {
     throw new Error(`Unknown CLI backend: ${params.provider}`);
   }
   const backend = backendResolved.config;
-  const modelId = (params.model ?? "default").trim() || "default";
+  const modelId = (budgetGate.downgrade?.model ?? params.model ?? "default").trim() || "default";
   const normalizedModel = normalizeCliModel(modelId, backend);
   const modelDisplay = `${params.provider}/${modelId}`;
 
@@ -323,7 +338,7 @@ export async function runCliAgent(params: {
     const text = output.text?.trim();
     const payloads = text ? [{ text }] : undefined;
 
-    return {
+    const result: EmbeddedPiRunResult = {
       payloads,
       meta: {
         durationMs: Date.now() - started,
@@ -335,6 +350,8 @@ export async function runCliAgent(params: {
         },
       },
     };
+    await recordRunUsageBudgetSpend(params, result);
+    return withUsageBudgetNotices(result, budgetGate.notices);
   } catch (err) {
     if (err instanceof FailoverError) {
       throw err;
@@ -0,0 +1,81 @@
+import { createServer, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { McpClient } from "./client.js";
+
+type RpcMessage = { jsonrpc: "2.0"; id?: number; method?: string };
+
+let server: Server | null = null;
+
+async function startHangingServer(onHang: (res: ServerResponse) => void): Promise<string> {
+  const httpServer = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += String(chunk);
+    });
+    req.on("end", () => {
+      const message = JSON.parse(body) as RpcMessage;
+      if (message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+      if (message.method === "initialize") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: message.id, result: { protocolVersion: "x" } }),
+        );
+        return;
+      }
+      // Never answer: the POST stays in flight until the client gives up.
+      onHang(res);
+    });
+  });
+  server = httpServer;
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+}
+
+afterEach(async () => {
+  server?.closeAllConnections();
+  await new Promise<void>((resolve) => server?.close(() => resolve()) ?? resolve());
+  server = null;
+});
+
+describe("McpClient over HTTP", () => {
+  it("rejects and cancels the POST when a request times out in flight", async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    try {
+      let cancelled!: () => void;
+      const postCancelled = new Promise<void>((resolve) => {
+        cancelled = resolve;
+      });
+      const url = await startHangingServer((res) => res.on("close", cancelled));
+      const client = new McpClient({ transport: "http", url, timeoutMs: 50 });
+      await client.connect();
+
+      await expect(client.callTool("slow", {})).rejects.toThrow(
+        "MCP request timed out after 50ms (tools/call)",
+      );
+      await postCancelled;
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).toEqual([]);
+      await client.close();
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+
+  it("rejects with the abort reason when the caller aborts an in-flight POST", async () => {
+    const url = await startHangingServer(() => {});
+    const client = new McpClient({ transport: "http", url });
+    await client.connect();
+    const controller = new AbortController();
+
+    const pending = client.callTool("slow", {}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toThrow("MCP request aborted (tools/call)");
+    await client.close();
+  });
+});
@@ -0,0 +1,496 @@
+import { type ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { createInterface, type Interface } from "node:readline";
+import { VERSION } from "../../version.js";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+const DEFAULT_MCP_REQUEST_TIMEOUT_MS = 60_000;
+const DEFAULT_MCP_CONNECT_TIMEOUT_MS = 15_000;
+const MAX_MCP_TOOL_PAGES = 20;
+
+export type McpToolDescriptor = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
+};
+
+export type McpContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource_link"; uri: string; name?: string; mimeType?: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+    };
+
+export type McpCallToolResult = {
+  content?: McpContentBlock[];
+  structuredContent?: unknown;
+  isError?: boolean;
+};
+
+export type McpClientOptions =
+  | {
+      transport: "stdio";
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+      timeoutMs?: number;
+      connectTimeoutMs?: number;
+    }
+  | {
+      transport: "http";
+      url: string;
+      headers?: Record<string, string>;
+      timeoutMs?: number;
+      connectTimeoutMs?: number;
+    };
+
+type JsonRpcError = {
+  code?: number;
+  message?: string;
+  data?: unknown;
+};
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcError;
+};
+
+type PendingRequest = {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+};
+
+export class McpRpcError extends Error {
+  readonly code?: number;
+
+  constructor(method: string, error: JsonRpcError) {
+    const base = error.message?.trim() || "MCP error";
+    super(typeof error.code === "number" ? `${base} (code=${error.code}, ${method})` : base);
+    this.name = "McpRpcError";
+    this.code = error.code;
+  }
+}
+
+export type McpClientEvents = {
+  /** Server announced notifications/tools/list_changed. */
+  onToolsChanged?: () => void;
+  /** Server exited or the connection failed after connect(). */
+  onClose?: (reason: string) => void;
+  /** Diagnostic output (stderr lines, parse failures). */
+  onLog?: (message: string) => void;
+};
+
+/**
+ * Minimal MCP client speaking JSON-RPC over stdio (newline-delimited) or Streamable HTTP.
+ * Covers the tool surface only: initialize, tools/list, tools/call and cancellation.
+ */
+export class McpClient {
+  private readonly opts: McpClientOptions;
+  private readonly events: McpClientEvents;
+  private readonly pending = new Map<string, PendingRequest>();
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private reader: Interface | null = null;
+  private httpSessionId: string | null = null;
+  private negotiatedVersion: string | null = null;
+  private nextId = 1;
+  private closed = false;
+
+  constructor(opts: McpClientOptions, events: McpClientEvents = {}) {
+    this.opts = opts;
+    this.events = events;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  async connect(): Promise<void> {
+    if (this.opts.transport === "stdio") {
+      this.startStdio(this.opts);
+    }
+    const result = (await this.request(
+      "initialize",
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "openclaw", version: VERSION },
+      },
+      { timeoutMs: this.opts.connectTimeoutMs ?? DEFAULT_MCP_CONNECT_TIMEOUT_MS },
+    )) as { protocolVersion?: unknown } | undefined;
+    this.negotiatedVersion =
+      typeof result?.protocolVersion === "string" ? result.protocolVersion : MCP_PROTOCOL_VERSION;
+    await this.notify("notifications/initialized");
+  }
+
+  async listTools(): Promise<McpToolDescriptor[]> {
+    const tools: McpToolDescriptor[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_MCP_TOOL_PAGES; page += 1) {
+      const result = (await this.request("tools/list", cursor ? { cursor } : {})) as
+        | { tools?: unknown; nextCursor?: unknown }
+        | undefined;
+      if (Array.isArray(result?.tools)) {
+        for (const tool of result.tools) {
+          const name = tool && typeof tool === "object" ? (tool as { name?: unknown }).name : null;
+          if (typeof name === "string" && name) {
+            tools.push(tool as McpToolDescriptor);
+          }
+        }
+      }
+      cursor =
+        typeof result?.nextCursor === "string" && result.nextCursor ? result.nextCursor : undefined;
+      if (!cursor) {
+        break;
+      }
+    }
+    return tools;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    opts?: { signal?: AbortSignal },
+  ): Promise<McpCallToolResult> {
+    const result = await this.request(
+      "tools/call",
+      { name, arguments: args },
+      { signal: opts?.signal },
+    );
+    return (result ?? {}) as McpCallToolResult;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.failAll(new Error("MCP client closed"));
+    if (this.opts.transport === "http") {
+      if (this.httpSessionId) {
+        await fetch(this.opts.url, {
+          method: "DELETE",
+          headers: this.buildHttpHeaders(),
+        }).catch(() => {});
+      }
+      return;
+    }
+    this.reader?.close();
+    this.reader = null;
+    const child = this.child;
+    this.child = null;
+    if (!child) {
+      return;
+    }
+    child.stdin.end();
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        if (!child.killed) {
+          child.kill("SIGTERM");
+        }
+        resolve();
+      }, 500);
+      child.once("close", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private startStdio(opts: Extract<McpClientOptions, { transport: "stdio" }>) {
+    const child = spawn(opts.command, opts.args ?? [], {
+      cwd: opts.cwd,
+      env: { ...process.env, ...opts.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child = child;
+    this.reader = createInterface({ input: child.stdout });
+    this.reader.on("line", (line) => {
+      const trimmed = line.trim();
+      if (trimmed) {
+        this.handleMessageText(trimmed);
+      }
+    });
+    child.stderr.on("data", (chunk) => {
+      for (const line of chunk.toString().split(/\r?\n/)) {
+        if (line.trim()) {
+          this.events.onLog?.(line.trim());
+        }
+      }
+    });
+    child.on("error", (err) => {
+      this.handleTransportClosed(err instanceof Error ? err.message : String(err));
+    });
+    child.on("close", (code, signal) => {
+      const reason = signal ? `signal ${signal}` : `code ${code ?? 0}`;
+      this.handleTransportClosed(`MCP server exited (${reason})`);
+    });
+  }
+
+  private handleTransportClosed(reason: string) {
+    const wasClosed = this.closed;
+    this.closed = true;
+    this.failAll(new Error(reason));
+    this.child = null;
+    if (!wasClosed) {
+      this.events.onClose?.(reason);
+    }
+  }
+
+  private async request(
+    method: string,
+    params: Record<string, unknown>,
+    opts?: { timeoutMs?: number; signal?: AbortSignal },
+  ): Promise<unknown> {
+    if (this.closed) {
+      throw new Error(`MCP client closed (${method})`);
+    }
+    const id = this.nextId++;
+    const key = String(id);
+    const timeoutMs = opts?.timeoutMs ?? this.opts.timeoutMs ?? DEFAULT_MCP_REQUEST_TIMEOUT_MS;
+    const signal = opts?.signal;
+    if (signal?.aborted) {
+      throw new Error(`MCP request aborted (${method})`);
+    }
+
+    // Cancels the in-flight HTTP POST when the request times out or is aborted.
+    const transportAbort = new AbortController();
+    const response = new Promise<unknown>((resolve, reject) => {
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              this.pending.delete(key);
+              transportAbort.abort();
+              void this.notify("notifications/cancelled", { requestId: id, reason: "timeout" });
+              reject(new Error(`MCP request timed out after ${timeoutMs}ms (${method})`));
+            }, timeoutMs)
+          : undefined;
+      this.pending.set(key, { method, resolve, reject, timer });
+    });
+    // The timeout/abort can settle `response` while `send` is still awaiting the POST;
+    // observe it now so that rejection is never unhandled.
+    response.catch(() => {});
+    const onAbort = () => {
+      const pending = this.pending.get(key);
+      if (!pending) {
+        return;
+      }
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+      this.pending.delete(key);
+      transportAbort.abort();
+      void this.notify("notifications/cancelled", { requestId: id, reason: "aborted" });
+      pending.reject(new Error(`MCP request aborted (${method})`));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      try {
+        await this.send({ jsonrpc: "2.0", id, method, params }, transportAbort.signal);
+      } catch (err) {
+        if (transportAbort.signal.aborted) {
+          // Surface the timeout/abort reason rather than the fetch AbortError.
+          return await response;
+        }
+        throw err;
+      }
+      return await response;
+    } catch (err) {
+      const pending = this.pending.get(key);
+      if (pending?.timer) {
+        clearTimeout(pending.timer);
+      }
+      this.pending.delete(key);
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    try {
+      await this.send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) });
+    } catch (err) {
+      this.events.onLog?.(`notify ${method} failed: ${String(err)}`);
+    }
+  }
+
+  private async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void> {
+    if (this.opts.transport === "stdio") {
+      if (!this.child) {
+        throw new Error("MCP server not running");
+      }
+      this.child.stdin.write(`${JSON.stringify(message)}\n`);
+      return;
+    }
+    await this.sendHttp(this.opts, message, signal);
+  }
+
+  private buildHttpHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...(this.opts.transport === "http" ? this.opts.headers : undefined),
+    };
+    if (this.httpSessionId) {
+      headers["Mcp-Session-Id"] = this.httpSessionId;
+    }
+    if (this.negotiatedVersion) {
+      headers["MCP-Protocol-Version"] = this.negotiatedVersion;
+    }
+    return headers;
+  }
+
+  private async sendHttp(
+    opts: Extract<McpClientOptions, { transport: "http" }>,
+    message: JsonRpcMessage,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const res = await fetch(opts.url, {
+      method: "POST",
+      headers: this.buildHttpHeaders(),
+      body: JSON.stringify(message),
+      signal,
+    });
+    const sessionId = res.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.httpSessionId = sessionId;
+    }
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).trim().slice(0, 300);
+      throw new Error(`MCP HTTP ${res.status}${detail ? `: ${detail}` : ""} (${message.method})`);
+    }
+    if (res.status === 202 || message.id === undefined) {
+      await res.body?.cancel().catch(() => {});
+      return;
+    }
+    const contentType = res.headers.get("content-type") ?? "";
+    const text = await res.text();
+    if (contentType.includes("text/event-stream")) {
+      for (const data of parseSseDataEvents(text)) {
+        this.handleMessageText(data);
+      }
+      return;
+    }
+    if (text.trim()) {
+      this.handleMessageText(text);
+    }
+  }
+
+  private handleMessageText(text: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      this.events.onLog?.(`failed to parse MCP message: ${detail}`);
+      return;
+    }
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const message of messages) {
+      if (message && typeof message === "object") {
+        this.handleMessage(message as JsonRpcMessage);
+      }
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    const hasId = message.id !== undefined && message.id !== null;
+    if (message.method) {
+      if (hasId) {
+        void this.respondToServerRequest(message);
+        return;
+      }
+      if (message.method === "notifications/tools/list_changed") {
+        this.events.onToolsChanged?.();
+      }
+      return;
+    }
+    if (!hasId) {
+      return;
+    }
+    const key = String(message.id);
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return;
+    }
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    this.pending.delete(key);
+    if (message.error) {
+      pending.reject(new McpRpcError(pending.method, message.error));
+      return;
+    }
+    pending.resolve(message.result);
+  }
+
+  private async respondToServerRequest(message: JsonRpcMessage) {
+    // We do not advertise sampling/roots/elicitation, so only ping gets a real answer.
+    const reply: JsonRpcMessage =
+      message.method === "ping"
+        ? { jsonrpc: "2.0", id: message.id, result: {} }
+        : {
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32601, message: `Method not supported: ${message.method}` },
+          };
+    try {
+      await this.send(reply);
+    } catch (err) {
+      this.events.onLog?.(`reply to ${message.method} failed: ${String(err)}`);
+    }
+  }
+
+  private failAll(err: Error) {
+    for (const [key, pending] of this.pending.entries()) {
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+      pending.reject(err);
+      this.pending.delete(key);
+    }
+  }
+}
+
+export function parseSseDataEvents(raw: string): string[] {
+  const events: string[] = [];
+  let data: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (line === "") {
+      if (data.length > 0) {
+        events.push(data.join("\n"));
+        data = [];
+      }
+      continue;
+    }
+    if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+  if (data.length > 0) {
+    events.push(data.join("\n"));
+  }
+  return events;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { normalizeMcpServerName, resolveMcpServers } from "./config.js";
+
+describe("resolveMcpServers", () => {
+  it("returns nothing when no servers are configured", () => {
+    expect(resolveMcpServers({ config: {}, agentId: "main" })).toEqual([]);
+  });
+
+  it("merges defaults, agent and session servers by name", () => {
+    const cfg: OpenClawConfig = {
+      agents: {
+        defaults: {
+          mcpServers: {
+            GitHub: { url: "https://mcp.example.com/github", timeoutMs: 5_000 },
+            fs: { command: "mcp-fs", args: ["--root", "."] },
+            legacy: { command: "mcp-legacy" },
+          },
+        },
+        list: [
+          {
+            id: "work",
+            mcpServers: {
+              github: { headers: { Authorization: "Bearer token" } },
+              legacy: { enabled: false },
+            },
+          },
+        ],
+      },
+    };
+
+    const servers = resolveMcpServers({
+      config: cfg,
+      agentId: "work",
+      workspaceDir: "/tmp/workspace-work",
+      sessionServers: { linear: { transport: "http", url: "https://mcp.example.com/linear" } },
+    });
+
+    expect(servers.map((server) => server.name)).toEqual(["fs", "github", "linear"]);
+    expect(servers[0]?.client).toEqual({
+      transport: "stdio",
+      command: "mcp-fs",
+      args: ["--root", "."],
+      env: undefined,
+      cwd: "/tmp/workspace-work",
+      timeoutMs: undefined,
+      connectTimeoutMs: undefined,
+    });
+    expect(servers[1]?.client).toMatchObject({
+      transport: "http",
+      url: "https://mcp.example.com/github",
+      headers: { Authorization: "Bearer token" },
+      timeoutMs: 5_000,
+    });
+  });
+
+  it("changes the fingerprint when connection settings change", () => {
+    const base: OpenClawConfig = {
+      agents: { defaults: { mcpServers: { fs: { command: "mcp-fs" } } } },
+    };
+    const changed: OpenClawConfig = {
+      agents: { defaults: { mcpServers: { fs: { command: "mcp-fs", args: ["--ro"] } } } },
+    };
+    const [first] = resolveMcpServers({ config: base, workspaceDir: "/tmp/ws" });
+    const [again] = resolveMcpServers({ config: base, workspaceDir: "/tmp/ws" });
+    const [second] = resolveMcpServers({ config: changed, workspaceDir: "/tmp/ws" });
+    expect(first?.fingerprint).toBe(again?.fingerprint);
+    expect(first?.fingerprint).not.toBe(second?.fingerprint);
+  });
+
+  it("ignores stdio settings from the session layer", () => {
+    const cfg: OpenClawConfig = {
+      agents: { defaults: { mcpServers: { fs: { command: "mcp-fs" } } } },
+    };
+    const servers = resolveMcpServers({
+      config: cfg,
+      workspaceDir: "/tmp/ws",
+      sessionServers: {
+        fs: { command: "sh", args: ["-c", "id"], env: { LD_PRELOAD: "x" } },
+        shell: { transport: "stdio", command: "sh" },
+      },
+    });
+
+    expect(servers).toHaveLength(1);
+    expect(servers[0]?.client).toMatchObject({
+      command: "mcp-fs",
+      args: undefined,
+      env: undefined,
+    });
+  });
+
+  it("skips servers without a command or url", () => {
+    const cfg: OpenClawConfig = {
+      agents: { defaults: { mcpServers: { broken: { transport: "http" } } } },
+    };
+    expect(resolveMcpServers({ config: cfg })).toEqual([]);
+  });
+});
+
+describe("normalizeMcpServerName", () => {
+  it("lowercases and replaces unsupported characters", () => {
+    expect(normalizeMcpServerName(" My Server.v2 ")).toBe("my_server_v2");
+  });
+});
@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto";
+import type { OpenClawConfig } from "../../config/config.js";
+import type { McpServerConfig } from "../../config/types.mcp.js";
+import { resolveUserPath } from "../../utils.js";
+import { resolveAgentConfig } from "../agent-scope.js";
+import type { McpClientOptions } from "./client.js";
+
+export type ResolvedMcpServer = {
+  /** Normalized server name used in tool names (`mcp__<name>__<tool>`). */
+  name: string;
+  /** Stable hash of the connection-relevant settings; changes force a reconnect. */
+  fingerprint: string;
+  client: McpClientOptions;
+  toolFilter?: { allow?: string[]; deny?: string[] };
+};
+
+export function normalizeMcpServerName(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function mergeServerMaps(
+  layers: Array<Record<string, McpServerConfig> | undefined>,
+): Map<string, McpServerConfig> {
+  const merged = new Map<string, McpServerConfig>();
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    for (const [rawName, server] of Object.entries(layer)) {
+      const name = normalizeMcpServerName(rawName);
+      if (!name || !server || typeof server !== "object") {
+        continue;
+      }
+      merged.set(name, { ...merged.get(name), ...server });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Session servers are stored from `sessions.patch`; only http endpoints and overrides of
+ * configured servers are honored, never settings that launch a process on the Gateway host.
+ */
+function stripSessionStdioSettings(
+  servers: Record<string, McpServerConfig> | undefined,
+): Record<string, McpServerConfig> | undefined {
+  if (!servers) {
+    return undefined;
+  }
+  const result: Record<string, McpServerConfig> = {};
+  for (const [name, server] of Object.entries(servers)) {
+    if (!server || typeof server !== "object" || server.transport === "stdio") {
+      continue;
+    }
+    const { command: _command, args: _args, env: _env, cwd: _cwd, ...rest } = server;
+    result[name] = rest;
+  }
+  return result;
+}
+
+function toClientOptions(
+  server: McpServerConfig,
+  workspaceDir: string | undefined,
+): McpClientOptions | null {
+  const transport = server.transport ?? (server.url?.trim() ? "http" : "stdio");
+  if (transport === "http") {
+    const url = server.url?.trim();
+    if (!url) {
+      return null;
+    }
+    return {
+      transport,
+      url,
+      headers: server.headers,
+      timeoutMs: server.timeoutMs,
+      connectTimeoutMs: server.connectTimeoutMs,
+    };
+  }
+  const command = server.command?.trim();
+  if (!command) {
+    return null;
+  }
+  const cwd = server.cwd?.trim() ? resolveUserPath(server.cwd.trim()) : workspaceDir;
+  return {
+    transport: "stdio",
+    command,
+    args: server.args,
+    env: server.env,
+    cwd,
+    timeoutMs: server.timeoutMs,
+    connectTimeoutMs: server.connectTimeoutMs,
+  };
+}
+
+function fingerprintClientOptions(name: string, client: McpClientOptions): string {
+  return createHash("sha256").update(JSON.stringify({ name, client })).digest("hex").slice(0, 16);
+}
+
+/**
+ * Resolve the MCP servers visible to one agent run.
+ * Layers (later wins, merged per server name): agents.defaults → agents.list[] → session.
+ */
+export function resolveMcpServers(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  workspaceDir?: string;
+  sessionServers?: Record<string, McpServerConfig>;
+}): ResolvedMcpServer[] {
+  const cfg = params.config;
+  const hasConfiguredServers =
+    Boolean(cfg?.agents?.defaults?.mcpServers) ||
+    Boolean(cfg?.agents?.list?.some((entry) => entry?.mcpServers)) ||
+    Boolean(params.sessionServers);
+  if (!hasConfiguredServers) {
+    return [];
+  }
+  const agentServers =
+    cfg && params.agentId ? resolveAgentConfig(cfg, params.agentId)?.mcpServers : undefined;
+  const merged = mergeServerMaps([
+    cfg?.agents?.defaults?.mcpServers,
+    agentServers,
+    stripSessionStdioSettings(params.sessionServers),
+  ]);
+  const resolved: ResolvedMcpServer[] = [];
+  for (const [name, server] of merged) {
+    if (server.enabled === false) {
+      continue;
+    }
+    const client = toClientOptions(server, params.workspaceDir);
+    if (!client) {
+      continue;
+    }
+    resolved.push({
+      name,
+      fingerprint: fingerprintClientOptions(name, client),
+      client,
+      toolFilter: server.tools,
+    });
+  }
+  return resolved.toSorted((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,193 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { resolveMcpServers } from "./config.js";
+import {
+  __testing,
+  buildMcpToolName,
+  closeMcpClients,
+  getMcpToolMeta,
+  mcpResultToToolResult,
+  prepareMcpTools,
+  releaseMcpSession,
+  resolveMcpTools,
+} from "./tools.js";
+
+type RpcMessage = { jsonrpc: "2.0"; id?: number; method?: string; params?: unknown };
+
+let server: Server;
+let url = "";
+const calls: RpcMessage[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.method === "DELETE") {
+      res.writeHead(204).end();
+      return;
+    }
+    let body = "";
+    req.on("data", (chunk) => {
+      body += String(chunk);
+    });
+    req.on("end", () => {
+      const message = JSON.parse(body) as RpcMessage;
+      calls.push(message);
+      if (message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+      const reply = (result: unknown) => ({ jsonrpc: "2.0", id: message.id, result });
+      if (message.method === "initialize") {
+        res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": "sess-1" });
+        res.end(JSON.stringify(reply({ protocolVersion: "2025-06-18", capabilities: {} })));
+        return;
+      }
+      if (message.method === "tools/list") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(
+            reply({
+              tools: [
+                {
+                  name: "search_issues",
+                  description: "Search issues",
+                  inputSchema: { type: "object", properties: { q: { type: "string" } } },
+                },
+                { name: "delete_repo", description: "Delete a repository" },
+              ],
+            }),
+          ),
+        );
+        return;
+      }
+      if (message.method === "tools/call") {
+        // Answer over SSE to cover the streamable HTTP path.
+        const params = message.params as { arguments?: { q?: string } };
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.end(
+          `event: message\ndata: ${JSON.stringify(
+            reply({ content: [{ type: "text", text: `found: ${params.arguments?.q}` }] }),
+          )}\n\n`,
+        );
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: message.id, error: { code: -32601 } }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterEach(async () => {
+  await closeMcpClients();
+  __testing.resetMcpConnections();
+  calls.length = 0;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("MCP tools", () => {
+  it("discovers and calls tools over streamable HTTP", async () => {
+    const config: OpenClawConfig = {
+      agents: {
+        defaults: {
+          mcpServers: { github: { url, tools: { deny: ["delete_*"] } } },
+        },
+      },
+    };
+
+    expect(resolveMcpTools({ config, agentId: "main" })).toEqual([]);
+    await prepareMcpTools({ config, agentId: "main" });
+    const tools = resolveMcpTools({ config, agentId: "main" });
+
+    expect(tools.map((tool) => tool.name)).toEqual(["mcp__github__search_issues"]);
+    expect(getMcpToolMeta(tools[0])).toEqual({
+      pluginId: "mcp:github",
+      server: "github",
+      toolName: "search_issues",
+    });
+
+    const result = await tools[0].execute("call-1", { q: "bug" });
+    expect(result.content).toEqual([{ type: "text", text: "found: bug" }]);
+    expect(calls.map((call) => call.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/call",
+    ]);
+  });
+
+  it("skips tools whose names collide with existing tools", async () => {
+    const config: OpenClawConfig = {
+      agents: { defaults: { mcpServers: { github: { url } } } },
+    };
+    await prepareMcpTools({ config });
+    const tools = resolveMcpTools({
+      config,
+      existingToolNames: new Set(["mcp__github__delete_repo"]),
+    });
+    expect(tools.map((tool) => tool.name)).toEqual(["mcp__github__search_issues"]);
+  });
+});
+
+describe("MCP connection lifecycle", () => {
+  const configWith = (timeoutMs: number): OpenClawConfig => ({
+    agents: { defaults: { mcpServers: { github: { url, timeoutMs } } } },
+  });
+  const fingerprintOf = (config: OpenClawConfig) =>
+    resolveMcpServers({ config })[0]?.fingerprint ?? "";
+
+  it("closes a connection once its settings change", async () => {
+    const before = configWith(5_000);
+    const after = configWith(6_000);
+    await prepareMcpTools({ config: before, agentId: "main" });
+    expect(__testing.hasMcpConnection(fingerprintOf(before))).toBe(true);
+
+    await prepareMcpTools({ config: after, agentId: "main" });
+    expect(__testing.hasMcpConnection(fingerprintOf(before))).toBe(false);
+    expect(__testing.hasMcpConnection(fingerprintOf(after))).toBe(true);
+  });
+
+  it("drops a released session's connections unless another scope still uses them", async () => {
+    const shared = configWith(5_000);
+    const sessionOnly = configWith(7_000);
+    await prepareMcpTools({ config: shared, agentId: "main", sessionKey: "agent:main:a" });
+    await prepareMcpTools({ config: shared, agentId: "main", sessionKey: "agent:main:b" });
+    await prepareMcpTools({ config: sessionOnly, agentId: "main", sessionKey: "agent:main:c" });
+
+    releaseMcpSession("agent:main:a");
+    releaseMcpSession("agent:main:c");
+    expect(__testing.hasMcpConnection(fingerprintOf(shared))).toBe(true);
+    expect(__testing.hasMcpConnection(fingerprintOf(sessionOnly))).toBe(false);
+
+    releaseMcpSession("agent:main:b");
+    expect(__testing.hasMcpConnection(fingerprintOf(shared))).toBe(false);
+  });
+});
+
+describe("mcpResultToToolResult", () => {
+  it("throws with the tool's text when the result is an error", () => {
+    expect(() =>
+      mcpResultToToolResult({ isError: true, content: [{ type: "text", text: "rate limited" }] }),
+    ).toThrow("rate limited");
+  });
+
+  it("falls back to structured content when no blocks are returned", () => {
+    const result = mcpResultToToolResult({ structuredContent: { count: 2 } });
+    expect(result.content).toEqual([{ type: "text", text: '{\n  "count": 2\n}' }]);
+    expect(result.details).toEqual({ count: 2 });
+  });
+});
+
+describe("buildMcpToolName", () => {
+  it("sanitizes and caps tool names", () => {
+    expect(buildMcpToolName("fs", "read.file")).toBe("mcp__fs__read_file");
+    const long = buildMcpToolName("server", "x".repeat(80));
+    expect(long).toHaveLength(64);
+    expect(long.startsWith("mcp__server__xxx")).toBe(true);
+  });
+});
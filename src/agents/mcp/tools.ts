@@ -0,0 +1,437 @@
+import { createHash } from "node:crypto";
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import type { OpenClawConfig } from "../../config/config.js";
+import { loadSessionStore, resolveStorePath } from "../../config/sessions.js";
+import type { McpServerConfig } from "../../config/types.mcp.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { resolveAgentIdFromSessionKey } from "../agent-scope.js";
+import { compileGlobPatterns, matchesAnyGlobPattern } from "../glob-pattern.js";
+import type { AnyAgentTool } from "../tools/common.js";
+import { resolveWorkspaceRoot } from "../workspace-dir.js";
+import {
+  McpClient,
+  type McpCallToolResult,
+  type McpContentBlock,
+  type McpToolDescriptor,
+} from "./client.js";
+import { resolveMcpServers, type ResolvedMcpServer } from "./config.js";
+
+const log = createSubsystemLogger("agents/mcp");
+
+const MCP_TOOL_NAME_PREFIX = "mcp__";
+const MAX_TOOL_NAME_LENGTH = 64;
+/** Failed servers are not retried on every run; wait this long before reconnecting. */
+const MCP_RECONNECT_BACKOFF_MS = 30_000;
+
+export type McpToolMeta = {
+  /** Tool-policy group id (`mcp:<server>`), compatible with plugin tool groups. */
+  pluginId: string;
+  server: string;
+  toolName: string;
+};
+
+export type McpServerStatus = {
+  name: string;
+  transport: "stdio" | "http";
+  state: "connecting" | "ready" | "error";
+  toolCount: number;
+  error?: string;
+};
+
+type McpServerConnection = {
+  server: ResolvedMcpServer;
+  client: McpClient | null;
+  tools: McpToolDescriptor[];
+  state: McpServerStatus["state"];
+  error?: string;
+  failedAt?: number;
+  pending: Promise<void> | null;
+};
+
+const connections = new Map<string, McpServerConnection>();
+/** Session-scoped servers captured by `prepareMcpTools` so tool construction stays sync. */
+const sessionServersByKey = new Map<string, Record<string, McpServerConfig>>();
+/** Fingerprints each scope last prepared; connections no scope references any more are closed. */
+const fingerprintsByScope = new Map<string, Set<string>>();
+const mcpToolMeta = new WeakMap<AnyAgentTool, McpToolMeta>();
+
+export function getMcpToolMeta(tool: AnyAgentTool): McpToolMeta | undefined {
+  return mcpToolMeta.get(tool);
+}
+
+export function buildMcpToolName(server: string, toolName: string): string {
+  const safeTool = toolName.replace(/[^A-Za-z0-9_-]+/g, "_");
+  const name = `${MCP_TOOL_NAME_PREFIX}${server}__${safeTool}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) {
+    return name;
+  }
+  // Provider tool-name limits are strict; keep a readable prefix plus a stable hash.
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+function readSessionMcpServers(params: {
+  config?: OpenClawConfig;
+  sessionKey?: string;
+}): Record<string, McpServerConfig> | undefined {
+  const sessionKey = params.sessionKey?.trim();
+  if (!sessionKey || !params.config) {
+    return undefined;
+  }
+  try {
+    const agentId = resolveAgentIdFromSessionKey(sessionKey);
+    const storePath = resolveStorePath(params.config.session?.store, { agentId });
+    return loadSessionStore(storePath)[sessionKey]?.mcpServers;
+  } catch {
+    return undefined;
+  }
+}
+
+type McpToolScope = {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+  workspaceDir?: string;
+};
+
+function resolveScopeKey(scope: McpToolScope): string {
+  const sessionKey = scope.sessionKey?.trim();
+  if (sessionKey) {
+    return `session:${sessionKey}`;
+  }
+  return `agent:${scope.agentId ?? ""}:${resolveWorkspaceRoot(scope.workspaceDir)}`;
+}
+
+function closeConnection(connection: McpServerConnection): void {
+  // Let an in-flight connect settle first so its client is the one that gets closed.
+  void (connection.pending ?? Promise.resolve())
+    .then(() => connection.client?.close())
+    .catch(() => {});
+}
+
+/** Close connections whose fingerprint is no longer referenced by any prepared scope. */
+function closeUnreferencedConnections(candidates: Iterable<string>): void {
+  for (const fingerprint of candidates) {
+    const stillUsed = Array.from(fingerprintsByScope.values()).some((fingerprints) =>
+      fingerprints.has(fingerprint),
+    );
+    const connection = connections.get(fingerprint);
+    if (stillUsed || !connection) {
+      continue;
+    }
+    connections.delete(fingerprint);
+    log.debug(`closing unused mcp server "${connection.server.name}"`);
+    closeConnection(connection);
+  }
+}
+
+function trackScopeFingerprints(scopeKey: string, servers: ResolvedMcpServer[]): void {
+  const previous = fingerprintsByScope.get(scopeKey);
+  if (servers.length > 0) {
+    fingerprintsByScope.set(scopeKey, new Set(servers.map((server) => server.fingerprint)));
+  } else {
+    fingerprintsByScope.delete(scopeKey);
+  }
+  if (previous) {
+    closeUnreferencedConnections(previous);
+  }
+}
+
+function resolveScopeServers(scope: McpToolScope): ResolvedMcpServer[] {
+  const sessionKey = scope.sessionKey?.trim();
+  return resolveMcpServers({
+    config: scope.config,
+    agentId: scope.agentId,
+    // Match createOpenClawTools so stdio cwd (and thus the fingerprint) lines up.
+    workspaceDir: resolveWorkspaceRoot(scope.workspaceDir),
+    sessionServers: sessionKey ? sessionServersByKey.get(sessionKey) : undefined,
+  });
+}
+
+async function connectServer(connection: McpServerConnection): Promise<void> {
+  const { server } = connection;
+  const fingerprint = server.fingerprint;
+  const client = new McpClient(server.client, {
+    onToolsChanged: () => {
+      void refreshServerTools(fingerprint);
+    },
+    onClose: (reason) => {
+      const current = connections.get(fingerprint);
+      if (current?.client === client) {
+        log.warn(`mcp server "${server.name}" disconnected: ${reason}`);
+        current.client = null;
+        current.state = "error";
+        current.error = reason;
+        current.failedAt = Date.now();
+      }
+    },
+    onLog: (message) => log.debug(`[${server.name}] ${message}`),
+  });
+  connection.client = client;
+  connection.state = "connecting";
+  try {
+    await client.connect();
+    connection.tools = await client.listTools();
+    connection.state = "ready";
+    connection.error = undefined;
+    connection.failedAt = undefined;
+    log.info(`mcp server "${server.name}" ready (${connection.tools.length} tools)`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    connection.client = null;
+    connection.tools = [];
+    connection.state = "error";
+    connection.error = message;
+    connection.failedAt = Date.now();
+    await client.close().catch(() => {});
+    log.warn(`mcp server "${server.name}" unavailable: ${message}`);
+  }
+}
+
+async function refreshServerTools(fingerprint: string): Promise<void> {
+  const connection = connections.get(fingerprint);
+  if (!connection?.client || connection.client.isClosed) {
+    return;
+  }
+  try {
+    connection.tools = await connection.client.listTools();
+  } catch (err) {
+    log.warn(`mcp server "${connection.server.name}" tools/list failed: ${String(err)}`);
+  }
+}
+
+function ensureConnection(server: ResolvedMcpServer, opts?: { force?: boolean }): Promise<void> {
+  const existing = connections.get(server.fingerprint);
+  if (existing?.pending) {
+    return existing.pending;
+  }
+  if (existing?.state === "ready" && existing.client && !existing.client.isClosed) {
+    return Promise.resolve();
+  }
+  if (
+    !opts?.force &&
+    existing?.state === "error" &&
+    existing.failedAt &&
+    Date.now() - existing.failedAt < MCP_RECONNECT_BACKOFF_MS
+  ) {
+    return Promise.resolve();
+  }
+  const connection: McpServerConnection = existing ?? {
+    server,
+    client: null,
+    tools: [],
+    state: "connecting",
+    pending: null,
+  };
+  connections.set(server.fingerprint, connection);
+  const pending = connectServer(connection).finally(() => {
+    connection.pending = null;
+  });
+  connection.pending = pending;
+  return pending;
+}
+
+/**
+ * Connect configured MCP servers and discover their tools.
+ * Tool construction is synchronous, so run this before `createOpenClawTools` to make MCP tools
+ * visible for the run. Failures are logged and the server is skipped.
+ */
+export async function prepareMcpTools(scope: McpToolScope): Promise<void> {
+  const sessionKey = scope.sessionKey?.trim();
+  if (sessionKey) {
+    const sessionServers = readSessionMcpServers(scope);
+    if (sessionServers && Object.keys(sessionServers).length > 0) {
+      sessionServersByKey.set(sessionKey, sessionServers);
+    } else {
+      sessionServersByKey.delete(sessionKey);
+    }
+  }
+  const servers = resolveScopeServers(scope);
+  trackScopeFingerprints(resolveScopeKey(scope), servers);
+  if (servers.length === 0) {
+    return;
+  }
+  await Promise.allSettled(servers.map((server) => ensureConnection(server)));
+}
+
+/** Forget a session's MCP servers (on reset/delete) and close connections only it used. */
+export function releaseMcpSession(sessionKey: string): void {
+  const key = sessionKey.trim();
+  if (!key) {
+    return;
+  }
+  sessionServersByKey.delete(key);
+  const scopeKey = resolveScopeKey({ sessionKey: key });
+  const previous = fingerprintsByScope.get(scopeKey);
+  fingerprintsByScope.delete(scopeKey);
+  if (previous) {
+    closeUnreferencedConnections(previous);
+  }
+}
+
+function filterServerTools(
+  server: ResolvedMcpServer,
+  tools: McpToolDescriptor[],
+): McpToolDescriptor[] {
+  const normalize = (value: string) => value.trim();
+  const allow = compileGlobPatterns({ raw: server.toolFilter?.allow, normalize });
+  const deny = compileGlobPatterns({ raw: server.toolFilter?.deny, normalize });
+  return tools.filter((tool) => {
+    if (matchesAnyGlobPattern(tool.name, deny)) {
+      return false;
+    }
+    return allow.length === 0 || matchesAnyGlobPattern(tool.name, allow);
+  });
+}
+
+function normalizeInputSchema(schema: McpToolDescriptor["inputSchema"]): Record<string, unknown> {
+  if (schema && typeof schema === "object" && !Array.isArray(schema)) {
+    return { type: "object", properties: {}, ...schema };
+  }
+  return { type: "object", properties: {} };
+}
+
+function formatContentBlock(block: McpContentBlock): AgentToolResult<unknown>["content"][number] {
+  switch (block.type) {
+    case "text":
+      return { type: "text", text: block.text };
+    case "image":
+      return { type: "image", data: block.data, mimeType: block.mimeType };
+    case "resource_link":
+      return { type: "text", text: `[resource] ${block.name ? `${block.name} ` : ""}${block.uri}` };
+    case "resource":
+      if (typeof block.resource.text === "string") {
+        return { type: "text", text: block.resource.text };
+      }
+      return {
+        type: "text",
+        text: `[resource] ${block.resource.uri} (${block.resource.mimeType ?? "binary"})`,
+      };
+    default:
+      return { type: "text", text: `[${(block as { type?: string }).type ?? "unknown"} content]` };
+  }
+}
+
+export function mcpResultToToolResult(result: McpCallToolResult): AgentToolResult<unknown> {
+  const content = (result.content ?? []).map(formatContentBlock);
+  if (content.length === 0 && result.structuredContent !== undefined) {
+    content.push({ type: "text", text: JSON.stringify(result.structuredContent, null, 2) });
+  }
+  if (result.isError) {
+    const text = content
+      .filter((entry): entry is { type: "text"; text: string } => entry.type === "text")
+      .map((entry) => entry.text)
+      .join("\n")
+      .trim();
+    throw new Error(text || "MCP tool returned an error");
+  }
+  if (content.length === 0) {
+    content.push({ type: "text", text: "(no output)" });
+  }
+  return {
+    content,
+    details: result.structuredContent ?? { content: result.content ?? [] },
+  };
+}
+
+function createMcpTool(server: ResolvedMcpServer, descriptor: McpToolDescriptor): AnyAgentTool {
+  const name = buildMcpToolName(server.name, descriptor.name);
+  const label = descriptor.title ?? descriptor.annotations?.title ?? descriptor.name;
+  const description = descriptor.description?.trim()
+    ? `${descriptor.description.trim()} (MCP server: ${server.name})`
+    : `MCP tool ${descriptor.name} from server ${server.name}`;
+  const tool: AnyAgentTool = {
+    name,
+    label,
+    description,
+    parameters: normalizeInputSchema(descriptor.inputSchema),
+    execute: async (_toolCallId, args, signal) => {
+      await ensureConnection(server, { force: true });
+      const connection = connections.get(server.fingerprint);
+      if (!connection?.client || connection.state !== "ready") {
+        throw new Error(
+          `MCP server "${server.name}" is unavailable${connection?.error ? `: ${connection.error}` : ""}`,
+        );
+      }
+      const params =
+        args && typeof args === "object" && !Array.isArray(args)
+          ? (args as Record<string, unknown>)
+          : {};
+      const result = await connection.client.callTool(descriptor.name, params, { signal });
+      return mcpResultToToolResult(result);
+    },
+  };
+  mcpToolMeta.set(tool, {
+    pluginId: `mcp:${server.name}`,
+    server: server.name,
+    toolName: descriptor.name,
+  });
+  return tool;
+}
+
+/**
+ * Build agent tools for every MCP server that is already connected (see `prepareMcpTools`).
+ * Servers that are still connecting or failed are skipped for this run.
+ */
+export function resolveMcpTools(
+  scope: McpToolScope & { existingToolNames?: Set<string> },
+): AnyAgentTool[] {
+  const servers = resolveScopeServers(scope);
+  if (servers.length === 0) {
+    return [];
+  }
+  const existing = new Set(
+    Array.from(scope.existingToolNames ?? [], (name) => name.trim().toLowerCase()),
+  );
+  const tools: AnyAgentTool[] = [];
+  for (const server of servers) {
+    const connection = connections.get(server.fingerprint);
+    if (!connection || connection.state !== "ready") {
+      continue;
+    }
+    for (const descriptor of filterServerTools(server, connection.tools)) {
+      const tool = createMcpTool(server, descriptor);
+      const key = tool.name.toLowerCase();
+      if (existing.has(key)) {
+        log.warn(`mcp tool name conflict (${tool.name}); skipping`);
+        continue;
+      }
+      existing.add(key);
+      tools.push(tool);
+    }
+  }
+  return tools;
+}
+
+export function listMcpServerStatus(scope: McpToolScope): McpServerStatus[] {
+  return resolveScopeServers(scope).map((server) => {
+    const connection = connections.get(server.fingerprint);
+    return {
+      name: server.name,
+      transport: server.client.transport,
+      state: connection?.state ?? "connecting",
+      toolCount:
+        connection?.state === "ready" ? filterServerTools(server, connection.tools).length : 0,
+      ...(connection?.error ? { error: connection.error } : {}),
+    };
+  });
+}
+
+export async function closeMcpClients(): Promise<void> {
+  const pending = Array.from(connections.values());
+  connections.clear();
+  sessionServersByKey.clear();
+  fingerprintsByScope.clear();
+  await Promise.allSettled(pending.map((connection) => connection.client?.close()));
+}
+
+export const __testing = {
+  resetMcpConnections() {
+    connections.clear();
+    sessionServersByKey.clear();
+    fingerprintsByScope.clear();
+  },
+  hasMcpConnection(fingerprint: string) {
+    return connections.has(fingerprint);
+  },
+} as const;
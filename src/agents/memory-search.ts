@@ -1,6 +1,6 @@
 import os from "node:os";
 import path from "node:path";
-import type { OpenClawConfig, MemorySearchConfig } from "../config/config.js";
+import type { MemoryDocumentFormat, MemorySearchConfig, OpenClawConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { clampInt, clampNumber, resolveUserPath } from "../utils.js";
 import { resolveAgentConfig } from "./agent-scope.js";
@@ -9,6 +9,7 @@ export type ResolvedMemorySearchConfig = {
   enabled: boolean;
   sources: Array<"memory" | "sessions">;
   extraPaths: string[];
+  formats: MemoryDocumentFormat[];
   provider: "openai" | "local" | "gemini" | "voyage" | "mistral" | "auto";
   remote?: {
     baseUrl?: string;
@@ -71,6 +72,19 @@ export type ResolvedMemorySearchConfig = {
         halfLifeDays: number;
       };
     };
+    rerank: {
+      enabled: boolean;
+      provider: "local" | "voyage" | "cohere";
+      model: string;
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+      modelCacheDir?: string;
+      topN: number;
+      timeoutMs: number;
+    };
   };
   cache: {
     enabled: boolean;
@@ -97,6 +111,13 @@ const DEFAULT_MMR_ENABLED = false;
 const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
+const DEFAULT_RERANK_TOP_N = 20;
+const DEFAULT_RERANK_TIMEOUT_MS = 5000;
+const DEFAULT_RERANK_MODELS = {
+  local: "hf:gpustack/bge-reranker-v2-m3-GGUF/bge-reranker-v2-m3-Q8_0.gguf",
+  voyage: "rerank-2.5",
+  cohere: "rerank-v3.5",
+} as const;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -120,6 +141,11 @@ function normalizeSources(
   return Array.from(normalized);
 }
 
+function normalizeFormats(formats: MemoryDocumentFormat[] | undefined): MemoryDocumentFormat[] {
+  // Markdown memory files are always indexed; other formats are opt-in.
+  return Array.from(new Set<MemoryDocumentFormat>(["markdown", ...(formats ?? [])]));
+}
+
 function resolveStorePath(agentId: string, raw?: string): string {
   const stateDir = resolveStateDir(process.env, os.homedir);
   const fallback = path.join(stateDir, "memory", `${agentId}.sqlite`);
@@ -197,6 +223,7 @@ function mergeConfig(
     .map((value) => value.trim())
     .filter(Boolean);
   const extraPaths = Array.from(new Set(rawPaths));
+  const formats = normalizeFormats(overrides?.formats ?? defaults?.formats);
   const vector = {
     enabled: overrides?.store?.vector?.enabled ?? defaults?.store?.vector?.enabled ?? true,
     extensionPath:
@@ -273,6 +300,39 @@ function mergeConfig(
         DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS,
     },
   };
+  const rerankProvider =
+    overrides?.query?.rerank?.provider ?? defaults?.query?.rerank?.provider ?? "local";
+  const overrideRerankRemote = overrides?.query?.rerank?.remote;
+  const defaultRerankRemote = defaults?.query?.rerank?.remote;
+  const rerank = {
+    enabled: overrides?.query?.rerank?.enabled ?? defaults?.query?.rerank?.enabled ?? false,
+    provider: rerankProvider,
+    model:
+      overrides?.query?.rerank?.model?.trim() ||
+      defaults?.query?.rerank?.model?.trim() ||
+      DEFAULT_RERANK_MODELS[rerankProvider],
+    remote:
+      rerankProvider === "local"
+        ? undefined
+        : {
+            baseUrl: overrideRerankRemote?.baseUrl ?? defaultRerankRemote?.baseUrl,
+            apiKey: overrideRerankRemote?.apiKey ?? defaultRerankRemote?.apiKey,
+            headers: overrideRerankRemote?.headers ?? defaultRerankRemote?.headers,
+          },
+    // Local rerank models share the embedding model cache directory.
+    modelCacheDir: rerankProvider === "local" ? local.modelCacheDir : undefined,
+    topN: clampInt(
+      overrides?.query?.rerank?.topN ?? defaults?.query?.rerank?.topN ?? DEFAULT_RERANK_TOP_N,
+      1,
+      200,
+    ),
+    timeoutMs: Math.max(
+      1,
+      overrides?.query?.rerank?.timeoutMs ??
+        defaults?.query?.rerank?.timeoutMs ??
+        DEFAULT_RERANK_TIMEOUT_MS,
+    ),
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -300,6 +360,7 @@ function mergeConfig(
     enabled,
     sources,
     extraPaths,
+    formats,
     provider,
     remote,
     experimental: {
@@ -336,6 +397,7 @@ function mergeConfig(
           halfLifeDays: temporalDecayHalfLifeDays,
         },
       },
+      rerank: { ...rerank, enabled: Boolean(rerank.enabled) },
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import "./test-helpers/fast-core-tools.js";
+import {
+  getCallGatewayMock,
+  getSessionsSpawnTool,
+  resetSessionsSpawnConfigOverride,
+  setSessionsSpawnConfigOverride,
+} from "./openclaw-tools.subagents.sessions-spawn.test-harness.js";
+import {
+  recordSubagentBatchChildResult,
+  SUBAGENT_BATCH_MAX_DEADLINE_SECONDS,
+} from "./subagent-batch.js";
+import {
+  listSubagentBatchesForRequester,
+  listSubagentRunsForRequester,
+  resetSubagentRegistryForTests,
+} from "./subagent-registry.js";
+
+const callGatewayMock = getCallGatewayMock();
+type GatewayCall = { method?: string; params?: unknown };
+
+function mockBatchSpawnFlow(calls: GatewayCall[]) {
+  let spawned = 0;
+  callGatewayMock.mockImplementation(async (opts: unknown) => {
+    const request = opts as GatewayCall;
+    calls.push(request);
+    if (request.method === "agent") {
+      const message = (request.params as { message?: string }).message ?? "";
+      if (message.includes("subagent batch")) {
+        return { runId: "run-announce", status: "accepted" };
+      }
+      spawned += 1;
+      return { runId: `run-${spawned}`, status: "accepted" };
+    }
+    if (request.method === "agent.wait") {
+      // Keep children running; the test settles them explicitly.
+      return {};
+    }
+    return { ok: true };
+  });
+}
+
+function spawnCalls(calls: GatewayCall[]) {
+  return calls.filter(
+    (call) =>
+      call.method === "agent" &&
+      !((call.params as { message?: string }).message ?? "").includes("subagent batch"),
+  );
+}
+
+function firstBatchAnnounceMessage(calls: GatewayCall[]) {
+  const params = batchAnnounceCalls(calls)[0]?.params as { message?: string } | undefined;
+  return params?.message ?? "";
+}
+
+function batchAnnounceCalls(calls: GatewayCall[]) {
+  return calls.filter(
+    (call) =>
+      call.method === "agent" &&
+      ((call.params as { message?: string }).message ?? "").includes("subagent batch"),
+  );
+}
+
+describe("openclaw-tools: subagents (sessions_spawn batches)", () => {
+  beforeEach(() => {
+    resetSessionsSpawnConfigOverride();
+    resetSubagentRegistryForTests();
+    callGatewayMock.mockClear();
+    setSessionsSpawnConfigOverride({ session: { mainKey: "main", scope: "per-sender" } });
+  });
+
+  it("caps concurrency and announces one aggregated result", async () => {
+    const calls: GatewayCall[] = [];
+    mockBatchSpawnFlow(calls);
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const result = await tool.execute("call-batch", {
+      label: "research",
+      tasks: [{ task: "check a", label: "a" }, { task: "check b" }, { task: "check c" }],
+      maxConcurrent: 2,
+    });
+    const details = result.details as { status?: string; batchId?: string };
+    expect(details).toMatchObject({ status: "accepted", maxConcurrent: 2 });
+    expect(spawnCalls(calls)).toHaveLength(2);
+    expect(listSubagentBatchesForRequester("agent:main:main")).toHaveLength(1);
+    expect(listSubagentRunsForRequester("agent:main:main")[0]).toMatchObject({
+      batchId: details.batchId,
+      expectsCompletionMessage: false,
+    });
+
+    const batchId = details.batchId ?? "";
+    expect(
+      recordSubagentBatchChildResult({
+        batchId,
+        runId: "run-1",
+        outcome: { status: "ok" },
+        reply: "a is fine",
+        usage: { input: 10, output: 5 },
+      }),
+    ).toBe(true);
+    await vi.waitFor(() => expect(spawnCalls(calls)).toHaveLength(3));
+    expect(batchAnnounceCalls(calls)).toHaveLength(0);
+
+    recordSubagentBatchChildResult({ batchId, runId: "run-2", outcome: { status: "ok" } });
+    recordSubagentBatchChildResult({
+      batchId,
+      runId: "run-3",
+      outcome: { status: "error", error: "boom" },
+    });
+    await vi.waitFor(() => expect(batchAnnounceCalls(calls)).toHaveLength(1));
+
+    const message = firstBatchAnnounceMessage(calls);
+    expect(message).toContain('A subagent batch "research" just finished all tasks.');
+    expect(message).toContain("### 1. a — completed");
+    expect(message).toContain("a is fine");
+    expect(message).toContain("### 3. check c — failed: boom");
+    expect(listSubagentBatchesForRequester("agent:main:main")).toHaveLength(0);
+  });
+
+  it("skips queued tasks and stops running ones at the deadline", async () => {
+    vi.useFakeTimers();
+    try {
+      const calls: GatewayCall[] = [];
+      mockBatchSpawnFlow(calls);
+
+      const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+      const result = await tool.execute("call-deadline", {
+        tasks: [{ task: "slow a" }, { task: "slow b" }],
+        maxConcurrent: 1,
+        deadlineSeconds: 30,
+      });
+      expect(result.details).toMatchObject({ status: "accepted" });
+      expect(spawnCalls(calls)).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      await vi.waitFor(() => expect(batchAnnounceCalls(calls)).toHaveLength(1));
+
+      const message = firstBatchAnnounceMessage(calls);
+      expect(message).toContain("reached its deadline");
+      expect(message).toContain("### 1. slow a — timed out");
+      expect(message).toContain("### 2. slow b — not started");
+      expect(spawnCalls(calls)).toHaveLength(1);
+      expect(listSubagentRunsForRequester("agent:main:main")[0]?.endedAt).toBeTypeOf("number");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("clamps oversized deadlines instead of expiring the batch immediately", async () => {
+    vi.useFakeTimers();
+    try {
+      const calls: GatewayCall[] = [];
+      mockBatchSpawnFlow(calls);
+
+      const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+      const startedAt = Date.now();
+      const result = await tool.execute("call-long-deadline", {
+        tasks: [{ task: "slow a" }],
+        deadlineSeconds: 365 * 24 * 60 * 60,
+      });
+      expect(result.details).toMatchObject({
+        status: "accepted",
+        deadlineAt: startedAt + SUBAGENT_BATCH_MAX_DEADLINE_SECONDS * 1000,
+      });
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(batchAnnounceCalls(calls)).toHaveLength(0);
+      expect(listSubagentBatchesForRequester("agent:main:main")).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("rejects thread-bound batches", async () => {
+    const calls: GatewayCall[] = [];
+    mockBatchSpawnFlow(calls);
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    await expect(
+      tool.execute("call-thread", { tasks: [{ task: "x" }], thread: true }),
+    ).rejects.toThrow('tasks only supports runtime="subagent"');
+    expect(calls).toHaveLength(0);
+  });
+});
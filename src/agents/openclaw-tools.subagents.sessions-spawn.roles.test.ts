@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import "./test-helpers/fast-core-tools.js";
+import {
+  getCallGatewayMock,
+  getSessionsSpawnTool,
+  resetSessionsSpawnConfigOverride,
+  setSessionsSpawnConfigOverride,
+} from "./openclaw-tools.subagents.sessions-spawn.test-harness.js";
+import {
+  listSubagentRunsForRequester,
+  resetSubagentRegistryForTests,
+} from "./subagent-registry.js";
+
+const callGatewayMock = getCallGatewayMock();
+type GatewayCall = { method?: string; params?: unknown };
+
+function mockSpawnFlow(calls: GatewayCall[]) {
+  callGatewayMock.mockImplementation(async (opts: unknown) => {
+    const request = opts as GatewayCall;
+    calls.push(request);
+    if (request.method === "agent") {
+      return { runId: "run-role", status: "accepted" };
+    }
+    if (request.method === "agent.wait") {
+      return { status: "timeout" };
+    }
+    return { ok: true };
+  });
+}
+
+function setRolesConfig() {
+  setSessionsSpawnConfigOverride({
+    session: { mainKey: "main", scope: "per-sender" },
+    agents: {
+      defaults: {
+        subagents: {
+          roles: {
+            reviewer: {
+              description: "Reviews diffs",
+              systemPrompt: "Only report problems; never edit files.",
+              tools: { allow: ["read"] },
+              model: "anthropic/claude-opus-4-6",
+              thinking: "high",
+              runTimeoutSeconds: 120,
+            },
+            coder: { model: "openai/gpt-5.2" },
+          },
+        },
+      },
+      list: [
+        {
+          id: "main",
+          subagents: { roles: { coder: { model: "openai/gpt-5.2-codex" } } },
+        },
+      ],
+    },
+  });
+}
+
+describe("openclaw-tools: subagents (sessions_spawn roles)", () => {
+  beforeEach(() => {
+    resetSessionsSpawnConfigOverride();
+    resetSubagentRegistryForTests();
+    callGatewayMock.mockClear();
+  });
+
+  it("applies the role prompt, model, thinking and runtime cap", async () => {
+    setRolesConfig();
+    const calls: GatewayCall[] = [];
+    mockSpawnFlow(calls);
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const result = await tool.execute("call-role", {
+      task: "review the patch",
+      role: "Reviewer",
+      model: "openai/gpt-5.2",
+      runTimeoutSeconds: 600,
+    });
+    expect(result.details).toMatchObject({ status: "accepted", role: "reviewer" });
+
+    const patches = calls
+      .filter((call) => call.method === "sessions.patch")
+      .map((call) => call.params);
+    expect(patches).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ spawnDepth: 1, subagentRole: "reviewer" }),
+        expect.objectContaining({ model: "anthropic/claude-opus-4-6" }),
+        expect.objectContaining({ thinkingLevel: "high" }),
+      ]),
+    );
+    const agentParams = calls.find((call) => call.method === "agent")?.params as {
+      extraSystemPrompt?: string;
+      timeout?: number;
+    };
+    expect(agentParams.timeout).toBe(120);
+    expect(agentParams.extraSystemPrompt).toContain(
+      "## Role: reviewer\nReviews diffs\nOnly report problems; never edit files.",
+    );
+    expect(listSubagentRunsForRequester("agent:main:main")[0]).toMatchObject({
+      role: "reviewer",
+      model: "anthropic/claude-opus-4-6",
+      runTimeoutSeconds: 120,
+    });
+  });
+
+  it("prefers per-agent roles over defaults with the same name", async () => {
+    setRolesConfig();
+    const calls: GatewayCall[] = [];
+    mockSpawnFlow(calls);
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    await tool.execute("call-coder", { task: "fix the bug", role: "coder" });
+
+    const modelPatch = calls.find(
+      (call) => call.method === "sessions.patch" && (call.params as { model?: string }).model,
+    );
+    expect(modelPatch?.params).toMatchObject({ model: "openai/gpt-5.2-codex" });
+  });
+
+  it("rejects unknown roles before creating the child session", async () => {
+    setRolesConfig();
+    const calls: GatewayCall[] = [];
+    mockSpawnFlow(calls);
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const result = await tool.execute("call-unknown", { task: "x", role: "designer" });
+
+    expect(result.details).toMatchObject({
+      status: "error",
+      error: 'Unknown subagent role "designer" (available: coder, reviewer).',
+    });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -2,6 +2,7 @@ import type { OpenClawConfig } from "../config/config.js";
 import { resolvePluginTools } from "../plugins/tools.js";
 import type { GatewayMessageChannel } from "../utils/message-channel.js";
 import { resolveSessionAgentId } from "./agent-scope.js";
+import { resolveMcpTools } from "./mcp/tools.js";
 import type { SandboxFsBridge } from "./sandbox/fs-bridge.js";
 import type { ToolFsPolicy } from "./tool-fs-policy.js";
 import { createAgentsListTool } from "./tools/agents-list-tool.js";
@@ -112,6 +113,7 @@ export function createOpenClawTools(options?: {
     createBrowserTool({
       sandboxBridgeUrl: options?.sandboxBrowserBridgeUrl,
       allowHostControl: options?.allowHostBrowserControl,
+      workspaceDir: options?.sandboxRoot ?? workspaceDir,
     }),
     createCanvasTool({ config: options?.config }),
     createNodesTool({
@@ -162,6 +164,7 @@ export function createOpenClawTools(options?: {
       agentGroupSpace: options?.agentGroupSpace,
       sandboxed: options?.sandboxed,
       requesterAgentIdOverride: options?.requesterAgentIdOverride,
+      config: options?.config,
     }),
     createSubagentsTool({
       agentSessionKey: options?.agentSessionKey,
@@ -175,15 +178,16 @@ export function createOpenClawTools(options?: {
     ...(imageTool ? [imageTool] : []),
   ];
 
+  const agentId = resolveSessionAgentId({
+    sessionKey: options?.agentSessionKey,
+    config: options?.config,
+  });
   const pluginTools = resolvePluginTools({
     context: {
       config: options?.config,
       workspaceDir,
       agentDir: options?.agentDir,
-      agentId: resolveSessionAgentId({
-        sessionKey: options?.agentSessionKey,
-        config: options?.config,
-      }),
+      agentId,
       sessionKey: options?.agentSessionKey,
       messageChannel: options?.agentChannel,
       agentAccountId: options?.agentAccountId,
@@ -193,5 +197,14 @@ export function createOpenClawTools(options?: {
     toolAllowlist: options?.pluginToolAllowlist,
   });
 
-  return [...tools, ...pluginTools];
+  // MCP servers must be connected beforehand (prepareMcpTools); unready servers are skipped.
+  const mcpTools = resolveMcpTools({
+    config: options?.config,
+    agentId: options?.requesterAgentIdOverride ?? agentId,
+    sessionKey: options?.agentSessionKey,
+    workspaceDir,
+    existingToolNames: new Set([...tools, ...pluginTools].map((tool) => tool.name)),
+  });
+
+  return [...tools, ...pluginTools, ...mcpTools];
 }
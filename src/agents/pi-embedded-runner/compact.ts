@@ -31,6 +31,7 @@ import { listChannelSupportedActions, resolveChannelMessageToolHints } from "../
 import { formatUserTime, resolveUserTimeFormat, resolveUserTimezone } from "../date-time.js";
 import { DEFAULT_MODEL, DEFAULT_PROVIDER } from "../defaults.js";
 import { resolveOpenClawDocsPath } from "../docs-path.js";
+import { prepareMcpTools } from "../mcp/tools.js";
 import { getApiKeyForModel, resolveModelAuthMode } from "../model-auth.js";
 import { ensureOpenClawModelsJson } from "../models-config.js";
 import { resolveOwnerDisplaySetting } from "../owner-display.js";
@@ -362,6 +363,15 @@ export async function compactEmbeddedPiSessionDirect(
       warn: makeBootstrapWarn({ sessionLabel, warn: (message) => log.warn(message) }),
     });
     const runAbortController = new AbortController();
+    await prepareMcpTools({
+      config: params.config,
+      agentId: resolveSessionAgentIds({
+        sessionKey: params.sessionKey ?? params.sessionId,
+        config: params.config,
+      }).sessionAgentId,
+      sessionKey: params.sessionKey ?? params.sessionId,
+      workspaceDir: effectiveWorkspace,
+    });
     const toolsRaw = createOpenClawCodingTools({
       exec: {
         elevated: params.bashElevated,
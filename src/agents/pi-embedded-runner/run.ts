@@ -48,6 +48,11 @@ import {
   pickFallbackThinkingLevel,
   type FailoverReason,
 } from "../pi-embedded-helpers.js";
+import {
+  applyRunUsageBudgets,
+  recordRunUsageBudgetSpend,
+  withUsageBudgetNotices,
+} from "../run-usage-budgets.js";
 import { derivePromptTokens, normalizeUsage, type UsageLike } from "../usage.js";
 import { redactRunIdentifier, resolveRunWorkspaceDir } from "../workspace-run.js";
 import { compactEmbeddedPiSessionDirect } from "./compact.js";
@@ -189,6 +194,24 @@ function resolveActiveErrorContext(params: {
   };
 }
 
+function applyUsageBudgetDowngrade(
+  params: RunEmbeddedPiAgentParams,
+  downgrade: { provider: string; model: string },
+): RunEmbeddedPiAgentParams {
+  const provider = (params.provider ?? DEFAULT_PROVIDER).trim() || DEFAULT_PROVIDER;
+  if (normalizeProviderId(downgrade.provider) === normalizeProviderId(provider)) {
+    return { ...params, model: downgrade.model };
+  }
+  // Auth profiles are provider-specific; let the new provider pick its own.
+  return {
+    ...params,
+    provider: downgrade.provider,
+    model: downgrade.model,
+    authProfileId: undefined,
+    authProfileIdSource: undefined,
+  };
+}
+
 export async function runEmbeddedPiAgent(
   params: RunEmbeddedPiAgentParams,
 ): Promise<EmbeddedPiRunResult> {
@@ -208,8 +231,8 @@ export async function runEmbeddedPiAgent(
       : "markdown");
   const isProbeSession = params.sessionId?.startsWith("probe-") ?? false;
 
-  return enqueueSession(() =>
-    enqueueGlobal(async () => {
+  const runInLanes = (params: RunEmbeddedPiAgentParams) =>
+    enqueueGlobal(async (): Promise<EmbeddedPiRunResult> => {
       const started = Date.now();
       const workspaceResolution = resolveRunWorkspaceDir({
         workspaceDir: params.workspaceDir,
@@ -1159,6 +1182,25 @@ export async function runEmbeddedPiAgent(
       } finally {
         process.chdir(prevCwd);
       }
-    }),
-  );
+    });
+
+  return enqueueSession(async () => {
+    // Model probes are diagnostics, not agent spend.
+    if (isProbeSession) {
+      return await runInLanes(params);
+    }
+    const budgetGate = await applyRunUsageBudgets({
+      ...params,
+      provider: (params.provider ?? DEFAULT_PROVIDER).trim() || DEFAULT_PROVIDER,
+    });
+    if (budgetGate.stopResult) {
+      return budgetGate.stopResult;
+    }
+    const runParams = budgetGate.downgrade
+      ? applyUsageBudgetDowngrade(params, budgetGate.downgrade)
+      : params;
+    const result = await runInLanes(runParams);
+    await recordRunUsageBudgetSpend(runParams, result);
+    return withUsageBudgetNotices(result, budgetGate.notices);
+  });
 }
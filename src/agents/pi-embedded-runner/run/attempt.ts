@@ -39,6 +39,7 @@ import { DEFAULT_CONTEXT_TOKENS } from "../../defaults.js";
 import { resolveOpenClawDocsPath } from "../../docs-path.js";
 import { isTimeoutError } from "../../failover-error.js";
 import { resolveImageSanitizationLimits } from "../../image-sanitization.js";
+import { prepareMcpTools } from "../../mcp/tools.js";
 import { resolveModelAuthMode } from "../../model-auth.js";
 import { normalizeProviderId, resolveDefaultModelForAgent } from "../../model-selection.js";
 import { createOllamaStreamFn, OLLAMA_NATIVE_BASE_URL } from "../../ollama-stream.js";
@@ -500,6 +501,14 @@ export async function runEmbeddedAttempt(
       config: params.config,
       sessionAgentId,
     });
+    if (!params.disableTools) {
+      await prepareMcpTools({
+        config: params.config,
+        agentId: sessionAgentId,
+        sessionKey: params.sessionKey ?? params.sessionId,
+        workspaceDir: effectiveWorkspace,
+      });
+    }
     // Check if the model supports native image input
     const modelHasVision = params.model.input?.includes("image") ?? false;
     const toolsRaw = params.disableTools
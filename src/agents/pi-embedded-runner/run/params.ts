@@ -39,6 +39,8 @@ export type RunEmbeddedPiAgentParams = {
   /** Parent session key for subagent policy inheritance. */
   spawnedBy?: string | null;
   senderId?: string | null;
+  /** Chat type (direct/group/channel) for usage budget matching. */
+  chatType?: string;
   senderName?: string | null;
   senderUsername?: string | null;
   senderE164?: string | null;
@@ -103,4 +105,6 @@ export type RunEmbeddedPiAgentParams = {
   streamParams?: AgentStreamParams;
   ownerNumbers?: string[];
   enforceFinalTag?: boolean;
+  /** Collect usage budget notices into the result meta (reply runs that are not heartbeats). */
+  usageBudgetNotices?: boolean;
 };
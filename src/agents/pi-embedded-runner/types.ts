@@ -44,8 +44,10 @@ export type EmbeddedPiRunMeta = {
       | "retry_limit";
     message: string;
   };
-  /** Stop reason for the agent run (e.g., "completed", "tool_calls"). */
+  /** Stop reason for the agent run (e.g., "completed", "tool_calls", "usage_budget"). */
   stopReason?: string;
+  /** Usage budget warnings and downgrade notices for the reply. */
+  usageBudgetNotices?: string[];
   /** Pending tool calls when stopReason is "tool_calls". */
   pendingToolCalls?: Array<{
     id: string;
@@ -0,0 +1,126 @@
+import "./run.overflow-compaction.mocks.shared.js";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { withEnvAsync } from "../../test-utils/env.js";
+import { resolveModel } from "./model.js";
+import { runEmbeddedPiAgent } from "./run.js";
+import { makeAttemptResult } from "./run.overflow-compaction.fixture.js";
+import { mockedRunEmbeddedAttempt } from "./run.overflow-compaction.shared-test.js";
+
+const mockedResolveModel = vi.mocked(resolveModel);
+
+function mockAttemptUsage(total: number) {
+  const usage = { input: total - 50, output: 50, total };
+  mockedRunEmbeddedAttempt.mockResolvedValueOnce(
+    makeAttemptResult({
+      assistantTexts: ["done"],
+      lastAssistant: { usage, stopReason: "end_turn" } as never,
+      attemptUsage: usage,
+    }),
+  );
+}
+
+// Shaped like the cron isolated run: no reply context, no sender.
+function runCronJob(config: OpenClawConfig, overrides: { usageBudgetNotices?: boolean } = {}) {
+  return runEmbeddedPiAgent({
+    sessionId: "cron-session",
+    sessionKey: "agent:main:cron:nightly",
+    agentId: "main",
+    messageChannel: "telegram",
+    sessionFile: "/tmp/session.json",
+    workspaceDir: "/tmp/workspace",
+    config,
+    prompt: "summarize the inbox",
+    provider: "anthropic",
+    model: "claude",
+    timeoutMs: 30_000,
+    runId: "cron-run",
+    lane: "cron",
+    ...overrides,
+  });
+}
+
+describe("runEmbeddedPiAgent usage budgets", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-budget-embedded-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("records spend and stops the next cron run once the agent budget is exhausted", async () => {
+    await withEnvAsync({ OPENCLAW_STATE_DIR: stateDir }, async () => {
+      const config = {
+        session: { budgets: { rules: [{ id: "daily", scope: "agent", maxTokens: 100 }] } },
+      } as OpenClawConfig;
+      mockAttemptUsage(150);
+
+      const first = await runCronJob(config);
+      expect(first.meta.stopReason).toBeUndefined();
+
+      const second = await runCronJob(config);
+      expect(mockedRunEmbeddedAttempt).toHaveBeenCalledTimes(1);
+      expect(second.meta.stopReason).toBe("usage_budget");
+      expect(second.payloads?.[0]?.text).toContain("Usage budget reached");
+    });
+  });
+
+  it("switches to the fallback model once a downgrade budget is exhausted", async () => {
+    await withEnvAsync({ OPENCLAW_STATE_DIR: stateDir }, async () => {
+      const config = {
+        session: {
+          budgets: {
+            rules: [
+              {
+                id: "cheap",
+                scope: "account",
+                maxTokens: 100,
+                action: "downgrade",
+                fallbackModel: "openai/gpt-4.1-mini",
+              },
+            ],
+          },
+        },
+      } as OpenClawConfig;
+      mockAttemptUsage(150);
+      mockAttemptUsage(80);
+
+      await runCronJob(config);
+      const second = await runCronJob(config, { usageBudgetNotices: true });
+
+      expect(mockedResolveModel.mock.calls[1]?.slice(0, 2)).toEqual(["openai", "gpt-4.1-mini"]);
+      expect(second.meta.usageBudgetNotices).toEqual([
+        expect.stringContaining("Switching to openai/gpt-4.1-mini"),
+      ]);
+    });
+  });
+
+  it("leaves notices for a run that asks for them", async () => {
+    await withEnvAsync({ OPENCLAW_STATE_DIR: stateDir }, async () => {
+      const config = {
+        session: {
+          budgets: { rules: [{ id: "daily", scope: "agent", maxTokens: 1000, warnAt: 0.1 }] },
+        },
+      } as OpenClawConfig;
+      mockAttemptUsage(150);
+      mockAttemptUsage(60);
+      mockAttemptUsage(60);
+
+      await runCronJob(config);
+      const background = await runCronJob(config);
+      const reply = await runCronJob(config, { usageBudgetNotices: true });
+
+      expect(background.meta.usageBudgetNotices).toBeUndefined();
+      expect(reply.meta.usageBudgetNotices).toEqual([
+        expect.stringContaining("Usage budget warning"),
+      ]);
+    });
+  });
+});
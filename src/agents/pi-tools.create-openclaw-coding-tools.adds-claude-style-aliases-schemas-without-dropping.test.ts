@@ -378,6 +378,36 @@ describe("createOpenClawCodingTools", () => {
     expect(names.has("sessions_history")).toBe(false);
     expect(names.has("subagents")).toBe(true);
   });
+
+  it("narrows sub-agent tools with the stored subagent role", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-role-policy-"));
+    const storeTemplate = path.join(tmpDir, "sessions-{agentId}.json");
+    await fs.writeFile(
+      storeTemplate.replaceAll("{agentId}", "main"),
+      JSON.stringify({
+        "agent:main:subagent:reviewer": {
+          sessionId: "session-reviewer",
+          updatedAt: Date.now(),
+          spawnDepth: 1,
+          subagentRole: "reviewer",
+        },
+      }),
+      "utf-8",
+    );
+
+    const tools = createOpenClawCodingTools({
+      sessionKey: "agent:main:subagent:reviewer",
+      config: {
+        session: { store: storeTemplate },
+        agents: {
+          defaults: {
+            subagents: { roles: { reviewer: { tools: { allow: ["read", "exec"] } } } },
+          },
+        },
+      },
+    });
+    expect(tools.map((tool) => tool.name).toSorted()).toEqual(["exec", "read"]);
+  });
   it("supports allow-only sub-agent tool policy", () => {
     const tools = createOpenClawCodingTools({
       sessionKey: "agent:main:subagent:test",
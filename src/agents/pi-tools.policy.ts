@@ -55,6 +55,8 @@ const SUBAGENT_TOOL_DENY_ALWAYS = [
   // Memory - pass relevant info in spawn prompt instead
   "memory_search",
   "memory_get",
+  "memory_write",
+  "memory_update",
   // Direct session sends - subagents communicate through announce chain
   "sessions_send",
 ];
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveToolResultCacheConfig } from "./pi-tools.js";
+import { __testing, wrapToolWithResultCache } from "./pi-tools.result-cache.js";
+import type { AnyAgentTool } from "./tools/common.js";
+
+function textResult(text: string, details: unknown = { text }) {
+  return { content: [{ type: "text", text }], details };
+}
+
+function createTool(name: string, execute: ReturnType<typeof vi.fn>) {
+  return { name, execute } as unknown as AnyAgentTool;
+}
+
+describe("tool result cache", () => {
+  beforeEach(() => {
+    __testing.cacheScopes.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns cached results for identical web_fetch calls and marks the hit", async () => {
+    const execute = vi.fn().mockResolvedValue(textResult("page"));
+    const tool = wrapToolWithResultCache(createTool("web_fetch", execute), {
+      sessionKey: "agent:main:main",
+      config: { enabled: true },
+    });
+
+    const first = await tool.execute("call-1", { url: "https://example.com", maxChars: 100 });
+    const second = await tool.execute("call-2", {
+      maxChars: 100,
+      url: " https://example.com ",
+      extractMode: undefined,
+    });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(first.details).toEqual({ text: "page" });
+    expect(second.details).toMatchObject({ text: "page", cached: true });
+    expect(second.content.at(-1)).toEqual({
+      type: "text",
+      text: "[cached result from 0s ago]",
+    });
+  });
+
+  it("expires entries after the per-tool ttl", async () => {
+    vi.useFakeTimers();
+    const execute = vi.fn().mockResolvedValue(textResult("results"));
+    const tool = wrapToolWithResultCache(createTool("web_search", execute), {
+      sessionKey: "agent:main:main",
+      config: { enabled: true, ttlSeconds: 600, tools: { web_search: { ttlSeconds: 30 } } },
+    });
+
+    await tool.execute("call-1", { query: "openclaw" });
+    vi.advanceTimersByTime(29_000);
+    await tool.execute("call-2", { query: "openclaw" });
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2_000);
+    await tool.execute("call-3", { query: "openclaw" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("only caches opted-in tools and skips error results", async () => {
+    const readExecute = vi.fn().mockResolvedValue(textResult("file"));
+    const read = wrapToolWithResultCache(createTool("read", readExecute), {
+      sessionKey: "agent:main:main",
+      config: { enabled: true },
+    });
+    await read.execute("call-1", { path: "a.txt" });
+    await read.execute("call-2", { path: "a.txt" });
+    expect(readExecute).toHaveBeenCalledTimes(2);
+
+    const fetchExecute = vi
+      .fn()
+      .mockResolvedValueOnce(textResult("failed", { status: "error", error: "timeout" }))
+      .mockResolvedValue(textResult("page"));
+    const fetch = wrapToolWithResultCache(createTool("web_fetch", fetchExecute), {
+      sessionKey: "agent:main:main",
+      config: { enabled: true },
+    });
+    await fetch.execute("call-3", { url: "https://example.com" });
+    await fetch.execute("call-4", { url: "https://example.com" });
+    expect(fetchExecute).toHaveBeenCalledTimes(2);
+  });
+
+  it("clears the scope on mutating calls and never caches them", async () => {
+    const config = { enabled: true, tools: { nodes: { enabled: true } } };
+    const nodesExecute = vi.fn().mockResolvedValue(textResult("nodes"));
+    const nodes = wrapToolWithResultCache(createTool("nodes", nodesExecute), {
+      sessionKey: "agent:main:main",
+      config,
+    });
+    const fetchExecute = vi.fn().mockResolvedValue(textResult("page"));
+    const fetch = wrapToolWithResultCache(createTool("web_fetch", fetchExecute), {
+      sessionKey: "agent:main:main",
+      config,
+    });
+
+    await nodes.execute("call-1", { action: "list" });
+    await nodes.execute("call-2", { action: "list" });
+    await fetch.execute("call-3", { url: "https://example.com" });
+    expect(nodesExecute).toHaveBeenCalledTimes(1);
+
+    await nodes.execute("call-4", { action: "invoke", node: "mac", command: "system.run" });
+    await nodes.execute("call-5", { action: "invoke", node: "mac", command: "system.run" });
+    expect(nodesExecute).toHaveBeenCalledTimes(3);
+
+    await nodes.execute("call-6", { action: "list" });
+    await fetch.execute("call-7", { url: "https://example.com" });
+    expect(nodesExecute).toHaveBeenCalledTimes(4);
+    expect(fetchExecute).toHaveBeenCalledTimes(2);
+  });
+
+  it("scopes entries per session unless scope is agent", async () => {
+    const execute = vi.fn().mockResolvedValue(textResult("page"));
+    const wrap = (sessionKey: string, scope?: "agent") =>
+      wrapToolWithResultCache(createTool("web_fetch", execute), {
+        agentId: "main",
+        sessionKey,
+        config: { enabled: true, scope },
+      });
+
+    await wrap("agent:main:a").execute("call-1", { url: "https://example.com" });
+    await wrap("agent:main:b").execute("call-2", { url: "https://example.com" });
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    await wrap("agent:main:a", "agent").execute("call-3", { url: "https://example.com" });
+    await wrap("agent:main:b", "agent").execute("call-4", { url: "https://example.com" });
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it("leaves tools untouched when disabled", () => {
+    const tool = createTool("web_fetch", vi.fn());
+    expect(wrapToolWithResultCache(tool, { sessionKey: "main", config: undefined })).toBe(tool);
+    expect(wrapToolWithResultCache(tool, { sessionKey: "main", config: { enabled: false } })).toBe(
+      tool,
+    );
+  });
+
+  it("merges per-agent config over tools.resultCache", () => {
+    const cfg = {
+      tools: {
+        resultCache: { enabled: true, ttlSeconds: 60, tools: { web_fetch: { ttlSeconds: 5 } } },
+      },
+      agents: {
+        list: [
+          {
+            id: "ops",
+            tools: { resultCache: { scope: "agent", tools: { nodes: { enabled: true } } } },
+          },
+        ],
+      },
+    } as OpenClawConfig;
+
+    expect(resolveToolResultCacheConfig({ cfg, agentId: "ops" })).toEqual({
+      enabled: true,
+      ttlSeconds: 60,
+      scope: "agent",
+      tools: { web_fetch: { ttlSeconds: 5 }, nodes: { enabled: true } },
+    });
+    expect(resolveToolResultCacheConfig({ cfg, agentId: "main" })).toEqual(cfg.tools?.resultCache);
+  });
+});
@@ -0,0 +1,195 @@
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import type { ToolResultCacheConfig } from "../config/types.tools.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { isPlainObject } from "../utils.js";
+import type { AnyAgentTool } from "./pi-tools.types.js";
+import { stableStringify } from "./stable-stringify.js";
+import { isMutatingToolCall } from "./tool-mutation.js";
+import { normalizeToolName } from "./tool-policy.js";
+
+export type ToolResultCacheContext = {
+  agentId?: string;
+  sessionKey?: string;
+  config?: ToolResultCacheConfig;
+};
+
+type CachedToolResult = {
+  result: AgentToolResult<unknown>;
+  cachedAt: number;
+  expiresAt: number;
+};
+
+const log = createSubsystemLogger("agents/tools");
+// Read-only tools that are cached without an explicit per-tool opt-in.
+const DEFAULT_CACHED_TOOLS = new Set(["web_fetch", "web_search"]);
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_MAX_ENTRIES = 100;
+const MAX_CACHE_SCOPES = 256;
+
+// scope key (session or agent) -> cache key -> cached result, both in insertion order.
+const cacheScopes = new Map<string, Map<string, CachedToolResult>>();
+
+function resolveCacheScopeKey(ctx: ToolResultCacheContext): string | undefined {
+  const sessionKey = ctx.sessionKey?.trim();
+  if (ctx.config?.scope === "agent") {
+    const agentId =
+      ctx.agentId?.trim() || (sessionKey ? resolveAgentIdFromSessionKey(sessionKey) : "");
+    return agentId ? `agent:${agentId}` : undefined;
+  }
+  return sessionKey ? `session:${sessionKey}` : undefined;
+}
+
+function resolveToolTtlMs(config: ToolResultCacheConfig, toolName: string): number {
+  const entry = Object.entries(config.tools ?? {}).find(
+    ([name]) => normalizeToolName(name) === toolName,
+  )?.[1];
+  const enabled = entry?.enabled ?? DEFAULT_CACHED_TOOLS.has(toolName);
+  if (!enabled) {
+    return 0;
+  }
+  const seconds = entry?.ttlSeconds ?? config.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  return Number.isFinite(seconds) ? Math.max(0, seconds) * 1000 : 0;
+}
+
+function normalizeCacheArgs(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeCacheArgs);
+  }
+  if (isPlainObject(value)) {
+    const normalized: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined && entry !== null) {
+        normalized[key] = normalizeCacheArgs(entry);
+      }
+    }
+    return normalized;
+  }
+  return value;
+}
+
+/** Cache key for a tool call: tool name plus args with trimmed strings and no null/undefined keys. */
+function buildToolResultCacheKey(toolName: string, params: unknown): string {
+  return `${normalizeToolName(toolName)}:${stableStringify(normalizeCacheArgs(params ?? {}))}`;
+}
+
+function isErrorToolResult(result: AgentToolResult<unknown>): boolean {
+  const details = result.details;
+  return isPlainObject(details) && (details.status === "error" || details.error !== undefined);
+}
+
+function readCachedToolResult(scopeKey: string, key: string, now: number) {
+  const scope = cacheScopes.get(scopeKey);
+  const entry = scope?.get(key);
+  if (!scope || !entry) {
+    return undefined;
+  }
+  if (now >= entry.expiresAt) {
+    scope.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+function writeCachedToolResult(params: {
+  scopeKey: string;
+  key: string;
+  result: AgentToolResult<unknown>;
+  ttlMs: number;
+  maxEntries: number;
+}) {
+  let scope = cacheScopes.get(params.scopeKey);
+  if (!scope) {
+    scope = new Map();
+    cacheScopes.set(params.scopeKey, scope);
+    if (cacheScopes.size > MAX_CACHE_SCOPES) {
+      const oldest = cacheScopes.keys().next().value;
+      if (oldest) {
+        cacheScopes.delete(oldest);
+      }
+    }
+  }
+  scope.delete(params.key);
+  while (scope.size >= params.maxEntries) {
+    const oldest = scope.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    scope.delete(oldest);
+  }
+  const now = Date.now();
+  scope.set(params.key, { result: params.result, cachedAt: now, expiresAt: now + params.ttlMs });
+}
+
+/** Marks a cache hit in both the model-visible content and the transcript details. */
+function markCachedToolResult(entry: CachedToolResult, now: number): AgentToolResult<unknown> {
+  const ageSeconds = Math.max(0, Math.round((now - entry.cachedAt) / 1000));
+  const details = entry.result.details;
+  const cacheMeta = { cached: true, cachedAt: entry.cachedAt };
+  return {
+    ...entry.result,
+    content: [
+      ...entry.result.content,
+      { type: "text", text: `[cached result from ${ageSeconds}s ago]` },
+    ],
+    details: isPlainObject(details)
+      ? { ...details, ...cacheMeta }
+      : details === undefined
+        ? cacheMeta
+        : details,
+  };
+}
+
+/**
+ * Reuse results of identical read-only tool calls within a session (or agent) for a per-tool TTL.
+ * Mutating calls are never cached and drop everything cached for their scope, since they may have
+ * changed what later reads would return.
+ */
+export function wrapToolWithResultCache(
+  tool: AnyAgentTool,
+  ctx: ToolResultCacheContext,
+): AnyAgentTool {
+  const config = ctx.config;
+  const execute = tool.execute;
+  if (!config?.enabled || !execute) {
+    return tool;
+  }
+  const scopeKey = resolveCacheScopeKey(ctx);
+  if (!scopeKey) {
+    return tool;
+  }
+  const toolName = normalizeToolName(tool.name || "tool");
+  const ttlMs = resolveToolTtlMs(config, toolName);
+  const maxEntries = Math.max(1, Math.floor(config.maxEntries ?? DEFAULT_MAX_ENTRIES));
+  return {
+    ...tool,
+    execute: async (toolCallId, params, signal, onUpdate) => {
+      if (isMutatingToolCall(toolName, params)) {
+        cacheScopes.delete(scopeKey);
+        return await execute(toolCallId, params, signal, onUpdate);
+      }
+      if (ttlMs <= 0) {
+        return await execute(toolCallId, params, signal, onUpdate);
+      }
+      const key = buildToolResultCacheKey(toolName, params);
+      const now = Date.now();
+      const cached = readCachedToolResult(scopeKey, key, now);
+      if (cached) {
+        log.debug(`tool result cache hit: tool=${toolName} toolCallId=${toolCallId}`);
+        return markCachedToolResult(cached, now);
+      }
+      const result = await execute(toolCallId, params, signal, onUpdate);
+      if (!isErrorToolResult(result)) {
+        writeCachedToolResult({ scopeKey, key, result, ttlMs, maxEntries });
+      }
+      return result;
+    },
+  };
+}
+
+export const __testing = {
+  cacheScopes,
+};
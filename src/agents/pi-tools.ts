@@ -1,6 +1,6 @@
 import { codingTools, createReadTool, readTool } from "@mariozechner/pi-coding-agent";
 import type { OpenClawConfig } from "../config/config.js";
-import type { ToolLoopDetectionConfig } from "../config/types.tools.js";
+import type { ToolLoopDetectionConfig, ToolResultCacheConfig } from "../config/types.tools.js";
 import { resolveMergedSafeBinProfileFixtures } from "../infra/exec-safe-bin-runtime-policy.js";
 import { logWarn } from "../logger.js";
 import { getPluginToolMeta } from "../plugins/tools.js";
@@ -16,6 +16,7 @@ import {
 } from "./bash-tools.js";
 import { listChannelAgentTools } from "./channel-tools.js";
 import { resolveImageSanitizationLimits } from "./image-sanitization.js";
+import { getMcpToolMeta } from "./mcp/tools.js";
 import type { ModelAuthMode } from "./model-auth.js";
 import { createOpenClawTools } from "./openclaw-tools.js";
 import { wrapToolWithAbortSignal } from "./pi-tools.abort.js";
@@ -40,10 +41,12 @@ import {
   wrapToolWorkspaceRootGuardWithOptions,
   wrapToolParamNormalization,
 } from "./pi-tools.read.js";
+import { wrapToolWithResultCache } from "./pi-tools.result-cache.js";
 import { cleanToolSchemaForGemini, normalizeToolParameters } from "./pi-tools.schema.js";
 import type { AnyAgentTool } from "./pi-tools.types.js";
 import type { SandboxContext } from "./sandbox.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
+import { resolveSubagentRoleToolPolicy } from "./subagent-roles.js";
 import { createToolFsPolicy, resolveToolFsConfig } from "./tool-fs-policy.js";
 import {
   applyToolPolicyPipeline,
@@ -171,6 +174,33 @@ export function resolveToolLoopDetectionConfig(params: {
   };
 }
 
+export function resolveToolResultCacheConfig(params: {
+  cfg?: OpenClawConfig;
+  agentId?: string;
+}): ToolResultCacheConfig | undefined {
+  const global = params.cfg?.tools?.resultCache;
+  const agent =
+    params.agentId && params.cfg
+      ? resolveAgentConfig(params.cfg, params.agentId)?.tools?.resultCache
+      : undefined;
+
+  if (!agent) {
+    return global;
+  }
+  if (!global) {
+    return agent;
+  }
+
+  return {
+    ...global,
+    ...agent,
+    tools: {
+      ...global.tools,
+      ...agent.tools,
+    },
+  };
+}
+
 export const __testing = {
   cleanToolSchemaForGemini,
   normalizeToolParams,
@@ -289,6 +319,9 @@ export function createOpenClawCodingTools(options?: {
           getSubagentDepthFromSessionStore(options.sessionKey, { cfg: options.config }),
         )
       : undefined;
+  const subagentRolePolicy = subagentPolicy
+    ? resolveSubagentRoleToolPolicy(options?.config, options?.sessionKey)
+    : undefined;
   const allowBackground = isToolAllowedByPolicies("process", [
     profilePolicyWithAlsoAllow,
     providerProfilePolicyWithAlsoAllow,
@@ -299,6 +332,7 @@ export function createOpenClawCodingTools(options?: {
     groupPolicy,
     sandbox?.tools,
     subagentPolicy,
+    subagentRolePolicy,
   ]);
   const execConfig = resolveExecConfig({ cfg: options?.config, agentId });
   const fsConfig = resolveToolFsConfig({ cfg: options?.config, agentId });
@@ -481,6 +515,7 @@ export function createOpenClawCodingTools(options?: {
         groupPolicy,
         sandbox?.tools,
         subagentPolicy,
+        subagentRolePolicy,
       ]),
       currentChannelId: options?.currentChannelId,
       currentThreadTs: options?.currentThreadTs,
@@ -501,7 +536,7 @@ export function createOpenClawCodingTools(options?: {
   const toolsByAuthorization = applyOwnerOnlyToolPolicy(toolsForMessageProvider, senderIsOwner);
   const subagentFiltered = applyToolPolicyPipeline({
     tools: toolsByAuthorization,
-    toolMeta: (tool) => getPluginToolMeta(tool),
+    toolMeta: (tool) => getPluginToolMeta(tool) ?? getMcpToolMeta(tool),
     warn: logWarn,
     steps: [
       ...buildDefaultToolPolicyPipelineSteps({
@@ -518,6 +553,7 @@ export function createOpenClawCodingTools(options?: {
       }),
       { policy: sandbox?.tools, label: "sandbox tools.allow" },
       { policy: subagentPolicy, label: "subagent tools.allow" },
+      { policy: subagentRolePolicy, label: "subagent role tools.allow" },
     ],
   });
   // Always normalize tool JSON Schemas before handing them to pi-agent/pi-ai.
@@ -526,7 +562,16 @@ export function createOpenClawCodingTools(options?: {
   const normalized = subagentFiltered.map((tool) =>
     normalizeToolParameters(tool, { modelProvider: options?.modelProvider }),
   );
-  const withHooks = normalized.map((tool) =>
+  // Cache inside the hook wrapper so hooks and loop detection still see every call.
+  const resultCacheConfig = resolveToolResultCacheConfig({ cfg: options?.config, agentId });
+  const withCache = normalized.map((tool) =>
+    wrapToolWithResultCache(tool, {
+      agentId,
+      sessionKey: options?.sessionKey,
+      config: resultCacheConfig,
+    }),
+  );
+  const withHooks = withCache.map((tool) =>
     wrapToolWithBeforeToolCallHook(tool, {
       agentId,
       sessionKey: options?.sessionKey,
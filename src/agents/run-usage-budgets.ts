@@ -0,0 +1,174 @@
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStatus,
+  recordUsageBudgetSpend,
+  resolveUsageBudgetRules,
+  type UsageBudgetStatus,
+  type UsageBudgetSubject,
+} from "../infra/usage-budgets.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../utils/usage-format.js";
+import { buildModelAliasIndex, resolveModelRefFromString } from "./model-selection.js";
+import type { EmbeddedPiRunResult } from "./pi-embedded-runner/types.js";
+
+const log = createSubsystemLogger("agents/usage-budgets");
+
+/** `meta.stopReason` of a run that a usage budget blocked before it started. */
+export const USAGE_BUDGET_STOP_REASON = "usage_budget";
+
+export type RunUsageBudgetParams = {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+  senderId?: string | null;
+  messageChannel?: string;
+  messageProvider?: string;
+  agentAccountId?: string;
+  chatType?: string;
+  /** Collect warning/downgrade notices into `meta.usageBudgetNotices`. */
+  usageBudgetNotices?: boolean;
+};
+
+export type RunUsageBudgetGate = {
+  /** Set when a hard limit blocks the run; return it instead of running the agent. */
+  stopResult?: EmbeddedPiRunResult;
+  /** Cheaper model to run instead of the requested one. */
+  downgrade?: { provider: string; model: string };
+  notices: string[];
+};
+
+function resolveRunUsageBudgetSubject(params: RunUsageBudgetParams): UsageBudgetSubject {
+  return {
+    agentId: params.agentId,
+    sessionKey: params.sessionKey,
+    senderId: params.senderId ?? undefined,
+    channel: params.messageChannel ?? params.messageProvider,
+    accountId: params.agentAccountId,
+    chatType: params.chatType,
+  };
+}
+
+function formatStopText(status: UsageBudgetStatus, stopMessage?: string): string {
+  const custom = stopMessage?.trim();
+  if (custom) {
+    return custom;
+  }
+  const reset = status.rule.period === "monthly" ? "next month" : "tomorrow";
+  return `🛑 Usage budget reached: ${formatUsageBudgetStatus(status)}. Runs resume ${reset}.`;
+}
+
+function formatNoticeText(status: UsageBudgetStatus, fallbackLabel?: string): string {
+  if (status.state !== "exceeded") {
+    return `⚠️ Usage budget warning: ${formatUsageBudgetStatus(status)}`;
+  }
+  if (status.rule.action === "downgrade" && fallbackLabel) {
+    return `📉 Usage budget reached: ${formatUsageBudgetStatus(status)}. Switching to ${fallbackLabel} for the rest of the period.`;
+  }
+  return `⚠️ Usage budget exceeded: ${formatUsageBudgetStatus(status)}`;
+}
+
+/**
+ * Check budgets before an agent run. Backends that cannot switch providers (CLI) pass
+ * `canSwitchProvider: false`, which turns a cross-provider downgrade into a stop.
+ */
+export async function applyRunUsageBudgets(
+  params: RunUsageBudgetParams & { provider: string; canSwitchProvider?: boolean },
+): Promise<RunUsageBudgetGate> {
+  const cfg = params.config;
+  if (!cfg || resolveUsageBudgetRules(cfg).length === 0) {
+    return { notices: [] };
+  }
+  let decision;
+  try {
+    decision = await checkUsageBudgets({
+      cfg,
+      subject: resolveRunUsageBudgetSubject(params),
+      notify: params.usageBudgetNotices === true,
+    });
+  } catch (err) {
+    log.error(`Usage budget check failed: ${String(err)}`);
+    return { notices: [] };
+  }
+
+  const limiting = decision.limiting;
+  let downgrade: RunUsageBudgetGate["downgrade"];
+  if (decision.action === "downgrade" && limiting?.rule.fallbackModel) {
+    const resolved = resolveModelRefFromString({
+      raw: limiting.rule.fallbackModel,
+      defaultProvider: params.provider,
+      aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: params.provider }),
+    });
+    if (!resolved) {
+      log.error(
+        `Usage budget "${limiting.rule.id}": invalid fallbackModel "${limiting.rule.fallbackModel}"; stopping run.`,
+      );
+    } else if (params.canSwitchProvider === false && resolved.ref.provider !== params.provider) {
+      log.warn(
+        `Usage budget "${limiting.rule.id}": ${params.provider} cannot switch to ${resolved.ref.provider}; stopping run.`,
+      );
+    } else {
+      downgrade = { provider: resolved.ref.provider, model: resolved.ref.model };
+    }
+  }
+  if (limiting && (decision.action === "stop" || !downgrade)) {
+    return {
+      stopResult: {
+        payloads: [{ text: formatStopText(limiting, cfg.session?.budgets?.stopMessage) }],
+        meta: { durationMs: 0, stopReason: USAGE_BUDGET_STOP_REASON },
+      },
+      notices: [],
+    };
+  }
+  const fallbackLabel = downgrade ? `${downgrade.provider}/${downgrade.model}` : undefined;
+  return {
+    downgrade,
+    notices: decision.notices.map((status) =>
+      formatNoticeText(status, status === limiting ? fallbackLabel : undefined),
+    ),
+  };
+}
+
+/** Count a finished run's usage against every budget that applies to it. */
+export async function recordRunUsageBudgetSpend(
+  params: RunUsageBudgetParams,
+  result: EmbeddedPiRunResult,
+): Promise<void> {
+  const cfg = params.config;
+  const agentMeta = result.meta.agentMeta;
+  const usage = agentMeta?.usage;
+  if (!cfg || !agentMeta || !usage || resolveUsageBudgetRules(cfg).length === 0) {
+    return;
+  }
+  const tokens =
+    usage.total ??
+    (usage.input ?? 0) + (usage.output ?? 0) + (usage.cacheRead ?? 0) + (usage.cacheWrite ?? 0);
+  const costUsd = estimateUsageCost({
+    usage,
+    cost: resolveModelCostConfig({
+      provider: agentMeta.provider,
+      model: agentMeta.model,
+      config: cfg,
+    }),
+  });
+  try {
+    await recordUsageBudgetSpend({
+      cfg,
+      subject: resolveRunUsageBudgetSubject(params),
+      tokens,
+      costUsd,
+    });
+  } catch (err) {
+    log.error(`Usage budget accounting failed: ${String(err)}`);
+  }
+}
+
+export function withUsageBudgetNotices(
+  result: EmbeddedPiRunResult,
+  notices: string[],
+): EmbeddedPiRunResult {
+  if (notices.length === 0) {
+    return result;
+  }
+  return { ...result, meta: { ...result.meta, usageBudgetNotices: notices } };
+}
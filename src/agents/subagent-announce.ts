@@ -38,6 +38,7 @@ import {
 } from "./subagent-announce-dispatch.js";
 import { type AnnounceQueueItem, enqueueAnnounce } from "./subagent-announce-queue.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
+import type { SubagentBatchChild, SubagentBatchRecord } from "./subagent-registry.types.js";
 import type { SpawnSubagentMode } from "./subagent-spawn.js";
 import { readLatestAssistantReply } from "./tools/agent-step.js";
 import { sanitizeTextContent, extractAssistantText } from "./tools/sessions-helpers.js";
@@ -388,15 +389,11 @@ function formatTokenCount(value?: number) {
   return String(Math.round(value));
 }
 
-async function buildCompactAnnounceStatsLine(params: {
-  sessionKey: string;
-  startedAt?: number;
-  endedAt?: number;
-}) {
+async function loadSubagentTokenUsage(sessionKey: string) {
   const cfg = loadConfig();
-  const agentId = resolveAgentIdFromSessionKey(params.sessionKey);
+  const agentId = resolveAgentIdFromSessionKey(sessionKey);
   const storePath = resolveStorePath(cfg.session?.store, { agentId });
-  let entry = loadSessionStore(storePath)[params.sessionKey];
+  let entry = loadSessionStore(storePath)[sessionKey];
   const tokenWaitAttempts = FAST_TEST_MODE ? 1 : 3;
   for (let attempt = 0; attempt < tokenWaitAttempts; attempt += 1) {
     const hasTokenData =
@@ -409,13 +406,22 @@ async function buildCompactAnnounceStatsLine(params: {
     if (!FAST_TEST_MODE) {
       await new Promise((resolve) => setTimeout(resolve, 150));
     }
-    entry = loadSessionStore(storePath)[params.sessionKey];
+    entry = loadSessionStore(storePath)[sessionKey];
   }
+  return {
+    input: typeof entry?.inputTokens === "number" ? entry.inputTokens : 0,
+    output: typeof entry?.outputTokens === "number" ? entry.outputTokens : 0,
+    promptCache: typeof entry?.totalTokens === "number" ? entry.totalTokens : undefined,
+  };
+}
 
-  const input = typeof entry?.inputTokens === "number" ? entry.inputTokens : 0;
-  const output = typeof entry?.outputTokens === "number" ? entry.outputTokens : 0;
+async function buildCompactAnnounceStatsLine(params: {
+  sessionKey: string;
+  startedAt?: number;
+  endedAt?: number;
+}) {
+  const { input, output, promptCache } = await loadSubagentTokenUsage(params.sessionKey);
   const ioTotal = input + output;
-  const promptCache = typeof entry?.totalTokens === "number" ? entry.totalTokens : undefined;
   const runtimeMs =
     typeof params.startedAt === "number" && typeof params.endedAt === "number"
       ? Math.max(0, params.endedAt - params.startedAt)
@@ -918,6 +924,24 @@ function loadSessionEntryByKey(sessionKey: string) {
   return store[sessionKey];
 }
 
+function buildSubagentRoleSection(role?: {
+  name: string;
+  description?: string;
+  systemPrompt?: string;
+}): string[] {
+  if (!role) {
+    return [];
+  }
+  const description = role.description?.trim();
+  const systemPrompt = role.systemPrompt?.trim();
+  return [
+    `## Role: ${role.name}`,
+    ...(description ? [description] : []),
+    ...(systemPrompt ? [systemPrompt] : []),
+    "",
+  ];
+}
+
 export function buildSubagentSystemPrompt(params: {
   requesterSessionKey?: string;
   requesterOrigin?: DeliveryContext;
@@ -930,6 +954,8 @@ export function buildSubagentSystemPrompt(params: {
   childDepth?: number;
   /** Config value: max allowed spawn depth. */
   maxSpawnDepth?: number;
+  /** Configured sub-agent role selected at spawn time. */
+  role?: { name: string; description?: string; systemPrompt?: string };
 }) {
   const taskText =
     typeof params.task === "string" && params.task.trim()
@@ -954,6 +980,7 @@ export function buildSubagentSystemPrompt(params: {
     "- Complete this task. That's your entire purpose.",
     `- You are NOT the ${parentLabel}. Don't try to be.`,
     "",
+    ...buildSubagentRoleSection(params.role),
     "## Rules",
     "1. **Stay focused** - Do your assigned task, nothing else",
     `2. **Complete the task** - Your final message will be automatically reported to the ${parentLabel}`,
@@ -1029,7 +1056,7 @@ export type SubagentRunOutcome = {
   error?: string;
 };
 
-export type SubagentAnnounceType = "subagent task" | "cron job";
+export type SubagentAnnounceType = "subagent task" | "subagent batch" | "cron job";
 
 function buildAnnounceReplyInstruction(params: {
   remainingActiveSubagentRuns: number;
@@ -1070,6 +1097,8 @@ export async function runSubagentAnnounceFlow(params: {
   spawnMode?: SpawnSubagentMode;
   signal?: AbortSignal;
   bestEffortDeliver?: boolean;
+  /** Batch group the run belongs to; its result is folded into the batch completion. */
+  batchId?: string;
 }): Promise<boolean> {
   let didAnnounce = false;
   const expectsCompletionMessage = params.expectsCompletionMessage === true;
@@ -1158,6 +1187,29 @@ export async function runSubagentAnnounceFlow(params: {
       return false;
     }
 
+    if (params.batchId) {
+      const { countActiveDescendantRuns } = await import("./subagent-registry.js");
+      if (countActiveDescendantRuns(params.childSessionKey) > 0) {
+        shouldDeleteChildSession = false;
+        return false;
+      }
+      const { recordSubagentBatchChildResult } = await import("./subagent-batch.js");
+      const recorded = recordSubagentBatchChildResult({
+        batchId: params.batchId,
+        runId: params.childRunId,
+        outcome: outcome ?? { status: "unknown" },
+        reply:
+          isAnnounceSkip(reply) || isSilentReplyText(reply, SILENT_REPLY_TOKEN) ? undefined : reply,
+        startedAt: params.startedAt,
+        endedAt: params.endedAt,
+        usage: await loadSubagentTokenUsage(params.childSessionKey),
+      });
+      // Untracked batches (e.g. after a gateway restart) fall back to a normal announce.
+      if (recorded) {
+        return true;
+      }
+    }
+
     if (isAnnounceSkip(reply)) {
       return true;
     }
@@ -1380,3 +1432,112 @@ export async function runSubagentAnnounceFlow(params: {
   }
   return didAnnounce;
 }
+
+function describeBatchChildStatus(child: SubagentBatchChild): string {
+  switch (child.status) {
+    case "ok":
+      return "completed";
+    case "error":
+      return `failed: ${child.error || "unknown error"}`;
+    case "timeout":
+      return child.error ? `timed out (${child.error})` : "timed out";
+    case "skipped":
+      return "not started (batch deadline reached)";
+    case "pending":
+    case "running":
+      return "did not finish";
+    default:
+      return "finished with unknown status";
+  }
+}
+
+function buildSubagentBatchSummary(batch: SubagentBatchRecord): string {
+  const succeeded = batch.children.filter((child) => child.status === "ok").length;
+  const totals = batch.children.reduce(
+    (acc, child) => ({
+      input: acc.input + (child.usage?.input ?? 0),
+      output: acc.output + (child.usage?.output ?? 0),
+    }),
+    { input: 0, output: 0 },
+  );
+  const lines = [
+    `Stats: ${succeeded}/${batch.children.length} succeeded • runtime ${formatDurationShort(
+      (batch.endedAt ?? Date.now()) - batch.createdAt,
+    )} • tokens ${formatTokenCount(totals.input + totals.output)} (in ${formatTokenCount(
+      totals.input,
+    )} / out ${formatTokenCount(totals.output)})`,
+  ];
+  for (const child of batch.children) {
+    const runtimeMs =
+      typeof child.startedAt === "number" && typeof child.endedAt === "number"
+        ? child.endedAt - child.startedAt
+        : undefined;
+    const usage = child.usage
+      ? ` • tokens ${formatTokenCount(child.usage.input + child.usage.output)}`
+      : "";
+    lines.push(
+      "",
+      `### ${child.index + 1}. ${child.label || child.task} — ${describeBatchChildStatus(child)} (runtime ${formatDurationShort(runtimeMs)}${usage})`,
+      child.result?.trim() || "(no output)",
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Deliver one aggregated completion for a finished (or expired) sub-agent batch. */
+export async function runSubagentBatchAnnounceFlow(batch: SubagentBatchRecord): Promise<boolean> {
+  try {
+    const requesterSessionKey = batch.requesterSessionKey;
+    const requesterIsSubagent = getSubagentDepthFromSessionStore(requesterSessionKey) >= 1;
+    let remainingActiveSubagentRuns = 0;
+    try {
+      const { countActiveDescendantRuns } = await import("./subagent-registry.js");
+      remainingActiveSubagentRuns = Math.max(0, countActiveDescendantRuns(requesterSessionKey));
+    } catch {
+      // Best-effort only; fall back to default announce instructions when unavailable.
+    }
+    const batchLabel = batch.label || `${batch.children.length} tasks`;
+    const statusLabel =
+      batch.endedReason === "deadline" ? "reached its deadline" : "finished all tasks";
+    const triggerMessage = [
+      `[System Message] [batchId: ${batch.batchId}] A subagent batch "${batchLabel}" just ${statusLabel}.`,
+      "",
+      "Results:",
+      buildSubagentBatchSummary(batch),
+      "",
+      buildAnnounceReplyInstruction({
+        remainingActiveSubagentRuns,
+        requesterIsSubagent,
+        announceType: "subagent batch",
+      }),
+    ].join("\n");
+
+    let directOrigin = normalizeDeliveryContext(batch.requesterOrigin);
+    if (!requesterIsSubagent) {
+      const { entry } = loadRequesterSessionEntry(requesterSessionKey);
+      directOrigin = resolveAnnounceOrigin(entry, directOrigin);
+    }
+    const announceId = `batch:${batch.batchId}`;
+    const delivery = await deliverSubagentAnnouncement({
+      requesterSessionKey,
+      announceId,
+      triggerMessage,
+      summaryLine: batchLabel,
+      requesterOrigin: batch.requesterOrigin,
+      directOrigin,
+      targetRequesterSessionKey: requesterSessionKey,
+      requesterIsSubagent,
+      expectsCompletionMessage: false,
+      directIdempotencyKey: buildAnnounceIdempotencyKey(announceId),
+    });
+    if (!delivery.delivered && delivery.error) {
+      defaultRuntime.error?.(
+        `Subagent batch announce failed for batch ${batch.batchId}: ${delivery.error}`,
+      );
+    }
+    return delivery.delivered;
+  } catch (err) {
+    defaultRuntime.error?.(`Subagent batch announce failed: ${String(err)}`);
+    return false;
+  }
+}
@@ -0,0 +1,389 @@
+import crypto from "node:crypto";
+import { loadConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentIdFromSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { defaultRuntime } from "../runtime.js";
+import { normalizeDeliveryContext } from "../utils/delivery-context.js";
+import { abortEmbeddedPiRun } from "./pi-embedded.js";
+import { runSubagentBatchAnnounceFlow, type SubagentRunOutcome } from "./subagent-announce.js";
+import {
+  countActiveRunsForSession,
+  getSubagentBatch,
+  markSubagentRunTerminated,
+  registerSubagentBatch,
+  releaseSubagentBatch,
+} from "./subagent-registry.js";
+import type {
+  SubagentBatchChild,
+  SubagentBatchRecord,
+  SubagentBatchTask,
+} from "./subagent-registry.types.js";
+import {
+  resolveSubagentRequesterKeys,
+  spawnSubagentDirect,
+  type SpawnSubagentContext,
+} from "./subagent-spawn.js";
+
+/**
+ * Fan-out/fan-in sub-agent batches.
+ *
+ * A batch spawns up to `maxConcurrent` children at a time from a task list, starts queued tasks
+ * as earlier ones finish, and announces one aggregated completion to the requester once every
+ * task has settled or the batch deadline passes (running children are stopped at the deadline).
+ */
+
+export const SUBAGENT_BATCH_MAX_TASKS = 20;
+// Keeps the deadline timer well inside setTimeout's 2^31-1 ms range.
+export const SUBAGENT_BATCH_MAX_DEADLINE_SECONDS = 7 * 24 * 60 * 60;
+const SUBAGENT_BATCH_RESULT_MAX_CHARS = 4_000;
+const DEFAULT_MAX_CHILDREN_PER_AGENT = 5;
+const FINISHED_BATCH_IDS_MAX = 200;
+
+export const SUBAGENT_BATCH_ACCEPTED_NOTE =
+  "auto-announces one aggregated result when every task finishes (or the deadline passes); do not poll/sleep.";
+
+export type SpawnSubagentBatchParams = {
+  tasks: SubagentBatchTask[];
+  label?: string;
+  maxConcurrent?: number;
+  deadlineSeconds?: number;
+  runTimeoutSeconds?: number;
+  cleanup?: "delete" | "keep";
+};
+
+export type SpawnSubagentBatchResult = {
+  status: "accepted" | "forbidden" | "error";
+  batchId?: string;
+  maxConcurrent?: number;
+  deadlineAt?: number;
+  children?: Array<{
+    index: number;
+    label?: string;
+    status: SubagentBatchChild["status"];
+    runId?: string;
+    childSessionKey?: string;
+    error?: string;
+  }>;
+  note?: string;
+  error?: string;
+};
+
+type BatchChildResult = {
+  outcome: SubagentRunOutcome;
+  reply?: string;
+  startedAt?: number;
+  endedAt?: number;
+  usage?: { input: number; output: number };
+};
+
+// Serializes scheduling per batch so spawns and completions never interleave mid-update.
+const batchQueues = new Map<string, Promise<void>>();
+const deadlineTimers = new Map<string, NodeJS.Timeout>();
+// Results that arrive before spawnSubagentDirect returns the child's run id.
+const earlyResults = new Map<string, BatchChildResult>();
+// Late results for already-reported batches are dropped instead of announced on their own.
+const finishedBatchIds = new Set<string>();
+
+function enqueueBatchWork(batchId: string, work: () => Promise<void>) {
+  const previous = batchQueues.get(batchId) ?? Promise.resolve();
+  const next = previous
+    .then(work)
+    .catch((err) => {
+      defaultRuntime.error?.(`Subagent batch ${batchId} failed: ${String(err)}`);
+    })
+    .finally(() => {
+      if (batchQueues.get(batchId) === next) {
+        batchQueues.delete(batchId);
+      }
+    });
+  batchQueues.set(batchId, next);
+  return next;
+}
+
+function isChildSettled(child: SubagentBatchChild) {
+  return child.status !== "pending" && child.status !== "running";
+}
+
+function applyChildResult(child: SubagentBatchChild, result: BatchChildResult) {
+  child.status = result.outcome.status;
+  child.error = result.outcome.error;
+  child.endedAt = result.endedAt ?? Date.now();
+  if (typeof result.startedAt === "number") {
+    child.startedAt = result.startedAt;
+  }
+  child.usage = result.usage;
+  const reply = result.reply?.trim();
+  if (reply) {
+    child.result =
+      reply.length > SUBAGENT_BATCH_RESULT_MAX_CHARS
+        ? `${reply.slice(0, SUBAGENT_BATCH_RESULT_MAX_CHARS)}\n…(truncated)`
+        : reply;
+  }
+}
+
+async function spawnBatchChild(batch: SubagentBatchRecord, child: SubagentBatchChild) {
+  child.status = "running";
+  const result = await spawnSubagentDirect(
+    {
+      task: child.task,
+      label: child.label,
+      agentId: child.agentId,
+      role: child.role,
+      model: child.model,
+      thinking: child.thinking,
+      runTimeoutSeconds: batch.runTimeoutSeconds,
+      cleanup: batch.cleanup,
+      expectsCompletionMessage: false,
+      batchId: batch.batchId,
+    },
+    batch.spawnContext,
+  );
+  if (result.status !== "accepted" || !result.runId) {
+    child.status = "error";
+    child.error = result.error ?? `spawn ${result.status}`;
+    child.endedAt = Date.now();
+    return;
+  }
+  child.runId = result.runId;
+  child.childSessionKey = result.childSessionKey;
+  child.startedAt = Date.now();
+  const early = earlyResults.get(result.runId);
+  if (early) {
+    earlyResults.delete(result.runId);
+    applyChildResult(child, early);
+  }
+}
+
+async function pumpSubagentBatch(batchId: string) {
+  const batch = getSubagentBatch(batchId);
+  if (!batch || batch.endedAt) {
+    return;
+  }
+  for (const child of batch.children) {
+    const running = batch.children.filter((entry) => entry.status === "running").length;
+    if (running >= batch.maxConcurrent) {
+      break;
+    }
+    if (child.status === "pending") {
+      await spawnBatchChild(batch, child);
+    }
+  }
+  if (batch.children.every(isChildSettled)) {
+    await finishSubagentBatch(batch, "complete");
+  }
+}
+
+function stopBatchChild(child: SubagentBatchChild) {
+  if (child.childSessionKey) {
+    try {
+      const cfg = loadConfig();
+      const agentId = resolveAgentIdFromSessionKey(child.childSessionKey);
+      const storePath = resolveStorePath(cfg.session?.store, { agentId });
+      const sessionId = loadSessionStore(storePath)[child.childSessionKey]?.sessionId;
+      if (sessionId) {
+        abortEmbeddedPiRun(sessionId);
+      }
+    } catch {
+      // Best-effort abort; the run is still marked terminated below.
+    }
+  }
+  if (child.runId) {
+    markSubagentRunTerminated({ runId: child.runId, reason: "batch deadline reached" });
+  }
+}
+
+async function expireSubagentBatch(batchId: string) {
+  const batch = getSubagentBatch(batchId);
+  if (!batch || batch.endedAt) {
+    return;
+  }
+  const now = Date.now();
+  for (const child of batch.children) {
+    if (child.status === "pending") {
+      child.status = "skipped";
+    } else if (child.status === "running") {
+      stopBatchChild(child);
+      child.status = "timeout";
+      child.error = "batch deadline reached";
+      child.endedAt = now;
+    }
+  }
+  await finishSubagentBatch(batch, "deadline");
+}
+
+async function finishSubagentBatch(
+  batch: SubagentBatchRecord,
+  reason: NonNullable<SubagentBatchRecord["endedReason"]>,
+) {
+  batch.endedAt = Date.now();
+  batch.endedReason = reason;
+  finishedBatchIds.add(batch.batchId);
+  if (finishedBatchIds.size > FINISHED_BATCH_IDS_MAX) {
+    const oldest = finishedBatchIds.values().next().value;
+    if (oldest) {
+      finishedBatchIds.delete(oldest);
+    }
+  }
+  const timer = deadlineTimers.get(batch.batchId);
+  if (timer) {
+    clearTimeout(timer);
+    deadlineTimers.delete(batch.batchId);
+  }
+  await runSubagentBatchAnnounceFlow(batch);
+  releaseSubagentBatch(batch.batchId);
+}
+
+/**
+ * Record a finished batch child (called from the announce flow instead of announcing it).
+ * Returns false when the batch is not tracked, so the caller announces the run on its own.
+ */
+export function recordSubagentBatchChildResult(
+  params: BatchChildResult & { batchId: string; runId: string },
+): boolean {
+  if (finishedBatchIds.has(params.batchId)) {
+    return true;
+  }
+  const batch = getSubagentBatch(params.batchId);
+  if (!batch) {
+    return false;
+  }
+  const child = batch.children.find((entry) => entry.runId === params.runId);
+  if (!child) {
+    // The child can finish before its spawn call returns; hold the result until it does.
+    if (!batch.children.some((entry) => entry.status === "running" && !entry.runId)) {
+      return false;
+    }
+    earlyResults.set(params.runId, params);
+    return true;
+  }
+  if (child.status === "running") {
+    applyChildResult(child, params);
+  }
+  void enqueueBatchWork(batch.batchId, () => pumpSubagentBatch(batch.batchId));
+  return true;
+}
+
+function resolveBatchMaxConcurrent(params: {
+  requested?: number;
+  taskCount: number;
+  availableSlots: number;
+}) {
+  const requested =
+    typeof params.requested === "number" && Number.isFinite(params.requested)
+      ? Math.max(1, Math.floor(params.requested))
+      : params.taskCount;
+  return Math.max(1, Math.min(requested, params.taskCount, params.availableSlots));
+}
+
+export async function spawnSubagentBatch(
+  params: SpawnSubagentBatchParams,
+  ctx: SpawnSubagentContext,
+): Promise<SpawnSubagentBatchResult> {
+  const tasks = params.tasks.filter((entry) => entry.task.trim());
+  if (tasks.length === 0) {
+    return { status: "error", error: "tasks must include at least one non-empty task." };
+  }
+  if (tasks.length > SUBAGENT_BATCH_MAX_TASKS) {
+    return {
+      status: "error",
+      error: `tasks supports at most ${SUBAGENT_BATCH_MAX_TASKS} entries (got ${tasks.length}).`,
+    };
+  }
+  const cfg = loadConfig();
+  const { requesterInternalKey, requesterDisplayKey } = resolveSubagentRequesterKeys(
+    cfg,
+    ctx.agentSessionKey,
+  );
+  const maxChildren =
+    cfg.agents?.defaults?.subagents?.maxChildrenPerAgent ?? DEFAULT_MAX_CHILDREN_PER_AGENT;
+  const availableSlots = maxChildren - countActiveRunsForSession(requesterInternalKey);
+  if (availableSlots <= 0) {
+    return {
+      status: "forbidden",
+      error: `sessions_spawn has reached max active children for this session (${maxChildren - availableSlots}/${maxChildren})`,
+    };
+  }
+
+  const now = Date.now();
+  const deadlineSeconds =
+    typeof params.deadlineSeconds === "number" && Number.isFinite(params.deadlineSeconds)
+      ? Math.min(
+          SUBAGENT_BATCH_MAX_DEADLINE_SECONDS,
+          Math.max(0, Math.floor(params.deadlineSeconds)),
+        )
+      : 0;
+  const batch: SubagentBatchRecord = {
+    batchId: crypto.randomUUID(),
+    requesterSessionKey: requesterInternalKey,
+    requesterOrigin: normalizeDeliveryContext({
+      channel: ctx.agentChannel,
+      accountId: ctx.agentAccountId,
+      to: ctx.agentTo,
+      threadId: ctx.agentThreadId,
+    }),
+    requesterDisplayKey,
+    label: params.label?.trim() || undefined,
+    spawnContext: ctx,
+    runTimeoutSeconds: params.runTimeoutSeconds,
+    cleanup: params.cleanup === "delete" ? "delete" : "keep",
+    maxConcurrent: resolveBatchMaxConcurrent({
+      requested: params.maxConcurrent,
+      taskCount: tasks.length,
+      availableSlots,
+    }),
+    createdAt: now,
+    deadlineAtMs: deadlineSeconds > 0 ? now + deadlineSeconds * 1000 : undefined,
+    children: tasks.map((entry, index) => ({
+      ...entry,
+      task: entry.task.trim(),
+      label: entry.label?.trim() || undefined,
+      index,
+      status: "pending",
+    })),
+  };
+  registerSubagentBatch(batch);
+
+  // Start the first wave before returning so spawn errors surface to the caller.
+  await enqueueBatchWork(batch.batchId, async () => {
+    for (const child of batch.children.slice(0, batch.maxConcurrent)) {
+      await spawnBatchChild(batch, child);
+    }
+  });
+  const started = batch.children.filter((child) => child.runId);
+  if (started.length === 0) {
+    releaseSubagentBatch(batch.batchId);
+    return {
+      status: "error",
+      error: batch.children.find((child) => child.error)?.error ?? "no batch task could start",
+    };
+  }
+
+  if (batch.deadlineAtMs) {
+    const timer = setTimeout(() => {
+      void enqueueBatchWork(batch.batchId, () => expireSubagentBatch(batch.batchId));
+    }, batch.deadlineAtMs - now);
+    timer.unref?.();
+    deadlineTimers.set(batch.batchId, timer);
+  }
+  // Fill slots freed by failed spawns (and finish early if everything already settled).
+  void enqueueBatchWork(batch.batchId, () => pumpSubagentBatch(batch.batchId));
+
+  return {
+    status: "accepted",
+    batchId: batch.batchId,
+    maxConcurrent: batch.maxConcurrent,
+    deadlineAt: batch.deadlineAtMs,
+    children: batch.children.map((child) => ({
+      index: child.index,
+      label: child.label,
+      status: child.status,
+      runId: child.runId,
+      childSessionKey: child.childSessionKey,
+      error: child.error,
+    })),
+    note: SUBAGENT_BATCH_ACCEPTED_NOTE,
+  };
+}
@@ -9,6 +9,7 @@ type SessionDepthEntry = {
   sessionId?: unknown;
   spawnDepth?: unknown;
   spawnedBy?: unknown;
+  subagentRole?: unknown;
 };
 
 function normalizeSpawnDepth(value: unknown): number | undefined {
@@ -174,3 +175,24 @@ export function getSubagentDepthFromSessionStore(
 
   return depthFromStore(raw) ?? fallbackDepth;
 }
+
+/** Role recorded on a sub-agent session at spawn time (see sessions_spawn `role`). */
+export function getSubagentRoleFromSessionStore(
+  sessionKey: string | undefined | null,
+  opts?: {
+    cfg?: OpenClawConfig;
+    store?: Record<string, SessionDepthEntry>;
+  },
+): string | undefined {
+  const raw = normalizeSessionKey(sessionKey);
+  if (!raw) {
+    return undefined;
+  }
+  const entry = resolveEntryForSessionKey({
+    sessionKey: raw,
+    cfg: opts?.cfg,
+    store: opts?.store,
+    cache: new Map(),
+  });
+  return normalizeSessionKey(entry?.subagentRole);
+}
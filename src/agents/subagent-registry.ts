@@ -40,12 +40,14 @@ import {
   persistSubagentRunsToDisk,
   restoreSubagentRunsFromDisk,
 } from "./subagent-registry-state.js";
-import type { SubagentRunRecord } from "./subagent-registry.types.js";
+import type { SubagentBatchRecord, SubagentRunRecord } from "./subagent-registry.types.js";
 import { resolveAgentTimeoutMs } from "./timeout.js";
 
-export type { SubagentRunRecord } from "./subagent-registry.types.js";
+export type { SubagentBatchRecord, SubagentRunRecord } from "./subagent-registry.types.js";
 
 const subagentRuns = new Map<string, SubagentRunRecord>();
+// Batch groups are in-memory only; after a restart their runs announce individually.
+const subagentBatches = new Map<string, SubagentBatchRecord>();
 let sweeper: NodeJS.Timeout | null = null;
 let listenerStarted = false;
 let listenerStop: (() => void) | null = null;
@@ -398,6 +400,7 @@ function startSubagentAnnounceCleanupFlow(runId: string, entry: SubagentRunRecor
     outcome: entry.outcome,
     spawnMode: entry.spawnMode,
     expectsCompletionMessage: entry.expectsCompletionMessage,
+    batchId: entry.batchId,
   })
     .then((didAnnounce) => {
       void finalizeSubagentCleanup(runId, entry.cleanup, didAnnounce);
@@ -901,6 +904,8 @@ export function registerSubagentRun(params: {
   task: string;
   cleanup: "delete" | "keep";
   label?: string;
+  role?: string;
+  batchId?: string;
   model?: string;
   runTimeoutSeconds?: number;
   expectsCompletionMessage?: boolean;
@@ -926,6 +931,8 @@ export function registerSubagentRun(params: {
     expectsCompletionMessage: params.expectsCompletionMessage,
     spawnMode,
     label: params.label,
+    role: params.role,
+    batchId: params.batchId,
     model: params.model,
     runTimeoutSeconds,
     createdAt: now,
@@ -1010,6 +1017,7 @@ async function waitForSubagentCompletion(runId: string, waitTimeoutMs: number) {
 
 export function resetSubagentRegistryForTests(opts?: { persist?: boolean }) {
   subagentRuns.clear();
+  subagentBatches.clear();
   resumedRuns.clear();
   endedHookInFlightRunIds.clear();
   clearAllPendingLifecycleErrors();
@@ -1137,6 +1145,25 @@ export function markSubagentRunTerminated(params: {
   return updated;
 }
 
+export function registerSubagentBatch(batch: SubagentBatchRecord) {
+  subagentBatches.set(batch.batchId, batch);
+}
+
+export function getSubagentBatch(batchId: string): SubagentBatchRecord | undefined {
+  return subagentBatches.get(batchId);
+}
+
+export function releaseSubagentBatch(batchId: string) {
+  subagentBatches.delete(batchId);
+}
+
+export function listSubagentBatchesForRequester(
+  requesterSessionKey: string,
+): SubagentBatchRecord[] {
+  const key = requesterSessionKey.trim();
+  return [...subagentBatches.values()].filter((batch) => batch.requesterSessionKey === key);
+}
+
 export function listSubagentRunsForRequester(requesterSessionKey: string): SubagentRunRecord[] {
   return listRunsForRequesterFromRuns(subagentRuns, requesterSessionKey);
 }
@@ -1,7 +1,7 @@
 import type { DeliveryContext } from "../utils/delivery-context.js";
 import type { SubagentRunOutcome } from "./subagent-announce.js";
 import type { SubagentLifecycleEndedReason } from "./subagent-lifecycle-events.js";
-import type { SpawnSubagentMode } from "./subagent-spawn.js";
+import type { SpawnSubagentContext, SpawnSubagentMode } from "./subagent-spawn.js";
 
 export type SubagentRunRecord = {
   runId: string;
@@ -12,6 +12,10 @@ export type SubagentRunRecord = {
   task: string;
   cleanup: "delete" | "keep";
   label?: string;
+  /** Configured sub-agent role the run was spawned with. */
+  role?: string;
+  /** Batch this run belongs to; batch runs report into one aggregated completion. */
+  batchId?: string;
   model?: string;
   runTimeoutSeconds?: number;
   spawnMode?: SpawnSubagentMode;
@@ -33,3 +37,52 @@ export type SubagentRunRecord = {
   /** Set after the subagent_ended hook has been emitted successfully once. */
   endedHookEmittedAt?: number;
 };
+
+export type SubagentBatchChildStatus =
+  | "pending"
+  | "running"
+  | "ok"
+  | "error"
+  | "timeout"
+  | "unknown"
+  | "skipped";
+
+export type SubagentBatchTask = {
+  task: string;
+  label?: string;
+  role?: string;
+  agentId?: string;
+  model?: string;
+  thinking?: string;
+};
+
+export type SubagentBatchChild = SubagentBatchTask & {
+  index: number;
+  status: SubagentBatchChildStatus;
+  runId?: string;
+  childSessionKey?: string;
+  error?: string;
+  /** Final reply text of the child run (trimmed to the batch result limit). */
+  result?: string;
+  startedAt?: number;
+  endedAt?: number;
+  usage?: { input: number; output: number };
+};
+
+export type SubagentBatchRecord = {
+  batchId: string;
+  requesterSessionKey: string;
+  requesterOrigin?: DeliveryContext;
+  requesterDisplayKey: string;
+  label?: string;
+  /** Context used to spawn queued children after earlier ones finish. */
+  spawnContext: SpawnSubagentContext;
+  runTimeoutSeconds?: number;
+  cleanup: "delete" | "keep";
+  maxConcurrent: number;
+  createdAt: number;
+  deadlineAtMs?: number;
+  children: SubagentBatchChild[];
+  endedAt?: number;
+  endedReason?: "complete" | "deadline";
+};
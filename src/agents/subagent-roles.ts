@@ -0,0 +1,94 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { SubagentRoleConfig } from "../config/types.agent-defaults.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import type { SandboxToolPolicy } from "./sandbox.js";
+import { getSubagentRoleFromSessionStore } from "./subagent-depth.js";
+
+export type ResolvedSubagentRole = {
+  /** Role name as configured (original casing). */
+  name: string;
+  config: SubagentRoleConfig;
+};
+
+/**
+ * Sub-agent roles available to `agentId`: per-agent roles merged over
+ * agents.defaults.subagents.roles by name (per-agent entries replace defaults).
+ */
+export function resolveSubagentRoles(
+  cfg: OpenClawConfig,
+  agentId: string,
+): Record<string, SubagentRoleConfig> {
+  const merged: Record<string, SubagentRoleConfig> = {};
+  const layers = [
+    cfg.agents?.defaults?.subagents?.roles,
+    resolveAgentConfig(cfg, agentId)?.subagents?.roles,
+  ];
+  for (const layer of layers) {
+    if (!layer || typeof layer !== "object") {
+      continue;
+    }
+    for (const [name, role] of Object.entries(layer)) {
+      const trimmed = name.trim();
+      if (!trimmed || !role || typeof role !== "object") {
+        continue;
+      }
+      const existing = Object.keys(merged).find(
+        (key) => key.toLowerCase() === trimmed.toLowerCase(),
+      );
+      if (existing) {
+        delete merged[existing];
+      }
+      merged[trimmed] = role;
+    }
+  }
+  return merged;
+}
+
+export function listSubagentRoleNames(cfg: OpenClawConfig, agentId: string): string[] {
+  return Object.keys(resolveSubagentRoles(cfg, agentId)).toSorted();
+}
+
+/** Look up a role by name (case-insensitive). */
+export function resolveSubagentRole(
+  cfg: OpenClawConfig,
+  agentId: string,
+  role: string | undefined | null,
+): ResolvedSubagentRole | undefined {
+  const wanted = role?.trim().toLowerCase();
+  if (!wanted) {
+    return undefined;
+  }
+  const roles = resolveSubagentRoles(cfg, agentId);
+  const name = Object.keys(roles).find((key) => key.toLowerCase() === wanted);
+  const config = name ? roles[name] : undefined;
+  return name && config ? { name, config } : undefined;
+}
+
+/**
+ * Tool policy for the role recorded on a sub-agent session. Applied as an extra pipeline
+ * step after the sub-agent policy, so a role can only narrow the tools its sub-agents get.
+ */
+export function resolveSubagentRoleToolPolicy(
+  cfg: OpenClawConfig | undefined,
+  sessionKey: string | undefined,
+): SandboxToolPolicy | undefined {
+  if (!cfg || !sessionKey) {
+    return undefined;
+  }
+  const role = resolveSubagentRole(
+    cfg,
+    resolveAgentIdFromSessionKey(sessionKey),
+    getSubagentRoleFromSessionStore(sessionKey, { cfg }),
+  );
+  const tools = role?.config.tools;
+  if (!tools) {
+    return undefined;
+  }
+  const allow = Array.isArray(tools.allow) && tools.allow.length > 0 ? tools.allow : undefined;
+  const deny = Array.isArray(tools.deny) && tools.deny.length > 0 ? tools.deny : undefined;
+  if (!allow && !deny) {
+    return undefined;
+  }
+  return { allow, deny };
+}
@@ -16,6 +16,7 @@ import { resolveSubagentSpawnModelSelection } from "./model-selection.js";
 import { buildSubagentSystemPrompt } from "./subagent-announce.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
 import { countActiveRunsForSession, registerSubagentRun } from "./subagent-registry.js";
+import { listSubagentRoleNames, resolveSubagentRole } from "./subagent-roles.js";
 import { readStringParam } from "./tools/common.js";
 import {
   resolveDisplaySessionKey,
@@ -30,6 +31,10 @@ export type SpawnSubagentParams = {
   task: string;
   label?: string;
   agentId?: string;
+  /** Configured sub-agent role name (agents.*.subagents.roles). */
+  role?: string;
+  /** Batch group this run reports into (see spawnSubagentBatch). */
+  batchId?: string;
   model?: string;
   thinking?: string;
   runTimeoutSeconds?: number;
@@ -61,6 +66,7 @@ export type SpawnSubagentResult = {
   childSessionKey?: string;
   runId?: string;
   mode?: SpawnSubagentMode;
+  role?: string;
   note?: string;
   modelApplied?: boolean;
   error?: string;
@@ -92,6 +98,27 @@ function resolveSpawnMode(params: {
   return params.threadRequested ? "session" : "run";
 }
 
+/** Internal and display keys for the session requesting a spawn. */
+export function resolveSubagentRequesterKeys(
+  cfg: ReturnType<typeof loadConfig>,
+  agentSessionKey?: string,
+): { requesterInternalKey: string; requesterDisplayKey: string } {
+  const { mainKey, alias } = resolveMainSessionAlias(cfg);
+  const requesterInternalKey = agentSessionKey
+    ? resolveInternalSessionKey({
+        key: agentSessionKey,
+        alias,
+        mainKey,
+      })
+    : alias;
+  const requesterDisplayKey = resolveDisplaySessionKey({
+    key: requesterInternalKey,
+    alias,
+    mainKey,
+  });
+  return { requesterInternalKey, requesterDisplayKey };
+}
+
 function summarizeError(err: unknown): string {
   if (err instanceof Error) {
     return err.message;
@@ -207,26 +234,17 @@ export async function spawnSubagentDirect(
     Number.isFinite(cfg.agents.defaults.subagents.runTimeoutSeconds)
       ? Math.max(0, Math.floor(cfg.agents.defaults.subagents.runTimeoutSeconds))
       : 0;
-  const runTimeoutSeconds =
+  const requestedRunTimeoutSeconds =
     typeof params.runTimeoutSeconds === "number" && Number.isFinite(params.runTimeoutSeconds)
       ? Math.max(0, Math.floor(params.runTimeoutSeconds))
       : cfgSubagentTimeout;
   let modelApplied = false;
   let threadBindingReady = false;
-  const { mainKey, alias } = resolveMainSessionAlias(cfg);
   const requesterSessionKey = ctx.agentSessionKey;
-  const requesterInternalKey = requesterSessionKey
-    ? resolveInternalSessionKey({
-        key: requesterSessionKey,
-        alias,
-        mainKey,
-      })
-    : alias;
-  const requesterDisplayKey = resolveDisplaySessionKey({
-    key: requesterInternalKey,
-    alias,
-    mainKey,
-  });
+  const { requesterInternalKey, requesterDisplayKey } = resolveSubagentRequesterKeys(
+    cfg,
+    requesterSessionKey,
+  );
 
   const callerDepth = getSubagentDepthFromSessionStore(requesterInternalKey, { cfg });
   const maxSpawnDepth =
@@ -268,6 +286,26 @@ export async function spawnSubagentDirect(
       };
     }
   }
+  const requestedRole = params.role?.trim();
+  const role = resolveSubagentRole(cfg, targetAgentId, requestedRole);
+  if (requestedRole && !role) {
+    const available = listSubagentRoleNames(cfg, targetAgentId);
+    return {
+      status: "error",
+      error: `Unknown subagent role "${requestedRole}" (available: ${available.length > 0 ? available.join(", ") : "none"}).`,
+    };
+  }
+  // Role limits cap the requested runtime; 0 means no timeout on either side.
+  const roleRunTimeoutSeconds =
+    typeof role?.config.runTimeoutSeconds === "number" &&
+    Number.isFinite(role.config.runTimeoutSeconds)
+      ? Math.max(0, Math.floor(role.config.runTimeoutSeconds))
+      : 0;
+  const runTimeoutSeconds =
+    roleRunTimeoutSeconds > 0 &&
+    (requestedRunTimeoutSeconds === 0 || requestedRunTimeoutSeconds > roleRunTimeoutSeconds)
+      ? roleRunTimeoutSeconds
+      : requestedRunTimeoutSeconds;
   const childSessionKey = `agent:${targetAgentId}:subagent:${crypto.randomUUID()}`;
   const childDepth = callerDepth + 1;
   const spawnedByKey = requesterInternalKey;
@@ -275,7 +313,7 @@ export async function spawnSubagentDirect(
   const resolvedModel = resolveSubagentSpawnModelSelection({
     cfg,
     agentId: targetAgentId,
-    modelOverride,
+    modelOverride: role?.config.model?.trim() || modelOverride,
   });
 
   const resolvedThinkingDefaultRaw =
@@ -283,7 +321,8 @@ export async function spawnSubagentDirect(
     readStringParam(cfg.agents?.defaults?.subagents ?? {}, "thinking");
 
   let thinkingOverride: string | undefined;
-  const thinkingCandidateRaw = thinkingOverrideRaw || resolvedThinkingDefaultRaw;
+  const thinkingCandidateRaw =
+    role?.config.thinking?.trim() || thinkingOverrideRaw || resolvedThinkingDefaultRaw;
   if (thinkingCandidateRaw) {
     const normalized = normalizeThinkLevel(thinkingCandidateRaw);
     if (!normalized) {
@@ -299,7 +338,11 @@ export async function spawnSubagentDirect(
   try {
     await callGateway({
       method: "sessions.patch",
-      params: { key: childSessionKey, spawnDepth: childDepth },
+      params: {
+        key: childSessionKey,
+        spawnDepth: childDepth,
+        ...(role ? { subagentRole: role.name } : {}),
+      },
       timeoutMs: 10_000,
     });
   } catch (err) {
@@ -392,6 +435,13 @@ export async function spawnSubagentDirect(
     acpEnabled: cfg.acp?.enabled !== false,
     childDepth,
     maxSpawnDepth,
+    role: role
+      ? {
+          name: role.name,
+          description: role.config.description,
+          systemPrompt: role.config.systemPrompt,
+        }
+      : undefined,
   });
   const childTaskMessage = [
     `[Subagent Context] You are running as a subagent (depth ${childDepth}/${maxSpawnDepth}). Results auto-announce to your requester; do not busy-poll for status.`,
@@ -494,6 +544,8 @@ export async function spawnSubagentDirect(
     task,
     cleanup,
     label: label || undefined,
+    role: role?.name,
+    batchId: params.batchId,
     model: resolvedModel,
     runTimeoutSeconds,
     expectsCompletionMessage,
@@ -544,6 +596,7 @@ export async function spawnSubagentDirect(
     childSessionKey,
     runId: childRunId,
     mode: spawnMode,
+    role: role?.name,
     note,
     modelApplied: resolvedModel ? modelApplied : undefined,
   };
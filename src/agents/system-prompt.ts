@@ -49,6 +49,11 @@ function buildMemorySection(params: {
     "## Memory Recall",
     "Before answering anything about prior work, decisions, dates, people, preferences, or todos: run memory_search on MEMORY.md + memory/*.md; then use memory_get to pull only the needed lines. If low confidence after search, say you checked.",
   ];
+  if (params.availableTools.has("memory_write")) {
+    lines.push(
+      "To remember a durable fact, use memory_write (subject + one-sentence statement) instead of editing MEMORY.md; resolve reported conflicts with memory_update.",
+    );
+  }
   if (params.citationsMode === "off") {
     lines.push(
       "Citations are disabled: do not mention file paths or line numbers in replies unless the user explicitly asks.",
@@ -112,6 +117,7 @@ function buildReplyTagsSection(isMinimal: boolean) {
     "- Prefer [[reply_to_current]]. Use [[reply_to:<id>]] only when an id was explicitly provided (e.g. by the user or a tool).",
     "Whitespace inside the tag is allowed (e.g. [[ reply_to_current ]] / [[ reply_to: 123 ]]).",
     "Tags are stripped before sending; support depends on the current channel config.",
+    "To offer a few options, end the reply with [[choices: A | B | C]]; they render as buttons or a numbered list, and the user's pick arrives as a choice selection.",
     "",
   ];
 }
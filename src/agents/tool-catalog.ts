@@ -113,6 +113,22 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "memory_write",
+    label: "memory_write",
+    description: "Store memory facts",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "memory_update",
+    label: "memory_update",
+    description: "Edit memory facts",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
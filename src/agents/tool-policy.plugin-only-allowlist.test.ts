@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { stripPluginOnlyAllowlist, type PluginToolGroups } from "./tool-policy.js";
+import {
+  expandPluginGroups,
+  stripPluginOnlyAllowlist,
+  type PluginToolGroups,
+} from "./tool-policy.js";
 
 const pluginGroups: PluginToolGroups = {
   all: ["lobster", "workflow_tool"],
@@ -53,4 +57,24 @@ describe("stripPluginOnlyAllowlist", () => {
     expect(policy.policy?.allow).toEqual(["read", "lobster"]);
     expect(policy.unknownAllowlist).toEqual(["lobster"]);
   });
+
+  it("treats MCP server tools and globs as plugin entries", () => {
+    const groups: PluginToolGroups = {
+      all: ["lobster", "mcp__github__search"],
+      byPlugin: new Map([
+        ["lobster", ["lobster"]],
+        ["mcp:github", ["mcp__github__search"]],
+      ]),
+    };
+    const policy = stripPluginOnlyAllowlist(
+      { allow: ["group:mcp", "mcp__linear__*"] },
+      groups,
+      coreTools,
+    );
+    expect(policy.policy?.allow).toBeUndefined();
+    expect(policy.unknownAllowlist).toEqual([]);
+    expect(expandPluginGroups(["group:mcp"], groups)).toEqual(["mcp__github__search"]);
+    expect(expandPluginGroups(["group:plugins"], groups)).toEqual(["lobster"]);
+    expect(expandPluginGroups(["mcp:github"], groups)).toEqual(["mcp__github__search"]);
+  });
 });
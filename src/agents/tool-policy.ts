@@ -107,6 +107,20 @@ export function buildPluginToolGroups<T extends { name: string }>(params: {
   return { all, byPlugin };
 }
 
+function isMcpGroupId(pluginId: string) {
+  return pluginId.startsWith("mcp:");
+}
+
+function collectGroupTools(groups: PluginToolGroups, mcp: boolean): string[] {
+  const tools: string[] = [];
+  for (const [pluginId, names] of groups.byPlugin) {
+    if (isMcpGroupId(pluginId) === mcp) {
+      tools.push(...names);
+    }
+  }
+  return tools;
+}
+
 export function expandPluginGroups(
   list: string[] | undefined,
   groups: PluginToolGroups,
@@ -117,9 +131,11 @@ export function expandPluginGroups(
   const expanded: string[] = [];
   for (const entry of list) {
     const normalized = normalizeToolName(entry);
-    if (normalized === "group:plugins") {
-      if (groups.all.length > 0) {
-        expanded.push(...groups.all);
+    if (normalized === "group:plugins" || normalized === "group:mcp") {
+      // MCP server tools share plugin metadata (`mcp:<server>`) but get their own group.
+      const tools = collectGroupTools(groups, normalized === "group:mcp");
+      if (tools.length > 0) {
+        expanded.push(...tools);
       } else {
         expanded.push(normalized);
       }
@@ -170,7 +186,11 @@ export function stripPluginOnlyAllowlist(
       continue;
     }
     const isPluginEntry =
-      entry === "group:plugins" || pluginIds.has(entry) || pluginTools.has(entry);
+      entry === "group:plugins" ||
+      entry === "group:mcp" ||
+      entry.startsWith("mcp__") ||
+      pluginIds.has(entry) ||
+      pluginTools.has(entry);
     const expanded = expandToolGroups([entry]);
     const isCoreEntry = expanded.some((tool) => coreTools.has(tool));
     if (isCoreEntry) {
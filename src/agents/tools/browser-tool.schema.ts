@@ -32,6 +32,28 @@ const BROWSER_TOOL_ACTIONS = [
   "upload",
   "dialog",
   "act",
+  "network",
+  "macro",
+] as const;
+
+const BROWSER_NETWORK_ACTIONS = [
+  "start",
+  "stop",
+  "requests",
+  "body",
+  "har",
+  "route",
+  "unroute",
+] as const;
+
+const BROWSER_MACRO_ACTIONS = [
+  "list",
+  "record",
+  "checkpoint",
+  "save",
+  "cancel",
+  "run",
+  "delete",
 ] as const;
 
 const BROWSER_TARGETS = ["sandbox", "host", "node"] as const;
@@ -77,6 +99,21 @@ const BrowserActSchema = Type.Object({
   fn: Type.Optional(Type.String()),
 });
 
+const BrowserNetworkMockSchema = Type.Object({
+  status: Type.Optional(Type.Number()),
+  contentType: Type.Optional(Type.String()),
+  headers: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  body: Type.Optional(Type.String()),
+  abort: Type.Optional(Type.Boolean()),
+});
+
+const BrowserMacroCheckpointSchema = Type.Object({
+  text: Type.Optional(Type.String()),
+  textGone: Type.Optional(Type.String()),
+  url: Type.Optional(Type.String()),
+  selector: Type.Optional(Type.String()),
+});
+
 // IMPORTANT: OpenAI function tool schemas must have a top-level `type: "object"`.
 // A root-level `Type.Union([...])` compiles to `{ anyOf: [...] }` (no `type`),
 // which OpenAI rejects ("Invalid schema ... type: None"). Keep this schema an object.
@@ -110,4 +147,16 @@ export const BrowserToolSchema = Type.Object({
   accept: Type.Optional(Type.Boolean()),
   promptText: Type.Optional(Type.String()),
   request: Type.Optional(BrowserActSchema),
+  // network
+  networkAction: optionalStringEnum(BROWSER_NETWORK_ACTIONS),
+  filter: Type.Optional(Type.String()),
+  requestId: Type.Optional(Type.String()),
+  path: Type.Optional(Type.String()),
+  mock: Type.Optional(BrowserNetworkMockSchema),
+  // macro
+  macroAction: optionalStringEnum(BROWSER_MACRO_ACTIONS),
+  name: Type.Optional(Type.String()),
+  description: Type.Optional(Type.String()),
+  params: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  checkpoint: Type.Optional(BrowserMacroCheckpointSchema),
 });
@@ -1,11 +1,26 @@
 import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
 import {
   browserAct,
   browserArmDialog,
   browserArmFileChooser,
   browserConsoleMessages,
+  browserMacroCheckpoint,
+  browserMacroDelete,
+  browserMacroRecordStart,
+  browserMacroRecordStop,
+  browserMacroRun,
+  browserMacros,
   browserNavigate,
+  browserNetworkBody,
+  browserNetworkHar,
+  browserNetworkRequests,
+  browserNetworkRoute,
+  browserNetworkStart,
+  browserNetworkStop,
+  browserNetworkUnroute,
   browserPdfSave,
   browserScreenshotAction,
 } from "../../browser/client-actions.js";
@@ -22,7 +37,13 @@ import {
 } from "../../browser/client.js";
 import { resolveBrowserConfig } from "../../browser/config.js";
 import { DEFAULT_AI_SNAPSHOT_MAX_CHARS } from "../../browser/constants.js";
-import { DEFAULT_UPLOAD_DIR, resolveExistingPathsWithinRoot } from "../../browser/paths.js";
+import { BROWSER_MACRO_RUN_TIMEOUT_MS } from "../../browser/macros.js";
+import {
+  DEFAULT_UPLOAD_DIR,
+  resolveExistingPathsWithinRoot,
+  resolvePathWithinRoot,
+  resolveWritablePathWithinRoot,
+} from "../../browser/paths.js";
 import { applyBrowserProxyPaths, persistBrowserProxyFiles } from "../../browser/proxy-files.js";
 import { loadConfig } from "../../config/config.js";
 import { wrapExternalContent } from "../../security/external-content.js";
@@ -37,7 +58,7 @@ import {
 } from "./nodes-utils.js";
 
 function wrapBrowserExternalJson(params: {
-  kind: "snapshot" | "console" | "tabs";
+  kind: "snapshot" | "console" | "tabs" | "network";
   payload: unknown;
   includeWarning?: boolean;
 }): { wrappedText: string; safeDetails: Record<string, unknown> } {
@@ -91,6 +112,65 @@ function readTargetUrlParam(params: Record<string, unknown>) {
   );
 }
 
+function readNetworkMockParam(params: Record<string, unknown>) {
+  const mock = params.mock;
+  if (!mock || typeof mock !== "object" || Array.isArray(mock)) {
+    return {};
+  }
+  const { status, contentType, headers, body, abort } = mock as Record<string, unknown>;
+  return {
+    status: typeof status === "number" && Number.isFinite(status) ? status : undefined,
+    contentType: typeof contentType === "string" ? contentType : undefined,
+    headers:
+      headers && typeof headers === "object" && !Array.isArray(headers)
+        ? Object.fromEntries(
+            Object.entries(headers as Record<string, unknown>).map(([name, value]) => [
+              name,
+              String(value),
+            ]),
+          )
+        : undefined,
+    body: typeof body === "string" ? body : body === undefined ? undefined : JSON.stringify(body),
+    abort: typeof abort === "boolean" ? abort : undefined,
+  };
+}
+
+function readMacroParams(params: Record<string, unknown>): Record<string, string> | undefined {
+  const raw = params.params;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).map(([name, value]) => [name, String(value)]),
+  );
+}
+
+/** Copy an exported HAR from the browser tmp dir into the agent workspace. */
+async function copyHarIntoWorkspace(params: {
+  workspaceDir: string;
+  sourcePath: string;
+  requestedPath?: string;
+}): Promise<string> {
+  const scopeLabel = `workspace (${params.workspaceDir})`;
+  const request = {
+    rootDir: params.workspaceDir,
+    requestedPath: params.requestedPath ?? "",
+    scopeLabel,
+    defaultFileName: path.join("browser", path.basename(params.sourcePath)),
+  };
+  const lexical = resolvePathWithinRoot(request);
+  if (!lexical.ok) {
+    throw new Error(lexical.error);
+  }
+  await fs.mkdir(path.dirname(lexical.path), { recursive: true });
+  const resolved = await resolveWritablePathWithinRoot(request);
+  if (!resolved.ok) {
+    throw new Error(resolved.error);
+  }
+  await fs.copyFile(params.sourcePath, resolved.path);
+  return resolved.path;
+}
+
 type BrowserProxyFile = {
   path: string;
   base64: string;
@@ -267,6 +347,8 @@ function resolveBrowserBaseUrl(params: {
 export function createBrowserTool(opts?: {
   sandboxBridgeUrl?: string;
   allowHostControl?: boolean;
+  /** Workspace that HAR exports are copied into. */
+  workspaceDir?: string;
 }): AnyAgentTool {
   const targetDefault = opts?.sandboxBridgeUrl ? "sandbox" : "host";
   const hostHint =
@@ -283,6 +365,8 @@ export function createBrowserTool(opts?: {
       "When using refs from snapshot (e.g. e12), keep the same tab: prefer passing targetId from the snapshot response into subsequent actions (act/click/type/etc).",
       'For stable, self-resolving refs across calls, use snapshot with refs="aria" (Playwright aria-ref ids). Default refs="role" are role+name-based.',
       "Use snapshot+act for UI automation. Avoid act:wait by default; use only in exceptional cases when no reliable UI state exists.",
+      'Use action=macro to record repeated flows once and replay them without snapshots: macroAction=record (name) on a tab, then act/navigate as usual, checkpoint (checkpoint={text|textGone|url|selector}) after key states, save (params maps names to typed values, e.g. {user:"ada@example.com"}, so they become inputs); run (name, params) replays and returns status=needs-agent with failedStep when a target is gone: snapshot and finish the remaining steps yourself.',
+      "Use action=network to debug traffic: networkAction=start (then reload/interact), requests (filter by URL glob), body (requestId), har (export into the workspace), stop; route mocks url globs with mock={status,contentType,headers,body,abort}, unroute removes them.",
       `target selects browser location (sandbox|host|node). Default: ${targetDefault}.`,
       hostHint,
     ].join(" "),
@@ -838,6 +922,241 @@ export function createBrowserTool(opts?: {
             throw err;
           }
         }
+        case "network": {
+          const networkAction = readStringParam(params, "networkAction", { required: true });
+          const targetId = readStringParam(params, "targetId");
+          const filter = readStringParam(params, "filter");
+          switch (networkAction) {
+            case "start":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/network/start",
+                      profile,
+                      body: { targetId },
+                    })
+                  : await browserNetworkStart(baseUrl, { targetId, profile }),
+              );
+            case "stop":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/network/stop",
+                      profile,
+                      body: { targetId },
+                    })
+                  : await browserNetworkStop(baseUrl, { targetId, profile }),
+              );
+            case "requests":
+            case "body": {
+              const limit =
+                typeof params.limit === "number" && Number.isFinite(params.limit)
+                  ? params.limit
+                  : undefined;
+              const maxChars =
+                typeof params.maxChars === "number" && Number.isFinite(params.maxChars)
+                  ? params.maxChars
+                  : undefined;
+              let result: unknown;
+              if (networkAction === "requests") {
+                result = proxyRequest
+                  ? await proxyRequest({
+                      method: "GET",
+                      path: "/network/requests",
+                      profile,
+                      query: { targetId, filter, limit },
+                    })
+                  : await browserNetworkRequests(baseUrl, { targetId, filter, limit, profile });
+              } else {
+                const requestId = readStringParam(params, "requestId", { required: true });
+                result = proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/network/body",
+                      profile,
+                      body: { targetId, requestId, maxChars },
+                    })
+                  : await browserNetworkBody(baseUrl, { targetId, requestId, maxChars, profile });
+              }
+              const wrapped = wrapBrowserExternalJson({ kind: "network", payload: result });
+              const requests = (result as { requests?: unknown[] }).requests;
+              return {
+                content: [{ type: "text" as const, text: wrapped.wrappedText }],
+                details: {
+                  ...wrapped.safeDetails,
+                  targetId: (result as { targetId?: string }).targetId,
+                  requestCount: Array.isArray(requests) ? requests.length : undefined,
+                },
+              };
+            }
+            case "har": {
+              const requestedPath = readStringParam(params, "path");
+              const workspaceDir = opts?.workspaceDir;
+              // With a workspace, `path` is workspace-relative and the server picks its own file.
+              const serverPath = workspaceDir ? undefined : requestedPath;
+              const result = proxyRequest
+                ? ((await proxyRequest({
+                    method: "POST",
+                    path: "/network/har",
+                    profile,
+                    body: { targetId, path: serverPath, filter },
+                  })) as Awaited<ReturnType<typeof browserNetworkHar>>)
+                : await browserNetworkHar(baseUrl, {
+                    targetId,
+                    path: serverPath,
+                    filter,
+                    profile,
+                  });
+              if (!workspaceDir) {
+                return jsonResult(result);
+              }
+              const harPath = await copyHarIntoWorkspace({
+                workspaceDir,
+                sourcePath: result.path,
+                requestedPath,
+              });
+              return jsonResult({ ...result, path: harPath });
+            }
+            case "route": {
+              const url = readStringParam(params, "url", { required: true });
+              const mock = readNetworkMockParam(params);
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/network/route",
+                      profile,
+                      body: { targetId, url, ...mock },
+                    })
+                  : await browserNetworkRoute(baseUrl, { targetId, url, ...mock, profile }),
+              );
+            }
+            case "unroute": {
+              const url = readStringParam(params, "url");
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/network/unroute",
+                      profile,
+                      body: { targetId, url },
+                    })
+                  : await browserNetworkUnroute(baseUrl, { targetId, url, profile }),
+              );
+            }
+            default:
+              throw new Error(`Unknown networkAction: ${networkAction}`);
+          }
+        }
+        case "macro": {
+          const macroAction = readStringParam(params, "macroAction", { required: true });
+          const targetId = readStringParam(params, "targetId");
+          switch (macroAction) {
+            case "list":
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({ method: "GET", path: "/macros", profile })
+                  : await browserMacros(baseUrl, { profile }),
+              );
+            case "record": {
+              const name = readStringParam(params, "name", { required: true });
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/record/start",
+                      profile,
+                      body: { name, targetId },
+                    })
+                  : await browserMacroRecordStart(baseUrl, { name, targetId, profile }),
+              );
+            }
+            case "checkpoint": {
+              const checkpoint =
+                params.checkpoint && typeof params.checkpoint === "object"
+                  ? (params.checkpoint as Record<string, unknown>)
+                  : {};
+              const body = {
+                targetId,
+                text: readStringParam(checkpoint, "text"),
+                textGone: readStringParam(checkpoint, "textGone"),
+                url: readStringParam(checkpoint, "url"),
+                selector: readStringParam(checkpoint, "selector"),
+              };
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/record/checkpoint",
+                      profile,
+                      body,
+                    })
+                  : await browserMacroCheckpoint(baseUrl, { ...body, profile }),
+              );
+            }
+            case "save":
+            case "cancel": {
+              const body =
+                macroAction === "cancel"
+                  ? { discard: true }
+                  : {
+                      description: readStringParam(params, "description"),
+                      params: readMacroParams(params),
+                    };
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/record/stop",
+                      profile,
+                      body,
+                    })
+                  : await browserMacroRecordStop(baseUrl, { ...body, profile }),
+              );
+            }
+            case "run": {
+              const name = readStringParam(params, "name", { required: true });
+              const macroParams = readMacroParams(params);
+              const stepTimeoutMs =
+                typeof params.timeoutMs === "number" && Number.isFinite(params.timeoutMs)
+                  ? params.timeoutMs
+                  : undefined;
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "POST",
+                      path: "/macros/run",
+                      profile,
+                      body: { name, params: macroParams, targetId, stepTimeoutMs },
+                      timeoutMs: BROWSER_MACRO_RUN_TIMEOUT_MS,
+                    })
+                  : await browserMacroRun(baseUrl, {
+                      name,
+                      params: macroParams,
+                      targetId,
+                      stepTimeoutMs,
+                      profile,
+                    }),
+              );
+            }
+            case "delete": {
+              const name = readStringParam(params, "name", { required: true });
+              return jsonResult(
+                proxyRequest
+                  ? await proxyRequest({
+                      method: "DELETE",
+                      path: `/macros/${encodeURIComponent(name)}`,
+                      profile,
+                    })
+                  : await browserMacroDelete(baseUrl, { name, profile }),
+              );
+            }
+            default:
+              throw new Error(`Unknown macroAction: ${macroAction}`);
+          }
+        }
         default:
           throw new Error(`Unknown action: ${action}`);
       }
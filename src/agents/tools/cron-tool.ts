@@ -228,6 +228,8 @@ JOB SCHEMA (for add action):
   "schedule": { ... },      // Required: when to run
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary or webhook POST
+  "retry": { ... },         // Optional: retry failed runs within their slot
+  "failureDelivery": { ... },  // Optional: notify when a run fails for good
   "sessionTarget": "main" | "isolated",  // Required
   "enabled": true | false   // Optional, default true
 }
@@ -239,6 +241,10 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when another job finishes (chained jobs)
+  { "kind": "after", "jobId": "<upstream-job-id>", "on": ["ok"] }  // on: optional, ok|error|skipped (default ["ok"])
+  agentTurn messages get the upstream job's status and summary appended.
+- "every" and "cron" accept "exclude": ["<calendar-name>"] to skip slots inside configured cron.calendars (holidays, blackout windows).
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -255,6 +261,15 @@ DELIVERY (top-level):
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
+RETRY (top-level, isolated agentTurn jobs):
+  { "maxAttempts": <total attempts, default 3>, "backoffMs": [30000, 120000, 600000], "retryOn": ["timeout", "rate-limit"] }
+  - retryOn kinds: timeout|rate-limit|auth|delivery-target|unknown
+  - Runs that still fail are dead-lettered (listed by cron.deadletter).
+
+FAILURE DELIVERY (top-level):
+  { "mode": "announce|webhook", "channel": "<optional>", "to": "<chat target or URL>" }
+  - Sent only when a run fails and no retry is left.
+
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
 - sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
@@ -306,6 +321,8 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "retry",
+              "failureDelivery",
               "enabled",
               "description",
               "deleteAfterRun",
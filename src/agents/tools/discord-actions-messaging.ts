@@ -162,12 +162,12 @@ export async function handleDiscordMessagingAction(
       const durationHours =
         typeof durationRaw === "number" && Number.isFinite(durationRaw) ? durationRaw : undefined;
       const maxSelections = allowMultiselect ? Math.max(2, answers.length) : 1;
-      await sendPollDiscord(
+      const result = await sendPollDiscord(
         to,
         { question, options: answers, maxSelections, durationHours },
         { ...(accountId ? { accountId } : {}), content },
       );
-      return jsonResult({ ok: true });
+      return jsonResult({ ok: true, messageId: result.messageId, channelId: result.channelId });
     }
     case "permissions": {
       if (!isActionEnabled("permissions")) {
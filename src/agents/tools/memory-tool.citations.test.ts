@@ -59,6 +59,31 @@ describe("memory search citations", () => {
     expect(details.results[0]?.citation).toBe("MEMORY.md#L5-L7");
   });
 
+  it("cites page numbers for PDF results", async () => {
+    setMemoryBackend("builtin");
+    setMemorySearchImpl(async () => [
+      {
+        path: "kb/spec.pdf",
+        startLine: 3,
+        endLine: 4,
+        score: 0.8,
+        snippet: "Retention policy",
+        source: "memory" as const,
+      },
+    ]);
+    const cfg = asOpenClawConfig({
+      memory: { citations: "on" },
+      agents: { list: [{ id: "main", default: true }] },
+    });
+    const tool = createMemorySearchTool({ config: cfg });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+    const result = await tool.execute("call_citations_pdf", { query: "retention" });
+    const details = result.details as { results: Array<{ citation?: string }> };
+    expect(details.results[0]?.citation).toBe("kb/spec.pdf#page=3-4");
+  });
+
   it("leaves snippet untouched when citations are off", async () => {
     setMemoryBackend("builtin");
     const cfg = asOpenClawConfig({
@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  getMemoryToolStubManager,
+  resetMemoryToolMockState,
+} from "../../../test/helpers/memory-tool-manager-mock.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { readMemoryFacts } from "../../memory/facts.js";
+import { createMemoryUpdateTool, createMemoryWriteTool } from "./memory-tool.js";
+
+// Statements about Alice's drink are close (cosine 0.85); everything else is orthogonal.
+const EMBEDDINGS: Record<string, number[]> = {
+  "Alice prefers tea.": [1, 0, 0],
+  "Alice prefers coffee.": [0.85, 0.527, 0],
+};
+
+let workspaceDir: string;
+
+function createConfig(): OpenClawConfig {
+  return { agents: { list: [{ id: "main", default: true, workspace: workspaceDir }] } };
+}
+
+function createTools() {
+  const config = createConfig();
+  const write = createMemoryWriteTool({ config, agentSessionKey: "agent:main:main" });
+  const update = createMemoryUpdateTool({ config });
+  if (!write || !update) {
+    throw new Error("tools missing");
+  }
+  return { write, update };
+}
+
+beforeEach(async () => {
+  workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-write-"));
+  resetMemoryToolMockState({
+    embedTextsImpl: async (texts) => texts.map((text) => EMBEDDINGS[text] ?? [0, 0, 1]),
+  });
+});
+
+afterEach(async () => {
+  await fs.rm(workspaceDir, { recursive: true, force: true });
+});
+
+describe("memory_write", () => {
+  it("creates, merges duplicates and reindexes", async () => {
+    const { write } = createTools();
+    const created = await write.execute("w1", {
+      subject: "Alice",
+      statement: "Alice prefers tea.",
+    });
+    expect(created.details).toMatchObject({
+      status: "created",
+      path: "memory/facts.md",
+      fact: { subject: "Alice", statement: "Alice prefers tea.", source: "agent:main:main" },
+    });
+
+    const merged = await write.execute("w2", { subject: "Alice", statement: "alice prefers tea" });
+    expect(merged.details).toMatchObject({ status: "merged", similarity: 1 });
+    expect(await readMemoryFacts(workspaceDir)).toHaveLength(1);
+    expect(getMemoryToolStubManager().syncAfterWrite).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns conflicts without writing unless told how to resolve them", async () => {
+    const { write } = createTools();
+    await write.execute("w1", { subject: "Alice", statement: "Alice prefers tea." });
+
+    const conflict = await write.execute("w2", {
+      subject: "Alice",
+      statement: "Alice prefers coffee.",
+    });
+    expect(conflict.details).toMatchObject({
+      status: "conflict",
+      conflicts: [{ statement: "Alice prefers tea.", similarity: 0.85 }],
+    });
+    expect(await readMemoryFacts(workspaceDir)).toHaveLength(1);
+
+    const replaced = await write.execute("w3", {
+      subject: "Alice",
+      statement: "Alice prefers coffee.",
+      onConflict: "replace",
+    });
+    expect(replaced.details).toMatchObject({ status: "replaced", previous: "Alice prefers tea." });
+    expect((await readMemoryFacts(workspaceDir)).map((fact) => fact.statement)).toEqual([
+      "Alice prefers coffee.",
+    ]);
+  });
+});
+
+describe("memory_update", () => {
+  it("edits and deletes facts by id", async () => {
+    const { write, update } = createTools();
+    const created = await write.execute("w1", {
+      subject: "Alice",
+      statement: "Alice prefers tea.",
+    });
+    const id = (created.details as { fact: { id: string } }).fact.id;
+
+    const updated = await update.execute("u1", { id, statement: "Alice prefers oolong." });
+    expect(updated.details).toMatchObject({
+      status: "updated",
+      fact: { id, statement: "Alice prefers oolong." },
+    });
+
+    const deleted = await update.execute("u2", { id, delete: true });
+    expect(deleted.details).toMatchObject({ status: "deleted" });
+    expect(await readMemoryFacts(workspaceDir)).toEqual([]);
+
+    const missing = await update.execute("u3", { id, delete: true });
+    expect(missing.details).toEqual({ status: "not_found", id, path: "memory/facts.md" });
+  });
+});
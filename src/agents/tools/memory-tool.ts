@@ -1,14 +1,28 @@
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
+import {
+  MEMORY_FACTS_REL_PATH,
+  createMemoryFactId,
+  planMemoryFactWrite,
+  sanitizeMemoryFactText,
+  scoreMemoryFactSimilarities,
+  updateMemoryFacts,
+  type MemoryFact,
+  type MemoryFactMatch,
+} from "../../memory/facts.js";
 import { getMemorySearchManager } from "../../memory/index.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import type { MemorySearchManager, MemorySearchResult } from "../../memory/types.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
-import { resolveSessionAgentId } from "../agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { optionalStringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { ToolInputError, jsonResult, readNumberParam, readStringParam } from "./common.js";
+
+const log = createSubsystemLogger("memory-tool");
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
@@ -22,6 +36,38 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const MEMORY_WRITE_CONFLICT_MODES = ["flag", "keep_both", "replace"] as const;
+
+const MemoryWriteSchema = Type.Object({
+  subject: Type.String({
+    description: "Who or what the fact is about (e.g. a person or project).",
+  }),
+  statement: Type.String({ description: "One self-contained sentence stating the fact." }),
+  onConflict: optionalStringEnum(MEMORY_WRITE_CONFLICT_MODES, {
+    description:
+      'What to do when a closely related fact about the same subject exists: "flag" (default, write nothing and return the conflicts), "keep_both", or "replace" the closest one.',
+  }),
+});
+
+const MemoryUpdateSchema = Type.Object({
+  id: Type.String({ description: "Fact id returned by memory_write." }),
+  statement: Type.Optional(Type.String()),
+  subject: Type.Optional(Type.String()),
+  delete: Type.Optional(Type.Boolean()),
+});
+
+type MemoryFactMatchSummary = ReturnType<typeof formatFactMatch>;
+
+type MemoryWriteResult =
+  | { status: "merged"; fact: MemoryFact; similarity: number }
+  | { status: "conflict"; conflicts: MemoryFactMatchSummary[] }
+  | { status: "replaced"; fact: MemoryFact; previous: string }
+  | { status: "created"; fact: MemoryFact; related?: MemoryFactMatchSummary[] };
+
+type MemoryUpdateResult =
+  | { status: "updated" | "deleted"; fact: MemoryFact }
+  | { status: "not_found"; id: string };
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -111,7 +157,7 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines (pages for PDFs); use after memory_search to pull only the needed lines and keep context small.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
       const relPath = readStringParam(params, "path", { required: true });
@@ -139,6 +185,194 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryWriteTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Write",
+    name: "memory_write",
+    description: `Store a durable fact (subject + one-sentence statement) in ${MEMORY_FACTS_REL_PATH}, which memory_search indexes. Near-duplicates are merged into the existing fact; closely related facts about the same subject are returned as conflicts instead of being written (resolve with memory_update, or retry with onConflict=replace|keep_both). Prefer this over hand-editing MEMORY.md for facts.`,
+    parameters: MemoryWriteSchema,
+    execute: async (_toolCallId, params) => {
+      const subject = sanitizeMemoryFactText(
+        readStringParam(params, "subject", { required: true }),
+      );
+      const statement = sanitizeMemoryFactText(
+        readStringParam(params, "statement", { required: true }),
+      );
+      if (!subject || !statement) {
+        throw new ToolInputError("subject and statement required");
+      }
+      const onConflict = readStringParam(params, "onConflict") ?? "flag";
+      const { manager } = await getMemorySearchManager({ cfg, agentId });
+      const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+      const source = options.agentSessionKey?.trim() || undefined;
+      const now = new Date().toISOString();
+      const result = await updateMemoryFacts<MemoryWriteResult>(workspaceDir, async (facts) => {
+        const similarities = await embedFactSimilarities(manager, statement, facts);
+        const plan = planMemoryFactWrite({ facts, subject, statement, similarities });
+        if (plan.kind === "duplicate") {
+          const merged: MemoryFact = {
+            ...plan.match.fact,
+            source: source ?? plan.match.fact.source,
+            updatedAt: now,
+          };
+          return {
+            facts: facts.map((fact) => (fact.id === merged.id ? merged : fact)),
+            result: {
+              status: "merged",
+              fact: merged,
+              similarity: roundSimilarity(plan.match.similarity),
+            },
+          };
+        }
+        if (plan.kind === "conflict" && onConflict === "flag") {
+          return {
+            facts: null,
+            result: { status: "conflict", conflicts: plan.conflicts.map(formatFactMatch) },
+          };
+        }
+        const target = plan.kind === "conflict" ? plan.conflicts[0]?.fact : undefined;
+        if (target && onConflict === "replace") {
+          const replaced: MemoryFact = { ...target, subject, statement, source, updatedAt: now };
+          return {
+            facts: facts.map((fact) => (fact.id === target.id ? replaced : fact)),
+            result: { status: "replaced", fact: replaced, previous: target.statement },
+          };
+        }
+        const fact: MemoryFact = {
+          id: createMemoryFactId(),
+          subject,
+          statement,
+          source,
+          createdAt: now,
+        };
+        return {
+          facts: [...facts, fact],
+          result: {
+            status: "created",
+            fact,
+            ...(plan.kind === "conflict" ? { related: plan.conflicts.map(formatFactMatch) } : {}),
+          },
+        };
+      });
+      if (result.status !== "conflict") {
+        await syncAfterFactWrite(manager);
+      }
+      return jsonResult({ ...result, path: MEMORY_FACTS_REL_PATH });
+    },
+  };
+}
+
+export function createMemoryUpdateTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Update",
+    name: "memory_update",
+    description: `Edit or delete a fact stored by memory_write (by id) in ${MEMORY_FACTS_REL_PATH}; use it to resolve conflicts or correct outdated facts.`,
+    parameters: MemoryUpdateSchema,
+    execute: async (_toolCallId, params) => {
+      const id = readStringParam(params, "id", { required: true });
+      const statementRaw = readStringParam(params, "statement");
+      const subjectRaw = readStringParam(params, "subject");
+      const remove = params.delete === true;
+      const statement = statementRaw ? sanitizeMemoryFactText(statementRaw) : undefined;
+      const subject = subjectRaw ? sanitizeMemoryFactText(subjectRaw) : undefined;
+      if (!remove && !statement && !subject) {
+        throw new ToolInputError("statement, subject, or delete required");
+      }
+      const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+      const source = options.agentSessionKey?.trim() || undefined;
+      const result = await updateMemoryFacts<MemoryUpdateResult>(workspaceDir, async (facts) => {
+        const existing = facts.find((fact) => fact.id === id);
+        if (!existing) {
+          return { facts: null, result: { status: "not_found", id } };
+        }
+        if (remove) {
+          return {
+            facts: facts.filter((fact) => fact.id !== id),
+            result: { status: "deleted", fact: existing },
+          };
+        }
+        const updated: MemoryFact = {
+          ...existing,
+          subject: subject ?? existing.subject,
+          statement: statement ?? existing.statement,
+          source: source ?? existing.source,
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          facts: facts.map((fact) => (fact.id === id ? updated : fact)),
+          result: { status: "updated", fact: updated },
+        };
+      });
+      if (result.status !== "not_found") {
+        const { manager } = await getMemorySearchManager({ cfg, agentId });
+        await syncAfterFactWrite(manager);
+      }
+      return jsonResult({ ...result, path: MEMORY_FACTS_REL_PATH });
+    },
+  };
+}
+
+async function embedFactSimilarities(
+  manager: MemorySearchManager | null,
+  statement: string,
+  facts: MemoryFact[],
+): Promise<number[] | undefined> {
+  if (!manager?.embedTexts || facts.length === 0) {
+    return undefined;
+  }
+  try {
+    const [candidate, ...existing] = await manager.embedTexts([
+      statement,
+      ...facts.map((fact) => fact.statement),
+    ]);
+    if (!candidate?.length) {
+      return undefined;
+    }
+    return scoreMemoryFactSimilarities(candidate, existing);
+  } catch (err) {
+    // Fall back to exact-text dedupe; a provider hiccup should not block the write.
+    log.warn(`memory_write: embedding comparison failed: ${String(err)}`);
+    return undefined;
+  }
+}
+
+async function syncAfterFactWrite(manager: MemorySearchManager | null): Promise<void> {
+  try {
+    await (manager?.syncAfterWrite?.() ?? manager?.sync?.({ reason: "memory-write" }));
+  } catch (err) {
+    log.warn(`memory reindex after write failed: ${String(err)}`);
+  }
+}
+
+function roundSimilarity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatFactMatch(match: MemoryFactMatch) {
+  return {
+    id: match.fact.id,
+    subject: match.fact.subject,
+    statement: match.fact.statement,
+    similarity: roundSimilarity(match.similarity),
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -159,6 +393,14 @@ function decorateCitations(results: MemorySearchResult[], include: boolean): Mem
 }
 
 function formatCitation(entry: MemorySearchResult): string {
+  // PDF results carry page numbers instead of line numbers.
+  if (entry.path.toLowerCase().endsWith(".pdf")) {
+    const pageRange =
+      entry.startLine === entry.endLine
+        ? `#page=${entry.startLine}`
+        : `#page=${entry.startLine}-${entry.endLine}`;
+    return `${entry.path}${pageRange}`;
+  }
   const lineRange =
     entry.startLine === entry.endLine
       ? `#L${entry.startLine}`
@@ -276,6 +276,9 @@ function buildPollSchema() {
     pollOption: Type.Optional(Type.Array(Type.String())),
     pollDurationHours: Type.Optional(Type.Number()),
     pollMulti: Type.Optional(Type.Boolean()),
+    pollId: Type.Optional(
+      Type.String({ description: "Poll id for poll-results (messageId also works)." }),
+    ),
   };
 }
 
@@ -0,0 +1,132 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { asRecord, resolveTempPathParts } from "../../cli/nodes-media-utils.js";
+
+// Base64 adds a third on the wire; stay well inside the gateway frame limit.
+export const NODE_FS_CHUNK_BYTES = 1024 * 1024;
+export const NODE_FS_PULL_MAX_BYTES = 100 * 1024 * 1024;
+
+export type NodeFsInvoke = (
+  command: "fs.read" | "fs.write",
+  params: Record<string, unknown>,
+) => Promise<unknown>;
+
+type FsReadChunk = {
+  size: number;
+  bytesRead: number;
+  eof: boolean;
+  data: string;
+  sha256?: string;
+};
+
+function parseFsReadChunk(value: unknown): FsReadChunk {
+  const obj = asRecord(value);
+  if (
+    typeof obj.size !== "number" ||
+    typeof obj.bytesRead !== "number" ||
+    typeof obj.eof !== "boolean" ||
+    typeof obj.data !== "string"
+  ) {
+    throw new Error("invalid fs.read payload");
+  }
+  return {
+    size: obj.size,
+    bytesRead: obj.bytesRead,
+    eof: obj.eof,
+    data: obj.data,
+    sha256: typeof obj.sha256 === "string" ? obj.sha256 : undefined,
+  };
+}
+
+export function nodeFsPullTempPath(opts: { remotePath: string; tmpDir?: string; id?: string }) {
+  const ext = path.extname(opts.remotePath) || ".bin";
+  const { tmpDir, id } = resolveTempPathParts({ ext, tmpDir: opts.tmpDir, id: opts.id });
+  return path.join(tmpDir, `openclaw-node-file-${id}${ext}`);
+}
+
+/** Copy a file from a node in `fs.read` chunks and verify the node's digest. */
+export async function pullNodeFile(params: {
+  invoke: NodeFsInvoke;
+  remotePath: string;
+  outPath: string;
+  chunkBytes?: number;
+}): Promise<{ path: string; remotePath: string; size: number; sha256: string }> {
+  const chunkBytes = params.chunkBytes ?? NODE_FS_CHUNK_BYTES;
+  const hash = crypto.createHash("sha256");
+  const handle = await fs.open(params.outPath, "w", 0o600);
+  let offset = 0;
+  let done = false;
+  try {
+    for (;;) {
+      const chunk = parseFsReadChunk(
+        await params.invoke("fs.read", { path: params.remotePath, offset, length: chunkBytes }),
+      );
+      if (chunk.size > NODE_FS_PULL_MAX_BYTES) {
+        throw new Error(
+          `file is ${chunk.size} bytes; pull limit is ${NODE_FS_PULL_MAX_BYTES} bytes`,
+        );
+      }
+      const data = Buffer.from(chunk.data, "base64");
+      if (data.length !== chunk.bytesRead) {
+        throw new Error("fs.read chunk length mismatch");
+      }
+      await handle.write(data);
+      hash.update(data);
+      offset += data.length;
+      if (chunk.eof) {
+        const sha256 = hash.digest("hex");
+        if (chunk.sha256 && chunk.sha256 !== sha256) {
+          throw new Error("file changed during transfer (sha256 mismatch); retry");
+        }
+        done = true;
+        return { path: params.outPath, remotePath: params.remotePath, size: offset, sha256 };
+      }
+      if (data.length === 0) {
+        throw new Error("fs.read returned no data before end of file");
+      }
+    }
+  } finally {
+    await handle.close();
+    if (!done) {
+      await fs.rm(params.outPath, { force: true });
+    }
+  }
+}
+
+/** Send a file to a node in `fs.write` chunks; the node swaps it in atomically at the end. */
+export async function pushNodeFile(params: {
+  invoke: NodeFsInvoke;
+  remotePath: string;
+  data: Buffer;
+  overwrite?: boolean;
+  chunkBytes?: number;
+}): Promise<unknown> {
+  const chunkBytes = params.chunkBytes ?? NODE_FS_CHUNK_BYTES;
+  const sha256 = crypto.createHash("sha256").update(params.data).digest("hex");
+  let transferId: string | undefined;
+  let offset = 0;
+  for (;;) {
+    const chunk = params.data.subarray(offset, offset + chunkBytes);
+    const final = offset + chunk.length >= params.data.length;
+    const payload = asRecord(
+      await params.invoke("fs.write", {
+        path: params.remotePath,
+        data: chunk.toString("base64"),
+        offset,
+        transferId,
+        overwrite: params.overwrite === true,
+        final,
+        ...(final ? { sha256 } : {}),
+      }),
+    );
+    if (final) {
+      return payload;
+    }
+    if (typeof payload.transferId !== "string") {
+      throw new Error("invalid fs.write payload");
+    }
+    transferId = payload.transferId;
+    offset += chunk.length;
+  }
+}
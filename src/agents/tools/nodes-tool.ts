@@ -27,6 +27,7 @@ import { optionalStringEnum, stringEnum } from "../schema/typebox.js";
 import { sanitizeToolResultImages } from "../tool-images.js";
 import { type AnyAgentTool, jsonResult, readStringParam } from "./common.js";
 import { callGatewayTool, readGatewayCallOptions } from "./gateway.js";
+import { nodeFsPullTempPath, pullNodeFile, pushNodeFile } from "./nodes-fs.js";
 import { listNodes, resolveNodeIdFromList, resolveNodeId } from "./nodes-utils.js";
 
 const NODES_TOOL_ACTIONS = [
@@ -49,6 +50,10 @@ const NODES_TOOL_ACTIONS = [
   "device_health",
   "run",
   "invoke",
+  "fs_list",
+  "fs_stat",
+  "fs_pull",
+  "fs_push",
 ] as const;
 
 const NOTIFY_PRIORITIES = ["passive", "active", "timeSensitive"] as const;
@@ -56,6 +61,8 @@ const NOTIFY_DELIVERIES = ["system", "overlay", "auto"] as const;
 const NOTIFICATIONS_ACTIONS = ["open", "dismiss", "reply"] as const;
 const CAMERA_FACING = ["front", "back", "both"] as const;
 const LOCATION_ACCURACY = ["coarse", "balanced", "precise"] as const;
+const FS_CONTENT_ENCODINGS = ["utf8", "base64"] as const;
+const NODE_APPROVAL_TIMEOUT_MS = 120_000;
 const NODE_READ_ACTION_COMMANDS = {
   camera_list: "camera.list",
   notifications_list: "notifications.list",
@@ -143,6 +150,12 @@ const NodesToolSchema = Type.Object({
   // invoke
   invokeCommand: Type.Optional(Type.String()),
   invokeParamsJson: Type.Optional(Type.String()),
+  // fs_list / fs_stat / fs_pull / fs_push
+  path: Type.Optional(Type.String({ description: "Absolute path on the node (or ~/...)." })),
+  limit: Type.Optional(Type.Number()),
+  content: Type.Optional(Type.String()),
+  contentEncoding: optionalStringEnum(FS_CONTENT_ENCODINGS),
+  overwrite: Type.Optional(Type.Boolean()),
 });
 
 export function createNodesTool(options?: {
@@ -163,11 +176,93 @@ export function createNodesTool(options?: {
     config: options?.config,
   });
   const imageSanitization = resolveImageSanitizationLimits(options?.config);
+
+  const requestNodeApproval = async (
+    gatewayOpts: GatewayCallOptions,
+    request: {
+      label: "exec" | "fs";
+      nodeId: string;
+      commandText: string;
+      commandArgv: string[];
+      cwd?: string;
+    },
+  ) => {
+    const approvalId = crypto.randomUUID();
+    const approvalResult = await callGatewayTool(
+      "exec.approval.request",
+      { ...gatewayOpts, timeoutMs: NODE_APPROVAL_TIMEOUT_MS + 5_000 },
+      {
+        id: approvalId,
+        command: request.commandText,
+        commandArgv: request.commandArgv,
+        cwd: request.cwd,
+        nodeId: request.nodeId,
+        host: "node",
+        agentId,
+        sessionKey,
+        turnSourceChannel,
+        turnSourceTo,
+        turnSourceAccountId,
+        turnSourceThreadId,
+        timeoutMs: NODE_APPROVAL_TIMEOUT_MS,
+      },
+    );
+    const decisionRaw =
+      approvalResult && typeof approvalResult === "object"
+        ? (approvalResult as { decision?: unknown }).decision
+        : undefined;
+    const approvalDecision =
+      decisionRaw === "allow-once" || decisionRaw === "allow-always" ? decisionRaw : null;
+
+    if (!approvalDecision) {
+      if (decisionRaw === "deny") {
+        throw new Error(`${request.label} denied: user denied`);
+      }
+      if (decisionRaw === undefined || decisionRaw === null) {
+        throw new Error(`${request.label} denied: approval timed out`);
+      }
+      throw new Error(`${request.label} denied: invalid approval decision`);
+    }
+    return { approvalId, approvalDecision };
+  };
+
+  // Paths outside the node's fs allowlists need the same approval round-trip as system.run.
+  const invokeNodeFsCommand = async (
+    gatewayOpts: GatewayCallOptions,
+    nodeId: string,
+    command: "fs.read" | "fs.write" | "fs.list" | "fs.stat",
+    commandParams: Record<string, unknown> & { path: string },
+  ): Promise<unknown> => {
+    const invoke = async (extra?: Record<string, unknown>) => {
+      const raw = await callGatewayTool<{ payload?: unknown }>("node.invoke", gatewayOpts, {
+        nodeId,
+        command,
+        params: { ...commandParams, ...extra },
+        idempotencyKey: crypto.randomUUID(),
+      });
+      return raw?.payload ?? {};
+    };
+    try {
+      return await invoke();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (!msg.includes("FS_DENIED: approval required")) {
+        throw err;
+      }
+    }
+    const { approvalId, approvalDecision } = await requestNodeApproval(gatewayOpts, {
+      label: "fs",
+      nodeId,
+      commandText: `${command} ${commandParams.path}`,
+      commandArgv: [command, commandParams.path],
+    });
+    return await invoke({ runId: approvalId, approved: true, approvalDecision });
+  };
   return {
     label: "Nodes",
     name: "nodes",
     description:
-      "Discover and control paired nodes (status/describe/pairing/notify/camera/screen/location/notifications/run/invoke).",
+      "Discover and control paired nodes (status/describe/pairing/notify/camera/screen/location/notifications/run/invoke/fs). fs_pull copies a node file locally (FILE:<path>); fs_push writes content to a node path (set overwrite to replace).",
     parameters: NodesToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
@@ -559,44 +654,13 @@ export function createNodesTool(options?: {
 
             // Node requires approval – create a pending approval request on
             // the gateway and wait for the user to approve/deny via the UI.
-            const APPROVAL_TIMEOUT_MS = 120_000;
-            const cmdText = formatExecCommand(command);
-            const approvalId = crypto.randomUUID();
-            const approvalResult = await callGatewayTool(
-              "exec.approval.request",
-              { ...gatewayOpts, timeoutMs: APPROVAL_TIMEOUT_MS + 5_000 },
-              {
-                id: approvalId,
-                command: cmdText,
-                commandArgv: command,
-                cwd,
-                nodeId,
-                host: "node",
-                agentId,
-                sessionKey,
-                turnSourceChannel,
-                turnSourceTo,
-                turnSourceAccountId,
-                turnSourceThreadId,
-                timeoutMs: APPROVAL_TIMEOUT_MS,
-              },
-            );
-            const decisionRaw =
-              approvalResult && typeof approvalResult === "object"
-                ? (approvalResult as { decision?: unknown }).decision
-                : undefined;
-            const approvalDecision =
-              decisionRaw === "allow-once" || decisionRaw === "allow-always" ? decisionRaw : null;
-
-            if (!approvalDecision) {
-              if (decisionRaw === "deny") {
-                throw new Error("exec denied: user denied");
-              }
-              if (decisionRaw === undefined || decisionRaw === null) {
-                throw new Error("exec denied: approval timed out");
-              }
-              throw new Error("exec denied: invalid approval decision");
-            }
+            const { approvalId, approvalDecision } = await requestNodeApproval(gatewayOpts, {
+              label: "exec",
+              nodeId,
+              commandText: formatExecCommand(command),
+              commandArgv: command,
+              cwd,
+            });
 
             // Retry with the approval decision.
             const raw = await callGatewayTool<{ payload?: unknown }>("node.invoke", gatewayOpts, {
@@ -613,6 +677,68 @@ export function createNodesTool(options?: {
             });
             return jsonResult(raw?.payload ?? {});
           }
+          case "fs_list":
+          case "fs_stat": {
+            const node = readStringParam(params, "node", { required: true });
+            const remotePath = readStringParam(params, "path", { required: true });
+            const nodeId = await resolveNodeId(gatewayOpts, node);
+            const limit =
+              typeof params.limit === "number" && Number.isFinite(params.limit)
+                ? params.limit
+                : undefined;
+            const payload = await invokeNodeFsCommand(
+              gatewayOpts,
+              nodeId,
+              action === "fs_list" ? "fs.list" : "fs.stat",
+              { path: remotePath, ...(action === "fs_list" && limit ? { limit } : {}) },
+            );
+            return jsonResult(payload);
+          }
+          case "fs_pull": {
+            const node = readStringParam(params, "node", { required: true });
+            const remotePath = readStringParam(params, "path", { required: true });
+            const nodeId = await resolveNodeId(gatewayOpts, node);
+            const outPath =
+              typeof params.outPath === "string" && params.outPath.trim()
+                ? params.outPath.trim()
+                : nodeFsPullTempPath({ remotePath });
+            const pulled = await pullNodeFile({
+              invoke: (command, commandParams) =>
+                invokeNodeFsCommand(gatewayOpts, nodeId, command, {
+                  ...commandParams,
+                  path: remotePath,
+                }),
+              remotePath,
+              outPath,
+            });
+            return {
+              content: [{ type: "text", text: `FILE:${pulled.path}` }],
+              details: pulled,
+            };
+          }
+          case "fs_push": {
+            const node = readStringParam(params, "node", { required: true });
+            const remotePath = readStringParam(params, "path", { required: true });
+            if (typeof params.content !== "string") {
+              throw new Error("content required");
+            }
+            const nodeId = await resolveNodeId(gatewayOpts, node);
+            const data = Buffer.from(
+              params.content,
+              params.contentEncoding === "base64" ? "base64" : "utf8",
+            );
+            const payload = await pushNodeFile({
+              invoke: (command, commandParams) =>
+                invokeNodeFsCommand(gatewayOpts, nodeId, command, {
+                  ...commandParams,
+                  path: remotePath,
+                }),
+              remotePath,
+              data,
+              overwrite: params.overwrite === true,
+            });
+            return jsonResult(payload);
+          }
           case "invoke": {
             const node = readStringParam(params, "node", { required: true });
             const nodeId = await resolveNodeId(gatewayOpts, node);
@@ -1,18 +1,46 @@
 import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
 import type { GatewayMessageChannel } from "../../utils/message-channel.js";
 import { ACP_SPAWN_MODES, spawnAcpDirect } from "../acp-spawn.js";
+import { resolveSessionAgentId } from "../agent-scope.js";
 import { optionalStringEnum } from "../schema/typebox.js";
+import {
+  SUBAGENT_BATCH_MAX_DEADLINE_SECONDS,
+  SUBAGENT_BATCH_MAX_TASKS,
+  spawnSubagentBatch,
+} from "../subagent-batch.js";
+import type { SubagentBatchTask } from "../subagent-registry.types.js";
+import { resolveSubagentRoles } from "../subagent-roles.js";
 import { SUBAGENT_SPAWN_MODES, spawnSubagentDirect } from "../subagent-spawn.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readStringParam } from "./common.js";
+import { jsonResult, readStringParam, ToolInputError } from "./common.js";
 
 const SESSIONS_SPAWN_RUNTIMES = ["subagent", "acp"] as const;
 
-const SessionsSpawnToolSchema = Type.Object({
+const SessionsSpawnBatchTaskSchema = Type.Object({
   task: Type.String(),
   label: Type.Optional(Type.String()),
+  agentId: Type.Optional(Type.String()),
+  role: Type.Optional(Type.String()),
+  model: Type.Optional(Type.String()),
+  thinking: Type.Optional(Type.String()),
+});
+
+const SessionsSpawnToolSchema = Type.Object({
+  // Required unless `tasks` is set.
+  task: Type.Optional(Type.String()),
+  // Batch fan-out: spawn one sub-agent per entry and announce one aggregated result.
+  tasks: Type.Optional(
+    Type.Array(SessionsSpawnBatchTaskSchema, { minItems: 1, maxItems: SUBAGENT_BATCH_MAX_TASKS }),
+  ),
+  maxConcurrent: Type.Optional(Type.Number({ minimum: 1 })),
+  deadlineSeconds: Type.Optional(
+    Type.Number({ minimum: 0, maximum: SUBAGENT_BATCH_MAX_DEADLINE_SECONDS }),
+  ),
+  label: Type.Optional(Type.String()),
   runtime: optionalStringEnum(SESSIONS_SPAWN_RUNTIMES),
   agentId: Type.Optional(Type.String()),
+  role: Type.Optional(Type.String()),
   model: Type.Optional(Type.String()),
   thinking: Type.Optional(Type.String()),
   cwd: Type.Optional(Type.String()),
@@ -24,6 +52,51 @@ const SessionsSpawnToolSchema = Type.Object({
   cleanup: optionalStringEnum(["delete", "keep"] as const),
 });
 
+const SESSIONS_SPAWN_DESCRIPTION =
+  'Spawn an isolated session (runtime="subagent" or runtime="acp"). mode="run" is one-shot and mode="session" is persistent/thread-bound. For parallel fan-out, pass tasks (one sub-agent each, run maxConcurrent at a time) instead of task; one aggregated result is announced when all finish or deadlineSeconds passes.';
+
+function readBatchTasks(
+  raw: unknown,
+  defaults: Omit<SubagentBatchTask, "task" | "label">,
+): SubagentBatchTask[] {
+  if (!Array.isArray(raw)) {
+    throw new ToolInputError("tasks must be an array");
+  }
+  return raw.map((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw new ToolInputError(`tasks[${index}] must be an object`);
+    }
+    const item = entry as Record<string, unknown>;
+    const task = readStringParam(item, "task");
+    if (!task) {
+      throw new ToolInputError(`tasks[${index}].task required`);
+    }
+    return {
+      task,
+      label: readStringParam(item, "label"),
+      agentId: readStringParam(item, "agentId") ?? defaults.agentId,
+      role: readStringParam(item, "role") ?? defaults.role,
+      model: readStringParam(item, "model") ?? defaults.model,
+      thinking: readStringParam(item, "thinking") ?? defaults.thinking,
+    };
+  });
+}
+
+function describeSubagentRoles(config: OpenClawConfig | undefined, sessionKey?: string): string {
+  if (!config) {
+    return "";
+  }
+  const roles = resolveSubagentRoles(config, resolveSessionAgentId({ sessionKey, config }));
+  const entries = Object.entries(roles).map(([name, role]) => {
+    const description = role.description?.replace(/\s+/g, " ").trim();
+    return description ? `${name} (${description})` : name;
+  });
+  if (entries.length === 0) {
+    return "";
+  }
+  return ` Set role to apply a configured subagent role (its prompt, tools, model and runtime limit): ${entries.join("; ")}.`;
+}
+
 export function createSessionsSpawnTool(opts?: {
   agentSessionKey?: string;
   agentChannel?: GatewayMessageChannel;
@@ -36,19 +109,22 @@ export function createSessionsSpawnTool(opts?: {
   sandboxed?: boolean;
   /** Explicit agent ID override for cron/hook sessions where session key parsing may not work. */
   requesterAgentIdOverride?: string;
+  config?: OpenClawConfig;
 }): AnyAgentTool {
   return {
     label: "Sessions",
     name: "sessions_spawn",
     description:
-      'Spawn an isolated session (runtime="subagent" or runtime="acp"). mode="run" is one-shot and mode="session" is persistent/thread-bound.',
+      SESSIONS_SPAWN_DESCRIPTION + describeSubagentRoles(opts?.config, opts?.agentSessionKey),
     parameters: SessionsSpawnToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
-      const task = readStringParam(params, "task", { required: true });
+      const isBatch = params.tasks !== undefined && params.tasks !== null;
+      const task = isBatch ? "" : readStringParam(params, "task", { required: true });
       const label = typeof params.label === "string" ? params.label.trim() : "";
       const runtime = params.runtime === "acp" ? "acp" : "subagent";
       const requestedAgentId = readStringParam(params, "agentId");
+      const role = readStringParam(params, "role");
       const modelOverride = readStringParam(params, "model");
       const thinkingOverrideRaw = readStringParam(params, "thinking");
       const cwd = readStringParam(params, "cwd");
@@ -68,6 +144,43 @@ export function createSessionsSpawnTool(opts?: {
           : undefined;
       const thread = params.thread === true;
 
+      if (isBatch) {
+        if (runtime === "acp" || thread) {
+          throw new ToolInputError('tasks only supports runtime="subagent" without thread binding');
+        }
+        const tasks = readBatchTasks(params.tasks, {
+          agentId: requestedAgentId,
+          role,
+          model: modelOverride,
+          thinking: thinkingOverrideRaw,
+        });
+        return jsonResult(
+          await spawnSubagentBatch(
+            {
+              tasks,
+              label: label || undefined,
+              maxConcurrent:
+                typeof params.maxConcurrent === "number" ? params.maxConcurrent : undefined,
+              deadlineSeconds:
+                typeof params.deadlineSeconds === "number" ? params.deadlineSeconds : undefined,
+              runTimeoutSeconds,
+              cleanup,
+            },
+            {
+              agentSessionKey: opts?.agentSessionKey,
+              agentChannel: opts?.agentChannel,
+              agentAccountId: opts?.agentAccountId,
+              agentTo: opts?.agentTo,
+              agentThreadId: opts?.agentThreadId,
+              agentGroupId: opts?.agentGroupId,
+              agentGroupChannel: opts?.agentGroupChannel,
+              agentGroupSpace: opts?.agentGroupSpace,
+              requesterAgentIdOverride: opts?.requesterAgentIdOverride,
+            },
+          ),
+        );
+      }
+
       const result =
         runtime === "acp"
           ? await spawnAcpDirect(
@@ -92,6 +205,7 @@ export function createSessionsSpawnTool(opts?: {
                 task,
                 label: label || undefined,
                 agentId: requestedAgentId,
+                role,
                 model: modelOverride,
                 thinking: thinkingOverrideRaw,
                 runTimeoutSeconds,
@@ -378,12 +378,15 @@ export function createSubagentsTool(opts?: { agentSessionKey?: string }): AnyAge
           const runtime = formatDurationCompact(runtimeMs);
           const label = truncateLine(resolveSubagentLabel(entry), 48);
           const task = truncateLine(entry.task.trim(), 72);
-          const line = `${index}. ${label} (${resolveModelDisplay(sessionEntry, entry.model)}, ${runtime}${usageText ? `, ${usageText}` : ""}) ${status}${task.toLowerCase() !== label.toLowerCase() ? ` - ${task}` : ""}`;
+          const roleText = entry.role ? `${entry.role}, ` : "";
+          const line = `${index}. ${label} (${roleText}${resolveModelDisplay(sessionEntry, entry.model)}, ${runtime}${usageText ? `, ${usageText}` : ""}) ${status}${task.toLowerCase() !== label.toLowerCase() ? ` - ${task}` : ""}`;
           const baseView = {
             index,
             runId: entry.runId,
             sessionKey: entry.childSessionKey,
             label,
+            role: entry.role,
+            batchId: entry.batchId,
             task,
             status,
             runtime,
@@ -3,6 +3,10 @@ import type { OpenClawConfig } from "../../config/config.js";
 import { SsrFBlockedError } from "../../infra/net/ssrf.js";
 import { logDebug } from "../../logger.js";
 import { wrapExternalContent, wrapWebContent } from "../../security/external-content.js";
+import {
+  screenExternalContent,
+  type ExternalContentScreening,
+} from "../../security/injection-classifier.js";
 import { normalizeSecretInput } from "../../utils/normalize-secret-input.js";
 import { stringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
@@ -247,6 +251,7 @@ const WEB_FETCH_WRAPPER_NO_WARNING_OVERHEAD = wrapExternalContent("", {
 function wrapWebFetchContent(
   value: string,
   maxChars: number,
+  riskNote?: string,
 ): {
   text: string;
   truncated: boolean;
@@ -272,19 +277,17 @@ function wrapWebFetchContent(
       wrappedLength: truncatedWrapper.text.length,
     };
   }
+  const wrap = (text: string) =>
+    wrapExternalContent(text, { source: "web_fetch", includeWarning, riskNote });
   const maxInner = Math.max(0, maxChars - wrapperOverhead);
   let truncated = truncateText(value, maxInner);
-  let wrappedText = includeWarning
-    ? wrapWebContent(truncated.text, "web_fetch")
-    : wrapExternalContent(truncated.text, { source: "web_fetch", includeWarning: false });
+  let wrappedText = wrap(truncated.text);
 
   if (wrappedText.length > maxChars) {
     const excess = wrappedText.length - maxChars;
     const adjustedMaxInner = Math.max(0, maxInner - excess);
     truncated = truncateText(value, adjustedMaxInner);
-    wrappedText = includeWarning
-      ? wrapWebContent(truncated.text, "web_fetch")
-      : wrapExternalContent(truncated.text, { source: "web_fetch", includeWarning: false });
+    wrappedText = wrap(truncated.text);
   }
 
   return {
@@ -295,6 +298,22 @@ function wrapWebFetchContent(
   };
 }
 
+async function screenWebFetchText(
+  text: string,
+  config: OpenClawConfig | undefined,
+): Promise<ExternalContentScreening | null> {
+  return await screenExternalContent({ content: text, source: "web_fetch", cfg: config });
+}
+
+function buildWebFetchExternalContentMeta(screening: ExternalContentScreening | null) {
+  return {
+    untrusted: true,
+    source: "web_fetch",
+    wrapped: true,
+    ...(screening ? { screening: screening.decision } : {}),
+  };
+}
+
 function wrapWebFetchField(value: string | undefined): string | undefined {
   if (!value) {
     return value;
@@ -310,8 +329,13 @@ function buildFirecrawlWebFetchPayload(params: {
   extractMode: ExtractMode;
   maxChars: number;
   tookMs: number;
+  screening: ExternalContentScreening | null;
 }): Record<string, unknown> {
-  const wrapped = wrapWebFetchContent(params.firecrawl.text, params.maxChars);
+  const wrapped = wrapWebFetchContent(
+    params.screening?.content ?? params.firecrawl.text,
+    params.maxChars,
+    params.screening?.riskNote,
+  );
   const wrappedTitle = params.firecrawl.title
     ? wrapWebFetchField(params.firecrawl.title)
     : undefined;
@@ -323,11 +347,7 @@ function buildFirecrawlWebFetchPayload(params: {
     title: wrappedTitle,
     extractMode: params.extractMode,
     extractor: "firecrawl",
-    externalContent: {
-      untrusted: true,
-      source: "web_fetch",
-      wrapped: true,
-    },
+    externalContent: buildWebFetchExternalContentMeta(params.screening),
     truncated: wrapped.truncated,
     length: wrapped.wrappedLength,
     rawLength: wrapped.rawLength, // Actual content length, not wrapped
@@ -446,6 +466,7 @@ type WebFetchRuntimeParams = FirecrawlRuntimeParams & {
   cacheTtlMs: number;
   userAgent: string;
   readabilityEnabled: boolean;
+  config?: OpenClawConfig;
 };
 
 function toFirecrawlContentParams(
@@ -488,6 +509,7 @@ async function maybeFetchFirecrawlWebFetchPayload(
   const firecrawl = await fetchFirecrawlContent(firecrawlParams);
   const payload = buildFirecrawlWebFetchPayload({
     firecrawl,
+    screening: await screenWebFetchText(firecrawl.text, params.config),
     rawUrl: params.url,
     finalUrlFallback: params.finalUrlFallback,
     statusFallback: params.statusFallback,
@@ -643,7 +665,12 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
       }
     }
 
-    const wrapped = wrapWebFetchContent(text, params.maxChars);
+    const screening = await screenWebFetchText(text, params.config);
+    const wrapped = wrapWebFetchContent(
+      screening?.content ?? text,
+      params.maxChars,
+      screening?.riskNote,
+    );
     const wrappedTitle = title ? wrapWebFetchField(title) : undefined;
     const wrappedWarning = wrapWebFetchField(responseTruncatedWarning);
     const payload = {
@@ -654,11 +681,7 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
       title: wrappedTitle,
       extractMode: params.extractMode,
       extractor,
-      externalContent: {
-        untrusted: true,
-        source: "web_fetch",
-        wrapped: true,
-      },
+      externalContent: buildWebFetchExternalContentMeta(screening),
       truncated: wrapped.truncated,
       length: wrapped.wrappedLength,
       rawLength: wrapped.rawLength, // Actual content length, not wrapped
@@ -766,6 +789,7 @@ export function createWebFetchTool(options?: {
         firecrawlProxy: "auto",
         firecrawlStoreInCache: true,
         firecrawlTimeoutSeconds,
+        config: options?.config,
       });
       return jsonResult(result);
     },
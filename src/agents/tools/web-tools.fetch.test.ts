@@ -171,15 +171,22 @@ describe("web_fetch extraction fallbacks", () => {
       length?: number;
       rawLength?: number;
       wrappedLength?: number;
-      externalContent?: { untrusted?: boolean; source?: string; wrapped?: boolean };
+      externalContent?: {
+        untrusted?: boolean;
+        source?: string;
+        wrapped?: boolean;
+        screening?: { action?: string };
+      };
     };
 
     expect(details.text).toMatch(/<<<EXTERNAL_UNTRUSTED_CONTENT id="[a-f0-9]{16}">>>/);
     expect(details.text).toContain("Ignore previous instructions");
+    expect(details.text).toContain("Injection risk: ");
     expect(details.externalContent).toMatchObject({
       untrusted: true,
       source: "web_fetch",
       wrapped: true,
+      screening: { source: "web_fetch", action: "annotate" },
     });
     // contentType is protocol metadata, not user content - should NOT be wrapped
     expect(details.contentType).toBe("text/plain");
@@ -248,7 +248,7 @@ function buildChatCommands(): ChatCommandDefinition[] {
           "• On – Enable TTS for responses\n" +
           "• Off – Disable TTS\n" +
           "• Status – Show current settings\n" +
-          "• Provider – Set voice provider (edge, elevenlabs, openai)\n" +
+          "• Provider – Set voice provider (edge, elevenlabs, openai, openai-compatible, piper)\n" +
           "• Limit – Set max characters for TTS\n" +
           "• Summary – Toggle AI summary for long texts\n" +
           "• Audio – Generate TTS from custom text\n" +
@@ -284,6 +284,26 @@ function buildChatCommands(): ChatCommandDefinition[] {
       ],
       argsMenu: "auto",
     }),
+    defineChatCommand({
+      key: "fork",
+      nativeName: "fork",
+      description: "Fork this session at a message, list forks, or switch between them.",
+      textAlias: "/fork",
+      category: "session",
+      args: [
+        {
+          name: "action",
+          description: "at | turns | list | switch, or a label for a new fork",
+          type: "string",
+        },
+        {
+          name: "value",
+          description: "Turn number, fork id/label, or main",
+          type: "string",
+          captureRemaining: true,
+        },
+      ],
+    }),
     defineChatCommand({
       key: "subagents",
       nativeName: "subagents",
@@ -479,9 +499,9 @@ function buildChatCommands(): ChatCommandDefinition[] {
       args: [
         {
           name: "mode",
-          description: "off, tokens, full, or cost",
+          description: "off, tokens, full, cost, or budget",
           type: "string",
-          choices: ["off", "tokens", "full", "cost"],
+          choices: ["off", "tokens", "full", "cost", "budget"],
         },
       ],
       argsMenu: "auto",
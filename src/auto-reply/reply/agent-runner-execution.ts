@@ -223,6 +223,11 @@ export async function runAgentTurnWithFallback(params: {
                   ownerNumbers: params.followupRun.run.ownerNumbers,
                   cliSessionId,
                   images: params.opts?.images,
+                  messageProvider: params.followupRun.run.messageProvider,
+                  agentAccountId: params.sessionCtx.AccountId,
+                  senderId: params.sessionCtx.SenderId?.trim() || undefined,
+                  chatType: params.sessionCtx.ChatType,
+                  usageBudgetNotices: !params.isHeartbeat,
                 });
 
                 // CLI backends don't emit streaming assistant events, so we need to
@@ -314,6 +319,7 @@ export async function runAgentTurnWithFallback(params: {
               return isMarkdownCapableMessageChannel(channel) ? "markdown" : "plain";
             })(),
             suppressToolErrorWarnings: params.opts?.suppressToolErrorWarnings,
+            usageBudgetNotices: !params.isHeartbeat,
             images: params.opts?.images,
             abortSignal: params.opts?.abortSignal,
             blockReplyBreak: params.resolvedBlockStreamingBreak,
@@ -202,6 +202,7 @@ export function buildEmbeddedContextFromTemplate(params: {
       provider: params.sessionCtx.Provider,
     }),
     agentAccountId: params.sessionCtx.AccountId,
+    chatType: params.sessionCtx.ChatType,
     messageTo: resolveOriginMessageTo({
       originatingTo: params.sessionCtx.OriginatingTo,
       to: params.sessionCtx.To,
@@ -1493,3 +1493,107 @@ describe("runReplyAgent transient HTTP retry", () => {
     expect(payload?.text).toContain("Recovered response");
   });
 });
+
+describe("runReplyAgent usage budgets", () => {
+  function createRun(opts: { isHeartbeat?: boolean } = {}) {
+    const typing = createMockTypingController();
+    const sessionCtx = {
+      Provider: "telegram",
+      AccountId: "default",
+      SenderId: "42",
+      ChatType: "direct",
+      MessageSid: "msg",
+    } as unknown as TemplateContext;
+    const resolvedQueue = { mode: "interrupt" } as unknown as QueueSettings;
+    const followupRun = {
+      prompt: "hello",
+      summaryLine: "hello",
+      enqueuedAt: Date.now(),
+      run: {
+        agentId: "main",
+        sessionId: "session",
+        sessionKey: "main",
+        messageProvider: "telegram",
+        senderId: "42",
+        sessionFile: "/tmp/session.jsonl",
+        workspaceDir: "/tmp",
+        config: {},
+        skillsSnapshot: {},
+        provider: "anthropic",
+        model: "claude",
+        thinkLevel: "low",
+        verboseLevel: "off",
+        elevatedLevel: "off",
+        bashElevated: {
+          enabled: false,
+          allowed: false,
+          defaultLevel: "off",
+        },
+        timeoutMs: 1_000,
+        blockReplyBreak: "message_end",
+      },
+    } as unknown as FollowupRun;
+
+    return runReplyAgent({
+      commandBody: "hello",
+      followupRun,
+      queueKey: "main",
+      resolvedQueue,
+      shouldSteer: false,
+      shouldFollowup: false,
+      isActive: false,
+      isStreaming: false,
+      opts,
+      typing,
+      sessionCtx,
+      defaultModel: "anthropic/claude",
+      resolvedVerboseLevel: "off",
+      isNewSession: false,
+      blockStreamingEnabled: false,
+      resolvedBlockStreamingBreak: "message_end",
+      shouldInjectGroupIntro: false,
+      typingMode: "instant",
+    });
+  }
+
+  it("asks the run for notices and prepends them to the reply", async () => {
+    runEmbeddedPiAgentMock.mockResolvedValueOnce({
+      payloads: [{ text: "answer" }],
+      meta: { usageBudgetNotices: ["⚠️ Usage budget warning: daily"] },
+    });
+
+    const result = await createRun();
+
+    expect(runEmbeddedPiAgentMock.mock.calls[0]?.[0]).toMatchObject({
+      chatType: "direct",
+      usageBudgetNotices: true,
+    });
+    const texts = (result as Array<{ text?: string }>).map((payload) => payload.text);
+    expect(texts).toEqual(["⚠️ Usage budget warning: daily", "answer"]);
+  });
+
+  it("replies with the budget stop message", async () => {
+    runEmbeddedPiAgentMock.mockResolvedValueOnce({
+      payloads: [{ text: "🛑 Usage budget reached" }],
+      meta: { durationMs: 0, stopReason: "usage_budget" },
+    });
+
+    const result = await createRun();
+
+    expect(result).toMatchObject({ text: "🛑 Usage budget reached" });
+  });
+
+  it("keeps heartbeats quiet when a budget stops them", async () => {
+    runEmbeddedPiAgentMock.mockResolvedValueOnce({
+      payloads: [{ text: "🛑 Usage budget reached" }],
+      meta: { durationMs: 0, stopReason: "usage_budget" },
+    });
+
+    const result = await createRun({ isHeartbeat: true });
+
+    expect(runEmbeddedPiAgentMock.mock.calls[0]?.[0]).toMatchObject({
+      usageBudgetNotices: false,
+    });
+    expect(result).toBeUndefined();
+  });
+});
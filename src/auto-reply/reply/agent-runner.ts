@@ -4,6 +4,7 @@ import { DEFAULT_CONTEXT_TOKENS } from "../../agents/defaults.js";
 import { resolveModelAuthMode } from "../../agents/model-auth.js";
 import { isCliProvider } from "../../agents/model-selection.js";
 import { queueEmbeddedPiMessage } from "../../agents/pi-embedded.js";
+import { USAGE_BUDGET_STOP_REASON } from "../../agents/run-usage-budgets.js";
 import { hasNonzeroUsage } from "../../agents/usage.js";
 import {
   resolveAgentIdFromSessionKey,
@@ -401,6 +402,15 @@ export async function runReplyAgent(params: {
     } = runOutcome;
     let { didLogHeartbeatStrip, autoCompactionCompleted } = runOutcome;
 
+    if (runResult.meta?.stopReason === USAGE_BUDGET_STOP_REASON) {
+      // Heartbeats stay quiet when a budget blocks them.
+      return finalizeWithFollowup(
+        isHeartbeat ? undefined : runResult.payloads?.[0],
+        queueKey,
+        runFollowupTurn,
+      );
+    }
+
     if (
       shouldInjectGroupIntro &&
       activeSessionEntry &&
@@ -705,6 +715,10 @@ export async function runReplyAgent(params: {
     if (verboseNotices.length > 0) {
       finalPayloads = [...verboseNotices, ...finalPayloads];
     }
+    const budgetNotices = runResult.meta?.usageBudgetNotices ?? [];
+    if (budgetNotices.length > 0) {
+      finalPayloads = [...budgetNotices.map((text) => ({ text })), ...finalPayloads];
+    }
     if (responseUsageLine) {
       finalPayloads = appendUsageLine(finalPayloads, responseUsageLine);
     }
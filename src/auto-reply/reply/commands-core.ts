@@ -10,6 +10,7 @@ import { handleApproveCommand } from "./commands-approve.js";
 import { handleBashCommand } from "./commands-bash.js";
 import { handleCompactCommand } from "./commands-compact.js";
 import { handleConfigCommand, handleDebugCommand } from "./commands-config.js";
+import { handleForkCommand } from "./commands-fork.js";
 import {
   handleCommandsListCommand,
   handleContextCommand,
@@ -140,6 +141,7 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleSendPolicyCommand,
       handleUsageCommand,
       handleSessionCommand,
+      handleForkCommand,
       handleRestartCommand,
       handleTtsCommands,
       handleHelpCommand,
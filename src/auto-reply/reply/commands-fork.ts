@@ -0,0 +1,159 @@
+import {
+  createSessionFork,
+  listSessionForks,
+  listSessionTurns,
+  loadSessionStore,
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  switchSessionFork,
+  type SessionForkSummary,
+} from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import type { CommandHandler, HandleCommandsParams } from "./commands-types.js";
+
+const FORK_COMMAND_PREFIX = "/fork";
+const FORK_TURNS_SHOWN = 20;
+
+function resolveForkCommandUsage() {
+  return [
+    "Usage:",
+    "/fork [label] — fork at the latest message and switch to the fork",
+    "/fork at <turn> [label] — fork after user turn <turn> (see /fork turns)",
+    "/fork turns — list the user turns in this session",
+    "/fork list — list forks of this session",
+    "/fork switch <id|label|main> — switch this conversation to a fork or back",
+  ].join("\n");
+}
+
+function formatForkId(key: string): string {
+  return key.slice(key.lastIndexOf(":") + 1);
+}
+
+function formatForkLine(fork: SessionForkSummary): string {
+  const label = fork.label ? ` "${fork.label}"` : "";
+  const active = fork.active ? " · active" : "";
+  return `• ${formatForkId(fork.key)}${label} · from turn ${fork.turn}${active}`;
+}
+
+function buildTurnsReply(params: HandleCommandsParams, storePath: string): string {
+  const entry =
+    params.sessionEntry ?? loadSessionStore(storePath, { skipCache: true })[params.sessionKey];
+  if (!entry?.sessionId) {
+    return "⚠️ No session transcript yet.";
+  }
+  const sessionFile = resolveSessionFilePath(
+    entry.sessionId,
+    entry,
+    resolveSessionFilePathOptions({ agentId: params.agentId, storePath }),
+  );
+  const turns = listSessionTurns(sessionFile);
+  if (turns.length === 0) {
+    return "ℹ️ No messages to fork yet.";
+  }
+  const shown = turns.slice(-FORK_TURNS_SHOWN);
+  const lines = shown.map((turn) => `${turn.turn}. ${turn.preview || "(no text)"}`);
+  if (shown.length < turns.length) {
+    lines.unshift(`… ${turns.length - shown.length} earlier turns`);
+  }
+  return ["🌿 Turns (fork with /fork at <turn>):", ...lines].join("\n");
+}
+
+export const handleForkCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (!/^\/fork(?:\s|$)/.test(normalized)) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /fork from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const storePath = params.storePath;
+  if (!storePath) {
+    return { shouldContinue: false, reply: { text: "⚠️ Session store unavailable." } };
+  }
+
+  const rest = normalized.slice(FORK_COMMAND_PREFIX.length).trim();
+  const [actionRaw = "", ...argTokens] = rest.split(/\s+/).filter(Boolean);
+  const action = actionRaw.toLowerCase();
+
+  if (action === "help") {
+    return { shouldContinue: false, reply: { text: resolveForkCommandUsage() } };
+  }
+  if (action === "turns") {
+    return { shouldContinue: false, reply: { text: buildTurnsReply(params, storePath) } };
+  }
+  if (action === "list") {
+    const { forks } = listSessionForks(
+      loadSessionStore(storePath, { skipCache: true }),
+      params.sessionKey,
+    );
+    const text =
+      forks.length === 0
+        ? "🌿 No forks yet. Use /fork to create one."
+        : ["🌿 Forks:", ...forks.map(formatForkLine), "Switch back with /fork switch main."].join(
+            "\n",
+          );
+    return { shouldContinue: false, reply: { text } };
+  }
+  if (action === "switch") {
+    const target = argTokens.join(" ");
+    if (!target) {
+      return { shouldContinue: false, reply: { text: resolveForkCommandUsage() } };
+    }
+    try {
+      const switched = await switchSessionFork({
+        storePath,
+        sessionKey: params.sessionKey,
+        target,
+      });
+      const text =
+        switched.activeKey === switched.rootKey
+          ? "🌿 Switched back to the original session."
+          : `🌿 Switched to fork ${formatForkId(switched.activeKey)}.`;
+      return { shouldContinue: false, reply: { text } };
+    } catch (err) {
+      return {
+        shouldContinue: false,
+        reply: { text: `⚠️ ${err instanceof Error ? err.message : String(err)}` },
+      };
+    }
+  }
+
+  let turn: number | undefined;
+  let label = rest;
+  if (action === "at") {
+    const [turnRaw = "", ...labelTokens] = argTokens;
+    turn = Number(turnRaw);
+    if (!/^\d+$/.test(turnRaw) || turn < 1) {
+      return { shouldContinue: false, reply: { text: resolveForkCommandUsage() } };
+    }
+    label = labelTokens.join(" ");
+  }
+  try {
+    const forked = await createSessionFork({
+      storePath,
+      sessionKey: params.sessionKey,
+      agentId: params.agentId,
+      turn,
+      label: label || undefined,
+      activate: true,
+    });
+    const labelText = forked.entry.label ? ` "${forked.entry.label}"` : "";
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `🌿 Forked after turn ${forked.entry.forkOf?.turn} as ${formatForkId(forked.key)}${labelText}. New messages go to the fork; /fork switch main returns to the original.`,
+      },
+    };
+  } catch (err) {
+    return {
+      shouldContinue: false,
+      reply: { text: `⚠️ ${err instanceof Error ? err.message : String(err)}` },
+    };
+  }
+};
@@ -13,6 +13,7 @@ import {
 import { logVerbose } from "../../globals.js";
 import { scheduleGatewaySigusr1Restart, triggerOpenClawRestart } from "../../infra/restart.js";
 import { loadCostUsageSummary, loadSessionCostSummary } from "../../infra/session-cost-usage.js";
+import { formatUsageBudgetStatus, loadUsageBudgetStatuses } from "../../infra/usage-budgets.js";
 import { formatTokenCount, formatUsd } from "../../utils/usage-format.js";
 import { parseActivationCommand } from "../group-activation.js";
 import { parseSendPolicyCommand } from "../send-policy.js";
@@ -205,10 +206,38 @@ export const handleUsageCommand: CommandHandler = async (params, allowTextComman
     };
   }
 
+  if (rawArgs.toLowerCase().startsWith("budget")) {
+    const statuses = await loadUsageBudgetStatuses({
+      cfg: params.cfg,
+      subject: {
+        agentId: params.agentId,
+        sessionKey: params.sessionKey,
+        senderId: params.command.senderId,
+        channel: params.command.channel,
+        accountId: params.ctx.AccountId,
+        chatType: params.ctx.ChatType,
+      },
+    });
+    if (statuses.length === 0) {
+      return {
+        shouldContinue: false,
+        reply: { text: "💰 Usage budgets: none apply here (session.budgets.rules)." },
+      };
+    }
+    const lines = statuses.map((status) => {
+      const icon = status.state === "exceeded" ? "🛑" : status.state === "warn" ? "⚠️" : "✅";
+      return `${icon} ${formatUsageBudgetStatus(status)}`;
+    });
+    return {
+      shouldContinue: false,
+      reply: { text: `💰 Usage budgets\n${lines.join("\n")}` },
+    };
+  }
+
   if (rawArgs && !requested) {
     return {
       shouldContinue: false,
-      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost" },
+      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost|budget" },
     };
   }
 
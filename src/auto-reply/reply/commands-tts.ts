@@ -6,6 +6,7 @@ import {
   isSummarizationEnabled,
   isTtsEnabled,
   isTtsProviderConfigured,
+  isTtsProviderId,
   resolveTtsApiKey,
   resolveTtsConfig,
   resolveTtsPrefsPath,
@@ -15,6 +16,7 @@ import {
   setTtsMaxLength,
   setTtsProvider,
   textToSpeech,
+  TTS_PROVIDERS,
 } from "../../tts/tts.js";
 import type { ReplyPayload } from "../types.js";
 import type { CommandHandler } from "./commands-types.js";
@@ -56,7 +58,9 @@ function ttsUsage(): ReplyPayload {
       `**Providers:**\n` +
       `• edge — Free, fast (default)\n` +
       `• openai — High quality (requires API key)\n` +
-      `• elevenlabs — Premium voices (requires API key)\n\n` +
+      `• elevenlabs — Premium voices (requires API key)\n` +
+      `• openai-compatible — Self-hosted speech server (requires base URL)\n` +
+      `• piper — Local Piper or other CLI (requires model)\n\n` +
       `**Text Limit (default: 1500, max: 4096):**\n` +
       `When text exceeds the limit:\n` +
       `• Summary ON: AI summarizes, then generates audio\n` +
@@ -162,6 +166,8 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
       const hasOpenAI = Boolean(resolveTtsApiKey(config, "openai"));
       const hasElevenLabs = Boolean(resolveTtsApiKey(config, "elevenlabs"));
       const hasEdge = isTtsProviderConfigured(config, "edge");
+      const hasCompatible = isTtsProviderConfigured(config, "openai-compatible");
+      const hasPiper = isTtsProviderConfigured(config, "piper");
       return {
         shouldContinue: false,
         reply: {
@@ -171,13 +177,15 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
             `OpenAI key: ${hasOpenAI ? "✅" : "❌"}\n` +
             `ElevenLabs key: ${hasElevenLabs ? "✅" : "❌"}\n` +
             `Edge enabled: ${hasEdge ? "✅" : "❌"}\n` +
-            `Usage: /tts provider openai | elevenlabs | edge`,
+            `OpenAI-compatible base URL: ${hasCompatible ? "✅" : "❌"}\n` +
+            `Piper configured: ${hasPiper ? "✅" : "❌"}\n` +
+            `Usage: /tts provider ${TTS_PROVIDERS.join(" | ")}`,
         },
       };
     }
 
     const requested = args.trim().toLowerCase();
-    if (requested !== "openai" && requested !== "elevenlabs" && requested !== "edge") {
+    if (!isTtsProviderId(requested)) {
       return { shouldContinue: false, reply: ttsUsage() };
     }
 
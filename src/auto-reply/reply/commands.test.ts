@@ -1406,6 +1406,54 @@ describe("handleCommands subagents", () => {
   });
 });
 
+describe("handleCommands /fork", () => {
+  it("forks the session, lists forks and switches back", async () => {
+    const storePath = path.join(testWorkspaceDir, "sessions-fork.json");
+    const sessionFile = path.join(testWorkspaceDir, "sess-fork-root.jsonl");
+    const lines = [
+      { type: "session", version: 3, id: "sess-fork-root", timestamp: "", cwd: testWorkspaceDir },
+      {
+        type: "message",
+        id: "u1",
+        parentId: null,
+        timestamp: "",
+        message: { role: "user", content: "plan the trip", timestamp: 1 },
+      },
+      {
+        type: "message",
+        id: "a1",
+        parentId: "u1",
+        timestamp: "",
+        message: { role: "assistant", content: [{ type: "text", text: "ok" }], timestamp: 2 },
+      },
+    ];
+    await fs.writeFile(sessionFile, `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`);
+    await updateSessionStore(storePath, (store) => {
+      store["agent:main:main"] = { sessionId: "sess-fork-root", sessionFile, updatedAt: 1 };
+    });
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+      session: { store: storePath },
+    } as OpenClawConfig;
+    const run = async (body: string, sessionKey = "agent:main:main") => {
+      const params = buildParams(body, cfg);
+      params.storePath = storePath;
+      params.sessionKey = sessionKey;
+      return (await handleCommands(params)).reply?.text ?? "";
+    };
+
+    const forked = await run("/fork at 1 beach");
+    expect(forked).toMatch(/Forked after turn 1 as [0-9a-f]{6} "beach"/);
+    const forkKey = `agent:main:main:fork:${forked.match(/as ([0-9a-f]{6})/)?.[1]}`;
+
+    expect(await run("/fork turns")).toContain("1. plan the trip");
+    expect(await run("/fork list", forkKey)).toContain('"beach" · from turn 1 · active');
+    expect(await run("/fork switch main", forkKey)).toContain("Switched back");
+    expect(await run("/fork at 5")).toContain("turn must be between 1 and 1");
+  });
+});
+
 describe("handleCommands /tts", () => {
   it("returns status for bare /tts on text command surfaces", async () => {
     const cfg = {
@@ -286,6 +286,51 @@ describe("dispatchReplyFromConfig", () => {
     );
   });
 
+  it("renders reply choices and resolves the next pick for the session", async () => {
+    setNoAbort();
+    const cfg = emptyConfig;
+    const dispatcher = createDispatcher();
+    const ctx = buildTestCtx({
+      Provider: "slack",
+      Surface: "slack",
+      SessionKey: "agent:main:choices",
+      MessageSid: "choices-1",
+    });
+    const replyResolver = vi.fn(
+      async (_ctx: MsgContext, _opts?: GetReplyOptions, _cfg?: OpenClawConfig) =>
+        ({ text: "Deploy? [[choices: Yes | No]]" }) satisfies ReplyPayload,
+    );
+    await dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyResolver });
+
+    expect(dispatcher.sendFinalReply).toHaveBeenCalledWith({ text: "Deploy?\n\n1. Yes\n2. No" });
+
+    const pickCtx = buildTestCtx({
+      Provider: "slack",
+      Surface: "slack",
+      SessionKey: "agent:main:choices",
+      MessageSid: "choices-2",
+      Body: "oc_choice:2:No",
+      RawBody: "oc_choice:2:No",
+      CommandBody: "oc_choice:2:No",
+      BodyForCommands: "oc_choice:2:No",
+    });
+    await dispatchReplyFromConfig({
+      ctx: pickCtx,
+      cfg,
+      dispatcher: createDispatcher(),
+      replyResolver,
+    });
+
+    const resolvedCtx = replyResolver.mock.calls[1]?.[0];
+    expect(resolvedCtx?.ChoiceSelection).toEqual({
+      index: 2,
+      label: "No",
+      value: "No",
+      source: "button",
+    });
+    expect(resolvedCtx?.BodyForCommands).toBe("Selected option 2: No");
+  });
+
   it("forces suppressTyping when routing to a different originating channel", async () => {
     setNoAbort();
     const cfg = emptyConfig;
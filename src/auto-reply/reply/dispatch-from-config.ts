@@ -4,6 +4,7 @@ import { loadSessionStore, resolveStorePath, type SessionEntry } from "../../con
 import { logVerbose } from "../../globals.js";
 import { createInternalHookEvent, triggerInternalHook } from "../../hooks/internal-hooks.js";
 import { isDiagnosticsEnabled } from "../../infra/diagnostic-events.js";
+import { renderReplyChoicesForChannel } from "../../infra/outbound/reply-choices.js";
 import {
   logMessageProcessed,
   logMessageQueued,
@@ -19,6 +20,12 @@ import type { GetReplyOptions, ReplyPayload } from "../types.js";
 import { formatAbortReplyText, tryFastAbortFromMessage } from "./abort.js";
 import { shouldBypassAcpDispatchForCommand, tryDispatchAcpReply } from "./dispatch-acp.js";
 import { shouldSkipDuplicateInbound } from "./inbound-dedupe.js";
+import {
+  formatReplyChoiceSelectionText,
+  parseReplyChoicesDirective,
+  recordReplyChoices,
+  resolveReplyChoiceSelection,
+} from "./reply-choices.js";
 import type { ReplyDispatcher, ReplyDispatchKind } from "./reply-dispatcher.js";
 import { shouldSuppressReasoningPayload } from "./reply-payloads.js";
 import { isRoutableChannel, routeReply } from "./route-reply.js";
@@ -91,6 +98,34 @@ export type DispatchFromConfigResult = {
   counts: Record<ReplyDispatchKind, number>;
 };
 
+/**
+ * Resolve a pick from the choices last offered in this session (button callback, typed number,
+ * or typed label). Button callbacks carry opaque data, so their body is rewritten to a readable
+ * selection for the agent and transcript.
+ */
+function applyReplyChoiceSelection(ctx: FinalizedMsgContext) {
+  const rawText = [ctx.BodyForCommands, ctx.CommandBody, ctx.RawBody, ctx.Body].find(
+    (value): value is string => typeof value === "string",
+  );
+  const selection = resolveReplyChoiceSelection({ sessionKey: ctx.SessionKey, text: rawText });
+  if (!selection) {
+    return;
+  }
+  ctx.ChoiceSelection = selection;
+  const raw = rawText?.trim();
+  if (selection.source !== "button" || !raw) {
+    return;
+  }
+  const selectionText = formatReplyChoiceSelectionText(selection);
+  const rewrite = (value: string | undefined) =>
+    typeof value === "string" ? value.replace(raw, selectionText) : value;
+  ctx.Body = rewrite(ctx.Body);
+  ctx.RawBody = rewrite(ctx.RawBody);
+  ctx.CommandBody = rewrite(ctx.CommandBody);
+  ctx.BodyForAgent = rewrite(ctx.BodyForAgent);
+  ctx.BodyForCommands = rewrite(ctx.BodyForCommands) ?? selectionText;
+}
+
 export async function dispatchReplyFromConfig(params: {
   ctx: FinalizedMsgContext;
   cfg: OpenClawConfig;
@@ -157,6 +192,8 @@ export async function dispatchReplyFromConfig(params: {
     return { queuedFinal: false, counts: dispatcher.getQueuedCounts() };
   }
 
+  applyReplyChoiceSelection(ctx);
+
   const sessionStoreEntry = resolveSessionStoreEntry(ctx, cfg);
   const inboundAudio = isInboundAudioContext(ctx);
   const sessionTtsAuto = normalizeTtsAutoMode(sessionStoreEntry.entry?.ttsAuto);
@@ -259,6 +296,24 @@ export async function dispatchReplyFromConfig(params: {
     shouldRouteToOriginating || originatingChannel === INTERNAL_MESSAGE_CHANNEL;
   const ttsChannel = shouldRouteToOriginating ? originatingChannel : currentSurface;
 
+  /**
+   * Render reply choices for the current surface before handing payloads to the dispatcher.
+   * Routed replies render theirs in outbound delivery instead.
+   */
+  const prepareReplyChoices = async (payload: ReplyPayload): Promise<ReplyPayload> => {
+    const parsed = parseReplyChoicesDirective(payload);
+    if (!parsed.choices) {
+      return parsed;
+    }
+    recordReplyChoices(sessionKey, parsed.choices);
+    return await renderReplyChoicesForChannel({
+      cfg,
+      channel: currentSurface,
+      accountId: ctx.AccountId,
+      payload: parsed,
+    });
+  };
+
   /**
    * Helper to send a payload via route-reply (async).
    * Only used when actually routing to a different provider.
@@ -458,7 +513,7 @@ export async function dispatchReplyFromConfig(params: {
             if (shouldRouteToOriginating) {
               await sendPayloadAsync(ttsPayload, context?.abortSignal, false);
             } else {
-              dispatcher.sendBlockReply(ttsPayload);
+              dispatcher.sendBlockReply(await prepareReplyChoices(ttsPayload));
             }
           };
           return run();
@@ -506,7 +561,7 @@ export async function dispatchReplyFromConfig(params: {
           routedFinalCount += 1;
         }
       } else {
-        queuedFinal = dispatcher.sendFinalReply(ttsReply) || queuedFinal;
+        queuedFinal = dispatcher.sendFinalReply(await prepareReplyChoices(ttsReply)) || queuedFinal;
       }
     }
 
@@ -169,6 +169,7 @@ export function createFollowupRunner(params: {
               senderUsername: queued.run.senderUsername,
               senderE164: queued.run.senderE164,
               senderIsOwner: queued.run.senderIsOwner,
+              chatType: queued.originatingChatType,
               sessionFile: queued.run.sessionFile,
               agentDir: queued.run.agentDir,
               workspaceDir: queued.run.workspaceDir,
@@ -185,6 +186,7 @@ export function createFollowupRunner(params: {
               verboseLevel: queued.run.verboseLevel,
               reasoningLevel: queued.run.reasoningLevel,
               suppressToolErrorWarnings: opts?.suppressToolErrorWarnings,
+              usageBudgetNotices: opts?.isHeartbeat !== true,
               execOverrides: queued.run.execOverrides,
               bashElevated: queued.run.bashElevated,
               timeoutMs: queued.run.timeoutMs,
@@ -312,6 +314,9 @@ export function createFollowupRunner(params: {
         }
       }
 
+      finalPayloads.unshift(
+        ...(runResult.meta?.usageBudgetNotices ?? []).map((text) => ({ text })),
+      );
       await sendFollowupPayloads(finalPayloads, queued);
     } finally {
       // Both signals are required for the typing controller to clean up.
@@ -204,6 +204,26 @@ export function buildInboundUserContextPrefix(ctx: TemplateContext): string {
     );
   }
 
+  if (ctx.ChoiceSelection) {
+    blocks.push(
+      [
+        "Choice selection (untrusted metadata):",
+        "```json",
+        JSON.stringify(
+          {
+            index: ctx.ChoiceSelection.index,
+            label: ctx.ChoiceSelection.label,
+            value: ctx.ChoiceSelection.value,
+            source: ctx.ChoiceSelection.source,
+          },
+          null,
+          2,
+        ),
+        "```",
+      ].join("\n"),
+    );
+  }
+
   if (Array.isArray(ctx.InboundHistory) && ctx.InboundHistory.length > 0) {
     blocks.push(
       [
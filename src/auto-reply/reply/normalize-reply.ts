@@ -3,6 +3,7 @@ import { stripHeartbeatToken } from "../heartbeat.js";
 import { HEARTBEAT_TOKEN, isSilentReplyText, SILENT_REPLY_TOKEN } from "../tokens.js";
 import type { ReplyPayload } from "../types.js";
 import { hasLineDirectives, parseLineDirectives } from "./line-directives.js";
+import { hasReplyChoicesDirective, parseReplyChoicesDirective } from "./reply-choices.js";
 import {
   resolveResponsePrefixTemplate,
   type ResponsePrefixContext,
@@ -26,7 +27,8 @@ export function normalizeReplyPayload(
 ): ReplyPayload | null {
   const hasMedia = Boolean(payload.mediaUrl || (payload.mediaUrls?.length ?? 0) > 0);
   const hasChannelData = Boolean(
-    payload.channelData && Object.keys(payload.channelData).length > 0,
+    (payload.channelData && Object.keys(payload.channelData).length > 0) ||
+    (payload.choices?.length ?? 0) > 0,
   );
   const trimmed = payload.text?.trim() ?? "";
   if (!trimmed && !hasMedia && !hasChannelData) {
@@ -71,6 +73,10 @@ export function normalizeReplyPayload(
 
   // Parse LINE-specific directives from text (quick_replies, location, confirm, buttons)
   let enrichedPayload: ReplyPayload = { ...payload, text };
+  if (text && hasReplyChoicesDirective(text)) {
+    enrichedPayload = parseReplyChoicesDirective(enrichedPayload);
+    text = enrichedPayload.text;
+  }
   if (text && hasLineDirectives(text)) {
     enrichedPayload = parseLineDirectives(enrichedPayload);
     text = enrichedPayload.text;
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  __testing,
+  buildReplyChoiceCallbackData,
+  parseReplyChoicesDirective,
+  recordReplyChoices,
+  renderReplyChoicesAsText,
+  resolveReplyChoiceSelection,
+} from "./reply-choices.js";
+
+describe("reply choices", () => {
+  beforeEach(() => {
+    __testing.pendingChoicesBySession.clear();
+  });
+
+  it("moves the choices directive into payload.choices", () => {
+    expect(
+      parseReplyChoicesDirective({ text: "Deploy now? [[choices: Yes | No | yes ]]" }),
+    ).toEqual({ text: "Deploy now?", choices: [{ label: "Yes" }, { label: "No" }] });
+    expect(parseReplyChoicesDirective({ text: "[[choices: red, green]]" }).choices).toEqual([
+      { label: "red" },
+      { label: "green" },
+    ]);
+    expect(parseReplyChoicesDirective({ text: "no directive" })).toEqual({ text: "no directive" });
+  });
+
+  it("falls back to a numbered list", () => {
+    expect(
+      renderReplyChoicesAsText({ text: "Pick one:", choices: [{ label: "A" }, { label: "B" }] }),
+    ).toEqual({ text: "Pick one:\n\n1. A\n2. B" });
+  });
+
+  it("keeps callback data within 64 bytes", () => {
+    const data = buildReplyChoiceCallbackData(2, "é".repeat(60));
+    expect(data.startsWith("oc_choice:3:")).toBe(true);
+    expect(Buffer.byteLength(data, "utf8")).toBeLessThanOrEqual(64);
+  });
+
+  it("resolves typed numbers and labels against the pending choices once", () => {
+    recordReplyChoices("agent:main:main", [{ label: "Yes", value: "approve" }, { label: "No" }]);
+
+    expect(resolveReplyChoiceSelection({ sessionKey: "agent:main:other", text: "1" })).toBe(
+      undefined,
+    );
+    expect(resolveReplyChoiceSelection({ sessionKey: "agent:main:main", text: "no" })).toEqual({
+      index: 2,
+      label: "No",
+      value: "No",
+      source: "text",
+    });
+    expect(resolveReplyChoiceSelection({ sessionKey: "agent:main:main", text: "1" })).toBe(
+      undefined,
+    );
+
+    recordReplyChoices("agent:main:main", [{ label: "Yes", value: "approve" }, { label: "No" }]);
+    expect(
+      resolveReplyChoiceSelection({ sessionKey: "agent:main:main", text: "1." }),
+    ).toMatchObject({ index: 1, value: "approve" });
+  });
+
+  it("resolves button callbacks with or without pending choices", () => {
+    recordReplyChoices("agent:main:main", [{ label: "Yes", value: "approve" }]);
+    expect(
+      resolveReplyChoiceSelection({ sessionKey: "agent:main:main", text: "oc_choice:1:Yes" }),
+    ).toEqual({ index: 1, label: "Yes", value: "approve", source: "button" });
+    expect(
+      resolveReplyChoiceSelection({ sessionKey: "agent:main:main", text: "oc_choice:2:Later" }),
+    ).toEqual({ index: 2, label: "Later", value: "Later", source: "button" });
+  });
+});
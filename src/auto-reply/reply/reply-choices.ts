@@ -0,0 +1,205 @@
+import type { ReplyChoice, ReplyPayload } from "../types.js";
+
+/**
+ * Channel-agnostic reply choices.
+ *
+ * Agents offer choices with `[[choices: Yes | No | Later]]` (or `ReplyPayload.choices`). Channels
+ * render them natively (buttons, keyboards, quick replies) or as a numbered list, and the user's
+ * pick (button callback, typed number, or typed label) is resolved back into a structured
+ * selection for the same session.
+ */
+
+export const REPLY_CHOICES_MAX = 10;
+export const REPLY_CHOICE_LABEL_MAX_CHARS = 80;
+/** Prefix for button callback data (Telegram limits callback_data to 64 bytes). */
+export const REPLY_CHOICE_CALLBACK_PREFIX = "oc_choice:";
+const REPLY_CHOICE_CALLBACK_MAX_BYTES = 64;
+// Pending choices older than this no longer capture typed numbers.
+const PENDING_CHOICES_TTL_MS = 24 * 60 * 60_000;
+const PENDING_CHOICES_MAX_SESSIONS = 500;
+
+const CHOICES_DIRECTIVE_RE = /\[\[\s*choices\s*:\s*([^\]]*)\]\]/i;
+
+export type ReplyChoiceSelection = {
+  /** 1-based position of the picked choice. */
+  index: number;
+  label: string;
+  value: string;
+  source: "button" | "text";
+};
+
+type PendingReplyChoices = {
+  choices: ReplyChoice[];
+  recordedAt: number;
+};
+
+const pendingChoicesBySession = new Map<string, PendingReplyChoices>();
+
+export function normalizeReplyChoices(choices: ReplyPayload["choices"]): ReplyChoice[] {
+  if (!Array.isArray(choices)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const normalized: ReplyChoice[] = [];
+  for (const choice of choices) {
+    const label = choice?.label?.trim().slice(0, REPLY_CHOICE_LABEL_MAX_CHARS);
+    if (!label || seen.has(label.toLowerCase())) {
+      continue;
+    }
+    seen.add(label.toLowerCase());
+    const value = choice.value?.trim();
+    normalized.push(value && value !== label ? { label, value } : { label });
+    if (normalized.length >= REPLY_CHOICES_MAX) {
+      break;
+    }
+  }
+  return normalized;
+}
+
+export function hasReplyChoicesDirective(text: string | undefined): boolean {
+  return Boolean(text && CHOICES_DIRECTIVE_RE.test(text));
+}
+
+/**
+ * Move a `[[choices: A | B | C]]` directive from the text into `payload.choices`.
+ * Options are split on `|` (or `,` when no `|` is present).
+ */
+export function parseReplyChoicesDirective(payload: ReplyPayload): ReplyPayload {
+  const text = payload.text;
+  const match = text?.match(CHOICES_DIRECTIVE_RE);
+  if (!text || !match) {
+    return payload;
+  }
+  const raw = match[1] ?? "";
+  const labels = raw.split(raw.includes("|") ? "|" : ",");
+  const choices = normalizeReplyChoices([
+    ...(payload.choices ?? []),
+    ...labels.map((label) => ({ label })),
+  ]);
+  const stripped = text.replace(match[0], "").trim();
+  return { ...payload, text: stripped, choices: choices.length > 0 ? choices : undefined };
+}
+
+export function formatReplyChoicesText(choices: ReplyChoice[]): string {
+  return choices.map((choice, index) => `${index + 1}. ${choice.label}`).join("\n");
+}
+
+/** Fallback rendering: append the choices to the text as a numbered list. */
+export function renderReplyChoicesAsText(payload: ReplyPayload): ReplyPayload {
+  const choices = normalizeReplyChoices(payload.choices);
+  const { choices: _choices, ...rest } = payload;
+  if (choices.length === 0) {
+    return rest;
+  }
+  const list = formatReplyChoicesText(choices);
+  const text = payload.text?.trim();
+  return { ...rest, text: text ? `${text}\n\n${list}` : list };
+}
+
+/** Callback data for a choice button: `oc_choice:<n>:<label>`, truncated to fit 64 bytes. */
+export function buildReplyChoiceCallbackData(index: number, label: string): string {
+  const prefix = `${REPLY_CHOICE_CALLBACK_PREFIX}${index + 1}:`;
+  let suffix = label;
+  while (Buffer.byteLength(prefix + suffix, "utf8") > REPLY_CHOICE_CALLBACK_MAX_BYTES) {
+    suffix = Array.from(suffix).slice(0, -1).join("");
+  }
+  return prefix + suffix;
+}
+
+function parseReplyChoiceCallbackData(text: string): { index: number; label: string } | undefined {
+  if (!text.startsWith(REPLY_CHOICE_CALLBACK_PREFIX)) {
+    return undefined;
+  }
+  const match = text.slice(REPLY_CHOICE_CALLBACK_PREFIX.length).match(/^(\d+):([\s\S]*)$/);
+  const index = match ? Number.parseInt(match[1] ?? "", 10) : NaN;
+  if (!match || !Number.isFinite(index) || index < 1) {
+    return undefined;
+  }
+  return { index, label: match[2] ?? "" };
+}
+
+function prunePendingReplyChoices(now: number) {
+  for (const [sessionKey, entry] of pendingChoicesBySession) {
+    if (now - entry.recordedAt > PENDING_CHOICES_TTL_MS) {
+      pendingChoicesBySession.delete(sessionKey);
+    }
+  }
+  while (pendingChoicesBySession.size > PENDING_CHOICES_MAX_SESSIONS) {
+    const oldest = pendingChoicesBySession.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    pendingChoicesBySession.delete(oldest);
+  }
+}
+
+/** Remember the choices last offered in a session so the next inbound message can pick one. */
+export function recordReplyChoices(sessionKey: string | undefined, choices: ReplyChoice[]) {
+  const key = sessionKey?.trim();
+  const normalized = normalizeReplyChoices(choices);
+  if (!key || normalized.length === 0) {
+    return;
+  }
+  const now = Date.now();
+  pendingChoicesBySession.delete(key);
+  pendingChoicesBySession.set(key, { choices: normalized, recordedAt: now });
+  prunePendingReplyChoices(now);
+}
+
+/**
+ * Resolve an inbound message against the choices last offered in the session.
+ * Button callbacks always resolve (even for older messages); typed numbers and labels only
+ * match the pending set, which is consumed on a match.
+ */
+export function resolveReplyChoiceSelection(params: {
+  sessionKey?: string;
+  text?: string;
+}): ReplyChoiceSelection | undefined {
+  const text = params.text?.trim();
+  if (!text) {
+    return undefined;
+  }
+  const key = params.sessionKey?.trim();
+  const pending = key ? pendingChoicesBySession.get(key) : undefined;
+  const active =
+    pending && Date.now() - pending.recordedAt <= PENDING_CHOICES_TTL_MS ? pending : undefined;
+  const consume = () => {
+    if (key && active) {
+      pendingChoicesBySession.delete(key);
+    }
+  };
+
+  const callback = parseReplyChoiceCallbackData(text);
+  if (callback) {
+    const candidate = active?.choices[callback.index - 1];
+    // Labels in callback data may be truncated; only trust the pending entry if it still matches.
+    const matched = candidate && candidate.label.startsWith(callback.label) ? candidate : undefined;
+    if (matched) {
+      consume();
+    }
+    const label = matched?.label ?? callback.label;
+    return { index: callback.index, label, value: matched?.value ?? label, source: "button" };
+  }
+
+  if (!active) {
+    return undefined;
+  }
+  const numberMatch = text.match(/^(\d{1,2})[.)]?$/);
+  const index = numberMatch
+    ? Number.parseInt(numberMatch[1] ?? "", 10)
+    : active.choices.findIndex((choice) => choice.label.toLowerCase() === text.toLowerCase()) + 1;
+  const choice = index >= 1 ? active.choices[index - 1] : undefined;
+  if (!choice) {
+    return undefined;
+  }
+  consume();
+  return { index, label: choice.label, value: choice.value ?? choice.label, source: "text" };
+}
+
+export function formatReplyChoiceSelectionText(selection: ReplyChoiceSelection): string {
+  return `Selected option ${selection.index}: ${selection.label}`;
+}
+
+export const __testing = {
+  pendingChoicesBySession,
+};
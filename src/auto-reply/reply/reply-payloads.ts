@@ -64,7 +64,8 @@ export function isRenderablePayload(payload: ReplyPayload): boolean {
     payload.mediaUrl ||
     (payload.mediaUrls && payload.mediaUrls.length > 0) ||
     payload.audioAsVoice ||
-    payload.channelData,
+    payload.channelData ||
+    (payload.choices && payload.choices.length > 0),
   );
 }
 
@@ -11,6 +11,7 @@ import {
   evaluateSessionFreshness,
   type GroupKeyResolution,
   loadSessionStore,
+  resolveActiveSessionForkKey,
   resolveAndPersistSessionFile,
   resolveChannelResetConfig,
   resolveThreadFlag,
@@ -273,6 +274,8 @@ export async function initSessionState(params: {
   }
 
   sessionKey = resolveSessionKey(sessionScope, sessionCtxForState, mainKey);
+  // After `/fork switch`, the original key keeps routing to the selected fork.
+  sessionKey = resolveActiveSessionForkKey(sessionStore, sessionKey);
   const entry = sessionStore[sessionKey];
   const previousSessionEntry = resetTriggered && entry ? { ...entry } : undefined;
   const now = Date.now();
@@ -66,6 +66,13 @@ export type GetReplyOptions = {
   timeoutOverrideSeconds?: number;
 };
 
+/** One selectable option offered with a reply (rendered as buttons, quick replies or a numbered list). */
+export type ReplyChoice = {
+  label: string;
+  /** Optional machine value reported back with the selection (defaults to the label). */
+  value?: string;
+};
+
 export type ReplyPayload = {
   text?: string;
   mediaUrl?: string;
@@ -82,4 +89,6 @@ export type ReplyPayload = {
   isReasoning?: boolean;
   /** Channel-specific payload data (per-channel envelope). */
   channelData?: Record<string, unknown>;
+  /** Interactive choices; channels render them natively or as a numbered text list. */
+  choices?: ReplyChoice[];
 };
@@ -0,0 +1,100 @@
+import type { BrowserActionTargetOk } from "./client-actions-types.js";
+import { buildProfileQuery, withBaseUrl } from "./client-actions-url.js";
+import { fetchBrowserJson } from "./client-fetch.js";
+import { BROWSER_MACRO_RUN_TIMEOUT_MS, type BrowserMacro } from "./macros.js";
+import type { BrowserMacroReplayResult } from "./pw-tools-core.macros.js";
+
+export type BrowserMacroSummary = Omit<BrowserMacro, "steps"> & { stepCount: number };
+
+export type BrowserMacroCheckpoint = {
+  text?: string;
+  textGone?: string;
+  url?: string;
+  selector?: string;
+};
+
+async function postMacro<T>(
+  baseUrl: string | undefined,
+  path: string,
+  profile: string | undefined,
+  body: Record<string, unknown>,
+  timeoutMs = 20000,
+): Promise<T> {
+  const q = buildProfileQuery(profile);
+  return await fetchBrowserJson<T>(withBaseUrl(baseUrl, `/macros${path}${q}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    timeoutMs,
+  });
+}
+
+export async function browserMacros(
+  baseUrl: string | undefined,
+  opts: { profile?: string } = {},
+): Promise<{
+  ok: true;
+  profile: string;
+  macros: BrowserMacroSummary[];
+  recording?: { name: string; targetId: string; startedAt: string; stepCount: number };
+}> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson(withBaseUrl(baseUrl, `/macros${q}`), { timeoutMs: 20000 });
+}
+
+export async function browserMacroRecordStart(
+  baseUrl: string | undefined,
+  opts: { name: string; targetId?: string; profile?: string },
+): Promise<BrowserActionTargetOk & { name: string; startedAt: string }> {
+  return await postMacro(baseUrl, "/record/start", opts.profile, {
+    name: opts.name,
+    targetId: opts.targetId,
+  });
+}
+
+export async function browserMacroCheckpoint(
+  baseUrl: string | undefined,
+  opts: BrowserMacroCheckpoint & { targetId?: string; profile?: string },
+): Promise<BrowserActionTargetOk & { stepCount: number }> {
+  const { profile, ...body } = opts;
+  return await postMacro(baseUrl, "/record/checkpoint", profile, body);
+}
+
+export async function browserMacroRecordStop(
+  baseUrl: string | undefined,
+  opts: {
+    description?: string;
+    params?: Record<string, string>;
+    discard?: boolean;
+    profile?: string;
+  } = {},
+): Promise<{ ok: true; profile?: string; macro?: BrowserMacro; discarded?: boolean }> {
+  const { profile, ...body } = opts;
+  return await postMacro(baseUrl, "/record/stop", profile, body);
+}
+
+export async function browserMacroRun(
+  baseUrl: string | undefined,
+  opts: {
+    name: string;
+    params?: Record<string, string>;
+    targetId?: string;
+    stepTimeoutMs?: number;
+    profile?: string;
+  },
+): Promise<BrowserActionTargetOk & BrowserMacroReplayResult & { name: string }> {
+  const { profile, ...body } = opts;
+  // Replays chain many steps; allow well past a single act timeout.
+  return await postMacro(baseUrl, "/run", profile, body, BROWSER_MACRO_RUN_TIMEOUT_MS);
+}
+
+export async function browserMacroDelete(
+  baseUrl: string | undefined,
+  opts: { name: string; profile?: string },
+): Promise<{ ok: true; deleted: boolean; name: string }> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson(
+    withBaseUrl(baseUrl, `/macros/${encodeURIComponent(opts.name)}${q}`),
+    { method: "DELETE", timeoutMs: 20000 },
+  );
+}
@@ -0,0 +1,113 @@
+import type { BrowserActionTargetOk } from "./client-actions-types.js";
+import { buildProfileQuery, withBaseUrl } from "./client-actions-url.js";
+import { fetchBrowserJson } from "./client-fetch.js";
+import type { BrowserNetworkMock, BrowserNetworkRoute } from "./pw-session.js";
+import type { BrowserNetworkEntrySummary } from "./pw-tools-core.network.js";
+
+export type BrowserNetworkResponseBody = {
+  id: string;
+  url: string;
+  status?: number;
+  mimeType?: string;
+  encoding: "utf8" | "base64";
+  body: string;
+  truncated?: boolean;
+};
+
+async function postNetwork<T>(
+  baseUrl: string | undefined,
+  path: string,
+  profile: string | undefined,
+  body: Record<string, unknown>,
+): Promise<T> {
+  const q = buildProfileQuery(profile);
+  return await fetchBrowserJson<T>(withBaseUrl(baseUrl, `/network/${path}${q}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserNetworkStart(
+  baseUrl: string | undefined,
+  opts: { targetId?: string; profile?: string } = {},
+): Promise<BrowserActionTargetOk & { startedAt: string }> {
+  return await postNetwork(baseUrl, "start", opts.profile, { targetId: opts.targetId });
+}
+
+export async function browserNetworkStop(
+  baseUrl: string | undefined,
+  opts: { targetId?: string; profile?: string } = {},
+): Promise<BrowserActionTargetOk & { startedAt: string; entries: number }> {
+  return await postNetwork(baseUrl, "stop", opts.profile, { targetId: opts.targetId });
+}
+
+export async function browserNetworkRequests(
+  baseUrl: string | undefined,
+  opts: { targetId?: string; filter?: string; limit?: number; profile?: string } = {},
+): Promise<
+  BrowserActionTargetOk & {
+    active: boolean;
+    startedAt: string;
+    requests: BrowserNetworkEntrySummary[];
+  }
+> {
+  const query = new URLSearchParams();
+  if (opts.targetId) {
+    query.set("targetId", opts.targetId);
+  }
+  if (opts.filter) {
+    query.set("filter", opts.filter);
+  }
+  if (typeof opts.limit === "number") {
+    query.set("limit", String(opts.limit));
+  }
+  if (opts.profile) {
+    query.set("profile", opts.profile);
+  }
+  const suffix = query.size > 0 ? `?${query.toString()}` : "";
+  return await fetchBrowserJson(withBaseUrl(baseUrl, `/network/requests${suffix}`), {
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserNetworkBody(
+  baseUrl: string | undefined,
+  opts: { requestId: string; maxChars?: number; targetId?: string; profile?: string },
+): Promise<BrowserActionTargetOk & { response: BrowserNetworkResponseBody }> {
+  return await postNetwork(baseUrl, "body", opts.profile, {
+    targetId: opts.targetId,
+    requestId: opts.requestId,
+    maxChars: opts.maxChars,
+  });
+}
+
+export async function browserNetworkHar(
+  baseUrl: string | undefined,
+  opts: { targetId?: string; path?: string; filter?: string; profile?: string } = {},
+): Promise<BrowserActionTargetOk & { path: string; entries: number }> {
+  return await postNetwork(baseUrl, "har", opts.profile, {
+    targetId: opts.targetId,
+    path: opts.path,
+    filter: opts.filter,
+  });
+}
+
+export async function browserNetworkRoute(
+  baseUrl: string | undefined,
+  opts: BrowserNetworkMock & { url: string; targetId?: string; profile?: string },
+): Promise<BrowserActionTargetOk & { routes: BrowserNetworkRoute[] }> {
+  const { profile, ...body } = opts;
+  return await postNetwork(baseUrl, "route", profile, body);
+}
+
+export async function browserNetworkUnroute(
+  baseUrl: string | undefined,
+  opts: { url?: string; targetId?: string; profile?: string } = {},
+): Promise<BrowserActionTargetOk & { removed: number; routes: BrowserNetworkRoute[] }> {
+  return await postNetwork(baseUrl, "unroute", opts.profile, {
+    targetId: opts.targetId,
+    url: opts.url,
+  });
+}
@@ -1,4 +1,6 @@
 export * from "./client-actions-core.js";
+export * from "./client-actions-macros.js";
+export * from "./client-actions-network.js";
 export * from "./client-actions-observe.js";
 export * from "./client-actions-state.js";
 export * from "./client-actions-types.js";
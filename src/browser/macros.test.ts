@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { withStateDirEnv } from "../test-helpers/state-dir-env.js";
+import {
+  appendBrowserMacroStep,
+  applyBrowserMacroParams,
+  buildBrowserMacro,
+  deleteBrowserMacro,
+  getBrowserMacro,
+  listBrowserMacros,
+  saveBrowserMacro,
+  startBrowserMacroRecording,
+  stopBrowserMacroRecording,
+} from "./macros.js";
+
+function recordLogin(profile = "openclaw") {
+  startBrowserMacroRecording({ profile, name: "login", targetId: "T1" });
+  appendBrowserMacroStep({
+    profile,
+    targetId: "T1",
+    step: { kind: "navigate", url: "https://example.com/login" },
+  });
+  appendBrowserMacroStep({
+    profile,
+    targetId: "T1",
+    step: {
+      kind: "act",
+      request: { kind: "type", ref: "e3", text: "ada@example.com" },
+      targets: { ref: { role: "textbox", name: "ada@example.com" } },
+    },
+  });
+  // Other tabs on the same profile are not part of the recording.
+  appendBrowserMacroStep({
+    profile,
+    targetId: "T2",
+    step: { kind: "navigate", url: "https://example.com/other" },
+  });
+  appendBrowserMacroStep({
+    profile,
+    targetId: "T1",
+    step: { kind: "assert", text: "Welcome ada@example.com" },
+  });
+  return stopBrowserMacroRecording(profile);
+}
+
+describe("browser macros", () => {
+  afterEach(() => {
+    try {
+      stopBrowserMacroRecording("openclaw");
+    } catch {
+      // no recording left over
+    }
+  });
+
+  it("parameterizes recorded values and substitutes them on replay", () => {
+    const macro = buildBrowserMacro({
+      recording: recordLogin(),
+      params: { user: "ada@example.com" },
+    });
+
+    expect(macro.params).toEqual(["user"]);
+    expect(macro.steps).toHaveLength(3);
+    expect(macro.steps[1]).toEqual({
+      kind: "act",
+      request: { kind: "type", ref: "e3", text: "{{user}}" },
+      targets: { ref: { role: "textbox", name: "ada@example.com" } },
+    });
+    expect(macro.steps[2]).toEqual({ kind: "assert", text: "Welcome {{user}}" });
+
+    expect(() => applyBrowserMacroParams(macro)).toThrow("Missing macro params: user");
+    const steps = applyBrowserMacroParams(macro, { user: "grace@example.com" });
+    expect(steps[1]).toMatchObject({ request: { text: "grace@example.com" } });
+    expect(steps[2]).toEqual({ kind: "assert", text: "Welcome grace@example.com" });
+  });
+
+  it("rejects a second recording on the same profile", () => {
+    startBrowserMacroRecording({ profile: "openclaw", name: "first", targetId: "T1" });
+    expect(() =>
+      startBrowserMacroRecording({ profile: "openclaw", name: "second", targetId: "T1" }),
+    ).toThrow(/Already recording macro "first"/);
+    expect(() =>
+      startBrowserMacroRecording({ profile: "work", name: "bad name!", targetId: "T1" }),
+    ).toThrow(/macro name must be/);
+  });
+
+  it("stores macros per profile", async () => {
+    await withStateDirEnv("openclaw-browser-macros-", async () => {
+      const macro = buildBrowserMacro({ recording: recordLogin(), description: "Log in" });
+      await saveBrowserMacro("openclaw", macro);
+
+      expect((await listBrowserMacros("openclaw")).map((entry) => entry.name)).toEqual(["login"]);
+      expect(await listBrowserMacros("work")).toEqual([]);
+      expect(await getBrowserMacro("openclaw", "login")).toMatchObject({ description: "Log in" });
+
+      expect(await deleteBrowserMacro("openclaw", "login")).toBe(true);
+      expect(await deleteBrowserMacro("openclaw", "login")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { BrowserActRequest } from "./client-actions-core.js";
+
+/** Stable description of a ref target, resolved again by role/name on replay. */
+export type BrowserMacroTarget = {
+  role: string;
+  name?: string;
+  nth?: number;
+  frameSelector?: string;
+};
+
+export type BrowserMacroStep =
+  | { kind: "navigate"; url: string }
+  | {
+      kind: "act";
+      request: BrowserActRequest;
+      /** Keyed by ref field: `ref`, `startRef`, `endRef`, `fields.<index>`; null when unresolvable. */
+      targets?: Record<string, BrowserMacroTarget | null>;
+    }
+  | { kind: "assert"; text?: string; textGone?: string; url?: string; selector?: string };
+
+export type BrowserMacro = {
+  name: string;
+  description?: string;
+  /** Parameter names referenced as `{{name}}` in step values. */
+  params: string[];
+  steps: BrowserMacroStep[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BrowserMacroRecording = {
+  name: string;
+  targetId: string;
+  startedAt: string;
+  steps: BrowserMacroStep[];
+};
+
+type BrowserMacroStore = {
+  version: 1;
+  macros: Record<string, BrowserMacro>;
+};
+
+export const MAX_BROWSER_MACRO_STEPS = 200;
+/** How long a client waits for `POST /macros/run`; the replay itself stops a little earlier. */
+export const BROWSER_MACRO_RUN_TIMEOUT_MS = 120_000;
+const MACRO_NAME_RE = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const PARAM_NAME_RE = /^[a-z_][a-z0-9_]*$/i;
+const PARAM_PLACEHOLDER_RE = /\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}/gi;
+// Only user-provided values are parameterized; refs, kinds and selectors stay literal.
+const PARAM_VALUE_KEYS = new Set(["text", "textGone", "url", "value", "values"]);
+
+const recordingsByProfile = new Map<string, BrowserMacroRecording>();
+const withStoreLock = createAsyncLock();
+
+export function isValidBrowserMacroName(name: string): boolean {
+  return MACRO_NAME_RE.test(name);
+}
+
+function requireMacroName(name: string): string {
+  const trimmed = name.trim();
+  if (!isValidBrowserMacroName(trimmed)) {
+    throw new Error(
+      "macro name must be 1-64 chars: letters, digits, dot, dash or underscore (starting with a letter or digit)",
+    );
+  }
+  return trimmed;
+}
+
+export function startBrowserMacroRecording(params: {
+  profile: string;
+  name: string;
+  targetId: string;
+}): BrowserMacroRecording {
+  const name = requireMacroName(params.name);
+  const existing = recordingsByProfile.get(params.profile);
+  if (existing) {
+    throw new Error(
+      `Already recording macro "${existing.name}" on profile "${params.profile}". Save or cancel it first.`,
+    );
+  }
+  const recording: BrowserMacroRecording = {
+    name,
+    targetId: params.targetId,
+    startedAt: new Date().toISOString(),
+    steps: [],
+  };
+  recordingsByProfile.set(params.profile, recording);
+  return recording;
+}
+
+export function getBrowserMacroRecording(profile: string): BrowserMacroRecording | undefined {
+  return recordingsByProfile.get(profile);
+}
+
+/** Append a step when `targetId` is the tab being recorded on this profile. */
+export function appendBrowserMacroStep(params: {
+  profile: string;
+  targetId: string;
+  step: BrowserMacroStep;
+}): boolean {
+  const recording = recordingsByProfile.get(params.profile);
+  if (!recording || recording.targetId !== params.targetId) {
+    return false;
+  }
+  if (recording.steps.length >= MAX_BROWSER_MACRO_STEPS) {
+    throw new Error(
+      `Macro "${recording.name}" reached the ${MAX_BROWSER_MACRO_STEPS} step limit. Save it first.`,
+    );
+  }
+  recording.steps.push(params.step);
+  return true;
+}
+
+export function stopBrowserMacroRecording(profile: string): BrowserMacroRecording {
+  const recording = recordingsByProfile.get(profile);
+  if (!recording) {
+    throw new Error(`No macro recording on profile "${profile}". Start one first.`);
+  }
+  recordingsByProfile.delete(profile);
+  return recording;
+}
+
+/** Ref fields of an act request, keyed like `BrowserMacroStep` targets. */
+export function listBrowserMacroActRefs(request: BrowserActRequest): Array<[string, string]> {
+  const refs: Array<[string, string]> = [];
+  if ("ref" in request && typeof request.ref === "string" && request.ref) {
+    refs.push(["ref", request.ref]);
+  }
+  if (request.kind === "drag") {
+    refs.push(["startRef", request.startRef], ["endRef", request.endRef]);
+  }
+  if (request.kind === "fill") {
+    request.fields.forEach((field, index) => refs.push([`fields.${index}`, field.ref]));
+  }
+  return refs;
+}
+
+function mapParamValues<T>(value: T, map: (text: string) => string, key?: string): T {
+  if (typeof value === "string") {
+    return (key && PARAM_VALUE_KEYS.has(key) ? map(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapParamValues(item, map, key)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [
+        entryKey,
+        // Target descriptors are matched verbatim; never rewrite their names.
+        entryKey === "targets" ? entry : mapParamValues(entry, map, entryKey),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Build a macro from a finished recording. Literal values listed in `params`
+ * (e.g. `{ user: "ada@example.com" }`) are replaced by `{{user}}` placeholders.
+ */
+export function buildBrowserMacro(params: {
+  recording: BrowserMacroRecording;
+  description?: string;
+  params?: Record<string, string>;
+  now?: Date;
+}): BrowserMacro {
+  const literals = Object.entries(params.params ?? {})
+    .filter(([, literal]) => literal.length > 0)
+    .toSorted(([, a], [, b]) => b.length - a.length);
+  for (const [name] of literals) {
+    if (!PARAM_NAME_RE.test(name)) {
+      throw new Error(`Invalid macro param name "${name}" (use letters, digits and underscores).`);
+    }
+  }
+  const steps = params.recording.steps.map((step) =>
+    mapParamValues(step, (text) =>
+      literals.reduce(
+        (current, [name, literal]) => current.split(literal).join(`{{${name}}}`),
+        text,
+      ),
+    ),
+  );
+  const timestamp = (params.now ?? new Date()).toISOString();
+  return {
+    name: params.recording.name,
+    ...(params.description?.trim() ? { description: params.description.trim() } : {}),
+    params: listBrowserMacroParams(steps),
+    steps,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+export function listBrowserMacroParams(steps: BrowserMacroStep[]): string[] {
+  const names = new Set<string>();
+  mapParamValues(steps, (text) => {
+    for (const match of text.matchAll(PARAM_PLACEHOLDER_RE)) {
+      if (match[1]) {
+        names.add(match[1]);
+      }
+    }
+    return text;
+  });
+  return [...names];
+}
+
+/** Substitute `{{name}}` placeholders; throws when a referenced param has no value. */
+export function applyBrowserMacroParams(
+  macro: BrowserMacro,
+  values: Record<string, string> = {},
+): BrowserMacroStep[] {
+  const missing = macro.params.filter((name) => typeof values[name] !== "string");
+  if (missing.length > 0) {
+    throw new Error(`Missing macro params: ${missing.join(", ")}`);
+  }
+  return mapParamValues(macro.steps, (text) =>
+    text.replace(PARAM_PLACEHOLDER_RE, (placeholder, name: string) => values[name] ?? placeholder),
+  );
+}
+
+function resolveMacroStorePath(profile: string) {
+  return path.join(resolveStateDir(process.env), "browser", profile, "macros.json");
+}
+
+async function readMacroStore(profile: string): Promise<BrowserMacroStore> {
+  const store = await readJsonFile<BrowserMacroStore>(resolveMacroStorePath(profile));
+  if (!store || typeof store.macros !== "object" || store.macros === null) {
+    return { version: 1, macros: {} };
+  }
+  return store;
+}
+
+export async function listBrowserMacros(profile: string): Promise<BrowserMacro[]> {
+  const store = await readMacroStore(profile);
+  return Object.values(store.macros).toSorted((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getBrowserMacro(profile: string, name: string): Promise<BrowserMacro | null> {
+  const store = await readMacroStore(profile);
+  return store.macros[name.trim()] ?? null;
+}
+
+export async function saveBrowserMacro(
+  profile: string,
+  macro: BrowserMacro,
+): Promise<BrowserMacro> {
+  return await withStoreLock(async () => {
+    const store = await readMacroStore(profile);
+    const existing = store.macros[macro.name];
+    const saved = existing ? { ...macro, createdAt: existing.createdAt } : macro;
+    store.macros[macro.name] = saved;
+    await writeJsonAtomic(resolveMacroStorePath(profile), store);
+    return saved;
+  });
+}
+
+export async function deleteBrowserMacro(profile: string, name: string): Promise<boolean> {
+  return await withStoreLock(async () => {
+    const store = await readMacroStore(profile);
+    const key = name.trim();
+    if (!store.macros[key]) {
+      return false;
+    }
+    delete store.macros[key];
+    await writeJsonAtomic(resolveMacroStorePath(profile), store);
+    return true;
+  });
+}
@@ -24,6 +24,7 @@ export {
   cookiesClearViaPlaywright,
   cookiesGetViaPlaywright,
   cookiesSetViaPlaywright,
+  describeMacroActTargetsViaPlaywright,
   downloadViaPlaywright,
   dragViaPlaywright,
   emulateMediaViaPlaywright,
@@ -35,8 +36,16 @@ export {
   highlightViaPlaywright,
   hoverViaPlaywright,
   navigateViaPlaywright,
+  networkCaptureStartViaPlaywright,
+  networkCaptureStopViaPlaywright,
+  networkHarViaPlaywright,
+  networkRequestsViaPlaywright,
+  networkResponseBodyViaPlaywright,
+  networkRouteViaPlaywright,
+  networkUnrouteViaPlaywright,
   pdfViaPlaywright,
   pressKeyViaPlaywright,
+  replayMacroViaPlaywright,
   resizeViewportViaPlaywright,
   responseBodyViaPlaywright,
   scrollIntoViewViaPlaywright,
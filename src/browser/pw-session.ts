@@ -5,6 +5,7 @@ import type {
   Page,
   Request,
   Response,
+  Route,
 } from "playwright-core";
 import { chromium } from "playwright-core";
 import { formatErrorMessage } from "../infra/errors.js";
@@ -43,6 +44,65 @@ export type BrowserNetworkRequest = {
   failureText?: string;
 };
 
+export type BrowserNetworkTiming = {
+  dnsMs?: number;
+  connectMs?: number;
+  sslMs?: number;
+  waitMs?: number;
+  receiveMs?: number;
+};
+
+export type BrowserNetworkEntry = {
+  id: string;
+  startedAt: string;
+  method: string;
+  url: string;
+  resourceType?: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status?: number;
+  statusText?: string;
+  ok?: boolean;
+  mimeType?: string;
+  responseHeaders?: Record<string, string>;
+  failureText?: string;
+  /** Wall time from request start to the last response byte (or failure). */
+  durationMs?: number;
+  timing?: BrowserNetworkTiming;
+  /** True when the request was answered by a `network route` mock. */
+  mocked?: boolean;
+};
+
+export type BrowserNetworkMock = {
+  status?: number;
+  contentType?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Fail the request instead of fulfilling it. */
+  abort?: boolean;
+};
+
+export type BrowserNetworkRoute = BrowserNetworkMock & {
+  url: string;
+  createdAt: string;
+  hits: number;
+};
+
+type NetworkCaptureState = {
+  startedAt: string;
+  active: boolean;
+  entries: BrowserNetworkEntry[];
+  /** Responses kept for body lookups; dropped together with their entry. */
+  responses: Map<string, Response>;
+  startedAtMs: Map<string, number>;
+};
+
+type NetworkRouteState = {
+  route: BrowserNetworkRoute;
+  matcher: (url: URL) => boolean;
+  handler: (route: Route) => Promise<void>;
+};
+
 type SnapshotForAIResult = { full: string; incremental?: string };
 type SnapshotForAIOptions = { timeout?: number; track?: string };
 
@@ -68,6 +128,10 @@ type PageState = {
   requests: BrowserNetworkRequest[];
   requestIds: WeakMap<Request, string>;
   nextRequestId: number;
+  /** Detailed capture for the `network` actions; entries stay readable after stop. */
+  networkCapture?: NetworkCaptureState;
+  networkRoutes: Map<string, NetworkRouteState>;
+  mockedRequests: WeakSet<Request>;
   armIdUpload: number;
   armIdDialog: number;
   armIdDownload: number;
@@ -105,6 +169,8 @@ const MAX_ROLE_REFS_CACHE = 50;
 const MAX_CONSOLE_MESSAGES = 500;
 const MAX_PAGE_ERRORS = 200;
 const MAX_NETWORK_REQUESTS = 500;
+const MAX_NETWORK_CAPTURE_ENTRIES = 1000;
+const MAX_CAPTURED_POST_DATA_CHARS = 64_000;
 
 let cached: ConnectedBrowser | null = null;
 let connecting: Promise<ConnectedBrowser> | null = null;
@@ -123,6 +189,100 @@ function findNetworkRequestById(state: PageState, id: string): BrowserNetworkReq
   return undefined;
 }
 
+function findCapturedEntry(
+  capture: NetworkCaptureState | undefined,
+  id: string | undefined,
+): BrowserNetworkEntry | undefined {
+  if (!capture?.active || !id) {
+    return undefined;
+  }
+  for (let i = capture.entries.length - 1; i >= 0; i -= 1) {
+    const candidate = capture.entries[i];
+    if (candidate && candidate.id === id) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function captureNetworkRequest(state: PageState, id: string, req: Request) {
+  const capture = state.networkCapture;
+  if (!capture?.active) {
+    return;
+  }
+  const postData = req.postData() ?? undefined;
+  capture.entries.push({
+    id,
+    startedAt: new Date().toISOString(),
+    method: req.method(),
+    url: req.url(),
+    resourceType: req.resourceType(),
+    requestHeaders: req.headers(),
+    postData:
+      postData && postData.length > MAX_CAPTURED_POST_DATA_CHARS
+        ? postData.slice(0, MAX_CAPTURED_POST_DATA_CHARS)
+        : postData,
+    ...(state.mockedRequests.has(req) ? { mocked: true } : {}),
+  });
+  capture.startedAtMs.set(id, Date.now());
+  while (capture.entries.length > MAX_NETWORK_CAPTURE_ENTRIES) {
+    const dropped = capture.entries.shift();
+    if (dropped) {
+      capture.responses.delete(dropped.id);
+      capture.startedAtMs.delete(dropped.id);
+    }
+  }
+}
+
+function captureNetworkResponse(state: PageState, id: string | undefined, resp: Response) {
+  const entry = findCapturedEntry(state.networkCapture, id);
+  if (!entry || !id) {
+    return;
+  }
+  const headers = resp.headers();
+  entry.status = resp.status();
+  entry.statusText = resp.statusText();
+  entry.ok = resp.ok();
+  entry.responseHeaders = headers;
+  entry.mimeType = headers["content-type"]?.split(";")[0]?.trim() || undefined;
+  state.networkCapture?.responses.set(id, resp);
+}
+
+function resolveTimingPhase(start: number, end: number): number | undefined {
+  return start >= 0 && end >= start ? Math.round(end - start) : undefined;
+}
+
+function finishCapturedRequest(
+  state: PageState,
+  id: string | undefined,
+  req: Request,
+  failureText?: string,
+) {
+  const entry = findCapturedEntry(state.networkCapture, id);
+  if (!entry || !id) {
+    return;
+  }
+  const timing = req.timing();
+  const startedAtMs = state.networkCapture?.startedAtMs.get(id);
+  entry.durationMs =
+    timing.responseEnd >= 0
+      ? Math.round(timing.responseEnd)
+      : startedAtMs !== undefined
+        ? Date.now() - startedAtMs
+        : undefined;
+  entry.timing = {
+    dnsMs: resolveTimingPhase(timing.domainLookupStart, timing.domainLookupEnd),
+    connectMs: resolveTimingPhase(timing.connectStart, timing.connectEnd),
+    sslMs: resolveTimingPhase(timing.secureConnectionStart, timing.connectEnd),
+    waitMs: resolveTimingPhase(timing.requestStart, timing.responseStart),
+    receiveMs: resolveTimingPhase(timing.responseStart, timing.responseEnd),
+  };
+  if (failureText) {
+    entry.failureText = failureText;
+    entry.ok = false;
+  }
+}
+
 function roleRefsKey(cdpUrl: string, targetId: string) {
   return `${normalizeCdpUrl(cdpUrl)}::${targetId}`;
 }
@@ -210,6 +370,8 @@ export function ensurePageState(page: Page): PageState {
     requests: [],
     requestIds: new WeakMap(),
     nextRequestId: 0,
+    networkRoutes: new Map(),
+    mockedRequests: new WeakSet(),
     armIdUpload: 0,
     armIdDialog: 0,
     armIdDownload: 0,
@@ -255,10 +417,12 @@ export function ensurePageState(page: Page): PageState {
       if (state.requests.length > MAX_NETWORK_REQUESTS) {
         state.requests.shift();
       }
+      captureNetworkRequest(state, id, req);
     });
     page.on("response", (resp: Response) => {
       const req = resp.request();
       const id = state.requestIds.get(req);
+      captureNetworkResponse(state, id, resp);
       if (!id) {
         return;
       }
@@ -269,8 +433,12 @@ export function ensurePageState(page: Page): PageState {
       rec.status = resp.status();
       rec.ok = resp.ok();
     });
+    page.on("requestfinished", (req: Request) => {
+      finishCapturedRequest(state, state.requestIds.get(req), req);
+    });
     page.on("requestfailed", (req: Request) => {
       const id = state.requestIds.get(req);
+      finishCapturedRequest(state, id, req, req.failure()?.errorText ?? "failed");
       if (!id) {
         return;
       }
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BrowserMacroStep } from "./macros.js";
+import {
+  getPwToolsCoreSessionMocks,
+  installPwToolsCoreTestHooks,
+  setPwToolsCoreCurrentPage,
+  setPwToolsCoreCurrentRefLocator,
+} from "./pw-tools-core.test-harness.js";
+
+installPwToolsCoreTestHooks();
+const mod = await import("./pw-tools-core.js");
+
+const cdpUrl = "http://127.0.0.1:18792";
+
+const clickStep = (name: string): BrowserMacroStep => ({
+  kind: "act",
+  request: { kind: "click", ref: "e4" },
+  targets: { ref: { role: "button", name } },
+});
+
+describe("pw-tools-core macros", () => {
+  it("describes role refs by role and name", async () => {
+    const state = {
+      roleRefs: { e4: { role: "button", name: "Sign in" } },
+      roleRefsMode: "role",
+    };
+    getPwToolsCoreSessionMocks().ensurePageState.mockReturnValue(state as never);
+    setPwToolsCoreCurrentPage({});
+
+    const targets = await mod.describeMacroActTargetsViaPlaywright({
+      cdpUrl,
+      request: { kind: "click", ref: "e4" },
+    });
+    expect(targets).toEqual({ ref: { role: "button", name: "Sign in" } });
+  });
+
+  it("replays steps and hands back to the agent when a target is gone", async () => {
+    const state = { roleRefs: { e9: { role: "link", name: "Home" } }, roleRefsMode: "role" };
+    getPwToolsCoreSessionMocks().ensurePageState.mockReturnValue(state as never);
+    const text = { first: () => ({ waitFor: vi.fn(async () => {}) }) };
+    setPwToolsCoreCurrentPage({ getByText: vi.fn(() => text) });
+    const waitFor = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Timeout 500ms exceeded"));
+    const click = vi.fn(async () => {});
+    setPwToolsCoreCurrentRefLocator({
+      first: () => ({ waitFor }),
+      count: vi.fn(async () => 1),
+      click,
+    });
+
+    const steps: BrowserMacroStep[] = [
+      clickStep("Sign in"),
+      { kind: "assert", text: "Welcome" },
+      clickStep("Settings"),
+      clickStep("Log out"),
+    ];
+    const result = await mod.replayMacroViaPlaywright({ cdpUrl, steps, stepTimeoutMs: 500 });
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      status: "needs-agent",
+      totalSteps: 4,
+      completedSteps: 2,
+      failedStep: { index: 2 },
+      reason: "target-not-found",
+    });
+    expect(result.error).toContain('button "Settings"');
+    // The agent's own snapshot refs survive the replay.
+    expect(state.roleRefs).toEqual({ e9: { role: "link", name: "Home" } });
+  });
+
+  it("stops between steps once the replay deadline passes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      getPwToolsCoreSessionMocks().ensurePageState.mockReturnValue({} as never);
+      setPwToolsCoreCurrentPage({});
+      const click = vi.fn(async () => {
+        vi.setSystemTime(Date.now() + 2_000);
+      });
+      setPwToolsCoreCurrentRefLocator({
+        first: () => ({ waitFor: vi.fn(async () => {}) }),
+        count: vi.fn(async () => 1),
+        click,
+      });
+
+      const result = await mod.replayMacroViaPlaywright({
+        cdpUrl,
+        steps: [clickStep("Next"), clickStep("Next"), clickStep("Done")],
+        timeoutMs: 1_000,
+      });
+
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({
+        status: "failed",
+        completedSteps: 1,
+        failedStep: { index: 1 },
+        reason: "timed-out",
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("fails on a broken assertion checkpoint", async () => {
+    getPwToolsCoreSessionMocks().ensurePageState.mockReturnValue({} as never);
+    const waitFor = vi.fn(async () => {
+      throw new Error("Timeout exceeded");
+    });
+    setPwToolsCoreCurrentPage({ getByText: vi.fn(() => ({ first: () => ({ waitFor }) })) });
+
+    const result = await mod.replayMacroViaPlaywright({
+      cdpUrl,
+      steps: [{ kind: "assert", text: "Dashboard" }],
+    });
+    expect(result).toMatchObject({
+      status: "failed",
+      completedSteps: 0,
+      reason: "assertion-failed",
+    });
+  });
+});
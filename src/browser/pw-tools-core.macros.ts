@@ -0,0 +1,344 @@
+import type { Page } from "playwright-core";
+import type { SsrFPolicy } from "../infra/net/ssrf.js";
+import type { BrowserActRequest } from "./client-actions-core.js";
+import {
+  listBrowserMacroActRefs,
+  type BrowserMacroStep,
+  type BrowserMacroTarget,
+} from "./macros.js";
+import {
+  ensurePageState,
+  getPageForTargetId,
+  refLocator,
+  restoreRoleRefsForTarget,
+} from "./pw-session.js";
+import {
+  clickViaPlaywright,
+  dragViaPlaywright,
+  fillFormViaPlaywright,
+  hoverViaPlaywright,
+  pressKeyViaPlaywright,
+  scrollIntoViewViaPlaywright,
+  selectOptionViaPlaywright,
+  typeViaPlaywright,
+  waitForViaPlaywright,
+} from "./pw-tools-core.interactions.js";
+import { normalizeTimeoutMs, requireRef } from "./pw-tools-core.shared.js";
+import { navigateViaPlaywright, resizeViewportViaPlaywright } from "./pw-tools-core.snapshot.js";
+
+export type BrowserMacroReplayResult = {
+  /** `needs-agent`: a step's target is gone; the agent should snapshot and continue from `failedStep`. */
+  status: "completed" | "needs-agent" | "failed";
+  totalSteps: number;
+  completedSteps: number;
+  failedStep?: { index: number; step: BrowserMacroStep };
+  reason?: "target-not-found" | "assertion-failed" | "step-failed" | "timed-out";
+  error?: string;
+};
+
+const DEFAULT_STEP_TIMEOUT_MS = 8000;
+
+/** Parses the first line of an aria snapshot, e.g. `- button "Sign in"`. */
+function parseAriaSnapshotTarget(snapshot: string): { role: string; name?: string } | null {
+  const firstLine = snapshot.split("\n")[0] ?? "";
+  const match = /^-\s+([a-z]+)(?:\s+"((?:[^"\\]|\\.)*)")?/i.exec(firstLine.trim());
+  if (!match?.[1]) {
+    return null;
+  }
+  const name = match[2]?.replace(/\\(.)/g, "$1");
+  return name ? { role: match[1], name } : { role: match[1] };
+}
+
+async function describeRefTarget(page: Page, rawRef: string): Promise<BrowserMacroTarget | null> {
+  const ref = requireRef(rawRef);
+  const state = ensurePageState(page);
+  const frameSelector = state.roleRefsFrameSelector;
+  const info = state.roleRefsMode !== "aria" ? state.roleRefs?.[ref] : undefined;
+  if (info) {
+    return { ...info, ...(frameSelector ? { frameSelector } : {}) };
+  }
+  try {
+    const parsed = parseAriaSnapshotTarget(
+      await refLocator(page, ref).ariaSnapshot({ timeout: 2000 }),
+    );
+    return parsed ? { ...parsed, ...(frameSelector ? { frameSelector } : {}) } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Capture stable role/name targets for the refs of an act request (before it runs). */
+export async function describeMacroActTargetsViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  request: BrowserActRequest;
+}): Promise<Record<string, BrowserMacroTarget | null> | undefined> {
+  const refs = listBrowserMacroActRefs(opts.request);
+  if (refs.length === 0) {
+    return undefined;
+  }
+  const page = await getPageForTargetId(opts);
+  ensurePageState(page);
+  restoreRoleRefsForTarget({ cdpUrl: opts.cdpUrl, targetId: opts.targetId, page });
+  const targets: Record<string, BrowserMacroTarget | null> = {};
+  for (const [key, ref] of refs) {
+    targets[key] = await describeRefTarget(page, ref);
+  }
+  return targets;
+}
+
+class MacroTargetNotFoundError extends Error {}
+
+/**
+ * Point temporary role refs (e1, e2, ...) at the recorded targets and return the
+ * request rewritten to use them. Throws MacroTargetNotFoundError when a target is gone.
+ */
+async function bindMacroTargets(params: {
+  page: Page;
+  request: BrowserActRequest;
+  targets: Record<string, BrowserMacroTarget | null> | undefined;
+  timeoutMs: number;
+}): Promise<BrowserActRequest> {
+  const entries = Object.entries(params.targets ?? {});
+  if (entries.length === 0) {
+    return params.request;
+  }
+  const state = ensurePageState(params.page);
+  const refs: NonNullable<typeof state.roleRefs> = {};
+  const refByKey = new Map<string, string>();
+  entries.forEach(([key, target], index) => {
+    if (!target) {
+      throw new MacroTargetNotFoundError(`Target for ${key} was not recorded with a stable role.`);
+    }
+    const ref = `e${index + 1}`;
+    refs[ref] = { role: target.role, name: target.name, nth: target.nth };
+    refByKey.set(key, ref);
+  });
+  state.roleRefs = refs;
+  state.roleRefsMode = "role";
+  state.roleRefsFrameSelector = entries[0]?.[1]?.frameSelector;
+  for (const [key, target] of entries) {
+    const ref = refByKey.get(key) ?? "";
+    const locator = refLocator(params.page, ref);
+    try {
+      await locator.first().waitFor({ state: "attached", timeout: params.timeoutMs });
+    } catch {
+      const label = target?.name ? `${target.role} "${target.name}"` : (target?.role ?? key);
+      throw new MacroTargetNotFoundError(`Target ${label} was not found on the page.`);
+    }
+    if (target?.nth === undefined && (await locator.count()) > 1) {
+      const info = refs[ref];
+      if (info) {
+        info.nth = 0;
+      }
+    }
+  }
+  const rewritten = { ...params.request } as Record<string, unknown>;
+  for (const [key, ref] of refByKey) {
+    const fieldMatch = /^fields\.(\d+)$/.exec(key);
+    if (fieldMatch && params.request.kind === "fill") {
+      rewritten.fields = (rewritten.fields as typeof params.request.fields).map((field, index) =>
+        index === Number(fieldMatch[1]) ? { ...field, ref } : field,
+      );
+    } else {
+      rewritten[key] = ref;
+    }
+  }
+  return rewritten as BrowserActRequest;
+}
+
+async function runMacroAct(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  request: BrowserActRequest;
+  timeoutMs: number;
+  evaluateEnabled: boolean;
+}): Promise<void> {
+  const { cdpUrl, targetId, request, timeoutMs } = opts;
+  const base = { cdpUrl, targetId };
+  switch (request.kind) {
+    case "click":
+      await clickViaPlaywright({
+        ...base,
+        ref: request.ref,
+        doubleClick: request.doubleClick,
+        button: request.button as "left" | "right" | "middle" | undefined,
+        modifiers: request.modifiers as Parameters<typeof clickViaPlaywright>[0]["modifiers"],
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "type":
+      await typeViaPlaywright({
+        ...base,
+        ref: request.ref,
+        text: request.text,
+        submit: request.submit,
+        slowly: request.slowly,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "press":
+      await pressKeyViaPlaywright({ ...base, key: request.key, delayMs: request.delayMs });
+      return;
+    case "hover":
+      await hoverViaPlaywright({
+        ...base,
+        ref: request.ref,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "scrollIntoView":
+      await scrollIntoViewViaPlaywright({
+        ...base,
+        ref: request.ref,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "drag":
+      await dragViaPlaywright({
+        ...base,
+        startRef: request.startRef,
+        endRef: request.endRef,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "select":
+      await selectOptionViaPlaywright({
+        ...base,
+        ref: request.ref,
+        values: request.values,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "fill":
+      await fillFormViaPlaywright({
+        ...base,
+        fields: request.fields,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+      });
+      return;
+    case "resize":
+      await resizeViewportViaPlaywright({ ...base, width: request.width, height: request.height });
+      return;
+    case "wait":
+      if (request.fn && !opts.evaluateEnabled) {
+        throw new Error("wait --fn is disabled by config (browser.evaluateEnabled=false).");
+      }
+      await waitForViaPlaywright({ ...base, ...request });
+      return;
+    default:
+      throw new Error(`act:${request.kind} is not replayable in macros`);
+  }
+}
+
+/**
+ * Replay recorded macro steps in order. Stops at the first step whose target is
+ * missing (`needs-agent`), whose assertion fails, which throws, or that would
+ * start after the overall `timeoutMs` deadline.
+ */
+export async function replayMacroViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  steps: BrowserMacroStep[];
+  stepTimeoutMs?: number;
+  /** Deadline for the whole replay; each step waits at most the time left. */
+  timeoutMs?: number;
+  ssrfPolicy?: SsrFPolicy;
+  evaluateEnabled?: boolean;
+}): Promise<BrowserMacroReplayResult> {
+  const deadlineAt = opts.timeoutMs !== undefined ? Date.now() + opts.timeoutMs : undefined;
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  const stepTimeoutMs = normalizeTimeoutMs(opts.stepTimeoutMs, DEFAULT_STEP_TIMEOUT_MS);
+  const previousRefs = {
+    refs: state.roleRefs,
+    mode: state.roleRefsMode,
+    frameSelector: state.roleRefsFrameSelector,
+  };
+  const base = { cdpUrl: opts.cdpUrl, targetId: opts.targetId };
+  let index = 0;
+  try {
+    for (; index < opts.steps.length; index += 1) {
+      const step = opts.steps[index];
+      if (!step) {
+        continue;
+      }
+      const remainingMs = deadlineAt !== undefined ? deadlineAt - Date.now() : undefined;
+      if (remainingMs !== undefined && remainingMs <= 0) {
+        return {
+          status: "failed",
+          totalSteps: opts.steps.length,
+          completedSteps: index,
+          failedStep: { index, step },
+          reason: "timed-out",
+          error: `Macro replay ran out of time after ${opts.timeoutMs}ms.`,
+        };
+      }
+      const timeoutMs =
+        remainingMs !== undefined ? Math.min(stepTimeoutMs, remainingMs) : stepTimeoutMs;
+      if (step.kind === "navigate") {
+        await navigateViaPlaywright({
+          ...base,
+          url: step.url,
+          ssrfPolicy: opts.ssrfPolicy,
+          ...(remainingMs !== undefined ? { timeoutMs: remainingMs } : {}),
+        });
+        continue;
+      }
+      if (step.kind === "assert") {
+        try {
+          await waitForViaPlaywright({
+            ...base,
+            text: step.text,
+            textGone: step.textGone,
+            url: step.url,
+            selector: step.selector,
+            timeoutMs,
+          });
+        } catch (err) {
+          return {
+            status: "failed",
+            totalSteps: opts.steps.length,
+            completedSteps: index,
+            failedStep: { index, step },
+            reason: "assertion-failed",
+            error: String(err),
+          };
+        }
+        continue;
+      }
+      const request = await bindMacroTargets({
+        page,
+        request: step.request,
+        targets: step.targets,
+        timeoutMs,
+      });
+      await runMacroAct({
+        ...base,
+        // A recorded per-act timeout must not outlast the replay deadline either.
+        request:
+          "timeoutMs" in request && request.timeoutMs !== undefined && remainingMs !== undefined
+            ? { ...request, timeoutMs: Math.min(request.timeoutMs, remainingMs) }
+            : request,
+        timeoutMs,
+        evaluateEnabled: opts.evaluateEnabled ?? true,
+      });
+    }
+    return { status: "completed", totalSteps: opts.steps.length, completedSteps: index };
+  } catch (err) {
+    const step = opts.steps[index];
+    const targetMissing = err instanceof MacroTargetNotFoundError;
+    return {
+      status: targetMissing ? "needs-agent" : "failed",
+      totalSteps: opts.steps.length,
+      completedSteps: index,
+      ...(step ? { failedStep: { index, step } } : {}),
+      reason: targetMissing ? "target-not-found" : "step-failed",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    state.roleRefs = previousRefs.refs;
+    state.roleRefsMode = previousRefs.mode;
+    state.roleRefsFrameSelector = previousRefs.frameSelector;
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BrowserNetworkEntry } from "./pw-session.js";
+import {
+  getPwToolsCoreSessionMocks,
+  installPwToolsCoreTestHooks,
+  setPwToolsCoreCurrentPage,
+} from "./pw-tools-core.test-harness.js";
+
+installPwToolsCoreTestHooks();
+const mod = await import("./pw-tools-core.js");
+
+const cdpUrl = "http://127.0.0.1:18792";
+
+function createNetworkState() {
+  const state = {
+    requestIds: new WeakMap<object, string>(),
+    networkRoutes: new Map(),
+    mockedRequests: new WeakSet<object>(),
+    networkCapture: undefined as unknown,
+  };
+  getPwToolsCoreSessionMocks().ensurePageState.mockReturnValue(state as never);
+  return state;
+}
+
+function entry(overrides: Partial<BrowserNetworkEntry>): BrowserNetworkEntry {
+  return {
+    id: "r1",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    method: "GET",
+    url: "https://example.com/",
+    requestHeaders: {},
+    ...overrides,
+  };
+}
+
+describe("pw-tools-core network", () => {
+  it("lists captured requests filtered by URL glob", async () => {
+    const state = createNetworkState();
+    setPwToolsCoreCurrentPage({});
+
+    await expect(mod.networkRequestsViaPlaywright({ cdpUrl })).rejects.toThrow(
+      /No network capture/,
+    );
+    await mod.networkCaptureStartViaPlaywright({ cdpUrl });
+    await expect(mod.networkCaptureStartViaPlaywright({ cdpUrl })).rejects.toThrow(
+      /already running/,
+    );
+
+    const capture = state.networkCapture as { entries: BrowserNetworkEntry[] };
+    capture.entries.push(
+      entry({ id: "r1", url: "https://example.com/api/users", status: 200, postData: "x" }),
+      entry({ id: "r2", url: "https://example.com/logo.png", status: 200 }),
+      entry({ id: "r3", url: "https://example.com/api/teams", status: 500 }),
+    );
+
+    const result = await mod.networkRequestsViaPlaywright({ cdpUrl, filter: "**/api/**" });
+    expect(result.active).toBe(true);
+    expect(result.requests.map((r) => r.id)).toEqual(["r1", "r3"]);
+    expect(result.requests[0]).not.toHaveProperty("postData");
+
+    const limited = await mod.networkRequestsViaPlaywright({ cdpUrl, limit: 1 });
+    expect(limited.requests.map((r) => r.id)).toEqual(["r3"]);
+
+    await expect(mod.networkCaptureStopViaPlaywright({ cdpUrl })).resolves.toMatchObject({
+      entries: 3,
+    });
+  });
+
+  it("builds HAR 1.2 entries with timings and bodies", () => {
+    const har = mod.buildNetworkHar(
+      [
+        entry({
+          url: "https://example.com/api?q=1",
+          method: "POST",
+          requestHeaders: { "content-type": "application/json" },
+          postData: '{"a":1}',
+          status: 201,
+          statusText: "Created",
+          mimeType: "application/json",
+          durationMs: 42,
+          timing: { waitMs: 30, receiveMs: 12 },
+          mocked: true,
+        }),
+      ],
+      new Map([["r1", '{"ok":true}']]),
+    );
+    expect(har.log.version).toBe("1.2");
+    const [harEntry] = har.log.entries;
+    expect(harEntry?.request.queryString).toEqual([{ name: "q", value: "1" }]);
+    expect(harEntry?.request.postData).toEqual({
+      mimeType: "application/json",
+      text: '{"a":1}',
+    });
+    expect(harEntry?.response.content).toMatchObject({ text: '{"ok":true}', size: 11 });
+    expect(harEntry?.timings).toMatchObject({ wait: 30, receive: 12, dns: -1 });
+    expect(harEntry?.time).toBe(42);
+    expect(harEntry).toHaveProperty("_mocked", true);
+  });
+
+  it("replaces routes for the same pattern and removes them", async () => {
+    const state = createNetworkState();
+    const page = { route: vi.fn(async () => {}), unroute: vi.fn(async () => {}) };
+    setPwToolsCoreCurrentPage(page);
+
+    await mod.networkRouteViaPlaywright({
+      cdpUrl,
+      url: "**/api/profile",
+      mock: { status: 404 },
+    });
+    const { routes } = await mod.networkRouteViaPlaywright({
+      cdpUrl,
+      url: "**/api/profile",
+      mock: { abort: true },
+    });
+    expect(page.route).toHaveBeenCalledTimes(2);
+    expect(page.unroute).toHaveBeenCalledTimes(1);
+    expect(routes).toMatchObject([{ url: "**/api/profile", abort: true, hits: 0 }]);
+
+    const fulfill = vi.fn(async () => {});
+    const abort = vi.fn(async () => {});
+    const request = {};
+    const calls = page.route.mock.calls as unknown as Array<
+      [(url: URL) => boolean, (route: unknown) => Promise<void>]
+    >;
+    const [matcher, handler] = calls[1];
+    expect(matcher(new URL("https://example.com/api/profile"))).toBe(true);
+    await handler({ request: () => request, fulfill, abort });
+    expect(abort).toHaveBeenCalled();
+    expect(fulfill).not.toHaveBeenCalled();
+    expect(state.mockedRequests.has(request)).toBe(true);
+
+    await expect(mod.networkUnrouteViaPlaywright({ cdpUrl })).resolves.toEqual({
+      removed: 1,
+      routes: [],
+    });
+    await expect(mod.networkUnrouteViaPlaywright({ cdpUrl, url: "**/nope" })).rejects.toThrow(
+      /No network route/,
+    );
+  });
+});
@@ -0,0 +1,334 @@
+import fs from "node:fs/promises";
+import type { Route } from "playwright-core";
+import { VERSION } from "../version.js";
+import type { BrowserNetworkEntry, BrowserNetworkMock, BrowserNetworkRoute } from "./pw-session.js";
+import { ensurePageState, getPageForTargetId } from "./pw-session.js";
+import { matchUrlPattern } from "./pw-tools-core.shared.js";
+
+const DEFAULT_BODY_MAX_CHARS = 200_000;
+const MAX_HAR_BODY_CHARS = 1_000_000;
+const MAX_ROUTES_PER_PAGE = 50;
+
+export type BrowserNetworkEntrySummary = Omit<
+  BrowserNetworkEntry,
+  "requestHeaders" | "responseHeaders" | "postData"
+>;
+
+function isTextMimeType(mimeType: string | undefined): boolean {
+  if (!mimeType) {
+    return false;
+  }
+  return (
+    mimeType.startsWith("text/") ||
+    /[+/](json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql)$/.test(mimeType)
+  );
+}
+
+function summarizeNetworkEntry(entry: BrowserNetworkEntry): BrowserNetworkEntrySummary {
+  const { requestHeaders: _req, responseHeaders: _res, postData: _post, ...summary } = entry;
+  return summary;
+}
+
+function requireNetworkCapture(state: ReturnType<typeof ensurePageState>) {
+  const capture = state.networkCapture;
+  if (!capture) {
+    throw new Error("No network capture. Run network start first, then reload or interact.");
+  }
+  return capture;
+}
+
+export async function networkCaptureStartViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+}): Promise<{ startedAt: string }> {
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  if (state.networkCapture?.active) {
+    throw new Error("Network capture already running. Stop it before starting a new one.");
+  }
+  const startedAt = new Date().toISOString();
+  state.networkCapture = {
+    startedAt,
+    active: true,
+    entries: [],
+    responses: new Map(),
+    startedAtMs: new Map(),
+  };
+  return { startedAt };
+}
+
+export async function networkCaptureStopViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+}): Promise<{ startedAt: string; entries: number }> {
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  const capture = state.networkCapture;
+  if (!capture?.active) {
+    throw new Error("No active network capture. Start one before stopping it.");
+  }
+  capture.active = false;
+  return { startedAt: capture.startedAt, entries: capture.entries.length };
+}
+
+export async function networkRequestsViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  filter?: string;
+  limit?: number;
+}): Promise<{ active: boolean; startedAt: string; requests: BrowserNetworkEntrySummary[] }> {
+  const page = await getPageForTargetId(opts);
+  const capture = requireNetworkCapture(ensurePageState(page));
+  const filter = opts.filter?.trim() ?? "";
+  const matched = filter
+    ? capture.entries.filter((entry) => matchUrlPattern(filter, entry.url))
+    : capture.entries;
+  const limit =
+    typeof opts.limit === "number" && Number.isFinite(opts.limit) && opts.limit > 0
+      ? Math.floor(opts.limit)
+      : undefined;
+  const selected = limit ? matched.slice(-limit) : matched;
+  return {
+    active: capture.active,
+    startedAt: capture.startedAt,
+    requests: selected.map(summarizeNetworkEntry),
+  };
+}
+
+export async function networkResponseBodyViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  requestId: string;
+  maxChars?: number;
+}): Promise<{
+  id: string;
+  url: string;
+  status?: number;
+  mimeType?: string;
+  encoding: "utf8" | "base64";
+  body: string;
+  truncated?: boolean;
+}> {
+  const page = await getPageForTargetId(opts);
+  const capture = requireNetworkCapture(ensurePageState(page));
+  const requestId = opts.requestId.trim();
+  const entry = capture.entries.find((candidate) => candidate.id === requestId);
+  if (!entry) {
+    throw new Error(`Request ${requestId} not found in the network capture.`);
+  }
+  const response = capture.responses.get(requestId);
+  if (!response) {
+    throw new Error(
+      `Request ${requestId} has no response${entry.failureText ? ` (${entry.failureText})` : ""}.`,
+    );
+  }
+  let buffer: Buffer;
+  try {
+    buffer = await response.body();
+  } catch (err) {
+    throw new Error(`Failed to read response body for "${entry.url}": ${String(err)}`, {
+      cause: err,
+    });
+  }
+  const maxChars =
+    typeof opts.maxChars === "number" && Number.isFinite(opts.maxChars)
+      ? Math.max(1, Math.min(5_000_000, Math.floor(opts.maxChars)))
+      : DEFAULT_BODY_MAX_CHARS;
+  const encoding = isTextMimeType(entry.mimeType) ? "utf8" : "base64";
+  const body = encoding === "utf8" ? buffer.toString("utf8") : buffer.toString("base64");
+  return {
+    id: entry.id,
+    url: entry.url,
+    status: entry.status,
+    mimeType: entry.mimeType,
+    encoding,
+    body: body.length > maxChars ? body.slice(0, maxChars) : body,
+    truncated: body.length > maxChars ? true : undefined,
+  };
+}
+
+function toHarHeaders(headers: Record<string, string> | undefined) {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }));
+}
+
+function toHarQueryString(url: string) {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/** Build a HAR 1.2 log from captured entries. `bodies` maps entry ids to text bodies. */
+export function buildNetworkHar(
+  entries: BrowserNetworkEntry[],
+  bodies: Map<string, string> = new Map(),
+) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "OpenClaw", version: VERSION },
+      pages: [],
+      entries: entries.map((entry) => {
+        const timing = entry.timing ?? {};
+        const text = bodies.get(entry.id);
+        return {
+          startedDateTime: entry.startedAt,
+          time: entry.durationMs ?? -1,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString: toHarQueryString(entry.url),
+            ...(entry.postData !== undefined
+              ? {
+                  postData: {
+                    mimeType: entry.requestHeaders["content-type"] ?? "",
+                    text: entry.postData,
+                  },
+                }
+              : {}),
+            headersSize: -1,
+            bodySize: entry.postData?.length ?? 0,
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.statusText ?? entry.failureText ?? "",
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: toHarHeaders(entry.responseHeaders),
+            content: {
+              size: text?.length ?? -1,
+              mimeType: entry.mimeType ?? "",
+              ...(text !== undefined ? { text } : {}),
+            },
+            redirectURL: entry.responseHeaders?.location ?? "",
+            headersSize: -1,
+            bodySize: -1,
+          },
+          cache: {},
+          timings: {
+            blocked: -1,
+            dns: timing.dnsMs ?? -1,
+            connect: timing.connectMs ?? -1,
+            ssl: timing.sslMs ?? -1,
+            send: 0,
+            wait: timing.waitMs ?? -1,
+            receive: timing.receiveMs ?? -1,
+          },
+          ...(entry.resourceType ? { _resourceType: entry.resourceType } : {}),
+          ...(entry.mocked ? { _mocked: true } : {}),
+        };
+      }),
+    },
+  };
+}
+
+export async function networkHarViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  path: string;
+  filter?: string;
+}): Promise<{ entries: number }> {
+  const page = await getPageForTargetId(opts);
+  const capture = requireNetworkCapture(ensurePageState(page));
+  const filter = opts.filter?.trim() ?? "";
+  const entries = filter
+    ? capture.entries.filter((entry) => matchUrlPattern(filter, entry.url))
+    : [...capture.entries];
+  const bodies = new Map<string, string>();
+  for (const entry of entries) {
+    const response = capture.responses.get(entry.id);
+    if (!response || !isTextMimeType(entry.mimeType)) {
+      continue;
+    }
+    // Bodies can be evicted by the browser (e.g. after navigation); export what is still there.
+    const text = await response.text().catch(() => undefined);
+    if (text !== undefined && text.length <= MAX_HAR_BODY_CHARS) {
+      bodies.set(entry.id, text);
+    }
+  }
+  await fs.writeFile(opts.path, JSON.stringify(buildNetworkHar(entries, bodies), null, 2), "utf8");
+  return { entries: entries.length };
+}
+
+export async function networkRouteViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  url: string;
+  mock: BrowserNetworkMock;
+}): Promise<{ routes: BrowserNetworkRoute[] }> {
+  const pattern = opts.url.trim();
+  if (!pattern) {
+    throw new Error("url is required");
+  }
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  if (!state.networkRoutes.has(pattern) && state.networkRoutes.size >= MAX_ROUTES_PER_PAGE) {
+    throw new Error(`Too many network routes (max ${MAX_ROUTES_PER_PAGE}). Remove some first.`);
+  }
+  const existing = state.networkRoutes.get(pattern);
+  if (existing) {
+    await page.unroute(existing.matcher, existing.handler);
+    state.networkRoutes.delete(pattern);
+  }
+  const route: BrowserNetworkRoute = {
+    ...opts.mock,
+    url: pattern,
+    createdAt: new Date().toISOString(),
+    hits: 0,
+  };
+  const matcher = (url: URL) => matchUrlPattern(pattern, url.href);
+  const handler = async (intercepted: Route) => {
+    route.hits += 1;
+    const request = intercepted.request();
+    state.mockedRequests.add(request);
+    const id = state.requestIds.get(request);
+    const entry = id ? state.networkCapture?.entries.find((item) => item.id === id) : undefined;
+    if (entry) {
+      entry.mocked = true;
+    }
+    if (route.abort) {
+      await intercepted.abort();
+      return;
+    }
+    await intercepted.fulfill({
+      status: route.status ?? 200,
+      contentType: route.contentType,
+      headers: route.headers,
+      body: route.body ?? "",
+    });
+  };
+  await page.route(matcher, handler);
+  state.networkRoutes.set(pattern, { route, matcher, handler });
+  return { routes: Array.from(state.networkRoutes.values(), (entry) => entry.route) };
+}
+
+export async function networkUnrouteViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  url?: string;
+}): Promise<{ removed: number; routes: BrowserNetworkRoute[] }> {
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  const pattern = opts.url?.trim();
+  const targets = pattern
+    ? [state.networkRoutes.get(pattern)].filter((entry) => entry !== undefined)
+    : Array.from(state.networkRoutes.values());
+  if (pattern && targets.length === 0) {
+    throw new Error(`No network route for "${pattern}".`);
+  }
+  for (const entry of targets) {
+    await page.unroute(entry.matcher, entry.handler);
+    state.networkRoutes.delete(entry.route.url);
+  }
+  return {
+    removed: targets.length,
+    routes: Array.from(state.networkRoutes.values(), (entry) => entry.route),
+  };
+}
@@ -1,22 +1,6 @@
 import { formatCliCommand } from "../cli/command-format.js";
 import { ensurePageState, getPageForTargetId } from "./pw-session.js";
-import { normalizeTimeoutMs } from "./pw-tools-core.shared.js";
-
-function matchUrlPattern(pattern: string, url: string): boolean {
-  const p = pattern.trim();
-  if (!p) {
-    return false;
-  }
-  if (p === url) {
-    return true;
-  }
-  if (p.includes("*")) {
-    const escaped = p.replace(/[|\\{}()[\]^$+?.]/g, "\\$&");
-    const regex = new RegExp(`^${escaped.replace(/\*\*/g, ".*").replace(/\*/g, ".*")}$`);
-    return regex.test(url);
-  }
-  return url.includes(p);
-}
+import { matchUrlPattern, normalizeTimeoutMs } from "./pw-tools-core.shared.js";
 
 export async function responseBodyViaPlaywright(opts: {
   cdpUrl: string;
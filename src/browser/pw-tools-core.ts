@@ -1,6 +1,8 @@
 export * from "./pw-tools-core.activity.js";
 export * from "./pw-tools-core.downloads.js";
 export * from "./pw-tools-core.interactions.js";
+export * from "./pw-tools-core.macros.js";
+export * from "./pw-tools-core.network.js";
 export * from "./pw-tools-core.responses.js";
 export * from "./pw-tools-core.snapshot.js";
 export * from "./pw-tools-core.state.js";
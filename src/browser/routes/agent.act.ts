@@ -9,6 +9,7 @@ import {
   parseClickButton,
   parseClickModifiers,
 } from "./agent.act.shared.js";
+import { prepareMacroActStep } from "./agent.macros.js";
 import {
   readBody,
   resolveTargetIdFromBody,
@@ -40,8 +41,20 @@ export function registerBrowserAgentActRoutes(
       ctx,
       targetId,
       feature: `act:${kind}`,
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ profileCtx, cdpUrl, tab, pw }) => {
         const evaluateEnabled = ctx.state().resolved.evaluateEnabled;
+        const macroStep = await prepareMacroActStep({
+          profile: profileCtx.profile.name,
+          targetId: tab.targetId,
+          cdpUrl,
+          kind,
+          body,
+          pw,
+        });
+        const reply = (payload: Record<string, unknown>) => {
+          macroStep?.commit();
+          return res.json(payload);
+        };
 
         switch (kind) {
           case "click": {
@@ -79,7 +92,7 @@ export function registerBrowserAgentActRoutes(
               clickRequest.timeoutMs = timeoutMs;
             }
             await pw.clickViaPlaywright(clickRequest);
-            return res.json({ ok: true, targetId: tab.targetId, url: tab.url });
+            return reply({ ok: true, targetId: tab.targetId, url: tab.url });
           }
           case "type": {
             const ref = toStringOrEmpty(body.ref);
@@ -105,7 +118,7 @@ export function registerBrowserAgentActRoutes(
               typeRequest.timeoutMs = timeoutMs;
             }
             await pw.typeViaPlaywright(typeRequest);
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "press": {
             const key = toStringOrEmpty(body.key);
@@ -119,7 +132,7 @@ export function registerBrowserAgentActRoutes(
               key,
               delayMs: delayMs ?? undefined,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "hover": {
             const ref = toStringOrEmpty(body.ref);
@@ -133,7 +146,7 @@ export function registerBrowserAgentActRoutes(
               ref,
               timeoutMs: timeoutMs ?? undefined,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "scrollIntoView": {
             const ref = toStringOrEmpty(body.ref);
@@ -150,7 +163,7 @@ export function registerBrowserAgentActRoutes(
               scrollRequest.timeoutMs = timeoutMs;
             }
             await pw.scrollIntoViewViaPlaywright(scrollRequest);
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "drag": {
             const startRef = toStringOrEmpty(body.startRef);
@@ -166,7 +179,7 @@ export function registerBrowserAgentActRoutes(
               endRef,
               timeoutMs: timeoutMs ?? undefined,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "select": {
             const ref = toStringOrEmpty(body.ref);
@@ -182,7 +195,7 @@ export function registerBrowserAgentActRoutes(
               values,
               timeoutMs: timeoutMs ?? undefined,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "fill": {
             const rawFields = Array.isArray(body.fields) ? body.fields : [];
@@ -204,7 +217,7 @@ export function registerBrowserAgentActRoutes(
               fields,
               timeoutMs: timeoutMs ?? undefined,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "resize": {
             const width = toNumber(body.width);
@@ -218,7 +231,7 @@ export function registerBrowserAgentActRoutes(
               width,
               height,
             });
-            return res.json({ ok: true, targetId: tab.targetId, url: tab.url });
+            return reply({ ok: true, targetId: tab.targetId, url: tab.url });
           }
           case "wait": {
             const timeMs = toNumber(body.timeMs);
@@ -272,7 +285,7 @@ export function registerBrowserAgentActRoutes(
               fn,
               timeoutMs,
             });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           case "evaluate": {
             if (!evaluateEnabled) {
@@ -302,7 +315,7 @@ export function registerBrowserAgentActRoutes(
               evalRequest.timeoutMs = evalTimeoutMs;
             }
             const result = await pw.evaluateViaPlaywright(evalRequest);
-            return res.json({
+            return reply({
               ok: true,
               targetId: tab.targetId,
               url: tab.url,
@@ -311,7 +324,7 @@ export function registerBrowserAgentActRoutes(
           }
           case "close": {
             await pw.closePageViaPlaywright({ cdpUrl, targetId: tab.targetId });
-            return res.json({ ok: true, targetId: tab.targetId });
+            return reply({ ok: true, targetId: tab.targetId });
           }
           default: {
             return jsonError(res, 400, "unsupported kind");
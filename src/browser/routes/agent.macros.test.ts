@@ -0,0 +1,118 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { withEnvAsync } from "../../test-utils/env.js";
+import {
+  appendBrowserMacroStep,
+  getBrowserMacro,
+  getBrowserMacroRecording,
+  startBrowserMacroRecording,
+  stopBrowserMacroRecording,
+} from "../macros.js";
+import type { PwAiModule } from "../pw-ai-module.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import { prepareMacroActStep, registerBrowserAgentMacroRoutes } from "./agent.macros.js";
+import type { BrowserRouteHandler } from "./types.js";
+
+const PROFILE = "openclaw";
+
+function createMacroRoutes() {
+  const handlers = new Map<string, BrowserRouteHandler>();
+  const register = (method: string) => (routePath: string, handler: BrowserRouteHandler) => {
+    handlers.set(`${method} ${routePath}`, handler);
+  };
+  const ctx = {
+    forProfile: () => ({ profile: { name: PROFILE } }),
+    mapTabError: () => null,
+  } as unknown as BrowserRouteContext;
+  registerBrowserAgentMacroRoutes(
+    { get: register("GET"), post: register("POST"), delete: register("DELETE") },
+    ctx,
+  );
+  return async (method: string, routePath: string, body: Record<string, unknown> = {}) => {
+    const handler = handlers.get(`${method} ${routePath}`);
+    if (!handler) {
+      throw new Error(`no route ${method} ${routePath}`);
+    }
+    let status = 200;
+    let payload: unknown;
+    const res = {
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: (value: unknown) => {
+        payload = value;
+      },
+    };
+    await handler({ params: {}, query: {}, body }, res);
+    return { status, body: payload as Record<string, unknown> };
+  };
+}
+
+describe("browser macro routes", () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-macro-routes-"));
+  });
+
+  afterEach(async () => {
+    if (getBrowserMacroRecording(PROFILE)) {
+      stopBrowserMacroRecording(PROFILE);
+    }
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("keeps the recording when the save request is invalid", async () => {
+    await withEnvAsync({ OPENCLAW_STATE_DIR: stateDir }, async () => {
+      const request = createMacroRoutes();
+      startBrowserMacroRecording({ profile: PROFILE, name: "login", targetId: "tab-1" });
+
+      const empty = await request("POST", "/macros/record/stop");
+      expect(empty.status).toBe(400);
+      expect(getBrowserMacroRecording(PROFILE)).toBeDefined();
+
+      appendBrowserMacroStep({
+        profile: PROFILE,
+        targetId: "tab-1",
+        step: { kind: "navigate", url: "https://example.com/login?user=ada" },
+      });
+      const invalid = await request("POST", "/macros/record/stop", {
+        params: { "user-name": "ada" },
+      });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toContain('"user-name"');
+      expect(getBrowserMacroRecording(PROFILE)?.steps).toHaveLength(1);
+
+      const saved = await request("POST", "/macros/record/stop", { params: { user: "ada" } });
+      expect(saved.status).toBe(200);
+      expect(getBrowserMacroRecording(PROFILE)).toBeUndefined();
+      expect(await getBrowserMacro(PROFILE, "login")).toMatchObject({ params: ["user"] });
+    });
+  });
+
+  it("records unresolved targets as null when describing them fails", async () => {
+    startBrowserMacroRecording({ profile: PROFILE, name: "login", targetId: "tab-1" });
+    const pw = {
+      describeMacroActTargetsViaPlaywright: async () => {
+        throw new Error("page closed");
+      },
+    } as unknown as PwAiModule;
+
+    const step = await prepareMacroActStep({
+      profile: PROFILE,
+      targetId: "tab-1",
+      cdpUrl: "http://127.0.0.1:18800",
+      kind: "click",
+      body: { ref: "e12" },
+      pw,
+    });
+    step?.commit();
+
+    expect(getBrowserMacroRecording(PROFILE)?.steps).toEqual([
+      { kind: "act", request: { kind: "click", ref: "e12" }, targets: { ref: null } },
+    ]);
+  });
+});
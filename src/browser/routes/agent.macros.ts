@@ -0,0 +1,328 @@
+import type { BrowserActRequest } from "../client-actions-core.js";
+import { normalizeBrowserFormField } from "../form-fields.js";
+import {
+  appendBrowserMacroStep,
+  applyBrowserMacroParams,
+  BROWSER_MACRO_RUN_TIMEOUT_MS,
+  buildBrowserMacro,
+  deleteBrowserMacro,
+  getBrowserMacro,
+  getBrowserMacroRecording,
+  listBrowserMacroActRefs,
+  listBrowserMacros,
+  MAX_BROWSER_MACRO_STEPS,
+  saveBrowserMacro,
+  startBrowserMacroRecording,
+  stopBrowserMacroRecording,
+} from "../macros.js";
+import { withBrowserNavigationPolicy } from "../navigation-guard.js";
+import type { PwAiModule } from "../pw-ai-module.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import type { ActKind } from "./agent.act.shared.js";
+import {
+  handleRouteError,
+  readBody,
+  resolveProfileContext,
+  resolveTargetIdFromBody,
+  withPlaywrightRouteContext,
+  withRouteTabContext,
+} from "./agent.shared.js";
+import type { BrowserRouteRegistrar } from "./types.js";
+import { jsonError, toNumber, toStringOrEmpty } from "./utils.js";
+
+// Closing the tab ends the flow and evaluate is arbitrary code; neither is replayed.
+const NON_RECORDABLE_ACT_KINDS = new Set<ActKind>(["close", "evaluate"]);
+const MACRO_RUN_RESPONSE_MARGIN_MS = 5_000;
+
+function readStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, string | number | boolean] =>
+      typeof entry[1] === "string" || typeof entry[1] === "number" || typeof entry[1] === "boolean",
+  );
+  return Object.fromEntries(entries.map(([key, entry]) => [key, String(entry)]));
+}
+
+/**
+ * When the tab is being recorded, capture the act step (and stable targets for its
+ * refs) before it runs. Call `commit()` once the act succeeded.
+ */
+export async function prepareMacroActStep(params: {
+  profile: string;
+  targetId: string;
+  cdpUrl: string;
+  kind: ActKind;
+  body: Record<string, unknown>;
+  pw: PwAiModule;
+}): Promise<{ commit: () => void } | null> {
+  const recording = getBrowserMacroRecording(params.profile);
+  if (
+    !recording ||
+    recording.targetId !== params.targetId ||
+    NON_RECORDABLE_ACT_KINDS.has(params.kind)
+  ) {
+    return null;
+  }
+  if (recording.steps.length >= MAX_BROWSER_MACRO_STEPS) {
+    throw new Error(
+      `Macro "${recording.name}" reached the ${MAX_BROWSER_MACRO_STEPS} step limit. Save it first.`,
+    );
+  }
+  const { targetId: _targetId, ...rest } = params.body;
+  const request = { ...rest, kind: params.kind } as BrowserActRequest;
+  if (request.kind === "fill") {
+    request.fields = (Array.isArray(rest.fields) ? rest.fields : [])
+      .map((field) =>
+        field && typeof field === "object"
+          ? normalizeBrowserFormField(field as Record<string, unknown>)
+          : null,
+      )
+      .filter((field) => field !== null);
+  }
+  const targets = await params.pw
+    .describeMacroActTargetsViaPlaywright({
+      cdpUrl: params.cdpUrl,
+      targetId: params.targetId,
+      request,
+    })
+    .catch(() => {
+      // Unknown targets make replay hand the step back to the agent instead of guessing.
+      const refs = listBrowserMacroActRefs(request);
+      return refs.length > 0 ? Object.fromEntries(refs.map(([key]) => [key, null])) : undefined;
+    });
+  return {
+    commit: () => {
+      appendBrowserMacroStep({
+        profile: params.profile,
+        targetId: params.targetId,
+        step: { kind: "act", request, ...(targets ? { targets } : {}) },
+      });
+    },
+  };
+}
+
+export function registerBrowserAgentMacroRoutes(
+  app: BrowserRouteRegistrar,
+  ctx: BrowserRouteContext,
+) {
+  app.get("/macros", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const profile = profileCtx.profile.name;
+    try {
+      const macros = await listBrowserMacros(profile);
+      const recording = getBrowserMacroRecording(profile);
+      res.json({
+        ok: true,
+        profile,
+        macros: macros.map(({ steps, ...macro }) => ({ ...macro, stepCount: steps.length })),
+        ...(recording
+          ? {
+              recording: {
+                name: recording.name,
+                targetId: recording.targetId,
+                startedAt: recording.startedAt,
+                stepCount: recording.steps.length,
+              },
+            }
+          : {}),
+      });
+    } catch (err) {
+      handleRouteError(ctx, res, err);
+    }
+  });
+
+  app.post("/macros/record/start", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const name = toStringOrEmpty(body.name);
+    if (!name) {
+      return jsonError(res, 400, "name is required");
+    }
+
+    await withRouteTabContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      run: async ({ profileCtx, tab }) => {
+        let recording;
+        try {
+          recording = startBrowserMacroRecording({
+            profile: profileCtx.profile.name,
+            name,
+            targetId: tab.targetId,
+          });
+        } catch (err) {
+          return jsonError(res, 409, err instanceof Error ? err.message : String(err));
+        }
+        res.json({
+          ok: true,
+          targetId: tab.targetId,
+          name: recording.name,
+          startedAt: recording.startedAt,
+        });
+      },
+    });
+  });
+
+  app.post("/macros/record/checkpoint", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const text = toStringOrEmpty(body.text) || undefined;
+    const textGone = toStringOrEmpty(body.textGone) || undefined;
+    const url = toStringOrEmpty(body.url) || undefined;
+    const selector = toStringOrEmpty(body.selector) || undefined;
+    if (!text && !textGone && !url && !selector) {
+      return jsonError(
+        res,
+        400,
+        "checkpoint requires at least one of: text, textGone, url, selector",
+      );
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "macro checkpoint",
+      run: async ({ profileCtx, cdpUrl, tab, pw }) => {
+        const recording = getBrowserMacroRecording(profileCtx.profile.name);
+        if (!recording || recording.targetId !== tab.targetId) {
+          return jsonError(res, 409, "No macro recording on this tab. Start one first.");
+        }
+        // Only record checkpoints that hold right now, so replays assert known-good state.
+        await pw.waitForViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          text,
+          textGone,
+          url,
+          selector,
+          timeoutMs: 5000,
+        });
+        appendBrowserMacroStep({
+          profile: profileCtx.profile.name,
+          targetId: tab.targetId,
+          step: { kind: "assert", text, textGone, url, selector },
+        });
+        res.json({ ok: true, targetId: tab.targetId, stepCount: recording.steps.length });
+      },
+    });
+  });
+
+  app.post("/macros/record/stop", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const body = readBody(req);
+    const profile = profileCtx.profile.name;
+    const recording = getBrowserMacroRecording(profile);
+    if (!recording) {
+      return jsonError(res, 409, `No macro recording on profile "${profile}". Start one first.`);
+    }
+    if (body.discard === true) {
+      stopBrowserMacroRecording(profile);
+      return res.json({ ok: true, discarded: true, name: recording.name });
+    }
+    // Keep the recording until the macro is saved so a bad request can be retried.
+    if (recording.steps.length === 0) {
+      return jsonError(
+        res,
+        400,
+        `Macro "${recording.name}" has no recorded steps yet; keep recording or discard it.`,
+      );
+    }
+    let macro;
+    try {
+      macro = buildBrowserMacro({
+        recording,
+        description: toStringOrEmpty(body.description) || undefined,
+        params: readStringRecord(body.params),
+      });
+    } catch (err) {
+      return jsonError(res, 400, err instanceof Error ? err.message : String(err));
+    }
+    try {
+      const saved = await saveBrowserMacro(profile, macro);
+      if (getBrowserMacroRecording(profile) === recording) {
+        stopBrowserMacroRecording(profile);
+      }
+      res.json({ ok: true, profile, macro: saved });
+    } catch (err) {
+      handleRouteError(ctx, res, err);
+    }
+  });
+
+  app.post("/macros/run", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const name = toStringOrEmpty(body.name);
+    const stepTimeoutMs = toNumber(body.stepTimeoutMs);
+    if (!name) {
+      return jsonError(res, 400, "name is required");
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "macro run",
+      run: async ({ profileCtx, cdpUrl, tab, pw }) => {
+        const profile = profileCtx.profile.name;
+        if (getBrowserMacroRecording(profile)) {
+          return jsonError(res, 409, "Cannot run a macro while recording one on this profile.");
+        }
+        const macro = await getBrowserMacro(profile, name);
+        if (!macro) {
+          return jsonError(res, 404, `Macro "${name}" not found on profile "${profile}".`);
+        }
+        let steps;
+        try {
+          steps = applyBrowserMacroParams(macro, readStringRecord(body.params));
+        } catch (err) {
+          return jsonError(res, 400, err instanceof Error ? err.message : String(err));
+        }
+        const resolved = ctx.state().resolved;
+        const result = await pw.replayMacroViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          steps,
+          stepTimeoutMs,
+          // Stop early enough for the partial result to reach the client before it gives up.
+          timeoutMs: BROWSER_MACRO_RUN_TIMEOUT_MS - MACRO_RUN_RESPONSE_MARGIN_MS,
+          evaluateEnabled: resolved.evaluateEnabled,
+          ...withBrowserNavigationPolicy(resolved.ssrfPolicy),
+        });
+        res.json({ ok: true, targetId: tab.targetId, name: macro.name, ...result });
+      },
+    });
+  });
+
+  app.delete("/macros/:name", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    const name = toStringOrEmpty(req.params.name);
+    if (!name) {
+      return jsonError(res, 400, "name is required");
+    }
+    try {
+      const deleted = await deleteBrowserMacro(profileCtx.profile.name, name);
+      if (!deleted) {
+        return jsonError(res, 404, `Macro "${name}" not found.`);
+      }
+      res.json({ ok: true, deleted: true, name });
+    } catch (err) {
+      handleRouteError(ctx, res, err);
+    }
+  });
+}
@@ -0,0 +1,227 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import type { BrowserNetworkMock } from "../pw-session.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import {
+  readBody,
+  resolveTargetIdFromBody,
+  resolveTargetIdFromQuery,
+  withPlaywrightRouteContext,
+} from "./agent.shared.js";
+import { resolveWritableOutputPathOrRespond } from "./output-paths.js";
+import { DEFAULT_TRACE_DIR } from "./path-output.js";
+import type { BrowserRouteRegistrar } from "./types.js";
+import { jsonError, toBoolean, toNumber, toStringOrEmpty } from "./utils.js";
+
+function readNetworkMock(body: Record<string, unknown>): BrowserNetworkMock | { error: string } {
+  const status = toNumber(body.status);
+  if (status !== undefined && (!Number.isInteger(status) || status < 100 || status > 599)) {
+    return { error: "status must be an HTTP status code (100-599)" };
+  }
+  const headers: Record<string, string> = {};
+  if (body.headers && typeof body.headers === "object" && !Array.isArray(body.headers)) {
+    for (const [name, value] of Object.entries(body.headers as Record<string, unknown>)) {
+      if (typeof value === "string" || typeof value === "number") {
+        headers[name] = String(value);
+      }
+    }
+  }
+  const rawBody = body.body;
+  const isJsonBody = rawBody !== undefined && typeof rawBody !== "string";
+  const contentType =
+    toStringOrEmpty(body.contentType) || (isJsonBody ? "application/json" : undefined);
+  return {
+    status,
+    contentType,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    body: typeof rawBody === "string" || rawBody === undefined ? rawBody : JSON.stringify(rawBody),
+    abort: toBoolean(body.abort) ?? undefined,
+  };
+}
+
+export function registerBrowserAgentNetworkRoutes(
+  app: BrowserRouteRegistrar,
+  ctx: BrowserRouteContext,
+) {
+  app.post("/network/start", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network capture",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.networkCaptureStartViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+        });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.post("/network/stop", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network capture",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.networkCaptureStopViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+        });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.get("/network/requests", async (req, res) => {
+    const targetId = resolveTargetIdFromQuery(req.query);
+    const filter = toStringOrEmpty(req.query.filter);
+    const limit = toNumber(req.query.limit);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network capture",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.networkRequestsViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          filter: filter || undefined,
+          limit,
+        });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.post("/network/body", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const requestId = toStringOrEmpty(body.requestId);
+    const maxChars = toNumber(body.maxChars);
+    if (!requestId) {
+      return jsonError(res, 400, "requestId is required");
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network response body",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const response = await pw.networkResponseBodyViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          requestId,
+          maxChars,
+        });
+        res.json({ ok: true, targetId: tab.targetId, response });
+      },
+    });
+  });
+
+  app.post("/network/har", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const out = toStringOrEmpty(body.path);
+    const filter = toStringOrEmpty(body.filter);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network HAR export",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const harPath = await resolveWritableOutputPathOrRespond({
+          res,
+          rootDir: DEFAULT_TRACE_DIR,
+          requestedPath: out,
+          scopeLabel: "trace directory",
+          defaultFileName: `browser-network-${crypto.randomUUID()}.har`,
+          ensureRootDir: true,
+        });
+        if (!harPath) {
+          return;
+        }
+        const result = await pw.networkHarViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          path: harPath,
+          filter: filter || undefined,
+        });
+        res.json({
+          ok: true,
+          targetId: tab.targetId,
+          path: path.resolve(harPath),
+          ...result,
+        });
+      },
+    });
+  });
+
+  app.post("/network/route", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const url = toStringOrEmpty(body.url);
+    if (!url) {
+      return jsonError(res, 400, "url is required");
+    }
+    const mock = readNetworkMock(body);
+    if ("error" in mock) {
+      return jsonError(res, 400, mock.error);
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network route",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.networkRouteViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          url,
+          mock,
+        });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+
+  app.post("/network/unroute", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const url = toStringOrEmpty(body.url);
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "network route",
+      run: async ({ cdpUrl, tab, pw }) => {
+        const result = await pw.networkUnrouteViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          url: url || undefined,
+        });
+        res.json({ ok: true, targetId: tab.targetId, ...result });
+      },
+    });
+  });
+}
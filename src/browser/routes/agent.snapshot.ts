@@ -6,6 +6,7 @@ import {
   DEFAULT_AI_SNAPSHOT_EFFICIENT_MAX_CHARS,
   DEFAULT_AI_SNAPSHOT_MAX_CHARS,
 } from "../constants.js";
+import { appendBrowserMacroStep } from "../macros.js";
 import { withBrowserNavigationPolicy } from "../navigation-guard.js";
 import {
   DEFAULT_BROWSER_SCREENSHOT_MAX_BYTES,
@@ -65,13 +66,18 @@ export function registerBrowserAgentSnapshotRoutes(
       ctx,
       targetId,
       feature: "navigate",
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ profileCtx, cdpUrl, tab, pw }) => {
         const result = await pw.navigateViaPlaywright({
           cdpUrl,
           targetId: tab.targetId,
           url,
           ...withBrowserNavigationPolicy(ctx.state().resolved.ssrfPolicy),
         });
+        appendBrowserMacroStep({
+          profile: profileCtx.profile.name,
+          targetId: tab.targetId,
+          step: { kind: "navigate", url },
+        });
         res.json({ ok: true, targetId: tab.targetId, ...result });
       },
     });
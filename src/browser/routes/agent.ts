@@ -1,6 +1,8 @@
 import type { BrowserRouteContext } from "../server-context.js";
 import { registerBrowserAgentActRoutes } from "./agent.act.js";
 import { registerBrowserAgentDebugRoutes } from "./agent.debug.js";
+import { registerBrowserAgentMacroRoutes } from "./agent.macros.js";
+import { registerBrowserAgentNetworkRoutes } from "./agent.network.js";
 import { registerBrowserAgentSnapshotRoutes } from "./agent.snapshot.js";
 import { registerBrowserAgentStorageRoutes } from "./agent.storage.js";
 import type { BrowserRouteRegistrar } from "./types.js";
@@ -9,5 +11,7 @@ export function registerBrowserAgentRoutes(app: BrowserRouteRegistrar, ctx: Brow
   registerBrowserAgentSnapshotRoutes(app, ctx);
   registerBrowserAgentActRoutes(app, ctx);
   registerBrowserAgentDebugRoutes(app, ctx);
+  registerBrowserAgentNetworkRoutes(app, ctx);
+  registerBrowserAgentMacroRoutes(app, ctx);
   registerBrowserAgentStorageRoutes(app, ctx);
 }
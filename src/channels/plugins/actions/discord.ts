@@ -22,6 +22,7 @@ export const discordMessageActions: ChannelMessageActionAdapter = {
     const actions = new Set<ChannelMessageActionName>(["send"]);
     if (isEnabled("polls")) {
       actions.add("poll");
+      actions.add("poll-results");
     }
     if (isEnabled("reactions")) {
       actions.add("react");
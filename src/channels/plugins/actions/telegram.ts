@@ -93,8 +93,14 @@ export const telegramMessageActions: ChannelMessageActionAdapter = {
     if (isEnabled("createForumTopic")) {
       actions.add("topic-create");
     }
+    if (isEnabled("polls")) {
+      actions.add("poll");
+      actions.add("poll-results");
+    }
     return Array.from(actions);
   },
+  // Polls are sent through the outbound adapter and their results are tracked in core.
+  supportsAction: ({ action }) => action !== "poll" && action !== "poll-results",
   supportsButtons: ({ cfg }) => {
     const accounts = listTokenSourcedAccounts(listEnabledTelegramAccounts(cfg));
     if (accounts.length === 0) {
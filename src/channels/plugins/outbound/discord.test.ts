@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ReplyPayload } from "../../../auto-reply/types.js";
 import { normalizeDiscordOutboundTarget } from "../normalize/discord.js";
 
 const hoisted = vi.hoisted(() => {
@@ -243,4 +244,56 @@ describe("discordOutbound", () => {
       channelId: "ch-1",
     });
   });
+
+  it("renders reply choices as buttons carrying the choice callback data", () => {
+    const payload: ReplyPayload = {
+      text: "Deploy?",
+      choices: [{ label: "Yes" }, { label: "No" }],
+    };
+
+    expect(discordOutbound.renderChoices?.({ cfg: {}, payload })?.channelData).toEqual({
+      discord: {
+        replyChoices: [
+          { label: "Yes", customId: "oc_choice:1:Yes" },
+          { label: "No", customId: "oc_choice:2:No" },
+        ],
+      },
+    });
+    expect(
+      discordOutbound.renderChoices?.({
+        cfg: { channels: { discord: { agentComponents: { enabled: false } } } },
+        payload,
+      }),
+    ).toBeNull();
+  });
+
+  it("sends reply choice buttons as message components", async () => {
+    const result = await discordOutbound.sendPayload?.({
+      cfg: {},
+      to: "channel:parent-1",
+      text: "",
+      accountId: "default",
+      payload: {
+        text: "Deploy?",
+        channelData: {
+          discord: { replyChoices: [{ label: "Yes", customId: "oc_choice:1:Yes" }] },
+        },
+      },
+    });
+
+    expect(hoisted.sendMessageDiscordMock).toHaveBeenCalledTimes(1);
+    const [target, text, opts] = hoisted.sendMessageDiscordMock.mock.calls[0] as [
+      string,
+      string,
+      { components?: Array<{ components: Array<{ customId: string; label: string }> }> },
+    ];
+    expect(target).toBe("channel:parent-1");
+    expect(text).toBe("Deploy?");
+    expect(
+      opts.components?.flatMap((row) =>
+        row.components.map((button) => ({ label: button.label, customId: button.customId })),
+      ),
+    ).toEqual([{ label: "Yes", customId: "oc_choice:1:Yes" }]);
+    expect(result).toEqual({ channel: "discord", messageId: "msg-1", channelId: "ch-1" });
+  });
 });
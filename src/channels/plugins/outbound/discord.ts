@@ -1,7 +1,13 @@
+import { resolveDiscordAccount } from "../../../discord/accounts.js";
 import {
   getThreadBindingManager,
   type ThreadBindingRecord,
 } from "../../../discord/monitor/thread-bindings.js";
+import {
+  buildDiscordReplyChoiceButtons,
+  buildDiscordReplyChoiceRows,
+  readDiscordReplyChoiceButtons,
+} from "../../../discord/reply-choices.js";
 import {
   sendMessageDiscord,
   sendPollDiscord,
@@ -80,6 +86,24 @@ export const discordOutbound: ChannelOutboundAdapter = {
   textChunkLimit: 2000,
   pollMaxOptions: 10,
   resolveTarget: ({ to }) => normalizeDiscordOutboundTarget(to),
+  renderChoices: ({ cfg, accountId, payload }) => {
+    // Choice buttons are handled by the agent component listener.
+    const account = resolveDiscordAccount({ cfg, accountId });
+    if (account.config.agentComponents?.enabled === false) {
+      return null;
+    }
+    const discordData = (payload.channelData?.discord ?? {}) as Record<string, unknown>;
+    return {
+      ...payload,
+      channelData: {
+        ...payload.channelData,
+        discord: {
+          ...discordData,
+          replyChoices: buildDiscordReplyChoiceButtons(payload.choices ?? []),
+        },
+      },
+    };
+  },
   sendText: async ({ to, text, accountId, deps, replyToId, threadId, identity, silent }) => {
     if (!silent) {
       const webhookResult = await maybeSendDiscordWebhookText({
@@ -126,6 +150,47 @@ export const discordOutbound: ChannelOutboundAdapter = {
     });
     return { channel: "discord", ...result };
   },
+  sendPayload: async (ctx) => {
+    const { to, payload, mediaLocalRoots, accountId, deps, replyToId, threadId, silent } = ctx;
+    const send = deps?.sendDiscord ?? sendMessageDiscord;
+    const target = resolveDiscordOutboundTarget({ to, threadId });
+    const buttons = readDiscordReplyChoiceButtons(payload);
+    const text = payload.text ?? "";
+    const mediaUrls = payload.mediaUrls?.length
+      ? payload.mediaUrls
+      : payload.mediaUrl
+        ? [payload.mediaUrl]
+        : [];
+    if (buttons.length === 0 && mediaUrls.length === 0) {
+      // Nothing to attach: keep the plain text path (including thread-bound webhook personas).
+      return await discordOutbound.sendText!({ ...ctx, text });
+    }
+    const components = buttons.length > 0 ? buildDiscordReplyChoiceRows(buttons) : undefined;
+    const baseOpts = {
+      verbose: false,
+      replyTo: replyToId ?? undefined,
+      accountId: accountId ?? undefined,
+      silent: silent ?? undefined,
+    };
+
+    if (mediaUrls.length === 0) {
+      const result = await send(target, text, { ...baseOpts, components });
+      return { channel: "discord", ...result };
+    }
+
+    // Components ride on the first message, alongside the caption.
+    let finalResult: Awaited<ReturnType<typeof send>> | undefined;
+    for (let i = 0; i < mediaUrls.length; i += 1) {
+      const isFirst = i === 0;
+      finalResult = await send(target, isFirst ? text : "", {
+        ...baseOpts,
+        mediaUrl: mediaUrls[i],
+        mediaLocalRoots,
+        ...(isFirst ? { components } : {}),
+      });
+    }
+    return { channel: "discord", ...(finalResult ?? { messageId: "unknown", channelId: target }) };
+  },
   sendPoll: async ({ to, poll, accountId, threadId, silent }) => {
     const target = resolveDiscordOutboundTarget({ to, threadId });
     return await sendPollDiscord(target, poll, {
@@ -169,3 +169,58 @@ describe("slack outbound hook wiring", () => {
     expect(sendMessageSlack).toHaveBeenCalled();
   });
 });
+
+describe("slack outbound reply choices", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getGlobalHookRunner).mockReturnValue(null);
+  });
+
+  it("renders reply choices as action ids carrying the choice callback data", () => {
+    const payload = { text: "Deploy?", choices: [{ label: "Yes" }, { label: "No" }] };
+
+    expect(
+      slackOutbound.renderChoices?.({ cfg: {} as OpenClawConfig, payload })?.channelData,
+    ).toEqual({
+      slack: {
+        replyChoices: [
+          { label: "Yes", actionId: "oc_choice:1:Yes" },
+          { label: "No", actionId: "oc_choice:2:No" },
+        ],
+      },
+    });
+  });
+
+  it("sends the reply and then a Block Kit buttons message", async () => {
+    await slackOutbound.sendPayload?.({
+      cfg: {} as OpenClawConfig,
+      ...BASE_SLACK_SEND_CTX,
+      text: "",
+      payload: {
+        text: "Deploy?",
+        channelData: { slack: { replyChoices: [{ label: "Yes", actionId: "oc_choice:1:Yes" }] } },
+      },
+    });
+
+    expect(sendMessageSlack).toHaveBeenCalledTimes(2);
+    expectSlackSendCalledWith("Deploy?");
+    expect(sendMessageSlack).toHaveBeenLastCalledWith("C123", "1. Yes", {
+      threadTs: "1111.2222",
+      accountId: "default",
+      blocks: [
+        {
+          type: "actions",
+          block_id: "openclaw_reply_choices",
+          elements: [
+            {
+              type: "button",
+              action_id: "oc_choice:1:Yes",
+              value: "oc_choice:1:Yes",
+              text: { type: "plain_text", text: "Yes" },
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -1,5 +1,12 @@
+import type { Block, KnownBlock } from "@slack/web-api";
 import type { OutboundIdentity } from "../../../infra/outbound/identity.js";
 import { getGlobalHookRunner } from "../../../plugins/hook-runner-global.js";
+import {
+  buildSlackReplyChoiceBlocks,
+  buildSlackReplyChoiceButtons,
+  formatSlackReplyChoicesFallbackText,
+  readSlackReplyChoiceButtons,
+} from "../../../slack/reply-choices.js";
 import { sendMessageSlack, type SlackSendIdentity } from "../../../slack/send.js";
 import type { ChannelOutboundAdapter } from "../types.js";
 
@@ -56,6 +63,7 @@ async function sendSlackOutboundMessage(params: {
   replyToId?: string | null;
   threadId?: string | number | null;
   identity?: OutboundIdentity;
+  blocks?: (Block | KnownBlock)[];
 }) {
   const send = params.deps?.sendSlack ?? sendMessageSlack;
   // Use threadId fallback so routed tool notifications stay in the Slack thread.
@@ -85,6 +93,7 @@ async function sendSlackOutboundMessage(params: {
       ? { mediaUrl: params.mediaUrl, mediaLocalRoots: params.mediaLocalRoots }
       : {}),
     ...(slackIdentity ? { identity: slackIdentity } : {}),
+    ...(params.blocks ? { blocks: params.blocks } : {}),
   });
   return { channel: "slack" as const, ...result };
 }
@@ -93,6 +102,16 @@ export const slackOutbound: ChannelOutboundAdapter = {
   deliveryMode: "direct",
   chunker: null,
   textChunkLimit: 4000,
+  renderChoices: ({ payload }) => {
+    const slackData = (payload.channelData?.slack ?? {}) as Record<string, unknown>;
+    return {
+      ...payload,
+      channelData: {
+        ...payload.channelData,
+        slack: { ...slackData, replyChoices: buildSlackReplyChoiceButtons(payload.choices ?? []) },
+      },
+    };
+  },
   sendText: async ({ to, text, accountId, deps, replyToId, threadId, identity }) => {
     return await sendSlackOutboundMessage({
       to,
@@ -127,4 +146,47 @@ export const slackOutbound: ChannelOutboundAdapter = {
       identity,
     });
   },
+  sendPayload: async ({
+    to,
+    payload,
+    mediaLocalRoots,
+    accountId,
+    deps,
+    replyToId,
+    threadId,
+    identity,
+  }) => {
+    const base = { to, accountId, deps, replyToId, threadId, identity };
+    const text = payload.text ?? "";
+    const mediaUrls = payload.mediaUrls?.length
+      ? payload.mediaUrls
+      : payload.mediaUrl
+        ? [payload.mediaUrl]
+        : [];
+    let result: Awaited<ReturnType<typeof sendSlackOutboundMessage>> | undefined;
+    if (mediaUrls.length === 0) {
+      if (text.trim()) {
+        result = await sendSlackOutboundMessage({ ...base, text });
+      }
+    } else {
+      for (let i = 0; i < mediaUrls.length; i += 1) {
+        result = await sendSlackOutboundMessage({
+          ...base,
+          text: i === 0 ? text : "",
+          mediaUrl: mediaUrls[i],
+          mediaLocalRoots,
+        });
+      }
+    }
+    const buttons = readSlackReplyChoiceButtons(payload);
+    if (buttons.length > 0) {
+      // Reply choices follow the reply as their own Block Kit message.
+      result = await sendSlackOutboundMessage({
+        ...base,
+        text: formatSlackReplyChoicesFallbackText(buttons),
+        blocks: buildSlackReplyChoiceBlocks(buttons),
+      });
+    }
+    return result ?? { channel: "slack", messageId: "unknown", channelId: to };
+  },
 };
@@ -113,4 +113,30 @@ describe("telegramOutbound", () => {
     expect(secondCallOpts?.buttons).toBeUndefined();
     expect(result).toEqual({ channel: "telegram", messageId: "tg-2", chatId: "123" });
   });
+
+  it("renders reply choices as inline buttons unless buttons are off", () => {
+    const renderChoices = telegramOutbound.renderChoices;
+    expect(renderChoices).toBeDefined();
+    const payload: ReplyPayload = {
+      text: "Deploy?",
+      choices: [{ label: "Yes" }, { label: "No" }],
+      channelData: { telegram: { buttons: [[{ text: "Docs", callback_data: "docs" }]] } },
+    };
+
+    expect(renderChoices!({ cfg: {}, payload })?.channelData).toEqual({
+      telegram: {
+        buttons: [
+          [{ text: "Docs", callback_data: "docs" }],
+          [{ text: "Yes", callback_data: "oc_choice:1:Yes" }],
+          [{ text: "No", callback_data: "oc_choice:2:No" }],
+        ],
+      },
+    });
+    expect(
+      renderChoices!({
+        cfg: { channels: { telegram: { capabilities: { inlineButtons: "off" } } } },
+        payload,
+      }),
+    ).toBeNull();
+  });
 });
@@ -1,6 +1,8 @@
+import { buildReplyChoiceCallbackData } from "../../../auto-reply/reply/reply-choices.js";
 import type { OutboundSendDeps } from "../../../infra/outbound/deliver.js";
 import type { TelegramInlineButtons } from "../../../telegram/button-types.js";
 import { markdownToTelegramHtmlChunks } from "../../../telegram/format.js";
+import { resolveTelegramInlineButtonsScope } from "../../../telegram/inline-buttons.js";
 import {
   parseTelegramReplyToMessageId,
   parseTelegramThreadId,
@@ -41,6 +43,25 @@ export const telegramOutbound: ChannelOutboundAdapter = {
   chunker: markdownToTelegramHtmlChunks,
   chunkerMode: "markdown",
   textChunkLimit: 4000,
+  renderChoices: ({ cfg, accountId, payload }) => {
+    // Choice buttons only work when callback queries are processed.
+    if (resolveTelegramInlineButtonsScope({ cfg, accountId }) === "off") {
+      return null;
+    }
+    const telegramData = (payload.channelData?.telegram ?? {}) as {
+      buttons?: TelegramInlineButtons;
+    };
+    const choiceRows = (payload.choices ?? []).map((choice, index) => [
+      { text: choice.label, callback_data: buildReplyChoiceCallbackData(index, choice.label) },
+    ]);
+    return {
+      ...payload,
+      channelData: {
+        ...payload.channelData,
+        telegram: { ...telegramData, buttons: [...(telegramData.buttons ?? []), ...choiceRows] },
+      },
+    };
+  },
   sendText: async ({ to, text, accountId, deps, replyToId, threadId }) => {
     const { send, baseOpts } = resolveTelegramSendContext({
       deps,
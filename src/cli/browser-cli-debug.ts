@@ -222,4 +222,221 @@ export function registerBrowserDebugCommands(
         defaultRuntime.log(`TRACE:${shortenHomePath(result.path)}`);
       });
     });
+
+  const network = browser
+    .command("network")
+    .description("Capture network traffic, export HAR files and mock requests");
+
+  const runNetworkPost = async (
+    cmd: Command,
+    path: string,
+    body: Record<string, unknown>,
+    render: (result: Record<string, unknown>) => string,
+  ) => {
+    const parent = parentOpts(cmd);
+    const profile = parent?.browserProfile;
+    await runBrowserDebug(async () => {
+      const result = await callBrowserRequest<Record<string, unknown>>(
+        parent,
+        {
+          method: "POST",
+          path,
+          query: profile ? { profile } : undefined,
+          body,
+        },
+        { timeoutMs: 20000 },
+      );
+      if (parent?.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      defaultRuntime.log(render(result));
+    });
+  };
+
+  const formatRoutes = (routes: unknown) => {
+    const list = Array.isArray(routes)
+      ? (routes as Array<{ url: string; status?: number; abort?: boolean; hits?: number }>)
+      : [];
+    if (list.length === 0) {
+      return "No network routes.";
+    }
+    return list
+      .map((route) => {
+        const action = route.abort ? "abort" : `${route.status ?? 200}`;
+        return `${route.url} -> ${action} (hits: ${route.hits ?? 0})`;
+      })
+      .join("\n");
+  };
+
+  network
+    .command("start")
+    .description("Start capturing network requests (reload or interact afterwards)")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/start",
+        { targetId: opts.targetId?.trim() || undefined },
+        () => "network capture started",
+      );
+    });
+
+  network
+    .command("stop")
+    .description("Stop capturing (captured requests stay available)")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/stop",
+        { targetId: opts.targetId?.trim() || undefined },
+        (result) => `network capture stopped (${String(result.entries)} requests)`,
+      );
+    });
+
+  network
+    .command("requests")
+    .description("List captured requests with status and timing")
+    .option("--filter <glob>", "Only show URLs matching this glob (e.g. **/api/**)")
+    .option("--limit <n>", "Only show the most recent N requests", (v: string) => Number(v))
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserDebug(async () => {
+        const result = await callBrowserRequest<{
+          active: boolean;
+          requests: Array<{
+            id: string;
+            method: string;
+            url: string;
+            status?: number;
+            durationMs?: number;
+            failureText?: string;
+            mocked?: boolean;
+          }>;
+        }>(
+          parent,
+          {
+            method: "GET",
+            path: "/network/requests",
+            query: {
+              targetId: opts.targetId?.trim() || undefined,
+              filter: opts.filter?.trim() || undefined,
+              limit: Number.isFinite(opts.limit) ? opts.limit : undefined,
+              profile,
+            },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (!result.requests.length) {
+          defaultRuntime.log(
+            result.active ? "No requests captured yet." : "No requests captured (capture stopped).",
+          );
+          return;
+        }
+        defaultRuntime.log(
+          result.requests
+            .map((r) => {
+              const status = typeof r.status === "number" ? ` ${r.status}` : " pending";
+              const duration = typeof r.durationMs === "number" ? ` ${r.durationMs}ms` : "";
+              const mocked = r.mocked ? " [mocked]" : "";
+              const fail = r.failureText ? ` (${r.failureText})` : "";
+              return `${r.id} ${r.method}${status}${duration}${mocked} ${r.url}${fail}`;
+            })
+            .join("\n"),
+        );
+      });
+    });
+
+  network
+    .command("body")
+    .description("Print the response body of a captured request")
+    .argument("<requestId>", "Request id from `network requests`")
+    .option("--max-chars <n>", "Truncate the body to N characters", (v: string) => Number(v))
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (requestId: string, opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/body",
+        {
+          targetId: opts.targetId?.trim() || undefined,
+          requestId: requestId.trim(),
+          maxChars: Number.isFinite(opts.maxChars) ? opts.maxChars : undefined,
+        },
+        (result) => {
+          const response = (result.response ?? {}) as { body?: string; truncated?: boolean };
+          return `${response.body ?? ""}${response.truncated ? "\n…(truncated)" : ""}`;
+        },
+      );
+    });
+
+  network
+    .command("har")
+    .description("Export captured requests as a HAR file")
+    .option(
+      "--out <path>",
+      "Output path within openclaw temp dir (e.g. network.har or /tmp/openclaw/network.har)",
+    )
+    .option("--filter <glob>", "Only export URLs matching this glob")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/har",
+        {
+          targetId: opts.targetId?.trim() || undefined,
+          path: opts.out?.trim() || undefined,
+          filter: opts.filter?.trim() || undefined,
+        },
+        (result) => `HAR:${shortenHomePath(String(result.path))}`,
+      );
+    });
+
+  network
+    .command("route")
+    .description("Mock requests matching a URL glob")
+    .argument("<url>", "URL glob (e.g. **/api/profile)")
+    .option("--status <code>", "Response status (default 200)", (v: string) => Number(v))
+    .option("--content-type <type>", "Response content type")
+    .option("--body <text>", "Response body")
+    .option("--abort", "Fail matching requests instead of fulfilling them", false)
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (url: string, opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/route",
+        {
+          targetId: opts.targetId?.trim() || undefined,
+          url: url.trim(),
+          status: Number.isFinite(opts.status) ? opts.status : undefined,
+          contentType: opts.contentType?.trim() || undefined,
+          body: opts.body,
+          abort: Boolean(opts.abort),
+        },
+        (result) => formatRoutes(result.routes),
+      );
+    });
+
+  network
+    .command("unroute")
+    .description("Remove a request mock (or all mocks when no URL is given)")
+    .argument("[url]", "URL glob passed to `network route`")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (url: string | undefined, opts, cmd) => {
+      await runNetworkPost(
+        cmd,
+        "/network/unroute",
+        {
+          targetId: opts.targetId?.trim() || undefined,
+          url: url?.trim() || undefined,
+        },
+        (result) => `removed ${String(result.removed)}\n${formatRoutes(result.routes)}`,
+      );
+    });
 }
@@ -0,0 +1,235 @@
+import type { Command } from "commander";
+import { BROWSER_MACRO_RUN_TIMEOUT_MS } from "../browser/macros.js";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { callBrowserRequest, type BrowserParentOpts } from "./browser-cli-shared.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+
+type MacroRunResult = {
+  name: string;
+  status: "completed" | "needs-agent" | "failed";
+  totalSteps: number;
+  completedSteps: number;
+  failedStep?: { index: number };
+  reason?: string;
+  error?: string;
+};
+
+function collectParam(value: string, previous: string[] = []) {
+  return [...previous, value];
+}
+
+function parseParams(raw: string[] | undefined): Record<string, string> | undefined {
+  if (!raw?.length) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  for (const entry of raw) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid --param "${entry}" (expected name=value)`);
+    }
+    params[entry.slice(0, eq).trim()] = entry.slice(eq + 1);
+  }
+  return params;
+}
+
+export function registerBrowserMacroCommands(
+  browser: Command,
+  parentOpts: (cmd: Command) => BrowserParentOpts,
+) {
+  const macro = browser
+    .command("macro")
+    .description("Record and replay multi-step browser flows as named macros");
+
+  const runMacroRequest = async <T>(
+    cmd: Command,
+    request: { method: "GET" | "POST" | "DELETE"; path: string; body?: unknown },
+    render: (result: T) => string,
+    timeoutMs = 20000,
+  ) => {
+    const parent = parentOpts(cmd);
+    const profile = parent?.browserProfile;
+    await runCommandWithRuntime(
+      defaultRuntime,
+      async () => {
+        const result = await callBrowserRequest<T>(
+          parent,
+          { ...request, query: profile ? { profile } : undefined },
+          { timeoutMs },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(render(result));
+      },
+      (err) => {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      },
+    );
+  };
+
+  macro
+    .command("list")
+    .description("List saved macros for the browser profile")
+    .action(async (_opts, cmd) => {
+      await runMacroRequest<{
+        macros: Array<{ name: string; description?: string; params: string[]; stepCount: number }>;
+        recording?: { name: string; stepCount: number };
+      }>(cmd, { method: "GET", path: "/macros" }, (result) => {
+        const lines = result.macros.map((entry) => {
+          const params = entry.params.length ? ` (params: ${entry.params.join(", ")})` : "";
+          const description = entry.description ? ` - ${entry.description}` : "";
+          return `${entry.name}: ${entry.stepCount} steps${params}${description}`;
+        });
+        if (result.recording) {
+          lines.push(
+            `recording: ${result.recording.name} (${result.recording.stepCount} steps so far)`,
+          );
+        }
+        return lines.length ? lines.join("\n") : "No macros saved.";
+      });
+    });
+
+  macro
+    .command("record")
+    .description("Start recording actions on a tab into a new macro")
+    .argument("<name>", "Macro name")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (name: string, opts, cmd) => {
+      await runMacroRequest<{ name: string }>(
+        cmd,
+        {
+          method: "POST",
+          path: "/macros/record/start",
+          body: { name: name.trim(), targetId: opts.targetId?.trim() || undefined },
+        },
+        (result) => `recording macro ${result.name}`,
+      );
+    });
+
+  macro
+    .command("checkpoint")
+    .description("Add an assertion checkpoint to the macro being recorded")
+    .option("--text <text>", "Text that must be visible")
+    .option("--text-gone <text>", "Text that must be gone")
+    .option("--url <pattern>", "URL glob the page must match")
+    .option("--selector <css>", "Selector that must be visible")
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (opts, cmd) => {
+      await runMacroRequest<{ stepCount: number }>(
+        cmd,
+        {
+          method: "POST",
+          path: "/macros/record/checkpoint",
+          body: {
+            targetId: opts.targetId?.trim() || undefined,
+            text: opts.text,
+            textGone: opts.textGone,
+            url: opts.url,
+            selector: opts.selector,
+          },
+        },
+        (result) => `checkpoint added (${result.stepCount} steps)`,
+      );
+    });
+
+  macro
+    .command("save")
+    .description("Stop recording and save the macro")
+    .option("--description <text>", "What the macro does")
+    .option(
+      "--param <name=value>",
+      "Turn a recorded value into a {{name}} input (repeatable)",
+      collectParam,
+    )
+    .action(async (opts, cmd) => {
+      let params: Record<string, string> | undefined;
+      try {
+        params = parseParams(opts.param);
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+        return;
+      }
+      await runMacroRequest<{ macro: { name: string; params: string[]; steps: unknown[] } }>(
+        cmd,
+        {
+          method: "POST",
+          path: "/macros/record/stop",
+          body: { description: opts.description, params },
+        },
+        (result) => {
+          const inputs = result.macro.params.length
+            ? ` (params: ${result.macro.params.join(", ")})`
+            : "";
+          return `saved macro ${result.macro.name}: ${result.macro.steps.length} steps${inputs}`;
+        },
+      );
+    });
+
+  macro
+    .command("cancel")
+    .description("Stop recording without saving")
+    .action(async (_opts, cmd) => {
+      await runMacroRequest<{ name: string }>(
+        cmd,
+        { method: "POST", path: "/macros/record/stop", body: { discard: true } },
+        (result) => `discarded macro ${result.name}`,
+      );
+    });
+
+  macro
+    .command("run")
+    .description("Replay a saved macro")
+    .argument("<name>", "Macro name")
+    .option("--param <name=value>", "Macro input value (repeatable)", collectParam)
+    .option("--step-timeout-ms <ms>", "Per-step timeout (default 8000)", (v: string) => Number(v))
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .action(async (name: string, opts, cmd) => {
+      let params: Record<string, string> | undefined;
+      try {
+        params = parseParams(opts.param);
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+        return;
+      }
+      await runMacroRequest<MacroRunResult>(
+        cmd,
+        {
+          method: "POST",
+          path: "/macros/run",
+          body: {
+            name: name.trim(),
+            params,
+            targetId: opts.targetId?.trim() || undefined,
+            stepTimeoutMs: Number.isFinite(opts.stepTimeoutMs) ? opts.stepTimeoutMs : undefined,
+          },
+        },
+        (result) => {
+          const progress = `${result.completedSteps}/${result.totalSteps} steps`;
+          if (result.status === "completed") {
+            return `macro ${result.name} completed (${progress})`;
+          }
+          const step = result.failedStep ? ` at step ${result.failedStep.index + 1}` : "";
+          return `macro ${result.name} ${result.status}${step} (${progress}): ${result.error ?? result.reason ?? "unknown error"}`;
+        },
+        BROWSER_MACRO_RUN_TIMEOUT_MS,
+      );
+    });
+
+  macro
+    .command("delete")
+    .description("Delete a saved macro")
+    .argument("<name>", "Macro name")
+    .action(async (name: string, _opts, cmd) => {
+      await runMacroRequest<{ name: string }>(
+        cmd,
+        { method: "DELETE", path: `/macros/${encodeURIComponent(name.trim())}` },
+        (result) => `deleted macro ${result.name}`,
+      );
+    });
+}
@@ -9,6 +9,7 @@ import { registerBrowserDebugCommands } from "./browser-cli-debug.js";
 import { browserActionExamples, browserCoreExamples } from "./browser-cli-examples.js";
 import { registerBrowserExtensionCommands } from "./browser-cli-extension.js";
 import { registerBrowserInspectCommands } from "./browser-cli-inspect.js";
+import { registerBrowserMacroCommands } from "./browser-cli-macros.js";
 import { registerBrowserManageCommands } from "./browser-cli-manage.js";
 import type { BrowserParentOpts } from "./browser-cli-shared.js";
 import { registerBrowserStateCommands } from "./browser-cli-state.js";
@@ -51,5 +52,6 @@ export function registerBrowserCli(program: Command) {
   registerBrowserActionInputCommands(browser, parentOpts);
   registerBrowserActionObserveCommands(browser, parentOpts);
   registerBrowserDebugCommands(browser, parentOpts);
+  registerBrowserMacroCommands(browser, parentOpts);
   registerBrowserStateCommands(browser, parentOpts);
 }
@@ -9,6 +9,10 @@ import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronCalendarNames,
+  parseCronFailureDeliveryOptions,
+  parseCronRetryOptions,
+  parseCronRunStatuses,
   parseDurationMs,
   printCronList,
   warnIfCronSchedulerDisabled,
@@ -76,9 +80,12 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option("--after <jobId>", "Run after another job finishes")
+      .option("--after-status <list>", "Upstream statuses that trigger --after (ok,error,skipped)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
+      .option("--exclude <calendars>", "Skip slots in these cron.calendars (comma-separated)")
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
@@ -93,6 +100,15 @@ export function registerCronAddCommand(cron: Command) {
         "Delivery destination (E.164, Telegram chatId, or Discord channel/user)",
       )
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option("--retry <attempts>", "Retry failed runs up to this many total attempts")
+      .option("--retry-backoff <list>", "Delays between retries (e.g. 30s,2m,10m)")
+      .option(
+        "--retry-on <kinds>",
+        "Error kinds to retry (timeout,rate-limit,auth,delivery-target,unknown)",
+      )
+      .option("--failure-channel <channel>", "Channel to notify when a run fails for good")
+      .option("--failure-to <dest>", "Destination to notify when a run fails for good")
+      .option("--failure-webhook <url>", "POST the failed-run event to this URL")
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -106,13 +122,31 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const afterStatus = typeof opts.afterStatus === "string" ? opts.afterStatus : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            if (afterStatus && !after) {
+              throw new Error("--after-status is only valid with --after");
+            }
+            const exclude = parseCronCalendarNames(opts.exclude);
+            if (exclude && !every && !cronExpr) {
+              throw new Error("--exclude is only valid with --every or --cron");
+            }
+            if (after) {
+              const on = afterStatus ? parseCronRunStatuses(afterStatus) : undefined;
+              if (on === null) {
+                throw new Error("Invalid --after-status; use ok, error, skipped (comma-separated)");
+              }
+              return { kind: "after" as const, jobId: after, on };
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -125,7 +159,7 @@ export function registerCronAddCommand(cron: Command) {
               if (!everyMs) {
                 throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
               }
-              return { kind: "every" as const, everyMs };
+              return { kind: "every" as const, everyMs, exclude };
             }
             const staggerMs = (() => {
               if (useExact) {
@@ -145,6 +179,7 @@ export function registerCronAddCommand(cron: Command) {
               expr: cronExpr,
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
               staggerMs,
+              exclude,
             };
           })();
 
@@ -268,6 +303,8 @@ export function registerCronAddCommand(cron: Command) {
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
                 }
               : undefined,
+            retry: parseCronRetryOptions(opts),
+            failureDelivery: parseCronFailureDeliveryOptions(opts),
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
@@ -7,6 +7,10 @@ import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronCalendarNames,
+  parseCronFailureDeliveryOptions,
+  parseCronRetryOptions,
+  parseCronRunStatuses,
   parseDurationMs,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -43,9 +47,13 @@ export function registerCronEditCommand(cron: Command) {
       .option("--at <when>", "Set one-shot time (ISO) or duration like 20m")
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
+      .option("--after <jobId>", "Run after another job finishes")
+      .option("--after-status <list>", "Upstream statuses that trigger --after (ok,error,skipped)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
+      .option("--exclude <calendars>", "Skip slots in these cron.calendars (comma-separated)")
+      .option("--clear-exclude", "Stop skipping calendar exclusions", false)
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
       .option("--thinking <level>", "Thinking level for agent jobs")
@@ -61,6 +69,17 @@ export function registerCronEditCommand(cron: Command) {
       )
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option("--retry <attempts>", "Retry failed runs up to this many total attempts")
+      .option("--retry-backoff <list>", "Delays between retries (e.g. 30s,2m,10m)")
+      .option(
+        "--retry-on <kinds>",
+        "Error kinds to retry (timeout,rate-limit,auth,delivery-target,unknown)",
+      )
+      .option("--failure-channel <channel>", "Channel to notify when a run fails for good")
+      .option("--failure-to <dest>", "Destination to notify when a run fails for good")
+      .option("--failure-webhook <url>", "POST the failed-run event to this URL")
+      .option("--clear-retry", "Remove the retry policy", false)
+      .option("--clear-failure-notify", "Remove the failure notification target", false)
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -145,16 +164,29 @@ export function registerCronEditCommand(cron: Command) {
             patch.sessionKey = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const scheduleChosen = [opts.at, opts.every, opts.cron, opts.after].filter(
+            Boolean,
+          ).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
           if (
             (requestedStaggerMs !== undefined || typeof opts.tz === "string") &&
-            (opts.at || opts.every)
+            (opts.at || opts.every || opts.after)
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
+          if (opts.afterStatus && !opts.after) {
+            throw new Error("--after-status is only valid with --after");
+          }
+          if (opts.exclude !== undefined && opts.clearExclude) {
+            throw new Error("Choose either --exclude or --clear-exclude, not both");
+          }
+          const requestedExclude = opts.clearExclude ? [] : parseCronCalendarNames(opts.exclude);
+          if (requestedExclude && (opts.at || opts.after)) {
+            throw new Error("--exclude is only valid for --every or --cron schedules");
+          }
+          const exclude = requestedExclude?.length ? requestedExclude : undefined;
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -166,15 +198,28 @@ export function registerCronEditCommand(cron: Command) {
             if (!everyMs) {
               throw new Error("Invalid --every");
             }
-            patch.schedule = { kind: "every", everyMs };
+            patch.schedule = { kind: "every", everyMs, exclude };
+          } else if (opts.after) {
+            const on = opts.afterStatus
+              ? parseCronRunStatuses(String(opts.afterStatus))
+              : undefined;
+            if (on === null) {
+              throw new Error("Invalid --after-status");
+            }
+            patch.schedule = { kind: "after", jobId: String(opts.after).trim(), on };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
               expr: String(opts.cron),
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
               staggerMs: requestedStaggerMs,
+              exclude,
             };
-          } else if (requestedStaggerMs !== undefined || typeof opts.tz === "string") {
+          } else if (
+            requestedStaggerMs !== undefined ||
+            typeof opts.tz === "string" ||
+            requestedExclude
+          ) {
             const listed = (await callGatewayFromCli("cron.list", opts, {
               includeDisabled: true,
             })) as { jobs?: CronJob[] } | null;
@@ -182,18 +227,28 @@ export function registerCronEditCommand(cron: Command) {
             if (!existing) {
               throw new Error(`unknown cron job id: ${id}`);
             }
-            if (existing.schedule.kind !== "cron") {
+            if (
+              existing.schedule.kind === "every" &&
+              requestedStaggerMs === undefined &&
+              typeof opts.tz !== "string"
+            ) {
+              patch.schedule = { ...existing.schedule, exclude };
+            } else if (existing.schedule.kind !== "cron") {
               throw new Error("Current job is not a cron schedule; use --cron to convert first");
+            } else {
+              const tz =
+                typeof opts.tz === "string" ? opts.tz.trim() || undefined : existing.schedule.tz;
+              patch.schedule = {
+                kind: "cron",
+                expr: existing.schedule.expr,
+                tz,
+                staggerMs:
+                  requestedStaggerMs !== undefined
+                    ? requestedStaggerMs
+                    : existing.schedule.staggerMs,
+                exclude: requestedExclude ? exclude : existing.schedule.exclude,
+              };
             }
-            const tz =
-              typeof opts.tz === "string" ? opts.tz.trim() || undefined : existing.schedule.tz;
-            patch.schedule = {
-              kind: "cron",
-              expr: existing.schedule.expr,
-              tz,
-              staggerMs:
-                requestedStaggerMs !== undefined ? requestedStaggerMs : existing.schedule.staggerMs,
-            };
           }
 
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
@@ -257,6 +312,25 @@ export function registerCronEditCommand(cron: Command) {
             patch.delivery = delivery;
           }
 
+          const retry = parseCronRetryOptions(opts);
+          if (retry && opts.clearRetry) {
+            throw new Error("Choose --retry options or --clear-retry, not both");
+          }
+          if (retry) {
+            patch.retry = retry;
+          } else if (opts.clearRetry) {
+            patch.retry = null;
+          }
+          const failureDelivery = parseCronFailureDeliveryOptions(opts);
+          if (failureDelivery && opts.clearFailureNotify) {
+            throw new Error("Choose --failure-* options or --clear-failure-notify, not both");
+          }
+          if (failureDelivery) {
+            patch.failureDelivery = failureDelivery;
+          } else if (opts.clearFailureNotify) {
+            patch.failureDelivery = null;
+          }
+
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
             patch,
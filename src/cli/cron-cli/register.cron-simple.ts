@@ -87,6 +87,29 @@ export function registerCronSimpleCommands(cron: Command) {
       }),
   );
 
+  addGatewayClientOptions(
+    cron
+      .command("deadletter")
+      .description("Show failed cron runs that will not be retried")
+      .option("--id <id>", "Job id (default: all jobs)")
+      .option("--limit <n>", "Max entries (default 50)", "50")
+      .action(async (opts) => {
+        try {
+          const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
+          const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
+          const id = typeof opts.id === "string" && opts.id.trim() ? opts.id.trim() : undefined;
+          const res = await callGatewayFromCli("cron.deadletter", opts, {
+            ...(id ? { scope: "job", id } : { scope: "all" }),
+            limit,
+          });
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
   addGatewayClientOptions(
     cron
       .command("run")
@@ -1,7 +1,15 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
+import { isCronErrorKind } from "../../cron/retry.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronErrorKind,
+  CronFailureDelivery,
+  CronJob,
+  CronRetryPolicy,
+  CronRunStatus,
+  CronSchedule,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +86,123 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+const CRON_RUN_STATUSES: CronRunStatus[] = ["ok", "error", "skipped"];
+
+export function parseCronRunStatuses(input: string): CronRunStatus[] | null {
+  const parts = input
+    .split(",")
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return null;
+  }
+  const statuses: CronRunStatus[] = [];
+  for (const part of parts) {
+    const status = CRON_RUN_STATUSES.find((candidate) => candidate === part);
+    if (!status) {
+      return null;
+    }
+    if (!statuses.includes(status)) {
+      statuses.push(status);
+    }
+  }
+  return statuses;
+}
+
+/** Parse `--exclude` calendar names; returns undefined when the flag is absent. */
+export function parseCronCalendarNames(input: unknown): string[] | undefined {
+  if (typeof input !== "string") {
+    return undefined;
+  }
+  const names = [
+    ...new Set(
+      input
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean),
+    ),
+  ];
+  if (names.length === 0) {
+    throw new Error("--exclude requires at least one calendar name");
+  }
+  return names;
+}
+
+export function parseCronErrorKinds(input: string): CronErrorKind[] | null {
+  const parts = input
+    .split(",")
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 0 || !parts.every(isCronErrorKind)) {
+    return null;
+  }
+  return Array.from(new Set(parts));
+}
+
+/**
+ * Build a retry policy from `--retry`, `--retry-backoff` and `--retry-on`.
+ * Returns `undefined` when none of the flags were given.
+ */
+export function parseCronRetryOptions(opts: Record<string, unknown>): CronRetryPolicy | undefined {
+  const attemptsRaw = typeof opts.retry === "string" ? opts.retry.trim() : "";
+  const backoffRaw = typeof opts.retryBackoff === "string" ? opts.retryBackoff.trim() : "";
+  const retryOnRaw = typeof opts.retryOn === "string" ? opts.retryOn.trim() : "";
+  if (!attemptsRaw && !backoffRaw && !retryOnRaw) {
+    return undefined;
+  }
+  const policy: CronRetryPolicy = {};
+  if (attemptsRaw) {
+    const attempts = Number.parseInt(attemptsRaw, 10);
+    if (!Number.isFinite(attempts) || attempts < 1) {
+      throw new Error("Invalid --retry; use the total number of attempts (e.g. 3)");
+    }
+    policy.maxAttempts = attempts;
+  }
+  if (backoffRaw) {
+    const delays = backoffRaw.split(",").map((part) => parseDurationMs(part.trim()));
+    if (delays.some((delay) => delay === null)) {
+      throw new Error("Invalid --retry-backoff; use durations like 30s,2m,10m");
+    }
+    policy.backoffMs = delays as number[];
+  }
+  if (retryOnRaw) {
+    const kinds = parseCronErrorKinds(retryOnRaw);
+    if (!kinds) {
+      throw new Error(
+        "Invalid --retry-on; use timeout, rate-limit, auth, delivery-target, unknown (comma-separated)",
+      );
+    }
+    policy.retryOn = kinds;
+  }
+  return policy;
+}
+
+/**
+ * Build a failure notification target from `--failure-webhook` or
+ * `--failure-channel`/`--failure-to`. Returns `undefined` when none were given.
+ */
+export function parseCronFailureDeliveryOptions(
+  opts: Record<string, unknown>,
+): CronFailureDelivery | undefined {
+  const webhook = typeof opts.failureWebhook === "string" ? opts.failureWebhook.trim() : "";
+  const channel = typeof opts.failureChannel === "string" ? opts.failureChannel.trim() : "";
+  const to = typeof opts.failureTo === "string" ? opts.failureTo.trim() : "";
+  if (webhook && (channel || to)) {
+    throw new Error("Choose --failure-webhook or --failure-channel/--failure-to, not both");
+  }
+  if (webhook) {
+    return { mode: "webhook", to: webhook };
+  }
+  if (!channel && !to) {
+    return undefined;
+  }
+  return {
+    mode: "announce",
+    channel: channel ? (channel as CronFailureDelivery["channel"]) : undefined,
+    to: to || undefined,
+  };
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -138,6 +263,10 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const on = schedule.on?.length ? schedule.on.join("|") : "ok";
+    return `after ${schedule.jobId} (${on})`;
+  }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
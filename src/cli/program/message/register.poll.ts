@@ -29,4 +29,16 @@ export function registerMessagePollCommand(message: Command, helpers: MessageCli
     .action(async (opts) => {
       await helpers.runMessageAction("poll", opts);
     });
+
+  helpers
+    .withMessageBase(
+      helpers.withMessageTarget(
+        message.command("poll-results").description("Show votes for a poll sent by OpenClaw"),
+      ),
+    )
+    .option("--poll-id <id>", "Poll id (or pass --message-id)")
+    .option("--message-id <id>", "Message id of the poll")
+    .action(async (opts) => {
+      await helpers.runMessageAction("poll-results", opts);
+    });
 }
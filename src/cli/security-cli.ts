@@ -3,6 +3,11 @@ import { loadConfig } from "../config/config.js";
 import { defaultRuntime } from "../runtime.js";
 import { runSecurityAudit } from "../security/audit.js";
 import { fixSecurityFootguns } from "../security/fix.js";
+import {
+  deleteQuarantinedContent,
+  listQuarantinedContent,
+  readQuarantinedContent,
+} from "../security/injection-quarantine.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { isRich, theme } from "../terminal/theme.js";
 import { shortenHomeInString, shortenHomePath } from "../utils.js";
@@ -39,6 +44,7 @@ export function registerSecurityCli(program: Command) {
           ["openclaw security audit --deep", "Include best-effort live Gateway probe checks."],
           ["openclaw security audit --fix", "Apply safe remediations and file-permission fixes."],
           ["openclaw security audit --json", "Output machine-readable JSON."],
+          ["openclaw security quarantine list", "Review content held by injection screening."],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/security", "docs.openclaw.ai/cli/security")}\n`,
     );
 
@@ -161,4 +167,80 @@ export function registerSecurityCli(program: Command) {
 
       defaultRuntime.log(lines.join("\n"));
     });
+
+  const quarantine = security
+    .command("quarantine")
+    .description("Review external content withheld by prompt-injection screening");
+
+  quarantine
+    .command("list")
+    .description("List quarantined content")
+    .option("--json", "Print JSON", false)
+    .action(async (opts: { json?: boolean }) => {
+      const entries = await listQuarantinedContent();
+      if (opts.json) {
+        defaultRuntime.log(
+          JSON.stringify(
+            entries.map(({ content: _content, ...entry }) => entry),
+            null,
+            2,
+          ),
+        );
+        return;
+      }
+      if (entries.length === 0) {
+        defaultRuntime.log(theme.muted("No quarantined content."));
+        return;
+      }
+      for (const entry of entries) {
+        const from = entry.sender ? ` from ${entry.sender}` : "";
+        defaultRuntime.log(
+          `${entry.id} ${new Date(entry.createdAt).toISOString()} ${entry.source}${from} ` +
+            `score=${entry.score} (${entry.classifier})`,
+        );
+      }
+    });
+
+  quarantine
+    .command("show")
+    .description("Print a quarantined item, including the withheld content")
+    .argument("<id>", "Quarantine id")
+    .option("--json", "Print JSON", false)
+    .action(async (id: string, opts: { json?: boolean }) => {
+      const entry = await readQuarantinedContent(id);
+      if (!entry) {
+        defaultRuntime.error(`Quarantine entry not found: ${id}`);
+        defaultRuntime.exit(1);
+        return;
+      }
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify(entry, null, 2));
+        return;
+      }
+      const lines = [
+        `${theme.heading(entry.id)} ${theme.muted(new Date(entry.createdAt).toISOString())}`,
+        `Source: ${entry.source}`,
+        ...(entry.sender ? [`From: ${entry.sender}`] : []),
+        ...(entry.subject ? [`Subject: ${entry.subject}`] : []),
+        `Score: ${entry.score} (${entry.classifier})`,
+        ...(entry.signals.length > 0 ? [`Signals: ${entry.signals.join(", ")}`] : []),
+        ...(entry.reason ? [`Reason: ${entry.reason}`] : []),
+        "",
+        entry.content,
+      ];
+      defaultRuntime.log(lines.join("\n"));
+    });
+
+  quarantine
+    .command("drop")
+    .description("Delete a reviewed quarantine entry")
+    .argument("<id>", "Quarantine id")
+    .action(async (id: string) => {
+      if (!(await deleteQuarantinedContent(id))) {
+        defaultRuntime.error(`Quarantine entry not found: ${id}`);
+        defaultRuntime.exit(1);
+        return;
+      }
+      defaultRuntime.log(`Dropped ${id}.`);
+    });
 }
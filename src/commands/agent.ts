@@ -171,6 +171,8 @@ function runAgentAttempt(params: {
       cliSessionId,
       images: params.isFallbackRetry ? undefined : params.opts.images,
       streamParams: params.opts.streamParams,
+      messageChannel: params.messageChannel,
+      agentAccountId: params.runContext.accountId,
     });
   }
 
@@ -367,6 +367,15 @@ export function formatMessageCliText(result: MessageActionRunResult): string[] {
     return lines;
   }
 
+  if (result.action === "poll-results") {
+    const text = (payload as { text?: unknown }).text;
+    if (typeof text === "string" && text.trim()) {
+      lines.push(heading("Poll results"));
+      lines.push(text.trim());
+      return lines;
+    }
+  }
+
   const reactionsTable = renderReactions(payload, opts);
   if (reactionsTable && result.action === "reactions") {
     lines.push(heading("Reactions"));
@@ -23,6 +23,7 @@ const ROOT_SECTIONS = [
   "messages",
   "commands",
   "approvals",
+  "security",
   "session",
   "cron",
   "hooks",
@@ -70,6 +71,7 @@ const TARGET_KEYS = [
   "agents.defaults.memorySearch.fallback",
   "agents.defaults.memorySearch.sources",
   "agents.defaults.memorySearch.extraPaths",
+  "agents.defaults.memorySearch.formats",
   "agents.defaults.memorySearch.experimental.sessionMemory",
   "agents.defaults.memorySearch.remote.baseUrl",
   "agents.defaults.memorySearch.remote.apiKey",
@@ -91,6 +93,14 @@ const TARGET_KEYS = [
   "agents.defaults.memorySearch.query.hybrid.mmr.lambda",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays",
+  "agents.defaults.memorySearch.query.rerank.enabled",
+  "agents.defaults.memorySearch.query.rerank.provider",
+  "agents.defaults.memorySearch.query.rerank.model",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey",
+  "agents.defaults.memorySearch.query.rerank.remote.headers",
+  "agents.defaults.memorySearch.query.rerank.topN",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs",
   "agents.defaults.memorySearch.cache.enabled",
   "agents.defaults.memorySearch.cache.maxEntries",
   "agents.defaults.memorySearch.sync.onSearch",
@@ -114,6 +124,7 @@ const TARGET_KEYS = [
   "cron.runLog",
   "cron.runLog.maxBytes",
   "cron.runLog.keepLines",
+  "cron.calendars",
   "session",
   "session.scope",
   "session.dmScope",
@@ -374,6 +385,7 @@ const ENUM_EXPECTATIONS: Record<string, string[]> = {
   "memory.citations": ['"auto"', '"on"', '"off"'],
   "memory.backend": ['"builtin"', '"qmd"'],
   "memory.qmd.searchMode": ['"query"', '"search"', '"vsearch"'],
+  "agents.defaults.memorySearch.query.rerank.provider": ['"local"', '"voyage"', '"cohere"'],
   "models.mode": ['"merge"', '"replace"'],
   "models.providers.*.auth": ['"api-key"', '"token"', '"oauth"', '"aws-sdk"'],
   "gateway.reload.mode": ['"off"', '"restart"', '"hot"', '"hybrid"'],
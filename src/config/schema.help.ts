@@ -318,6 +318,15 @@ export const FIELD_HELP: Record<string, string> = {
   "gateway.auth.token":
     "Required by default for gateway access (unless using Tailscale Serve identity); required for non-loopback binds.",
   "gateway.auth.password": "Required for Tailscale funnel.",
+  "gateway.auth.roleTokens":
+    "Extra shared tokens that each grant one `gateway.roles` entry instead of full operator access. Only WebSocket operator connections accept them; HTTP endpoints do not.",
+  "gateway.roles":
+    "Custom operator roles mapping a name to allowed gateway methods. Attach one with the `role:<name>` scope on device tokens or via `gateway.auth.roleTokens`.",
+  "gateway.roles.*.description": "Optional description shown in security audit output.",
+  "gateway.roles.*.allow":
+    'Gateway method patterns this role may call: exact names ("sessions.list"), prefix wildcards ("cron.*"), or "*".',
+  "gateway.roles.*.deny":
+    "Method patterns removed from this role's allow list; deny wins over allow.",
   "agents.defaults.sandbox.browser.network":
     "Docker network for sandbox browser containers (default: openclaw-sandbox-browser). Avoid bridge if you need stricter isolation.",
   "agents.list[].sandbox.browser.network": "Per-agent override for sandbox browser Docker network.",
@@ -343,6 +352,10 @@ export const FIELD_HELP: Record<string, string> = {
     "Disables Control UI device identity checks and relies on token/password only. Use only for short-lived debugging on trusted networks, then turn it off immediately.",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.http.endpoints.messages.enabled":
+    "Enable the Anthropic Messages-compatible `POST /v1/messages` endpoint for Anthropic SDK clients (default: false).",
+  "gateway.http.endpoints.embeddings.enabled":
+    "Enable the OpenAI-compatible `POST /v1/embeddings` endpoint, backed by the agent's memory search embedding provider (default: false).",
   "gateway.reload.mode":
     'Controls how config edits are applied: "off" ignores live edits, "restart" always restarts, "hot" applies in-process, and "hybrid" tries hot then restarts if required. Keep "hybrid" for safest routine updates.',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
@@ -453,6 +466,20 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.loopDetection.detectors.knownPollNoProgress":
     "Enable known poll tool no-progress loop detection (default: true).",
   "tools.loopDetection.detectors.pingPong": "Enable ping-pong loop detection (default: true).",
+  "tools.resultCache.enabled":
+    "Reuse results of identical read-only tool calls (same tool and normalized arguments) instead of re-running them (default: false).",
+  "tools.resultCache.scope":
+    'Share cached results within one session ("session", default) or across all sessions of the same agent ("agent").',
+  "tools.resultCache.ttlSeconds":
+    "Default lifetime of cached tool results in seconds (default: 300).",
+  "tools.resultCache.maxEntries":
+    "Maximum cached results per scope; the oldest entries are evicted first (default: 100).",
+  "tools.resultCache.tools":
+    "Per-tool cache settings keyed by tool name. web_fetch and web_search are cached by default when the cache is enabled; other tools must opt in.",
+  "tools.resultCache.tools.*.enabled":
+    "Cache results for this tool. Mutating calls (for example nodes actions other than list) are never cached and clear the cache for their scope.",
+  "tools.resultCache.tools.*.ttlSeconds":
+    "Lifetime of cached results for this tool in seconds (default: tools.resultCache.ttlSeconds).",
   "tools.exec.notifyOnExit":
     "When true (default), backgrounded exec sessions on exit and node exec lifecycle events enqueue a system event and request a heartbeat.",
   "tools.exec.notifyOnExitEmptySuccess":
@@ -546,6 +573,34 @@ export const FIELD_HELP: Record<string, string> = {
     "Enable filesystem watching for skill-definition changes so updates can be applied without full process restart. Keep enabled in development workflows and disable in immutable production images.",
   "skills.load.watchDebounceMs":
     "Debounce window in milliseconds for coalescing rapid skill file changes before reload logic runs. Increase to reduce reload churn on frequent writes, or lower for faster edit feedback.",
+  security:
+    "Runtime security controls for untrusted input, currently prompt-injection screening of emails, webhooks, and web fetches. Keep defaults unless you need stricter handling of external content.",
+  "security.injection":
+    "Prompt-injection screening for untrusted external content: a local heuristic scorer plus an optional LLM judge, with per-score actions. Tighten thresholds when agents read content from senders you do not control.",
+  "security.injection.enabled":
+    "Enables prompt-injection screening for external content (default: true). Disabling it leaves only the boundary wrapping and removes risk annotations and blocking actions.",
+  "security.injection.sources":
+    'Content sources screened for prompt injection: "email" (Gmail hooks), "webhook" (hook payloads), and "web_fetch" (web_fetch tool results). Omit to screen all sources.',
+  "security.injection.thresholds":
+    "Minimum risk scores (0-1) that trigger each action; the strongest action whose threshold is met wins. Defaults annotate at 0.3 and leave strip, quarantine, and refuse off.",
+  "security.injection.thresholds.annotate":
+    "Risk score at which content is passed through with an injection-risk note in the trusted wrapper header (default: 0.3). Set to 1 to annotate only near-certain attempts.",
+  "security.injection.thresholds.strip":
+    "Risk score at which lines matching injection heuristics are removed before the model sees the content. Useful for feeds where most content is legitimate but occasionally carries hostile lines.",
+  "security.injection.thresholds.quarantine":
+    "Risk score at which content is withheld and saved for operator review (`openclaw security quarantine list`). The agent only sees a placeholder with the quarantine id.",
+  "security.injection.thresholds.refuse":
+    "Risk score at which content is dropped outright; hook runs are skipped and web_fetch returns a refusal placeholder. Use for high-confidence thresholds only.",
+  "security.injection.judge":
+    "Optional LLM judge that scores content with a JSON-only model call; the final score is the higher of the heuristic and judge scores. Judge failures fall back to the heuristic score.",
+  "security.injection.judge.enabled":
+    "Enables the LLM judge stage (default: false). Each screened item costs one model call, so prefer a small fast model.",
+  "security.injection.judge.model":
+    'Judge model as "provider/model"; defaults to the agent default model. Pick a model you trust not to follow instructions embedded in the content it scores.',
+  "security.injection.judge.timeoutMs":
+    "Timeout in milliseconds for each judge call (default: 15000). On timeout the heuristic score is used.",
+  "security.injection.judge.minScore":
+    "Only consult the judge when the heuristic score is at least this value (default: 0, always). Raise it to limit judge calls to content that already looks suspicious.",
   approvals:
     "Approval routing controls for forwarding exec approval requests to chat destinations outside the originating session. Keep this disabled unless operators need explicit out-of-band approval visibility.",
   "approvals.exec":
@@ -712,7 +767,9 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.memorySearch.sources":
     'Chooses which sources are indexed: "memory" reads MEMORY.md + memory files, and "sessions" includes transcript history. Keep ["memory"] unless you need recall from prior chat transcripts.',
   "agents.defaults.memorySearch.extraPaths":
-    "Adds extra directories or .md files to the memory index beyond default memory files. Use this when key reference docs live elsewhere in your repo; keep paths small and intentional to avoid noisy recall.",
+    "Adds extra directories or files to the memory index beyond default memory files. Use this when key reference docs live elsewhere in your repo; keep paths small and intentional to avoid noisy recall.",
+  "agents.defaults.memorySearch.formats":
+    'File formats indexed from memory paths: "markdown" (always on), "text", "html", "pdf", and "code". PDF results cite page numbers, HTML chunks follow headings, and code chunks follow top-level symbols; enable only the formats your extra paths actually contain.',
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Indexes session transcripts into memory search so responses can reference prior chat turns. Keep this off unless transcript recall is needed, because indexing cost and storage usage both increase.",
   "agents.defaults.memorySearch.provider":
@@ -769,6 +826,22 @@ export const FIELD_HELP: Record<string, string> = {
     "Applies recency decay so newer memory can outrank older memory when scores are close. Enable when timeliness matters; keep off for timeless reference knowledge.",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Controls how fast older memory loses rank when temporal decay is enabled (half-life in days, default: 30). Lower values prioritize recent context more aggressively.",
+  "agents.defaults.memorySearch.query.rerank.enabled":
+    "Reranks the top memory search candidates with a cross-encoder before results are truncated (default: false). Enable when the right snippet is usually retrieved but not ranked first; adds latency per search.",
+  "agents.defaults.memorySearch.query.rerank.provider":
+    'Selects the reranker backend: "local" runs a GGUF reranker through node-llama-cpp, while "voyage" and "cohere" call their hosted rerank APIs (default: "local").',
+  "agents.defaults.memorySearch.query.rerank.model":
+    "Reranker model: a GGUF path or hf: URI for local reranking, or a rerank model id for Voyage/Cohere. Leave unset to use the provider default.",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl":
+    "Overrides the rerank API base URL for Voyage/Cohere, for example a proxy or regional endpoint. Leave unset to use the provider default.",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey":
+    "API key for the hosted rerank provider. Leave unset to use the provider key from models.providers or the VOYAGE_API_KEY/COHERE_API_KEY environment variables.",
+  "agents.defaults.memorySearch.query.rerank.remote.headers":
+    "Extra HTTP headers sent with hosted rerank requests, merged over provider headers. Use for proxy auth or tenant routing.",
+  "agents.defaults.memorySearch.query.rerank.topN":
+    "Number of top candidates sent to the reranker (default: 20). Raise for better recall at the cost of latency; candidates beyond this keep their original order after the reranked ones.",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs":
+    "Maximum time for a rerank call in milliseconds (default: 5000). On timeout or error the current ranking is returned unchanged and the fallback is counted in memory status.",
   "agents.defaults.memorySearch.cache.enabled":
     "Caches computed chunk embeddings in SQLite so reindexing and incremental updates run faster (default: true). Keep this enabled unless investigating cache correctness or minimizing disk usage.",
   memory: "Memory backend configuration (global).",
@@ -943,6 +1016,31 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.humanDelay.mode": 'Delay style for block replies ("off", "natural", "custom").',
   "agents.defaults.humanDelay.minMs": "Minimum delay in ms for custom humanDelay (default: 800).",
   "agents.defaults.humanDelay.maxMs": "Maximum delay in ms for custom humanDelay (default: 2500).",
+  "agents.defaults.mcpServers":
+    "MCP (Model Context Protocol) servers keyed by server name whose tools are discovered and exposed to agents as `mcp__<server>__<tool>`. Use tools.allow/tools.deny (for example `mcp__github__*`) to control which MCP tools each agent can call.",
+  "agents.defaults.mcpServers.*.enabled":
+    "Enables this MCP server (default: true). Set false in agents.list[].mcpServers to disable a server inherited from agents.defaults for one agent.",
+  "agents.defaults.mcpServers.*.transport":
+    'Transport used to reach the server: "stdio" launches `command` as a child process, "http" speaks Streamable HTTP to `url`. Defaults to "http" when url is set, otherwise "stdio".',
+  "agents.defaults.mcpServers.*.command":
+    "Command launched for stdio MCP servers (absolute path or on PATH). The server runs on the gateway host with the gateway user's permissions, so only configure servers you trust.",
+  "agents.defaults.mcpServers.*.args": "Arguments passed to the stdio MCP server command.",
+  "agents.defaults.mcpServers.*.env":
+    "Extra environment variables for the stdio MCP server process, merged over the gateway environment. Keep API keys here instead of in args so they stay out of process listings.",
+  "agents.defaults.mcpServers.*.cwd":
+    "Working directory for the stdio MCP server process (default: the agent workspace).",
+  "agents.defaults.mcpServers.*.url":
+    "Streamable HTTP endpoint for http MCP servers (for example `https://mcp.example.com/mcp`).",
+  "agents.defaults.mcpServers.*.headers":
+    "Extra HTTP headers sent with every request to an http MCP server, typically Authorization. Keep tokens in secrets or env substitution rather than inline values.",
+  "agents.defaults.mcpServers.*.timeoutMs":
+    "Per-request timeout in ms for MCP tool calls and discovery (default: 60000). Increase for slow tools instead of disabling the timeout.",
+  "agents.defaults.mcpServers.*.connectTimeoutMs":
+    "Timeout in ms for launching/connecting and the MCP initialize handshake (default: 15000). Servers that miss it are skipped for the run and retried on the next one.",
+  "agents.defaults.mcpServers.*.tools":
+    "Server-side tool filter applied before agent tool policy, using the server's own tool names (globs supported). Use it to hide tools a server exposes that no agent should see.",
+  "agents.list[].mcpServers":
+    "Per-agent MCP servers merged over agents.defaults.mcpServers by server name. Use this to give one agent extra servers or to disable an inherited server with enabled=false.",
   commands:
     "Controls chat command surfaces, owner gating, and elevated command access behavior across providers. Keep defaults unless you need stricter operator controls or broader command availability.",
   "commands.native":
@@ -1027,6 +1125,26 @@ export const FIELD_HELP: Record<string, string> = {
     "Matches a normalized session-key prefix after internal key normalization steps in policy consumers. Use this for general prefix controls, and prefer rawKeyPrefix when exact full-key matching is required.",
   "session.sendPolicy.rules[].match.rawKeyPrefix":
     "Matches the raw, unnormalized session-key prefix for exact full-key policy targeting. Use this when normalized keyPrefix is too broad and you need agent-prefixed or transport-specific precision.",
+  "session.budgets":
+    "Token and cost budgets checked before every agent run, scoped per agent, session, sender, or channel account. Use these to stop runaway sessions before spend piles up instead of reading usage reports afterwards.",
+  "session.budgets.rules":
+    "Budget rules; every matching rule keeps its own counter per scope value and period. The strictest outcome wins: any exhausted stop budget blocks the run before a downgrade applies.",
+  "session.budgets.rules[].scope":
+    'Chooses what one counter covers: "agent", "session" (session key), "sender" (channel + sender id), or "account" (channel + account id). Use "sender" to keep one chatty user from exhausting a shared bot.',
+  "session.budgets.rules[].period":
+    'Counter reset window in gateway local time: "daily" (default) or "monthly". Pick monthly for billing-style caps and daily for abuse protection.',
+  "session.budgets.rules[].maxTokens":
+    "Token limit per period, counting input, output, and cache tokens of every run. Use this when model pricing is not configured or providers bill per token bundle.",
+  "session.budgets.rules[].maxCostUsd":
+    "Estimated USD limit per period, computed from models.providers.*.models[].cost pricing. Runs on models without pricing add no cost, so pair with maxTokens when pricing is incomplete.",
+  "session.budgets.rules[].warnAt":
+    "Fraction of a limit (0-1) that sends one soft warning per period before the limit is reached. Default 0.8; set 0 to disable warnings.",
+  "session.budgets.rules[].action":
+    'What happens at the limit: "stop" (default) skips the run and replies with stopMessage, "downgrade" switches to fallbackModel, and "warn" only notifies once.',
+  "session.budgets.rules[].fallbackModel":
+    'Cheaper model used for the rest of the period when action is "downgrade", as provider/model or a configured alias. Required for downgrade rules.',
+  "session.budgets.stopMessage":
+    "Reply sent instead of running the agent when a stop budget is exhausted. Leave unset to send a default notice naming the budget and when it resets.",
   "session.agentToAgent":
     "Groups controls for inter-agent session exchanges, including loop prevention limits on reply chaining. Keep defaults unless you run advanced agent-to-agent automation with strict turn caps.",
   "session.agentToAgent.maxPingPongTurns":
@@ -1076,6 +1194,16 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum bytes per cron run-log file before pruning rewrites to the last keepLines entries (for example `2mb`, default `2000000`).",
   "cron.runLog.keepLines":
     "How many trailing run-log lines to retain when a file exceeds maxBytes (default `2000`). Increase for longer forensic history or lower for smaller disks.",
+  "cron.calendars":
+    "Named exclusion calendars (holidays, blackout windows, ICS files) that cron jobs reference through `schedule.exclude`. Slots falling inside an exclusion are skipped and the job moves to its next allowed run; use them for holidays and maintenance nights instead of pausing jobs by hand.",
+  "cron.calendars.*.tz":
+    "IANA timezone used to evaluate this calendar's dates and windows. Defaults to the job schedule timezone, then the gateway host timezone.",
+  "cron.calendars.*.dates":
+    "Excluded dates as `YYYY-MM-DD`, yearly `MM-DD`, or inclusive ranges like `2026-12-24..2026-12-26` and `12-24..01-02` (yearly ranges may wrap the year end).",
+  "cron.calendars.*.windows":
+    "Recurring blackout windows with optional `days` (sun..sat) and local `start`/`end` times (HH:MM). A window whose end is before its start wraps past midnight, which suits overnight maintenance.",
+  "cron.calendars.*.ics":
+    "Path to a local iCalendar (.ics) file whose events are treated as exclusions. All-day events exclude whole days; timed events exclude their span. The file is re-read when it changes.",
   hooks:
     "Inbound webhook automation surface for mapping external events into wake or agent actions in OpenClaw. Keep this locked down with explicit token/session/agent controls before exposing it beyond trusted networks.",
   "hooks.enabled":
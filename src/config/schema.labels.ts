@@ -96,6 +96,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.remote.tlsFingerprint": "Remote Gateway TLS Fingerprint",
   "gateway.auth.token": "Gateway Token",
   "gateway.auth.password": "Gateway Password",
+  "gateway.auth.roleTokens": "Gateway Role Tokens",
+  "gateway.roles": "Gateway Custom Roles",
+  "gateway.roles.*.description": "Gateway Role Description",
+  "gateway.roles.*.allow": "Gateway Role Allowed Methods",
+  "gateway.roles.*.deny": "Gateway Role Denied Methods",
   browser: "Browser",
   "browser.enabled": "Browser Enabled",
   "browser.cdpUrl": "Browser CDP URL",
@@ -164,6 +169,13 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.loopDetection.detectors.genericRepeat": "Tool-loop Generic Repeat Detection",
   "tools.loopDetection.detectors.knownPollNoProgress": "Tool-loop Poll No-Progress Detection",
   "tools.loopDetection.detectors.pingPong": "Tool-loop Ping-Pong Detection",
+  "tools.resultCache.enabled": "Tool Result Cache",
+  "tools.resultCache.scope": "Tool Result Cache Scope",
+  "tools.resultCache.ttlSeconds": "Tool Result Cache TTL (sec)",
+  "tools.resultCache.maxEntries": "Tool Result Cache Max Entries",
+  "tools.resultCache.tools": "Tool Result Cache Per-tool Settings",
+  "tools.resultCache.tools.*.enabled": "Cache Tool Results",
+  "tools.resultCache.tools.*.ttlSeconds": "Tool Result TTL (sec)",
   "tools.fs.workspaceOnly": "Workspace-only FS tools",
   "tools.sessions.visibility": "Session Tools Visibility",
   "tools.exec.notifyOnExit": "Exec Notify On Exit",
@@ -187,6 +199,20 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.exec.safeBins": "Exec Safe Bins",
   "tools.exec.safeBinTrustedDirs": "Exec Safe Bin Trusted Dirs",
   "tools.exec.safeBinProfiles": "Exec Safe Bin Profiles",
+  security: "Security",
+  "security.injection": "Prompt Injection Screening",
+  "security.injection.enabled": "Enable Injection Screening",
+  "security.injection.sources": "Screened Sources",
+  "security.injection.thresholds": "Injection Action Thresholds",
+  "security.injection.thresholds.annotate": "Annotate Threshold",
+  "security.injection.thresholds.strip": "Strip Threshold",
+  "security.injection.thresholds.quarantine": "Quarantine Threshold",
+  "security.injection.thresholds.refuse": "Refuse Threshold",
+  "security.injection.judge": "Injection LLM Judge",
+  "security.injection.judge.enabled": "Enable Injection Judge",
+  "security.injection.judge.model": "Injection Judge Model",
+  "security.injection.judge.timeoutMs": "Injection Judge Timeout (ms)",
+  "security.injection.judge.minScore": "Injection Judge Min Score",
   approvals: "Approvals",
   "approvals.exec": "Exec Approval Forwarding",
   "approvals.exec.enabled": "Forward Exec Approvals",
@@ -243,6 +269,8 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Insecure Control UI Auth Toggle",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.http.endpoints.messages.enabled": "Anthropic Messages Endpoint",
+  "gateway.http.endpoints.embeddings.enabled": "OpenAI Embeddings Endpoint",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -286,6 +314,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.enabled": "Enable Memory Search",
   "agents.defaults.memorySearch.sources": "Memory Search Sources",
   "agents.defaults.memorySearch.extraPaths": "Extra Memory Paths",
+  "agents.defaults.memorySearch.formats": "Memory Document Formats",
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Memory Search Session Index (Experimental)",
   "agents.defaults.memorySearch.provider": "Memory Search Provider",
@@ -323,6 +352,14 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled": "Memory Search Temporal Decay",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Memory Search Temporal Decay Half-life (Days)",
+  "agents.defaults.memorySearch.query.rerank.enabled": "Memory Search Rerank",
+  "agents.defaults.memorySearch.query.rerank.provider": "Memory Search Rerank Provider",
+  "agents.defaults.memorySearch.query.rerank.model": "Memory Search Rerank Model",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl": "Memory Search Rerank Base URL",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey": "Memory Search Rerank API Key",
+  "agents.defaults.memorySearch.query.rerank.remote.headers": "Memory Search Rerank Headers",
+  "agents.defaults.memorySearch.query.rerank.topN": "Memory Search Rerank Top N",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs": "Memory Search Rerank Timeout (ms)",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
@@ -402,6 +439,19 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.humanDelay.mode": "Human Delay Mode",
   "agents.defaults.humanDelay.minMs": "Human Delay Min (ms)",
   "agents.defaults.humanDelay.maxMs": "Human Delay Max (ms)",
+  "agents.defaults.mcpServers": "MCP Servers",
+  "agents.defaults.mcpServers.*.enabled": "MCP Server Enabled",
+  "agents.defaults.mcpServers.*.transport": "MCP Server Transport",
+  "agents.defaults.mcpServers.*.command": "MCP Server Command",
+  "agents.defaults.mcpServers.*.args": "MCP Server Args",
+  "agents.defaults.mcpServers.*.env": "MCP Server Env",
+  "agents.defaults.mcpServers.*.cwd": "MCP Server Working Directory",
+  "agents.defaults.mcpServers.*.url": "MCP Server URL",
+  "agents.defaults.mcpServers.*.headers": "MCP Server Headers",
+  "agents.defaults.mcpServers.*.timeoutMs": "MCP Server Request Timeout (ms)",
+  "agents.defaults.mcpServers.*.connectTimeoutMs": "MCP Server Connect Timeout (ms)",
+  "agents.defaults.mcpServers.*.tools": "MCP Server Tool Filter",
+  "agents.list[].mcpServers": "Agent MCP Servers",
   "agents.defaults.cliBackends": "CLI Backends",
   "agents.defaults.compaction": "Compaction",
   "agents.defaults.compaction.mode": "Compaction Mode",
@@ -485,6 +535,16 @@ export const FIELD_LABELS: Record<string, string> = {
   "session.sendPolicy.rules[].match.chatType": "Session Send Rule Chat Type",
   "session.sendPolicy.rules[].match.keyPrefix": "Session Send Rule Key Prefix",
   "session.sendPolicy.rules[].match.rawKeyPrefix": "Session Send Rule Raw Key Prefix",
+  "session.budgets": "Session Usage Budgets",
+  "session.budgets.rules": "Usage Budget Rules",
+  "session.budgets.rules[].scope": "Usage Budget Scope",
+  "session.budgets.rules[].period": "Usage Budget Period",
+  "session.budgets.rules[].maxTokens": "Usage Budget Max Tokens",
+  "session.budgets.rules[].maxCostUsd": "Usage Budget Max Cost (USD)",
+  "session.budgets.rules[].warnAt": "Usage Budget Warning Threshold",
+  "session.budgets.rules[].action": "Usage Budget Action",
+  "session.budgets.rules[].fallbackModel": "Usage Budget Fallback Model",
+  "session.budgets.stopMessage": "Usage Budget Stop Message",
   "session.agentToAgent": "Session Agent-to-Agent",
   "session.agentToAgent.maxPingPongTurns": "Agent-to-Agent Ping-Pong Turns",
   "session.threadBindings": "Session Thread Bindings",
@@ -510,6 +570,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "cron.runLog": "Cron Run Log Pruning",
   "cron.runLog.maxBytes": "Cron Run Log Max Bytes",
   "cron.runLog.keepLines": "Cron Run Log Keep Lines",
+  "cron.calendars": "Cron Exclusion Calendars",
+  "cron.calendars.*.tz": "Cron Calendar Timezone",
+  "cron.calendars.*.dates": "Cron Calendar Excluded Dates",
+  "cron.calendars.*.windows": "Cron Calendar Blackout Windows",
+  "cron.calendars.*.ics": "Cron Calendar ICS File",
   hooks: "Hooks",
   "hooks.enabled": "Hooks Enabled",
   "hooks.path": "Hooks Endpoint Path",
@@ -59,6 +59,7 @@ const PREFIX_RULES: Array<{ prefix: string; tags: ConfigTag[] }> = [
   { prefix: "nodehost.", tags: ["network"] },
   { prefix: "discovery.", tags: ["network"] },
   { prefix: "auth.", tags: ["auth", "access"] },
+  { prefix: "security.", tags: ["security"] },
   { prefix: "memory.", tags: ["storage"] },
   { prefix: "models.", tags: ["models"] },
   { prefix: "diagnostics.", tags: ["observability"] },
@@ -0,0 +1,176 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { CURRENT_SESSION_VERSION } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createSessionFork,
+  listSessionForks,
+  listSessionTurns,
+  resolveActiveSessionForkKey,
+  switchSessionFork,
+} from "./fork.js";
+import { loadSessionStore, saveSessionStore } from "./store.js";
+
+const ROOT_KEY = "agent:main:main";
+
+function writeTranscript(file: string, messages: Array<{ role: string; text: string }>) {
+  const lines: unknown[] = [
+    {
+      type: "session",
+      version: CURRENT_SESSION_VERSION,
+      id: "sess-root",
+      timestamp: new Date(0).toISOString(),
+      cwd: "/tmp",
+    },
+  ];
+  let parentId: string | null = null;
+  messages.forEach((message, index) => {
+    const id = `m${index + 1}`;
+    lines.push({
+      type: "message",
+      id,
+      parentId,
+      timestamp: new Date(index * 1000).toISOString(),
+      message:
+        message.role === "user"
+          ? { role: "user", content: message.text, timestamp: index }
+          : {
+              role: "assistant",
+              content: [{ type: "text", text: message.text }],
+              timestamp: index,
+            },
+    });
+    parentId = id;
+  });
+  fs.writeFileSync(file, `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`);
+}
+
+function readRoles(file: string): string[] {
+  return fs
+    .readFileSync(file, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as { type: string; message?: { role: string } })
+    .filter((entry) => entry.type === "message")
+    .map((entry) => entry.message?.role ?? "");
+}
+
+describe("session forks", () => {
+  let tempDir: string;
+  let storePath: string;
+  let transcriptPath: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-fork-"));
+    storePath = path.join(tempDir, "sessions.json");
+    transcriptPath = path.join(tempDir, "sess-root.jsonl");
+    writeTranscript(transcriptPath, [
+      { role: "user", text: "first question" },
+      { role: "assistant", text: "first answer" },
+      { role: "user", text: "second question" },
+      { role: "assistant", text: "second answer" },
+    ]);
+    await saveSessionStore(storePath, {
+      [ROOT_KEY]: {
+        sessionId: "sess-root",
+        sessionFile: transcriptPath,
+        updatedAt: 1,
+        thinkingLevel: "high",
+        totalTokens: 5000,
+      },
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists user turns with previews", () => {
+    expect(
+      listSessionTurns(transcriptPath).map(({ turn, entryId, preview }) => ({
+        turn,
+        entryId,
+        preview,
+      })),
+    ).toEqual([
+      { turn: 1, entryId: "m2", preview: "first question" },
+      { turn: 2, entryId: "m4", preview: "second question" },
+    ]);
+  });
+
+  it("forks at a turn without touching the source transcript", async () => {
+    const { key, entry } = await createSessionFork({
+      storePath,
+      sessionKey: ROOT_KEY,
+      turn: 1,
+      label: "try-b",
+      now: 10,
+    });
+
+    expect(key).toMatch(/^agent:main:main:fork:[0-9a-f]{6}$/);
+    expect(entry).toMatchObject({
+      label: "try-b",
+      thinkingLevel: "high",
+      forkOf: { sessionKey: ROOT_KEY, turn: 1, createdAt: 10 },
+    });
+    expect(entry.totalTokens).toBeUndefined();
+    expect(entry.sessionFile && readRoles(entry.sessionFile)).toEqual(["user", "assistant"]);
+    expect(readRoles(transcriptPath)).toHaveLength(4);
+
+    const store = loadSessionStore(storePath, { skipCache: true });
+    expect(store[key]?.sessionId).toBe(entry.sessionId);
+    expect(store[ROOT_KEY]?.activeForkKey).toBeUndefined();
+  });
+
+  it("rejects out-of-range turns and duplicate labels", async () => {
+    await expect(createSessionFork({ storePath, sessionKey: ROOT_KEY, turn: 3 })).rejects.toThrow(
+      "turn must be between 1 and 2",
+    );
+    await createSessionFork({ storePath, sessionKey: ROOT_KEY, label: "alt" });
+    await expect(
+      createSessionFork({ storePath, sessionKey: ROOT_KEY, label: "alt" }),
+    ).rejects.toThrow("label already in use: alt");
+    expect(listSessionForks(loadSessionStore(storePath), ROOT_KEY).forks).toHaveLength(1);
+  });
+
+  it("routes the root session to the active fork and switches back", async () => {
+    const first = await createSessionFork({
+      storePath,
+      sessionKey: ROOT_KEY,
+      activate: true,
+      now: 10,
+    });
+    // Forking from a fork still creates a sibling under the root key.
+    const second = await createSessionFork({
+      storePath,
+      sessionKey: first.key,
+      label: "other",
+      now: 20,
+    });
+    expect(second.key.startsWith(`${ROOT_KEY}:fork:`)).toBe(true);
+    expect(second.entry.forkOf?.sessionKey).toBe(first.key);
+
+    let store = loadSessionStore(storePath, { skipCache: true });
+    expect(resolveActiveSessionForkKey(store, ROOT_KEY)).toBe(first.key);
+    expect(resolveActiveSessionForkKey(store, second.key)).toBe(second.key);
+
+    await switchSessionFork({ storePath, sessionKey: first.key, target: "other" });
+    store = loadSessionStore(storePath, { skipCache: true });
+    expect(listSessionForks(store, ROOT_KEY)).toEqual({
+      rootKey: ROOT_KEY,
+      activeKey: second.key,
+      forks: [
+        expect.objectContaining({ key: first.key, active: false }),
+        expect.objectContaining({ key: second.key, label: "other", active: true }),
+      ],
+    });
+
+    await switchSessionFork({ storePath, sessionKey: second.key, target: "main" });
+    store = loadSessionStore(storePath, { skipCache: true });
+    expect(resolveActiveSessionForkKey(store, ROOT_KEY)).toBe(ROOT_KEY);
+    await expect(
+      switchSessionFork({ storePath, sessionKey: ROOT_KEY, target: "nope" }),
+    ).rejects.toThrow("fork not found: nope");
+  });
+});
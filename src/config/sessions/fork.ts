@@ -0,0 +1,274 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { stripInboundMetadata } from "../../auto-reply/reply/strip-inbound-meta.js";
+import {
+  buildForkSessionKey,
+  isForkSessionKey,
+  resolveForkRootSessionKey,
+} from "../../sessions/session-key-utils.js";
+import { parseSessionLabel } from "../../sessions/session-label.js";
+import { extractTextFromChatContent } from "../../shared/chat-content.js";
+import { truncateUtf16Safe } from "../../utils.js";
+import { resolveSessionFilePath } from "./paths.js";
+import { loadSessionStore, updateSessionStore } from "./store.js";
+import type { SessionEntry } from "./types.js";
+
+const TURN_PREVIEW_MAX_CHARS = 80;
+
+export type SessionTurn = {
+  /** 1-based user turn number. */
+  turn: number;
+  /** Last transcript entry of the turn; forking at this turn branches here. */
+  entryId: string;
+  preview: string;
+  timestamp?: string;
+};
+
+export type SessionForkSummary = {
+  key: string;
+  label?: string;
+  turn: number;
+  createdAt: number;
+  updatedAt: number;
+  active: boolean;
+};
+
+export type SessionForkList = {
+  rootKey: string;
+  /** Key that currently receives the conversation (the root when no fork is active). */
+  activeKey: string;
+  forks: SessionForkSummary[];
+};
+
+// Behavior and delivery settings a fork inherits; token counters and run state start fresh.
+const INHERITED_FORK_FIELDS = [
+  "systemSent",
+  "chatType",
+  "thinkingLevel",
+  "verboseLevel",
+  "reasoningLevel",
+  "elevatedLevel",
+  "ttsAuto",
+  "responseUsage",
+  "providerOverride",
+  "modelOverride",
+  "sendPolicy",
+  "groupActivation",
+  "queueMode",
+  "queueDebounceMs",
+  "queueCap",
+  "queueDrop",
+  "displayName",
+  "channel",
+  "groupId",
+  "subject",
+  "groupChannel",
+  "space",
+  "origin",
+  "deliveryContext",
+  "lastChannel",
+  "lastTo",
+  "lastAccountId",
+  "lastThreadId",
+  "spawnedBy",
+  "spawnDepth",
+  "subagentRole",
+] as const satisfies ReadonlyArray<keyof SessionEntry>;
+
+function formatTurnPreview(content: unknown): string {
+  const text = extractTextFromChatContent(content, { sanitizeText: stripInboundMetadata }) ?? "";
+  return text.length > TURN_PREVIEW_MAX_CHARS
+    ? `${truncateUtf16Safe(text, TURN_PREVIEW_MAX_CHARS - 1)}…`
+    : text;
+}
+
+function listTurnsFromManager(manager: SessionManager): SessionTurn[] {
+  const turns: SessionTurn[] = [];
+  for (const entry of manager.getBranch()) {
+    if (entry.type === "message" && entry.message.role === "user") {
+      turns.push({
+        turn: turns.length + 1,
+        entryId: entry.id,
+        preview: formatTurnPreview(entry.message.content),
+        timestamp: entry.timestamp,
+      });
+      continue;
+    }
+    const current = turns.at(-1);
+    if (current) {
+      current.entryId = entry.id;
+    }
+  }
+  return turns;
+}
+
+/** List the user turns on the active branch of a transcript, oldest first. */
+export function listSessionTurns(sessionFile: string): SessionTurn[] {
+  if (!fs.existsSync(sessionFile)) {
+    return [];
+  }
+  return listTurnsFromManager(SessionManager.open(sessionFile));
+}
+
+/**
+ * Copy a transcript up to the end of `turn` (default: the latest turn) into a new file.
+ * The source transcript is left untouched.
+ */
+export function forkSessionTranscript(params: { sessionFile: string; turn?: number }): {
+  sessionId: string;
+  sessionFile: string;
+  turn: number;
+} {
+  if (!fs.existsSync(params.sessionFile)) {
+    throw new Error("session has no transcript to fork");
+  }
+  const manager = SessionManager.open(params.sessionFile);
+  const turns = listTurnsFromManager(manager);
+  if (turns.length === 0) {
+    throw new Error("session has no messages to fork");
+  }
+  const turnNumber = params.turn ?? turns.length;
+  const target = turns[turnNumber - 1];
+  if (!Number.isInteger(turnNumber) || !target) {
+    throw new Error(`turn must be between 1 and ${turns.length}`);
+  }
+  const sessionFile = manager.createBranchedSession(target.entryId);
+  const sessionId = manager.getSessionId();
+  if (!sessionFile || !sessionId) {
+    throw new Error("failed to write forked transcript");
+  }
+  return { sessionId, sessionFile, turn: turnNumber };
+}
+
+/** Resolve the key that should receive messages addressed to `sessionKey`. */
+export function resolveActiveSessionForkKey(
+  store: Record<string, SessionEntry>,
+  sessionKey: string,
+): string {
+  if (isForkSessionKey(sessionKey)) {
+    return sessionKey;
+  }
+  const activeForkKey = store[sessionKey]?.activeForkKey;
+  return activeForkKey && store[activeForkKey] ? activeForkKey : sessionKey;
+}
+
+export function listSessionForks(
+  store: Record<string, SessionEntry>,
+  sessionKey: string,
+): SessionForkList {
+  const rootKey = resolveForkRootSessionKey(sessionKey);
+  const activeKey = resolveActiveSessionForkKey(store, rootKey);
+  const forks: SessionForkSummary[] = [];
+  for (const [key, entry] of Object.entries(store)) {
+    if (!entry.forkOf || resolveForkRootSessionKey(key) !== rootKey || key === rootKey) {
+      continue;
+    }
+    forks.push({
+      key,
+      label: entry.label,
+      turn: entry.forkOf.turn,
+      createdAt: entry.forkOf.createdAt,
+      updatedAt: entry.updatedAt,
+      active: key === activeKey,
+    });
+  }
+  forks.sort((a, b) => a.createdAt - b.createdAt);
+  return { rootKey, activeKey, forks };
+}
+
+/**
+ * Fork `sessionKey` at a user turn into `<root>:fork:<id>`. With `activate`, the root session's
+ * inbound messages are routed to the new fork until switched back.
+ */
+export async function createSessionFork(params: {
+  storePath: string;
+  sessionKey: string;
+  agentId?: string;
+  turn?: number;
+  label?: string;
+  activate?: boolean;
+  now?: number;
+}): Promise<{ key: string; entry: SessionEntry }> {
+  const label = params.label === undefined ? undefined : parseSessionLabel(params.label);
+  if (label && !label.ok) {
+    throw new Error(label.error);
+  }
+  const source = loadSessionStore(params.storePath, { skipCache: true })[params.sessionKey];
+  if (!source) {
+    throw new Error(`session not found: ${params.sessionKey}`);
+  }
+  const sessionFile = resolveSessionFilePath(source.sessionId, source, {
+    agentId: params.agentId,
+    sessionsDir: path.dirname(params.storePath),
+  });
+  const forked = forkSessionTranscript({ sessionFile, turn: params.turn });
+  const now = params.now ?? Date.now();
+
+  const entry: SessionEntry = {
+    sessionId: forked.sessionId,
+    sessionFile: forked.sessionFile,
+    updatedAt: now,
+    forkOf: { sessionKey: params.sessionKey, turn: forked.turn, createdAt: now },
+  };
+  for (const field of INHERITED_FORK_FIELDS) {
+    if (source[field] !== undefined) {
+      Object.assign(entry, { [field]: source[field] });
+    }
+  }
+  if (label) {
+    entry.label = label.label;
+  }
+
+  const rootKey = resolveForkRootSessionKey(params.sessionKey);
+  const key = buildForkSessionKey(rootKey, crypto.randomBytes(3).toString("hex"));
+  try {
+    await updateSessionStore(params.storePath, (store) => {
+      if (entry.label && Object.values(store).some((existing) => existing.label === entry.label)) {
+        throw new Error(`label already in use: ${entry.label}`);
+      }
+      store[key] = entry;
+      const root = store[rootKey];
+      if (params.activate && root) {
+        root.activeForkKey = key;
+      }
+    });
+  } catch (err) {
+    fs.rmSync(forked.sessionFile, { force: true });
+    throw err;
+  }
+  return { key, entry };
+}
+
+/**
+ * Route the root session to `target`: a fork key, fork id or fork label, or the root key itself
+ * (`"main"` is accepted as an alias for the root).
+ */
+export async function switchSessionFork(params: {
+  storePath: string;
+  sessionKey: string;
+  target: string;
+}): Promise<{ rootKey: string; activeKey: string }> {
+  const rootKey = resolveForkRootSessionKey(params.sessionKey);
+  const raw = params.target.trim().toLowerCase();
+  return await updateSessionStore(params.storePath, (store) => {
+    const root = store[rootKey];
+    if (!root) {
+      throw new Error(`session not found: ${rootKey}`);
+    }
+    if (!raw || raw === "main" || raw === rootKey) {
+      delete root.activeForkKey;
+      return { rootKey, activeKey: rootKey };
+    }
+    const idKey = isForkSessionKey(raw) ? raw : buildForkSessionKey(rootKey, raw);
+    const match = listSessionForks(store, rootKey).forks.find(
+      (fork) => fork.key === idKey || fork.label?.toLowerCase() === raw,
+    );
+    if (!match) {
+      throw new Error(`fork not found: ${params.target.trim()}`);
+    }
+    root.activeForkKey = match.key;
+    return { rootKey, activeKey: match.key };
+  });
+}
@@ -3,6 +3,7 @@ import type { Skill } from "@mariozechner/pi-coding-agent";
 import type { ChatType } from "../../channels/chat-type.js";
 import type { ChannelId } from "../../channels/plugins/types.js";
 import type { DeliveryContext } from "../../utils/delivery-context.js";
+import type { McpServerConfig } from "../types.mcp.js";
 import type { TtsAutoMode } from "../types.tts.js";
 
 export type SessionScope = "per-sender" | "global";
@@ -65,6 +66,14 @@ export type AcpSessionRuntimeOptions = {
   backendExtras?: Record<string, string>;
 };
 
+export type SessionForkOrigin = {
+  /** Session key the fork was created from. */
+  sessionKey: string;
+  /** Number of user turns copied from the source transcript. */
+  turn: number;
+  createdAt: number;
+};
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -80,8 +89,14 @@ export type SessionEntry = {
   spawnedBy?: string;
   /** True after a thread/topic session has been forked from its parent transcript once. */
   forkedFromParent?: boolean;
+  /** Set on sessions created by /fork or sessions.fork: where the history was copied from. */
+  forkOf?: SessionForkOrigin;
+  /** Fork that currently receives this session's inbound messages (set by /fork switch). */
+  activeForkKey?: string;
   /** Subagent spawn depth (0 = main, 1 = sub-agent, 2 = sub-sub-agent). */
   spawnDepth?: number;
+  /** Sub-agent role selected at spawn time (agents.*.subagents.roles). */
+  subagentRole?: string;
   systemSent?: boolean;
   abortedLastRun?: boolean;
   /**
@@ -164,6 +179,8 @@ export type SessionEntry = {
   skillsSnapshot?: SessionSkillSnapshot;
   systemPromptReport?: SessionSystemPromptReport;
   acp?: SessionAcpMeta;
+  /** Session-scoped MCP servers (e.g. supplied by an ACP client), merged over agent config. */
+  mcpServers?: Record<string, McpServerConfig>;
 };
 
 function normalizeRuntimeField(value: string | undefined): string | undefined {
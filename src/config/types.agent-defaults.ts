@@ -6,8 +6,28 @@ import type {
   HumanDelayConfig,
   TypingMode,
 } from "./types.base.js";
+import type { McpServerConfig } from "./types.mcp.js";
 import type { MemorySearchConfig } from "./types.tools.js";
 
+/** Sub-agent role template applied when sessions_spawn is called with `role`. */
+export type SubagentRoleConfig = {
+  /** Short description shown to the parent agent when choosing a role. */
+  description?: string;
+  /** Extra system prompt instructions for sub-agents spawned with this role. */
+  systemPrompt?: string;
+  /** Tool allow/deny for this role; applied on top of the sub-agent tool policy (can only narrow). */
+  tools?: {
+    allow?: string[];
+    deny?: string[];
+  };
+  /** Model for this role (provider/model or alias); takes precedence over the spawn `model`. */
+  model?: string;
+  /** Thinking level for this role; takes precedence over the spawn `thinking`. */
+  thinking?: string;
+  /** Max run time in seconds; caps the spawn `runTimeoutSeconds`. */
+  runTimeoutSeconds?: number;
+};
+
 export type AgentModelEntryConfig = {
   alias?: string;
   /** Provider-specific API parameters (e.g., GLM-4.7 thinking mode). */
@@ -170,6 +190,8 @@ export type AgentDefaultsConfig = {
   };
   /** Vector memory search configuration (per-agent overrides supported). */
   memorySearch?: MemorySearchConfig;
+  /** MCP servers whose tools are exposed to agents (keyed by server name; per-agent overrides supported). */
+  mcpServers?: Record<string, McpServerConfig>;
   /** Default thinking level when no /think directive is present. */
   thinkingDefault?: "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
   /** Default verbose level when no /verbose directive is present. */
@@ -263,6 +285,8 @@ export type AgentDefaultsConfig = {
     runTimeoutSeconds?: number;
     /** Gateway timeout in ms for sub-agent announce delivery calls (default: 60000). */
     announceTimeoutMs?: number;
+    /** Named sub-agent roles selectable via sessions_spawn `role`. */
+    roles?: Record<string, SubagentRoleConfig>;
   };
   /** Optional sandbox settings for non-main sessions. */
   sandbox?: AgentSandboxConfig;
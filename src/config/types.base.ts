@@ -68,6 +68,43 @@ export type SessionSendPolicyConfig = {
   rules?: SessionSendPolicyRule[];
 };
 
+export type SessionBudgetScope = "agent" | "session" | "sender" | "account";
+export type SessionBudgetPeriod = "daily" | "monthly";
+export type SessionBudgetAction = "warn" | "downgrade" | "stop";
+export type SessionBudgetMatch = {
+  agentId?: string;
+  channel?: string;
+  accountId?: string;
+  chatType?: ChatType;
+  /** Session key prefix match (raw or with the `agent:<id>:` prefix stripped). */
+  keyPrefix?: string;
+};
+export type SessionBudgetRule = {
+  /** Stable id shown in `/usage budget` and used to key spend counters. Default: `<scope>-<period>-<index>`. */
+  id?: string;
+  /** What one counter covers: each agent, session key, sender, or channel account gets its own. */
+  scope: SessionBudgetScope;
+  /** Only runs matching every field count toward (and are limited by) this rule. */
+  match?: SessionBudgetMatch;
+  /** Counter reset window in local time. Default: "daily". */
+  period?: SessionBudgetPeriod;
+  /** Token limit per period (input + output + cache). */
+  maxTokens?: number;
+  /** Estimated cost limit per period in USD (requires model cost config). */
+  maxCostUsd?: number;
+  /** Fraction of a limit that triggers a one-time soft warning per period (0-1). Default: 0.8; 0 disables. */
+  warnAt?: number;
+  /** Behavior once a limit is reached. Default: "stop". */
+  action?: SessionBudgetAction;
+  /** Cheaper model (provider/model or alias) used while over budget when action is "downgrade". */
+  fallbackModel?: string;
+};
+export type SessionBudgetsConfig = {
+  rules?: SessionBudgetRule[];
+  /** Reply sent instead of running the agent when a "stop" budget is exhausted. */
+  stopMessage?: string;
+};
+
 export type SessionResetMode = "daily" | "idle";
 export type SessionResetConfig = {
   mode?: SessionResetMode;
@@ -125,6 +162,8 @@ export type SessionConfig = {
   parentForkMaxTokens?: number;
   mainKey?: string;
   sendPolicy?: SessionSendPolicyConfig;
+  /** Token/cost budgets checked before each agent run. */
+  budgets?: SessionBudgetsConfig;
   agentToAgent?: {
     /** Max ping-pong turns between requester/target (0–5). Default: 5. */
     maxPingPongTurns?: number;
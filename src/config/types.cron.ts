@@ -1,3 +1,33 @@
+export type CronCalendarWeekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export type CronCalendarWindow = {
+  /** Weekdays the window applies to (default: every day). */
+  days?: CronCalendarWeekday[];
+  /** Window start in local time (HH:MM, default 00:00). */
+  start?: string;
+  /** Window end in local time (HH:MM or 24:00, default 24:00). Ends before start wrap midnight. */
+  end?: string;
+};
+
+/**
+ * Named exclusion calendar referenced by cron jobs via `schedule.exclude`.
+ * A slot is skipped when it falls on a listed date, inside a window, or inside an ICS event.
+ */
+export type CronCalendarConfig = {
+  description?: string;
+  /** IANA timezone for dates/windows (default: the job schedule tz, then the host tz). */
+  tz?: string;
+  /**
+   * Excluded dates: `YYYY-MM-DD`, yearly `MM-DD`, or inclusive ranges `a..b`
+   * (yearly ranges may wrap the year end, e.g. `12-24..01-02`).
+   */
+  dates?: string[];
+  /** Recurring blackout windows (e.g. maintenance nights). */
+  windows?: CronCalendarWindow[];
+  /** Path to a local `.ics` file; every VEVENT becomes an excluded span. */
+  ics?: string;
+};
+
 export type CronConfig = {
   enabled?: boolean;
   store?: string;
@@ -23,4 +53,6 @@ export type CronConfig = {
     maxBytes?: number | string;
     keepLines?: number;
   };
+  /** Named exclusion calendars (holidays, blackout windows) referenced by `schedule.exclude`. */
+  calendars?: Record<string, CronCalendarConfig>;
 };
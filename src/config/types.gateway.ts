@@ -147,6 +147,29 @@ export type GatewayAuthConfig = {
    * Required when mode is "trusted-proxy".
    */
   trustedProxy?: GatewayTrustedProxyConfig;
+  /**
+   * Extra shared tokens bound to a `gateway.roles` entry. Connections using one are limited to
+   * that role's methods (WebSocket operator connections only; HTTP endpoints reject them).
+   */
+  roleTokens?: GatewayRoleTokenConfig[];
+};
+
+export type GatewayRoleTokenConfig = {
+  /** Shared secret presented as `auth.token` on connect. */
+  token: string;
+  /** Name of the `gateway.roles` entry this token grants. */
+  role: string;
+  /** Optional label for audits and logs. */
+  label?: string;
+};
+
+export type GatewayRoleConfig = {
+  /** Optional description shown in security audit output. */
+  description?: string;
+  /** Method patterns the role may call: exact names (`sessions.list`), `prefix.*`, or `*`. */
+  allow?: string[];
+  /** Method patterns removed from `allow`; deny wins. */
+  deny?: string[];
 };
 
 export type GatewayAuthRateLimitConfig = {
@@ -203,6 +226,23 @@ export type GatewayHttpChatCompletionsConfig = {
   enabled?: boolean;
 };
 
+export type GatewayHttpMessagesConfig = {
+  /**
+   * If false, the Gateway will not serve `POST /v1/messages` (Anthropic Messages API).
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+};
+
+export type GatewayHttpEmbeddingsConfig = {
+  /**
+   * If false, the Gateway will not serve `POST /v1/embeddings`.
+   * Embeddings come from the agent's memory search provider.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+};
+
 export type GatewayHttpResponsesConfig = {
   /**
    * If false, the Gateway will not serve `POST /v1/responses` (OpenResponses API).
@@ -277,6 +317,8 @@ export type GatewayHttpResponsesImagesConfig = {
 export type GatewayHttpEndpointsConfig = {
   chatCompletions?: GatewayHttpChatCompletionsConfig;
   responses?: GatewayHttpResponsesConfig;
+  messages?: GatewayHttpMessagesConfig;
+  embeddings?: GatewayHttpEmbeddingsConfig;
 };
 
 export type GatewayHttpSecurityHeadersConfig = {
@@ -337,6 +379,11 @@ export type GatewayConfig = {
   customBindHost?: string;
   controlUi?: GatewayControlUiConfig;
   auth?: GatewayAuthConfig;
+  /**
+   * Custom operator roles keyed by name. Grant one to a device token with the `role:<name>`
+   * scope or to a shared token via `gateway.auth.roleTokens`.
+   */
+  roles?: Record<string, GatewayRoleConfig>;
   tailscale?: GatewayTailscaleConfig;
   remote?: GatewayRemoteConfig;
   reload?: GatewayReloadConfig;
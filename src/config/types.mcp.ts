@@ -0,0 +1,33 @@
+export type McpServerTransport = "stdio" | "http";
+
+export type McpServerToolFilterConfig = {
+  /** Only expose these server tool names (glob patterns supported). */
+  allow?: string[];
+  /** Never expose these server tool names (glob patterns supported). */
+  deny?: string[];
+};
+
+export type McpServerConfig = {
+  /** Set false to disable a server inherited from agents.defaults.mcpServers. */
+  enabled?: boolean;
+  /** Transport (default: "stdio" when command is set, "http" when url is set). */
+  transport?: McpServerTransport;
+  /** stdio: command to launch (absolute path or on PATH). */
+  command?: string;
+  /** stdio: arguments passed to the command. */
+  args?: string[];
+  /** stdio: extra env vars for the server process. */
+  env?: Record<string, string>;
+  /** stdio: working directory (default: agent workspace). */
+  cwd?: string;
+  /** http: Streamable HTTP endpoint URL. */
+  url?: string;
+  /** http: extra headers sent with every request (e.g. Authorization). */
+  headers?: Record<string, string>;
+  /** Per-request timeout in ms (default: 60000). */
+  timeoutMs?: number;
+  /** Connect + initialize timeout in ms (default: 15000). */
+  connectTimeoutMs?: number;
+  /** Server-side tool filter applied before tool policy. */
+  tools?: McpServerToolFilterConfig;
+};
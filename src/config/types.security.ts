@@ -0,0 +1,33 @@
+export type InjectionScreeningSource = "email" | "webhook" | "web_fetch";
+
+export type InjectionScreeningAction = "annotate" | "strip" | "quarantine" | "refuse";
+
+export type InjectionJudgeConfig = {
+  /** Ask an LLM to score content in addition to the local heuristics. Default: false. */
+  enabled?: boolean;
+  /** Judge model as "provider/model". Default: the agent default model. */
+  model?: string;
+  /** Per-call timeout for the judge. Default: 15000. */
+  timeoutMs?: number;
+  /** Only consult the judge when the heuristic score is at least this value (0-1). Default: 0. */
+  minScore?: number;
+};
+
+export type InjectionScreeningConfig = {
+  /** Screen untrusted external content for prompt injection. Default: true. */
+  enabled?: boolean;
+  /** Content sources to screen. Default: all (email, webhook, web_fetch). */
+  sources?: InjectionScreeningSource[];
+  /**
+   * Minimum risk score (0-1) for each action; the strongest action whose threshold is met wins.
+   * Default: annotate at 0.3; strip/quarantine/refuse are off until configured.
+   */
+  thresholds?: Partial<Record<InjectionScreeningAction, number>>;
+  /** Optional LLM judge stage. */
+  judge?: InjectionJudgeConfig;
+};
+
+export type SecurityConfig = {
+  /** Prompt-injection screening for emails, webhooks and web fetches. */
+  injection?: InjectionScreeningConfig;
+};
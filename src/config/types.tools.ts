@@ -53,7 +53,7 @@ export type MediaUnderstandingModelConfig = MediaProviderRequestConfig & {
   capabilities?: MediaUnderstandingCapability[];
   /** Use a CLI command instead of provider API. */
   type?: "provider" | "cli";
-  /** CLI binary (required when type=cli). */
+  /** CLI binary (required when type=cli; local-whisper uses it as the whisper binary). */
   command?: string;
   /** CLI args (template-enabled). */
   args?: string[];
@@ -154,6 +154,26 @@ export type ToolLoopDetectionConfig = {
   detectors?: ToolLoopDetectionDetectorConfig;
 };
 
+export type ToolResultCacheToolConfig = {
+  /** Cache results for this tool (default: true for web_fetch/web_search, false otherwise). */
+  enabled?: boolean;
+  /** Time-to-live for cached results of this tool (default: tools.resultCache.ttlSeconds). */
+  ttlSeconds?: number;
+};
+
+export type ToolResultCacheConfig = {
+  /** Enable the tool result cache (default: false). */
+  enabled?: boolean;
+  /** Share cached results per session or across all sessions of an agent (default: "session"). */
+  scope?: "session" | "agent";
+  /** Default time-to-live for cached results (default: 300). */
+  ttlSeconds?: number;
+  /** Maximum cached results kept per scope (default: 100). */
+  maxEntries?: number;
+  /** Per-tool opt-in and TTL overrides keyed by tool name. */
+  tools?: Record<string, ToolResultCacheToolConfig>;
+};
+
 export type SessionsToolsVisibility = "self" | "tree" | "agent" | "all";
 
 export type ToolPolicyConfig = {
@@ -293,6 +313,8 @@ export type AgentToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** Reuse results of identical read-only tool calls. */
+  resultCache?: ToolResultCacheConfig;
   sandbox?: {
     tools?: {
       allow?: string[];
@@ -301,13 +323,17 @@ export type AgentToolsConfig = {
   };
 };
 
+export type MemoryDocumentFormat = "markdown" | "text" | "html" | "pdf" | "code";
+
 export type MemorySearchConfig = {
   /** Enable vector memory search (default: true). */
   enabled?: boolean;
   /** Sources to index and search (default: ["memory"]). */
   sources?: Array<"memory" | "sessions">;
-  /** Extra paths to include in memory search (directories or .md files). */
+  /** Extra paths to include in memory search (directories or files in an indexed format). */
   extraPaths?: string[];
+  /** File formats indexed from memory paths (default: ["markdown"]; Markdown is always indexed). */
+  formats?: MemoryDocumentFormat[];
   /** Experimental memory search settings. */
   experimental?: {
     /** Enable session transcript indexing (experimental, default: false). */
@@ -407,6 +433,25 @@ export type MemorySearchConfig = {
         halfLifeDays?: number;
       };
     };
+    /** Optional cross-encoder reranking of the top candidates before truncation. */
+    rerank?: {
+      /** Enable reranking (default: false). */
+      enabled?: boolean;
+      /** Reranker backend (default: "local"). */
+      provider?: "local" | "voyage" | "cohere";
+      /** GGUF path or hf: URI (local), or rerank model id (voyage/cohere). */
+      model?: string;
+      /** Remote rerank API overrides (voyage/cohere). */
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+      /** Number of top candidates to rerank (default: 20). */
+      topN?: number;
+      /** Rerank timeout in ms; on timeout or error the current ranking is kept (default: 5000). */
+      timeoutMs?: number;
+    };
   };
   /** Index cache behavior. */
   cache?: {
@@ -571,6 +616,8 @@ export type ToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** Reuse results of identical read-only tool calls. */
+  resultCache?: ToolResultCacheConfig;
   /** Sub-agent tool policy defaults (deny wins). */
   subagents?: {
     /** Default model selection for spawned sub-agents (string or {primary,fallbacks}). */
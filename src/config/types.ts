@@ -16,6 +16,7 @@ export * from "./types.gateway.js";
 export * from "./types.hooks.js";
 export * from "./types.imessage.js";
 export * from "./types.irc.js";
+export * from "./types.mcp.js";
 export * from "./types.messages.js";
 export * from "./types.models.js";
 export * from "./types.node-host.js";
@@ -24,6 +25,7 @@ export * from "./types.plugins.js";
 export * from "./types.queue.js";
 export * from "./types.sandbox.js";
 export * from "./types.secrets.js";
+export * from "./types.security.js";
 export * from "./types.signal.js";
 export * from "./types.skills.js";
 export * from "./types.slack.js";
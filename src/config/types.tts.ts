@@ -1,4 +1,4 @@
-export type TtsProvider = "elevenlabs" | "openai" | "edge";
+export type TtsProvider = "elevenlabs" | "openai" | "edge" | "piper" | "openai-compatible";
 
 export type TtsMode = "final" | "all";
 
@@ -73,6 +73,34 @@ export type TtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  /** Local Piper (or any CLI that reads text on stdin and writes an audio file). */
+  piper?: {
+    /** Executable to run (default: "piper"). */
+    command?: string;
+    /**
+     * Command arguments. Supports {{OutputPath}}, {{Model}}, {{Speaker}} and {{Text}}.
+     * Default: Piper flags built from `model` and `speaker`.
+     */
+    args?: string[];
+    /** Path to the Piper voice model (.onnx). */
+    model?: string;
+    /** Speaker id for multi-speaker Piper models. */
+    speaker?: number;
+    /** Audio format the command writes (default: wav). */
+    outputFormat?: "wav" | "mp3" | "ogg" | "opus";
+    timeoutMs?: number;
+  };
+  /** Self-hosted server exposing the OpenAI `/audio/speech` API (Kokoro, LocalAI, ...). */
+  openaiCompatible?: {
+    /** Base URL including the version prefix, e.g. http://localhost:8880/v1. */
+    baseUrl?: string;
+    /** Optional bearer token; many local servers need none. */
+    apiKey?: string;
+    model?: string;
+    voice?: string;
+    /** Force a response format instead of the per-channel default (mp3, or opus for Telegram). */
+    responseFormat?: "mp3" | "opus" | "aac" | "flac" | "wav" | "pcm";
+  };
   /** Optional path for local TTS user preferences JSON. */
   prefsPath?: string;
   /** Hard cap for text sent to TTS (chars). */
@@ -3,7 +3,9 @@ import {
   HeartbeatSchema,
   AgentSandboxSchema,
   AgentModelSchema,
+  McpServersSchema,
   MemorySearchSchema,
+  SubagentRolesSchema,
 } from "./zod-schema.agent-runtime.js";
 import {
   BlockStreamingChunkSchema,
@@ -44,6 +46,7 @@ export const AgentDefaultsSchema = z
     contextTokens: z.number().int().positive().optional(),
     cliBackends: z.record(z.string(), CliBackendSchema).optional(),
     memorySearch: MemorySearchSchema,
+    mcpServers: McpServersSchema,
     contextPruning: z
       .object({
         mode: z.union([z.literal("off"), z.literal("cache-ttl")]).optional(),
@@ -160,6 +163,7 @@ export const AgentDefaultsSchema = z
         thinking: z.string().optional(),
         runTimeoutSeconds: z.number().int().min(0).optional(),
         announceTimeoutMs: z.number().int().positive().optional(),
+        roles: SubagentRolesSchema,
       })
       .strict()
       .optional(),
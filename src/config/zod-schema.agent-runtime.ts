@@ -254,6 +254,31 @@ export const ToolPolicySchema = ToolPolicyBaseSchema.superRefine((value, ctx) =>
   }
 }).optional();
 
+export const SubagentRolesSchema = z
+  .record(
+    z.string(),
+    z
+      .object({
+        description: z.string().optional(),
+        systemPrompt: z.string().optional(),
+        tools: z
+          .object({
+            allow: z.array(z.string()).optional(),
+            deny: z.array(z.string()).optional(),
+          })
+          .strict()
+          .optional(),
+        model: z.string().optional(),
+        thinking: z.string().optional(),
+        runTimeoutSeconds: z.number().int().min(0).optional(),
+      })
+      .strict(),
+  )
+  .optional()
+  .describe(
+    "Named sub-agent roles (prompt additions, tool allow/deny, model, thinking, max runtime) selectable via sessions_spawn role.",
+  );
+
 export const ToolsWebSearchSchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -467,6 +492,27 @@ const ToolLoopDetectionSchema = z
   })
   .optional();
 
+const ToolResultCacheSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    scope: z.union([z.literal("session"), z.literal("agent")]).optional(),
+    ttlSeconds: z.number().int().nonnegative().optional(),
+    maxEntries: z.number().int().positive().optional(),
+    tools: z
+      .record(
+        z.string(),
+        z
+          .object({
+            enabled: z.boolean().optional(),
+            ttlSeconds: z.number().int().nonnegative().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+  })
+  .strict()
+  .optional();
+
 export const AgentSandboxSchema = z
   .object({
     mode: z.union([z.literal("off"), z.literal("non-main"), z.literal("all")]).optional(),
@@ -518,6 +564,7 @@ export const AgentToolsSchema = z
     exec: AgentToolExecSchema,
     fs: ToolFsSchema,
     loopDetection: ToolLoopDetectionSchema,
+    resultCache: ToolResultCacheSchema,
     sandbox: z
       .object({
         tools: ToolPolicySchema,
@@ -540,6 +587,17 @@ export const MemorySearchSchema = z
     enabled: z.boolean().optional(),
     sources: z.array(z.union([z.literal("memory"), z.literal("sessions")])).optional(),
     extraPaths: z.array(z.string()).optional(),
+    formats: z
+      .array(
+        z.union([
+          z.literal("markdown"),
+          z.literal("text"),
+          z.literal("html"),
+          z.literal("pdf"),
+          z.literal("code"),
+        ]),
+      )
+      .optional(),
     experimental: z
       .object({
         sessionMemory: z.boolean().optional(),
@@ -656,6 +714,26 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        rerank: z
+          .object({
+            enabled: z.boolean().optional(),
+            provider: z
+              .union([z.literal("local"), z.literal("voyage"), z.literal("cohere")])
+              .optional(),
+            model: z.string().optional(),
+            remote: z
+              .object({
+                baseUrl: z.string().optional(),
+                apiKey: z.string().optional().register(sensitive),
+                headers: z.record(z.string(), z.string()).optional(),
+              })
+              .strict()
+              .optional(),
+            topN: z.number().int().positive().optional(),
+            timeoutMs: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -669,6 +747,50 @@ export const MemorySearchSchema = z
   })
   .strict()
   .optional();
+export const McpServerSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    transport: z.union([z.literal("stdio"), z.literal("http")]).optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string().register(sensitive)).optional(),
+    cwd: z.string().optional(),
+    url: z.string().url().optional(),
+    headers: z.record(z.string(), z.string().register(sensitive)).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    connectTimeoutMs: z.number().int().positive().optional(),
+    tools: z
+      .object({
+        allow: z.array(z.string()).optional(),
+        deny: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.enabled === false) {
+      return;
+    }
+    const transport = value.transport ?? (value.url ? "http" : "stdio");
+    if (transport === "stdio" && !value.command?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["command"],
+        message: "stdio MCP servers require command",
+      });
+    }
+    if (transport === "http" && !value.url?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["url"],
+        message: "http MCP servers require url",
+      });
+    }
+  });
+
+export const McpServersSchema = z.record(z.string(), McpServerSchema).optional();
+
 export { AgentModelSchema };
 export const AgentEntrySchema = z
   .object({
@@ -680,6 +802,7 @@ export const AgentEntrySchema = z
     model: AgentModelSchema.optional(),
     skills: z.array(z.string()).optional(),
     memorySearch: MemorySearchSchema,
+    mcpServers: McpServersSchema,
     humanDelay: HumanDelaySchema.optional(),
     heartbeat: HeartbeatSchema,
     identity: IdentitySchema,
@@ -699,6 +822,7 @@ export const AgentEntrySchema = z
           ])
           .optional(),
         thinking: z.string().optional(),
+        roles: SubagentRolesSchema,
       })
       .strict()
       .optional(),
@@ -720,6 +844,7 @@ export const ToolsSchema = z
       .strict()
       .optional(),
     loopDetection: ToolLoopDetectionSchema,
+    resultCache: ToolResultCacheSchema,
     message: z
       .object({
         allowCrossContextSend: z.boolean().optional(),
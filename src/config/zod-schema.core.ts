@@ -353,7 +353,13 @@ export const MarkdownConfigSchema = z
   .strict()
   .optional();
 
-export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge"]);
+export const TtsProviderSchema = z.enum([
+  "elevenlabs",
+  "openai",
+  "edge",
+  "piper",
+  "openai-compatible",
+]);
 export const TtsModeSchema = z.enum(["final", "all"]);
 export const TtsAutoSchema = z.enum(["off", "always", "inbound", "tagged"]);
 export const TtsConfigSchema = z
@@ -421,6 +427,27 @@ export const TtsConfigSchema = z
       })
       .strict()
       .optional(),
+    piper: z
+      .object({
+        command: z.string().optional(),
+        args: z.array(z.string()).optional(),
+        model: z.string().optional(),
+        speaker: z.number().int().min(0).optional(),
+        outputFormat: z.enum(["wav", "mp3", "ogg", "opus"]).optional(),
+        timeoutMs: z.number().int().min(1000).max(120000).optional(),
+      })
+      .strict()
+      .optional(),
+    openaiCompatible: z
+      .object({
+        baseUrl: z.string().optional(),
+        apiKey: z.string().optional().register(sensitive),
+        model: z.string().optional(),
+        voice: z.string().optional(),
+        responseFormat: z.enum(["mp3", "opus", "aac", "flac", "wav", "pcm"]).optional(),
+      })
+      .strict()
+      .optional(),
     prefsPath: z.string().optional(),
     maxTextLength: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1000).max(120000).optional(),
@@ -206,6 +206,7 @@ export const TelegramAccountSchemaBase = z
         sendMessage: z.boolean().optional(),
         deleteMessage: z.boolean().optional(),
         sticker: z.boolean().optional(),
+        polls: z.boolean().optional(),
       })
       .strict()
       .optional(),
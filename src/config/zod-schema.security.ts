@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+const InjectionScoreSchema = z.number().min(0).max(1);
+
+const InjectionJudgeSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    model: z.string().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    minScore: InjectionScoreSchema.optional(),
+  })
+  .strict()
+  .optional();
+
+const InjectionScreeningSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    sources: z
+      .array(z.union([z.literal("email"), z.literal("webhook"), z.literal("web_fetch")]))
+      .optional(),
+    thresholds: z
+      .object({
+        annotate: InjectionScoreSchema.optional(),
+        strip: InjectionScoreSchema.optional(),
+        quarantine: InjectionScoreSchema.optional(),
+        refuse: InjectionScoreSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    judge: InjectionJudgeSchema,
+  })
+  .strict()
+  .optional();
+
+export const SecuritySchema = z
+  .object({
+    injection: InjectionScreeningSchema,
+  })
+  .strict()
+  .optional();
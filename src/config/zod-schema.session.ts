@@ -23,6 +23,44 @@ const SessionResetConfigSchema = z
 
 export const SessionSendPolicySchema = createAllowDenyChannelRulesSchema();
 
+const SessionBudgetRuleSchema = z
+  .object({
+    id: z.string().optional(),
+    scope: z.enum(["agent", "session", "sender", "account"]),
+    match: z
+      .object({
+        agentId: z.string().optional(),
+        channel: z.string().optional(),
+        accountId: z.string().optional(),
+        chatType: z.enum(["direct", "group", "channel"]).optional(),
+        keyPrefix: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    period: z.enum(["daily", "monthly"]).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    maxCostUsd: z.number().positive().optional(),
+    warnAt: z.number().min(0).max(1).optional(),
+    action: z.enum(["warn", "downgrade", "stop"]).optional(),
+    fallbackModel: z.string().optional(),
+  })
+  .strict()
+  .superRefine((val, ctx) => {
+    if (val.maxTokens === undefined && val.maxCostUsd === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "budget rule needs maxTokens or maxCostUsd",
+      });
+    }
+    if (val.action === "downgrade" && !val.fallbackModel?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["fallbackModel"],
+        message: 'action "downgrade" requires fallbackModel',
+      });
+    }
+  });
+
 export const SessionSchema = z
   .object({
     scope: z.union([z.literal("per-sender"), z.literal("global")]).optional(),
@@ -55,6 +93,13 @@ export const SessionSchema = z
     parentForkMaxTokens: z.number().int().nonnegative().optional(),
     mainKey: z.string().optional(),
     sendPolicy: SessionSendPolicySchema.optional(),
+    budgets: z
+      .object({
+        rules: z.array(SessionBudgetRuleSchema).optional(),
+        stopMessage: z.string().optional(),
+      })
+      .strict()
+      .optional(),
     agentToAgent: z
       .object({
         maxPingPongTurns: z.number().int().min(0).max(5).optional(),
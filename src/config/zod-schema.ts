@@ -13,6 +13,7 @@ import {
 import { HookMappingSchema, HooksGmailSchema, InternalHooksSchema } from "./zod-schema.hooks.js";
 import { InstallRecordShape } from "./zod-schema.installs.js";
 import { ChannelsSchema } from "./zod-schema.providers.js";
+import { SecuritySchema } from "./zod-schema.security.js";
 import { sensitive } from "./zod-schema.sensitive.js";
 import {
   CommandsSchema,
@@ -128,6 +129,41 @@ const HttpUrlSchema = z
     return protocol === "http:" || protocol === "https:";
   }, "Expected http:// or https:// URL");
 
+const CronCalendarDateSchema = z
+  .string()
+  .regex(
+    /^(\d{4}-\d{2}-\d{2}(\.\.\d{4}-\d{2}-\d{2})?|\d{2}-\d{2}(\.\.\d{2}-\d{2})?)$/,
+    "Expected YYYY-MM-DD, MM-DD, or an inclusive range like 12-24..01-02",
+  );
+
+const CronCalendarSchema = z
+  .object({
+    description: z.string().optional(),
+    tz: z.string().optional(),
+    dates: z.array(CronCalendarDateSchema).optional(),
+    windows: z
+      .array(
+        z
+          .object({
+            days: z
+              .array(z.union([z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"])]))
+              .optional(),
+            start: z
+              .string()
+              .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM")
+              .optional(),
+            end: z
+              .string()
+              .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Expected HH:MM or 24:00")
+              .optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    ics: z.string().optional(),
+  })
+  .strict();
+
 export const OpenClawSchema = z
   .object({
     $schema: z.string().optional(),
@@ -295,6 +331,7 @@ export const OpenClawSchema = z
       .strict()
       .optional(),
     secrets: SecretsConfigSchema,
+    security: SecuritySchema,
     auth: z
       .object({
         profiles: z
@@ -384,6 +421,7 @@ export const OpenClawSchema = z
           })
           .strict()
           .optional(),
+        calendars: z.record(z.string(), CronCalendarSchema).optional(),
       })
       .strict()
       .superRefine((val, ctx) => {
@@ -555,9 +593,32 @@ export const OpenClawSchema = z
               })
               .strict()
               .optional(),
+            roleTokens: z
+              .array(
+                z
+                  .object({
+                    token: z.string().min(1).register(sensitive),
+                    role: z.string().min(1),
+                    label: z.string().optional(),
+                  })
+                  .strict(),
+              )
+              .optional(),
           })
           .strict()
           .optional(),
+        roles: z
+          .record(
+            z.string(),
+            z
+              .object({
+                description: z.string().optional(),
+                allow: z.array(z.string()).optional(),
+                deny: z.array(z.string()).optional(),
+              })
+              .strict(),
+          )
+          .optional(),
         trustedProxies: z.array(z.string()).optional(),
         allowRealIpFallback: z.boolean().optional(),
         tools: z
@@ -659,6 +720,18 @@ export const OpenClawSchema = z
                   })
                   .strict()
                   .optional(),
+                messages: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                embeddings: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
               })
               .strict()
               .optional(),
@@ -0,0 +1,114 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { formatCronBlackout, resolveCronBlackout, type CronCalendars } from "./calendar.js";
+
+function blackoutAt(calendars: CronCalendars, iso: string, names = Object.keys(calendars)) {
+  return resolveCronBlackout({ calendars, names, atMs: Date.parse(iso) });
+}
+
+describe("resolveCronBlackout", () => {
+  let fixtureRoot = "";
+
+  beforeAll(async () => {
+    fixtureRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-calendar-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(fixtureRoot, { recursive: true, force: true });
+  });
+
+  it("matches yearly date ranges that wrap the year end", () => {
+    const calendars: CronCalendars = {
+      holidays: { tz: "UTC", dates: ["12-24..01-02"], description: "Winter break" },
+    };
+
+    expect(blackoutAt(calendars, "2025-12-31T10:00:00.000Z")).toEqual({
+      calendar: "holidays",
+      reason: "Winter break",
+      untilMs: Date.parse("2026-01-01T00:00:00.000Z"),
+    });
+    expect(blackoutAt(calendars, "2026-01-02T23:59:00.000Z")?.calendar).toBe("holidays");
+    expect(blackoutAt(calendars, "2026-01-03T00:00:00.000Z")).toBeUndefined();
+  });
+
+  it("evaluates dates in the calendar timezone", () => {
+    const calendars: CronCalendars = {
+      office: { tz: "America/New_York", dates: ["2025-12-25"] },
+    };
+
+    // 22:00 on Dec 24 in New York.
+    expect(blackoutAt(calendars, "2025-12-25T03:00:00.000Z")).toBeUndefined();
+    expect(blackoutAt(calendars, "2025-12-25T06:00:00.000Z")).toEqual({
+      calendar: "office",
+      reason: "2025-12-25",
+      untilMs: Date.parse("2025-12-26T05:00:00.000Z"),
+    });
+  });
+
+  it("handles overnight windows limited to specific weekdays", () => {
+    const calendars: CronCalendars = {
+      maintenance: { tz: "UTC", windows: [{ days: ["fri"], start: "22:00", end: "06:00" }] },
+    };
+
+    // Friday 2025-12-12 evening and the Saturday morning tail.
+    expect(blackoutAt(calendars, "2025-12-12T23:00:00.000Z")?.untilMs).toBe(
+      Date.parse("2025-12-13T06:00:00.000Z"),
+    );
+    expect(blackoutAt(calendars, "2025-12-13T03:00:00.000Z")?.untilMs).toBe(
+      Date.parse("2025-12-13T06:00:00.000Z"),
+    );
+    expect(blackoutAt(calendars, "2025-12-13T23:00:00.000Z")).toBeUndefined();
+  });
+
+  it("reads all-day and timed events from a local ICS file", async () => {
+    const icsPath = path.join(fixtureRoot, "company.ics");
+    await fs.writeFile(
+      icsPath,
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20240704",
+        "DTEND;VALUE=DATE:20240705",
+        "RRULE:FREQ=YEARLY",
+        "SUMMARY:Independence Day",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART:20251215T020000Z",
+        "DTEND:20251215T040000Z",
+        "SUMMARY:Database",
+        "  migration",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+      "utf-8",
+    );
+    const calendars: CronCalendars = { company: { tz: "UTC", ics: icsPath } };
+
+    expect(blackoutAt(calendars, "2026-07-04T12:00:00.000Z")).toEqual({
+      calendar: "company",
+      reason: "Independence Day",
+      untilMs: Date.parse("2026-07-05T00:00:00.000Z"),
+    });
+    expect(blackoutAt(calendars, "2025-12-15T03:00:00.000Z")).toEqual({
+      calendar: "company",
+      reason: "Database migration",
+      untilMs: Date.parse("2025-12-15T04:00:00.000Z"),
+    });
+    expect(blackoutAt(calendars, "2025-12-15T04:00:00.000Z")).toBeUndefined();
+  });
+
+  it("ignores unreadable ICS files and calendars the job does not reference", () => {
+    const calendars: CronCalendars = {
+      missing: { ics: path.join(fixtureRoot, "missing.ics") },
+      holidays: { tz: "UTC", dates: ["12-25"] },
+    };
+
+    expect(blackoutAt(calendars, "2025-12-25T12:00:00.000Z", ["missing"])).toBeUndefined();
+    const blackout = blackoutAt(calendars, "2025-12-25T12:00:00.000Z");
+    expect(blackout && formatCronBlackout(blackout)).toBe(
+      'excluded by calendar "holidays" (12-25)',
+    );
+  });
+});
@@ -0,0 +1,435 @@
+import fs from "node:fs";
+import type { CronCalendarConfig, CronCalendarWindow } from "../config/types.cron.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+
+const log = createSubsystemLogger("cron/calendar");
+
+export type CronCalendars = Record<string, CronCalendarConfig>;
+
+export type CronBlackout = {
+  calendar: string;
+  reason?: string;
+  /** First instant the matched exclusion no longer covers (re-check from here). */
+  untilMs: number;
+};
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+const FULL_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_PATTERN = /^\d{2}-\d{2}$/;
+const WINDOW_TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/;
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60_000;
+
+type LocalParts = {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minutes: number;
+  /** Milliseconds past the local minute (seconds + ms). */
+  remainderMs: number;
+};
+
+function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveCalendarTimezone(tz?: string, fallbackTz?: string): string {
+  for (const candidate of [tz, fallbackTz]) {
+    const trimmed = candidate?.trim();
+    if (trimmed && isValidTimeZone(trimmed)) {
+      return trimmed;
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone?.trim() || "UTC";
+}
+
+function resolveLocalParts(atMs: number, timeZone: string): LocalParts | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(new Date(atMs));
+    const map: Record<string, string> = {};
+    for (const part of parts) {
+      if (part.type !== "literal") {
+        map[part.type] = part.value;
+      }
+    }
+    const weekday = WEEKDAYS.indexOf(map.weekday?.toLowerCase() as (typeof WEEKDAYS)[number]);
+    const year = Number(map.year);
+    const month = Number(map.month);
+    const day = Number(map.day);
+    const hour = Number(map.hour);
+    const minute = Number(map.minute);
+    const second = Number(map.second);
+    if (weekday < 0 || ![year, month, day, hour, minute, second].every(Number.isFinite)) {
+      return null;
+    }
+    const millis = ((atMs % 1000) + 1000) % 1000;
+    return {
+      year,
+      month,
+      day,
+      weekday,
+      minutes: hour * 60 + minute,
+      remainderMs: second * 1000 + millis,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function timeZoneOffsetMs(atMs: number, timeZone: string): number {
+  const parts = resolveLocalParts(atMs, timeZone);
+  if (!parts) {
+    return 0;
+  }
+  const asUtc =
+    Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minutes) + parts.remainderMs;
+  return asUtc - atMs;
+}
+
+/** Convert a local wall-clock time to epoch ms (day overflow is normalized by Date.UTC). */
+function zonedTimeToUtcMs(
+  date: { year: number; month: number; day: number },
+  minutes: number,
+  timeZone: string,
+): number {
+  const guess = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const first = guess - timeZoneOffsetMs(guess, timeZone);
+  return guess - timeZoneOffsetMs(first, timeZone);
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function formatDateKey(parts: Pick<LocalParts, "year" | "month" | "day">): string {
+  return `${parts.year}-${pad2(parts.month)}-${pad2(parts.day)}`;
+}
+
+function shiftDate(parts: Pick<LocalParts, "year" | "month" | "day">, days: number) {
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function untilLocalMinute(
+  atMs: number,
+  local: LocalParts,
+  minutes: number,
+  timeZone: string,
+): number {
+  const untilMs = zonedTimeToUtcMs(local, minutes, timeZone);
+  // DST gaps can map the boundary behind us; always make progress.
+  return untilMs > atMs ? untilMs : atMs + MINUTE_MS;
+}
+
+type DateRule = { start: string; end: string; yearly: boolean };
+
+function parseDateRule(raw: string): DateRule | null {
+  const [startRaw, endRaw, ...rest] = raw.trim().split("..");
+  const start = startRaw?.trim() ?? "";
+  const end = endRaw?.trim() || start;
+  if (rest.length > 0) {
+    return null;
+  }
+  if (FULL_DATE_PATTERN.test(start) && FULL_DATE_PATTERN.test(end)) {
+    return { start, end, yearly: false };
+  }
+  if (MONTH_DAY_PATTERN.test(start) && MONTH_DAY_PATTERN.test(end)) {
+    return { start, end, yearly: true };
+  }
+  return null;
+}
+
+function matchesDateRule(rule: DateRule, dateKey: string): boolean {
+  const key = rule.yearly ? dateKey.slice(5) : dateKey;
+  if (rule.start <= rule.end) {
+    return key >= rule.start && key <= rule.end;
+  }
+  // Yearly ranges such as 12-24..01-02 wrap the year end.
+  return key >= rule.start || key <= rule.end;
+}
+
+function parseWindowTime(raw: string | undefined, fallback: number, allow24: boolean): number {
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return fallback;
+  }
+  const match = WINDOW_TIME_PATTERN.exec(trimmed);
+  if (!match) {
+    return fallback;
+  }
+  if (trimmed === "24:00") {
+    return allow24 ? MINUTES_PER_DAY : fallback;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function windowAppliesOn(window: CronCalendarWindow, weekday: number): boolean {
+  if (!Array.isArray(window.days) || window.days.length === 0) {
+    return true;
+  }
+  return window.days.some((day) => WEEKDAYS.indexOf(day) === weekday);
+}
+
+/** Returns the local minute the window ends at (relative to today), or null when outside. */
+function resolveWindowEnd(window: CronCalendarWindow, local: LocalParts): number | null {
+  const start = parseWindowTime(window.start, 0, false);
+  const end = parseWindowTime(window.end, MINUTES_PER_DAY, true);
+  if (start === end) {
+    return null;
+  }
+  if (start < end) {
+    return windowAppliesOn(window, local.weekday) && local.minutes >= start && local.minutes < end
+      ? end
+      : null;
+  }
+  // Overnight window: today's evening part, or the tail of yesterday's window.
+  if (windowAppliesOn(window, local.weekday) && local.minutes >= start) {
+    return MINUTES_PER_DAY + end;
+  }
+  const yesterday = (local.weekday + 6) % 7;
+  if (windowAppliesOn(window, yesterday) && local.minutes < end) {
+    return end;
+  }
+  return null;
+}
+
+type IcsEvent =
+  | { kind: "dates"; rule: DateRule; summary?: string }
+  | { kind: "span"; startMs: number; endMs: number; summary?: string };
+
+type IcsCacheEntry = { mtimeMs: number; size: number; timeZone: string; events: IcsEvent[] };
+
+const icsCache = new Map<string, IcsCacheEntry>();
+const icsWarned = new Set<string>();
+
+type IcsProperty = { name: string; params: Record<string, string>; value: string };
+
+function parseIcsProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(":");
+  if (colon <= 0) {
+    return null;
+  }
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq > 0) {
+      params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: (name ?? "").toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([,;\\nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? " " : ch));
+}
+
+type IcsValue = { allDay: true; dateKey: string } | { allDay: false; ms: number };
+
+function parseIcsValue(prop: IcsProperty, fallbackTz: string): IcsValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(prop.value);
+  if (!match) {
+    return null;
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = { year: Number(y), month: Number(mo), day: Number(d) };
+  if (h === undefined || prop.params.VALUE === "DATE") {
+    return { allDay: true, dateKey: formatDateKey(date) };
+  }
+  const minutes = Number(h) * 60 + Number(mi);
+  const seconds = Number(s) * 1000;
+  if (utc) {
+    return {
+      allDay: false,
+      ms: Date.UTC(date.year, date.month - 1, date.day, 0, minutes) + seconds,
+    };
+  }
+  const tzid = prop.params.TZID?.trim();
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : fallbackTz;
+  return { allDay: false, ms: zonedTimeToUtcMs(date, minutes, timeZone) + seconds };
+}
+
+function toIcsEvent(props: IcsProperty[], timeZone: string): IcsEvent | null {
+  const find = (name: string) => props.find((prop) => prop.name === name);
+  const startProp = find("DTSTART");
+  const start = startProp ? parseIcsValue(startProp, timeZone) : null;
+  if (!start) {
+    return null;
+  }
+  const endProp = find("DTEND");
+  const end = endProp ? parseIcsValue(endProp, timeZone) : null;
+  const summaryRaw = find("SUMMARY")?.value;
+  const summary = summaryRaw ? unescapeIcsText(summaryRaw).trim() || undefined : undefined;
+  const yearly = /(^|;)FREQ=YEARLY(;|$)/i.test(find("RRULE")?.value ?? "");
+
+  if (start.allDay) {
+    // DTEND is exclusive for all-day events; a missing DTEND means a single day.
+    let lastKey = start.dateKey;
+    if (end?.allDay && end.dateKey > start.dateKey) {
+      const [year, month, day] = end.dateKey.split("-").map(Number);
+      lastKey = formatDateKey(shiftDate({ year, month, day }, -1));
+    }
+    const rule: DateRule = yearly
+      ? { start: start.dateKey.slice(5), end: lastKey.slice(5), yearly: true }
+      : { start: start.dateKey, end: lastKey, yearly: false };
+    return { kind: "dates", rule, summary };
+  }
+  if (!end || end.allDay || end.ms <= start.ms) {
+    return null;
+  }
+  return { kind: "span", startMs: start.ms, endMs: end.ms, summary };
+}
+
+export function parseIcsEvents(raw: string, timeZone: string): IcsEvent[] {
+  // Unfold continuation lines (RFC 5545 §3.1) before splitting properties.
+  const lines = raw.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.toUpperCase() === "BEGIN:VEVENT") {
+      current = [];
+      continue;
+    }
+    if (trimmed.toUpperCase() === "END:VEVENT") {
+      const event = current ? toIcsEvent(current, timeZone) : null;
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+    if (current) {
+      const prop = parseIcsProperty(trimmed);
+      if (prop) {
+        current.push(prop);
+      }
+    }
+  }
+  return events;
+}
+
+function loadIcsEvents(filePath: string, timeZone: string): IcsEvent[] {
+  try {
+    const stat = fs.statSync(filePath);
+    const cached = icsCache.get(filePath);
+    if (
+      cached &&
+      cached.mtimeMs === stat.mtimeMs &&
+      cached.size === stat.size &&
+      cached.timeZone === timeZone
+    ) {
+      return cached.events;
+    }
+    const events = parseIcsEvents(fs.readFileSync(filePath, "utf-8"), timeZone);
+    icsCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, timeZone, events });
+    icsWarned.delete(filePath);
+    return events;
+  } catch (err) {
+    if (!icsWarned.has(filePath)) {
+      icsWarned.add(filePath);
+      log.warn(`cron calendar ICS file unreadable; ignoring it: ${String(err)}`, {
+        path: filePath,
+      });
+    }
+    return [];
+  }
+}
+
+function resolveCalendarBlackout(
+  name: string,
+  calendar: CronCalendarConfig,
+  atMs: number,
+  fallbackTz?: string,
+): CronBlackout | undefined {
+  const timeZone = resolveCalendarTimezone(calendar.tz, fallbackTz);
+  const local = resolveLocalParts(atMs, timeZone);
+  if (!local) {
+    return undefined;
+  }
+  const dateKey = formatDateKey(local);
+  const untilMidnight = () => untilLocalMinute(atMs, local, MINUTES_PER_DAY, timeZone);
+  const description = calendar.description?.trim() || undefined;
+
+  for (const raw of calendar.dates ?? []) {
+    const rule = parseDateRule(raw);
+    if (rule && matchesDateRule(rule, dateKey)) {
+      return { calendar: name, reason: description ?? raw.trim(), untilMs: untilMidnight() };
+    }
+  }
+
+  for (const window of calendar.windows ?? []) {
+    const endMinute = resolveWindowEnd(window, local);
+    if (endMinute !== null) {
+      return {
+        calendar: name,
+        reason: description,
+        untilMs: untilLocalMinute(atMs, local, endMinute, timeZone),
+      };
+    }
+  }
+
+  const icsPath = calendar.ics?.trim();
+  if (icsPath) {
+    for (const event of loadIcsEvents(icsPath, timeZone)) {
+      if (event.kind === "dates" && matchesDateRule(event.rule, dateKey)) {
+        return { calendar: name, reason: event.summary ?? description, untilMs: untilMidnight() };
+      }
+      if (event.kind === "span" && atMs >= event.startMs && atMs < event.endMs) {
+        return { calendar: name, reason: event.summary ?? description, untilMs: event.endMs };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether `atMs` falls inside any of the named exclusion calendars.
+ * Unknown calendar names are ignored (they are rejected when jobs are saved).
+ */
+export function resolveCronBlackout(params: {
+  calendars?: CronCalendars;
+  names?: string[];
+  atMs: number;
+  fallbackTz?: string;
+}): CronBlackout | undefined {
+  if (!params.calendars || !params.names?.length) {
+    return undefined;
+  }
+  for (const name of params.names) {
+    const calendar = params.calendars[name];
+    if (!calendar) {
+      continue;
+    }
+    const blackout = resolveCalendarBlackout(name, calendar, params.atMs, params.fallbackTz);
+    if (blackout) {
+      return blackout;
+    }
+  }
+  return undefined;
+}
+
+export function formatCronBlackout(blackout: Pick<CronBlackout, "calendar" | "reason">): string {
+  const reason = blackout.reason ? ` (${blackout.reason})` : "";
+  return `excluded by calendar "${blackout.calendar}"${reason}`;
+}
@@ -0,0 +1,67 @@
+import { createOutboundSendDeps, type CliDeps } from "../../cli/outbound-send-deps.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
+import type { CronErrorKind, CronJob } from "../types.js";
+import { resolveDeliveryTarget } from "./delivery-target.js";
+
+export type CronFailureNotice = {
+  error?: string;
+  errorKind?: CronErrorKind;
+  attempt?: number;
+};
+
+export function formatCronFailureNotice(
+  job: Pick<CronJob, "id" | "name">,
+  failure: CronFailureNotice,
+): string {
+  const label = job.name ? `"${job.name}" (${job.id})` : job.id;
+  const attempts =
+    typeof failure.attempt === "number" && failure.attempt > 1
+      ? ` after ${failure.attempt} attempts`
+      : "";
+  const lines = [`Cron job ${label} failed${attempts}.`];
+  if (failure.errorKind && failure.errorKind !== "unknown") {
+    lines.push(`Error kind: ${failure.errorKind}`);
+  }
+  const error = failure.error?.trim();
+  if (error) {
+    lines.push(`Error: ${error}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Announce a dead-lettered run to the job's `failureDelivery` channel target.
+ * Throws when the target cannot be resolved so the caller can log it.
+ */
+export async function deliverCronFailureNotice(params: {
+  cfg: OpenClawConfig;
+  deps: CliDeps;
+  job: CronJob;
+  agentId: string;
+  failure: CronFailureNotice;
+}): Promise<boolean> {
+  const target = params.job.failureDelivery;
+  if (target?.mode !== "announce") {
+    return false;
+  }
+  const resolved = await resolveDeliveryTarget(params.cfg, params.agentId, {
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+  });
+  if (!resolved.ok) {
+    throw resolved.error;
+  }
+  const results = await deliverOutboundPayloads({
+    cfg: params.cfg,
+    channel: resolved.channel,
+    to: resolved.to,
+    accountId: resolved.accountId,
+    threadId: resolved.threadId,
+    payloads: [{ text: formatCronFailureNotice(params.job, params.failure) }],
+    bestEffort: true,
+    deps: createOutboundSendDeps(params.deps),
+  });
+  return results.length > 0;
+}
@@ -21,6 +21,7 @@ import {
   resolveHooksGmailModel,
   resolveThinkingDefault,
 } from "../../agents/model-selection.js";
+import { classifyFailoverReason } from "../../agents/pi-embedded-helpers.js";
 import { runEmbeddedPiAgent } from "../../agents/pi-embedded.js";
 import { resolveAgentTimeoutMs } from "../../agents/timeout.js";
 import { deriveSessionTotalTokens, hasNonzeroUsage } from "../../agents/usage.js";
@@ -47,8 +48,13 @@ import {
   getHookType,
   isExternalHookSession,
 } from "../../security/external-content.js";
+import {
+  resolveInjectionScreeningSource,
+  screenExternalContent,
+} from "../../security/injection-classifier.js";
+import type { InputProvenance } from "../../sessions/input-provenance.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
-import type { CronJob, CronRunOutcome, CronRunTelemetry } from "../types.js";
+import type { CronErrorKind, CronJob, CronRunOutcome, CronRunTelemetry } from "../types.js";
 import {
   dispatchCronDelivery,
   matchesMessagingToolDeliveryTarget,
@@ -67,6 +73,22 @@ import { resolveCronAgentSessionKey } from "./session-key.js";
 import { resolveCronSession } from "./session.js";
 import { resolveCronSkillsSnapshot } from "./skills-snapshot.js";
 
+/** Map provider failure reasons onto the coarser cron error kinds used by retry policies. */
+function classifyCronRunError(error: string | undefined): CronErrorKind {
+  switch (error ? classifyFailoverReason(error) : null) {
+    case "timeout":
+      return "timeout";
+    case "rate_limit":
+      return "rate-limit";
+    case "auth":
+    case "auth_permanent":
+    case "billing":
+      return "auth";
+    default:
+      return "unknown";
+  }
+}
+
 export type RunCronAgentTurnResult = {
   /** Last non-empty agent text output (not truncated). */
   outputText?: string;
@@ -246,6 +268,9 @@ export async function runCronIsolatedAgentTurn(params: {
     result: Omit<RunCronAgentTurnResult, "sessionId" | "sessionKey">,
   ): RunCronAgentTurnResult => ({
     ...result,
+    ...(result.status === "error" && !result.errorKind
+      ? { errorKind: classifyCronRunError(result.error) }
+      : {}),
     sessionId: runSessionId,
     sessionKey: runSessionKey,
   });
@@ -332,8 +357,24 @@ export async function runCronIsolatedAgentTurn(params: {
     (isGmailHook && params.cfg.hooks?.gmail?.allowUnsafeExternalContent === true);
   const shouldWrapExternal = isExternalHook && !allowUnsafeExternalContent;
   let commandBody: string;
+  let inputProvenance: InputProvenance | undefined;
 
-  if (isExternalHook) {
+  const hookType = isExternalHook ? getHookType(baseSessionKey) : undefined;
+  const screeningSource = hookType ? resolveInjectionScreeningSource(hookType) : undefined;
+  const screening = screeningSource
+    ? await screenExternalContent({
+        content: params.message,
+        source: screeningSource,
+        cfg: params.cfg,
+      })
+    : null;
+  if (screening) {
+    inputProvenance = {
+      kind: "external_user",
+      sourceChannel: hookType,
+      externalContent: screening.decision,
+    };
+  } else if (isExternalHook) {
     // Log suspicious patterns for security monitoring
     const suspiciousPatterns = detectSuspiciousPatterns(params.message);
     if (suspiciousPatterns.length > 0) {
@@ -343,16 +384,23 @@ export async function runCronIsolatedAgentTurn(params: {
       );
     }
   }
+  // The unsafe override keeps hook content raw, so screening is only recorded there.
+  if (shouldWrapExternal && screening?.decision.action === "refuse") {
+    return withRunSession({
+      status: "skipped",
+      error: `external content refused by prompt-injection screening (score ${screening.decision.score})`,
+    });
+  }
 
-  if (shouldWrapExternal) {
+  if (shouldWrapExternal && hookType) {
     // Wrap external content with security boundaries
-    const hookType = getHookType(baseSessionKey);
     const safeContent = buildSafeExternalPrompt({
-      content: params.message,
+      content: screening?.content ?? params.message,
       source: hookType,
       jobName: params.job.name,
       jobId: params.job.id,
       timestamp: formattedTime,
+      riskNote: screening?.riskNote,
     });
 
     commandBody = `${safeContent}\n\n${timeLine}`.trim();
@@ -443,6 +491,8 @@ export async function runCronIsolatedAgentTurn(params: {
             timeoutMs,
             runId: cronSession.sessionEntry.sessionId,
             cliSessionId,
+            messageChannel,
+            agentAccountId: resolvedDelivery.accountId,
           });
         }
         return runEmbeddedPiAgent({
@@ -469,6 +519,7 @@ export async function runCronIsolatedAgentTurn(params: {
           requireExplicitMessageTarget: true,
           disableMessageTool: deliveryRequested,
           abortSignal,
+          inputProvenance,
         });
       },
     });
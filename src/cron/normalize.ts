@@ -24,7 +24,10 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,6 +53,27 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (typeof schedule.jobId === "string") {
+      next.kind = "after";
+    }
+  }
+
+  if (typeof schedule.jobId === "string") {
+    next.jobId = schedule.jobId.trim();
+  }
+  if (typeof schedule.on === "string" || Array.isArray(schedule.on)) {
+    const rawOn = typeof schedule.on === "string" ? schedule.on.split(",") : schedule.on;
+    const on = [
+      ...new Set(
+        rawOn
+          .map((value) => (typeof value === "string" ? value.trim().toLowerCase() : ""))
+          .filter((value) => value === "ok" || value === "error" || value === "skipped"),
+      ),
+    ];
+    if (on.length > 0) {
+      next.on = on;
+    } else {
+      delete next.on;
     }
   }
 
@@ -69,6 +93,21 @@ function coerceSchedule(schedule: UnknownRecord) {
     delete next.staggerMs;
   }
 
+  if (typeof schedule.exclude === "string" || Array.isArray(schedule.exclude)) {
+    const rawExclude =
+      typeof schedule.exclude === "string" ? schedule.exclude.split(",") : schedule.exclude;
+    const exclude = [
+      ...new Set(
+        rawExclude.map((value) => (typeof value === "string" ? value.trim() : "")).filter(Boolean),
+      ),
+    ];
+    if (exclude.length > 0) {
+      next.exclude = exclude;
+    } else {
+      delete next.exclude;
+    }
+  }
+
   return next;
 }
 
@@ -186,6 +225,23 @@ function coerceDelivery(delivery: UnknownRecord) {
   return next;
 }
 
+function coerceRetry(retry: UnknownRecord) {
+  const next: UnknownRecord = { ...retry };
+  if (typeof retry.maxAttempts === "string" && retry.maxAttempts.trim()) {
+    const parsed = Number(retry.maxAttempts);
+    if (Number.isFinite(parsed)) {
+      next.maxAttempts = Math.floor(parsed);
+    }
+  }
+  if (Array.isArray(retry.retryOn)) {
+    next.retryOn = retry.retryOn
+      .filter((kind): kind is string => typeof kind === "string")
+      .map((kind) => kind.trim().toLowerCase())
+      .filter(Boolean);
+  }
+  return next;
+}
+
 function unwrapJob(raw: UnknownRecord) {
   if (isRecord(raw.data)) {
     return raw.data;
@@ -378,6 +434,14 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.retry)) {
+    next.retry = coerceRetry(base.retry);
+  }
+
+  if (isRecord(base.failureDelivery)) {
+    next.failureDelivery = coerceDelivery(base.failureDelivery);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -0,0 +1,82 @@
+import type { CronErrorKind, CronJob, CronRetryPolicy } from "./types.js";
+
+export const CRON_ERROR_KINDS: readonly CronErrorKind[] = [
+  "delivery-target",
+  "timeout",
+  "rate-limit",
+  "auth",
+  "unknown",
+];
+
+export const DEFAULT_CRON_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_CRON_RETRY_BACKOFF_MS = [30_000, 2 * 60_000, 10 * 60_000];
+export const DEFAULT_CRON_RETRY_ON: readonly CronErrorKind[] = ["timeout", "rate-limit"];
+
+export type ResolvedCronRetryPolicy = {
+  maxAttempts: number;
+  backoffMs: number[];
+  retryOn: CronErrorKind[];
+};
+
+export function isCronErrorKind(value: unknown): value is CronErrorKind {
+  return typeof value === "string" && (CRON_ERROR_KINDS as readonly string[]).includes(value);
+}
+
+function normalizeBackoffMs(raw: unknown): number[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((value): value is number => typeof value === "number" && Number.isFinite(value))
+    .map((value) => Math.max(0, Math.floor(value)));
+}
+
+/**
+ * Resolve a job's retry policy with defaults applied. Jobs without a `retry`
+ * block are never retried within their slot (only the regular error backoff
+ * applies).
+ */
+export function resolveCronRetryPolicy(
+  job: Pick<CronJob, "retry">,
+): ResolvedCronRetryPolicy | undefined {
+  const retry: CronRetryPolicy | undefined = job.retry;
+  if (!retry) {
+    return undefined;
+  }
+  const maxAttempts =
+    typeof retry.maxAttempts === "number" && Number.isFinite(retry.maxAttempts)
+      ? Math.max(1, Math.floor(retry.maxAttempts))
+      : DEFAULT_CRON_RETRY_MAX_ATTEMPTS;
+  const backoffMs = normalizeBackoffMs(retry.backoffMs);
+  const retryOn = Array.isArray(retry.retryOn) ? retry.retryOn.filter(isCronErrorKind) : [];
+  return {
+    maxAttempts,
+    backoffMs: backoffMs.length > 0 ? backoffMs : [...DEFAULT_CRON_RETRY_BACKOFF_MS],
+    retryOn: retryOn.length > 0 ? retryOn : [...DEFAULT_CRON_RETRY_ON],
+  };
+}
+
+/** Delay before retrying after the given (1-based) failed attempt. */
+export function resolveCronRetryDelayMs(policy: ResolvedCronRetryPolicy, attempt: number): number {
+  const idx = Math.min(Math.max(0, attempt - 1), policy.backoffMs.length - 1);
+  return policy.backoffMs[idx] ?? 0;
+}
+
+/**
+ * Decide whether a failed attempt should be retried. Returns the retry delay,
+ * or `undefined` when the run is final (dead-lettered).
+ */
+export function resolveCronRetryDelay(params: {
+  job: Pick<CronJob, "retry">;
+  errorKind: CronErrorKind;
+  attempt: number;
+}): number | undefined {
+  const policy = resolveCronRetryPolicy(params.job);
+  if (!policy || params.attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+  if (!policy.retryOn.includes(params.errorKind)) {
+    return undefined;
+  }
+  return resolveCronRetryDelayMs(policy, params.attempt);
+}
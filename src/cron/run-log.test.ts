@@ -4,10 +4,12 @@ import path from "node:path";
 import { describe, expect, it } from "vitest";
 import {
   appendCronRunLog,
+  type CronRunLogEntry,
   DEFAULT_CRON_RUN_LOG_KEEP_LINES,
   DEFAULT_CRON_RUN_LOG_MAX_BYTES,
   getPendingCronRunLogWriteCountForTests,
   readCronRunLogEntries,
+  readCronRunLogEntriesPageAll,
   resolveCronRunLogPruneOptions,
   resolveCronRunLogPath,
 } from "./run-log.js";
@@ -232,6 +234,53 @@ describe("cron run log", () => {
     });
   });
 
+  it("lists dead-lettered runs across jobs", async () => {
+    await withRunLogDir("openclaw-cron-log-deadletter-", async (dir) => {
+      const storePath = path.join(dir, "jobs.json");
+      const append = (jobId: string, entry: Omit<CronRunLogEntry, "jobId" | "action">) =>
+        appendCronRunLog(resolveCronRunLogPath({ storePath, jobId }), {
+          ...entry,
+          jobId,
+          action: "finished",
+        });
+
+      await append("job-a", {
+        ts: 1,
+        status: "error",
+        errorKind: "rate-limit",
+        attempt: 1,
+        retryAtMs: 30_001,
+        deadLettered: false,
+      });
+      await append("job-a", {
+        ts: 2,
+        status: "error",
+        errorKind: "rate-limit",
+        attempt: 2,
+        deadLettered: true,
+      });
+      await append("job-a", { ts: 3, status: "ok", attempt: 1, deadLettered: false });
+      // Entries written before retry policies existed only carry the status.
+      await append("job-b", { ts: 4, status: "error", error: "boom" });
+
+      const page = await readCronRunLogEntriesPageAll({
+        storePath,
+        deadLetterOnly: true,
+        jobNameById: { "job-a": "Nightly report" },
+      });
+      expect(page.entries.map((entry) => [entry.jobId, entry.ts])).toEqual([
+        ["job-b", 4],
+        ["job-a", 2],
+      ]);
+      expect(page.entries[1]).toMatchObject({
+        errorKind: "rate-limit",
+        attempt: 2,
+        deadLettered: true,
+        jobName: "Nightly report",
+      });
+    });
+  });
+
   it("cleans up pending-write bookkeeping after appends complete", async () => {
     await withRunLogDir("openclaw-cron-log-pending-", async (dir) => {
       const logPath = path.join(dir, "runs", "job-cleanup.jsonl");
@@ -2,7 +2,13 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { parseByteSize } from "../cli/parse-bytes.js";
 import type { CronConfig } from "../config/types.cron.js";
-import type { CronDeliveryStatus, CronRunStatus, CronRunTelemetry } from "./types.js";
+import { isCronErrorKind } from "./retry.js";
+import type {
+  CronDeliveryStatus,
+  CronErrorKind,
+  CronRunStatus,
+  CronRunTelemetry,
+} from "./types.js";
 
 export type CronRunLogEntry = {
   ts: number;
@@ -19,6 +25,11 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  triggeredBy?: string;
+  errorKind?: CronErrorKind;
+  attempt?: number;
+  retryAtMs?: number;
+  deadLettered?: boolean;
 } & CronRunTelemetry;
 
 export type CronRunLogSortDir = "asc" | "desc";
@@ -34,6 +45,8 @@ export type ReadCronRunLogPageOptions = {
   deliveryStatuses?: CronDeliveryStatus[];
   query?: string;
   sortDir?: CronRunLogSortDir;
+  /** Only return failed runs that will not be retried. */
+  deadLetterOnly?: boolean;
 };
 
 export type CronRunLogPageResult = {
@@ -296,6 +309,21 @@ function parseAllRunLogEntries(raw: string, opts?: { jobId?: string }): CronRunL
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      if (typeof obj.triggeredBy === "string" && obj.triggeredBy.trim().length > 0) {
+        entry.triggeredBy = obj.triggeredBy;
+      }
+      if (isCronErrorKind(obj.errorKind)) {
+        entry.errorKind = obj.errorKind;
+      }
+      if (typeof obj.attempt === "number" && Number.isFinite(obj.attempt)) {
+        entry.attempt = obj.attempt;
+      }
+      if (typeof obj.retryAtMs === "number" && Number.isFinite(obj.retryAtMs)) {
+        entry.retryAtMs = obj.retryAtMs;
+      }
+      if (typeof obj.deadLettered === "boolean") {
+        entry.deadLettered = obj.deadLettered;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
@@ -304,16 +332,28 @@ function parseAllRunLogEntries(raw: string, opts?: { jobId?: string }): CronRunL
   return parsed;
 }
 
+/**
+ * A run is dead-lettered when it failed and no retry was scheduled. Entries
+ * written before retry policies existed only carry the status.
+ */
+export function isDeadLetteredRunLogEntry(entry: CronRunLogEntry): boolean {
+  return entry.deadLettered ?? entry.status === "error";
+}
+
 function filterRunLogEntries(
   entries: CronRunLogEntry[],
   opts: {
     statuses: CronRunStatus[] | null;
     deliveryStatuses: CronDeliveryStatus[] | null;
+    deadLetterOnly?: boolean;
     query: string;
     queryTextForEntry: (entry: CronRunLogEntry) => string;
   },
 ): CronRunLogEntry[] {
   return entries.filter((entry) => {
+    if (opts.deadLetterOnly && !isDeadLetteredRunLogEntry(entry)) {
+      return false;
+    }
     if (opts.statuses && (!entry.status || !opts.statuses.includes(entry.status))) {
       return false;
     }
@@ -344,6 +384,7 @@ export async function readCronRunLogEntriesPage(
   const filtered = filterRunLogEntries(all, {
     statuses,
     deliveryStatuses,
+    deadLetterOnly: opts?.deadLetterOnly,
     query,
     queryTextForEntry: (entry) => [entry.summary ?? "", entry.error ?? "", entry.jobId].join(" "),
   });
@@ -398,6 +439,7 @@ export async function readCronRunLogEntriesPageAll(
   const filtered = filterRunLogEntries(all, {
     statuses,
     deliveryStatuses,
+    deadLetterOnly: opts.deadLetterOnly,
     query,
     queryTextForEntry: (entry) => {
       const jobName = opts.jobNameById?.[entry.jobId] ?? "";
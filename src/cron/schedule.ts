@@ -41,6 +41,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after") {
+    // Chained jobs are triggered by upstream runs, not by the clock.
+    return undefined;
+  }
+
   const exprSource = (schedule as { expr?: unknown }).expr;
   if (typeof exprSource !== "string") {
     throw new Error("invalid cron schedule: expr is required");
@@ -75,3 +80,26 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
   const retryMs = retry.getTime();
   return Number.isFinite(retryMs) && retryMs > nowMs ? retryMs : undefined;
 }
+
+const MAX_EXCLUDED_SLOT_SKIPS = 1_000;
+
+/**
+ * Walk forward from the first slot after `nowMs`, skipping slots that fall
+ * inside an exclusion. `next(fromMs)` must return the first slot after
+ * `fromMs`; `isExcluded` returns the instant the matching exclusion ends.
+ */
+export function computeNextAllowedRunAtMs(params: {
+  nowMs: number;
+  next: (fromMs: number) => number | undefined;
+  isExcluded: (atMs: number) => { untilMs: number } | undefined;
+}): number | undefined {
+  let candidate = params.next(params.nowMs);
+  for (let skips = 0; candidate !== undefined && skips < MAX_EXCLUDED_SLOT_SKIPS; skips++) {
+    const excluded = params.isExcluded(candidate);
+    if (!excluded) {
+      return candidate;
+    }
+    candidate = params.next(Math.max(candidate + 1, excluded.untilMs - 1));
+  }
+  return undefined;
+}
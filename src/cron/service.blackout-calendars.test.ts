@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CronConfig } from "../config/types.cron.js";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite, writeCronStoreSnapshot } from "./service.test-harness.js";
+import type { CronJob, CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({
+  prefix: "openclaw-cron-blackout-",
+  baseTimeIso: "2025-12-13T00:00:00.000Z",
+});
+
+const cronConfig: CronConfig = {
+  calendars: {
+    maintenance: { tz: "UTC", windows: [{ start: "00:00", end: "03:00" }] },
+    holidays: { tz: "UTC", dates: ["2025-12-13"], description: "Company holiday" },
+  },
+};
+
+function isolatedJob(schedule: CronJobCreate["schedule"]): CronJobCreate {
+  return {
+    name: "report",
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "run report" },
+    delivery: { mode: "none" },
+  };
+}
+
+async function createBlackoutService(runIsolatedAgentJob: ReturnType<typeof vi.fn>) {
+  const store = await makeStorePath();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    cronConfig,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: runIsolatedAgentJob as never,
+  });
+  return { cron, store };
+}
+
+describe("CronService exclusion calendars", () => {
+  it("moves the next run past excluded slots and reports them in status", async () => {
+    const { cron, store } = await createBlackoutService(vi.fn());
+    await cron.start();
+
+    const hourly = await cron.add(
+      isolatedJob({ kind: "every", everyMs: 3_600_000, exclude: ["maintenance"] }),
+    );
+    const daily = await cron.add(
+      isolatedJob({
+        kind: "cron",
+        expr: "0 9 * * *",
+        tz: "UTC",
+        staggerMs: 0,
+        exclude: ["holidays"],
+      }),
+    );
+
+    expect(hourly.state.nextRunAtMs).toBe(Date.parse("2025-12-13T03:00:00.000Z"));
+    expect(daily.state.nextRunAtMs).toBe(Date.parse("2025-12-14T09:00:00.000Z"));
+
+    const status = await cron.status();
+    expect(status.blackouts).toEqual([
+      {
+        jobId: hourly.id,
+        jobName: "report",
+        skippedAtMs: Date.parse("2025-12-13T01:00:00.000Z"),
+        nextRunAtMs: Date.parse("2025-12-13T03:00:00.000Z"),
+        calendar: "maintenance",
+        reason: undefined,
+      },
+      {
+        jobId: daily.id,
+        jobName: "report",
+        skippedAtMs: Date.parse("2025-12-13T09:00:00.000Z"),
+        nextRunAtMs: Date.parse("2025-12-14T09:00:00.000Z"),
+        calendar: "holidays",
+        reason: "Company holiday",
+      },
+    ]);
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("records a due run inside a blackout as skipped with the calendar reason", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const }));
+    const { cron, store } = await createBlackoutService(runIsolatedAgentJob);
+    const now = Date.now();
+    const job: CronJob = {
+      ...isolatedJob({ kind: "every", everyMs: 3_600_000, exclude: ["maintenance"] }),
+      id: "overdue-report",
+      createdAtMs: now - 7_200_000,
+      updatedAtMs: now - 7_200_000,
+      state: { nextRunAtMs: now - 1_000 },
+    };
+    await writeCronStoreSnapshot({ storePath: store.storePath, jobs: [job] });
+
+    await cron.start();
+
+    expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+    const after = cron.getJob(job.id);
+    expect(after?.state.lastStatus).toBe("skipped");
+    expect(after?.state.lastError).toBe('excluded by calendar "maintenance"');
+    expect(after?.state.nextRunAtMs).toBe(Date.parse("2025-12-13T03:00:00.000Z"));
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects schedules that reference unknown calendars", async () => {
+    const { cron, store } = await createBlackoutService(vi.fn());
+    await cron.start();
+
+    await expect(
+      cron.add(isolatedJob({ kind: "every", everyMs: 60_000, exclude: ["vacation"] })),
+    ).rejects.toThrow("unknown cron calendar: vacation");
+
+    const job = await cron.add(isolatedJob({ kind: "every", everyMs: 60_000 }));
+    await expect(
+      cron.update(job.id, {
+        schedule: { kind: "every", everyMs: 60_000, exclude: ["holidays", "vacation"] },
+      }),
+    ).rejects.toThrow("unknown cron calendar: vacation");
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
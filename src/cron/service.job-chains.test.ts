@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService, type CronEvent } from "./service.js";
+import { createDeferred, setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-chains-" });
+
+function isolatedJob(name: string, schedule: CronJobCreate["schedule"]): CronJobCreate {
+  return {
+    name,
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: `run ${name}` },
+    delivery: { mode: "none" },
+  };
+}
+
+async function createChainService(
+  runIsolatedAgentJob: ReturnType<typeof vi.fn>,
+  onEvent?: (evt: CronEvent) => void,
+) {
+  const store = await makeStorePath();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: runIsolatedAgentJob as never,
+    onEvent,
+  });
+  await cron.start();
+  return { cron, store };
+}
+
+describe("CronService job chains", () => {
+  it("runs a chained job after its upstream succeeds with the upstream summary", async () => {
+    const runIsolatedAgentJob = vi.fn(async (params: { message: string }) =>
+      params.message.startsWith("run report")
+        ? { status: "ok" as const, summary: "3 new signups" }
+        : { status: "ok" as const, summary: "sent" },
+    );
+    const downstreamFinished = createDeferred<CronEvent>();
+    let downstreamId = "";
+    const { cron, store } = await createChainService(runIsolatedAgentJob, (evt) => {
+      if (evt.action === "finished" && evt.jobId === downstreamId) {
+        downstreamFinished.resolve(evt);
+      }
+    });
+
+    const upstream = await cron.add(isolatedJob("report", { kind: "every", everyMs: 3_600_000 }));
+    const downstream = await cron.add(isolatedJob("notify", { kind: "after", jobId: upstream.id }));
+    downstreamId = downstream.id;
+    expect(downstream.state.nextRunAtMs).toBeUndefined();
+
+    await cron.run(upstream.id, "force");
+    const queued = cron.getJob(downstream.id);
+    expect(queued?.state.pendingTrigger).toMatchObject({
+      jobId: upstream.id,
+      jobName: "report",
+      status: "ok",
+      summary: "3 new signups",
+    });
+
+    await vi.runOnlyPendingTimersAsync();
+    const finished = await downstreamFinished.promise;
+
+    const message = runIsolatedAgentJob.mock.calls[1]?.[0].message ?? "";
+    expect(message).toContain("run notify");
+    expect(message).toContain(`Triggered by cron job "report" (${upstream.id})`);
+    expect(message).toContain("3 new signups");
+
+    expect(finished.triggeredBy).toBe(upstream.id);
+    const after = cron.getJob(downstream.id);
+    expect(after?.state.pendingTrigger).toBeUndefined();
+    expect(after?.state.lastTrigger?.jobId).toBe(upstream.id);
+    expect(after?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("only triggers on the configured upstream statuses", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "error" as const, error: "boom" }));
+    const { cron, store } = await createChainService(runIsolatedAgentJob);
+
+    const upstream = await cron.add(isolatedJob("sync", { kind: "every", everyMs: 3_600_000 }));
+    const onSuccess = await cron.add(isolatedJob("publish", { kind: "after", jobId: upstream.id }));
+    const onError = await cron.add(
+      isolatedJob("alert", { kind: "after", jobId: upstream.id, on: ["error"] }),
+    );
+
+    await cron.run(upstream.id, "force");
+
+    expect(cron.getJob(onSuccess.id)?.state.pendingTrigger).toBeUndefined();
+    expect(cron.getJob(onError.id)?.state.pendingTrigger).toMatchObject({
+      jobId: upstream.id,
+      status: "error",
+    });
+    expect(typeof cron.getJob(onError.id)?.state.nextRunAtMs).toBe("number");
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects unknown upstream jobs, self references and cycles", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const }));
+    const { cron, store } = await createChainService(runIsolatedAgentJob);
+
+    await expect(
+      cron.add(isolatedJob("orphan", { kind: "after", jobId: "missing" })),
+    ).rejects.toThrow("unknown upstream cron job id: missing");
+
+    const first = await cron.add(isolatedJob("first", { kind: "every", everyMs: 60_000 }));
+    const second = await cron.add(isolatedJob("second", { kind: "after", jobId: first.id }));
+    const third = await cron.add(isolatedJob("third", { kind: "after", jobId: second.id }));
+
+    await expect(
+      cron.update(third.id, { schedule: { kind: "after", jobId: third.id } }),
+    ).rejects.toThrow("cannot run after itself");
+    await expect(
+      cron.update(first.id, { schedule: { kind: "after", jobId: third.id } }),
+    ).rejects.toThrow("cycle detected");
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
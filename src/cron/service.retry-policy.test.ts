@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService, type CronEvent } from "./service.js";
+import { createDeferred, setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-retry-" });
+
+function isolatedJob(overrides: Partial<CronJobCreate> = {}): CronJobCreate {
+  return {
+    name: "nightly",
+    enabled: true,
+    schedule: { kind: "every", everyMs: 24 * 3_600_000 },
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "summarize" },
+    delivery: { mode: "none" },
+    ...overrides,
+  };
+}
+
+async function createRetryService(
+  runIsolatedAgentJob: ReturnType<typeof vi.fn>,
+  onEvent?: (evt: CronEvent) => void,
+) {
+  const store = await makeStorePath();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: runIsolatedAgentJob as never,
+    onEvent,
+  });
+  await cron.start();
+  return { cron, store };
+}
+
+describe("CronService retry policy", () => {
+  it("retries transient failures within the slot and dead-letters the last attempt", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({
+      status: "error" as const,
+      error: "429 rate limit exceeded",
+      errorKind: "rate-limit" as const,
+    }));
+    const finished: CronEvent[] = [];
+    const secondAttempt = createDeferred<CronEvent>();
+    const { cron, store } = await createRetryService(runIsolatedAgentJob, (evt) => {
+      if (evt.action !== "finished") {
+        return;
+      }
+      finished.push(evt);
+      if (evt.attempt === 2) {
+        secondAttempt.resolve(evt);
+      }
+    });
+
+    const job = await cron.add(isolatedJob({ retry: { maxAttempts: 2, backoffMs: [60_000] } }));
+    await cron.run(job.id, "force");
+
+    const first = finished[0];
+    expect(first).toMatchObject({
+      status: "error",
+      errorKind: "rate-limit",
+      attempt: 1,
+      deadLettered: false,
+    });
+    const retrying = cron.getJob(job.id);
+    expect(retrying?.state.retryAtMs).toBe(first?.retryAtMs);
+    expect(retrying?.state.nextRunAtMs).toBe(first?.retryAtMs);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    const last = await secondAttempt.promise;
+
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2);
+    expect(last).toMatchObject({ status: "error", attempt: 2, deadLettered: true });
+    expect(last.retryAtMs).toBeUndefined();
+    const after = cron.getJob(job.id);
+    expect(after?.state.retryAtMs).toBeUndefined();
+    expect(after?.state.lastErrorKind).toBe("rate-limit");
+    expect(after?.state.consecutiveErrors).toBe(2);
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("dead-letters error kinds the policy does not retry", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({
+      status: "error" as const,
+      error: "invalid api key",
+      errorKind: "auth" as const,
+    }));
+    const finished: CronEvent[] = [];
+    const { cron, store } = await createRetryService(runIsolatedAgentJob, (evt) => {
+      if (evt.action === "finished") {
+        finished.push(evt);
+      }
+    });
+
+    const job = await cron.add(isolatedJob({ retry: { maxAttempts: 3 } }));
+    await cron.run(job.id, "force");
+
+    expect(finished[0]).toMatchObject({ errorKind: "auth", attempt: 1, deadLettered: true });
+    expect(cron.getJob(job.id)?.state.retryAtMs).toBeUndefined();
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("keeps a failed one-shot job enabled while a retry is pending", async () => {
+    const runIsolatedAgentJob = vi
+      .fn()
+      .mockResolvedValueOnce({
+        status: "error",
+        error: "cron: job execution timed out",
+        errorKind: "timeout",
+      })
+      .mockResolvedValueOnce({ status: "ok", summary: "done" });
+    const retried = createDeferred<CronEvent>();
+    const { cron, store } = await createRetryService(runIsolatedAgentJob, (evt) => {
+      if (evt.action === "finished" && evt.attempt === 2) {
+        retried.resolve(evt);
+      }
+    });
+
+    const job = await cron.add(
+      isolatedJob({
+        schedule: { kind: "at", at: new Date(Date.now() + 60_000).toISOString() },
+        deleteAfterRun: false,
+        retry: { backoffMs: [30_000] },
+      }),
+    );
+    await cron.run(job.id, "force");
+    expect(cron.getJob(job.id)?.enabled).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect((await retried.promise).status).toBe("ok");
+    const after = cron.getJob(job.id);
+    expect(after?.enabled).toBe(false);
+    expect(after?.state.lastAttempt).toBe(2);
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
+import { resolveCronBlackout, type CronBlackout, type CronCalendars } from "../calendar.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
-import { computeNextRunAtMs } from "../schedule.js";
+import { computeNextAllowedRunAtMs, computeNextRunAtMs } from "../schedule.js";
 import {
   normalizeCronStaggerMs,
   resolveCronStaggerMs,
@@ -14,6 +15,8 @@ import type {
   CronJobPatch,
   CronPayload,
   CronPayloadPatch,
+  CronRunStatus,
+  CronSchedule,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
@@ -123,6 +126,95 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   }
 }
 
+function assertFailureDeliverySupport(job: Pick<CronJob, "failureDelivery">) {
+  if (job.failureDelivery?.mode !== "webhook") {
+    return;
+  }
+  const target = normalizeHttpWebhookUrl(job.failureDelivery.to);
+  if (!target) {
+    throw new Error(
+      "cron webhook failure delivery requires failureDelivery.to to be a valid http(s) URL",
+    );
+  }
+  job.failureDelivery.to = target;
+}
+
+const DEFAULT_TRIGGER_STATUSES: CronRunStatus[] = ["ok"];
+
+export function resolveTriggerStatuses(
+  schedule: Extract<CronSchedule, { kind: "after" }>,
+): CronRunStatus[] {
+  return schedule.on && schedule.on.length > 0 ? schedule.on : DEFAULT_TRIGGER_STATUSES;
+}
+
+/**
+ * Validate a chained (`after`) schedule against the current store: the
+ * upstream job must exist and following the chain must not lead back here.
+ */
+export function assertJobTriggerSupport(state: CronServiceState, job: CronJob) {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const jobs = state.store?.jobs ?? [];
+  const upstreamId = job.schedule.jobId.trim();
+  if (!upstreamId) {
+    throw new Error('cron schedule.kind="after" requires jobId');
+  }
+  if (upstreamId === job.id) {
+    throw new Error("cron job cannot run after itself");
+  }
+  const seen = new Set<string>([job.id]);
+  let cursor = jobs.find((entry) => entry.id === upstreamId);
+  if (!cursor) {
+    throw new Error(`unknown upstream cron job id: ${upstreamId}`);
+  }
+  while (cursor && cursor.schedule.kind === "after") {
+    const nextId: string = cursor.schedule.jobId;
+    if (seen.has(nextId) || nextId === cursor.id) {
+      throw new Error(`cron job chain cycle detected via job ${cursor.id}`);
+    }
+    seen.add(cursor.id);
+    cursor = jobs.find((entry) => entry.id === nextId);
+  }
+}
+
+/**
+ * Queue enabled jobs chained after `upstream` whose trigger statuses match the
+ * finished run. Returns the ids of the triggered jobs.
+ */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  upstream: Pick<CronJob, "id" | "name">,
+  run: { status: CronRunStatus; summary?: string; startedAt: number; endedAt: number },
+): string[] {
+  const triggered: string[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (job.schedule.kind !== "after" || job.schedule.jobId !== upstream.id || !job.enabled) {
+      continue;
+    }
+    if (!resolveTriggerStatuses(job.schedule).includes(run.status)) {
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status: run.status,
+      summary: run.summary,
+      runAtMs: run.startedAt,
+      triggeredAtMs: run.endedAt,
+    };
+    job.state.nextRunAtMs = run.endedAt;
+    triggered.push(job.id);
+  }
+  if (triggered.length > 0) {
+    state.deps.log.info(
+      { jobId: upstream.id, status: run.status, triggeredJobIds: triggered },
+      "cron: triggered chained jobs",
+    );
+  }
+  return triggered;
+}
+
 export function findJobOrThrow(state: CronServiceState, id: string) {
   const job = state.store?.jobs.find((j) => j.id === id);
   if (!job) {
@@ -131,10 +223,75 @@ export function findJobOrThrow(state: CronServiceState, id: string) {
   return job;
 }
 
-export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | undefined {
+function resolveScheduleExclusions(schedule: CronSchedule): string[] | undefined {
+  return schedule.kind === "cron" || schedule.kind === "every" ? schedule.exclude : undefined;
+}
+
+export function resolveStateCalendars(state: CronServiceState): CronCalendars | undefined {
+  return state.deps.cronConfig?.calendars;
+}
+
+/** Reject `schedule.exclude` entries that do not name a configured calendar. */
+export function assertJobCalendarSupport(state: CronServiceState, schedule: CronSchedule) {
+  const calendars = resolveStateCalendars(state);
+  for (const name of resolveScheduleExclusions(schedule) ?? []) {
+    if (!calendars?.[name]) {
+      throw new Error(`unknown cron calendar: ${name}`);
+    }
+  }
+}
+
+/** Exclusion calendar covering `atMs` for this job, if any. */
+export function resolveJobBlackout(
+  state: CronServiceState,
+  job: CronJob,
+  atMs: number,
+): CronBlackout | undefined {
+  return resolveCronBlackout({
+    calendars: resolveStateCalendars(state),
+    names: resolveScheduleExclusions(job.schedule),
+    atMs,
+    fallbackTz: job.schedule.kind === "cron" ? job.schedule.tz : undefined,
+  });
+}
+
+/**
+ * Next run for the job. When `calendars` are given, slots inside the job's
+ * exclusion calendars are skipped; pending retries are never moved.
+ */
+export function computeJobNextRunAtMs(
+  job: CronJob,
+  nowMs: number,
+  calendars?: CronCalendars,
+): number | undefined {
+  const exclude = resolveScheduleExclusions(job.schedule);
+  if (!calendars || !exclude?.length || typeof job.state.retryAtMs === "number") {
+    return computeScheduledJobNextRunAtMs(job, nowMs);
+  }
+  return computeNextAllowedRunAtMs({
+    nowMs,
+    next: (fromMs) => computeScheduledJobNextRunAtMs(job, fromMs),
+    isExcluded: (atMs) =>
+      resolveCronBlackout({
+        calendars,
+        names: exclude,
+        atMs,
+        fallbackTz: job.schedule.kind === "cron" ? job.schedule.tz : undefined,
+      }),
+  });
+}
+
+function computeScheduledJobNextRunAtMs(job: CronJob, nowMs: number): number | undefined {
   if (!job.enabled) {
     return undefined;
   }
+  // A scheduled retry of a failed run takes precedence over the regular schedule.
+  if (typeof job.state.retryAtMs === "number") {
+    return job.state.retryAtMs;
+  }
+  if (job.schedule.kind === "after") {
+    return job.state.pendingTrigger?.triggeredAtMs;
+  }
   if (job.schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(job.schedule.everyMs));
     const lastRunAtMs = job.state.lastRunAtMs;
@@ -273,7 +430,11 @@ function walkSchedulableJobs(
 function recomputeJobNextRunAtMs(params: { state: CronServiceState; job: CronJob; nowMs: number }) {
   let changed = false;
   try {
-    const newNext = computeJobNextRunAtMs(params.job, params.nowMs);
+    const newNext = computeJobNextRunAtMs(
+      params.job,
+      params.nowMs,
+      resolveStateCalendars(params.state),
+    );
     if (params.job.state.nextRunAtMs !== newNext) {
       params.job.state.nextRunAtMs = newNext;
       changed = true;
@@ -388,13 +549,18 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry,
+    failureDelivery: input.failureDelivery,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
-  job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+  assertFailureDeliverySupport(job);
+  assertJobTriggerSupport(state, job);
+  assertJobCalendarSupport(state, job.schedule);
+  job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, resolveStateCalendars(state));
   return job;
 }
 
@@ -428,6 +594,12 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     } else {
       job.schedule = patch.schedule;
     }
+    const pendingFrom = job.state.pendingTrigger?.jobId;
+    if (pendingFrom && (job.schedule.kind !== "after" || job.schedule.jobId !== pendingFrom)) {
+      job.state.pendingTrigger = undefined;
+    }
+    // A pending retry belongs to the previous schedule's slot.
+    job.state.retryAtMs = undefined;
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
@@ -455,6 +627,15 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
+  if ("retry" in patch) {
+    job.retry = patch.retry ?? undefined;
+    if (!job.retry) {
+      job.state.retryAtMs = undefined;
+    }
+  }
+  if ("failureDelivery" in patch) {
+    job.failureDelivery = patch.failureDelivery ?? undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -466,6 +647,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertFailureDeliverySupport(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -632,3 +814,28 @@ export function resolveJobPayloadTextForMain(job: CronJob): string | undefined {
   const text = normalizePayloadToSystemText(job.payload);
   return text.trim() ? text : undefined;
 }
+
+/**
+ * Agent turn message for a run, with the upstream run context appended when a
+ * chained job was triggered by another job.
+ */
+export function resolveJobAgentMessage(job: CronJob): string | undefined {
+  if (job.payload.kind !== "agentTurn") {
+    return undefined;
+  }
+  const trigger = job.schedule.kind === "after" ? job.state.pendingTrigger : undefined;
+  if (!trigger) {
+    return job.payload.message;
+  }
+  const label = trigger.jobName ? `"${trigger.jobName}" (${trigger.jobId})` : trigger.jobId;
+  const lines = [
+    job.payload.message,
+    "",
+    `Triggered by cron job ${label}, which finished with status "${trigger.status}".`,
+  ];
+  const summary = trigger.summary?.trim();
+  if (summary) {
+    lines.push("Upstream summary:", summary);
+  }
+  return lines.join("\n");
+}
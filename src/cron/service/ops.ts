@@ -1,6 +1,8 @@
-import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
+import type { CronBlackoutSlot, CronJob, CronJobCreate, CronJobPatch } from "../types.js";
 import {
   applyJobPatch,
+  assertJobCalendarSupport,
+  assertJobTriggerSupport,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
@@ -8,6 +10,9 @@ import {
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
+  resolveJobBlackout,
+  resolveStateCalendars,
+  triggerDependentJobs,
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import type { CronServiceState } from "./state.js";
@@ -139,10 +144,51 @@ export async function status(state: CronServiceState) {
       storePath: state.deps.storePath,
       jobs: state.store?.jobs.length ?? 0,
       nextWakeAtMs: state.deps.cronEnabled ? (nextWakeAtMs(state) ?? null) : null,
+      blackouts: collectUpcomingBlackouts(state),
     };
   });
 }
 
+/**
+ * Upcoming slots that exclusion calendars will skip, so `cron.status` can
+ * explain why a job's next run is later than its schedule suggests.
+ */
+function collectUpcomingBlackouts(state: CronServiceState): CronBlackoutSlot[] {
+  const calendars = resolveStateCalendars(state);
+  if (!calendars) {
+    return [];
+  }
+  const now = state.deps.nowMs();
+  const slots: CronBlackoutSlot[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || typeof job.state.retryAtMs === "number") {
+      continue;
+    }
+    let naturalNext: number | undefined;
+    try {
+      naturalNext = computeJobNextRunAtMs(job, now);
+    } catch {
+      continue;
+    }
+    if (naturalNext === undefined) {
+      continue;
+    }
+    const blackout = resolveJobBlackout(state, job, naturalNext);
+    if (!blackout) {
+      continue;
+    }
+    slots.push({
+      jobId: job.id,
+      jobName: job.name,
+      skippedAtMs: naturalNext,
+      nextRunAtMs: job.state.nextRunAtMs,
+      calendar: blackout.calendar,
+      reason: blackout.reason,
+    });
+  }
+  return slots;
+}
+
 export async function list(state: CronServiceState, opts?: { includeDisabled?: boolean }) {
   return await locked(state, async () => {
     await ensureLoadedForRead(state);
@@ -266,6 +312,10 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule) {
+      assertJobTriggerSupport(state, { ...job, schedule: patch.schedule });
+      assertJobCalendarSupport(state, patch.schedule);
+    }
     applyJobPatch(job, patch);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
@@ -289,7 +339,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     job.updatedAtMs = now;
     if (scheduleChanged || enabledChanged) {
       if (job.enabled) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, resolveStateCalendars(state));
       } else {
         job.state.nextRunAtMs = undefined;
         job.state.runningAtMs = undefined;
@@ -299,7 +349,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
       // missing/corrupt nextRunAtMs for the updated job.
       const nextRun = job.state.nextRunAtMs;
       if (typeof nextRun !== "number" || !Number.isFinite(nextRun)) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, resolveStateCalendars(state));
       }
     }
 
@@ -393,6 +443,7 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
     const shouldDelete = applyJobResult(state, job, {
       status: coreResult.status,
       error: coreResult.error,
+      errorKind: coreResult.errorKind,
       delivered: coreResult.delivered,
       startedAt,
       endedAt,
@@ -412,6 +463,11 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       runAtMs: startedAt,
       durationMs: job.state.lastDurationMs,
       nextRunAtMs: job.state.nextRunAtMs,
+      triggeredBy: job.state.lastTrigger?.jobId,
+      errorKind: job.state.lastErrorKind,
+      attempt: job.state.lastAttempt,
+      retryAtMs: job.state.retryAtMs,
+      deadLettered: coreResult.status === "error" && job.state.retryAtMs === undefined,
       model: coreResult.model,
       provider: coreResult.provider,
       usage: coreResult.usage,
@@ -442,6 +498,11 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       snapshot: postRunSnapshot,
       removed: postRunRemoved,
     });
+    triggerDependentJobs(
+      state,
+      { id: jobId, name: job.name },
+      { status: coreResult.status, summary: coreResult.summary, startedAt, endedAt },
+    );
     recomputeNextRunsForMaintenance(state);
     await persist(state);
     armTimer(state);
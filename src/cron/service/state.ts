@@ -2,6 +2,7 @@ import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import type {
   CronDeliveryStatus,
+  CronErrorKind,
   CronJob,
   CronJobCreate,
   CronJobPatch,
@@ -25,6 +26,15 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Upstream job id when a chained job ran because another job finished. */
+  triggeredBy?: string;
+  errorKind?: CronErrorKind;
+  /** Attempt number within the scheduled slot (1 = first attempt). */
+  attempt?: number;
+  /** Set when the failed run will be retried. */
+  retryAtMs?: number;
+  /** `true` when the run failed and no retry is left (shows up in `cron.deadletter`). */
+  deadLettered?: boolean;
 } & CronRunTelemetry;
 
 export type Logger = {
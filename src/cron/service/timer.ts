@@ -1,9 +1,12 @@
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
+import { formatCronBlackout } from "../calendar.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
+import { resolveCronRetryDelay } from "../retry.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
 import type {
   CronDeliveryStatus,
+  CronErrorKind,
   CronJob,
   CronRunOutcome,
   CronRunStatus,
@@ -13,7 +16,11 @@ import {
   computeJobNextRunAtMs,
   nextWakeAtMs,
   recomputeNextRunsForMaintenance,
+  resolveJobAgentMessage,
+  resolveJobBlackout,
   resolveJobPayloadTextForMain,
+  resolveStateCalendars,
+  triggerDependentJobs,
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import type { CronEvent, CronServiceState } from "./state.js";
@@ -116,8 +123,9 @@ function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): C
 
 /**
  * Apply the result of a job execution to the job's state.
- * Handles consecutive error tracking, exponential backoff, one-shot disable,
- * and nextRunAtMs computation. Returns `true` if the job should be deleted.
+ * Handles consecutive error tracking, retry policy, exponential backoff,
+ * one-shot disable, and nextRunAtMs computation. Returns `true` if the job
+ * should be deleted.
  */
 export function applyJobResult(
   state: CronServiceState,
@@ -125,6 +133,7 @@ export function applyJobResult(
   result: {
     status: CronRunStatus;
     error?: string;
+    errorKind?: CronErrorKind;
     delivered?: boolean;
     startedAt: number;
     endedAt: number;
@@ -143,6 +152,28 @@ export function applyJobResult(
     deliveryStatus === "not-delivered" && result.error ? result.error : undefined;
   job.updatedAtMs = result.endedAt;
 
+  // Retry the failed run within its slot when the job's retry policy allows it.
+  const attempt = job.state.retryAtMs !== undefined ? (job.state.lastAttempt ?? 1) + 1 : 1;
+  const errorKind = result.status === "error" ? (result.errorKind ?? "unknown") : undefined;
+  const retryDelayMs =
+    errorKind && job.enabled ? resolveCronRetryDelay({ job, errorKind, attempt }) : undefined;
+  job.state.lastAttempt = attempt;
+  job.state.lastErrorKind = errorKind;
+  job.state.retryAtMs = retryDelayMs !== undefined ? result.endedAt + retryDelayMs : undefined;
+
+  // Consume the upstream trigger this run picked up. A trigger that arrived
+  // while the job was running stays pending so the job runs again; a trigger
+  // whose run is being retried stays pending so the retry keeps its context.
+  const trigger = job.state.pendingTrigger;
+  if (trigger && trigger.triggeredAtMs <= result.startedAt) {
+    job.state.lastTrigger = trigger;
+    if (job.state.retryAtMs === undefined) {
+      job.state.pendingTrigger = undefined;
+    }
+  } else {
+    job.state.lastTrigger = undefined;
+  }
+
   // Track consecutive errors for backoff / auto-disable.
   if (result.status === "error") {
     job.state.consecutiveErrors = (job.state.consecutiveErrors ?? 0) + 1;
@@ -154,7 +185,19 @@ export function applyJobResult(
     job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
 
   if (!shouldDelete) {
-    if (job.schedule.kind === "at") {
+    if (job.state.retryAtMs !== undefined) {
+      job.state.nextRunAtMs = job.state.retryAtMs;
+      state.deps.log.info(
+        {
+          jobId: job.id,
+          jobName: job.name,
+          attempt,
+          errorKind,
+          retryAtMs: job.state.retryAtMs,
+        },
+        "cron: scheduling retry after failed run",
+      );
+    } else if (job.schedule.kind === "at") {
       // One-shot jobs are always disabled after ANY terminal status
       // (ok, error, or skipped). This prevents tight-loop rescheduling
       // when computeJobNextRunAtMs returns the past atMs value (#11452).
@@ -171,10 +214,10 @@ export function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
-    } else if (result.status === "error" && job.enabled) {
+    } else if (result.status === "error" && job.enabled && job.schedule.kind !== "after") {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
-      const normalNext = computeJobNextRunAtMs(job, result.endedAt);
+      const normalNext = computeJobNextRunAtMs(job, result.endedAt, resolveStateCalendars(state));
       const backoffNext = result.endedAt + backoff;
       // Use whichever is later: the natural next run or the backoff delay.
       job.state.nextRunAtMs =
@@ -189,7 +232,7 @@ export function applyJobResult(
         "cron: applying error backoff",
       );
     } else if (job.enabled) {
-      const naturalNext = computeJobNextRunAtMs(job, result.endedAt);
+      const naturalNext = computeJobNextRunAtMs(job, result.endedAt, resolveStateCalendars(state));
       if (job.schedule.kind === "cron") {
         // Safety net: ensure the next fire is at least MIN_REFIRE_GAP_MS
         // after the current run ended.  Prevents spin-loops when the
@@ -223,12 +266,14 @@ function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOu
   const shouldDelete = applyJobResult(state, job, {
     status: result.status,
     error: result.error,
+    errorKind: result.errorKind,
     delivered: result.delivered,
     startedAt: result.startedAt,
     endedAt: result.endedAt,
   });
 
   emitJobFinished(state, job, result, result.startedAt);
+  triggerDependentJobs(state, job, result);
 
   if (shouldDelete) {
     store.jobs = jobs.filter((entry) => entry.id !== job.id);
@@ -345,12 +390,17 @@ export async function onTimer(state: CronServiceState) {
       job.state.runningAtMs = startedAt;
       emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
       const jobTimeoutMs = resolveCronJobTimeoutMs(job);
+      const blackout = resolveBlackoutSkip(state, job, startedAt);
+      if (blackout) {
+        return { jobId: id, ...blackout, startedAt, endedAt: startedAt };
+      }
 
       try {
         const result = await executeJobCoreWithTimeout(state, job);
         return { jobId: id, ...result, startedAt, endedAt: state.deps.nowMs() };
       } catch (err) {
-        const errorText = isAbortError(err) ? timeoutErrorMessage() : String(err);
+        const timedOut = isAbortError(err);
+        const errorText = timedOut ? timeoutErrorMessage() : String(err);
         state.deps.log.warn(
           { jobId: id, jobName: job.name, timeoutMs: jobTimeoutMs ?? null },
           `cron: job failed: ${errorText}`,
@@ -359,6 +409,7 @@ export async function onTimer(state: CronServiceState) {
           jobId: id,
           status: "error",
           error: errorText,
+          errorKind: timedOut ? "timeout" : undefined,
           startedAt,
           endedAt: state.deps.nowMs(),
         };
@@ -469,7 +520,12 @@ function isRunnableJob(params: {
   if (typeof job.state.runningAtMs === "number") {
     return false;
   }
-  if (params.skipAtIfAlreadyRan && job.schedule.kind === "at" && job.state.lastStatus) {
+  if (
+    params.skipAtIfAlreadyRan &&
+    job.schedule.kind === "at" &&
+    job.state.lastStatus &&
+    job.state.retryAtMs === undefined
+  ) {
     // Any terminal status (ok, error, skipped) means the job already ran at least once.
     // Don't re-fire it on restart — applyJobResult disables one-shot jobs, but guard
     // here defensively (#13845).
@@ -497,6 +553,26 @@ function collectRunnableJobs(
   );
 }
 
+/**
+ * Scheduled (non-forced) runs that land inside one of the job's exclusion
+ * calendars are recorded as skipped instead of executed.
+ */
+function resolveBlackoutSkip(
+  state: CronServiceState,
+  job: CronJob,
+  atMs: number,
+): { status: "skipped"; error: string } | undefined {
+  const blackout = resolveJobBlackout(state, job, atMs);
+  if (!blackout) {
+    return undefined;
+  }
+  state.deps.log.info(
+    { jobId: job.id, jobName: job.name, calendar: blackout.calendar, reason: blackout.reason },
+    "cron: skipping run inside exclusion calendar",
+  );
+  return { status: "skipped", error: formatCronBlackout(blackout) };
+}
+
 export async function runMissedJobs(
   state: CronServiceState,
   opts?: { skipJobIds?: ReadonlySet<string> },
@@ -532,12 +608,18 @@ export async function runMissedJobs(
   for (const candidate of startupCandidates) {
     const startedAt = state.deps.nowMs();
     emit(state, { jobId: candidate.job.id, action: "started", runAtMs: startedAt });
+    const blackout = resolveBlackoutSkip(state, candidate.job, startedAt);
+    if (blackout) {
+      outcomes.push({ jobId: candidate.jobId, ...blackout, startedAt, endedAt: startedAt });
+      continue;
+    }
     try {
       const result = await executeJobCoreWithTimeout(state, candidate.job);
       outcomes.push({
         jobId: candidate.jobId,
         status: result.status,
         error: result.error,
+        errorKind: result.errorKind,
         summary: result.summary,
         delivered: result.delivered,
         sessionId: result.sessionId,
@@ -552,7 +634,8 @@ export async function runMissedJobs(
       outcomes.push({
         jobId: candidate.jobId,
         status: "error",
-        error: String(err),
+        error: isAbortError(err) ? timeoutErrorMessage() : String(err),
+        errorKind: isAbortError(err) ? "timeout" : undefined,
         startedAt,
         endedAt: state.deps.nowMs(),
       });
@@ -598,6 +681,7 @@ export async function executeJobCore(
   const resolveAbortError = () => ({
     status: "error" as const,
     error: timeoutErrorMessage(),
+    errorKind: "timeout" as const,
   });
   const waitWithAbort = async (ms: number) => {
     if (!abortSignal) {
@@ -700,7 +784,8 @@ export async function executeJobCore(
     }
   }
 
-  if (job.payload.kind !== "agentTurn") {
+  const message = resolveJobAgentMessage(job);
+  if (message === undefined) {
     return { status: "skipped", error: "isolated job requires payload.kind=agentTurn" };
   }
   if (abortSignal?.aborted) {
@@ -709,12 +794,12 @@ export async function executeJobCore(
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message,
     abortSignal,
   });
 
   if (abortSignal?.aborted) {
-    return { status: "error", error: timeoutErrorMessage() };
+    return resolveAbortError();
   }
 
   // Post a short summary back to the main session only when announce
@@ -753,6 +838,7 @@ export async function executeJobCore(
   return {
     status: res.status,
     error: res.error,
+    errorKind: res.errorKind,
     summary: res.summary,
     delivered: res.delivered,
     deliveryAttempted: res.deliveryAttempted,
@@ -772,7 +858,7 @@ export async function executeJob(
   state: CronServiceState,
   job: CronJob,
   _nowMs: number,
-  _opts: { forced: boolean },
+  opts: { forced: boolean },
 ) {
   if (!job.state) {
     job.state = {};
@@ -787,22 +873,29 @@ export async function executeJob(
     delivered?: boolean;
   } & CronRunOutcome &
     CronRunTelemetry;
-  try {
-    coreResult = await executeJobCore(state, job);
-  } catch (err) {
-    coreResult = { status: "error", error: String(err) };
+  const blackout = opts.forced ? undefined : resolveBlackoutSkip(state, job, startedAt);
+  if (blackout) {
+    coreResult = blackout;
+  } else {
+    try {
+      coreResult = await executeJobCore(state, job);
+    } catch (err) {
+      coreResult = { status: "error", error: String(err) };
+    }
   }
 
   const endedAt = state.deps.nowMs();
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
+    errorKind: coreResult.errorKind,
     delivered: coreResult.delivered,
     startedAt,
     endedAt,
   });
 
   emitJobFinished(state, job, coreResult, startedAt);
+  triggerDependentJobs(state, job, { ...coreResult, startedAt, endedAt });
 
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -834,6 +927,11 @@ function emitJobFinished(
     runAtMs,
     durationMs: job.state.lastDurationMs,
     nextRunAtMs: job.state.nextRunAtMs,
+    triggeredBy: job.state.lastTrigger?.jobId,
+    errorKind: job.state.lastErrorKind,
+    attempt: job.state.lastAttempt,
+    retryAtMs: job.state.retryAtMs,
+    deadLettered: result.status === "error" && job.state.retryAtMs === undefined,
     model: result.model,
     provider: result.provider,
     usage: result.usage,
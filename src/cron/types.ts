@@ -2,13 +2,28 @@ import type { ChannelId } from "../channels/plugins/types.js";
 
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
+  | {
+      kind: "every";
+      everyMs: number;
+      anchorMs?: number;
+      /** Exclusion calendar names (`cron.calendars`) whose slots are skipped. */
+      exclude?: string[];
+    }
   | {
       kind: "cron";
       expr: string;
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+      /** Exclusion calendar names (`cron.calendars`) whose slots are skipped. */
+      exclude?: string[];
+    }
+  | {
+      kind: "after";
+      /** Upstream job whose completion triggers this job. */
+      jobId: string;
+      /** Upstream run statuses that trigger this job (default: ["ok"]). */
+      on?: CronRunStatus[];
     };
 
 export type CronSessionTarget = "main" | "isolated";
@@ -28,7 +43,25 @@ export type CronDelivery = {
 
 export type CronDeliveryPatch = Partial<CronDelivery>;
 
+/** Where to notify when a run fails for good (separate from normal delivery). */
+export type CronFailureDelivery = {
+  mode: "announce" | "webhook";
+  channel?: CronMessageChannel;
+  to?: string;
+  accountId?: string;
+};
+
 export type CronRunStatus = "ok" | "error" | "skipped";
+export type CronErrorKind = "delivery-target" | "timeout" | "rate-limit" | "auth" | "unknown";
+
+export type CronRetryPolicy = {
+  /** Total attempts per scheduled run, including the first one. */
+  maxAttempts?: number;
+  /** Delay before each retry; the last entry repeats. */
+  backoffMs?: number[];
+  /** Error kinds worth retrying (default: timeout, rate-limit). */
+  retryOn?: CronErrorKind[];
+};
 export type CronDeliveryStatus = "delivered" | "not-delivered" | "unknown" | "not-requested";
 
 export type CronUsageSummary = {
@@ -48,13 +81,25 @@ export type CronRunTelemetry = {
 export type CronRunOutcome = {
   status: CronRunStatus;
   error?: string;
-  /** Optional classifier for execution errors to guide fallback behavior. */
-  errorKind?: "delivery-target";
+  /** Optional classifier for execution errors to guide fallback and retry behavior. */
+  errorKind?: CronErrorKind;
   summary?: string;
   sessionId?: string;
   sessionKey?: string;
 };
 
+/** Upstream run that triggered (or will trigger) a chained `after` job. */
+export type CronJobTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: CronRunStatus;
+  summary?: string;
+  /** Upstream run start time. */
+  runAtMs?: number;
+  /** When the upstream run finished and queued this job. */
+  triggeredAtMs: number;
+};
+
 export type CronPayload =
   | { kind: "systemEvent"; text: string }
   | {
@@ -98,6 +143,12 @@ export type CronJobState = {
   lastDurationMs?: number;
   /** Number of consecutive execution errors (reset on success). Used for backoff. */
   consecutiveErrors?: number;
+  /** Classified error of the last failed run. */
+  lastErrorKind?: CronErrorKind;
+  /** Attempt number of the last run within its scheduled slot (1 = first attempt). */
+  lastAttempt?: number;
+  /** When a retry of the last failed run is scheduled. */
+  retryAtMs?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
   /** Explicit delivery outcome, separate from execution outcome. */
@@ -106,6 +157,10 @@ export type CronJobState = {
   lastDeliveryError?: string;
   /** Whether the last run's output was delivered to the target channel. */
   lastDelivered?: boolean;
+  /** Upstream run waiting to trigger this job (schedule.kind="after"). */
+  pendingTrigger?: CronJobTrigger;
+  /** Upstream run that triggered the last run, if any. */
+  lastTrigger?: CronJobTrigger;
 };
 
 export type CronJob = {
@@ -124,9 +179,21 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
+  failureDelivery?: CronFailureDelivery;
   state: CronJobState;
 };
 
+/** Upcoming slot skipped because it falls inside an exclusion calendar. */
+export type CronBlackoutSlot = {
+  jobId: string;
+  jobName: string;
+  skippedAtMs: number;
+  nextRunAtMs?: number;
+  calendar: string;
+  reason?: string;
+};
+
 export type CronStoreFile = {
   version: 1;
   jobs: CronJob[];
@@ -136,8 +203,14 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "retry" | "failureDelivery">
+> & {
   payload?: CronPayloadPatch;
   delivery?: CronDeliveryPatch;
+  /** `null` clears the retry policy. */
+  retry?: CronRetryPolicy | null;
+  /** `null` clears the failure notification target. */
+  failureDelivery?: CronFailureDelivery | null;
   state?: Partial<CronJobState>;
 };
@@ -22,6 +22,7 @@ import { resolveChunkMode, resolveTextChunkLimit } from "../../auto-reply/chunk.
 import { formatInboundEnvelope, resolveEnvelopeFormatOptions } from "../../auto-reply/envelope.js";
 import { finalizeInboundContext } from "../../auto-reply/reply/inbound-context.js";
 import { dispatchReplyWithBufferedBlockDispatcher } from "../../auto-reply/reply/provider-dispatcher.js";
+import { REPLY_CHOICE_CALLBACK_PREFIX } from "../../auto-reply/reply/reply-choices.js";
 import { createReplyReferencePlanner } from "../../auto-reply/reply/reply-reference.js";
 import { resolveCommandAuthorizedFromAuthorizers } from "../../channels/command-gating.js";
 import { createReplyPrefixOptions } from "../../channels/reply-prefix.js";
@@ -50,6 +51,7 @@ import {
   type DiscordComponentEntry,
   type DiscordModalEntry,
 } from "../components.js";
+import { parseDiscordReplyChoiceCustomIdForCarbon } from "../reply-choices.js";
 import {
   type DiscordGuildEntryResolved,
   normalizeDiscordAllowList,
@@ -1253,6 +1255,76 @@ async function handleDiscordModalTrigger(params: {
   }
 }
 
+/**
+ * Reply choice buttons carry their callback data in the custom id. It is dispatched as the
+ * inbound text so reply choice resolution can turn it into the session's selection.
+ */
+async function handleDiscordReplyChoice(params: {
+  ctx: AgentComponentContext;
+  interaction: ButtonInteraction;
+}): Promise<void> {
+  const callbackData = resolveInteractionCustomId(params.interaction);
+  if (!callbackData?.startsWith(REPLY_CHOICE_CALLBACK_PREFIX)) {
+    logError("discord reply choice: missing callback data");
+    try {
+      await params.interaction.reply({
+        content: "This button is no longer valid.",
+        ephemeral: true,
+      });
+    } catch {
+      // Interaction may have expired
+    }
+    return;
+  }
+
+  const interactionCtx = await resolveInteractionContextWithDmAuth({
+    ctx: params.ctx,
+    interaction: params.interaction,
+    label: "discord reply choice",
+    componentLabel: "button",
+  });
+  if (!interactionCtx) {
+    return;
+  }
+  const guildInfo = resolveDiscordGuildEntry({
+    guild: params.interaction.guild ?? undefined,
+    guildEntries: params.ctx.guildEntries,
+  });
+  const channelCtx = resolveDiscordChannelContext(params.interaction);
+  const memberAllowed = await ensureGuildComponentMemberAllowed({
+    interaction: params.interaction,
+    guildInfo,
+    channelId: interactionCtx.channelId,
+    rawGuildId: interactionCtx.rawGuildId,
+    channelCtx,
+    memberRoleIds: interactionCtx.memberRoleIds,
+    user: interactionCtx.user,
+    replyOpts: interactionCtx.replyOpts,
+    componentLabel: "button",
+    unauthorizedReply: "You are not authorized to use this button.",
+    allowNameMatching: isDangerousNameMatchingEnabled(params.ctx.discordConfig),
+  });
+  if (!memberAllowed) {
+    return;
+  }
+
+  try {
+    await params.interaction.reply({ content: "✓", ...interactionCtx.replyOpts });
+  } catch (err) {
+    logError(`discord reply choice: failed to acknowledge interaction: ${String(err)}`);
+  }
+
+  await dispatchDiscordComponentEvent({
+    ctx: params.ctx,
+    interaction: params.interaction,
+    interactionCtx,
+    channelCtx,
+    guildInfo,
+    eventText: callbackData,
+    replyToId: params.interaction.message?.id,
+  });
+}
+
 export class AgentComponentButton extends Button {
   label = AGENT_BUTTON_KEY;
   customId = `${AGENT_BUTTON_KEY}:seed=1`;
@@ -1468,6 +1540,23 @@ class DiscordComponentButton extends Button {
   }
 }
 
+class DiscordReplyChoiceButton extends Button {
+  label = "reply-choice";
+  customId = REPLY_CHOICE_CALLBACK_PREFIX;
+  style = ButtonStyle.Secondary;
+  customIdParser = parseDiscordReplyChoiceCustomIdForCarbon;
+  private ctx: AgentComponentContext;
+
+  constructor(ctx: AgentComponentContext) {
+    super();
+    this.ctx = ctx;
+  }
+
+  async run(interaction: ButtonInteraction): Promise<void> {
+    await handleDiscordReplyChoice({ ctx: this.ctx, interaction });
+  }
+}
+
 class DiscordComponentStringSelect extends StringSelectMenu {
   customId = "*";
   options: APIStringSelectComponent["options"] = [];
@@ -1704,6 +1793,10 @@ export function createDiscordComponentButton(ctx: AgentComponentContext): Button
   return new DiscordComponentButton(ctx);
 }
 
+export function createDiscordReplyChoiceButton(ctx: AgentComponentContext): Button {
+  return new DiscordReplyChoiceButton(ctx);
+}
+
 export function createDiscordComponentStringSelect(ctx: AgentComponentContext): StringSelectMenu {
   return new DiscordComponentStringSelect(ctx);
 }
@@ -17,6 +17,8 @@ export function resolveDiscordGatewayIntents(
     GatewayIntents.DirectMessages |
     GatewayIntents.GuildMessageReactions |
     GatewayIntents.DirectMessageReactions |
+    GatewayIntents.GuildMessagePolls |
+    GatewayIntents.DirectMessagePolls |
     GatewayIntents.GuildVoiceStates;
   if (intentsConfig?.presence) {
     intents |= GatewayIntents.GuildPresences;
@@ -2,6 +2,8 @@ import {
   ChannelType,
   type Client,
   MessageCreateListener,
+  MessagePollVoteAddListener,
+  MessagePollVoteRemoveListener,
   MessageReactionAddListener,
   MessageReactionRemoveListener,
   PresenceUpdateListener,
@@ -9,6 +11,7 @@ import {
 } from "@buape/carbon";
 import { danger, logVerbose } from "../../globals.js";
 import { formatDurationSeconds } from "../../infra/format-time/format-duration.ts";
+import { togglePollVote } from "../../infra/outbound/poll-results.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { resolveAgentRoute } from "../../routing/resolve-route.js";
@@ -663,3 +666,47 @@ export class DiscordPresenceListener extends PresenceUpdateListener {
     }
   }
 }
+
+type DiscordPollVoteEvent = Parameters<MessagePollVoteAddListener["handle"]>[0];
+
+function recordDiscordPollVote(params: {
+  data: DiscordPollVoteEvent;
+  accountId: string;
+  selected: boolean;
+  logger?: Logger;
+}) {
+  try {
+    // Discord answer ids are 1-based; polls are keyed by the message that carries them.
+    togglePollVote({
+      channel: "discord",
+      accountId: params.accountId,
+      pollId: params.data.message_id,
+      voterId: params.data.user_id,
+      optionIndex: params.data.answer_id - 1,
+      selected: params.selected,
+    });
+  } catch (err) {
+    const logger = params.logger ?? discordEventQueueLog;
+    logger.error(danger(`discord poll vote handler failed: ${String(err)}`));
+  }
+}
+
+export class DiscordPollVoteListener extends MessagePollVoteAddListener {
+  constructor(private params: { accountId: string; logger?: Logger }) {
+    super();
+  }
+
+  async handle(data: DiscordPollVoteEvent) {
+    recordDiscordPollVote({ data, ...this.params, selected: true });
+  }
+}
+
+export class DiscordPollVoteRemoveListener extends MessagePollVoteRemoveListener {
+  constructor(private params: { accountId: string; logger?: Logger }) {
+    super();
+  }
+
+  async handle(data: DiscordPollVoteEvent) {
+    recordDiscordPollVote({ data, ...this.params, selected: false });
+  }
+}
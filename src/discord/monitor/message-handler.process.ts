@@ -35,6 +35,7 @@ import { truncateUtf16Safe } from "../../utils.js";
 import { chunkDiscordTextWithMode } from "../chunk.js";
 import { resolveDiscordDraftStreamingChunking } from "../draft-chunking.js";
 import { createDiscordDraftStream } from "../draft-stream.js";
+import { readDiscordReplyChoiceButtons } from "../reply-choices.js";
 import { reactMessageDiscord, removeReactionDiscord } from "../send.js";
 import { editMessageDiscord } from "../send.messages.js";
 import { normalizeDiscordSlug, resolveDiscordOwnerAllowFrom } from "./allow-list.js";
@@ -584,6 +585,8 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
       if (draftStream && isFinal) {
         await flushDraft();
         const hasMedia = Boolean(payload.mediaUrl) || (payload.mediaUrls?.length ?? 0) > 0;
+        // Preview edits only update content; replies with choice buttons need a fresh send.
+        const hasChoiceButtons = readDiscordReplyChoiceButtons(payload).length > 0;
         const finalText = payload.text;
         const previewFinalText = resolvePreviewFinalText(finalText);
         const previewMessageId = draftStream.messageId();
@@ -592,6 +595,7 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
         const canFinalizeViaPreviewEdit =
           !finalizedViaPreviewMessage &&
           !hasMedia &&
+          !hasChoiceButtons &&
           typeof previewFinalText === "string" &&
           typeof previewMessageId === "string" &&
           !payload.isError;
@@ -623,6 +627,7 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
             typeof messageIdAfterStop === "string" &&
             typeof previewFinalText === "string" &&
             !hasMedia &&
+            !hasChoiceButtons &&
             !payload.isError
           ) {
             try {
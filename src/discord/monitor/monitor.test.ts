@@ -22,6 +22,7 @@ import {
   createAgentSelectMenu,
   createDiscordComponentButton,
   createDiscordComponentModal,
+  createDiscordReplyChoiceButton,
 } from "./agent-components.js";
 import type { DiscordChannelConfigResolved } from "./allow-list.js";
 import {
@@ -324,6 +325,23 @@ describe("discord component interactions", () => {
     expect(resolveDiscordComponentEntry({ id: "btn_1" })).toBeNull();
   });
 
+  it("dispatches reply choice clicks as their callback data", async () => {
+    const button = createDiscordReplyChoiceButton(createComponentContext());
+    const { interaction, reply } = createComponentButtonInteraction({
+      rawData: {
+        channel_id: "dm-channel",
+        id: "interaction-3",
+        data: { custom_id: "oc_choice:1:Yes" },
+      } as unknown as ButtonInteraction["rawData"],
+    });
+
+    await button.run(interaction, {} as ComponentData);
+
+    expect(reply).toHaveBeenCalledWith({ content: "✓" });
+    expect(lastDispatchCtx?.BodyForAgent).toBe("oc_choice:1:Yes");
+    expect(deliverDiscordReplyMock.mock.calls[0]?.[0]?.replyToId).toBe("msg-1");
+  });
+
   it("keeps reusable buttons active after use", async () => {
     registerDiscordComponentEntries({
       entries: [createButtonEntry({ reusable: true })],
@@ -170,6 +170,7 @@ vi.mock("./agent-components.js", () => ({
   createDiscordComponentRoleSelect: () => ({ id: "role" }),
   createDiscordComponentStringSelect: () => ({ id: "string" }),
   createDiscordComponentUserSelect: () => ({ id: "user" }),
+  createDiscordReplyChoiceButton: () => ({ id: "reply-choice" }),
 }));
 
 vi.mock("./commands.js", () => ({
@@ -194,6 +195,8 @@ vi.mock("./gateway-plugin.js", () => ({
 
 vi.mock("./listeners.js", () => ({
   DiscordMessageListener: class DiscordMessageListener {},
+  DiscordPollVoteListener: class DiscordPollVoteListener {},
+  DiscordPollVoteRemoveListener: class DiscordPollVoteRemoveListener {},
   DiscordPresenceListener: class DiscordPresenceListener {},
   DiscordReactionListener: class DiscordReactionListener {},
   DiscordReactionRemoveListener: class DiscordReactionRemoveListener {},
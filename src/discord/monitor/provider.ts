@@ -48,6 +48,7 @@ import {
   createDiscordComponentRoleSelect,
   createDiscordComponentStringSelect,
   createDiscordComponentUserSelect,
+  createDiscordReplyChoiceButton,
 } from "./agent-components.js";
 import { resolveDiscordSlashCommandConfig } from "./commands.js";
 import { createExecApprovalButton, DiscordExecApprovalHandler } from "./exec-approvals.js";
@@ -55,6 +56,8 @@ import { attachEarlyGatewayErrorGuard } from "./gateway-error-guard.js";
 import { createDiscordGatewayPlugin } from "./gateway-plugin.js";
 import {
   DiscordMessageListener,
+  DiscordPollVoteListener,
+  DiscordPollVoteRemoveListener,
   DiscordPresenceListener,
   DiscordReactionListener,
   DiscordReactionRemoveListener,
@@ -485,6 +488,7 @@ export async function monitorDiscordProvider(opts: MonitorDiscordOpts = {}) {
       components.push(createAgentComponentButton(componentContext));
       components.push(createAgentSelectMenu(componentContext));
       components.push(createDiscordComponentButton(componentContext));
+      components.push(createDiscordReplyChoiceButton(componentContext));
       components.push(createDiscordComponentStringSelect(componentContext));
       components.push(createDiscordComponentUserSelect(componentContext));
       components.push(createDiscordComponentRoleSelect(componentContext));
@@ -629,6 +633,15 @@ export async function monitorDiscordProvider(opts: MonitorDiscordOpts = {}) {
       }),
     );
 
+    registerDiscordListener(
+      client.listeners,
+      new DiscordPollVoteListener({ accountId: account.accountId, logger }),
+    );
+    registerDiscordListener(
+      client.listeners,
+      new DiscordPollVoteRemoveListener({ accountId: account.accountId, logger }),
+    );
+
     if (discordCfg.intents?.presence) {
       registerDiscordListener(
         client.listeners,
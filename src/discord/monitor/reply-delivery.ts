@@ -1,4 +1,4 @@
-import type { RequestClient } from "@buape/carbon";
+import type { RequestClient, TopLevelComponents } from "@buape/carbon";
 import { resolveAgentAvatar } from "../../agents/identity-avatar.js";
 import type { ChunkMode } from "../../auto-reply/chunk.js";
 import type { ReplyPayload } from "../../auto-reply/types.js";
@@ -7,6 +7,7 @@ import type { MarkdownTableMode, ReplyToMode } from "../../config/types.base.js"
 import { convertMarkdownTables } from "../../markdown/tables.js";
 import type { RuntimeEnv } from "../../runtime.js";
 import { chunkDiscordTextWithMode } from "../chunk.js";
+import { buildDiscordReplyChoiceRows, readDiscordReplyChoiceButtons } from "../reply-choices.js";
 import { sendMessageDiscord, sendVoiceMessageDiscord, sendWebhookMessageDiscord } from "../send.js";
 
 export type DiscordThreadBindingLookupRecord = {
@@ -83,13 +84,15 @@ async function sendDiscordChunkWithFallback(params: {
   binding?: DiscordThreadBindingLookupRecord;
   username?: string;
   avatarUrl?: string;
+  components?: TopLevelComponents[];
 }) {
   if (!params.text.trim()) {
     return;
   }
   const text = params.text;
   const binding = params.binding;
-  if (binding?.webhookId && binding?.webhookToken) {
+  // Interactive components need a bot-authored message, so skip the webhook persona for them.
+  if (binding?.webhookId && binding?.webhookToken && !params.components) {
     try {
       await sendWebhookMessageDiscord(text, {
         webhookId: binding.webhookId,
@@ -110,6 +113,7 @@ async function sendDiscordChunkWithFallback(params: {
     rest: params.rest,
     accountId: params.accountId,
     replyTo: params.replyTo,
+    components: params.components,
   });
 }
 
@@ -183,6 +187,9 @@ export async function deliverDiscordReply(params: {
     if (!text && mediaList.length === 0) {
       continue;
     }
+    const choiceButtons = readDiscordReplyChoiceButtons(payload);
+    const choiceComponents =
+      choiceButtons.length > 0 ? buildDiscordReplyChoiceRows(choiceButtons) : undefined;
     if (mediaList.length === 0) {
       const mode = params.chunkMode ?? "length";
       const chunks = chunkDiscordTextWithMode(text, {
@@ -193,7 +200,8 @@ export async function deliverDiscordReply(params: {
       if (!chunks.length && text) {
         chunks.push(text);
       }
-      for (const chunk of chunks) {
+      const lastChunkIndex = chunks.findLastIndex((chunk) => chunk.trim());
+      for (const [index, chunk] of chunks.entries()) {
         if (!chunk.trim()) {
           continue;
         }
@@ -208,6 +216,8 @@ export async function deliverDiscordReply(params: {
           binding,
           username: persona.username,
           avatarUrl: persona.avatarUrl,
+          // Reply choice buttons go under the last chunk.
+          components: index === lastChunkIndex ? choiceComponents : undefined,
         });
         deliveredAny = true;
       }
@@ -240,6 +250,7 @@ export async function deliverDiscordReply(params: {
         binding,
         username: persona.username,
         avatarUrl: persona.avatarUrl,
+        components: choiceComponents,
       });
       // Additional media items are sent as regular attachments (voice is single-file only).
       await sendAdditionalDiscordMedia({
@@ -260,6 +271,7 @@ export async function deliverDiscordReply(params: {
       mediaUrl: firstMedia,
       accountId: params.accountId,
       replyTo,
+      components: choiceComponents,
     });
     deliveredAny = true;
     await sendAdditionalDiscordMedia({
@@ -0,0 +1,62 @@
+import { Button, Row, parseCustomId, type ComponentParserResult } from "@buape/carbon";
+import { ButtonStyle } from "discord-api-types/v10";
+import {
+  buildReplyChoiceCallbackData,
+  REPLY_CHOICE_CALLBACK_PREFIX,
+} from "../auto-reply/reply/reply-choices.js";
+import type { ReplyChoice, ReplyPayload } from "../auto-reply/types.js";
+
+// Discord fits at most five buttons in one action row.
+const DISCORD_BUTTONS_PER_ROW = 5;
+
+/** Plain-data form kept in `channelData.discord.replyChoices` until the message is sent. */
+export type DiscordReplyChoiceButton = {
+  label: string;
+  customId: string;
+};
+
+/** Choice buttons carry the shared `oc_choice:<n>:<label>` callback data as their custom id. */
+export function buildDiscordReplyChoiceButtons(choices: ReplyChoice[]): DiscordReplyChoiceButton[] {
+  return choices.map((choice, index) => ({
+    label: choice.label,
+    customId: buildReplyChoiceCallbackData(index, choice.label),
+  }));
+}
+
+export function readDiscordReplyChoiceButtons(payload: ReplyPayload): DiscordReplyChoiceButton[] {
+  const raw = (payload.channelData?.discord as { replyChoices?: unknown } | undefined)
+    ?.replyChoices;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter(
+    (entry): entry is DiscordReplyChoiceButton =>
+      typeof entry?.label === "string" &&
+      typeof entry?.customId === "string" &&
+      entry.customId.startsWith(REPLY_CHOICE_CALLBACK_PREFIX),
+  );
+}
+
+export function buildDiscordReplyChoiceRows(buttons: DiscordReplyChoiceButton[]): Row<Button>[] {
+  const rows: Row<Button>[] = [];
+  for (let start = 0; start < buttons.length; start += DISCORD_BUTTONS_PER_ROW) {
+    const rowButtons = buttons.slice(start, start + DISCORD_BUTTONS_PER_ROW).map((spec) => {
+      class ReplyChoiceButton extends Button {
+        label = spec.label;
+        customId = spec.customId;
+        style = ButtonStyle.Secondary;
+      }
+      return new ReplyChoiceButton();
+    });
+    rows.push(new Row(rowButtons));
+  }
+  return rows;
+}
+
+/** Route every `oc_choice:` custom id to the single reply choice handler. */
+export function parseDiscordReplyChoiceCustomIdForCarbon(id: string): ComponentParserResult {
+  if (id.startsWith(REPLY_CHOICE_CALLBACK_PREFIX)) {
+    return { key: REPLY_CHOICE_CALLBACK_PREFIX, data: {} };
+  }
+  return parseCustomId(id);
+}
@@ -105,6 +105,14 @@ function mergeTtsConfig(base: TtsConfig, override?: TtsConfig): TtsConfig {
       ...base.edge,
       ...override.edge,
     },
+    piper: {
+      ...base.piper,
+      ...override.piper,
+    },
+    openaiCompatible: {
+      ...base.openaiCompatible,
+      ...override.openaiCompatible,
+    },
   };
 }
 
@@ -0,0 +1,175 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { emitAgentEvent } from "../infra/agent-events.js";
+import { agentCommand, getFreePort, installGatewayTestHooks } from "./test-helpers.js";
+
+installGatewayTestHooks({ scope: "suite" });
+
+let startGatewayServer: typeof import("./server.js").startGatewayServer;
+let buildAnthropicAgentPrompt: typeof import("./anthropic-http.js").buildAnthropicAgentPrompt;
+let server: Awaited<ReturnType<typeof startGatewayServer>>;
+let port: number;
+
+beforeAll(async () => {
+  ({ startGatewayServer } = await import("./server.js"));
+  ({ buildAnthropicAgentPrompt } = await import("./anthropic-http.js"));
+  port = await getFreePort();
+  server = await startGatewayServer(port, {
+    host: "127.0.0.1",
+    auth: { mode: "token", token: "secret" },
+    controlUiEnabled: false,
+    anthropicMessagesEnabled: true,
+  });
+});
+
+afterAll(async () => {
+  await server.close({ reason: "anthropic http suite done" });
+});
+
+async function postMessages(body: unknown, headers?: Record<string, string>) {
+  return await fetch(`http://127.0.0.1:${port}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": "secret",
+      "anthropic-version": "2023-06-01",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function mockAgentRunWithTool() {
+  agentCommand.mockClear();
+  agentCommand.mockImplementationOnce((async (opts: unknown) => {
+    const runId = (opts as { runId?: string }).runId ?? "";
+    emitAgentEvent({
+      runId,
+      stream: "tool",
+      data: { phase: "start", name: "read", toolCallId: "call_1", args: { path: "a.txt" } },
+    });
+    emitAgentEvent({
+      runId,
+      stream: "tool",
+      data: {
+        phase: "result",
+        name: "read",
+        toolCallId: "call_1",
+        isError: false,
+        result: { content: [{ type: "text", text: "file body" }] },
+      },
+    });
+    emitAgentEvent({ runId, stream: "assistant", data: { delta: "do" } });
+    emitAgentEvent({ runId, stream: "assistant", data: { delta: "ne" } });
+    return { payloads: [{ text: "done" }] };
+  }) as never);
+}
+
+function parseSseEvents(text: string): Array<{ type: string } & Record<string, unknown>> {
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice("data: ".length)) as { type: string });
+}
+
+describe("buildAnthropicAgentPrompt", () => {
+  it("folds system blocks, tool calls and tool results into the agent prompt", () => {
+    const prompt = buildAnthropicAgentPrompt({
+      system: [{ type: "text", text: "Be brief." }],
+      messages: [
+        { role: "user", content: "read a.txt" },
+        {
+          role: "assistant",
+          content: [{ type: "tool_use", id: "toolu_1", name: "read", input: { path: "a.txt" } }],
+        },
+        {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "hello" }],
+        },
+      ],
+    });
+    expect(prompt.extraSystemPrompt).toBe("Be brief.");
+    expect(prompt.message).toContain('Assistant: [tool call read: {"path":"a.txt"}]');
+    expect(prompt.message).toContain("Tool:read: hello");
+  });
+});
+
+describe("Anthropic Messages HTTP API (e2e)", () => {
+  it("returns tool_use/tool_result blocks and the final text", async () => {
+    mockAgentRunWithTool();
+    const res = await postMessages({
+      model: "openclaw:main",
+      max_tokens: 1024,
+      metadata: { user_id: "u1" },
+      messages: [{ role: "user", content: "read a.txt" }],
+    });
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as Record<string, unknown>;
+    expect(json).toMatchObject({
+      type: "message",
+      role: "assistant",
+      model: "openclaw:main",
+      stop_reason: "end_turn",
+      content: [
+        { type: "tool_use", id: "call_1", name: "read", input: { path: "a.txt" } },
+        { type: "tool_result", tool_use_id: "call_1", content: "file body", is_error: false },
+        { type: "text", text: "done" },
+      ],
+    });
+    const opts = (agentCommand.mock.calls[0] as unknown[] | undefined)?.[0] as
+      | { sessionKey?: string }
+      | undefined;
+    expect(opts?.sessionKey).toBe("agent:main:anthropic-user:u1");
+  });
+
+  it("streams Anthropic SSE events", async () => {
+    mockAgentRunWithTool();
+    const res = await postMessages({
+      model: "openclaw",
+      stream: true,
+      messages: [{ role: "user", content: "read a.txt" }],
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type") ?? "").toContain("text/event-stream");
+    const events = parseSseEvents(await res.text());
+    expect(events.map((event) => event.type)).toEqual([
+      "message_start",
+      "ping",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[3]).toMatchObject({
+      index: 0,
+      delta: { type: "input_json_delta", partial_json: '{"path":"a.txt"}' },
+    });
+    expect(events[5]).toMatchObject({
+      index: 1,
+      content_block: { type: "tool_result", tool_use_id: "call_1" },
+    });
+    expect(events[9]).toMatchObject({ index: 2, delta: { type: "text_delta", text: "ne" } });
+  });
+
+  it("rejects bad auth and missing user messages", async () => {
+    const unauthorized = await postMessages(
+      { messages: [{ role: "user", content: "hi" }] },
+      { "x-api-key": "wrong" },
+    );
+    expect(unauthorized.status).toBe(401);
+    await unauthorized.text();
+
+    const missing = await postMessages({ messages: [] });
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({
+      type: "error",
+      error: { type: "invalid_request_error", message: "Missing user message in `messages`." },
+    });
+  });
+});
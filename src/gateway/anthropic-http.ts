@@ -0,0 +1,412 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createDefaultDeps } from "../cli/deps.js";
+import { agentCommand } from "../commands/agent.js";
+import { emitAgentEvent, onAgentEvent, type AgentEventPayload } from "../infra/agent-events.js";
+import { logWarn } from "../logger.js";
+import { defaultRuntime } from "../runtime.js";
+import { extractTextFromChatContent } from "../shared/chat-content.js";
+import { resolveAssistantStreamDeltaText } from "./agent-event-assistant-text.js";
+import {
+  buildAgentMessageFromConversationEntries,
+  type ConversationEntry,
+} from "./agent-prompt.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { sendJson, setSseHeaders } from "./http-common.js";
+import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
+import { resolveAgentIdForRequest, resolveSessionKey } from "./http-utils.js";
+import { buildAgentCommandInput, resolveAgentResponseText } from "./openai-http.js";
+
+type AnthropicHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  maxBodyBytes?: number;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+type AnthropicMessageParam = {
+  role?: unknown;
+  content?: unknown;
+};
+
+type AnthropicMessagesRequest = {
+  model?: unknown;
+  stream?: unknown;
+  system?: unknown;
+  messages?: unknown;
+  metadata?: unknown;
+};
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string; is_error: boolean };
+
+type AnthropicErrorType = "invalid_request_error" | "api_error";
+
+const EMPTY_USAGE = { input_tokens: 0, output_tokens: 0 };
+
+function sendAnthropicError(
+  res: ServerResponse,
+  status: number,
+  type: AnthropicErrorType,
+  message: string,
+) {
+  sendJson(res, status, { type: "error", error: { type, message } });
+}
+
+function writeSseEvent(res: ServerResponse, event: { type: string } & Record<string, unknown>) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+function coerceRequest(val: unknown): AnthropicMessagesRequest {
+  if (!val || typeof val !== "object") {
+    return {};
+  }
+  return val as AnthropicMessagesRequest;
+}
+
+function asBlocks(content: unknown): Array<Record<string, unknown>> {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content.filter(
+    (block): block is Record<string, unknown> => Boolean(block) && typeof block === "object",
+  );
+}
+
+function extractBlockText(content: unknown): string {
+  return (
+    extractTextFromChatContent(content, { joinWith: "\n", normalizeText: (t) => t.trim() }) ?? ""
+  );
+}
+
+/**
+ * Flatten an Anthropic `messages` array into the same history/current-message prompt the
+ * OpenAI endpoint builds. Client-side `tool_use` blocks are folded into the assistant turn and
+ * `tool_result` blocks become `Tool:<name>` entries so a follow-up answers the tool output.
+ */
+export function buildAnthropicAgentPrompt(params: { system?: unknown; messages?: unknown }): {
+  message: string;
+  extraSystemPrompt?: string;
+} {
+  const systemText = extractBlockText(params.system);
+  const messages = Array.isArray(params.messages)
+    ? (params.messages as AnthropicMessageParam[])
+    : [];
+  const toolNames = new Map<string, string>();
+  const entries: ConversationEntry[] = [];
+
+  for (const msg of messages) {
+    if (!msg || typeof msg !== "object") {
+      continue;
+    }
+    const role = msg.role === "user" || msg.role === "assistant" ? msg.role : null;
+    if (!role) {
+      continue;
+    }
+    const textParts: string[] = [];
+    for (const block of asBlocks(msg.content)) {
+      if (block.type === "text" && typeof block.text === "string") {
+        textParts.push(block.text);
+      } else if (block.type === "tool_use" && typeof block.name === "string") {
+        if (typeof block.id === "string") {
+          toolNames.set(block.id, block.name);
+        }
+        textParts.push(`[tool call ${block.name}: ${JSON.stringify(block.input ?? {})}]`);
+      } else if (block.type === "tool_result") {
+        const name =
+          typeof block.tool_use_id === "string" ? toolNames.get(block.tool_use_id) : undefined;
+        const body = extractBlockText(block.content);
+        if (body) {
+          entries.push({
+            role: "tool",
+            entry: { sender: name ? `Tool:${name}` : "Tool", body },
+          });
+        }
+      }
+    }
+    const body = textParts.join("\n").trim();
+    if (body) {
+      entries.push({ role, entry: { sender: role === "user" ? "User" : "Assistant", body } });
+    }
+  }
+
+  return {
+    message: buildAgentMessageFromConversationEntries(entries),
+    extraSystemPrompt: systemText || undefined,
+  };
+}
+
+function resolveMetadataUser(metadata: unknown): string | undefined {
+  if (!metadata || typeof metadata !== "object") {
+    return undefined;
+  }
+  const userId = (metadata as { user_id?: unknown }).user_id;
+  return typeof userId === "string" ? userId : undefined;
+}
+
+function formatToolResultContent(result: unknown): string {
+  if (typeof result === "string") {
+    return result;
+  }
+  const content = (result as { content?: unknown } | null | undefined)?.content;
+  const text = extractBlockText(content);
+  if (text) {
+    return text;
+  }
+  return result === undefined ? "" : JSON.stringify(result);
+}
+
+/** Map an agent tool event to the content block it represents, if any. */
+function toolEventToBlock(evt: AgentEventPayload): AnthropicContentBlock | null {
+  const toolCallId = typeof evt.data.toolCallId === "string" ? evt.data.toolCallId : "";
+  const name = typeof evt.data.name === "string" ? evt.data.name : "";
+  if (!toolCallId || !name) {
+    return null;
+  }
+  if (evt.data.phase === "start") {
+    const args = evt.data.args;
+    return {
+      type: "tool_use",
+      id: toolCallId,
+      name,
+      input: args && typeof args === "object" ? (args as Record<string, unknown>) : {},
+    };
+  }
+  if (evt.data.phase === "result") {
+    return {
+      type: "tool_result",
+      tool_use_id: toolCallId,
+      content: formatToolResultContent(evt.data.result),
+      is_error: evt.data.isError === true,
+    };
+  }
+  return null;
+}
+
+function createMessageResource(params: {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stopReason: "end_turn" | null;
+}) {
+  return {
+    id: params.id,
+    type: "message",
+    role: "assistant",
+    model: params.model,
+    content: params.content,
+    stop_reason: params.stopReason,
+    stop_sequence: null,
+    usage: EMPTY_USAGE,
+  };
+}
+
+export async function handleAnthropicHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: AnthropicHttpOptions,
+): Promise<boolean> {
+  const handled = await handleGatewayPostJsonEndpoint(req, res, {
+    pathname: "/v1/messages",
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+    maxBodyBytes: opts.maxBodyBytes ?? 1024 * 1024,
+    // Anthropic SDKs send the API key as `x-api-key` rather than a bearer token.
+    apiKeyHeader: "x-api-key",
+  });
+  if (handled === false) {
+    return false;
+  }
+  if (!handled) {
+    return true;
+  }
+
+  const payload = coerceRequest(handled.body);
+  const stream = Boolean(payload.stream);
+  const model = typeof payload.model === "string" ? payload.model : "openclaw";
+  const user = resolveMetadataUser(payload.metadata);
+
+  const agentId = resolveAgentIdForRequest({ req, model });
+  const sessionKey = resolveSessionKey({ req, agentId, user, prefix: "anthropic" });
+  const prompt = buildAnthropicAgentPrompt({ system: payload.system, messages: payload.messages });
+  if (!prompt.message) {
+    sendAnthropicError(res, 400, "invalid_request_error", "Missing user message in `messages`.");
+    return true;
+  }
+
+  const runId = `msg_${randomUUID()}`;
+  const deps = createDefaultDeps();
+  const commandInput = buildAgentCommandInput({ prompt, sessionKey, runId });
+
+  if (!stream) {
+    const toolBlocks: AnthropicContentBlock[] = [];
+    const unsubscribe = onAgentEvent((evt) => {
+      if (evt.runId !== runId || evt.stream !== "tool") {
+        return;
+      }
+      const block = toolEventToBlock(evt);
+      if (block) {
+        toolBlocks.push(block);
+      }
+    });
+    try {
+      const result = await agentCommand(commandInput, defaultRuntime, deps);
+      sendJson(
+        res,
+        200,
+        createMessageResource({
+          id: runId,
+          model,
+          content: [...toolBlocks, { type: "text", text: resolveAgentResponseText(result) }],
+          stopReason: "end_turn",
+        }),
+      );
+    } catch (err) {
+      logWarn(`anthropic-compat: message failed: ${String(err)}`);
+      sendAnthropicError(res, 500, "api_error", "internal error");
+    } finally {
+      unsubscribe();
+    }
+    return true;
+  }
+
+  setSseHeaders(res);
+  writeSseEvent(res, {
+    type: "message_start",
+    message: createMessageResource({ id: runId, model, content: [], stopReason: null }),
+  });
+  writeSseEvent(res, { type: "ping" });
+
+  let nextIndex = 0;
+  let openTextIndex: number | null = null;
+  let sawAssistantDelta = false;
+  let closed = false;
+
+  const closeTextBlock = () => {
+    if (openTextIndex !== null) {
+      writeSseEvent(res, { type: "content_block_stop", index: openTextIndex });
+      openTextIndex = null;
+    }
+  };
+  const writeTextDelta = (text: string) => {
+    if (openTextIndex === null) {
+      openTextIndex = nextIndex++;
+      writeSseEvent(res, {
+        type: "content_block_start",
+        index: openTextIndex,
+        content_block: { type: "text", text: "" },
+      });
+    }
+    writeSseEvent(res, {
+      type: "content_block_delta",
+      index: openTextIndex,
+      delta: { type: "text_delta", text },
+    });
+  };
+  const writeToolBlock = (block: AnthropicContentBlock) => {
+    closeTextBlock();
+    const index = nextIndex++;
+    if (block.type === "tool_use") {
+      // Mirror the Anthropic stream shape: empty input on start, then the full JSON as a delta.
+      writeSseEvent(res, {
+        type: "content_block_start",
+        index,
+        content_block: { ...block, input: {} },
+      });
+      writeSseEvent(res, {
+        type: "content_block_delta",
+        index,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+      });
+    } else {
+      writeSseEvent(res, { type: "content_block_start", index, content_block: block });
+    }
+    writeSseEvent(res, { type: "content_block_stop", index });
+  };
+  const finish = () => {
+    closed = true;
+    unsubscribe();
+    closeTextBlock();
+    writeSseEvent(res, {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn", stop_sequence: null },
+      usage: { output_tokens: 0 },
+    });
+    writeSseEvent(res, { type: "message_stop" });
+    res.end();
+  };
+
+  const unsubscribe = onAgentEvent((evt) => {
+    if (evt.runId !== runId || closed) {
+      return;
+    }
+    if (evt.stream === "assistant") {
+      const content = resolveAssistantStreamDeltaText(evt);
+      if (content) {
+        sawAssistantDelta = true;
+        writeTextDelta(content);
+      }
+      return;
+    }
+    if (evt.stream === "tool") {
+      const block = toolEventToBlock(evt);
+      if (block) {
+        writeToolBlock(block);
+      }
+      return;
+    }
+    if (evt.stream === "lifecycle") {
+      const phase = evt.data?.phase;
+      if (phase === "end" || phase === "error") {
+        finish();
+      }
+    }
+  });
+
+  req.on("close", () => {
+    closed = true;
+    unsubscribe();
+  });
+
+  void (async () => {
+    try {
+      const result = await agentCommand(commandInput, defaultRuntime, deps);
+      if (closed) {
+        return;
+      }
+      if (!sawAssistantDelta) {
+        sawAssistantDelta = true;
+        writeTextDelta(resolveAgentResponseText(result));
+      }
+    } catch (err) {
+      logWarn(`anthropic-compat: streaming message failed: ${String(err)}`);
+      if (closed) {
+        return;
+      }
+      writeSseEvent(res, {
+        type: "error",
+        error: { type: "api_error", message: "internal error" },
+      });
+      emitAgentEvent({
+        runId,
+        stream: "lifecycle",
+        data: { phase: "error" },
+      });
+    } finally {
+      if (!closed) {
+        finish();
+      }
+    }
+  })();
+
+  return true;
+}
@@ -13,11 +13,12 @@ vi.mock("./http-common.js", () => ({
 
 vi.mock("./http-utils.js", () => ({
   getBearerToken: vi.fn(),
+  getHeader: vi.fn(),
 }));
 
 const { authorizeHttpGatewayConnect } = await import("./auth.js");
 const { sendGatewayAuthFailure } = await import("./http-common.js");
-const { getBearerToken } = await import("./http-utils.js");
+const { getBearerToken, getHeader } = await import("./http-utils.js");
 
 describe("authorizeGatewayBearerRequestOrReply", () => {
   const bearerAuth = {
@@ -69,4 +70,23 @@ describe("authorizeGatewayBearerRequestOrReply", () => {
     );
     expect(vi.mocked(sendGatewayAuthFailure)).not.toHaveBeenCalled();
   });
+
+  it("falls back to the configured API key header when no bearer token is sent", async () => {
+    vi.mocked(getBearerToken).mockReturnValue(undefined);
+    vi.mocked(getHeader).mockReturnValue(" key-1 ");
+    vi.mocked(authorizeHttpGatewayConnect).mockResolvedValue({ ok: true, method: "token" });
+
+    const ok = await authorizeGatewayBearerRequestOrReply({
+      ...makeAuthorizeParams(),
+      apiKeyHeader: "x-api-key",
+    });
+
+    expect(ok).toBe(true);
+    expect(vi.mocked(getHeader)).toHaveBeenCalledWith(expect.anything(), "x-api-key");
+    expect(vi.mocked(authorizeHttpGatewayConnect)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        connectAuth: { token: "key-1", password: "key-1" },
+      }),
+    );
+  });
 });
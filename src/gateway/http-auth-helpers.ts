@@ -2,7 +2,7 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import { authorizeHttpGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
 import { sendGatewayAuthFailure } from "./http-common.js";
-import { getBearerToken } from "./http-utils.js";
+import { getBearerToken, getHeader } from "./http-utils.js";
 
 export async function authorizeGatewayBearerRequestOrReply(params: {
   req: IncomingMessage;
@@ -11,8 +11,14 @@ export async function authorizeGatewayBearerRequestOrReply(params: {
   trustedProxies?: string[];
   allowRealIpFallback?: boolean;
   rateLimiter?: AuthRateLimiter;
+  /** Also accept the token from this header (e.g. `x-api-key` for Anthropic SDK clients). */
+  apiKeyHeader?: string;
 }): Promise<boolean> {
-  const token = getBearerToken(params.req);
+  const token =
+    getBearerToken(params.req) ??
+    (params.apiKeyHeader
+      ? getHeader(params.req, params.apiKeyHeader)?.trim() || undefined
+      : undefined);
   const authResult = await authorizeHttpGatewayConnect({
     auth: params.auth,
     connectAuth: token ? { token, password: token } : null,
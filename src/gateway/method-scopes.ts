@@ -65,12 +65,14 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "sessions.list",
     "sessions.preview",
     "sessions.resolve",
+    "sessions.forks",
     "sessions.usage",
     "sessions.usage.timeseries",
     "sessions.usage.logs",
     "cron.list",
     "cron.status",
     "cron.runs",
+    "cron.deadletter",
     "system-presence",
     "last-heartbeat",
     "node.list",
@@ -115,6 +117,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "sessions.reset",
     "sessions.delete",
     "sessions.compact",
+    "sessions.fork",
+    "sessions.switch",
     "connect",
     "chat.inject",
     "web.login.start",
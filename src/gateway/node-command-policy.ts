@@ -1,6 +1,7 @@
 import type { OpenClawConfig } from "../config/config.js";
 import {
   NODE_BROWSER_PROXY_COMMAND,
+  NODE_FS_COMMANDS,
   NODE_SYSTEM_NOTIFY_COMMAND,
   NODE_SYSTEM_RUN_COMMANDS,
 } from "../infra/node-commands.js";
@@ -51,6 +52,8 @@ const SYSTEM_COMMANDS = [
   ...NODE_SYSTEM_RUN_COMMANDS,
   NODE_SYSTEM_NOTIFY_COMMAND,
   NODE_BROWSER_PROXY_COMMAND,
+  // Node hosts gate file access with their own path allowlists and approvals.
+  ...NODE_FS_COMMANDS,
 ];
 
 // "High risk" node commands. These can be enabled by explicitly adding them to
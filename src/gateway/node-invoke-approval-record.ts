@@ -0,0 +1,128 @@
+import type { ExecApprovalRecord } from "./exec-approval-manager.js";
+import {
+  systemRunApprovalGuardError,
+  type SystemRunApprovalGuardError,
+} from "./node-invoke-system-run-approval-errors.js";
+
+export type ApprovalLookup = {
+  getSnapshot: (recordId: string) => ExecApprovalRecord | null;
+  consumeAllowOnce?: (recordId: string) => boolean;
+};
+
+export type ApprovalClient = {
+  connId?: string | null;
+  connect?: {
+    scopes?: unknown;
+    device?: { id?: string | null } | null;
+  } | null;
+};
+
+export function normalizeApprovalString(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+export function normalizeApprovalDecision(value: unknown): "allow-once" | "allow-always" | null {
+  const s = normalizeApprovalString(value);
+  return s === "allow-once" || s === "allow-always" ? s : null;
+}
+
+/**
+ * Look up the gateway approval record behind a node invoke approval override and make
+ * sure it is live, bound to the target node, and was requested by the same caller.
+ */
+export function resolveNodeInvokeApprovalRecord(opts: {
+  runId: unknown;
+  nodeId?: string | null;
+  client: ApprovalClient | null;
+  execApprovalManager?: ApprovalLookup;
+  nowMs?: number;
+}):
+  | { ok: true; runId: string; snapshot: ExecApprovalRecord; manager: ApprovalLookup }
+  | SystemRunApprovalGuardError {
+  const runId = normalizeApprovalString(opts.runId);
+  if (!runId) {
+    return systemRunApprovalGuardError({
+      code: "MISSING_RUN_ID",
+      message: "approval override requires params.runId",
+    });
+  }
+
+  const manager = opts.execApprovalManager;
+  if (!manager) {
+    return systemRunApprovalGuardError({
+      code: "APPROVALS_UNAVAILABLE",
+      message: "exec approvals unavailable",
+    });
+  }
+
+  const snapshot = manager.getSnapshot(runId);
+  if (!snapshot) {
+    return systemRunApprovalGuardError({
+      code: "UNKNOWN_APPROVAL_ID",
+      message: "unknown or expired approval id",
+      details: { runId },
+    });
+  }
+
+  const nowMs = typeof opts.nowMs === "number" ? opts.nowMs : Date.now();
+  if (nowMs > snapshot.expiresAtMs) {
+    return systemRunApprovalGuardError({
+      code: "APPROVAL_EXPIRED",
+      message: "approval expired",
+      details: { runId },
+    });
+  }
+
+  const targetNodeId = normalizeApprovalString(opts.nodeId);
+  if (!targetNodeId) {
+    return systemRunApprovalGuardError({
+      code: "MISSING_NODE_ID",
+      message: "node.invoke requires nodeId",
+      details: { runId },
+    });
+  }
+  const approvalNodeId = normalizeApprovalString(snapshot.request.nodeId);
+  if (!approvalNodeId) {
+    return systemRunApprovalGuardError({
+      code: "APPROVAL_NODE_BINDING_MISSING",
+      message: "approval id missing node binding",
+      details: { runId },
+    });
+  }
+  if (approvalNodeId !== targetNodeId) {
+    return systemRunApprovalGuardError({
+      code: "APPROVAL_NODE_MISMATCH",
+      message: "approval id not valid for this node",
+      details: { runId },
+    });
+  }
+
+  // Prefer binding by device identity (stable across reconnects / per-call clients like callGateway()).
+  // Fallback to connId only when device identity is not available.
+  const snapshotDeviceId = snapshot.requestedByDeviceId ?? null;
+  const clientDeviceId = opts.client?.connect?.device?.id ?? null;
+  if (snapshotDeviceId) {
+    if (snapshotDeviceId !== clientDeviceId) {
+      return systemRunApprovalGuardError({
+        code: "APPROVAL_DEVICE_MISMATCH",
+        message: "approval id not valid for this device",
+        details: { runId },
+      });
+    }
+  } else if (
+    snapshot.requestedByConnId &&
+    snapshot.requestedByConnId !== (opts.client?.connId ?? null)
+  ) {
+    return systemRunApprovalGuardError({
+      code: "APPROVAL_CLIENT_MISMATCH",
+      message: "approval id not valid for this client",
+      details: { runId },
+    });
+  }
+
+  return { ok: true, runId, snapshot, manager };
+}
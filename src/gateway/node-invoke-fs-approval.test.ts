@@ -0,0 +1,103 @@
+import { describe, expect, test } from "vitest";
+import type { ExecApprovalRecord } from "./exec-approval-manager.js";
+import { sanitizeFsParamsForForwarding } from "./node-invoke-fs-approval.js";
+
+describe("sanitizeFsParamsForForwarding", () => {
+  const now = Date.now();
+  const client = {
+    connId: "conn-1",
+    connect: { scopes: ["operator.write"], device: { id: "dev-1" } },
+  };
+
+  function makeRecord(commandArgv: string[]): ExecApprovalRecord {
+    return {
+      id: "approval-1",
+      request: {
+        host: "node",
+        nodeId: "node-1",
+        command: commandArgv.join(" "),
+        commandArgv,
+      },
+      createdAtMs: now - 1_000,
+      expiresAtMs: now + 60_000,
+      requestedByConnId: "conn-1",
+      requestedByDeviceId: "dev-1",
+      resolvedAtMs: now - 500,
+      decision: "allow-once",
+      resolvedBy: "operator",
+    };
+  }
+
+  function manager(record: ExecApprovalRecord) {
+    let consumed = false;
+    return {
+      getSnapshot: () => record,
+      consumeAllowOnce: () => {
+        if (consumed) {
+          return false;
+        }
+        consumed = true;
+        return true;
+      },
+    };
+  }
+
+  test("strips injected approval fields when no override is requested", () => {
+    const result = sanitizeFsParamsForForwarding({
+      command: "fs.read",
+      rawParams: { path: "/var/log/app.log", offset: 0, grant: "all" },
+      nodeId: "node-1",
+      client,
+      nowMs: now,
+    });
+    expect(result).toEqual({ ok: true, params: { path: "/var/log/app.log", offset: 0 } });
+  });
+
+  test("forwards an allow-once approval bound to the same command and path once", () => {
+    const execApprovalManager = manager(makeRecord(["fs.write", "/etc/app.conf"]));
+    const request = {
+      command: "fs.write",
+      rawParams: {
+        path: "/etc/app.conf",
+        data: "aGk=",
+        runId: "approval-1",
+        approved: true,
+        approvalDecision: "allow-always",
+      },
+      nodeId: "node-1",
+      client,
+      execApprovalManager,
+      nowMs: now,
+    };
+
+    const first = sanitizeFsParamsForForwarding(request);
+    expect(first.ok).toBe(true);
+    if (!first.ok) {
+      throw new Error("unreachable");
+    }
+    // The decision comes from the gateway record, not the caller.
+    expect(first.params).toMatchObject({ approved: true, approvalDecision: "allow-once" });
+
+    const replay = sanitizeFsParamsForForwarding(request);
+    expect(replay.ok).toBe(false);
+    expect(replay.ok ? null : replay.details?.code).toBe("APPROVAL_REQUIRED");
+  });
+
+  test("rejects approvals granted for a different path or command", () => {
+    for (const argv of [
+      ["fs.write", "/etc/other.conf"],
+      ["fs.read", "/etc/app.conf"],
+    ]) {
+      const result = sanitizeFsParamsForForwarding({
+        command: "fs.write",
+        rawParams: { path: "/etc/app.conf", runId: "approval-1", approved: true },
+        nodeId: "node-1",
+        client,
+        execApprovalManager: manager(makeRecord(argv)),
+        nowMs: now,
+      });
+      expect(result.ok).toBe(false);
+      expect(result.ok ? null : result.details?.code).toBe("APPROVAL_REQUEST_MISMATCH");
+    }
+  });
+});
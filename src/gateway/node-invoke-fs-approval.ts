@@ -0,0 +1,94 @@
+import {
+  normalizeApprovalDecision,
+  normalizeApprovalString,
+  resolveNodeInvokeApprovalRecord,
+  type ApprovalClient,
+  type ApprovalLookup,
+} from "./node-invoke-approval-record.js";
+import {
+  systemRunApprovalGuardError,
+  systemRunApprovalRequired,
+} from "./node-invoke-system-run-approval-errors.js";
+
+const FS_FORWARDED_PARAMS = [
+  "path",
+  "offset",
+  "length",
+  "data",
+  "transferId",
+  "final",
+  "sha256",
+  "overwrite",
+  "limit",
+  "runId",
+] as const;
+
+/**
+ * Gate `fs.*` approval flags behind a real `exec.approval.*` record, like `system.run`.
+ * The approval must have been requested for exactly `[command, path]` on this node.
+ */
+export function sanitizeFsParamsForForwarding(opts: {
+  nodeId?: string | null;
+  command: string;
+  rawParams: unknown;
+  client: ApprovalClient | null;
+  execApprovalManager?: ApprovalLookup;
+  nowMs?: number;
+}):
+  | { ok: true; params: unknown }
+  | { ok: false; message: string; details?: Record<string, unknown> } {
+  const raw = opts.rawParams;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: true, params: raw };
+  }
+  const obj = raw as Record<string, unknown>;
+  const next: Record<string, unknown> = {};
+  for (const key of FS_FORWARDED_PARAMS) {
+    if (key in obj) {
+      next[key] = obj[key];
+    }
+  }
+  const wantsApprovalOverride =
+    obj.approved === true || normalizeApprovalDecision(obj.approvalDecision) !== null;
+  if (!wantsApprovalOverride) {
+    return { ok: true, params: next };
+  }
+
+  const approvalRecord = resolveNodeInvokeApprovalRecord({
+    runId: obj.runId,
+    nodeId: opts.nodeId,
+    client: opts.client,
+    execApprovalManager: opts.execApprovalManager,
+    nowMs: opts.nowMs,
+  });
+  if (!approvalRecord.ok) {
+    return approvalRecord;
+  }
+  const { runId, snapshot, manager } = approvalRecord;
+
+  const approvedArgv = snapshot.request.commandArgv ?? [];
+  const targetPath = normalizeApprovalString(obj.path);
+  if (
+    !targetPath ||
+    approvedArgv.length !== 2 ||
+    approvedArgv[0] !== opts.command ||
+    approvedArgv[1] !== targetPath
+  ) {
+    return systemRunApprovalGuardError({
+      code: "APPROVAL_REQUEST_MISMATCH",
+      message: "approval id does not match request",
+      details: { runId },
+    });
+  }
+
+  if (snapshot.decision === "allow-once") {
+    if (typeof manager.consumeAllowOnce !== "function" || !manager.consumeAllowOnce(runId)) {
+      return systemRunApprovalRequired(runId);
+    }
+    return { ok: true, params: { ...next, approved: true, approvalDecision: "allow-once" } };
+  }
+  if (snapshot.decision === "allow-always") {
+    return { ok: true, params: { ...next, approved: true, approvalDecision: "allow-always" } };
+  }
+  return systemRunApprovalRequired(runId);
+}
@@ -1,4 +1,6 @@
+import { NODE_FS_COMMANDS } from "../infra/node-commands.js";
 import type { ExecApprovalManager } from "./exec-approval-manager.js";
+import { sanitizeFsParamsForForwarding } from "./node-invoke-fs-approval.js";
 import { sanitizeSystemRunParamsForForwarding } from "./node-invoke-system-run-approval.js";
 import type { GatewayClient } from "./server-methods/types.js";
 
@@ -19,5 +21,14 @@ export function sanitizeNodeInvokeParamsForForwarding(opts: {
       execApprovalManager: opts.execApprovalManager,
     });
   }
+  if ((NODE_FS_COMMANDS as readonly string[]).includes(opts.command)) {
+    return sanitizeFsParamsForForwarding({
+      nodeId: opts.nodeId,
+      command: opts.command,
+      rawParams: opts.rawParams,
+      client: opts.client,
+      execApprovalManager: opts.execApprovalManager,
+    });
+  }
   return { ok: true, params: opts.rawParams };
 }
@@ -1,10 +1,12 @@
 import { resolveSystemRunApprovalRuntimeContext } from "../infra/system-run-approval-context.js";
 import { resolveSystemRunCommand } from "../infra/system-run-command.js";
-import type { ExecApprovalRecord } from "./exec-approval-manager.js";
 import {
-  systemRunApprovalGuardError,
-  systemRunApprovalRequired,
-} from "./node-invoke-system-run-approval-errors.js";
+  normalizeApprovalDecision,
+  resolveNodeInvokeApprovalRecord,
+  type ApprovalClient,
+  type ApprovalLookup,
+} from "./node-invoke-approval-record.js";
+import { systemRunApprovalRequired } from "./node-invoke-system-run-approval-errors.js";
 import {
   evaluateSystemRunApprovalMatch,
   toSystemRunApprovalMismatchError,
@@ -24,19 +26,6 @@ type SystemRunParamsLike = {
   runId?: unknown;
 };
 
-type ApprovalLookup = {
-  getSnapshot: (recordId: string) => ExecApprovalRecord | null;
-  consumeAllowOnce?: (recordId: string) => boolean;
-};
-
-type ApprovalClient = {
-  connId?: string | null;
-  connect?: {
-    scopes?: unknown;
-    device?: { id?: string | null } | null;
-  } | null;
-};
-
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) {
     return null;
@@ -44,19 +33,6 @@ function asRecord(value: unknown): Record<string, unknown> | null {
   return value as Record<string, unknown>;
 }
 
-function normalizeString(value: unknown): string | null {
-  if (typeof value !== "string") {
-    return null;
-  }
-  const trimmed = value.trim();
-  return trimmed ? trimmed : null;
-}
-
-function normalizeApprovalDecision(value: unknown): "allow-once" | "allow-always" | null {
-  const s = normalizeString(value);
-  return s === "allow-once" || s === "allow-always" ? s : null;
-}
-
 function clientHasApprovals(client: ApprovalClient | null): boolean {
   const scopes = Array.isArray(client?.connect?.scopes) ? client?.connect?.scopes : [];
   return scopes.includes("operator.admin") || scopes.includes("operator.approvals");
@@ -127,86 +103,17 @@ export function sanitizeSystemRunParamsForForwarding(opts: {
     return { ok: true, params: next };
   }
 
-  const runId = normalizeString(p.runId);
-  if (!runId) {
-    return systemRunApprovalGuardError({
-      code: "MISSING_RUN_ID",
-      message: "approval override requires params.runId",
-    });
-  }
-
-  const manager = opts.execApprovalManager;
-  if (!manager) {
-    return systemRunApprovalGuardError({
-      code: "APPROVALS_UNAVAILABLE",
-      message: "exec approvals unavailable",
-    });
-  }
-
-  const snapshot = manager.getSnapshot(runId);
-  if (!snapshot) {
-    return systemRunApprovalGuardError({
-      code: "UNKNOWN_APPROVAL_ID",
-      message: "unknown or expired approval id",
-      details: { runId },
-    });
-  }
-
-  const nowMs = typeof opts.nowMs === "number" ? opts.nowMs : Date.now();
-  if (nowMs > snapshot.expiresAtMs) {
-    return systemRunApprovalGuardError({
-      code: "APPROVAL_EXPIRED",
-      message: "approval expired",
-      details: { runId },
-    });
-  }
-
-  const targetNodeId = normalizeString(opts.nodeId);
-  if (!targetNodeId) {
-    return systemRunApprovalGuardError({
-      code: "MISSING_NODE_ID",
-      message: "node.invoke requires nodeId",
-      details: { runId },
-    });
-  }
-  const approvalNodeId = normalizeString(snapshot.request.nodeId);
-  if (!approvalNodeId) {
-    return systemRunApprovalGuardError({
-      code: "APPROVAL_NODE_BINDING_MISSING",
-      message: "approval id missing node binding",
-      details: { runId },
-    });
-  }
-  if (approvalNodeId !== targetNodeId) {
-    return systemRunApprovalGuardError({
-      code: "APPROVAL_NODE_MISMATCH",
-      message: "approval id not valid for this node",
-      details: { runId },
-    });
-  }
-
-  // Prefer binding by device identity (stable across reconnects / per-call clients like callGateway()).
-  // Fallback to connId only when device identity is not available.
-  const snapshotDeviceId = snapshot.requestedByDeviceId ?? null;
-  const clientDeviceId = opts.client?.connect?.device?.id ?? null;
-  if (snapshotDeviceId) {
-    if (snapshotDeviceId !== clientDeviceId) {
-      return systemRunApprovalGuardError({
-        code: "APPROVAL_DEVICE_MISMATCH",
-        message: "approval id not valid for this device",
-        details: { runId },
-      });
-    }
-  } else if (
-    snapshot.requestedByConnId &&
-    snapshot.requestedByConnId !== (opts.client?.connId ?? null)
-  ) {
-    return systemRunApprovalGuardError({
-      code: "APPROVAL_CLIENT_MISMATCH",
-      message: "approval id not valid for this client",
-      details: { runId },
-    });
+  const approvalRecord = resolveNodeInvokeApprovalRecord({
+    runId: p.runId,
+    nodeId: opts.nodeId,
+    client: opts.client,
+    execApprovalManager: opts.execApprovalManager,
+    nowMs: opts.nowMs,
+  });
+  if (!approvalRecord.ok) {
+    return approvalRecord;
   }
+  const { runId, snapshot, manager } = approvalRecord;
 
   const runtimeContext = resolveSystemRunApprovalRuntimeContext({
     planV2: snapshot.request.systemRunPlanV2 ?? null,
@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getFreePort, installGatewayTestHooks, testState } from "./test-helpers.js";
+
+const embeddingMocks = vi.hoisted(() => ({
+  createEmbeddingProvider: vi.fn(),
+  embedBatch: vi.fn(async (texts: string[]) => texts.map((_, index) => [index, 0.5])),
+}));
+
+vi.mock("../memory/embeddings.js", () => ({
+  createEmbeddingProvider: embeddingMocks.createEmbeddingProvider,
+}));
+
+installGatewayTestHooks({ scope: "suite" });
+
+let startGatewayServer: typeof import("./server.js").startGatewayServer;
+let server: Awaited<ReturnType<typeof startGatewayServer>>;
+let port: number;
+
+beforeAll(async () => {
+  ({ startGatewayServer } = await import("./server.js"));
+  embeddingMocks.createEmbeddingProvider.mockResolvedValue({
+    requestedProvider: "openai",
+    provider: {
+      id: "openai",
+      model: "text-embedding-3-small",
+      embedQuery: vi.fn(),
+      embedBatch: embeddingMocks.embedBatch,
+    },
+  });
+  port = await getFreePort();
+  server = await startGatewayServer(port, {
+    host: "127.0.0.1",
+    auth: { mode: "token", token: "secret" },
+    controlUiEnabled: false,
+    openAiEmbeddingsEnabled: true,
+  });
+});
+
+afterAll(async () => {
+  await server.close({ reason: "openai embeddings suite done" });
+});
+
+async function postEmbeddings(body: unknown) {
+  return await fetch(`http://127.0.0.1:${port}/v1/embeddings`, {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: "Bearer secret" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("OpenAI-compatible /v1/embeddings (e2e)", () => {
+  it("embeds string and array inputs with the memory provider", async () => {
+    const res = await postEmbeddings({ input: ["alpha", "beta"], model: "openclaw:main" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      object: "list",
+      data: [
+        { object: "embedding", index: 0, embedding: [0, 0.5] },
+        { object: "embedding", index: 1, embedding: [1, 0.5] },
+      ],
+      model: "openai/text-embedding-3-small",
+      usage: { prompt_tokens: 0, total_tokens: 0 },
+    });
+    expect(embeddingMocks.embedBatch).toHaveBeenLastCalledWith(["alpha", "beta"]);
+
+    const base64 = await postEmbeddings({ input: "alpha", encoding_format: "base64" });
+    const json = (await base64.json()) as { data: Array<{ embedding: string }> };
+    const bytes = Buffer.from(json.data[0]?.embedding ?? "", "base64");
+    expect(Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, 2))).toEqual([0, 0.5]);
+    // The provider is created once and reused while memory search settings are unchanged.
+    expect(embeddingMocks.createEmbeddingProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects token inputs and unknown encodings", async () => {
+    const tokens = await postEmbeddings({ input: [[1, 2, 3]] });
+    expect(tokens.status).toBe(400);
+    expect(((await tokens.json()) as { error: { message: string } }).error.message).toContain(
+      "token arrays are not supported",
+    );
+
+    const encoding = await postEmbeddings({ input: "x", encoding_format: "int8" });
+    expect(encoding.status).toBe(400);
+    await encoding.text();
+  });
+
+  it("returns 503 when memory search is disabled for the agent", async () => {
+    testState.agentConfig = { memorySearch: { enabled: false } };
+    const res = await postEmbeddings({ input: "x" });
+    expect(res.status).toBe(503);
+    expect(((await res.json()) as { error: { message: string } }).error.message).toContain(
+      'Memory search is disabled for agent "main"',
+    );
+  });
+});
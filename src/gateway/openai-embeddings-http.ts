@@ -0,0 +1,166 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { resolveAgentDir } from "../agents/agent-scope.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { loadConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderResult,
+} from "../memory/embeddings.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { sendJson } from "./http-common.js";
+import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
+import { resolveAgentIdForRequest } from "./http-utils.js";
+
+type OpenAiEmbeddingsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  maxBodyBytes?: number;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+type OpenAiEmbeddingsRequest = {
+  input?: unknown;
+  model?: unknown;
+  encoding_format?: unknown;
+};
+
+const MAX_EMBEDDING_INPUTS = 2048;
+
+// Keyed by agent + memory search settings so config edits pick up a fresh provider.
+const PROVIDER_CACHE = new Map<string, Promise<EmbeddingProviderResult>>();
+
+function sendInvalidEmbeddingsRequest(res: ServerResponse, message: string) {
+  sendJson(res, 400, { error: { message, type: "invalid_request_error" } });
+}
+
+function coerceRequest(val: unknown): OpenAiEmbeddingsRequest {
+  if (!val || typeof val !== "object") {
+    return {};
+  }
+  return val as OpenAiEmbeddingsRequest;
+}
+
+function normalizeInput(input: unknown): string[] | string {
+  if (typeof input === "string") {
+    return [input];
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    return "`input` must be a string or a non-empty array of strings";
+  }
+  if (!input.every((item) => typeof item === "string")) {
+    // Pre-tokenized input is tied to OpenAI's tokenizer; memory providers only take text.
+    return "`input` must contain strings; token arrays are not supported";
+  }
+  if (input.length > MAX_EMBEDDING_INPUTS) {
+    return `\`input\` supports at most ${MAX_EMBEDDING_INPUTS} items`;
+  }
+  return input;
+}
+
+function encodeBase64(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+async function resolveEmbeddingProvider(agentId: string): Promise<EmbeddingProviderResult | null> {
+  const cfg = loadConfig();
+  const settings = resolveMemorySearchConfig(cfg, agentId);
+  if (!settings) {
+    return null;
+  }
+  const key = `${agentId}:${JSON.stringify(settings)}`;
+  const cached = PROVIDER_CACHE.get(key);
+  if (cached) {
+    return await cached;
+  }
+  const pending = createEmbeddingProvider({
+    config: cfg,
+    agentDir: resolveAgentDir(cfg, agentId),
+    provider: settings.provider,
+    remote: settings.remote,
+    model: settings.model,
+    fallback: settings.fallback,
+    local: settings.local,
+  });
+  PROVIDER_CACHE.set(key, pending);
+  try {
+    return await pending;
+  } catch (err) {
+    PROVIDER_CACHE.delete(key);
+    throw err;
+  }
+}
+
+export async function handleOpenAiEmbeddingsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiEmbeddingsHttpOptions,
+): Promise<boolean> {
+  const handled = await handleGatewayPostJsonEndpoint(req, res, {
+    pathname: "/v1/embeddings",
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+    maxBodyBytes: opts.maxBodyBytes ?? 4 * 1024 * 1024,
+  });
+  if (handled === false) {
+    return false;
+  }
+  if (!handled) {
+    return true;
+  }
+
+  const payload = coerceRequest(handled.body);
+  const inputs = normalizeInput(payload.input);
+  if (typeof inputs === "string") {
+    sendInvalidEmbeddingsRequest(res, inputs);
+    return true;
+  }
+  const encodingFormat = payload.encoding_format ?? "float";
+  if (encodingFormat !== "float" && encodingFormat !== "base64") {
+    sendInvalidEmbeddingsRequest(res, "`encoding_format` must be `float` or `base64`");
+    return true;
+  }
+  const model = typeof payload.model === "string" ? payload.model : undefined;
+  const agentId = resolveAgentIdForRequest({ req, model });
+
+  let provider: EmbeddingProvider;
+  let embeddings: number[][];
+  try {
+    const providerResult = await resolveEmbeddingProvider(agentId);
+    if (!providerResult?.provider) {
+      sendJson(res, 503, {
+        error: {
+          message: providerResult
+            ? `No embedding provider available for agent "${agentId}": ${providerResult.providerUnavailableReason ?? "not configured"}`
+            : `Memory search is disabled for agent "${agentId}"`,
+          type: "api_error",
+        },
+      });
+      return true;
+    }
+    provider = providerResult.provider;
+    embeddings = await provider.embedBatch(inputs);
+  } catch (err) {
+    logWarn(`openai-compat: embeddings request failed: ${String(err)}`);
+    sendJson(res, 502, { error: { message: "embedding provider error", type: "api_error" } });
+    return true;
+  }
+
+  sendJson(res, 200, {
+    object: "list",
+    data: embeddings.map((embedding, index) => ({
+      object: "embedding",
+      index,
+      embedding: encodingFormat === "base64" ? encodeBase64(embedding) : embedding,
+    })),
+    model: `${provider.id}/${provider.model}`,
+    // Memory embedding providers do not report token usage.
+    usage: { prompt_tokens: 0, total_tokens: 0 },
+  });
+  return true;
+}
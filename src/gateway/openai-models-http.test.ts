@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  getFreePort,
+  installGatewayTestHooks,
+  piSdkMock,
+  startGatewayServer,
+  testState,
+} from "./test-helpers.js";
+
+installGatewayTestHooks({ scope: "suite" });
+
+let server: Awaited<ReturnType<typeof startGatewayServer>>;
+let port: number;
+
+beforeAll(async () => {
+  port = await getFreePort();
+  server = await startGatewayServer(port, {
+    host: "127.0.0.1",
+    auth: { mode: "token", token: "secret" },
+    controlUiEnabled: false,
+    openAiChatCompletionsEnabled: true,
+  });
+});
+
+// The suite hooks reset config and catalog state before every test.
+beforeEach(() => {
+  testState.agentsConfig = { list: [{ id: "main", default: true }, { id: "ops" }] };
+  testState.agentConfig = { models: { "openai/gpt-test-a": { alias: "fast" } } };
+  piSdkMock.enabled = true;
+  piSdkMock.models = [
+    { id: "gpt-test-a", name: "A", provider: "openai" },
+    { id: "claude-test-b", name: "B", provider: "anthropic" },
+  ];
+});
+
+afterAll(async () => {
+  await server.close({ reason: "openai models suite done" });
+});
+
+async function getModels(path: string, headers: Record<string, string> = {}) {
+  return await fetch(`http://127.0.0.1:${port}${path}`, {
+    headers: { authorization: "Bearer secret", ...headers },
+  });
+}
+
+describe("OpenAI-compatible /v1/models (e2e)", () => {
+  it("lists agents, allowlisted catalog models and aliases", async () => {
+    const res = await getModels("/v1/models");
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as { object: string; data: Array<Record<string, unknown>> };
+    expect(json.object).toBe("list");
+    expect(json.data.map((model) => model.id)).toEqual([
+      "openclaw",
+      "openclaw:main",
+      "openclaw:ops",
+      "openai/gpt-test-a",
+      "fast",
+    ]);
+    expect(json.data[3]).toEqual({
+      id: "openai/gpt-test-a",
+      object: "model",
+      created: 0,
+      owned_by: "openai",
+    });
+  });
+
+  it("retrieves a single model and 404s unknown ids", async () => {
+    const found = await getModels("/v1/models/openai/gpt-test-a");
+    expect(found.status).toBe(200);
+    expect(((await found.json()) as { id: string }).id).toBe("openai/gpt-test-a");
+
+    const missing = await getModels("/v1/models/nope");
+    expect(missing.status).toBe(404);
+    expect(((await missing.json()) as { error: { code: string } }).error.code).toBe(
+      "model_not_found",
+    );
+  });
+
+  it("requires auth and GET", async () => {
+    const unauthorized = await getModels("/v1/models", { authorization: "Bearer wrong" });
+    expect(unauthorized.status).toBe(401);
+    await unauthorized.text();
+
+    const post = await fetch(`http://127.0.0.1:${port}/v1/models`, {
+      method: "POST",
+      headers: { authorization: "Bearer secret" },
+    });
+    expect(post.status).toBe(405);
+    expect(post.headers.get("allow")).toBe("GET");
+    await post.text();
+  });
+});
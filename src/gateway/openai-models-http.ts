@@ -0,0 +1,124 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { listAgentIds, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { DEFAULT_PROVIDER } from "../agents/defaults.js";
+import { buildAllowedModelSet, buildModelAliasIndex } from "../agents/model-selection.js";
+import { loadConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import { sendJson, sendMethodNotAllowed } from "./http-common.js";
+import { loadGatewayModelCatalog } from "./server-model-catalog.js";
+
+type OpenAiModelsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  trustedProxies?: string[];
+  allowRealIpFallback?: boolean;
+  rateLimiter?: AuthRateLimiter;
+};
+
+type OpenAiModelObject = {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+};
+
+const MODELS_PATH = "/v1/models";
+
+function toModelObject(id: string, ownedBy: string): OpenAiModelObject {
+  // The catalog has no creation dates; 0 keeps responses stable for clients that cache them.
+  return { id, object: "model", created: 0, owned_by: ownedBy };
+}
+
+/**
+ * Agents come first (`openclaw`, `openclaw:<agentId>`) because that is what the `model`
+ * field of `/v1/chat/completions` and `/v1/responses` selects; catalog models and
+ * configured aliases follow for clients that only want to browse.
+ */
+export async function listOpenAiModels(): Promise<OpenAiModelObject[]> {
+  const cfg = loadConfig();
+  const models = new Map<string, OpenAiModelObject>();
+  const add = (model: OpenAiModelObject) => {
+    if (!models.has(model.id)) {
+      models.set(model.id, model);
+    }
+  };
+
+  add(toModelObject("openclaw", "openclaw"));
+  const agentIds = [resolveDefaultAgentId(cfg), ...listAgentIds(cfg)];
+  for (const agentId of agentIds) {
+    add(toModelObject(`openclaw:${agentId}`, "openclaw"));
+  }
+
+  const catalog = await loadGatewayModelCatalog();
+  const { allowedCatalog } = buildAllowedModelSet({
+    cfg,
+    catalog,
+    defaultProvider: DEFAULT_PROVIDER,
+  });
+  for (const entry of allowedCatalog.length > 0 ? allowedCatalog : catalog) {
+    add(toModelObject(`${entry.provider}/${entry.id}`, entry.provider));
+  }
+  const aliases = buildModelAliasIndex({ cfg, defaultProvider: DEFAULT_PROVIDER });
+  for (const { alias, ref } of aliases.byAlias.values()) {
+    add(toModelObject(alias, ref.provider));
+  }
+  return [...models.values()];
+}
+
+export async function handleOpenAiModelsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiModelsHttpOptions,
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
+  const isList = url.pathname === MODELS_PATH;
+  if (!isList && !url.pathname.startsWith(`${MODELS_PATH}/`)) {
+    return false;
+  }
+  if (req.method !== "GET") {
+    sendMethodNotAllowed(res, "GET");
+    return true;
+  }
+  const authorized = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authorized) {
+    return true;
+  }
+
+  let models: OpenAiModelObject[];
+  try {
+    models = await listOpenAiModels();
+  } catch (err) {
+    logWarn(`openai-compat: model listing failed: ${String(err)}`);
+    sendJson(res, 500, { error: { message: "internal error", type: "api_error" } });
+    return true;
+  }
+  if (isList) {
+    sendJson(res, 200, { object: "list", data: models });
+    return true;
+  }
+
+  // Model ids contain "/" (provider/model), so everything after the prefix is the id.
+  const id = decodeURIComponent(url.pathname.slice(MODELS_PATH.length + 1));
+  const model = models.find((entry) => entry.id === id);
+  if (!model) {
+    sendJson(res, 404, {
+      error: {
+        message: `The model '${id}' does not exist`,
+        type: "invalid_request_error",
+        code: "model_not_found",
+      },
+    });
+    return true;
+  }
+  sendJson(res, 200, model);
+  return true;
+}
@@ -76,6 +76,8 @@ import {
   ConnectParamsSchema,
   type CronAddParams,
   CronAddParamsSchema,
+  type CronDeadLetterParams,
+  CronDeadLetterParamsSchema,
   type CronJob,
   CronJobSchema,
   type CronListParams,
@@ -172,6 +174,10 @@ import {
   SessionsCompactParamsSchema,
   type SessionsDeleteParams,
   SessionsDeleteParamsSchema,
+  type SessionsForkParams,
+  SessionsForkParamsSchema,
+  type SessionsForksParams,
+  SessionsForksParamsSchema,
   type SessionsListParams,
   SessionsListParamsSchema,
   type SessionsPatchParams,
@@ -182,6 +188,8 @@ import {
   SessionsResetParamsSchema,
   type SessionsResolveParams,
   SessionsResolveParamsSchema,
+  type SessionsSwitchParams,
+  SessionsSwitchParamsSchema,
   type SessionsUsageParams,
   SessionsUsageParamsSchema,
   type ShutdownEvent,
@@ -301,6 +309,12 @@ export const validateSessionsDeleteParams = ajv.compile<SessionsDeleteParams>(
 export const validateSessionsCompactParams = ajv.compile<SessionsCompactParams>(
   SessionsCompactParamsSchema,
 );
+export const validateSessionsForkParams = ajv.compile<SessionsForkParams>(SessionsForkParamsSchema);
+export const validateSessionsForksParams =
+  ajv.compile<SessionsForksParams>(SessionsForksParamsSchema);
+export const validateSessionsSwitchParams = ajv.compile<SessionsSwitchParams>(
+  SessionsSwitchParamsSchema,
+);
 export const validateSessionsUsageParams =
   ajv.compile<SessionsUsageParams>(SessionsUsageParamsSchema);
 export const validateConfigGetParams = ajv.compile<ConfigGetParams>(ConfigGetParamsSchema);
@@ -334,6 +348,9 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateCronDeadLetterParams = ajv.compile<CronDeadLetterParams>(
+  CronDeadLetterParamsSchema,
+);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -451,6 +468,9 @@ export {
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
+  SessionsForksParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsUsageParamsSchema,
   ConfigGetParamsSchema,
   ConfigSetParamsSchema,
@@ -502,6 +522,7 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronDeadLetterParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -600,6 +621,9 @@ export type {
   SessionsResetParams,
   SessionsDeleteParams,
   SessionsCompactParams,
+  SessionsForkParams,
+  SessionsForksParams,
+  SessionsSwitchParams,
   SessionsUsageParams,
   CronJob,
   CronListParams,
@@ -609,6 +633,7 @@ export type {
   CronRemoveParams,
   CronRunParams,
   CronRunsParams,
+  CronDeadLetterParams,
   CronRunLogEntry,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
@@ -50,6 +50,8 @@ export const PollParamsSchema = Type.Object(
     threadId: Type.Optional(Type.String()),
     channel: Type.Optional(Type.String()),
     accountId: Type.Optional(Type.String()),
+    /** Optional session key that receives the poll-closed system event. */
+    sessionKey: Type.Optional(Type.String()),
     idempotencyKey: NonEmptyString,
   },
   { additionalProperties: false },
@@ -212,6 +212,7 @@ export const ToolsCatalogParamsSchema = Type.Object(
   {
     agentId: Type.Optional(NonEmptyString),
     includePlugins: Type.Optional(Type.Boolean()),
+    includeMcp: Type.Optional(Type.Boolean()),
   },
   { additionalProperties: false },
 );
@@ -234,8 +235,9 @@ export const ToolCatalogEntrySchema = Type.Object(
     id: NonEmptyString,
     label: NonEmptyString,
     description: Type.String(),
-    source: Type.Union([Type.Literal("core"), Type.Literal("plugin")]),
+    source: Type.Union([Type.Literal("core"), Type.Literal("plugin"), Type.Literal("mcp")]),
     pluginId: Type.Optional(NonEmptyString),
+    mcpServer: Type.Optional(NonEmptyString),
     optional: Type.Optional(Type.Boolean()),
     defaultProfiles: Type.Array(
       Type.Union([
@@ -253,8 +255,9 @@ export const ToolCatalogGroupSchema = Type.Object(
   {
     id: NonEmptyString,
     label: NonEmptyString,
-    source: Type.Union([Type.Literal("core"), Type.Literal("plugin")]),
+    source: Type.Union([Type.Literal("core"), Type.Literal("plugin"), Type.Literal("mcp")]),
     pluginId: Type.Optional(NonEmptyString),
+    mcpServer: Type.Optional(NonEmptyString),
     tools: Type.Array(ToolCatalogEntrySchema),
   },
   { additionalProperties: false },
@@ -26,6 +26,13 @@ const CronRunStatusSchema = Type.Union([
   Type.Literal("error"),
   Type.Literal("skipped"),
 ]);
+const CronErrorKindSchema = Type.Union([
+  Type.Literal("delivery-target"),
+  Type.Literal("timeout"),
+  Type.Literal("rate-limit"),
+  Type.Literal("auth"),
+  Type.Literal("unknown"),
+]);
 const CronSortDirSchema = Type.Union([Type.Literal("asc"), Type.Literal("desc")]);
 const CronJobsEnabledFilterSchema = Type.Union([
   Type.Literal("all"),
@@ -100,6 +107,7 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("every"),
       everyMs: Type.Integer({ minimum: 1 }),
       anchorMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      exclude: Type.Optional(Type.Array(NonEmptyString)),
     },
     { additionalProperties: false },
   ),
@@ -109,6 +117,15 @@ export const CronScheduleSchema = Type.Union([
       expr: NonEmptyString,
       tz: Type.Optional(Type.String()),
       staggerMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      exclude: Type.Optional(Type.Array(NonEmptyString)),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      on: Type.Optional(Type.Array(CronRunStatusSchema, { minItems: 1, maxItems: 3 })),
     },
     { additionalProperties: false },
   ),
@@ -186,6 +203,48 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const CronRetryPolicySchema = Type.Object(
+  {
+    maxAttempts: Type.Optional(Type.Integer({ minimum: 1, maximum: 10 })),
+    backoffMs: Type.Optional(
+      Type.Array(Type.Integer({ minimum: 0 }), { minItems: 1, maxItems: 10 }),
+    ),
+    retryOn: Type.Optional(Type.Array(CronErrorKindSchema, { minItems: 1, maxItems: 5 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronFailureDeliverySchema = Type.Union([
+  Type.Object(
+    {
+      mode: Type.Literal("announce"),
+      channel: Type.Optional(Type.Union([Type.Literal("last"), NonEmptyString])),
+      to: Type.Optional(Type.String()),
+      accountId: Type.Optional(NonEmptyString),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      mode: Type.Literal("webhook"),
+      to: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+]);
+
+const CronJobTriggerSchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    jobName: Type.Optional(Type.String()),
+    status: CronRunStatusSchema,
+    summary: Type.Optional(Type.String()),
+    runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    triggeredAtMs: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -196,9 +255,14 @@ export const CronJobStateSchema = Type.Object(
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    lastErrorKind: Type.Optional(CronErrorKindSchema),
+    lastAttempt: Type.Optional(Type.Integer({ minimum: 1 })),
+    retryAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     lastDelivered: Type.Optional(Type.Boolean()),
     lastDeliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     lastDeliveryError: Type.Optional(Type.String()),
+    pendingTrigger: Type.Optional(CronJobTriggerSchema),
+    lastTrigger: Type.Optional(CronJobTriggerSchema),
   },
   { additionalProperties: false },
 );
@@ -219,6 +283,8 @@ export const CronJobSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
+    failureDelivery: Type.Optional(CronFailureDeliverySchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -248,6 +314,8 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
+    failureDelivery: Type.Optional(CronFailureDeliverySchema),
   },
   { additionalProperties: false },
 );
@@ -261,6 +329,8 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(CronWakeModeSchema),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    retry: Type.Optional(Type.Union([CronRetryPolicySchema, Type.Null()])),
+    failureDelivery: Type.Optional(Type.Union([CronFailureDeliverySchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -295,6 +365,19 @@ export const CronRunsParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const CronDeadLetterParamsSchema = Type.Object(
+  {
+    scope: Type.Optional(Type.Union([Type.Literal("job"), Type.Literal("all")])),
+    id: Type.Optional(CronRunLogJobIdSchema),
+    jobId: Type.Optional(CronRunLogJobIdSchema),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+    offset: Type.Optional(Type.Integer({ minimum: 0 })),
+    query: Type.Optional(Type.String()),
+    sortDir: Type.Optional(CronSortDirSchema),
+  },
+  { additionalProperties: false },
+);
+
 export const CronRunLogEntrySchema = Type.Object(
   {
     ts: Type.Integer({ minimum: 0 }),
@@ -311,6 +394,11 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    triggeredBy: Type.Optional(NonEmptyString),
+    errorKind: Type.Optional(CronErrorKindSchema),
+    attempt: Type.Optional(Type.Integer({ minimum: 1 })),
+    retryAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    deadLettered: Type.Optional(Type.Boolean()),
     model: Type.Optional(Type.String()),
     provider: Type.Optional(Type.String()),
     usage: Type.Optional(
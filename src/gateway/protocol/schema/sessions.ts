@@ -47,6 +47,22 @@ export const SessionsResolveParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionMcpServerSchema = Type.Object(
+  {
+    enabled: Type.Optional(Type.Boolean()),
+    transport: Type.Optional(Type.Union([Type.Literal("stdio"), Type.Literal("http")])),
+    command: Type.Optional(NonEmptyString),
+    args: Type.Optional(Type.Array(Type.String())),
+    env: Type.Optional(Type.Record(Type.String(), Type.String())),
+    cwd: Type.Optional(NonEmptyString),
+    url: Type.Optional(NonEmptyString),
+    headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+    timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
+    connectTimeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsPatchParamsSchema = Type.Object(
   {
     key: NonEmptyString,
@@ -72,12 +88,16 @@ export const SessionsPatchParamsSchema = Type.Object(
     model: Type.Optional(Type.Union([NonEmptyString, Type.Null()])),
     spawnedBy: Type.Optional(Type.Union([NonEmptyString, Type.Null()])),
     spawnDepth: Type.Optional(Type.Union([Type.Integer({ minimum: 0 }), Type.Null()])),
+    subagentRole: Type.Optional(Type.Union([NonEmptyString, Type.Null()])),
     sendPolicy: Type.Optional(
       Type.Union([Type.Literal("allow"), Type.Literal("deny"), Type.Null()]),
     ),
     groupActivation: Type.Optional(
       Type.Union([Type.Literal("mention"), Type.Literal("always"), Type.Null()]),
     ),
+    mcpServers: Type.Optional(
+      Type.Union([Type.Record(NonEmptyString, SessionMcpServerSchema), Type.Null()]),
+    ),
   },
   { additionalProperties: false },
 );
@@ -108,6 +128,36 @@ export const SessionsCompactParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsForkParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** 1-based user turn to fork after; defaults to the latest turn. */
+    turn: Type.Optional(Type.Integer({ minimum: 1 })),
+    label: Type.Optional(NonEmptyString),
+    /** Route the original session's messages to the new fork. */
+    switch: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsForksParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Also return the user turns of `key` that a fork can start from. */
+    includeTurns: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsSwitchParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Fork key, fork id, fork label, or "main" for the original session. */
+    target: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsUsageParamsSchema = Type.Object(
   {
     /** Specific session key to analyze; if omitted returns all sessions. */
@@ -1,6 +1,8 @@
 import { describe, expect, test } from "vitest";
 import {
+  authorizeCustomRolesForMethod,
   isRoleAuthorizedForMethod,
+  matchesGatewayMethodPattern,
   parseGatewayRole,
   roleCanSkipDeviceIdentity,
 } from "./role-policy.js";
@@ -25,4 +27,41 @@ describe("gateway role policy", () => {
     expect(isRoleAuthorizedForMethod("operator", "status")).toBe(true);
     expect(isRoleAuthorizedForMethod("operator", "node.event")).toBe(false);
   });
+
+  test("matches exact, prefix-wildcard and catch-all method patterns", () => {
+    expect(matchesGatewayMethodPattern("cron.*", "cron.list")).toBe(true);
+    expect(matchesGatewayMethodPattern("cron.*", "cronjob.list")).toBe(false);
+    expect(matchesGatewayMethodPattern("sessions.list", "sessions.list")).toBe(true);
+    expect(matchesGatewayMethodPattern("sessions.list", "sessions.delete")).toBe(false);
+    expect(matchesGatewayMethodPattern("*", "config.apply")).toBe(true);
+  });
+
+  test("authorizes custom role scopes with deny taking precedence", () => {
+    const roles = {
+      cron: { allow: ["cron.*"], deny: ["cron.remove"] },
+      reader: { allow: ["sessions.list", "usage.*"] },
+    };
+    expect(
+      authorizeCustomRolesForMethod({ method: "cron.add", scopes: ["role:cron"], roles }),
+    ).toEqual({ allowed: true, roleNames: ["cron"] });
+    expect(
+      authorizeCustomRolesForMethod({ method: "cron.remove", scopes: ["role:cron"], roles })
+        .allowed,
+    ).toBe(false);
+    expect(
+      authorizeCustomRolesForMethod({
+        method: "usage.cost",
+        scopes: ["role:cron", "role:reader"],
+        roles,
+      }).allowed,
+    ).toBe(true);
+    // Unknown roles and built-in scopes grant nothing here.
+    expect(
+      authorizeCustomRolesForMethod({
+        method: "cron.add",
+        scopes: ["role:gone", "operator.read"],
+        roles,
+      }),
+    ).toEqual({ allowed: false, roleNames: ["gone"] });
+  });
 });
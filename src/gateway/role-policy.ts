@@ -21,3 +21,66 @@ export function isRoleAuthorizedForMethod(role: GatewayRole, method: string): bo
   }
   return role === "operator";
 }
+
+/** Scopes of the form `role:<name>` grant the methods of a config-defined `gateway.roles` entry. */
+export const CUSTOM_ROLE_SCOPE_PREFIX = "role:";
+
+export type GatewayCustomRolePolicy = {
+  allow?: readonly string[];
+  deny?: readonly string[];
+};
+
+export function formatCustomRoleScope(roleName: string): string {
+  return `${CUSTOM_ROLE_SCOPE_PREFIX}${roleName}`;
+}
+
+export function listCustomRoleNames(scopes: readonly string[]): string[] {
+  return scopes
+    .filter((scope) => scope.startsWith(CUSTOM_ROLE_SCOPE_PREFIX))
+    .map((scope) => scope.slice(CUSTOM_ROLE_SCOPE_PREFIX.length).trim())
+    .filter(Boolean);
+}
+
+/** Match a method against `*`, a `prefix.*` wildcard, or an exact method name. */
+export function matchesGatewayMethodPattern(pattern: string, method: string): boolean {
+  const normalized = pattern.trim();
+  if (normalized === "*") {
+    return true;
+  }
+  if (normalized.endsWith(".*")) {
+    const prefix = normalized.slice(0, -1);
+    return method.startsWith(prefix);
+  }
+  return normalized === method;
+}
+
+export function isCustomRoleAuthorizedForMethod(
+  policy: GatewayCustomRolePolicy | undefined,
+  method: string,
+): boolean {
+  if (!policy) {
+    return false;
+  }
+  const matches = (patterns: readonly string[] | undefined) =>
+    (patterns ?? []).some((pattern) => matchesGatewayMethodPattern(pattern, method));
+  return matches(policy.allow) && !matches(policy.deny);
+}
+
+/**
+ * Custom roles only add access on top of built-in operator scopes; unknown role names grant
+ * nothing so a token outliving its role definition fails closed.
+ */
+export function authorizeCustomRolesForMethod(params: {
+  method: string;
+  scopes: readonly string[];
+  roles: Record<string, GatewayCustomRolePolicy> | undefined;
+}): { allowed: boolean; roleNames: string[] } {
+  const roleNames = listCustomRoleNames(params.scopes);
+  const allowed = roleNames.some((name) =>
+    isCustomRoleAuthorizedForMethod(
+      Object.hasOwn(params.roles ?? {}, name) ? params.roles?.[name] : undefined,
+      params.method,
+    ),
+  );
+  return { allowed, roleNames };
+}
@@ -8,12 +8,13 @@ import {
 } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
+import { deliverCronFailureNotice } from "../cron/isolated-agent/failure-delivery.js";
 import {
   appendCronRunLog,
   resolveCronRunLogPath,
   resolveCronRunLogPruneOptions,
 } from "../cron/run-log.js";
-import { CronService } from "../cron/service.js";
+import { CronService, type CronEvent } from "../cron/service.js";
 import { resolveCronStorePath } from "../cron/store.js";
 import { normalizeHttpWebhookUrl } from "../cron/webhook-url.js";
 import { formatErrorMessage } from "../infra/errors.js";
@@ -156,6 +157,57 @@ export function buildGatewayCronService(params: {
   const sessionStorePath = resolveSessionStorePath(defaultAgentId);
   const warnedLegacyWebhookJobs = new Set<string>();
 
+  const postCronWebhook = (url: string, evt: CronEvent, purpose: "delivery" | "failure") => {
+    const webhookToken = params.cfg.cron?.webhookToken?.trim();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (webhookToken) {
+      headers.Authorization = `Bearer ${webhookToken}`;
+    }
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, CRON_WEBHOOK_TIMEOUT_MS);
+
+    void (async () => {
+      try {
+        const result = await fetchWithSsrFGuard({
+          url,
+          init: {
+            method: "POST",
+            headers,
+            body: JSON.stringify(evt),
+            signal: abortController.signal,
+          },
+        });
+        await result.release();
+      } catch (err) {
+        if (err instanceof SsrFBlockedError) {
+          cronLogger.warn(
+            {
+              reason: formatErrorMessage(err),
+              jobId: evt.jobId,
+              webhookUrl: redactWebhookUrl(url),
+            },
+            `cron: webhook ${purpose} blocked by SSRF guard`,
+          );
+        } else {
+          cronLogger.warn(
+            {
+              err: formatErrorMessage(err),
+              jobId: evt.jobId,
+              webhookUrl: redactWebhookUrl(url),
+            },
+            `cron: webhook ${purpose} failed`,
+          );
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    })();
+  };
+
   const cron = new CronService({
     storePath,
     cronEnabled,
@@ -207,7 +259,6 @@ export function buildGatewayCronService(params: {
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
       if (evt.action === "finished") {
-        const webhookToken = params.cfg.cron?.webhookToken?.trim();
         const legacyWebhook = params.cfg.cron?.webhook?.trim();
         const job = cron.getJob(evt.jobId);
         const legacyNotify = (job as { notify?: unknown } | undefined)?.notify === true;
@@ -242,54 +293,37 @@ export function buildGatewayCronService(params: {
         }
 
         if (webhookTarget && evt.summary) {
-          const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-          };
-          if (webhookToken) {
-            headers.Authorization = `Bearer ${webhookToken}`;
-          }
-          const abortController = new AbortController();
-          const timeout = setTimeout(() => {
-            abortController.abort();
-          }, CRON_WEBHOOK_TIMEOUT_MS);
+          postCronWebhook(webhookTarget.url, evt, "delivery");
+        }
 
-          void (async () => {
-            try {
-              const result = await fetchWithSsrFGuard({
-                url: webhookTarget.url,
-                init: {
-                  method: "POST",
-                  headers,
-                  body: JSON.stringify(evt),
-                  signal: abortController.signal,
-                },
-              });
-              await result.release();
-            } catch (err) {
-              if (err instanceof SsrFBlockedError) {
-                cronLogger.warn(
-                  {
-                    reason: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery blocked by SSRF guard",
-                );
-              } else {
-                cronLogger.warn(
-                  {
-                    err: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery failed",
-                );
-              }
-            } finally {
-              clearTimeout(timeout);
+        if (job?.failureDelivery && evt.deadLettered) {
+          const failureDelivery = job.failureDelivery;
+          if (failureDelivery.mode === "webhook") {
+            const failureUrl = normalizeHttpWebhookUrl(failureDelivery.to);
+            if (failureUrl) {
+              postCronWebhook(failureUrl, evt, "failure");
             }
-          })();
+          } else {
+            const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+            void deliverCronFailureNotice({
+              cfg: runtimeConfig,
+              deps: params.deps,
+              job,
+              agentId,
+              failure: {
+                error: evt.error,
+                errorKind: evt.errorKind,
+                attempt: evt.attempt,
+              },
+            }).catch((err) => {
+              cronLogger.warn(
+                { err: formatErrorMessage(err), jobId: evt.jobId },
+                "cron: failure notification failed",
+              );
+            });
+          }
         }
+
         const logPath = resolveCronRunLogPath({
           storePath,
           jobId: evt.jobId,
@@ -311,6 +345,11 @@ export function buildGatewayCronService(params: {
             runAtMs: evt.runAtMs,
             durationMs: evt.durationMs,
             nextRunAtMs: evt.nextRunAtMs,
+            triggeredBy: evt.triggeredBy,
+            errorKind: evt.errorKind,
+            attempt: evt.attempt,
+            retryAtMs: evt.retryAtMs,
+            deadLettered: evt.deadLettered,
             model: evt.model,
             provider: evt.provider,
             usage: evt.usage,
@@ -19,6 +19,7 @@ import { loadConfig } from "../config/config.js";
 import type { createSubsystemLogger } from "../logging/subsystem.js";
 import { safeEqualSecret } from "../security/secret-equal.js";
 import { handleSlackHttpRequest } from "../slack/http/index.js";
+import { handleAnthropicHttpRequest } from "./anthropic-http.js";
 import {
   AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH,
   createAuthRateLimiter,
@@ -57,7 +58,9 @@ import {
 } from "./hooks.js";
 import { sendGatewayAuthFailure, setDefaultSecurityHeaders } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
+import { handleOpenAiEmbeddingsHttpRequest } from "./openai-embeddings-http.js";
 import { handleOpenAiHttpRequest } from "./openai-http.js";
+import { handleOpenAiModelsHttpRequest } from "./openai-models-http.js";
 import { handleOpenResponsesHttpRequest } from "./openresponses-http.js";
 import { GATEWAY_CLIENT_MODES, normalizeGatewayClientMode } from "./protocol/client-info.js";
 import { isProtectedPluginRoutePath } from "./security-path.js";
@@ -456,6 +459,8 @@ export function createGatewayHttpServer(opts: {
   controlUiRoot?: ControlUiRootState;
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
+  openAiEmbeddingsEnabled: boolean;
+  anthropicMessagesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
   strictTransportSecurityHeader?: string;
   handleHooksRequest: HooksRequestHandler;
@@ -473,6 +478,8 @@ export function createGatewayHttpServer(opts: {
     controlUiRoot,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    openAiEmbeddingsEnabled,
+    anthropicMessagesEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     handleHooksRequest,
@@ -572,6 +579,48 @@ export function createGatewayHttpServer(opts: {
           return;
         }
       }
+      if (anthropicMessagesEnabled) {
+        if (
+          await handleAnthropicHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (openAiEmbeddingsEnabled) {
+        if (
+          await handleOpenAiEmbeddingsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      // Model discovery follows whichever OpenAI-compatible endpoint is exposed.
+      if (
+        openAiChatCompletionsEnabled ||
+        openResponsesEnabled ||
+        anthropicMessagesEnabled ||
+        openAiEmbeddingsEnabled
+      ) {
+        if (
+          await handleOpenAiModelsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
       if (canvasHost) {
         if (isCanvasPath(requestPath)) {
           const ok = await authorizeCanvasRequest({
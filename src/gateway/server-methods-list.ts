@@ -57,6 +57,9 @@ const BASE_METHODS = [
   "sessions.reset",
   "sessions.delete",
   "sessions.compact",
+  "sessions.fork",
+  "sessions.forks",
+  "sessions.switch",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -85,6 +88,7 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "cron.deadletter",
   "system-presence",
   "system-event",
   "send",
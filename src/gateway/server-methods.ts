@@ -1,8 +1,13 @@
+import { loadConfig } from "../config/config.js";
 import { formatControlPlaneActor, resolveControlPlaneActor } from "./control-plane-audit.js";
 import { consumeControlPlaneWriteBudget } from "./control-plane-rate-limit.js";
 import { ADMIN_SCOPE, authorizeOperatorScopesForMethod } from "./method-scopes.js";
 import { ErrorCodes, errorShape } from "./protocol/index.js";
-import { isRoleAuthorizedForMethod, parseGatewayRole } from "./role-policy.js";
+import {
+  authorizeCustomRolesForMethod,
+  isRoleAuthorizedForMethod,
+  parseGatewayRole,
+} from "./role-policy.js";
 import { agentHandlers } from "./server-methods/agent.js";
 import { agentsHandlers } from "./server-methods/agents.js";
 import { browserHandlers } from "./server-methods/browser.js";
@@ -57,10 +62,24 @@ function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["c
     return null;
   }
   const scopeAuth = authorizeOperatorScopesForMethod(method, scopes);
-  if (!scopeAuth.allowed) {
-    return errorShape(ErrorCodes.INVALID_REQUEST, `missing scope: ${scopeAuth.missingScope}`);
+  if (scopeAuth.allowed) {
+    return null;
+  }
+  const roleAuth = authorizeCustomRolesForMethod({
+    method,
+    scopes,
+    roles: loadConfig().gateway?.roles,
+  });
+  if (roleAuth.allowed) {
+    return null;
+  }
+  if (roleAuth.roleNames.length > 0) {
+    return errorShape(
+      ErrorCodes.INVALID_REQUEST,
+      `method not allowed for role: ${roleAuth.roleNames.join(", ")}`,
+    );
   }
-  return null;
+  return errorShape(ErrorCodes.INVALID_REQUEST, `missing scope: ${scopeAuth.missingScope}`);
 }
 
 export const coreGatewayHandlers: GatewayRequestHandlers = {
@@ -11,6 +11,7 @@ import {
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
+  validateCronDeadLetterParams,
   validateCronListParams,
   validateCronRemoveParams,
   validateCronRunParams,
@@ -19,7 +20,92 @@ import {
   validateCronUpdateParams,
   validateWakeParams,
 } from "../protocol/index.js";
-import type { GatewayRequestHandlers } from "./types.js";
+import type { GatewayRequestHandlerOptions, GatewayRequestHandlers } from "./types.js";
+
+type CronRunLogPageParams = {
+  scope?: "job" | "all";
+  id?: string;
+  jobId?: string;
+  limit?: number;
+  offset?: number;
+  statuses?: Array<"ok" | "error" | "skipped">;
+  status?: "all" | "ok" | "error" | "skipped";
+  deliveryStatuses?: Array<"delivered" | "not-delivered" | "unknown" | "not-requested">;
+  deliveryStatus?: "delivered" | "not-delivered" | "unknown" | "not-requested";
+  query?: string;
+  sortDir?: "asc" | "desc";
+};
+
+async function respondCronRunLogPage(opts: {
+  method: "cron.runs" | "cron.deadletter";
+  params: CronRunLogPageParams;
+  respond: GatewayRequestHandlerOptions["respond"];
+  context: GatewayRequestHandlerOptions["context"];
+  deadLetterOnly?: boolean;
+}) {
+  const { method, params: p, respond, context } = opts;
+  const explicitScope = p.scope;
+  const jobId = p.id ?? p.jobId;
+  const scope: "job" | "all" = explicitScope ?? (jobId ? "job" : "all");
+  if (scope === "job" && !jobId) {
+    respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `invalid ${method} params: missing id`),
+    );
+    return;
+  }
+  if (scope === "all") {
+    const jobs = await context.cron.list({ includeDisabled: true });
+    const jobNameById = Object.fromEntries(
+      jobs
+        .filter((job) => typeof job.id === "string" && typeof job.name === "string")
+        .map((job) => [job.id, job.name]),
+    );
+    const page = await readCronRunLogEntriesPageAll({
+      storePath: context.cronStorePath,
+      limit: p.limit,
+      offset: p.offset,
+      statuses: p.statuses,
+      status: p.status,
+      deliveryStatuses: p.deliveryStatuses,
+      deliveryStatus: p.deliveryStatus,
+      query: p.query,
+      sortDir: p.sortDir,
+      deadLetterOnly: opts.deadLetterOnly,
+      jobNameById,
+    });
+    respond(true, page, undefined);
+    return;
+  }
+  let logPath: string;
+  try {
+    logPath = resolveCronRunLogPath({
+      storePath: context.cronStorePath,
+      jobId: jobId as string,
+    });
+  } catch {
+    respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `invalid ${method} params: invalid id`),
+    );
+    return;
+  }
+  const page = await readCronRunLogEntriesPage(logPath, {
+    limit: p.limit,
+    offset: p.offset,
+    jobId: jobId as string,
+    statuses: p.statuses,
+    status: p.status,
+    deliveryStatuses: p.deliveryStatuses,
+    deliveryStatus: p.deliveryStatus,
+    query: p.query,
+    sortDir: p.sortDir,
+    deadLetterOnly: opts.deadLetterOnly,
+  });
+  respond(true, page, undefined);
+}
 
 export const cronHandlers: GatewayRequestHandlers = {
   wake: ({ params, respond, context }) => {
@@ -222,77 +308,31 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const p = params as {
-      scope?: "job" | "all";
-      id?: string;
-      jobId?: string;
-      limit?: number;
-      offset?: number;
-      statuses?: Array<"ok" | "error" | "skipped">;
-      status?: "all" | "ok" | "error" | "skipped";
-      deliveryStatuses?: Array<"delivered" | "not-delivered" | "unknown" | "not-requested">;
-      deliveryStatus?: "delivered" | "not-delivered" | "unknown" | "not-requested";
-      query?: string;
-      sortDir?: "asc" | "desc";
-    };
-    const explicitScope = p.scope;
-    const jobId = p.id ?? p.jobId;
-    const scope: "job" | "all" = explicitScope ?? (jobId ? "job" : "all");
-    if (scope === "job" && !jobId) {
-      respond(
-        false,
-        undefined,
-        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.runs params: missing id"),
-      );
-      return;
-    }
-    if (scope === "all") {
-      const jobs = await context.cron.list({ includeDisabled: true });
-      const jobNameById = Object.fromEntries(
-        jobs
-          .filter((job) => typeof job.id === "string" && typeof job.name === "string")
-          .map((job) => [job.id, job.name]),
-      );
-      const page = await readCronRunLogEntriesPageAll({
-        storePath: context.cronStorePath,
-        limit: p.limit,
-        offset: p.offset,
-        statuses: p.statuses,
-        status: p.status,
-        deliveryStatuses: p.deliveryStatuses,
-        deliveryStatus: p.deliveryStatus,
-        query: p.query,
-        sortDir: p.sortDir,
-        jobNameById,
-      });
-      respond(true, page, undefined);
-      return;
-    }
-    let logPath: string;
-    try {
-      logPath = resolveCronRunLogPath({
-        storePath: context.cronStorePath,
-        jobId: jobId as string,
-      });
-    } catch {
+    await respondCronRunLogPage({
+      method: "cron.runs",
+      params: params as CronRunLogPageParams,
+      respond,
+      context,
+    });
+  },
+  "cron.deadletter": async ({ params, respond, context }) => {
+    if (!validateCronDeadLetterParams(params)) {
       respond(
         false,
         undefined,
-        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.runs params: invalid id"),
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.deadletter params: ${formatValidationErrors(validateCronDeadLetterParams.errors)}`,
+        ),
       );
       return;
     }
-    const page = await readCronRunLogEntriesPage(logPath, {
-      limit: p.limit,
-      offset: p.offset,
-      jobId: jobId as string,
-      statuses: p.statuses,
-      status: p.status,
-      deliveryStatuses: p.deliveryStatuses,
-      deliveryStatus: p.deliveryStatus,
-      query: p.query,
-      sortDir: p.sortDir,
+    await respondCronRunLogPage({
+      method: "cron.deadletter",
+      params: params as CronRunLogPageParams,
+      respond,
+      context,
+      deadLetterOnly: true,
     });
-    respond(true, page, undefined);
   },
 };
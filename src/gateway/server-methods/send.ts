@@ -10,6 +10,7 @@ import {
   resolveOutboundSessionRoute,
 } from "../../infra/outbound/outbound-session.js";
 import { normalizeReplyPayloadsForDelivery } from "../../infra/outbound/payloads.js";
+import { trackSentPoll } from "../../infra/outbound/poll-results.js";
 import { buildOutboundSessionContext } from "../../infra/outbound/session-context.js";
 import { resolveOutboundTarget } from "../../infra/outbound/targets.js";
 import { normalizePollInput } from "../../polls.js";
@@ -345,6 +346,7 @@ export const sendHandlers: GatewayRequestHandlers = {
       threadId?: string;
       channel?: string;
       accountId?: string;
+      sessionKey?: string;
       idempotencyKey: string;
     };
     const idem = request.idempotencyKey;
@@ -450,6 +452,19 @@ export const sendHandlers: GatewayRequestHandlers = {
       if (result.pollId) {
         payload.pollId = result.pollId;
       }
+      trackSentPoll({
+        channel,
+        accountId,
+        pollId: result.pollId,
+        messageId: result.messageId,
+        to: resolved.to,
+        question: normalized.question,
+        options: normalized.options,
+        maxSelections: normalized.maxSelections,
+        durationSeconds: normalized.durationSeconds,
+        durationHours: normalized.durationHours,
+        sessionKey: request.sessionKey,
+      });
       context.dedupe.set(`poll:${idem}`, {
         ts: Date.now(),
         ok: true,
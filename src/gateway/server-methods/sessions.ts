@@ -3,13 +3,18 @@ import fs from "node:fs";
 import { getAcpSessionManager } from "../../acp/control-plane/manager.js";
 import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
 import { clearBootstrapSnapshot } from "../../agents/bootstrap-cache.js";
+import { releaseMcpSession } from "../../agents/mcp/tools.js";
 import { abortEmbeddedPiRun, waitForEmbeddedPiRunEnd } from "../../agents/pi-embedded.js";
 import { stopSubagentsForRequester } from "../../auto-reply/reply/abort.js";
 import { clearSessionQueues } from "../../auto-reply/reply/queue.js";
 import { loadConfig } from "../../config/config.js";
 import {
+  createSessionFork,
+  listSessionForks,
+  listSessionTurns,
   loadSessionStore,
   snapshotSessionOrigin,
+  switchSessionFork,
   resolveMainSessionKey,
   type SessionEntry,
   updateSessionStore,
@@ -28,11 +33,14 @@ import {
   errorShape,
   validateSessionsCompactParams,
   validateSessionsDeleteParams,
+  validateSessionsForkParams,
+  validateSessionsForksParams,
   validateSessionsListParams,
   validateSessionsPatchParams,
   validateSessionsPreviewParams,
   validateSessionsResetParams,
   validateSessionsResolveParams,
+  validateSessionsSwitchParams,
 } from "../protocol/index.js";
 import {
   archiveFileOnDisk,
@@ -51,6 +59,7 @@ import {
 } from "../session-utils.js";
 import { applySessionsPatchToStore } from "../sessions-patch.js";
 import { resolveSessionKeyFromResolveParams } from "../sessions-resolve.js";
+import { formatForLog } from "../ws-log.js";
 import type { GatewayClient, GatewayRequestHandlers, RespondFn } from "./types.js";
 import { assertValidParams } from "./validation.js";
 
@@ -78,7 +87,7 @@ function resolveGatewaySessionTargetFromKey(key: string) {
 }
 
 function rejectWebchatSessionMutation(params: {
-  action: "patch" | "delete";
+  action: "patch" | "delete" | "fork" | "switch";
   client: GatewayClient | null;
   isWebchatConnect: (params: GatewayClient["connect"] | null | undefined) => boolean;
   respond: RespondFn;
@@ -189,6 +198,9 @@ async function ensureSessionRuntimeCleanup(params: {
   }
   clearSessionQueues([...queueKeys]);
   clearBootstrapSnapshot(params.target.canonicalKey);
+  for (const sessionKey of new Set([params.target.canonicalKey, ...params.target.storeKeys])) {
+    releaseMcpSession(sessionKey);
+  }
   stopSubagentsForRequester({ cfg: params.cfg, requesterSessionKey: params.target.canonicalKey });
   if (!params.sessionId) {
     return undefined;
@@ -683,4 +695,106 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       undefined,
     );
   },
+  "sessions.fork": async ({ params, respond, client, isWebchatConnect }) => {
+    if (!assertValidParams(params, validateSessionsForkParams, "sessions.fork", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+    if (rejectWebchatSessionMutation({ action: "fork", client, isWebchatConnect, respond })) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const primaryKey = await updateSessionStore(
+      storePath,
+      (store) => migrateAndPruneSessionStoreKey({ cfg, key, store }).primaryKey,
+    );
+    try {
+      const forked = await createSessionFork({
+        storePath,
+        sessionKey: primaryKey,
+        agentId: target.agentId,
+        turn: p.turn,
+        label: p.label,
+        activate: p.switch === true,
+      });
+      respond(
+        true,
+        {
+          ok: true,
+          key: forked.key,
+          sessionId: forked.entry.sessionId,
+          forkOf: forked.entry.forkOf,
+          active: p.switch === true,
+        },
+        undefined,
+      );
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatForLog(err)));
+    }
+  },
+  "sessions.forks": ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsForksParams, "sessions.forks", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const store = loadSessionStore(storePath);
+    const result = listSessionForks(store, target.canonicalKey);
+    if (!p.includeTurns) {
+      respond(true, { ok: true, ...result }, undefined);
+      return;
+    }
+    const entry = store[target.canonicalKey];
+    const filePath = entry?.sessionId
+      ? resolveSessionTranscriptCandidates(
+          entry.sessionId,
+          storePath,
+          entry.sessionFile,
+          target.agentId,
+        ).find((candidate) => fs.existsSync(candidate))
+      : undefined;
+    const turns = filePath
+      ? listSessionTurns(filePath).map(({ turn, preview, timestamp }) => ({
+          turn,
+          preview,
+          timestamp,
+        }))
+      : [];
+    respond(true, { ok: true, ...result, turns }, undefined);
+  },
+  "sessions.switch": async ({ params, respond, client, isWebchatConnect }) => {
+    if (!assertValidParams(params, validateSessionsSwitchParams, "sessions.switch", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+    if (rejectWebchatSessionMutation({ action: "switch", client, isWebchatConnect, respond })) {
+      return;
+    }
+
+    const { target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    try {
+      const switched = await switchSessionFork({
+        storePath,
+        sessionKey: target.canonicalKey,
+        target: p.target,
+      });
+      respond(true, { ok: true, ...switched }, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatForLog(err)));
+    }
+  },
 };
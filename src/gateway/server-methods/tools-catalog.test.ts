@@ -23,6 +23,18 @@ vi.mock("../../plugins/tools.js", () => ({
   getPluginToolMeta: vi.fn((tool: { name: string }) => pluginToolMetaState.get(tool.name)),
 }));
 
+const mcpTool = { name: "mcp__github__search_issues", label: "Search issues", description: "" };
+
+vi.mock("../../agents/mcp/tools.js", () => ({
+  prepareMcpTools: vi.fn(async () => {}),
+  resolveMcpTools: vi.fn(() => [mcpTool]),
+  getMcpToolMeta: vi.fn((tool: { name: string }) =>
+    tool.name === mcpTool.name
+      ? { pluginId: "mcp:github", server: "github", toolName: "search_issues" }
+      : undefined,
+  ),
+}));
+
 type RespondCall = [boolean, unknown?, { code: number; message: string }?];
 
 function createInvokeParams(params: Record<string, unknown>) {
@@ -117,4 +129,38 @@ describe("tools.catalog handler", () => {
       optional: true,
     });
   });
+
+  it("includes MCP server groups unless includeMcp=false", async () => {
+    const { respond, invoke } = createInvokeParams({});
+    await invoke();
+    const payload = (respond.mock.calls[0] as RespondCall | undefined)?.[1] as
+      | {
+          groups: Array<{
+            id: string;
+            source: string;
+            mcpServer?: string;
+            tools: Array<{ id: string; label: string; source: string; mcpServer?: string }>;
+          }>;
+        }
+      | undefined;
+    const github = payload?.groups.find((group) => group.id === "mcp:github");
+    expect(github).toMatchObject({ source: "mcp", mcpServer: "github" });
+    expect(github?.tools).toEqual([
+      {
+        id: "mcp__github__search_issues",
+        label: "Search issues",
+        description: "MCP tool",
+        source: "mcp",
+        mcpServer: "github",
+        defaultProfiles: [],
+      },
+    ]);
+
+    const disabled = createInvokeParams({ includeMcp: false });
+    await disabled.invoke();
+    const disabledPayload = (disabled.respond.mock.calls[0] as RespondCall | undefined)?.[1] as
+      | { groups: Array<{ source: string }> }
+      | undefined;
+    expect(disabledPayload?.groups.some((group) => group.source === "mcp")).toBe(false);
+  });
 });
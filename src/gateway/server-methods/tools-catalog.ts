@@ -4,6 +4,7 @@ import {
   resolveAgentWorkspaceDir,
   resolveDefaultAgentId,
 } from "../../agents/agent-scope.js";
+import { getMcpToolMeta, prepareMcpTools, resolveMcpTools } from "../../agents/mcp/tools.js";
 import {
   listCoreToolSections,
   PROFILE_OPTIONS,
@@ -23,8 +24,9 @@ type ToolCatalogEntry = {
   id: string;
   label: string;
   description: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
+  mcpServer?: string;
   optional?: boolean;
   defaultProfiles: Array<"minimal" | "coding" | "messaging" | "full">;
 };
@@ -32,8 +34,9 @@ type ToolCatalogEntry = {
 type ToolCatalogGroup = {
   id: string;
   label: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
+  mcpServer?: string;
   tools: ToolCatalogEntry[];
 };
 
@@ -122,8 +125,54 @@ function buildPluginGroups(params: {
     .toSorted((a, b) => a.label.localeCompare(b.label));
 }
 
+async function buildMcpGroups(params: {
+  cfg: ReturnType<typeof loadConfig>;
+  agentId: string;
+  existingToolNames: Set<string>;
+}): Promise<ToolCatalogGroup[]> {
+  const workspaceDir = resolveAgentWorkspaceDir(params.cfg, params.agentId);
+  const scope = { config: params.cfg, agentId: params.agentId, workspaceDir };
+  await prepareMcpTools(scope);
+  const mcpTools = resolveMcpTools({ ...scope, existingToolNames: params.existingToolNames });
+  const groups = new Map<string, ToolCatalogGroup>();
+  for (const tool of mcpTools) {
+    const meta = getMcpToolMeta(tool);
+    if (!meta) {
+      continue;
+    }
+    const groupId = meta.pluginId;
+    const existing =
+      groups.get(groupId) ??
+      ({
+        id: groupId,
+        label: meta.server,
+        source: "mcp",
+        mcpServer: meta.server,
+        tools: [],
+      } as ToolCatalogGroup);
+    existing.tools.push({
+      id: tool.name,
+      label: typeof tool.label === "string" && tool.label.trim() ? tool.label.trim() : tool.name,
+      description:
+        typeof tool.description === "string" && tool.description.trim()
+          ? tool.description.trim()
+          : "MCP tool",
+      source: "mcp",
+      mcpServer: meta.server,
+      defaultProfiles: [],
+    });
+    groups.set(groupId, existing);
+  }
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      tools: group.tools.toSorted((a, b) => a.id.localeCompare(b.id)),
+    }))
+    .toSorted((a, b) => a.label.localeCompare(b.label));
+}
+
 export const toolsCatalogHandlers: GatewayRequestHandlers = {
-  "tools.catalog": ({ params, respond }) => {
+  "tools.catalog": async ({ params, respond }) => {
     if (!validateToolsCatalogParams(params)) {
       respond(
         false,
@@ -140,19 +189,28 @@ export const toolsCatalogHandlers: GatewayRequestHandlers = {
       return;
     }
     const includePlugins = params.includePlugins !== false;
+    const includeMcp = params.includeMcp !== false;
     const groups = buildCoreGroups();
+    const listToolNames = () =>
+      new Set(groups.flatMap((group) => group.tools.map((tool) => tool.id)));
     if (includePlugins) {
-      const existingToolNames = new Set(
-        groups.flatMap((group) => group.tools.map((tool) => tool.id)),
-      );
       groups.push(
         ...buildPluginGroups({
           cfg: resolved.cfg,
           agentId: resolved.agentId,
-          existingToolNames,
+          existingToolNames: listToolNames(),
         }),
       );
     }
+    if (includeMcp) {
+      groups.push(
+        ...(await buildMcpGroups({
+          cfg: resolved.cfg,
+          agentId: resolved.agentId,
+          existingToolNames: listToolNames(),
+        })),
+      );
+    }
     respond(
       true,
       {
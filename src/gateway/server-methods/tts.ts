@@ -5,6 +5,7 @@ import {
   getTtsProvider,
   isTtsEnabled,
   isTtsProviderConfigured,
+  isTtsProviderId,
   resolveTtsAutoMode,
   resolveTtsApiKey,
   resolveTtsConfig,
@@ -13,6 +14,7 @@ import {
   setTtsEnabled,
   setTtsProvider,
   textToSpeech,
+  TTS_PROVIDERS,
 } from "../../tts/tts.js";
 import { ErrorCodes, errorShape } from "../protocol/index.js";
 import { formatForLog } from "../ws-log.js";
@@ -39,6 +41,8 @@ export const ttsHandlers: GatewayRequestHandlers = {
         hasOpenAIKey: Boolean(resolveTtsApiKey(config, "openai")),
         hasElevenLabsKey: Boolean(resolveTtsApiKey(config, "elevenlabs")),
         edgeEnabled: isTtsProviderConfigured(config, "edge"),
+        openaiCompatibleConfigured: isTtsProviderConfigured(config, "openai-compatible"),
+        piperConfigured: isTtsProviderConfigured(config, "piper"),
       });
     } catch (err) {
       respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
@@ -100,13 +104,13 @@ export const ttsHandlers: GatewayRequestHandlers = {
   },
   "tts.setProvider": async ({ params, respond }) => {
     const provider = typeof params.provider === "string" ? params.provider.trim() : "";
-    if (provider !== "openai" && provider !== "elevenlabs" && provider !== "edge") {
+    if (!isTtsProviderId(provider)) {
       respond(
         false,
         undefined,
         errorShape(
           ErrorCodes.INVALID_REQUEST,
-          "Invalid provider. Use openai, elevenlabs, or edge.",
+          `Invalid provider. Use ${TTS_PROVIDERS.join(", ")}.`,
         ),
       );
       return;
@@ -147,6 +151,19 @@ export const ttsHandlers: GatewayRequestHandlers = {
             configured: isTtsProviderConfigured(config, "edge"),
             models: [],
           },
+          {
+            id: "openai-compatible",
+            name: "OpenAI-compatible",
+            configured: isTtsProviderConfigured(config, "openai-compatible"),
+            models: [config.openaiCompatible.model],
+            voices: [config.openaiCompatible.voice],
+          },
+          {
+            id: "piper",
+            name: "Piper (local)",
+            configured: isTtsProviderConfigured(config, "piper"),
+            models: config.piper.model ? [config.piper.model] : [],
+          },
         ],
         active: getTtsProvider(config, prefsPath),
       });
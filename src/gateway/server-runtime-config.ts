@@ -24,6 +24,8 @@ export type GatewayRuntimeConfig = {
   controlUiEnabled: boolean;
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
+  openAiEmbeddingsEnabled: boolean;
+  anthropicMessagesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
   strictTransportSecurityHeader?: string;
   controlUiBasePath: string;
@@ -44,6 +46,8 @@ export async function resolveGatewayRuntimeConfig(params: {
   controlUiEnabled?: boolean;
   openAiChatCompletionsEnabled?: boolean;
   openResponsesEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  anthropicMessagesEnabled?: boolean;
   auth?: GatewayAuthConfig;
   tailscale?: GatewayTailscaleConfig;
 }): Promise<GatewayRuntimeConfig> {
@@ -79,6 +83,14 @@ export async function resolveGatewayRuntimeConfig(params: {
     false;
   const openResponsesConfig = params.cfg.gateway?.http?.endpoints?.responses;
   const openResponsesEnabled = params.openResponsesEnabled ?? openResponsesConfig?.enabled ?? false;
+  const openAiEmbeddingsEnabled =
+    params.openAiEmbeddingsEnabled ??
+    params.cfg.gateway?.http?.endpoints?.embeddings?.enabled ??
+    false;
+  const anthropicMessagesEnabled =
+    params.anthropicMessagesEnabled ??
+    params.cfg.gateway?.http?.endpoints?.messages?.enabled ??
+    false;
   const strictTransportSecurityConfig =
     params.cfg.gateway?.http?.securityHeaders?.strictTransportSecurity;
   const strictTransportSecurityHeader =
@@ -169,6 +181,8 @@ export async function resolveGatewayRuntimeConfig(params: {
     controlUiEnabled,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    openAiEmbeddingsEnabled,
+    anthropicMessagesEnabled,
     openResponsesConfig: openResponsesConfig
       ? { ...openResponsesConfig, enabled: openResponsesEnabled }
       : undefined,
@@ -811,6 +811,60 @@ describe("gateway server auth/connect", () => {
     });
   });
 
+  describe("role tokens", () => {
+    let server: Awaited<ReturnType<typeof startGatewayServer>>;
+    let port: number;
+
+    // Connect-time config is re-read per handshake and suite hooks reset it before each test.
+    const applyRoleConfig = async () => {
+      testState.gatewayAuth = {
+        mode: "token",
+        token: "secret",
+        roleTokens: [{ token: "ci-secret", role: "ci" }],
+      };
+      const { writeConfigFile } = await import("../config/config.js");
+      await writeConfigFile({
+        gateway: { roles: { ci: { allow: ["sessions.*"], deny: ["sessions.delete"] } } },
+      });
+    };
+
+    beforeAll(async () => {
+      await applyRoleConfig();
+      port = await getFreePort();
+      server = await startGatewayServer(port);
+    });
+
+    beforeEach(applyRoleConfig);
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    test("limits role token connections to the role's methods", async () => {
+      const ws = await openWs(port);
+      const res = await connectReq(ws, { token: "ci-secret" });
+      expect(res.ok).toBe(true);
+
+      const list = await rpcReq(ws, "sessions.list", {});
+      expect(list.ok).toBe(true);
+      const denied = await rpcReq(ws, "sessions.delete", { key: "main" });
+      expect(denied.ok).toBe(false);
+      expect(denied.error?.message ?? "").toContain("method not allowed for role: ci");
+      const config = await rpcReq(ws, "config.get", {});
+      expect(config.ok).toBe(false);
+      expect(config.error?.message ?? "").toContain("method not allowed for role: ci");
+      ws.close();
+    });
+
+    test("rejects role tokens for the node role", async () => {
+      const ws = await openWs(port);
+      const res = await connectReq(ws, { token: "ci-secret", role: "node" });
+      expect(res.ok).toBe(false);
+      expect(res.error?.message ?? "").toContain("role tokens require role=operator");
+      ws.close();
+    });
+  });
+
   describe("explicit none auth", () => {
     let server: Awaited<ReturnType<typeof startGatewayServer>>;
     let port: number;
@@ -147,6 +147,8 @@ async function withCanvasGatewayHarness(params: {
     controlUiBasePath: "/__control__",
     openAiChatCompletionsEnabled: false,
     openResponsesEnabled: false,
+    openAiEmbeddingsEnabled: false,
+    anthropicMessagesEnabled: false,
     handleHooksRequest: async () => false,
     resolvedAuth: params.resolvedAuth,
     rateLimiter: params.rateLimiter,
@@ -32,6 +32,10 @@ import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
 import { startHeartbeatRunner, type HeartbeatRunner } from "../infra/heartbeat-runner.js";
 import { getMachineDisplayName } from "../infra/machine-name.js";
+import {
+  startPollResultsTracking,
+  stopPollResultsTracking,
+} from "../infra/outbound/poll-results.js";
 import { ensureOpenClawCliOnPath } from "../infra/path-env.js";
 import { setGatewaySigusr1RestartPolicy, setPreRestartDeferralCheck } from "../infra/restart.js";
 import {
@@ -169,6 +173,16 @@ export type GatewayServerOptions = {
    * Default: config `gateway.http.endpoints.responses.enabled` (or false when absent).
    */
   openResponsesEnabled?: boolean;
+  /**
+   * If false, do not serve `POST /v1/embeddings`.
+   * Default: config `gateway.http.endpoints.embeddings.enabled` (or false when absent).
+   */
+  openAiEmbeddingsEnabled?: boolean;
+  /**
+   * If false, do not serve `POST /v1/messages` (Anthropic Messages API).
+   * Default: config `gateway.http.endpoints.messages.enabled` (or false when absent).
+   */
+  anthropicMessagesEnabled?: boolean;
   /**
    * Override gateway auth configuration (merges with config).
    */
@@ -378,6 +392,7 @@ export async function startGatewayServer(
     () => getTotalQueueSize() + getTotalPendingReplies() + getActiveEmbeddedRunCount(),
   );
   initSubagentRegistry();
+  startPollResultsTracking();
   const defaultAgentId = resolveDefaultAgentId(cfgAtStart);
   const defaultWorkspaceDir = resolveAgentWorkspaceDir(cfgAtStart, defaultAgentId);
   const baseMethods = listGatewayMethods();
@@ -408,6 +423,8 @@ export async function startGatewayServer(
     controlUiEnabled: opts.controlUiEnabled,
     openAiChatCompletionsEnabled: opts.openAiChatCompletionsEnabled,
     openResponsesEnabled: opts.openResponsesEnabled,
+    openAiEmbeddingsEnabled: opts.openAiEmbeddingsEnabled,
+    anthropicMessagesEnabled: opts.anthropicMessagesEnabled,
     auth: opts.auth,
     tailscale: opts.tailscale,
   });
@@ -416,6 +433,8 @@ export async function startGatewayServer(
     controlUiEnabled,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    openAiEmbeddingsEnabled,
+    anthropicMessagesEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     controlUiBasePath,
@@ -500,6 +519,8 @@ export async function startGatewayServer(
     controlUiRoot: controlUiRootState,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    openAiEmbeddingsEnabled,
+    anthropicMessagesEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     resolvedAuth,
@@ -920,6 +941,7 @@ export async function startGatewayServer(
       if (diagnosticsEnabled) {
         stopDiagnosticHeartbeat();
       }
+      stopPollResultsTracking();
       if (skillsRefreshTimer) {
         clearTimeout(skillsRefreshTimer);
         skillsRefreshTimer = null;
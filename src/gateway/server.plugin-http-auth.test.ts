@@ -200,6 +200,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           handleHooksRequest: async () => false,
           resolvedAuth,
         });
@@ -229,6 +231,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           strictTransportSecurityHeader: "max-age=31536000; includeSubDomains",
           handleHooksRequest: async () => false,
           resolvedAuth,
@@ -285,6 +289,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           handleHooksRequest: async () => false,
           handlePluginRequest,
           resolvedAuth,
@@ -367,6 +373,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           handleHooksRequest: async () => false,
           handlePluginRequest,
           resolvedAuth,
@@ -416,6 +424,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           handleHooksRequest: async () => false,
           handlePluginRequest,
           resolvedAuth,
@@ -467,6 +477,8 @@ describe("gateway plugin HTTP auth boundary", () => {
             controlUiBasePath: "/__control__",
             openAiChatCompletionsEnabled: false,
             openResponsesEnabled: false,
+            openAiEmbeddingsEnabled: false,
+            anthropicMessagesEnabled: false,
             handleHooksRequest,
             resolvedAuth,
           });
@@ -513,6 +525,8 @@ describe("gateway plugin HTTP auth boundary", () => {
           controlUiBasePath: "/__control__",
           openAiChatCompletionsEnabled: false,
           openResponsesEnabled: false,
+          openAiEmbeddingsEnabled: false,
+          anthropicMessagesEnabled: false,
           handleHooksRequest,
           resolvedAuth,
         });
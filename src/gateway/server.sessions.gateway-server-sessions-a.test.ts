@@ -267,6 +267,9 @@ describe("gateway server sessions", () => {
         "sessions.reset",
         "sessions.delete",
         "sessions.compact",
+        "sessions.fork",
+        "sessions.forks",
+        "sessions.switch",
       ]),
     );
 
@@ -533,6 +536,82 @@ describe("gateway server sessions", () => {
     ws.close();
   });
 
+  test("sessions.fork copies history up to a turn and sessions.switch routes to it", async () => {
+    const { dir, storePath } = await createSessionStoreDir();
+    const sessionId = "sess-fork-source";
+    const lines = [
+      { type: "session", version: 3, id: sessionId, timestamp: "", cwd: dir },
+      ...["first", "second"].flatMap((text, idx) => [
+        {
+          type: "message",
+          id: `u${idx}`,
+          parentId: idx === 0 ? null : `a${idx - 1}`,
+          timestamp: "",
+          message: { role: "user", content: `${text} question`, timestamp: idx },
+        },
+        {
+          type: "message",
+          id: `a${idx}`,
+          parentId: `u${idx}`,
+          timestamp: "",
+          message: { role: "assistant", content: [{ type: "text", text }], timestamp: idx },
+        },
+      ]),
+    ];
+    await fs.writeFile(
+      path.join(dir, `${sessionId}.jsonl`),
+      `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`,
+      "utf-8",
+    );
+    await writeSessionStore({
+      entries: { main: { sessionId, updatedAt: Date.now() } },
+    });
+
+    const { ws } = await openClient();
+    const forked = await rpcReq<{ key: string; forkOf: { turn: number } }>(ws, "sessions.fork", {
+      key: "main",
+      turn: 1,
+      label: "alt",
+    });
+    expect(forked.ok).toBe(true);
+    const forkKey = forked.payload?.key ?? "";
+    expect(forkKey).toMatch(/^agent:main:main:fork:[0-9a-f]{6}$/);
+    expect(forked.payload?.forkOf.turn).toBe(1);
+
+    const listed = await rpcReq<{
+      activeKey: string;
+      forks: Array<{ key: string; label?: string }>;
+      turns: Array<{ turn: number; preview: string }>;
+    }>(ws, "sessions.forks", { key: "main", includeTurns: true });
+    expect(listed.payload?.activeKey).toBe("agent:main:main");
+    expect(listed.payload?.forks).toEqual([
+      expect.objectContaining({ key: forkKey, label: "alt" }),
+    ]);
+    expect(listed.payload?.turns.map((turn) => turn.preview)).toEqual([
+      "first question",
+      "second question",
+    ]);
+
+    const switched = await rpcReq(ws, "sessions.switch", { key: "main", target: "alt" });
+    expect(switched.ok).toBe(true);
+    const store = JSON.parse(await fs.readFile(storePath, "utf-8")) as Record<
+      string,
+      { activeForkKey?: string; sessionFile?: string }
+    >;
+    expect(store["agent:main:main"]?.activeForkKey).toBe(forkKey);
+    const forkTranscript = await fs.readFile(store[forkKey]?.sessionFile ?? "", "utf-8");
+    expect(forkTranscript).toContain("first question");
+    expect(forkTranscript).not.toContain("second question");
+
+    const badTurn = await rpcReq(ws, "sessions.fork", { key: "main", turn: 9 });
+    expect(badTurn.ok).toBe(false);
+    expect((badTurn.error as { message?: string } | undefined)?.message).toContain(
+      "turn must be between 1 and 2",
+    );
+
+    ws.close();
+  });
+
   test("sessions.preview resolves legacy mixed-case main alias with custom mainKey", async () => {
     const { dir, storePath } = await createSessionStoreDir();
     testState.agentsConfig = { list: [{ id: "ops", default: true }] };
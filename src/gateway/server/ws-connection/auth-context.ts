@@ -1,4 +1,6 @@
 import type { IncomingMessage } from "node:http";
+import type { GatewayRoleTokenConfig } from "../../../config/types.gateway.js";
+import { safeEqualSecret } from "../../../security/secret-equal.js";
 import {
   AUTH_RATE_LIMIT_SCOPE_DEVICE_TOKEN,
   AUTH_RATE_LIMIT_SCOPE_SHARED_SECRET,
@@ -26,6 +28,8 @@ export type ConnectAuthState = {
   authMethod: GatewayAuthResult["method"];
   sharedAuthOk: boolean;
   sharedAuthProvided: boolean;
+  /** Custom role granted by a `gateway.auth.roleTokens` match; scopes must be pinned to it. */
+  roleTokenRole?: string;
   deviceTokenCandidate?: string;
   deviceTokenCandidateSource?: DeviceTokenCandidateSource;
 };
@@ -72,6 +76,16 @@ function resolveDeviceTokenCandidate(connectAuth: HandshakeConnectAuth | null |
   return { token: fallbackToken, source: "shared-token-fallback" };
 }
 
+function matchRoleToken(
+  token: string | undefined,
+  roleTokens: readonly GatewayRoleTokenConfig[] | undefined,
+): GatewayRoleTokenConfig | undefined {
+  if (!token) {
+    return undefined;
+  }
+  return roleTokens?.find((entry) => entry.role.trim() && safeEqualSecret(token, entry.token));
+}
+
 export async function resolveConnectAuthState(params: {
   resolvedAuth: ResolvedGatewayAuth;
   connectAuth: HandshakeConnectAuth | null | undefined;
@@ -81,6 +95,7 @@ export async function resolveConnectAuthState(params: {
   allowRealIpFallback: boolean;
   rateLimiter?: AuthRateLimiter;
   clientIp?: string;
+  roleTokens?: readonly GatewayRoleTokenConfig[];
 }): Promise<ConnectAuthState> {
   const sharedConnectAuth = resolveSharedConnectAuth(params.connectAuth);
   const sharedAuthProvided = Boolean(sharedConnectAuth);
@@ -121,6 +136,18 @@ export async function resolveConnectAuthState(params: {
     }
   }
 
+  let roleTokenRole: string | undefined;
+  const tokenOrPasswordMode =
+    params.resolvedAuth.mode === "token" || params.resolvedAuth.mode === "password";
+  if (!authResult.ok && !authResult.rateLimited && tokenOrPasswordMode) {
+    const roleToken = matchRoleToken(sharedConnectAuth?.token, params.roleTokens);
+    if (roleToken) {
+      roleTokenRole = roleToken.role.trim();
+      authResult = { ok: true, method: "token" };
+      params.rateLimiter?.reset(params.clientIp, AUTH_RATE_LIMIT_SCOPE_SHARED_SECRET);
+    }
+  }
+
   const sharedAuthResult =
     sharedConnectAuth &&
     (await authorizeHttpGatewayConnect({
@@ -137,6 +164,7 @@ export async function resolveConnectAuthState(params: {
   // no per-device credential needed. Include it so operator connections
   // can skip device identity via roleCanSkipDeviceIdentity().
   const sharedAuthOk =
+    roleTokenRole !== undefined ||
     (sharedAuthResult?.ok === true &&
       (sharedAuthResult.method === "token" || sharedAuthResult.method === "password")) ||
     (authResult.ok && authResult.method === "trusted-proxy");
@@ -148,6 +176,7 @@ export async function resolveConnectAuthState(params: {
       authResult.method ?? (params.resolvedAuth.mode === "password" ? "password" : "token"),
     sharedAuthOk,
     sharedAuthProvided,
+    roleTokenRole,
     deviceTokenCandidate,
     deviceTokenCandidateSource,
   };
@@ -61,7 +61,7 @@ import {
   validateConnectParams,
   validateRequestFrame,
 } from "../../protocol/index.js";
-import { parseGatewayRole } from "../../role-policy.js";
+import { formatCustomRoleScope, parseGatewayRole } from "../../role-policy.js";
 import { MAX_BUFFERED_BYTES, MAX_PAYLOAD_BYTES, TICK_INTERVAL_MS } from "../../server-constants.js";
 import { handleGatewayRequest } from "../../server-methods.js";
 import type { GatewayRequestContext, GatewayRequestHandlers } from "../../server-methods/types.js";
@@ -508,6 +508,7 @@ export function attachGatewayWsMessageHandler(params: {
           authOk,
           authMethod,
           sharedAuthOk,
+          roleTokenRole,
           deviceTokenCandidate,
           deviceTokenCandidateSource,
         } = await resolveConnectAuthState({
@@ -519,7 +520,17 @@ export function attachGatewayWsMessageHandler(params: {
           allowRealIpFallback,
           rateLimiter: authRateLimiter,
           clientIp: browserRateLimitClientIp,
+          roleTokens: configSnapshot.gateway?.auth?.roleTokens,
         });
+        if (roleTokenRole !== undefined && role !== "operator") {
+          markHandshakeFailure("invalid-role", { role, roleToken: roleTokenRole });
+          sendHandshakeErrorResponse(
+            ErrorCodes.INVALID_REQUEST,
+            "role tokens require role=operator",
+          );
+          close(1008, "invalid role");
+          return;
+        }
         const rejectUnauthorized = (failedAuth: GatewayAuthResult) => {
           markHandshakeFailure("unauthorized", {
             authMode: resolvedAuth.mode,
@@ -704,6 +715,12 @@ export function attachGatewayWsMessageHandler(params: {
           rejectUnauthorized(authResult);
           return;
         }
+        if (roleTokenRole !== undefined) {
+          // Role tokens never carry self-declared scopes: pin the connection to the bound role
+          // (after the device signature, which covers the scopes the client requested).
+          scopes = [formatCustomRoleScope(roleTokenRole)];
+          connectParams.scopes = scopes;
+        }
 
         const trustedProxyAuthOk = isTrustedProxyControlUiOperatorAuth({
           isControlUi,
@@ -839,6 +839,8 @@ export function listSessionsFromStore(params: {
         reasoningLevel: entry?.reasoningLevel,
         elevatedLevel: entry?.elevatedLevel,
         sendPolicy: entry?.sendPolicy,
+        forkOf: entry?.forkOf,
+        activeForkKey: entry?.activeForkKey,
         inputTokens: entry?.inputTokens,
         outputTokens: entry?.outputTokens,
         totalTokens: total,
@@ -30,6 +30,8 @@ export type GatewaySessionRow = {
   reasoningLevel?: string;
   elevatedLevel?: string;
   sendPolicy?: "allow" | "deny";
+  forkOf?: SessionEntry["forkOf"];
+  activeForkKey?: string;
   inputTokens?: number;
   outputTokens?: number;
   totalTokens?: number;
@@ -305,6 +305,35 @@ describe("gateway sessions patch", () => {
     expect(res.error.message).toContain("spawnDepth is only supported");
   });
 
+  test("sets subagentRole once for subagent sessions", async () => {
+    const store: Record<string, SessionEntry> = {};
+    const storeKey = "agent:main:subagent:child";
+    const res = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey,
+      patch: { key: storeKey, subagentRole: " reviewer " },
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) {
+      return;
+    }
+    expect(res.entry.subagentRole).toBe("reviewer");
+
+    store[storeKey] = res.entry;
+    const changed = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey,
+      patch: { key: storeKey, subagentRole: "coder" },
+    });
+    expect(changed.ok).toBe(false);
+    if (changed.ok) {
+      return;
+    }
+    expect(changed.error.message).toContain("subagentRole cannot be changed");
+  });
+
   test("normalizes exec/send/group patches", async () => {
     const store: Record<string, SessionEntry> = {};
     const res = await applySessionsPatchToStore({
@@ -410,4 +439,50 @@ describe("gateway sessions patch", () => {
     expect(entry.providerOverride).toBe("synthetic");
     expect(entry.modelOverride).toBe("hf:moonshotai/Kimi-K2.5");
   });
+
+  test("stores and clears session MCP servers", async () => {
+    const store: Record<string, SessionEntry> = {};
+    const set = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey: "acp:1",
+      patch: {
+        key: "acp:1",
+        mcpServers: { docs: { url: "https://mcp.example.com/mcp" }, fs: { enabled: false } },
+      },
+    });
+    expect(set.ok).toBe(true);
+    expect(store["acp:1"]?.mcpServers).toEqual({
+      docs: { url: "https://mcp.example.com/mcp" },
+      fs: { enabled: false },
+    });
+
+    const stdio = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey: "acp:1",
+      patch: { key: "acp:1", mcpServers: { fs: { command: "mcp-fs", cwd: "/work" } } },
+    });
+    expect(stdio).toMatchObject({
+      ok: false,
+      error: { message: expect.stringContaining("session servers must use http") },
+    });
+
+    const invalid = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey: "acp:1",
+      patch: { key: "acp:1", mcpServers: { docs: { transport: "http" } } },
+    });
+    expect(invalid.ok).toBe(false);
+
+    const cleared = await applySessionsPatchToStore({
+      cfg: {} as OpenClawConfig,
+      store,
+      storeKey: "acp:1",
+      patch: { key: "acp:1", mcpServers: null },
+    });
+    expect(cleared.ok).toBe(true);
+    expect(store["acp:1"]?.mcpServers).toBeUndefined();
+  });
 });
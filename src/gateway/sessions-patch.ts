@@ -129,6 +129,27 @@ export async function applySessionsPatchToStore(params: {
     }
   }
 
+  if ("subagentRole" in patch) {
+    const raw = patch.subagentRole;
+    if (raw === null) {
+      if (existing?.subagentRole) {
+        return invalid("subagentRole cannot be cleared once set");
+      }
+    } else if (raw !== undefined) {
+      if (!isSubagentSessionKey(storeKey)) {
+        return invalid("subagentRole is only supported for subagent:* sessions");
+      }
+      const trimmed = String(raw).trim();
+      if (!trimmed) {
+        return invalid("invalid subagentRole: empty");
+      }
+      if (existing?.subagentRole && existing.subagentRole !== trimmed) {
+        return invalid("subagentRole cannot be changed once set");
+      }
+      next.subagentRole = trimmed;
+    }
+  }
+
   if ("label" in patch) {
     const raw = patch.label;
     if (raw === null) {
@@ -359,6 +380,32 @@ export async function applySessionsPatchToStore(params: {
     }
   }
 
+  if ("mcpServers" in patch) {
+    const raw = patch.mcpServers;
+    if (raw === null || (raw && Object.keys(raw).length === 0)) {
+      delete next.mcpServers;
+    } else if (raw !== undefined) {
+      for (const [name, server] of Object.entries(raw)) {
+        // Stdio servers spawn processes on the Gateway host, so they may only come from config.
+        if (
+          server.transport === "stdio" ||
+          server.command !== undefined ||
+          server.args !== undefined ||
+          server.env !== undefined ||
+          server.cwd !== undefined
+        ) {
+          return invalid(
+            `invalid mcpServers.${name}: session servers must use http (define stdio servers in agent config)`,
+          );
+        }
+        if (server.enabled !== false && server.transport === "http" && !server.url) {
+          return invalid(`invalid mcpServers.${name}: http servers require url`);
+        }
+      }
+      next.mcpServers = raw;
+    }
+  }
+
   store[storeKey] = next;
   return { ok: true, entry: next };
 }
@@ -1,10 +1,12 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import { getMcpToolMeta, prepareMcpTools } from "../agents/mcp/tools.js";
 import { createOpenClawTools } from "../agents/openclaw-tools.js";
 import {
   resolveEffectiveToolPolicy,
   resolveGroupToolPolicy,
   resolveSubagentToolPolicy,
 } from "../agents/pi-tools.policy.js";
+import { resolveSubagentRoleToolPolicy } from "../agents/subagent-roles.js";
 import {
   applyToolPolicyPipeline,
   buildDefaultToolPolicyPipelineSteps,
@@ -35,7 +37,7 @@ import {
 import { getBearerToken, getHeader } from "./http-utils.js";
 
 const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
-const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get"]);
+const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get", "memory_write", "memory_update"]);
 
 type ToolsInvokeBody = {
   tool?: unknown;
@@ -244,8 +246,13 @@ export async function handleToolsInvokeHttpRequest(
   const subagentPolicy = isSubagentSessionKey(sessionKey)
     ? resolveSubagentToolPolicy(cfg)
     : undefined;
+  const subagentRolePolicy = subagentPolicy
+    ? resolveSubagentRoleToolPolicy(cfg, sessionKey)
+    : undefined;
+
+  await prepareMcpTools({ config: cfg, agentId, sessionKey });
 
-  // Build tool list (core + plugin tools).
+  // Build tool list (core + plugin + MCP tools).
   const allTools = createOpenClawTools({
     agentSessionKey: sessionKey,
     agentChannel: messageChannel ?? undefined,
@@ -262,6 +269,7 @@ export async function handleToolsInvokeHttpRequest(
       agentProviderPolicy,
       groupPolicy,
       subagentPolicy,
+      subagentRolePolicy,
     ]),
   });
 
@@ -269,7 +277,7 @@ export async function handleToolsInvokeHttpRequest(
     // oxlint-disable-next-line typescript/no-explicit-any
     tools: allTools as any,
     // oxlint-disable-next-line typescript/no-explicit-any
-    toolMeta: (tool) => getPluginToolMeta(tool as any),
+    toolMeta: (tool) => getPluginToolMeta(tool as any) ?? getMcpToolMeta(tool as any),
     warn: logWarn,
     steps: [
       ...buildDefaultToolPolicyPipelineSteps({
@@ -285,6 +293,7 @@ export async function handleToolsInvokeHttpRequest(
         agentId,
       }),
       { policy: subagentPolicy, label: "subagent tools.allow" },
+      { policy: subagentRolePolicy, label: "subagent role tools.allow" },
     ],
   });
 
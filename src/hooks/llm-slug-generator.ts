@@ -14,6 +14,7 @@ import {
 import { DEFAULT_PROVIDER, DEFAULT_MODEL } from "../agents/defaults.js";
 import { parseModelRef } from "../agents/model-selection.js";
 import { runEmbeddedPiAgent } from "../agents/pi-embedded.js";
+import { USAGE_BUDGET_STOP_REASON } from "../agents/run-usage-budgets.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 
@@ -65,6 +66,11 @@ Reply with ONLY the slug, nothing else. Examples: "vendor-pitch", "api-design",
       runId: `slug-gen-${Date.now()}`,
     });
 
+    // A usage budget stop message is not a slug.
+    if (result.meta.stopReason === USAGE_BUDGET_STOP_REASON) {
+      return null;
+    }
+
     // Extract text from payloads
     if (result.payloads && result.payloads.length > 0) {
       const text = result.payloads[0]?.text;
@@ -11,3 +11,5 @@ export const NODE_EXEC_APPROVALS_COMMANDS = [
   "system.execApprovals.get",
   "system.execApprovals.set",
 ] as const;
+
+export const NODE_FS_COMMANDS = ["fs.read", "fs.write", "fs.list", "fs.stat"] as const;
@@ -4,6 +4,7 @@ import {
   resolveChunkMode,
   resolveTextChunkLimit,
 } from "../../auto-reply/chunk.js";
+import { recordReplyChoices } from "../../auto-reply/reply/reply-choices.js";
 import type { ReplyPayload } from "../../auto-reply/types.js";
 import { resolveChannelMediaMaxBytes } from "../../channels/plugins/media-limits.js";
 import { loadChannelOutboundAdapter } from "../../channels/plugins/outbound/load.js";
@@ -33,6 +34,7 @@ import { ackDelivery, enqueueDelivery, failDelivery } from "./delivery-queue.js"
 import type { OutboundIdentity } from "./identity.js";
 import type { NormalizedOutboundPayload } from "./payloads.js";
 import { normalizeReplyPayloadsForDelivery } from "./payloads.js";
+import { renderReplyChoicesWithAdapter } from "./reply-choices.js";
 import type { OutboundSessionContext } from "./session-context.js";
 import type { OutboundChannel } from "./targets.js";
 
@@ -82,6 +84,7 @@ type ChannelHandler = {
   chunker: Chunker | null;
   chunkerMode?: "text" | "markdown";
   textChunkLimit?: number;
+  renderChoices: (payload: ReplyPayload) => ReplyPayload;
   sendPayload?: (
     payload: ReplyPayload,
     overrides?: {
@@ -154,6 +157,12 @@ function createPluginHandler(
     chunker,
     chunkerMode,
     textChunkLimit: outbound.textChunkLimit,
+    renderChoices: (payload) =>
+      renderReplyChoicesWithAdapter(outbound, {
+        cfg: params.cfg,
+        accountId: params.accountId,
+        payload,
+      }),
     sendPayload: outbound.sendPayload
       ? async (payload, overrides) =>
           outbound.sendPayload!({
@@ -440,15 +449,23 @@ async function deliverOutboundPayloadsCore(
       text: normalizedText,
     };
   };
-  const normalizedPayloads = normalizeReplyPayloadsForDelivery(payloads).flatMap((payload) => {
-    if (channel !== "whatsapp") {
-      return [payload];
-    }
-    const normalized = normalizeWhatsAppPayload(payload);
-    return normalized ? [normalized] : [];
-  });
   const hookRunner = getGlobalHookRunner();
   const sessionKeyForInternalHooks = params.mirror?.sessionKey ?? params.session?.key;
+  const normalizedPayloads = normalizeReplyPayloadsForDelivery(payloads)
+    .map((payload) => {
+      if (!payload.choices?.length) {
+        return payload;
+      }
+      recordReplyChoices(sessionKeyForInternalHooks, payload.choices);
+      return handler.renderChoices(payload);
+    })
+    .flatMap((payload) => {
+      if (channel !== "whatsapp") {
+        return [payload];
+      }
+      const normalized = normalizeWhatsAppPayload(payload);
+      return normalized ? [normalized] : [];
+    });
   if (
     hookRunner?.hasHooks("message_sent") &&
     params.session?.agentId &&
@@ -52,6 +52,7 @@ import {
 } from "./outbound-policy.js";
 import { executePollAction, executeSendAction } from "./outbound-send-service.js";
 import { ensureOutboundSessionEntry, resolveOutboundSessionRoute } from "./outbound-session.js";
+import { findTrackedPoll, formatPollResultsText, summarizePollResults } from "./poll-results.js";
 import { resolveChannelTarget, type ResolvedMessagingTarget } from "./target-resolver.js";
 import { extractToolPayload } from "./tool-payload.js";
 
@@ -150,7 +151,7 @@ export type MessageActionRunResult =
       kind: "action";
       channel: ChannelId;
       action: Exclude<ChannelMessageActionName, "send" | "poll">;
-      handledBy: "plugin" | "dry-run";
+      handledBy: "plugin" | "core" | "dry-run";
       payload: unknown;
       toolResult?: AgentToolResult<unknown>;
       dryRun: boolean;
@@ -636,6 +637,7 @@ async function handlePollAction(ctx: ResolvedActionContext): Promise<MessageActi
     durationHours: durationHours ?? undefined,
     threadId: resolvedThreadId ?? undefined,
     isAnonymous,
+    sessionKey: input.sessionKey,
   });
 
   return {
@@ -651,6 +653,36 @@ async function handlePollAction(ctx: ResolvedActionContext): Promise<MessageActi
   };
 }
 
+function handlePollResultsAction(ctx: ResolvedActionContext): MessageActionRunResult {
+  const { params, channel, accountId, dryRun, abortSignal } = ctx;
+  throwIfAborted(abortSignal);
+  const pollId = readStringParam(params, "pollId");
+  const messageId = readStringParam(params, "messageId");
+  if (!pollId && !messageId) {
+    throw new Error("pollId or messageId required");
+  }
+  const poll = findTrackedPoll({
+    channel,
+    accountId: accountId ?? undefined,
+    pollId,
+    messageId,
+  });
+  if (!poll) {
+    throw new Error(
+      `Unknown poll ${pollId ?? messageId} for channel ${channel}; only polls sent by OpenClaw are tracked.`,
+    );
+  }
+  const summary = summarizePollResults(poll);
+  return {
+    kind: "action",
+    channel,
+    action: "poll-results",
+    handledBy: "core",
+    payload: { ok: true, poll: summary, text: formatPollResultsText(summary) },
+    dryRun,
+  };
+}
+
 async function handlePluginAction(ctx: ResolvedActionContext): Promise<MessageActionRunResult> {
   const { cfg, params, channel, accountId, dryRun, gateway, input, abortSignal } = ctx;
   throwIfAborted(abortSignal);
@@ -834,6 +866,19 @@ export async function runMessageAction(
     });
   }
 
+  if (action === "poll-results") {
+    return handlePollResultsAction({
+      cfg,
+      params,
+      channel,
+      accountId,
+      dryRun,
+      gateway,
+      input,
+      abortSignal: input.abortSignal,
+    });
+  }
+
   return handlePluginAction({
     cfg,
     params,
@@ -7,6 +7,7 @@ export const MESSAGE_ACTION_TARGET_MODE: Record<ChannelMessageActionName, Messag
     send: "to",
     broadcast: "none",
     poll: "to",
+    "poll-results": "none",
     react: "to",
     reactions: "to",
     read: "to",
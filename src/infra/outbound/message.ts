@@ -82,6 +82,8 @@ type MessagePollParams = {
   threadId?: string;
   silent?: boolean;
   isAnonymous?: boolean;
+  /** Session that receives the poll-closed system event. */
+  sessionKey?: string;
   dryRun?: boolean;
   cfg?: OpenClawConfig;
   gateway?: MessageGatewayOptions;
@@ -333,6 +335,7 @@ export async function sendPoll(params: MessagePollParams): Promise<MessagePollRe
       isAnonymous: params.isAnonymous,
       channel,
       accountId: params.accountId,
+      sessionKey: params.sessionKey,
       idempotencyKey: params.idempotencyKey ?? randomIdempotencyKey(),
     },
   });
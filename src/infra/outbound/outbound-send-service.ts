@@ -9,6 +9,7 @@ import { throwIfAborted } from "./abort.js";
 import type { OutboundSendDeps } from "./deliver.js";
 import type { MessagePollResult, MessageSendResult } from "./message.js";
 import { sendMessage, sendPoll } from "./message.js";
+import { trackSentPoll } from "./poll-results.js";
 import { extractToolPayload } from "./tool-payload.js";
 
 export type OutboundGatewayContext = {
@@ -161,6 +162,8 @@ export async function executePollAction(params: {
   durationHours?: number;
   threadId?: string;
   isAnonymous?: boolean;
+  /** Session that receives the poll-closed system event. */
+  sessionKey?: string;
 }): Promise<{
   handledBy: "plugin" | "core";
   payload: unknown;
@@ -172,6 +175,21 @@ export async function executePollAction(params: {
     action: "poll",
   });
   if (pluginHandled) {
+    // Plugin-sent polls bypass the gateway poll method, so track them here.
+    const sent = pluginHandled.payload as { messageId?: unknown; pollId?: unknown } | undefined;
+    trackSentPoll({
+      channel: params.ctx.channel,
+      accountId: params.ctx.accountId,
+      pollId: typeof sent?.pollId === "string" ? sent.pollId : undefined,
+      messageId: typeof sent?.messageId === "string" ? sent.messageId : undefined,
+      to: params.to,
+      question: params.question,
+      options: params.options,
+      maxSelections: params.maxSelections,
+      durationSeconds: params.durationSeconds,
+      durationHours: params.durationHours,
+      sessionKey: params.sessionKey,
+    });
     return pluginHandled;
   }
 
@@ -188,6 +206,7 @@ export async function executePollAction(params: {
     threadId: params.threadId ?? undefined,
     silent: params.ctx.silent ?? undefined,
     isAnonymous: params.isAnonymous ?? undefined,
+    sessionKey: params.sessionKey,
     dryRun: params.ctx.dryRun,
     gateway: params.ctx.gateway,
   });
@@ -1,3 +1,4 @@
+import { parseReplyChoicesDirective } from "../../auto-reply/reply/reply-choices.js";
 import { parseReplyDirectives } from "../../auto-reply/reply/reply-directives.js";
 import {
   isRenderablePayload,
@@ -56,7 +57,7 @@ export function normalizeReplyPayloadsForDelivery(
     );
     const hasMultipleMedia = (explicitMediaUrls?.length ?? 0) > 1;
     const resolvedMediaUrl = hasMultipleMedia ? undefined : explicitMediaUrl;
-    const next: ReplyPayload = {
+    const next: ReplyPayload = parseReplyChoicesDirective({
       ...payload,
       text: parsed.text ?? "",
       mediaUrls: mergedMedia.length ? mergedMedia : undefined,
@@ -65,7 +66,7 @@ export function normalizeReplyPayloadsForDelivery(
       replyToTag: payload.replyToTag || parsed.replyToTag,
       replyToCurrent: payload.replyToCurrent || parsed.replyToCurrent,
       audioAsVoice: Boolean(payload.audioAsVoice || parsed.audioAsVoice),
-    };
+    });
     if (parsed.isSilent && mergedMedia.length === 0) {
       return [];
     }
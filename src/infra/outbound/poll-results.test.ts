@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withStateDirEnv } from "../../test-helpers/state-dir-env.js";
+import { requestHeartbeatNow } from "../heartbeat-wake.js";
+import { peekSystemEvents, resetSystemEventsForTest } from "../system-events.js";
+import {
+  applyPollSnapshot,
+  closeTrackedPoll,
+  findTrackedPoll,
+  formatPollResultsText,
+  recordPollVote,
+  startPollResultsTracking,
+  stopPollResultsTracking,
+  summarizePollResults,
+  togglePollVote,
+  trackSentPoll,
+} from "./poll-results.js";
+
+vi.mock("../heartbeat-wake.js", () => ({
+  requestHeartbeatNow: vi.fn(),
+}));
+
+const sessionKey = "agent:main:telegram:direct:123";
+
+function trackLunchPoll(overrides: Partial<Parameters<typeof trackSentPoll>[0]> = {}) {
+  return trackSentPoll({
+    channel: "telegram",
+    pollId: "poll-1",
+    messageId: "42",
+    to: "123",
+    question: "Team lunch?",
+    options: ["Pizza", "Sushi", "Tacos"],
+    sessionKey,
+    ...overrides,
+  });
+}
+
+describe("poll results tracking", () => {
+  beforeEach(() => {
+    resetSystemEventsForTest();
+    vi.mocked(requestHeartbeatNow).mockClear();
+  });
+
+  afterEach(() => {
+    stopPollResultsTracking();
+    vi.useRealTimers();
+  });
+
+  it("tallies votes and replaces a voter's selection", async () => {
+    await withStateDirEnv("openclaw-polls-", async () => {
+      trackLunchPoll();
+      const pointer = { channel: "telegram", pollId: "poll-1" };
+      recordPollVote({ ...pointer, voterId: "1", voterName: "ana", optionIndexes: [0] });
+      recordPollVote({ ...pointer, voterId: "2", optionIndexes: [1] });
+      recordPollVote({ ...pointer, voterId: "2", optionIndexes: [0] });
+      recordPollVote({ ...pointer, voterId: "3", optionIndexes: [2] });
+      recordPollVote({ ...pointer, voterId: "3", optionIndexes: [] });
+
+      const poll = findTrackedPoll({ channel: "telegram", messageId: "42" });
+      expect(poll).not.toBeNull();
+      const summary = summarizePollResults(poll!);
+      expect(summary.totalVoters).toBe(2);
+      expect(summary.options.map((option) => option.votes)).toEqual([2, 0, 0]);
+      expect(summary.options[0]?.voters).toEqual(["ana", "2"]);
+      expect(summary.leading).toEqual(["Pizza"]);
+      expect(formatPollResultsText(summary)).toContain("Winner: Pizza.");
+    });
+  });
+
+  it("toggles individual options and prefers channel-reported counts", async () => {
+    await withStateDirEnv("openclaw-polls-", async () => {
+      trackLunchPoll({ channel: "discord", pollId: undefined, messageId: "m-1" });
+      const pointer = { channel: "discord", pollId: "m-1", voterId: "u1" };
+      togglePollVote({ ...pointer, optionIndex: 0, selected: true });
+      togglePollVote({ ...pointer, optionIndex: 2, selected: true });
+      togglePollVote({ ...pointer, optionIndex: 0, selected: false });
+      expect(findTrackedPoll({ channel: "discord", pollId: "m-1" })?.votes).toEqual({ u1: [2] });
+
+      trackLunchPoll();
+      applyPollSnapshot({ channel: "telegram", pollId: "poll-1", counts: [1, 1, 0] });
+      const summary = summarizePollResults(
+        findTrackedPoll({ channel: "telegram", pollId: "poll-1" })!,
+      );
+      expect(summary.totalVoters).toBe(1);
+      expect(summary.leading).toEqual(["Pizza", "Sushi"]);
+      expect(formatPollResultsText(summary)).toContain("Tie: Pizza, Sushi.");
+    });
+  });
+
+  it("notifies the originating session once when a poll closes", async () => {
+    await withStateDirEnv("openclaw-polls-", async () => {
+      trackLunchPoll();
+      recordPollVote({ channel: "telegram", pollId: "poll-1", voterId: "1", optionIndexes: [1] });
+      applyPollSnapshot({ channel: "telegram", pollId: "poll-1", counts: [0, 1, 0], closed: true });
+      closeTrackedPoll({ channel: "telegram", pollId: "poll-1", reason: "closed" });
+      recordPollVote({ channel: "telegram", pollId: "poll-1", voterId: "2", optionIndexes: [0] });
+
+      const events = peekSystemEvents(sessionKey);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toContain("Poll closed.");
+      expect(events[0]).toContain("Winner: Sushi.");
+      expect(requestHeartbeatNow).toHaveBeenCalledTimes(1);
+      expect(findTrackedPoll({ channel: "telegram", pollId: "poll-1" })?.votes).toEqual({
+        "1": [1],
+      });
+    });
+  });
+
+  it("closes polls when their duration elapses once tracking is started", async () => {
+    await withStateDirEnv("openclaw-polls-", async () => {
+      vi.useFakeTimers();
+      trackLunchPoll({ durationSeconds: 60 });
+      startPollResultsTracking();
+
+      vi.advanceTimersByTime(59_000);
+      expect(peekSystemEvents(sessionKey)).toEqual([]);
+
+      vi.advanceTimersByTime(1_000);
+      expect(peekSystemEvents(sessionKey)[0]).toContain("Poll duration elapsed.");
+      const poll = findTrackedPoll({ channel: "telegram", pollId: "poll-1" });
+      expect(summarizePollResults(poll!)).toMatchObject({ closed: true, closeReason: "expired" });
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import path from "node:path";
+import { resolveStateDir } from "../../config/paths.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { normalizeAccountId } from "../../routing/account-id.js";
+import { requestHeartbeatNow } from "../heartbeat-wake.js";
+import { loadJsonFile, saveJsonFile } from "../json-file.js";
+import { enqueueSystemEvent } from "../system-events.js";
+
+/**
+ * Vote tracking for polls sent through channels (Telegram, Discord, WhatsApp, Matrix).
+ *
+ * The store is a JSON file under the state dir so CLI `message poll-results` and the gateway see
+ * the same data. Close timers only run in the gateway (see `startPollResultsTracking`); when a poll
+ * closes, a summary is queued as a system event for the session that created it.
+ */
+
+export type TrackedPoll = {
+  channel: string;
+  accountId: string;
+  /** Channel-native poll id (Telegram poll id; Discord/WhatsApp/Matrix poll message id). */
+  pollId: string;
+  messageId?: string;
+  to: string;
+  question: string;
+  options: string[];
+  maxSelections: number;
+  createdAt: number;
+  closesAt?: number;
+  closedAt?: number;
+  closeReason?: PollCloseReason;
+  /** Session that created the poll; receives the poll-closed system event. */
+  sessionKey?: string;
+  /** voter id -> 0-based option indexes. */
+  votes: Record<string, number[]>;
+  voterNames?: Record<string, string>;
+  /** Channel-reported totals (e.g. anonymous Telegram polls), preferred over `votes` when set. */
+  reportedCounts?: number[];
+  reportedVoterCount?: number;
+};
+
+export type PollCloseReason = "expired" | "closed";
+
+export type PollResultsSummary = {
+  channel: string;
+  accountId: string;
+  pollId: string;
+  messageId?: string;
+  to: string;
+  question: string;
+  options: Array<{ index: number; text: string; votes: number; voters?: string[] }>;
+  totalVoters: number;
+  leading: string[];
+  closed: boolean;
+  closeReason?: PollCloseReason;
+  closesAt?: string;
+  closedAt?: string;
+};
+
+type PollStoreData = {
+  version: 1;
+  polls: Record<string, TrackedPoll>;
+};
+
+type PollPointer = { channel: string; accountId?: string | null; pollId: string };
+
+const STORE_VERSION = 1;
+const MAX_POLLS = 500;
+// Closed polls stay queryable for a while; open polls without a deadline are dropped after this.
+const POLL_RETENTION_MS = 30 * 24 * 60 * 60_000;
+// setTimeout overflows past ~24.8 days; longer deadlines are re-armed when the timer fires.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Channels that close polls on their own when no duration is given.
+const DEFAULT_POLL_DURATION_HOURS: Record<string, number> = { discord: 24 };
+
+const log = createSubsystemLogger("polls");
+
+// Plugins can load this module via Jiti while core imports it via ESM; share timers on globalThis.
+const POLL_TRACKING_STATE_KEY = "__openclawPollTrackingState";
+
+type PollTrackingState = {
+  timersEnabled: boolean;
+  timers: Map<string, ReturnType<typeof setTimeout>>;
+};
+
+function resolvePollTrackingState(): PollTrackingState {
+  const runtimeGlobal = globalThis as typeof globalThis & {
+    [POLL_TRACKING_STATE_KEY]?: PollTrackingState;
+  };
+  runtimeGlobal[POLL_TRACKING_STATE_KEY] ??= { timersEnabled: false, timers: new Map() };
+  return runtimeGlobal[POLL_TRACKING_STATE_KEY];
+}
+
+export function resolvePollStorePath(): string {
+  return path.join(resolveStateDir(process.env), "polls", "tracked.json");
+}
+
+function pollKey(pointer: PollPointer): string {
+  return `${pointer.channel.trim().toLowerCase()}:${normalizeAccountId(pointer.accountId)}:${pointer.pollId.trim()}`;
+}
+
+function loadPollStore(): PollStoreData {
+  const raw = loadJsonFile(resolvePollStorePath()) as Partial<PollStoreData> | undefined;
+  if (raw?.version !== STORE_VERSION || !raw.polls || typeof raw.polls !== "object") {
+    return { version: STORE_VERSION, polls: {} };
+  }
+  return { version: STORE_VERSION, polls: raw.polls };
+}
+
+function prunePollStore(store: PollStoreData, now: number) {
+  for (const [key, poll] of Object.entries(store.polls)) {
+    const lastActivity = poll.closedAt ?? poll.closesAt ?? poll.createdAt;
+    if (now - lastActivity > POLL_RETENTION_MS) {
+      delete store.polls[key];
+    }
+  }
+  const keys = Object.keys(store.polls);
+  if (keys.length <= MAX_POLLS) {
+    return;
+  }
+  keys
+    .toSorted((a, b) => (store.polls[a]?.createdAt ?? 0) - (store.polls[b]?.createdAt ?? 0))
+    .slice(0, keys.length - MAX_POLLS)
+    .forEach((key) => delete store.polls[key]);
+}
+
+function savePollStore(store: PollStoreData) {
+  prunePollStore(store, Date.now());
+  saveJsonFile(resolvePollStorePath(), store);
+}
+
+function updateTrackedPoll(
+  pointer: PollPointer,
+  mutate: (poll: TrackedPoll) => void,
+): TrackedPoll | null {
+  const store = loadPollStore();
+  const key = pollKey(pointer);
+  const poll = store.polls[key];
+  if (!poll) {
+    return null;
+  }
+  mutate(poll);
+  savePollStore(store);
+  return poll;
+}
+
+function resolvePollDeadline(
+  createdAt: number,
+  params: { durationSeconds?: number; durationHours?: number },
+): number | undefined {
+  if (typeof params.durationSeconds === "number" && params.durationSeconds > 0) {
+    return createdAt + params.durationSeconds * 1000;
+  }
+  if (typeof params.durationHours === "number" && params.durationHours > 0) {
+    return createdAt + params.durationHours * 60 * 60_000;
+  }
+  return undefined;
+}
+
+/** Start tracking a poll that was just sent. Never throws: tracking must not fail the send. */
+export function trackSentPoll(params: {
+  channel: string;
+  accountId?: string | null;
+  pollId?: string;
+  messageId?: string;
+  to: string;
+  question: string;
+  options: string[];
+  maxSelections?: number;
+  durationSeconds?: number;
+  durationHours?: number;
+  sessionKey?: string;
+}): TrackedPoll | null {
+  const pollId = (params.pollId ?? params.messageId)?.trim();
+  if (!pollId || pollId === "unknown") {
+    return null;
+  }
+  const createdAt = Date.now();
+  const channel = params.channel.trim().toLowerCase();
+  const durationHours =
+    params.durationHours ??
+    (params.durationSeconds === undefined ? DEFAULT_POLL_DURATION_HOURS[channel] : undefined);
+  const poll: TrackedPoll = {
+    channel,
+    accountId: normalizeAccountId(params.accountId),
+    pollId,
+    messageId: params.messageId?.trim() || undefined,
+    to: params.to,
+    question: params.question,
+    options: [...params.options],
+    maxSelections: Math.max(1, params.maxSelections ?? 1),
+    createdAt,
+    closesAt: resolvePollDeadline(createdAt, {
+      durationSeconds: params.durationSeconds,
+      durationHours,
+    }),
+    sessionKey: params.sessionKey?.trim() || undefined,
+    votes: {},
+  };
+  try {
+    const store = loadPollStore();
+    store.polls[pollKey(poll)] = poll;
+    savePollStore(store);
+  } catch (err) {
+    log.warn(`failed to track poll ${poll.channel} ${pollId}: ${String(err)}`);
+    return null;
+  }
+  schedulePollClose(poll);
+  return poll;
+}
+
+/** Find a tracked poll by its channel poll id or by the message that carries it. */
+export function findTrackedPoll(params: {
+  channel: string;
+  accountId?: string | null;
+  pollId?: string;
+  messageId?: string;
+}): TrackedPoll | null {
+  const store = loadPollStore();
+  const pollId = params.pollId?.trim();
+  if (pollId) {
+    const direct = store.polls[pollKey({ ...params, pollId })];
+    if (direct) {
+      return direct;
+    }
+  }
+  const channel = params.channel.trim().toLowerCase();
+  const accountId = params.accountId ? normalizeAccountId(params.accountId) : undefined;
+  const messageId = params.messageId?.trim() || pollId;
+  if (!messageId) {
+    return null;
+  }
+  return (
+    Object.values(store.polls).find(
+      (poll) =>
+        poll.channel === channel &&
+        (!accountId || poll.accountId === accountId) &&
+        (poll.pollId === messageId || poll.messageId === messageId),
+    ) ?? null
+  );
+}
+
+function normalizeOptionIndexes(poll: TrackedPoll, indexes: number[]): number[] {
+  const valid = indexes.filter(
+    (index) => Number.isInteger(index) && index >= 0 && index < poll.options.length,
+  );
+  return Array.from(new Set(valid)).toSorted((a, b) => a - b);
+}
+
+function applyVoterName(poll: TrackedPoll, voterId: string, voterName?: string) {
+  const name = voterName?.trim();
+  if (name) {
+    poll.voterNames = { ...poll.voterNames, [voterId]: name };
+  }
+}
+
+/**
+ * Replace a voter's selection (Telegram poll answers, WhatsApp votes, Matrix responses). An empty selection
+ * retracts the vote. Votes on closed or unknown polls are ignored.
+ */
+export function recordPollVote(
+  params: PollPointer & { voterId: string; voterName?: string; optionIndexes: number[] },
+): TrackedPoll | null {
+  return updateTrackedPoll(params, (poll) => {
+    if (poll.closedAt) {
+      return;
+    }
+    const selection = normalizeOptionIndexes(poll, params.optionIndexes).slice(
+      0,
+      poll.maxSelections,
+    );
+    if (selection.length === 0) {
+      delete poll.votes[params.voterId];
+    } else {
+      poll.votes[params.voterId] = selection;
+    }
+    applyVoterName(poll, params.voterId, params.voterName);
+    schedulePollClose(poll);
+  });
+}
+
+/** Add or remove a single option for a voter (Discord vote add/remove events). */
+export function togglePollVote(
+  params: PollPointer & {
+    voterId: string;
+    voterName?: string;
+    optionIndex: number;
+    selected: boolean;
+  },
+): TrackedPoll | null {
+  return updateTrackedPoll(params, (poll) => {
+    if (poll.closedAt) {
+      return;
+    }
+    const current = new Set(poll.votes[params.voterId] ?? []);
+    if (params.selected) {
+      current.add(params.optionIndex);
+    } else {
+      current.delete(params.optionIndex);
+    }
+    const selection = normalizeOptionIndexes(poll, Array.from(current));
+    if (selection.length === 0) {
+      delete poll.votes[params.voterId];
+    } else {
+      poll.votes[params.voterId] = selection;
+    }
+    applyVoterName(poll, params.voterId, params.voterName);
+    schedulePollClose(poll);
+  });
+}
+
+/**
+ * Apply a channel-side snapshot: full per-voter selections and/or
+ * per-option totals (Telegram poll updates). `closed` closes the poll.
+ */
+export function applyPollSnapshot(
+  params: PollPointer & {
+    votes?: Record<string, number[]>;
+    counts?: number[];
+    totalVoters?: number;
+    closed?: boolean;
+  },
+): TrackedPoll | null {
+  const updated = updateTrackedPoll(params, (poll) => {
+    if (poll.closedAt) {
+      return;
+    }
+    if (params.votes) {
+      poll.votes = {};
+      for (const [voterId, indexes] of Object.entries(params.votes)) {
+        const selection = normalizeOptionIndexes(poll, indexes);
+        if (selection.length > 0) {
+          poll.votes[voterId] = selection;
+        }
+      }
+    }
+    if (params.counts) {
+      poll.reportedCounts = poll.options.map((_, index) =>
+        Math.max(0, Math.floor(params.counts?.[index] ?? 0)),
+      );
+      poll.reportedVoterCount =
+        typeof params.totalVoters === "number" ? Math.max(0, params.totalVoters) : undefined;
+    }
+  });
+  if (updated && params.closed && !updated.closedAt) {
+    return closeTrackedPoll({ ...params, reason: "closed" });
+  }
+  if (updated) {
+    schedulePollClose(updated);
+  }
+  return updated;
+}
+
+export function summarizePollResults(poll: TrackedPoll, now = Date.now()): PollResultsSummary {
+  const tallies = poll.options.map(() => 0);
+  const votersByOption = poll.options.map(() => [] as string[]);
+  for (const [voterId, indexes] of Object.entries(poll.votes)) {
+    for (const index of indexes) {
+      if (index >= 0 && index < tallies.length) {
+        tallies[index] = (tallies[index] ?? 0) + 1;
+        votersByOption[index]?.push(poll.voterNames?.[voterId] ?? voterId);
+      }
+    }
+  }
+  const trackedVoters = Object.keys(poll.votes).length;
+  const counts = poll.reportedCounts ?? tallies;
+  const totalVoters = poll.reportedCounts
+    ? (poll.reportedVoterCount ?? Math.max(trackedVoters, ...counts))
+    : trackedVoters;
+  const top = Math.max(0, ...counts);
+  const expired = !poll.closedAt && poll.closesAt !== undefined && now >= poll.closesAt;
+  return {
+    channel: poll.channel,
+    accountId: poll.accountId,
+    pollId: poll.pollId,
+    messageId: poll.messageId,
+    to: poll.to,
+    question: poll.question,
+    options: poll.options.map((text, index) => {
+      const voters = votersByOption[index] ?? [];
+      return {
+        index: index + 1,
+        text,
+        votes: counts[index] ?? 0,
+        ...(voters.length > 0 ? { voters } : {}),
+      };
+    }),
+    totalVoters,
+    leading: top > 0 ? poll.options.filter((_, index) => counts[index] === top) : [],
+    closed: Boolean(poll.closedAt) || expired,
+    closeReason: poll.closeReason ?? (expired ? "expired" : undefined),
+    closesAt: poll.closesAt ? new Date(poll.closesAt).toISOString() : undefined,
+    closedAt: poll.closedAt ? new Date(poll.closedAt).toISOString() : undefined,
+  };
+}
+
+export function formatPollResultsText(summary: PollResultsSummary): string {
+  const lines = summary.options.map(
+    (option) =>
+      `${option.index}. ${option.text} — ${option.votes} vote${option.votes === 1 ? "" : "s"}`,
+  );
+  const outcome =
+    summary.leading.length === 0
+      ? "No votes."
+      : summary.leading.length === 1
+        ? `Winner: ${summary.leading[0]}.`
+        : `Tie: ${summary.leading.join(", ")}.`;
+  return [
+    `Poll "${summary.question}" (${summary.channel} ${summary.to}, ${summary.totalVoters} voter${summary.totalVoters === 1 ? "" : "s"}):`,
+    ...lines,
+    outcome,
+  ].join("\n");
+}
+
+/**
+ * Mark a poll closed and notify the session that created it. Closing is idempotent, so a
+ * channel close event racing the local deadline only notifies once.
+ */
+export function closeTrackedPoll(
+  params: PollPointer & { reason: PollCloseReason },
+): TrackedPoll | null {
+  let closedNow = false;
+  const poll = updateTrackedPoll(params, (entry) => {
+    if (entry.closedAt) {
+      return;
+    }
+    entry.closedAt = Date.now();
+    entry.closeReason = params.reason;
+    closedNow = true;
+  });
+  const key = pollKey(params);
+  const timers = resolvePollTrackingState().timers;
+  clearTimeout(timers.get(key));
+  timers.delete(key);
+  if (!poll || !closedNow) {
+    return poll;
+  }
+  const summary = summarizePollResults(poll);
+  const label = params.reason === "expired" ? "Poll duration elapsed" : "Poll closed";
+  log.info(`${label}: ${poll.channel} ${poll.pollId} (${summary.totalVoters} voters)`);
+  if (poll.sessionKey) {
+    enqueueSystemEvent(`${label}. ${formatPollResultsText(summary)}`, {
+      sessionKey: poll.sessionKey,
+      contextKey: `poll:${key}`,
+    });
+    requestHeartbeatNow({ reason: "poll-closed", sessionKey: poll.sessionKey });
+  }
+  return poll;
+}
+
+function schedulePollClose(poll: TrackedPoll) {
+  const state = resolvePollTrackingState();
+  const key = pollKey(poll);
+  if (!state.timersEnabled || poll.closedAt || poll.closesAt === undefined) {
+    return;
+  }
+  if (state.timers.has(key)) {
+    return;
+  }
+  const delay = Math.max(0, poll.closesAt - Date.now());
+  const timer = setTimeout(
+    () => {
+      state.timers.delete(key);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        const current = findTrackedPoll(poll);
+        if (current) {
+          schedulePollClose(current);
+        }
+        return;
+      }
+      closeTrackedPoll({ ...poll, reason: "expired" });
+    },
+    Math.min(delay, MAX_TIMER_DELAY_MS),
+  );
+  timer.unref?.();
+  state.timers.set(key, timer);
+}
+
+/**
+ * Enable close timers in this process and arm them for stored open polls. Called once by the
+ * gateway; other processes (CLI) only read and write the store.
+ */
+export function startPollResultsTracking() {
+  const state = resolvePollTrackingState();
+  state.timersEnabled = true;
+  for (const poll of Object.values(loadPollStore().polls)) {
+    schedulePollClose(poll);
+  }
+}
+
+export function stopPollResultsTracking() {
+  const state = resolvePollTrackingState();
+  state.timersEnabled = false;
+  for (const timer of state.timers.values()) {
+    clearTimeout(timer);
+  }
+  state.timers.clear();
+}
@@ -0,0 +1,52 @@
+import {
+  normalizeReplyChoices,
+  renderReplyChoicesAsText,
+} from "../../auto-reply/reply/reply-choices.js";
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import { normalizeChannelId } from "../../channels/plugins/index.js";
+import { loadChannelOutboundAdapter } from "../../channels/plugins/outbound/load.js";
+import type { ChannelOutboundAdapter } from "../../channels/plugins/types.js";
+import type { OpenClawConfig } from "../../config/config.js";
+
+/**
+ * Render `payload.choices` with the channel's native renderer, or as a numbered list when the
+ * channel has none (or declines). The returned payload never carries `choices`.
+ */
+export function renderReplyChoicesWithAdapter(
+  outbound: Pick<ChannelOutboundAdapter, "renderChoices"> | undefined,
+  params: { cfg: OpenClawConfig; accountId?: string | null; payload: ReplyPayload },
+): ReplyPayload {
+  const choices = normalizeReplyChoices(params.payload.choices);
+  if (choices.length === 0) {
+    if (!params.payload.choices) {
+      return params.payload;
+    }
+    const { choices: _choices, ...rest } = params.payload;
+    return rest;
+  }
+  const payload = { ...params.payload, choices };
+  const rendered = outbound?.renderChoices?.({
+    cfg: params.cfg,
+    accountId: params.accountId,
+    payload,
+  });
+  if (rendered) {
+    const { choices: _choices, ...rest } = rendered;
+    return rest;
+  }
+  return renderReplyChoicesAsText(payload);
+}
+
+export async function renderReplyChoicesForChannel(params: {
+  cfg: OpenClawConfig;
+  channel: string | undefined;
+  accountId?: string | null;
+  payload: ReplyPayload;
+}): Promise<ReplyPayload> {
+  if (!params.payload.choices) {
+    return params.payload;
+  }
+  const channelId = params.channel ? normalizeChannelId(params.channel) : null;
+  const outbound = channelId ? await loadChannelOutboundAdapter(channelId) : undefined;
+  return renderReplyChoicesWithAdapter(outbound, params);
+}
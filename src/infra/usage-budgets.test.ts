@@ -0,0 +1,142 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SessionBudgetRule } from "../config/types.base.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetStatus,
+  loadUsageBudgetStatuses,
+  recordUsageBudgetSpend,
+  resolveUsageBudgetRules,
+} from "./usage-budgets.js";
+
+function cfgWithRules(rules: SessionBudgetRule[]): OpenClawConfig {
+  return { session: { budgets: { rules } } } as OpenClawConfig;
+}
+
+const subject = {
+  agentId: "main",
+  sessionKey: "agent:main:telegram:direct:42",
+  senderId: "42",
+  channel: "telegram",
+  accountId: "default",
+  chatType: "direct",
+};
+
+describe("usage budgets", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-budgets-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("resolves defaults and drops rules without limits", () => {
+    const rules = resolveUsageBudgetRules(
+      cfgWithRules([
+        { scope: "agent", maxTokens: 1000 },
+        { scope: "session" },
+        { scope: "sender", maxCostUsd: 1, action: "downgrade" },
+      ]),
+    );
+    expect(rules).toEqual([
+      expect.objectContaining({
+        id: "agent-daily-1",
+        period: "daily",
+        warnAt: 0.8,
+        action: "stop",
+      }),
+      // Downgrade without a fallback model falls back to a hard stop.
+      expect.objectContaining({ id: "sender-daily-3", action: "stop" }),
+    ]);
+  });
+
+  it("warns once, then stops when the limit is reached", async () => {
+    const cfg = cfgWithRules([{ id: "daily", scope: "agent", maxTokens: 1000 }]);
+    const now = new Date(2026, 9, 19, 12);
+
+    await recordUsageBudgetSpend({ cfg, subject, tokens: 850, now, baseDir });
+    const warned = await checkUsageBudgets({ cfg, subject, now, baseDir });
+    expect(warned.action).toBe("allow");
+    expect(warned.notices.map((status) => status.state)).toEqual(["warn"]);
+
+    const again = await checkUsageBudgets({ cfg, subject, now, baseDir });
+    expect(again.notices).toEqual([]);
+
+    await recordUsageBudgetSpend({ cfg, subject, tokens: 200, now, baseDir });
+    const stopped = await checkUsageBudgets({ cfg, subject, now, baseDir });
+    expect(stopped.action).toBe("stop");
+    expect(stopped.limiting?.rule.id).toBe("daily");
+
+    const nextDay = new Date(2026, 9, 20, 9);
+    const reset = await checkUsageBudgets({ cfg, subject, now: nextDay, baseDir });
+    expect(reset.action).toBe("allow");
+    expect(reset.statuses[0]?.tokens).toBe(0);
+  });
+
+  it("prefers stop over downgrade and reports the downgrade rule otherwise", async () => {
+    const now = new Date(2026, 9, 19, 12);
+    const downgradeOnly = cfgWithRules([
+      {
+        id: "cheap",
+        scope: "sender",
+        maxCostUsd: 1,
+        action: "downgrade",
+        fallbackModel: "openai/gpt-4.1-mini",
+      },
+    ]);
+    await recordUsageBudgetSpend({
+      cfg: downgradeOnly,
+      subject,
+      tokens: 10,
+      costUsd: 1.5,
+      now,
+      baseDir,
+    });
+    const downgraded = await checkUsageBudgets({ cfg: downgradeOnly, subject, now, baseDir });
+    expect(downgraded.action).toBe("downgrade");
+    expect(downgraded.notices.map((status) => status.rule.id)).toEqual(["cheap"]);
+
+    const both = cfgWithRules([
+      ...(downgradeOnly.session?.budgets?.rules ?? []),
+      { id: "hard", scope: "sender", maxCostUsd: 1 },
+    ]);
+    await recordUsageBudgetSpend({ cfg: both, subject, tokens: 10, costUsd: 1.5, now, baseDir });
+    const stopped = await checkUsageBudgets({ cfg: both, subject, now, baseDir });
+    expect(stopped.action).toBe("stop");
+    expect(stopped.limiting?.rule.id).toBe("hard");
+  });
+
+  it("keeps separate counters per scope value and honors match filters", async () => {
+    const cfg = cfgWithRules([
+      { id: "senders", scope: "sender", match: { channel: "telegram" }, maxTokens: 100 },
+    ]);
+    const now = new Date(2026, 9, 19, 12);
+    await recordUsageBudgetSpend({ cfg, subject, tokens: 150, now, baseDir });
+
+    const other = { ...subject, senderId: "99" };
+    expect((await checkUsageBudgets({ cfg, subject, now, baseDir })).action).toBe("stop");
+    expect((await checkUsageBudgets({ cfg, subject: other, now, baseDir })).action).toBe("allow");
+
+    const slack = { ...subject, channel: "slack" };
+    expect(await loadUsageBudgetStatuses({ cfg, subject: slack, now, baseDir })).toEqual([]);
+  });
+
+  it("formats status lines for /usage budget", async () => {
+    const cfg = cfgWithRules([
+      { id: "monthly", scope: "account", period: "monthly", maxTokens: 20_000, maxCostUsd: 10 },
+    ]);
+    const now = new Date(2026, 9, 19, 12);
+    await recordUsageBudgetSpend({ cfg, subject, tokens: 5000, costUsd: 1, now, baseDir });
+    const [status] = await loadUsageBudgetStatuses({ cfg, subject, now, baseDir });
+    expect(status.period).toBe("2026-10");
+    expect(formatUsageBudgetStatus(status)).toBe(
+      "monthly (account telegram:default, monthly): 5.0k/20k tokens · $1.00/$10.00 · 25% · on limit: stop",
+    );
+  });
+});
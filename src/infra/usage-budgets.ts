@@ -0,0 +1,381 @@
+import path from "node:path";
+import { normalizeChatType } from "../channels/chat-type.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type {
+  SessionBudgetAction,
+  SessionBudgetMatch,
+  SessionBudgetPeriod,
+  SessionBudgetScope,
+} from "../config/types.base.js";
+import { formatTokenCount, formatUsd } from "../utils/usage-format.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+export type UsageBudgetSubject = {
+  agentId?: string;
+  sessionKey?: string;
+  senderId?: string;
+  channel?: string;
+  accountId?: string;
+  chatType?: string;
+};
+
+export type ResolvedUsageBudgetRule = {
+  id: string;
+  scope: SessionBudgetScope;
+  period: SessionBudgetPeriod;
+  match?: SessionBudgetMatch;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  warnAt: number;
+  action: SessionBudgetAction;
+  fallbackModel?: string;
+};
+
+export type UsageBudgetState = "ok" | "warn" | "exceeded";
+
+export type UsageBudgetStatus = {
+  rule: ResolvedUsageBudgetRule;
+  /** Scope value the counter belongs to (agent id, session key, `channel:sender`, `channel:account`). */
+  subject: string;
+  /** Current period bucket (`YYYY-MM-DD` or `YYYY-MM`, local time). */
+  period: string;
+  tokens: number;
+  costUsd: number;
+  /** Highest fraction used across the configured limits. */
+  usedRatio: number;
+  state: UsageBudgetState;
+};
+
+export type UsageBudgetDecision = {
+  action: "allow" | "downgrade" | "stop";
+  statuses: UsageBudgetStatus[];
+  /** Budget that stopped or downgraded the run. */
+  limiting?: UsageBudgetStatus;
+  /** Budgets that crossed their warning threshold or a limit for the first time this period. */
+  notices: UsageBudgetStatus[];
+};
+
+type UsageBudgetCounter = {
+  period: string;
+  tokens: number;
+  costUsd: number;
+  warned?: boolean;
+  limitNotified?: boolean;
+  updatedAtMs: number;
+};
+
+type UsageBudgetLedger = {
+  version: 1;
+  counters: Record<string, UsageBudgetCounter>;
+};
+
+const DEFAULT_WARN_AT = 0.8;
+
+const withLock = createAsyncLock();
+
+function resolvePath(baseDir?: string) {
+  const root = baseDir ?? resolveStateDir();
+  return path.join(root, "settings", "usage-budgets.json");
+}
+
+async function loadLedger(baseDir?: string): Promise<UsageBudgetLedger> {
+  const existing = await readJsonFile<UsageBudgetLedger>(resolvePath(baseDir));
+  if (!existing || typeof existing.counters !== "object" || existing.counters === null) {
+    return { version: 1, counters: {} };
+  }
+  return { version: 1, counters: existing.counters };
+}
+
+function normalizeMatchValue(raw?: string | null) {
+  const value = raw?.trim().toLowerCase();
+  return value ? value : undefined;
+}
+
+function stripAgentSessionKeyPrefix(key: string): string {
+  const parts = key.split(":").filter(Boolean);
+  if (parts.length >= 3 && parts[0] === "agent") {
+    return parts.slice(2).join(":");
+  }
+  return key;
+}
+
+function isPositive(value?: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+export function resolveUsageBudgetRules(cfg: OpenClawConfig): ResolvedUsageBudgetRule[] {
+  const rules = cfg.session?.budgets?.rules ?? [];
+  const resolved: ResolvedUsageBudgetRule[] = [];
+  rules.forEach((rule, index) => {
+    if (!rule || (!isPositive(rule.maxTokens) && !isPositive(rule.maxCostUsd))) {
+      return;
+    }
+    const period = rule.period ?? "daily";
+    const fallbackModel = rule.fallbackModel?.trim() || undefined;
+    resolved.push({
+      id: rule.id?.trim() || `${rule.scope}-${period}-${index + 1}`,
+      scope: rule.scope,
+      period,
+      match: rule.match,
+      maxTokens: isPositive(rule.maxTokens) ? rule.maxTokens : undefined,
+      maxCostUsd: isPositive(rule.maxCostUsd) ? rule.maxCostUsd : undefined,
+      warnAt:
+        typeof rule.warnAt === "number" && rule.warnAt >= 0 && rule.warnAt <= 1
+          ? rule.warnAt
+          : DEFAULT_WARN_AT,
+      // A downgrade without a model to switch to can only stop.
+      action: rule.action === "downgrade" && !fallbackModel ? "stop" : (rule.action ?? "stop"),
+      fallbackModel,
+    });
+  });
+  return resolved;
+}
+
+export function resolveUsageBudgetPeriodKey(period: SessionBudgetPeriod, now: Date): string {
+  const day = now.toLocaleDateString("en-CA");
+  return period === "monthly" ? day.slice(0, 7) : day;
+}
+
+function matchesRule(rule: ResolvedUsageBudgetRule, subject: UsageBudgetSubject): boolean {
+  const match = rule.match;
+  if (!match) {
+    return true;
+  }
+  const agentId = normalizeMatchValue(match.agentId);
+  if (agentId && agentId !== normalizeMatchValue(subject.agentId)) {
+    return false;
+  }
+  const channel = normalizeMatchValue(match.channel);
+  if (channel && channel !== normalizeMatchValue(subject.channel)) {
+    return false;
+  }
+  const accountId = normalizeMatchValue(match.accountId);
+  if (accountId && accountId !== normalizeMatchValue(subject.accountId)) {
+    return false;
+  }
+  const chatType = normalizeChatType(match.chatType);
+  if (chatType && chatType !== normalizeChatType(subject.chatType)) {
+    return false;
+  }
+  const keyPrefix = normalizeMatchValue(match.keyPrefix);
+  if (keyPrefix) {
+    const rawKey = subject.sessionKey?.toLowerCase() ?? "";
+    if (
+      !rawKey.startsWith(keyPrefix) &&
+      !stripAgentSessionKeyPrefix(rawKey).startsWith(keyPrefix)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function resolveScopeSubject(
+  scope: SessionBudgetScope,
+  subject: UsageBudgetSubject,
+): string | undefined {
+  const channel = normalizeMatchValue(subject.channel);
+  switch (scope) {
+    case "agent":
+      return normalizeMatchValue(subject.agentId);
+    case "session":
+      return subject.sessionKey?.trim() || undefined;
+    case "sender": {
+      const senderId = subject.senderId?.trim();
+      return channel && senderId ? `${channel}:${senderId}` : undefined;
+    }
+    case "account":
+      return channel
+        ? `${channel}:${normalizeMatchValue(subject.accountId) ?? "default"}`
+        : undefined;
+  }
+  return undefined;
+}
+
+type ApplicableBudget = {
+  rule: ResolvedUsageBudgetRule;
+  subject: string;
+  counterKey: string;
+  period: string;
+};
+
+function resolveApplicableBudgets(
+  cfg: OpenClawConfig,
+  subject: UsageBudgetSubject,
+  now: Date,
+): ApplicableBudget[] {
+  const applicable: ApplicableBudget[] = [];
+  for (const rule of resolveUsageBudgetRules(cfg)) {
+    if (!matchesRule(rule, subject)) {
+      continue;
+    }
+    const scopeSubject = resolveScopeSubject(rule.scope, subject);
+    if (!scopeSubject) {
+      continue;
+    }
+    applicable.push({
+      rule,
+      subject: scopeSubject,
+      counterKey: `${rule.id}|${scopeSubject}`,
+      period: resolveUsageBudgetPeriodKey(rule.period, now),
+    });
+  }
+  return applicable;
+}
+
+function readCounter(ledger: UsageBudgetLedger, budget: ApplicableBudget): UsageBudgetCounter {
+  const existing = ledger.counters[budget.counterKey];
+  if (existing && existing.period === budget.period) {
+    return existing;
+  }
+  return { period: budget.period, tokens: 0, costUsd: 0, updatedAtMs: 0 };
+}
+
+function buildStatus(budget: ApplicableBudget, counter: UsageBudgetCounter): UsageBudgetStatus {
+  const { rule } = budget;
+  const ratios = [
+    rule.maxTokens ? counter.tokens / rule.maxTokens : 0,
+    rule.maxCostUsd ? counter.costUsd / rule.maxCostUsd : 0,
+  ];
+  const usedRatio = Math.max(...ratios);
+  const state: UsageBudgetState =
+    usedRatio >= 1 ? "exceeded" : rule.warnAt > 0 && usedRatio >= rule.warnAt ? "warn" : "ok";
+  return {
+    rule,
+    subject: budget.subject,
+    period: budget.period,
+    tokens: counter.tokens,
+    costUsd: counter.costUsd,
+    usedRatio,
+    state,
+  };
+}
+
+export async function loadUsageBudgetStatuses(params: {
+  cfg: OpenClawConfig;
+  subject: UsageBudgetSubject;
+  now?: Date;
+  baseDir?: string;
+}): Promise<UsageBudgetStatus[]> {
+  const budgets = resolveApplicableBudgets(params.cfg, params.subject, params.now ?? new Date());
+  if (budgets.length === 0) {
+    return [];
+  }
+  const ledger = await loadLedger(params.baseDir);
+  return budgets.map((budget) => buildStatus(budget, readCounter(ledger, budget)));
+}
+
+/**
+ * Decide whether a run may start. The first exhausted "stop" budget wins over a downgrade;
+ * warning and limit notices are reported once per budget per period.
+ */
+export async function checkUsageBudgets(params: {
+  cfg: OpenClawConfig;
+  subject: UsageBudgetSubject;
+  /** When false, notices are neither collected nor marked as sent (e.g. heartbeat runs). */
+  notify?: boolean;
+  now?: Date;
+  baseDir?: string;
+}): Promise<UsageBudgetDecision> {
+  const now = params.now ?? new Date();
+  const budgets = resolveApplicableBudgets(params.cfg, params.subject, now);
+  if (budgets.length === 0) {
+    return { action: "allow", statuses: [], notices: [] };
+  }
+  return await withLock(async () => {
+    const ledger = await loadLedger(params.baseDir);
+    const statuses: UsageBudgetStatus[] = [];
+    const notices: UsageBudgetStatus[] = [];
+    let dirty = false;
+    for (const budget of budgets) {
+      const counter = readCounter(ledger, budget);
+      const status = buildStatus(budget, counter);
+      statuses.push(status);
+      if (params.notify === false) {
+        continue;
+      }
+      if (status.state === "exceeded" && budget.rule.action !== "stop" && !counter.limitNotified) {
+        ledger.counters[budget.counterKey] = { ...counter, warned: true, limitNotified: true };
+        notices.push(status);
+        dirty = true;
+      } else if (status.state === "warn" && !counter.warned) {
+        ledger.counters[budget.counterKey] = { ...counter, warned: true };
+        notices.push(status);
+        dirty = true;
+      }
+    }
+    if (dirty) {
+      await writeJsonAtomic(resolvePath(params.baseDir), ledger);
+    }
+    const exceeded = statuses.filter((status) => status.state === "exceeded");
+    const stop = exceeded.find((status) => status.rule.action === "stop");
+    if (stop) {
+      return { action: "stop", statuses, limiting: stop, notices };
+    }
+    const downgrade = exceeded.find((status) => status.rule.action === "downgrade");
+    if (downgrade) {
+      return { action: "downgrade", statuses, limiting: downgrade, notices };
+    }
+    return { action: "allow", statuses, notices };
+  });
+}
+
+export async function recordUsageBudgetSpend(params: {
+  cfg: OpenClawConfig;
+  subject: UsageBudgetSubject;
+  tokens: number;
+  costUsd?: number;
+  now?: Date;
+  baseDir?: string;
+}): Promise<void> {
+  const tokens = Number.isFinite(params.tokens) ? Math.max(0, params.tokens) : 0;
+  const costUsd =
+    typeof params.costUsd === "number" && Number.isFinite(params.costUsd)
+      ? Math.max(0, params.costUsd)
+      : 0;
+  if (tokens === 0 && costUsd === 0) {
+    return;
+  }
+  const now = params.now ?? new Date();
+  const budgets = resolveApplicableBudgets(params.cfg, params.subject, now);
+  if (budgets.length === 0) {
+    return;
+  }
+  await withLock(async () => {
+    const ledger = await loadLedger(params.baseDir);
+    for (const budget of budgets) {
+      const counter = readCounter(ledger, budget);
+      ledger.counters[budget.counterKey] = {
+        ...counter,
+        tokens: counter.tokens + tokens,
+        costUsd: counter.costUsd + costUsd,
+        updatedAtMs: now.getTime(),
+      };
+    }
+    // Counters from finished periods are never read again.
+    const currentPeriods = new Set([
+      resolveUsageBudgetPeriodKey("daily", now),
+      resolveUsageBudgetPeriodKey("monthly", now),
+    ]);
+    for (const [key, counter] of Object.entries(ledger.counters)) {
+      if (!currentPeriods.has(counter.period)) {
+        delete ledger.counters[key];
+      }
+    }
+    await writeJsonAtomic(resolvePath(params.baseDir), ledger);
+  });
+}
+
+export function formatUsageBudgetStatus(status: UsageBudgetStatus): string {
+  const { rule } = status;
+  const limits: string[] = [];
+  if (rule.maxTokens) {
+    limits.push(`${formatTokenCount(status.tokens)}/${formatTokenCount(rule.maxTokens)} tokens`);
+  }
+  if (rule.maxCostUsd) {
+    limits.push(`${formatUsd(status.costUsd)}/${formatUsd(rule.maxCostUsd)}`);
+  }
+  const percent = Math.round(status.usedRatio * 100);
+  return `${rule.id} (${rule.scope} ${status.subject}, ${rule.period}): ${limits.join(" · ")} · ${percent}% · on limit: ${rule.action}`;
+}
@@ -24,4 +24,12 @@ describe("media-understanding provider registry", () => {
     expect(provider?.id).toBe("moonshot");
     expect(provider?.capabilities).toEqual(["image", "video"]);
   });
+
+  it("registers the keyless local-whisper provider", () => {
+    const registry = buildMediaUnderstandingRegistry();
+    const provider = getMediaUnderstandingProvider("local-whisper", registry);
+
+    expect(provider?.capabilities).toEqual(["audio"]);
+    expect(provider?.requiresApiKey).toBe(false);
+  });
 });
@@ -4,6 +4,7 @@ import { anthropicProvider } from "./anthropic/index.js";
 import { deepgramProvider } from "./deepgram/index.js";
 import { googleProvider } from "./google/index.js";
 import { groqProvider } from "./groq/index.js";
+import { localWhisperProvider } from "./local-whisper/index.js";
 import { minimaxProvider } from "./minimax/index.js";
 import { mistralProvider } from "./mistral/index.js";
 import { moonshotProvider } from "./moonshot/index.js";
@@ -20,6 +21,7 @@ const PROVIDERS: MediaUnderstandingProvider[] = [
   mistralProvider,
   zaiProvider,
   deepgramProvider,
+  localWhisperProvider,
 ];
 
 export function normalizeMediaProviderId(id: string): string {
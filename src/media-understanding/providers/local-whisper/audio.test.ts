@@ -0,0 +1,109 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  createRequestCaptureJsonFetch,
+  installPinnedHostnameTestHooks,
+} from "../audio.test-helpers.js";
+import { buildLocalWhisperArgv, transcribeLocalWhisperAudio } from "./audio.js";
+
+installPinnedHostnameTestHooks();
+
+describe("buildLocalWhisperArgv", () => {
+  const mediaPath = path.join("/tmp", "work", "voice.ogg");
+  const outputDir = path.join("/tmp", "work", "out");
+
+  it("builds whisper.cpp flags by default", () => {
+    const { argv, outputPath } = buildLocalWhisperArgv({
+      model: "/models/ggml-base.bin",
+      language: " de ",
+      mediaPath,
+      outputDir,
+    });
+
+    const outputBase = path.join(outputDir, "voice");
+    expect(argv).toEqual([
+      "whisper-cli",
+      "-m",
+      "/models/ggml-base.bin",
+      "-otxt",
+      "-of",
+      outputBase,
+      "-np",
+      "-nt",
+      "-l",
+      "de",
+      mediaPath,
+    ]);
+    expect(outputPath).toBe(`${outputBase}.txt`);
+  });
+
+  it("uses openai-whisper style flags for other commands", () => {
+    const { argv } = buildLocalWhisperArgv({
+      command: "whisper-ctranslate2",
+      mediaPath,
+      outputDir,
+    });
+
+    expect(argv).toEqual([
+      "whisper-ctranslate2",
+      "--model",
+      "turbo",
+      "--output_format",
+      "txt",
+      "--output_dir",
+      outputDir,
+      mediaPath,
+    ]);
+  });
+
+  it("applies templates to custom args", () => {
+    const { argv } = buildLocalWhisperArgv({
+      command: "transcribe",
+      args: ["--in", "{{MediaPath}}", "--out", "{{ OutputBase }}.txt", "--model={{Model}}"],
+      model: "tiny",
+      mediaPath,
+      outputDir,
+    });
+
+    expect(argv).toEqual([
+      "transcribe",
+      "--in",
+      mediaPath,
+      "--out",
+      `${path.join(outputDir, "voice")}.txt`,
+      "--model=tiny",
+    ]);
+  });
+
+  it("requires a model path for whisper.cpp", () => {
+    const previous = process.env.WHISPER_CPP_MODEL;
+    delete process.env.WHISPER_CPP_MODEL;
+    try {
+      expect(() => buildLocalWhisperArgv({ mediaPath, outputDir })).toThrow(/requires a model/);
+    } finally {
+      if (previous !== undefined) {
+        process.env.WHISPER_CPP_MODEL = previous;
+      }
+    }
+  });
+});
+
+describe("transcribeLocalWhisperAudio", () => {
+  it("posts to a local OpenAI-compatible server without an auth header", async () => {
+    const { fetchFn, getRequest } = createRequestCaptureJsonFetch({ text: "hallo" });
+
+    const result = await transcribeLocalWhisperAudio({
+      buffer: Buffer.from("audio"),
+      fileName: "voice.ogg",
+      apiKey: "",
+      baseUrl: "http://127.0.0.1:8000/v1/",
+      timeoutMs: 1000,
+      fetchFn,
+    });
+    const { url, init } = getRequest();
+
+    expect(result).toEqual({ text: "hallo", model: "whisper-1" });
+    expect(url).toBe("http://127.0.0.1:8000/v1/audio/transcriptions");
+    expect(new Headers(init?.headers).has("authorization")).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolvePreferredOpenClawTmpDir } from "../../../infra/tmp-openclaw-dir.js";
+import { runExec } from "../../../process/exec.js";
+import { resolveUserPath } from "../../../utils.js";
+import { CLI_OUTPUT_MAX_BUFFER } from "../../defaults.js";
+import { fileExists } from "../../fs.js";
+import type { AudioTranscriptionRequest, AudioTranscriptionResult } from "../../types.js";
+import { transcribeOpenAiCompatibleAudio } from "../openai/audio.js";
+import { requireTranscriptionText } from "../shared.js";
+
+export const DEFAULT_LOCAL_WHISPER_COMMAND = "whisper-cli";
+/** Model id sent to local HTTP servers when none is configured; most servers ignore it. */
+export const DEFAULT_LOCAL_WHISPER_SERVER_MODEL = "whisper-1";
+const DEFAULT_PYTHON_WHISPER_MODEL = "turbo";
+
+type LocalWhisperFlavor = "whisper-cpp" | "python";
+
+function resolveFlavor(command: string): LocalWhisperFlavor {
+  const base = path.parse(command).name;
+  // whisper.cpp ships `whisper-cli` (formerly `main`); everything else is treated as a
+  // CLI that mirrors openai-whisper flags (whisper, whisper-ctranslate2, faster-whisper).
+  return base === "whisper-cli" || base === "main" ? "whisper-cpp" : "python";
+}
+
+function applyArgTemplate(value: string, vars: Record<string, string>): string {
+  return value.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) => vars[key] ?? match);
+}
+
+export function buildLocalWhisperArgv(params: {
+  command?: string;
+  args?: string[];
+  model?: string;
+  language?: string;
+  mediaPath: string;
+  outputDir: string;
+}): { argv: string[]; outputPath: string } {
+  const command = params.command?.trim() || DEFAULT_LOCAL_WHISPER_COMMAND;
+  const outputBase = path.join(params.outputDir, path.parse(params.mediaPath).name);
+  const outputPath = `${outputBase}.txt`;
+  const model = params.model?.trim();
+  const language = params.language?.trim();
+
+  if (params.args && params.args.length > 0) {
+    const vars = {
+      MediaPath: params.mediaPath,
+      OutputDir: params.outputDir,
+      OutputBase: outputBase,
+      Model: model ?? "",
+      Language: language ?? "",
+    };
+    return {
+      argv: [command, ...params.args.map((arg) => applyArgTemplate(arg, vars))],
+      outputPath,
+    };
+  }
+
+  if (resolveFlavor(command) === "whisper-cpp") {
+    const modelPath = model || process.env.WHISPER_CPP_MODEL?.trim();
+    if (!modelPath) {
+      throw new Error("local-whisper requires a model path for whisper.cpp (set model)");
+    }
+    const argv = [
+      command,
+      "-m",
+      resolveUserPath(modelPath),
+      "-otxt",
+      "-of",
+      outputBase,
+      "-np",
+      "-nt",
+    ];
+    if (language) {
+      argv.push("-l", language);
+    }
+    argv.push(params.mediaPath);
+    return { argv, outputPath };
+  }
+
+  const argv = [
+    command,
+    "--model",
+    model || DEFAULT_PYTHON_WHISPER_MODEL,
+    "--output_format",
+    "txt",
+    "--output_dir",
+    params.outputDir,
+  ];
+  if (language) {
+    argv.push("--language", language);
+  }
+  argv.push(params.mediaPath);
+  return { argv, outputPath };
+}
+
+async function transcribeWithCli(
+  params: AudioTranscriptionRequest,
+): Promise<AudioTranscriptionResult> {
+  const workDir = await fs.mkdtemp(
+    path.join(resolvePreferredOpenClawTmpDir(), "openclaw-local-whisper-"),
+  );
+  try {
+    const mediaPath = path.join(workDir, path.basename(params.fileName) || "audio");
+    await fs.writeFile(mediaPath, params.buffer);
+    const outputDir = path.join(workDir, "out");
+    await fs.mkdir(outputDir);
+    const { argv, outputPath } = buildLocalWhisperArgv({
+      command: params.command,
+      args: params.args,
+      model: params.model,
+      language: params.language,
+      mediaPath,
+      outputDir,
+    });
+    const { stdout } = await runExec(argv[0], argv.slice(1), {
+      timeoutMs: params.timeoutMs,
+      maxBuffer: CLI_OUTPUT_MAX_BUFFER,
+    });
+    const fileText = (await fileExists(outputPath))
+      ? await fs.readFile(outputPath, "utf8").catch(() => "")
+      : "";
+    const text = requireTranscriptionText(
+      fileText.trim() ? fileText : stdout,
+      "Local whisper produced no transcript",
+    );
+    return { text, model: params.model?.trim() || argv[0] };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Transcribes on the local machine: via an OpenAI-compatible server when a baseUrl is
+ * configured (faster-whisper-server, whisper.cpp server, LocalAI), otherwise via a CLI.
+ */
+export async function transcribeLocalWhisperAudio(
+  params: AudioTranscriptionRequest,
+): Promise<AudioTranscriptionResult> {
+  if (params.baseUrl?.trim()) {
+    return await transcribeOpenAiCompatibleAudio({
+      ...params,
+      model: params.model?.trim() || DEFAULT_LOCAL_WHISPER_SERVER_MODEL,
+    });
+  }
+  return await transcribeWithCli(params);
+}
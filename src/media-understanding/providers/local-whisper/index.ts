@@ -0,0 +1,9 @@
+import type { MediaUnderstandingProvider } from "../../types.js";
+import { transcribeLocalWhisperAudio } from "./audio.js";
+
+export const localWhisperProvider: MediaUnderstandingProvider = {
+  id: "local-whisper",
+  capabilities: ["audio"],
+  requiresApiKey: false,
+  transcribeAudio: transcribeLocalWhisperAudio,
+};
@@ -40,7 +40,7 @@ export async function transcribeOpenAiCompatibleAudio(
   }
 
   const headers = new Headers(params.headers);
-  if (!headers.has("authorization")) {
+  if (!headers.has("authorization") && params.apiKey) {
     headers.set("authorization", `Bearer ${params.apiKey}`);
   }
 
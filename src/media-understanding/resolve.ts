@@ -83,12 +83,19 @@ export function resolveScopeDecision(params: {
   });
 }
 
+/**
+ * `command` alone implies a CLI entry; with a provider set it configures that provider
+ * instead (the local-whisper provider uses it to pick the whisper binary).
+ */
+export function resolveEntryType(entry: MediaUnderstandingModelConfig): "provider" | "cli" {
+  return entry.type ?? (entry.command && !entry.provider ? "cli" : "provider");
+}
+
 function resolveEntryCapabilities(params: {
   entry: MediaUnderstandingModelConfig;
   providerRegistry: Map<string, { capabilities?: MediaUnderstandingCapability[] }>;
 }): MediaUnderstandingCapability[] | undefined {
-  const entryType = params.entry.type ?? (params.entry.command ? "cli" : "provider");
-  if (entryType === "cli") {
+  if (resolveEntryType(params.entry) === "cli") {
     return undefined;
   }
   const providerId = normalizeMediaProviderId(params.entry.provider ?? "");
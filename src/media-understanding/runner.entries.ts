@@ -303,21 +303,30 @@ async function resolveProviderExecutionAuth(params: {
   cfg: OpenClawConfig;
   entry: MediaUnderstandingModelConfig;
   agentDir?: string;
+  optionalAuth?: boolean;
 }) {
-  const auth = await resolveApiKeyForProvider({
-    provider: params.providerId,
-    cfg: params.cfg,
-    profileId: params.entry.profile,
-    preferredProfile: params.entry.preferredProfile,
-    agentDir: params.agentDir,
-  });
-  return {
-    apiKeys: collectProviderApiKeysForExecution({
+  const providerConfig = params.cfg.models?.providers?.[params.providerId];
+  try {
+    const auth = await resolveApiKeyForProvider({
       provider: params.providerId,
-      primaryApiKey: requireApiKey(auth, params.providerId),
-    }),
-    providerConfig: params.cfg.models?.providers?.[params.providerId],
-  };
+      cfg: params.cfg,
+      profileId: params.entry.profile,
+      preferredProfile: params.entry.preferredProfile,
+      agentDir: params.agentDir,
+    });
+    return {
+      apiKeys: collectProviderApiKeysForExecution({
+        provider: params.providerId,
+        primaryApiKey: requireApiKey(auth, params.providerId),
+      }),
+      providerConfig,
+    };
+  } catch (err) {
+    if (!params.optionalAuth) {
+      throw err;
+    }
+    return { apiKeys: [] as string[], providerConfig };
+  }
 }
 
 async function resolveProviderExecutionContext(params: {
@@ -326,12 +335,14 @@ async function resolveProviderExecutionContext(params: {
   entry: MediaUnderstandingModelConfig;
   config?: MediaUnderstandingConfig;
   agentDir?: string;
+  optionalAuth?: boolean;
 }) {
   const { apiKeys, providerConfig } = await resolveProviderExecutionAuth({
     providerId: params.providerId,
     cfg: params.cfg,
     entry: params.entry,
     agentDir: params.agentDir,
+    optionalAuth: params.optionalAuth,
   });
   const baseUrl = params.entry.baseUrl ?? params.config?.baseUrl ?? providerConfig?.baseUrl;
   const mergedHeaders = {
@@ -457,6 +468,7 @@ export async function runProviderEntry(params: {
       entry,
       config: params.config,
       agentDir: params.agentDir,
+      optionalAuth: provider.requiresApiKey === false,
     });
     const providerQuery = resolveProviderQuery({
       providerId,
@@ -464,24 +476,27 @@ export async function runProviderEntry(params: {
       entry,
     });
     const model = entry.model?.trim() || DEFAULT_AUDIO_MODELS[providerId] || entry.model;
-    const result = await executeWithApiKeyRotation({
-      provider: providerId,
-      apiKeys,
-      execute: async (apiKey) =>
-        transcribeAudio({
-          buffer: media.buffer,
-          fileName: media.fileName,
-          mime: media.mime,
-          apiKey,
-          baseUrl,
-          headers,
-          model,
-          language: entry.language ?? params.config?.language ?? cfg.tools?.media?.audio?.language,
-          prompt,
-          query: providerQuery,
-          timeoutMs,
-        }),
-    });
+    const execute = async (apiKey: string) =>
+      transcribeAudio({
+        buffer: media.buffer,
+        fileName: media.fileName,
+        mime: media.mime,
+        apiKey,
+        baseUrl,
+        headers,
+        model,
+        language: entry.language ?? params.config?.language ?? cfg.tools?.media?.audio?.language,
+        prompt,
+        query: providerQuery,
+        command: entry.command,
+        args: entry.args,
+        timeoutMs,
+      });
+    // Keyless providers (local whisper) run once without credentials instead of failing rotation.
+    const result =
+      apiKeys.length === 0 && provider.requiresApiKey === false
+        ? await execute("")
+        : await executeWithApiKeyRotation({ provider: providerId, apiKeys, execute });
     return {
       kind: "audio.transcription",
       attachmentIndex: params.attachmentIndex,
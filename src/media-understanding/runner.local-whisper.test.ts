@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { buildProviderRegistry, runCapability } from "./runner.js";
+import { withAudioFixture } from "./runner.test-utils.js";
+
+describe("runCapability keyless providers", () => {
+  it("runs local-whisper entries without credentials and passes command/args", async () => {
+    await withAudioFixture("openclaw-local-whisper", async ({ ctx, media, cache }) => {
+      let seenApiKey: string | undefined;
+      let seenCommand: string | undefined;
+      let seenArgs: string[] | undefined;
+      const providerRegistry = buildProviderRegistry({
+        "local-whisper": {
+          id: "local-whisper",
+          capabilities: ["audio"],
+          requiresApiKey: false,
+          transcribeAudio: async (req) => {
+            seenApiKey = req.apiKey;
+            seenCommand = req.command;
+            seenArgs = req.args;
+            return { text: "local transcript", model: req.model };
+          },
+        },
+      });
+      const cfg = {
+        tools: {
+          media: {
+            audio: {
+              enabled: true,
+              models: [
+                {
+                  provider: "local-whisper",
+                  command: "whisper-ctranslate2",
+                  args: ["{{MediaPath}}"],
+                  model: "small",
+                },
+              ],
+            },
+          },
+        },
+      } as unknown as OpenClawConfig;
+
+      const result = await runCapability({
+        capability: "audio",
+        cfg,
+        ctx,
+        attachments: cache,
+        media,
+        providerRegistry,
+      });
+
+      expect(result.outputs[0]).toMatchObject({
+        text: "local transcript",
+        provider: "local-whisper",
+        model: "small",
+      });
+      expect(seenApiKey).toBe("");
+      expect(seenCommand).toBe("whisper-ctranslate2");
+      expect(seenArgs).toEqual(["{{MediaPath}}"]);
+    });
+  });
+});
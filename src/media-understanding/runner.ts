@@ -45,7 +45,7 @@ import {
   getMediaUnderstandingProvider,
   normalizeMediaProviderId,
 } from "./providers/index.js";
-import { resolveModelEntries, resolveScopeDecision } from "./resolve.js";
+import { resolveEntryType, resolveModelEntries, resolveScopeDecision } from "./resolve.js";
 import {
   buildModelDecision,
   formatDecisionSummary,
@@ -586,7 +586,7 @@ async function runAttachmentEntries(params: {
   const { entries, capability } = params;
   const attempts: MediaUnderstandingModelDecision[] = [];
   for (const entry of entries) {
-    const entryType = entry.type ?? (entry.command ? "cli" : "provider");
+    const entryType = resolveEntryType(entry);
     try {
       const result =
         entryType === "cli"
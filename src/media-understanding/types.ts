@@ -59,6 +59,9 @@ export type AudioTranscriptionRequest = {
   language?: string;
   prompt?: string;
   query?: Record<string, string | number | boolean>;
+  /** Local binary and template args for on-device providers (from the model entry). */
+  command?: string;
+  args?: string[];
   timeoutMs: number;
   fetchFn?: typeof fetch;
 };
@@ -109,6 +112,8 @@ export type ImageDescriptionResult = {
 export type MediaUnderstandingProvider = {
   id: string;
   capabilities?: MediaUnderstandingCapability[];
+  /** Local providers set this to false so entries run without credentials. */
+  requiresApiKey?: boolean;
   transcribeAudio?: (req: AudioTranscriptionRequest) => Promise<AudioTranscriptionResult>;
   describeVideo?: (req: VideoDescriptionRequest) => Promise<VideoDescriptionResult>;
   describeImage?: (req: ImageDescriptionRequest) => Promise<ImageDescriptionResult>;
@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  extractMemoryDocument,
+  isMemoryDocumentPath,
+  listMemoryDocumentExtensions,
+  sliceMemoryDocument,
+} from "./document-extractors.js";
+
+describe("memory document extractors", () => {
+  let tmpDir = "";
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-extract-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("matches extensions against the enabled formats", () => {
+    expect(isMemoryDocumentPath("notes/a.md", ["markdown"])).toBe(true);
+    expect(isMemoryDocumentPath("notes/a.PDF", ["markdown"])).toBe(false);
+    expect(isMemoryDocumentPath("notes/a.PDF", ["markdown", "pdf"])).toBe(true);
+    expect(isMemoryDocumentPath("src/app.ts", ["code"])).toBe(true);
+    expect(listMemoryDocumentExtensions(["html"])).toEqual([".html", ".htm"]);
+  });
+
+  it("extracts HTML as markdown with heading sections", async () => {
+    const file = path.join(tmpDir, "guide.html");
+    await fs.writeFile(
+      file,
+      "<html><head><title>Guide</title></head><body><h1>Intro</h1><p>Hello</p><h2>Setup</h2><p>Run it</p></body></html>",
+    );
+    const document = await extractMemoryDocument(file);
+    const lines = document.text.split("\n");
+    expect(lines[0]).toBe("# Intro");
+    expect(document.sectionStarts?.map((start) => lines[start - 1])).toEqual([
+      "# Intro",
+      "## Setup",
+    ]);
+  });
+
+  it("starts code sections at top-level symbols including their comments", async () => {
+    const file = path.join(tmpDir, "tool.ts");
+    await fs.writeFile(
+      file,
+      [
+        'import fs from "node:fs";',
+        "",
+        "/** Reads config. */",
+        "export async function readConfig() {",
+        "  return fs.readFileSync('x');",
+        "}",
+        "",
+        "export class Runner {}",
+      ].join("\n"),
+    );
+    const document = await extractMemoryDocument(file);
+    expect(document.sectionStarts).toEqual([3, 8]);
+  });
+
+  it("slices by page when the document has a line map", () => {
+    const document = {
+      text: ["p1 a", "p1 b", "p2 a", "p3 a"].join("\n"),
+      lineMap: [1, 1, 2, 3],
+    };
+    expect(sliceMemoryDocument(document, 2, 2)).toBe("p2 a\np3 a");
+    expect(sliceMemoryDocument({ text: "a\nb\nc" }, 2, 1)).toBe("b");
+  });
+});
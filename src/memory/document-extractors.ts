@@ -0,0 +1,242 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { htmlToMarkdown } from "../agents/tools/web-fetch-utils.js";
+import type { MemoryDocumentFormat } from "../config/config.js";
+
+/**
+ * Per-format text extraction for memory indexing.
+ *
+ * Extractors turn a file into line-addressable text (what gets chunked, searched and
+ * returned by memory_get) plus optional section boundaries so chunking can follow the
+ * document structure: PDF pages, HTML headings, top-level code symbols.
+ */
+
+export type ExtractedMemoryDocument = {
+  text: string;
+  /** 1-indexed lines where a section starts; chunks only split mid-section when it is too large. */
+  sectionStarts?: number[];
+  /**
+   * Locator for each 0-indexed text line, used for result startLine/endLine.
+   * PDFs map lines to page numbers; when unset, locators are the text line numbers.
+   */
+  lineMap?: number[];
+};
+
+export type MemoryDocumentExtractor = {
+  format: MemoryDocumentFormat;
+  extensions: string[];
+  extract: (buffer: Buffer) => Promise<ExtractedMemoryDocument>;
+};
+
+type PdfJsModule = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
+
+let pdfJsModulePromise: Promise<PdfJsModule> | null = null;
+
+async function loadPdfJsModule(): Promise<PdfJsModule> {
+  if (!pdfJsModulePromise) {
+    pdfJsModulePromise = import("pdfjs-dist/legacy/build/pdf.mjs").catch((err) => {
+      pdfJsModulePromise = null;
+      throw new Error(
+        `Optional dependency pdfjs-dist is required for PDF memory indexing: ${String(err)}`,
+      );
+    });
+  }
+  return pdfJsModulePromise;
+}
+
+function collectSectionStarts(lines: string[], isStart: (index: number) => boolean): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    if (isStart(i)) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function extractPlainText(buffer: Buffer): ExtractedMemoryDocument {
+  const text = buffer.toString("utf-8");
+  const lines = text.split("\n");
+  // Paragraphs are the natural unit for prose: start a section after each blank line.
+  const sectionStarts = collectSectionStarts(
+    lines,
+    (i) => i > 0 && !lines[i - 1]?.trim() && Boolean(lines[i]?.trim()),
+  );
+  return { text, sectionStarts };
+}
+
+function extractHtml(buffer: Buffer): ExtractedMemoryDocument {
+  // Drop <head> so the title and meta text do not leak into the body as a loose first line.
+  const html = buffer.toString("utf-8").replace(/<head[\s\S]*?<\/head>/i, "");
+  const { text } = htmlToMarkdown(html);
+  const lines = text.split("\n");
+  return {
+    text,
+    sectionStarts: collectSectionStarts(lines, (i) => /^#{1,6}\s/.test(lines[i] ?? "")),
+  };
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedMemoryDocument> {
+  const { getDocument } = await loadPdfJsModule();
+  const pdf = await getDocument({ data: new Uint8Array(buffer), disableWorker: true }).promise;
+  const lines: string[] = [];
+  const lineMap: number[] = [];
+  const sectionStarts: number[] = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum += 1) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    const pageLines: string[] = [];
+    let current = "";
+    for (const item of content.items) {
+      if (!("str" in item)) {
+        continue;
+      }
+      current += item.str;
+      if (item.hasEOL) {
+        pageLines.push(current.trimEnd());
+        current = "";
+      }
+    }
+    if (current.trim()) {
+      pageLines.push(current.trimEnd());
+    }
+    if (!pageLines.some((line) => line.trim())) {
+      continue;
+    }
+    sectionStarts.push(lines.length + 1);
+    for (const line of pageLines) {
+      lines.push(line);
+      lineMap.push(pageNum);
+    }
+  }
+  return { text: lines.join("\n"), sectionStarts, lineMap };
+}
+
+// Top-level declarations across common languages (TS/JS, Python, Go, Rust, Java/Kotlin/C#, Ruby).
+const CODE_SYMBOL_RE =
+  /^(?:export\s+(?:default\s+)?)?(?:pub(?:\([^)]*\))?\s+)?(?:(?:public|private|protected|internal|static|abstract|final|sealed|async|declare|data|open)\s+)*(?:function\*?|class|interface|type|enum|const|let|var|def|fn|func|struct|trait|impl|mod|module|namespace|object|record)\b/;
+// Comments and decorators directly above a symbol belong to it.
+const CODE_PREAMBLE_RE = /^(?:\/\/|\/\*|\s*\*|#|@|"""|''')/;
+
+function extractCode(buffer: Buffer): ExtractedMemoryDocument {
+  const text = buffer.toString("utf-8");
+  const lines = text.split("\n");
+  const sectionStarts = collectSectionStarts(lines, (i) => CODE_SYMBOL_RE.test(lines[i] ?? "")).map(
+    (start) => {
+      let index = start - 1;
+      while (index > 0 && CODE_PREAMBLE_RE.test(lines[index - 1] ?? "")) {
+        index -= 1;
+      }
+      return index + 1;
+    },
+  );
+  return { text, sectionStarts };
+}
+
+const MARKDOWN_EXTRACTOR: MemoryDocumentExtractor = {
+  format: "markdown",
+  extensions: [".md"],
+  extract: async (buffer) => ({ text: buffer.toString("utf-8") }),
+};
+
+export const MEMORY_DOCUMENT_EXTRACTORS: readonly MemoryDocumentExtractor[] = [
+  MARKDOWN_EXTRACTOR,
+  {
+    format: "text",
+    extensions: [".txt", ".text", ".rst", ".adoc"],
+    extract: async (buffer) => extractPlainText(buffer),
+  },
+  {
+    format: "html",
+    extensions: [".html", ".htm"],
+    extract: async (buffer) => extractHtml(buffer),
+  },
+  {
+    format: "pdf",
+    extensions: [".pdf"],
+    extract: extractPdf,
+  },
+  {
+    format: "code",
+    extensions: [
+      ".ts",
+      ".tsx",
+      ".js",
+      ".jsx",
+      ".mjs",
+      ".cjs",
+      ".py",
+      ".go",
+      ".rs",
+      ".java",
+      ".kt",
+      ".cs",
+      ".rb",
+      ".swift",
+      ".scala",
+      ".c",
+      ".h",
+      ".cpp",
+      ".hpp",
+      ".sh",
+    ],
+    extract: async (buffer) => extractCode(buffer),
+  },
+];
+
+/** Resolve the extractor for a file; when `formats` is set, other formats are ignored. */
+export function resolveMemoryDocumentExtractor(
+  filePath: string,
+  formats?: readonly MemoryDocumentFormat[],
+): MemoryDocumentExtractor | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  const extractor = MEMORY_DOCUMENT_EXTRACTORS.find((entry) => entry.extensions.includes(ext));
+  if (!extractor || (formats && !formats.includes(extractor.format))) {
+    return undefined;
+  }
+  return extractor;
+}
+
+export function isMemoryDocumentPath(
+  filePath: string,
+  formats?: readonly MemoryDocumentFormat[],
+): boolean {
+  return resolveMemoryDocumentExtractor(filePath, formats) !== undefined;
+}
+
+export function listMemoryDocumentExtensions(formats: readonly MemoryDocumentFormat[]): string[] {
+  return MEMORY_DOCUMENT_EXTRACTORS.filter((entry) => formats.includes(entry.format)).flatMap(
+    (entry) => entry.extensions,
+  );
+}
+
+/** Read and extract a memory file; files without a known extractor are read as Markdown. */
+export async function extractMemoryDocument(absPath: string): Promise<ExtractedMemoryDocument> {
+  const buffer = await fs.readFile(absPath);
+  const extractor = resolveMemoryDocumentExtractor(absPath) ?? MARKDOWN_EXTRACTOR;
+  return await extractor.extract(buffer);
+}
+
+/**
+ * Slice a document for memory_get. `from`/`lines` use the same locators as search results,
+ * so for PDFs they select pages rather than text lines.
+ */
+export function sliceMemoryDocument(
+  document: ExtractedMemoryDocument,
+  from?: number,
+  lines?: number,
+): string {
+  const textLines = document.text.split("\n");
+  const start = Math.max(1, from ?? 1);
+  const count = Math.max(1, lines ?? textLines.length);
+  if (!document.lineMap) {
+    return textLines.slice(start - 1, start - 1 + count).join("\n");
+  }
+  const lineMap = document.lineMap;
+  return textLines
+    .filter((_, index) => {
+      const locator = lineMap[index] ?? index + 1;
+      return locator >= start && locator < start + count;
+    })
+    .join("\n");
+}
@@ -0,0 +1,118 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  parseMemoryFacts,
+  planMemoryFactWrite,
+  readMemoryFacts,
+  renderMemoryFacts,
+  resolveMemoryFactsPath,
+  sanitizeMemoryFactText,
+  updateMemoryFacts,
+  type MemoryFact,
+} from "./facts.js";
+
+const TEA: MemoryFact = {
+  id: "f_abc_0a1b2c",
+  subject: "Alice",
+  statement: "Alice prefers tea in the morning.",
+  source: "agent:main:main",
+  createdAt: "2026-01-02T03:04:05.000Z",
+};
+const REPO: MemoryFact = {
+  id: "f_abd_3d4e5f",
+  subject: "Project",
+  statement: "The repo uses pnpm.",
+  createdAt: "2026-01-03T00:00:00.000Z",
+  updatedAt: "2026-01-04T00:00:00.000Z",
+};
+
+describe("memory facts file", () => {
+  it("round-trips facts grouped by subject", () => {
+    const content = renderMemoryFacts([TEA, REPO]);
+    expect(content).toContain("## Alice\n\n- Alice prefers tea in the morning. <!-- fact id=");
+    expect(parseMemoryFacts(content)).toEqual([TEA, REPO]);
+  });
+
+  it("keeps hand edits to statements and ignores unmanaged lines", () => {
+    const content = renderMemoryFacts([TEA]).replace("tea", "green tea") + "- a loose note\n";
+    expect(parseMemoryFacts(content)).toEqual([
+      { ...TEA, statement: "Alice prefers green tea in the morning." },
+    ]);
+  });
+
+  it("sanitizes text to a single line without comment markers", () => {
+    expect(sanitizeMemoryFactText("  likes\n <!-- x --> cats  ")).toBe("likes x cats");
+  });
+});
+
+describe("updateMemoryFacts", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-facts-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("serializes concurrent writers", async () => {
+    await Promise.all(
+      [TEA, REPO].map((fact) =>
+        updateMemoryFacts(workspaceDir, async (facts) => ({
+          facts: [...facts, fact],
+          result: null,
+        })),
+      ),
+    );
+    expect(await readMemoryFacts(workspaceDir)).toEqual([TEA, REPO]);
+  });
+
+  it("leaves the file untouched when the mutation returns null", async () => {
+    const result = await updateMemoryFacts(workspaceDir, async () => ({ facts: null, result: 1 }));
+    expect(result).toBe(1);
+    await expect(fs.stat(resolveMemoryFactsPath(workspaceDir))).rejects.toThrow();
+  });
+});
+
+describe("planMemoryFactWrite", () => {
+  it("treats normalized-text matches as duplicates without embeddings", () => {
+    const plan = planMemoryFactWrite({
+      facts: [TEA, REPO],
+      subject: "alice",
+      statement: "alice prefers TEA in the morning",
+    });
+    expect(plan).toEqual({ kind: "duplicate", match: { fact: TEA, similarity: 1 } });
+  });
+
+  it("flags related statements about the same subject as conflicts", () => {
+    const plan = planMemoryFactWrite({
+      facts: [TEA, REPO],
+      subject: "Alice",
+      statement: "Alice prefers coffee in the morning.",
+      similarities: [0.85, 0.81],
+    });
+    expect(plan).toEqual({ kind: "conflict", conflicts: [{ fact: TEA, similarity: 0.85 }] });
+  });
+
+  it("does not merge a matching statement filed under a different subject", () => {
+    const bob = { subject: "Bob", statement: "Alice prefers tea in the morning." };
+    expect(planMemoryFactWrite({ facts: [TEA], ...bob })).toEqual({ kind: "new" });
+    expect(planMemoryFactWrite({ facts: [TEA], ...bob, similarities: [0.97] })).toEqual({
+      kind: "new",
+    });
+  });
+
+  it("returns new for unrelated statements", () => {
+    expect(
+      planMemoryFactWrite({
+        facts: [TEA],
+        subject: "Alice",
+        statement: "Alice lives in Lisbon.",
+        similarities: [0.4],
+      }),
+    ).toEqual({ kind: "new" });
+  });
+});
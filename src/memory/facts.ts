@@ -0,0 +1,202 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createAsyncLock } from "../infra/json-files.js";
+import { isFileMissingError } from "./fs-utils.js";
+import { cosineSimilarity } from "./internal.js";
+
+/**
+ * Structured facts written by memory_write/memory_update.
+ *
+ * Facts live in an ordinary indexed memory file (memory/facts.md) grouped under one heading per
+ * subject, with the metadata kept in an HTML comment so the file stays readable and editable.
+ */
+
+export type MemoryFact = {
+  id: string;
+  subject: string;
+  statement: string;
+  /** Session key that wrote or last confirmed the fact. */
+  source?: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type MemoryFactMatch = {
+  fact: MemoryFact;
+  similarity: number;
+};
+
+export type MemoryFactWritePlan =
+  | { kind: "new" }
+  | { kind: "duplicate"; match: MemoryFactMatch }
+  | { kind: "conflict"; conflicts: MemoryFactMatch[] };
+
+export const MEMORY_FACTS_REL_PATH = "memory/facts.md";
+
+// Near-identical statements are merged; closely related ones are flagged as possible contradictions.
+export const MEMORY_FACT_DUPLICATE_SIMILARITY = 0.92;
+export const MEMORY_FACT_CONFLICT_SIMILARITY = 0.8;
+
+const FACTS_HEADER = [
+  "# Facts",
+  "",
+  "<!-- Managed by memory_write/memory_update. Statements can be edited; keep the fact comments. -->",
+];
+const FACT_LINE_RE = /^- (.+?) <!-- fact (.+?) -->\s*$/;
+const FACT_ID_RE = /^f_[a-z0-9]+_[a-f0-9]+$/;
+
+const withFactsLock = createAsyncLock();
+
+export function resolveMemoryFactsPath(workspaceDir: string): string {
+  return path.join(workspaceDir, MEMORY_FACTS_REL_PATH);
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function normalizeForCompare(value: string): string {
+  return collapseWhitespace(value.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " "));
+}
+
+export function createMemoryFactId(now = Date.now()): string {
+  return `f_${now.toString(36)}_${randomBytes(3).toString("hex")}`;
+}
+
+function parseFactAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of raw.matchAll(/(\w+)=(\S+)/g)) {
+    attrs[match[1] ?? ""] = match[2] ?? "";
+  }
+  return attrs;
+}
+
+export function parseMemoryFacts(content: string): MemoryFact[] {
+  const facts: MemoryFact[] = [];
+  let subject = "";
+  for (const line of content.split("\n")) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      subject = heading[1] ?? "";
+      continue;
+    }
+    const match = line.match(FACT_LINE_RE);
+    if (!match || !subject) {
+      continue;
+    }
+    const attrs = parseFactAttributes(match[2] ?? "");
+    if (!attrs.id || !FACT_ID_RE.test(attrs.id) || !attrs.created) {
+      continue;
+    }
+    facts.push({
+      id: attrs.id,
+      subject,
+      statement: match[1] ?? "",
+      source: attrs.source || undefined,
+      createdAt: attrs.created,
+      updatedAt: attrs.updated || undefined,
+    });
+  }
+  return facts;
+}
+
+export function renderMemoryFacts(facts: MemoryFact[]): string {
+  const subjects = new Map<string, MemoryFact[]>();
+  for (const fact of facts) {
+    const group = subjects.get(fact.subject) ?? [];
+    group.push(fact);
+    subjects.set(fact.subject, group);
+  }
+  const lines = [...FACTS_HEADER];
+  for (const [subject, group] of subjects) {
+    lines.push("", `## ${subject}`, "");
+    for (const fact of group) {
+      const attrs = [
+        `id=${fact.id}`,
+        fact.source ? `source=${fact.source}` : null,
+        `created=${fact.createdAt}`,
+        fact.updatedAt ? `updated=${fact.updatedAt}` : null,
+      ].filter(Boolean);
+      lines.push(`- ${fact.statement} <!-- fact ${attrs.join(" ")} -->`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export async function readMemoryFacts(workspaceDir: string): Promise<MemoryFact[]> {
+  try {
+    return parseMemoryFacts(await fs.readFile(resolveMemoryFactsPath(workspaceDir), "utf-8"));
+  } catch (err) {
+    if (isFileMissingError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
+async function writeMemoryFacts(workspaceDir: string, facts: MemoryFact[]): Promise<void> {
+  const filePath = resolveMemoryFactsPath(workspaceDir);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${randomBytes(4).toString("hex")}.tmp`;
+  await fs.writeFile(tmp, renderMemoryFacts(facts), "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+/**
+ * Serialize a read-modify-write of the facts file. `mutate` returns the new fact list,
+ * or null to leave the file untouched.
+ */
+export async function updateMemoryFacts<T>(
+  workspaceDir: string,
+  mutate: (facts: MemoryFact[]) => Promise<{ facts: MemoryFact[] | null; result: T }>,
+): Promise<T> {
+  return await withFactsLock(async () => {
+    const { facts, result } = await mutate(await readMemoryFacts(workspaceDir));
+    if (facts) {
+      await writeMemoryFacts(workspaceDir, facts);
+    }
+    return result;
+  });
+}
+
+/** Clean up a subject or statement for storage: single line, no comment markers. */
+export function sanitizeMemoryFactText(value: string): string {
+  return collapseWhitespace(value.replace(/<!--|-->/g, ""));
+}
+
+/**
+ * Decide how a candidate fact relates to existing ones. `similarities[i]` is the embedding
+ * similarity to `facts[i]`; without embeddings only normalized-text duplicates are detected.
+ */
+export function planMemoryFactWrite(params: {
+  facts: MemoryFact[];
+  subject: string;
+  statement: string;
+  similarities?: number[];
+}): MemoryFactWritePlan {
+  const normalized = normalizeForCompare(params.statement);
+  const subject = params.subject.toLowerCase();
+  const matches: MemoryFactMatch[] = params.facts.map((fact, index) => ({
+    fact,
+    similarity:
+      normalizeForCompare(fact.statement) === normalized ? 1 : (params.similarities?.[index] ?? 0),
+  }));
+  // A near-identical statement filed under another subject is a separate fact, not a duplicate.
+  const ranked = matches
+    .filter(
+      (match) =>
+        match.fact.subject.toLowerCase() === subject &&
+        match.similarity >= MEMORY_FACT_CONFLICT_SIMILARITY,
+    )
+    .toSorted((a, b) => b.similarity - a.similarity);
+  const best = ranked[0];
+  if (best && best.similarity >= MEMORY_FACT_DUPLICATE_SIMILARITY) {
+    return { kind: "duplicate", match: best };
+  }
+  return ranked.length > 0 ? { kind: "conflict", conflicts: ranked } : { kind: "new" };
+}
+
+export function scoreMemoryFactSimilarities(candidate: number[], existing: number[][]): number[] {
+  return existing.map((embedding) => cosineSimilarity(candidate, embedding));
+}
@@ -5,6 +5,7 @@ import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import {
   buildFileEntry,
   chunkMarkdown,
+  chunkMemoryDocument,
   listMemoryFiles,
   normalizeExtraMemoryPaths,
   remapChunkLines,
@@ -56,6 +57,24 @@ describe("listMemoryFiles", () => {
     expect(files.some((file) => file.endsWith("ignore.txt"))).toBe(false);
   });
 
+  it("includes other document formats when enabled", async () => {
+    const tmpDir = getTmpDir();
+    await fs.writeFile(path.join(tmpDir, "MEMORY.md"), "# Default memory");
+    const extraDir = path.join(tmpDir, "kb");
+    await fs.mkdir(extraDir, { recursive: true });
+    await fs.writeFile(path.join(extraDir, "guide.html"), "<h1>Guide</h1>");
+    await fs.writeFile(path.join(extraDir, "spec.pdf"), "%PDF-1.4");
+    await fs.writeFile(path.join(extraDir, "tool.py"), "def run():\n    pass\n");
+    await fs.writeFile(path.join(extraDir, "image.png"), "binary");
+
+    const files = await listMemoryFiles(tmpDir, [extraDir], ["markdown", "html", "pdf"]);
+    expect(files.map((file) => path.basename(file)).toSorted()).toEqual([
+      "MEMORY.md",
+      "guide.html",
+      "spec.pdf",
+    ]);
+  });
+
   it("includes files from additional paths (single file)", async () => {
     const tmpDir = getTmpDir();
     await fs.writeFile(path.join(tmpDir, "MEMORY.md"), "# Default memory");
@@ -169,6 +188,39 @@ describe("chunkMarkdown", () => {
   });
 });
 
+describe("chunkMemoryDocument", () => {
+  it("matches chunkMarkdown when the document has no sections", () => {
+    const text = "# Title\n\nSome notes\nMore notes";
+    const chunking = { tokens: 400, overlap: 0 };
+    expect(chunkMemoryDocument({ text }, chunking)).toEqual(chunkMarkdown(text, chunking));
+  });
+
+  it("packs small sections and splits on section boundaries", () => {
+    const section = (name: string) => [`## ${name}`, "x".repeat(50)].join("\n");
+    const text = [section("A"), section("B"), section("C")].join("\n");
+    // 32 tokens = 128 chars: two sections fit, the third starts a new chunk.
+    const chunks = chunkMemoryDocument(
+      { text, sectionStarts: [1, 3, 5] },
+      { tokens: 32, overlap: 0 },
+    );
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 4],
+      [5, 6],
+    ]);
+    expect(chunks[1]?.text.startsWith("## C")).toBe(true);
+  });
+
+  it("maps chunk lines to page locators", () => {
+    const text = ["page one", "still one", "page two"].join("\n");
+    const chunks = chunkMemoryDocument(
+      { text, sectionStarts: [1, 3], lineMap: [1, 1, 2] },
+      { tokens: 400, overlap: 0 },
+    );
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 2 });
+  });
+});
+
 describe("remapChunkLines", () => {
   it("remaps chunk line numbers using a lineMap", () => {
     // Simulate 5 content lines that came from JSONL lines [4, 6, 7, 10, 13] (1-indexed)
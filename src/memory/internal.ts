@@ -2,7 +2,9 @@ import crypto from "node:crypto";
 import fsSync from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { MemoryDocumentFormat } from "../config/config.js";
 import { runTasksWithConcurrency } from "../utils/run-with-concurrency.js";
+import { isMemoryDocumentPath, type ExtractedMemoryDocument } from "./document-extractors.js";
 import { isFileMissingError } from "./fs-utils.js";
 
 export type MemoryFileEntry = {
@@ -13,6 +15,8 @@ export type MemoryFileEntry = {
   hash: string;
 };
 
+const DEFAULT_MEMORY_FORMATS: readonly MemoryDocumentFormat[] = ["markdown"];
+
 export type MemoryChunk = {
   startLine: number;
   endLine: number;
@@ -56,7 +60,7 @@ export function isMemoryPath(relPath: string): boolean {
   return normalized.startsWith("memory/");
 }
 
-async function walkDir(dir: string, files: string[]) {
+async function walkDir(dir: string, files: string[], formats: readonly MemoryDocumentFormat[]) {
   const entries = await fs.readdir(dir, { withFileTypes: true });
   for (const entry of entries) {
     const full = path.join(dir, entry.name);
@@ -64,13 +68,13 @@ async function walkDir(dir: string, files: string[]) {
       continue;
     }
     if (entry.isDirectory()) {
-      await walkDir(full, files);
+      await walkDir(full, files, formats);
       continue;
     }
     if (!entry.isFile()) {
       continue;
     }
-    if (!entry.name.endsWith(".md")) {
+    if (!isMemoryDocumentPath(entry.name, formats)) {
       continue;
     }
     files.push(full);
@@ -80,6 +84,7 @@ async function walkDir(dir: string, files: string[]) {
 export async function listMemoryFiles(
   workspaceDir: string,
   extraPaths?: string[],
+  formats: readonly MemoryDocumentFormat[] = DEFAULT_MEMORY_FORMATS,
 ): Promise<string[]> {
   const result: string[] = [];
   const memoryFile = path.join(workspaceDir, "MEMORY.md");
@@ -104,7 +109,7 @@ export async function listMemoryFiles(
   try {
     const dirStat = await fs.lstat(memoryDir);
     if (!dirStat.isSymbolicLink() && dirStat.isDirectory()) {
-      await walkDir(memoryDir, result);
+      await walkDir(memoryDir, result, formats);
     }
   } catch {}
 
@@ -117,10 +122,10 @@ export async function listMemoryFiles(
           continue;
         }
         if (stat.isDirectory()) {
-          await walkDir(inputPath, result);
+          await walkDir(inputPath, result, formats);
           continue;
         }
-        if (stat.isFile() && inputPath.endsWith(".md")) {
+        if (stat.isFile() && isMemoryDocumentPath(inputPath, formats)) {
           result.push(inputPath);
         }
       } catch {}
@@ -162,16 +167,17 @@ export async function buildFileEntry(
     }
     throw err;
   }
-  let content: string;
+  let content: Buffer;
   try {
-    content = await fs.readFile(absPath, "utf-8");
+    content = await fs.readFile(absPath);
   } catch (err) {
     if (isFileMissingError(err)) {
       return null;
     }
     throw err;
   }
-  const hash = hashText(content);
+  // Hash raw bytes so binary formats (PDF) hash reliably; equals hashText() for UTF-8 text.
+  const hash = crypto.createHash("sha256").update(content).digest("hex");
   return {
     path: path.relative(workspaceDir, absPath).replace(/\\/g, "/"),
     absPath,
@@ -264,6 +270,60 @@ export function chunkMarkdown(
   return chunks;
 }
 
+/**
+ * Chunk an extracted memory document. Sections (pages, headings, code symbols) are packed
+ * together up to the chunk budget and only split internally when one section is too large,
+ * then chunk lines are mapped to the document's locators (e.g. PDF pages).
+ */
+export function chunkMemoryDocument(
+  document: ExtractedMemoryDocument,
+  chunking: { tokens: number; overlap: number },
+): MemoryChunk[] {
+  const lines = document.text.split("\n");
+  const starts = Array.from(new Set([1, ...(document.sectionStarts ?? [])]))
+    .filter((start) => start >= 1 && start <= lines.length)
+    .toSorted((a, b) => a - b);
+  if (starts.length <= 1) {
+    const chunks = chunkMarkdown(document.text, chunking);
+    remapChunkLines(chunks, document.lineMap);
+    return chunks;
+  }
+
+  const maxChars = Math.max(32, chunking.tokens * 4);
+  const chunks: MemoryChunk[] = [];
+  let groupStart = 1;
+  let groupChars = 0;
+  const flushGroup = (endExclusive: number) => {
+    if (endExclusive <= groupStart) {
+      return;
+    }
+    const text = lines.slice(groupStart - 1, endExclusive - 1).join("\n");
+    for (const chunk of chunkMarkdown(text, chunking)) {
+      chunks.push({
+        ...chunk,
+        startLine: chunk.startLine + groupStart - 1,
+        endLine: chunk.endLine + groupStart - 1,
+      });
+    }
+  };
+  for (let i = 0; i < starts.length; i += 1) {
+    const start = starts[i] ?? 1;
+    const end = starts[i + 1] ?? lines.length + 1;
+    const sectionChars = lines
+      .slice(start - 1, end - 1)
+      .reduce((sum, line) => sum + line.length + 1, 0);
+    if (groupChars > 0 && groupChars + sectionChars > maxChars) {
+      flushGroup(start);
+      groupStart = start;
+      groupChars = 0;
+    }
+    groupChars += sectionChars;
+  }
+  flushGroup(lines.length + 1);
+  remapChunkLines(chunks, document.lineMap);
+  return chunks;
+}
+
 /**
  * Remap chunk startLine/endLine from content-relative positions to original
  * source file positions using a lineMap.  Each entry in lineMap gives the
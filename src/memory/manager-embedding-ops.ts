@@ -1,4 +1,3 @@
-import fs from "node:fs/promises";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { runGeminiEmbeddingBatches, type GeminiBatchRequest } from "./batch-gemini.js";
 import {
@@ -7,10 +6,15 @@ import {
   runOpenAiEmbeddingBatches,
 } from "./batch-openai.js";
 import { type VoyageBatchRequest, runVoyageEmbeddingBatches } from "./batch-voyage.js";
+import {
+  extractMemoryDocument,
+  isMemoryDocumentPath,
+  type ExtractedMemoryDocument,
+} from "./document-extractors.js";
 import { enforceEmbeddingMaxInputTokens } from "./embedding-chunk-limits.js";
 import { estimateUtf8Bytes } from "./embedding-input-limits.js";
 import {
-  chunkMarkdown,
+  chunkMemoryDocument,
   hashText,
   parseEmbedding,
   remapChunkLines,
@@ -174,7 +178,7 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       .run(excess);
   }
 
-  private async embedChunksInBatches(chunks: MemoryChunk[]): Promise<number[][]> {
+  protected async embedChunksInBatches(chunks: MemoryChunk[]): Promise<number[][]> {
     if (chunks.length === 0) {
       return [];
     }
@@ -703,10 +707,23 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       return;
     }
 
-    const content = options.content ?? (await fs.readFile(entry.absPath, "utf-8"));
+    let document: ExtractedMemoryDocument;
+    try {
+      document =
+        options.content !== undefined
+          ? { text: options.content }
+          : await extractMemoryDocument(entry.absPath);
+    } catch (err) {
+      // A broken PDF (or missing optional extractor dependency) should not stall the whole sync.
+      if (isMemoryDocumentPath(entry.absPath, ["markdown"])) {
+        throw err;
+      }
+      log.warn(`memory sync: skipping ${entry.path}; extraction failed: ${String(err)}`);
+      return;
+    }
     const chunks = enforceEmbeddingMaxInputTokens(
       this.provider,
-      chunkMarkdown(content, this.settings.chunking).filter(
+      chunkMemoryDocument(document, this.settings.chunking).filter(
         (chunk) => chunk.text.trim().length > 0,
       ),
       EMBEDDING_BATCH_MAX_TOKENS,
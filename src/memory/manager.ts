@@ -7,6 +7,12 @@ import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  extractMemoryDocument,
+  isMemoryDocumentPath,
+  sliceMemoryDocument,
+  type ExtractedMemoryDocument,
+} from "./document-extractors.js";
 import {
   createEmbeddingProvider,
   type EmbeddingProvider,
@@ -18,10 +24,11 @@ import {
 } from "./embeddings.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
-import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
+import { hashText, isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { extractKeywords } from "./query-expansion.js";
+import { applyRerankScores, createMemoryReranker, type MemoryReranker } from "./rerank.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
@@ -104,6 +111,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private readonlyRecoverySuccesses = 0;
   private readonlyRecoveryFailures = 0;
   private readonlyRecoveryLastError?: string;
+  private rerankerPromise: Promise<MemoryReranker> | null = null;
+  private rerankFallbacks = 0;
+  private rerankLastError?: string;
+  private rerankLastDurationMs?: number;
 
   static async get(params: {
     cfg: OpenClawConfig;
@@ -281,12 +292,9 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         }
       }
 
-      const merged = [...seenIds.values()]
-        .toSorted((a, b) => b.score - a.score)
-        .filter((entry) => entry.score >= minScore)
-        .slice(0, maxResults);
+      const merged = [...seenIds.values()].toSorted((a, b) => b.score - a.score);
 
-      return merged;
+      return await this.rankAndTruncate(cleaned, merged, minScore, maxResults);
     }
 
     const keywordResults = hybrid.enabled
@@ -300,7 +308,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return await this.rankAndTruncate(cleaned, vectorResults, minScore, maxResults);
     }
 
     const merged = await this.mergeHybridResults({
@@ -312,7 +320,73 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       temporalDecay: hybrid.temporalDecay,
     });
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+    return await this.rankAndTruncate(cleaned, merged, minScore, maxResults);
+  }
+
+  /** Apply the score threshold, the optional rerank stage, then the result cap. */
+  private async rankAndTruncate<T extends MemorySearchResult>(
+    query: string,
+    results: T[],
+    minScore: number,
+    maxResults: number,
+  ): Promise<T[]> {
+    const eligible = results.filter((entry) => entry.score >= minScore);
+    const ranked = await this.rerankResults(query, eligible);
+    return ranked.slice(0, maxResults);
+  }
+
+  private async rerankResults<T extends MemorySearchResult>(
+    query: string,
+    results: T[],
+  ): Promise<T[]> {
+    const rerank = this.settings.query.rerank;
+    if (!rerank.enabled || results.length < 2) {
+      return results;
+    }
+    const candidates = results.slice(0, rerank.topN);
+    const startedAt = Date.now();
+    try {
+      const scores = await this.withTimeout(
+        (async () => {
+          const reranker = await this.ensureReranker();
+          return await reranker.rerank(
+            query,
+            candidates.map((entry) => entry.snippet),
+          );
+        })(),
+        rerank.timeoutMs,
+        `memory rerank timed out after ${rerank.timeoutMs}ms`,
+      );
+      if (scores.length !== candidates.length) {
+        throw new Error(
+          `memory rerank returned ${scores.length} scores for ${candidates.length} candidates`,
+        );
+      }
+      this.rerankLastDurationMs = Date.now() - startedAt;
+      this.rerankLastError = undefined;
+      return applyRerankScores(results, scores);
+    } catch (err) {
+      // Reranking is best-effort: keep the fused ranking rather than failing the search.
+      const message = err instanceof Error ? err.message : String(err);
+      this.rerankFallbacks += 1;
+      this.rerankLastError = message;
+      log.warn(`memory rerank failed; using fused ranking: ${message}`);
+      return results;
+    }
+  }
+
+  private ensureReranker(): Promise<MemoryReranker> {
+    if (!this.rerankerPromise) {
+      this.rerankerPromise = createMemoryReranker({
+        settings: this.settings.query.rerank,
+        config: this.cfg,
+        agentDir: resolveAgentDir(this.cfg, this.agentId),
+      }).catch((err) => {
+        this.rerankerPromise = null;
+        throw err;
+      });
+    }
+    return this.rerankerPromise;
   }
 
   private async searchVector(
@@ -417,6 +491,23 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return this.syncing ?? Promise.resolve();
   }
 
+  async syncAfterWrite(): Promise<void> {
+    // A sync already in flight may have listed files before the write landed.
+    await this.syncing?.catch(() => {});
+    this.dirty = true;
+    await this.sync({ reason: "memory-write" });
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (!this.provider || texts.length === 0) {
+      return texts.map(() => []);
+    }
+    // Same path as indexing so repeated texts hit the embedding cache.
+    return await this.embedChunksInBatches(
+      texts.map((text) => ({ startLine: 0, endLine: 0, text, hash: hashText(text) })),
+    );
+  }
+
   private isReadonlyDbError(err: unknown): boolean {
     const readonlyPattern =
       /attempt to write a readonly database|database is read-only|SQLITE_READONLY/i;
@@ -538,7 +629,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
             continue;
           }
           if (stat.isFile()) {
-            if (absPath === additionalPath && absPath.endsWith(".md")) {
+            if (absPath === additionalPath) {
               allowedAdditional = true;
               break;
             }
@@ -549,16 +640,16 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!allowedWorkspace && !allowedAdditional) {
       throw new Error("path required");
     }
-    if (!absPath.endsWith(".md")) {
+    if (!isMemoryDocumentPath(absPath, this.settings.formats)) {
       throw new Error("path required");
     }
     const statResult = await statRegularFile(absPath);
     if (statResult.missing) {
       return { text: "", path: relPath };
     }
-    let content: string;
+    let document: ExtractedMemoryDocument;
     try {
-      content = await fs.readFile(absPath, "utf-8");
+      document = await extractMemoryDocument(absPath);
     } catch (err) {
       if (isFileMissingError(err)) {
         return { text: "", path: relPath };
@@ -566,13 +657,9 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       throw err;
     }
     if (!params.from && !params.lines) {
-      return { text: content, path: relPath };
+      return { text: document.text, path: relPath };
     }
-    const lines = content.split("\n");
-    const start = Math.max(1, params.from ?? 1);
-    const count = Math.max(1, params.lines ?? lines.length);
-    const slice = lines.slice(start - 1, start - 1 + count);
-    return { text: slice.join("\n"), path: relPath };
+    return { text: sliceMemoryDocument(document, params.from, params.lines), path: relPath };
   }
 
   status(): MemoryProviderStatus {
@@ -637,6 +724,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       requestedProvider: this.requestedProvider,
       sources: Array.from(this.sources),
       extraPaths: this.settings.extraPaths,
+      formats: this.settings.formats,
       sourceCounts,
       cache: this.cache.enabled
         ? {
@@ -665,6 +753,16 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         loadError: this.vector.loadError,
         dims: this.vector.dims,
       },
+      rerank: {
+        enabled: this.settings.query.rerank.enabled,
+        provider: this.settings.query.rerank.provider,
+        model: this.settings.query.rerank.model,
+        topN: this.settings.query.rerank.topN,
+        timeoutMs: this.settings.query.rerank.timeoutMs,
+        fallbacks: this.rerankFallbacks,
+        lastError: this.rerankLastError,
+        lastDurationMs: this.rerankLastDurationMs,
+      },
       batch: {
         enabled: this.batch.enabled,
         failures: this.batchFailureCount,
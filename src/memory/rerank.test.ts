@@ -0,0 +1,136 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexManager } from "./index.js";
+import { applyRerankScores, parseRerankScores, type MemoryReranker } from "./rerank.js";
+import { createOpenAIEmbeddingProviderMock } from "./test-embeddings-mock.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+
+const rerank = vi.fn<MemoryReranker["rerank"]>();
+
+vi.mock("./embeddings.js", () => ({
+  createEmbeddingProvider: async (_options: unknown) =>
+    createOpenAIEmbeddingProviderMock({
+      embedQuery: async () => [0.2, 0.2, 0.2],
+      embedBatch: async (input: string[]) => input.map(() => [0.2, 0.2, 0.2]),
+    }),
+}));
+
+vi.mock("./rerank.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./rerank.js")>();
+  return {
+    ...actual,
+    createMemoryReranker: async () => ({ id: "local", model: "test-reranker", rerank }),
+  };
+});
+
+describe("memory rerank helpers", () => {
+  it("maps Voyage and Cohere responses onto input order", () => {
+    expect(
+      parseRerankScores(
+        {
+          data: [
+            { index: 1, relevance_score: 0.9 },
+            { index: 0, relevance_score: 0.2 },
+          ],
+        },
+        2,
+      ),
+    ).toEqual([0.2, 0.9]);
+    expect(parseRerankScores({ results: [{ index: 2, relevance_score: 0.5 }] }, 3)).toEqual([
+      0, 0, 0.5,
+    ]);
+    expect(() => parseRerankScores({}, 1)).toThrow("rerank response missing results");
+  });
+
+  it("reorders only the reranked head and keeps the tail order", () => {
+    const results = [
+      { id: "a", score: 0.9 },
+      { id: "b", score: 0.8 },
+      { id: "c", score: 0.7 },
+    ];
+    expect(applyRerankScores(results, [0.1, 0.6])).toEqual([
+      { id: "b", score: 0.6 },
+      { id: "a", score: 0.1 },
+      { id: "c", score: 0.7 },
+    ]);
+  });
+});
+
+describe("memory search rerank stage", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  const buildConfig = (rerankTimeoutMs = 1000): OpenClawConfig => ({
+    agents: {
+      defaults: {
+        workspace: workspaceDir,
+        memorySearch: {
+          provider: "openai",
+          model: "text-embedding-3-small",
+          store: { path: path.join(workspaceDir, "index.sqlite") },
+          sync: { watch: false, onSessionStart: false, onSearch: false },
+          query: {
+            minScore: 0,
+            hybrid: { enabled: false },
+            rerank: { enabled: true, timeoutMs: rerankTimeoutMs },
+          },
+          cache: { enabled: false },
+        },
+      },
+      list: [{ id: "main", default: true }],
+    },
+  });
+
+  beforeEach(async () => {
+    rerank.mockReset();
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-rerank-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"));
+    await fs.writeFile(path.join(workspaceDir, "memory", "a.md"), "Alpha project notes.\n");
+    await fs.writeFile(path.join(workspaceDir, "memory", "b.md"), "Beta launch checklist.\n");
+  });
+
+  afterEach(async () => {
+    if (manager) {
+      await manager.close();
+      manager = null;
+    }
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("orders results by reranker score", async () => {
+    rerank.mockImplementation(async (_query, documents) =>
+      documents.map((doc) => (doc.includes("Beta") ? 0.9 : 0.1)),
+    );
+    manager = await createMemoryManagerOrThrow(buildConfig());
+    await manager.sync({ reason: "test" });
+
+    const results = await manager.search("launch");
+    expect(results.map((entry) => [entry.path, entry.score])).toEqual([
+      ["memory/b.md", 0.9],
+      ["memory/a.md", 0.1],
+    ]);
+    expect(rerank).toHaveBeenCalledWith("launch", expect.any(Array));
+    expect(manager.status().rerank).toMatchObject({
+      enabled: true,
+      provider: "local",
+      fallbacks: 0,
+    });
+  });
+
+  it("keeps the current ranking when the reranker times out", async () => {
+    rerank.mockImplementation(() => new Promise(() => {}));
+    manager = await createMemoryManagerOrThrow(buildConfig(20));
+    await manager.sync({ reason: "test" });
+
+    const results = await manager.search("launch");
+    expect(results).toHaveLength(2);
+    expect(results.every((entry) => entry.score > 0.5)).toBe(true);
+    expect(manager.status().rerank).toMatchObject({
+      fallbacks: 1,
+      lastError: "memory rerank timed out after 20ms",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import type { LlamaRankingContext } from "node-llama-cpp";
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveRemoteEmbeddingBearerClient } from "./embeddings-remote-client.js";
+import { importNodeLlamaCpp } from "./node-llama.js";
+import { postJson } from "./post-json.js";
+
+/**
+ * Optional cross-encoder rerank stage for memory search.
+ *
+ * Runs after hybrid merge (and MMR / temporal decay) over the top candidates, scoring each
+ * snippet against the query with a local GGUF reranker or a hosted Voyage/Cohere rerank API.
+ */
+
+export type MemoryRerankSettings = ResolvedMemorySearchConfig["query"]["rerank"];
+
+export type MemoryReranker = {
+  id: MemoryRerankSettings["provider"];
+  model: string;
+  /** Relevance score per document (higher is better), in input order. */
+  rerank: (query: string, documents: string[]) => Promise<number[]>;
+};
+
+const DEFAULT_REMOTE_BASE_URLS = {
+  voyage: "https://api.voyageai.com/v1",
+  cohere: "https://api.cohere.com/v2",
+} as const;
+
+function createLocalReranker(settings: MemoryRerankSettings): MemoryReranker {
+  let contextPromise: Promise<LlamaRankingContext> | null = null;
+
+  const ensureContext = () => {
+    if (!contextPromise) {
+      contextPromise = (async () => {
+        // Lazy-load node-llama-cpp so remote-only setups never pay for it.
+        const { getLlama, resolveModelFile, LlamaLogLevel } = await importNodeLlamaCpp();
+        const llama = await getLlama({ logLevel: LlamaLogLevel.error });
+        const resolved = await resolveModelFile(settings.model, settings.modelCacheDir);
+        const model = await llama.loadModel({ modelPath: resolved });
+        return await model.createRankingContext();
+      })().catch((err) => {
+        contextPromise = null;
+        throw err;
+      });
+    }
+    return contextPromise;
+  };
+
+  return {
+    id: "local",
+    model: settings.model,
+    rerank: async (query, documents) => {
+      const ctx = await ensureContext();
+      return await ctx.rankAll(query, documents);
+    },
+  };
+}
+
+/** Map a Voyage (`data`) or Cohere (`results`) rerank response onto input order. */
+export function parseRerankScores(payload: unknown, count: number): number[] {
+  const typed = payload as {
+    data?: Array<{ index?: number; relevance_score?: number }>;
+    results?: Array<{ index?: number; relevance_score?: number }>;
+  };
+  const entries = typed.data ?? typed.results;
+  if (!Array.isArray(entries)) {
+    throw new Error("rerank response missing results");
+  }
+  const scores = Array.from({ length: count }, () => 0);
+  for (const entry of entries) {
+    if (
+      typeof entry.index === "number" &&
+      entry.index >= 0 &&
+      entry.index < count &&
+      typeof entry.relevance_score === "number"
+    ) {
+      scores[entry.index] = entry.relevance_score;
+    }
+  }
+  return scores;
+}
+
+async function createRemoteReranker(params: {
+  provider: "voyage" | "cohere";
+  settings: MemoryRerankSettings;
+  config: OpenClawConfig;
+  agentDir?: string;
+}): Promise<MemoryReranker> {
+  const client = await resolveRemoteEmbeddingBearerClient({
+    provider: params.provider,
+    options: { config: params.config, agentDir: params.agentDir, remote: params.settings.remote },
+    defaultBaseUrl: DEFAULT_REMOTE_BASE_URLS[params.provider],
+  });
+  const url = `${client.baseUrl.replace(/\/$/, "")}/rerank`;
+  const model = params.settings.model;
+  return {
+    id: params.provider,
+    model,
+    rerank: async (query, documents) =>
+      await postJson({
+        url,
+        headers: client.headers,
+        ssrfPolicy: client.ssrfPolicy,
+        body: { model, query, documents },
+        errorPrefix: `${params.provider} rerank failed`,
+        parse: (payload) => parseRerankScores(payload, documents.length),
+      }),
+  };
+}
+
+export async function createMemoryReranker(params: {
+  settings: MemoryRerankSettings;
+  config: OpenClawConfig;
+  agentDir?: string;
+}): Promise<MemoryReranker> {
+  if (params.settings.provider === "local") {
+    return createLocalReranker(params.settings);
+  }
+  return await createRemoteReranker({ ...params, provider: params.settings.provider });
+}
+
+/**
+ * Reorder the leading results by rerank score. Reranked results take the rerank score;
+ * results past `scores.length` keep their original order after them.
+ */
+export function applyRerankScores<T extends { score: number }>(
+  results: T[],
+  scores: number[],
+): T[] {
+  const head = results
+    .slice(0, scores.length)
+    .map((entry, index) => ({ entry, score: scores[index] ?? 0, index }))
+    // Stable on ties so equal rerank scores keep the fused order.
+    .toSorted((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry, score }) => ({ ...entry, score }));
+  return [...head, ...results.slice(scores.length)];
+}
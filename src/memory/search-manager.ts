@@ -162,6 +162,21 @@ class FallbackMemoryManager implements MemorySearchManager {
     await fallback?.sync?.(params);
   }
 
+  async syncAfterWrite() {
+    if (!this.primaryFailed) {
+      await (this.deps.primary.syncAfterWrite?.() ??
+        this.deps.primary.sync?.({ reason: "memory-write" }));
+      return;
+    }
+    const fallback = await this.ensureFallback();
+    await fallback?.syncAfterWrite?.();
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    const manager = this.primaryFailed ? await this.ensureFallback() : this.deps.primary;
+    return (await manager?.embedTexts?.(texts)) ?? texts.map(() => []);
+  }
+
   async probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult> {
     if (!this.primaryFailed) {
       return await this.deps.primary.probeEmbeddingAvailability();
@@ -1,3 +1,5 @@
+import type { MemoryDocumentFormat } from "../config/config.js";
+
 export type MemorySource = "memory" | "sessions";
 
 export type MemorySearchResult = {
@@ -32,6 +34,7 @@ export type MemoryProviderStatus = {
   workspaceDir?: string;
   dbPath?: string;
   extraPaths?: string[];
+  formats?: MemoryDocumentFormat[];
   sources?: MemorySource[];
   sourceCounts?: Array<{ source: MemorySource; files: number; chunks: number }>;
   cache?: { enabled: boolean; entries?: number; maxEntries?: number };
@@ -44,6 +47,17 @@ export type MemoryProviderStatus = {
     loadError?: string;
     dims?: number;
   };
+  rerank?: {
+    enabled: boolean;
+    provider: string;
+    model: string;
+    topN: number;
+    timeoutMs: number;
+    /** Searches that kept the fused ranking because reranking failed or timed out. */
+    fallbacks: number;
+    lastError?: string;
+    lastDurationMs?: number;
+  };
   batch?: {
     enabled: boolean;
     failures: number;
@@ -74,6 +88,10 @@ export interface MemorySearchManager {
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  /** Reindex after an in-process write to a memory file; unchanged files are skipped. */
+  syncAfterWrite?(): Promise<void>;
+  /** Embed texts with the index provider; returns empty vectors when embeddings are unavailable. */
+  embedTexts?(texts: string[]): Promise<number[][]>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
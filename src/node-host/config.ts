@@ -10,12 +10,34 @@ export type NodeHostGatewayConfig = {
   tlsFingerprint?: string;
 };
 
+/**
+ * Path allowlists for the `fs.*` node commands. Entries are files or directories
+ * (absolute or `~/...`); a directory entry covers everything below it.
+ */
+export type NodeHostFsConfig = {
+  /** Paths `fs.read`, `fs.list` and `fs.stat` may access without approval. */
+  read?: string[];
+  /** Paths `fs.write` may create or replace without approval. */
+  write?: string[];
+  /** `on-miss` (default) asks for approval outside the allowlists; `off` denies instead. */
+  ask?: "off" | "on-miss";
+  /** Exact paths approved with `allow-always`, per command. Unlike `read`/`write`, no subtree coverage. */
+  allowAlways?: NodeHostFsAllowAlways;
+};
+
+export type NodeHostFsCommand = "fs.stat" | "fs.list" | "fs.read" | "fs.write";
+
+export type NodeHostFsAllowAlways = Partial<Record<NodeHostFsCommand, string[]>>;
+
+const NODE_HOST_FS_COMMANDS: NodeHostFsCommand[] = ["fs.stat", "fs.list", "fs.read", "fs.write"];
+
 export type NodeHostConfig = {
   version: 1;
   nodeId: string;
   token?: string;
   displayName?: string;
   gateway?: NodeHostGatewayConfig;
+  fs?: NodeHostFsConfig;
 };
 
 const NODE_HOST_FILE = "node.json";
@@ -24,6 +46,46 @@ export function resolveNodeHostConfigPath(): string {
   return path.join(resolveStateDir(), NODE_HOST_FILE);
 }
 
+function normalizePathList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const paths = value
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return paths.length > 0 ? Array.from(new Set(paths)) : undefined;
+}
+
+function normalizeFsAllowAlways(value: unknown): NodeHostFsAllowAlways | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const result: NodeHostFsAllowAlways = {};
+  for (const command of NODE_HOST_FS_COMMANDS) {
+    const paths = normalizePathList(raw[command]);
+    if (paths) {
+      result[command] = paths;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function normalizeFsConfig(config: NodeHostFsConfig | undefined): NodeHostFsConfig | undefined {
+  if (!config || typeof config !== "object") {
+    return undefined;
+  }
+  const read = normalizePathList(config.read);
+  const write = normalizePathList(config.write);
+  const ask = config.ask === "off" || config.ask === "on-miss" ? config.ask : undefined;
+  const allowAlways = normalizeFsAllowAlways(config.allowAlways);
+  if (!read && !write && !ask && !allowAlways) {
+    return undefined;
+  }
+  return { read, write, ask, allowAlways };
+}
+
 function normalizeConfig(config: Partial<NodeHostConfig> | null): NodeHostConfig {
   const base: NodeHostConfig = {
     version: 1,
@@ -31,6 +93,7 @@ function normalizeConfig(config: Partial<NodeHostConfig> | null): NodeHostConfig
     token: config?.token,
     displayName: config?.displayName,
     gateway: config?.gateway,
+    fs: normalizeFsConfig(config?.fs),
   };
   if (config?.version === 1 && typeof config.nodeId === "string") {
     base.nodeId = config.nodeId.trim();
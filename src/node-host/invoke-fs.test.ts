@@ -0,0 +1,229 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { withStateDirEnv } from "../test-helpers/state-dir-env.js";
+import { loadNodeHostConfig, saveNodeHostConfig, type NodeHostFsConfig } from "./config.js";
+import { handleFsInvoke } from "./invoke-fs.js";
+
+async function withFsNode<T>(
+  fsConfig: (root: string) => NodeHostFsConfig,
+  fn: (root: string) => Promise<T>,
+): Promise<T> {
+  return await withStateDirEnv("openclaw-node-fs-", async ({ tempRoot }) => {
+    const root = await fs.realpath(tempRoot);
+    await fs.mkdir(path.join(root, "logs"));
+    await fs.mkdir(path.join(root, "etc"));
+    await saveNodeHostConfig({ version: 1, nodeId: "node-1", fs: fsConfig(root) });
+    return await fn(root);
+  });
+}
+
+function expectPayload(result: Awaited<ReturnType<typeof handleFsInvoke>>) {
+  if (!result.ok) {
+    throw new Error(result.message);
+  }
+  return result.payload as Record<string, unknown>;
+}
+
+describe("handleFsInvoke", () => {
+  it("reads allowlisted files in chunks with a whole-file digest", async () => {
+    await withFsNode(
+      (root) => ({ read: [path.join(root, "logs")] }),
+      async (root) => {
+        const file = path.join(root, "logs", "app.log");
+        await fs.writeFile(file, "0123456789");
+
+        const first = expectPayload(
+          await handleFsInvoke("fs.read", { path: file, offset: 0, length: 6 }),
+        );
+        expect(first).toMatchObject({ size: 10, bytesRead: 6, eof: false });
+        expect(first.sha256).toBeUndefined();
+
+        const last = expectPayload(
+          await handleFsInvoke("fs.read", { path: file, offset: 6, length: 6 }),
+        );
+        expect(last).toMatchObject({ bytesRead: 4, eof: true });
+        expect(Buffer.from(String(last.data), "base64").toString()).toBe("6789");
+        expect(last.sha256).toBe(crypto.createHash("sha256").update("0123456789").digest("hex"));
+
+        const listing = expectPayload(
+          await handleFsInvoke("fs.list", { path: path.join(root, "logs") }),
+        );
+        expect(listing.entries).toEqual([
+          expect.objectContaining({ name: "app.log", type: "file", size: 10 }),
+        ]);
+      },
+    );
+  });
+
+  it("asks for approval outside the allowlist and follows symlinks before checking", async () => {
+    await withFsNode(
+      (root) => ({ read: [path.join(root, "logs")] }),
+      async (root) => {
+        const secret = path.join(root, "etc", "secret");
+        await fs.writeFile(secret, "nope");
+        const link = path.join(root, "logs", "escape");
+        await fs.symlink(secret, link);
+
+        expect(await handleFsInvoke("fs.read", { path: link })).toEqual({
+          ok: false,
+          code: "UNAVAILABLE",
+          message: "FS_DENIED: approval required",
+        });
+        await expect(handleFsInvoke("fs.stat", { path: "etc/secret" })).rejects.toThrow(
+          "path must be absolute",
+        );
+      },
+    );
+  });
+
+  it("denies outright when ask is off", async () => {
+    await withFsNode(
+      () => ({ ask: "off" }),
+      async (root) => {
+        const result = await handleFsInvoke("fs.stat", { path: path.join(root, "etc") });
+        expect(result).toMatchObject({ ok: false, message: "FS_DENIED: path not allowlisted" });
+      },
+    );
+  });
+
+  it("remembers allow-always approvals for the exact command only", async () => {
+    await withFsNode(
+      () => ({}),
+      async (root) => {
+        const dir = path.join(root, "etc");
+        const file = path.join(dir, "app.conf");
+        await fs.writeFile(file, "secret");
+        const result = await handleFsInvoke("fs.list", {
+          path: dir,
+          approved: true,
+          approvalDecision: "allow-always",
+        });
+        expect(expectPayload(result).entries).toHaveLength(1);
+
+        const config = await loadNodeHostConfig();
+        expect(config?.fs?.read).toBeUndefined();
+        expect(config?.fs?.allowAlways).toEqual({ "fs.list": [dir] });
+        expect(expectPayload(await handleFsInvoke("fs.list", { path: dir })).path).toBe(dir);
+        expect(await handleFsInvoke("fs.read", { path: file })).toMatchObject({
+          ok: false,
+          message: "FS_DENIED: approval required",
+        });
+        expect(await handleFsInvoke("fs.stat", { path: dir })).toMatchObject({ ok: false });
+      },
+    );
+  });
+
+  it("does not let an allow-once stat or list unlock reads of the same path", async () => {
+    await withFsNode(
+      () => ({}),
+      async (root) => {
+        const file = path.join(root, "etc", "app.conf");
+        await fs.writeFile(file, "secret");
+        expectPayload(
+          await handleFsInvoke("fs.stat", {
+            path: file,
+            approved: true,
+            approvalDecision: "allow-once",
+          }),
+        );
+
+        expect(await handleFsInvoke("fs.read", { path: file })).toMatchObject({
+          ok: false,
+          message: "FS_DENIED: approval required",
+        });
+        expectPayload(await handleFsInvoke("fs.stat", { path: file }));
+      },
+    );
+  });
+
+  it("ties an allow-once write approval to a single upload", async () => {
+    await withFsNode(
+      () => ({}),
+      async (root) => {
+        const target = path.join(root, "etc", "app.conf");
+        const first = expectPayload(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            data: Buffer.from("hello ").toString("base64"),
+            approved: true,
+            approvalDecision: "allow-once",
+          }),
+        );
+        expectPayload(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            transferId: first.transferId,
+            offset: 6,
+            data: Buffer.from("world").toString("base64"),
+            final: true,
+          }),
+        );
+        expect(await fs.readFile(target, "utf8")).toBe("hello world");
+
+        expect(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            data: Buffer.from("again").toString("base64"),
+            overwrite: true,
+            final: true,
+          }),
+        ).toMatchObject({ ok: false, message: "FS_DENIED: approval required" });
+        expect(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            transferId: first.transferId,
+            offset: 11,
+            data: "",
+          }),
+        ).toMatchObject({ ok: false, message: "FS_DENIED: approval required" });
+        expect(await fs.readFile(target, "utf8")).toBe("hello world");
+      },
+    );
+  });
+
+  it("writes chunked uploads atomically and refuses to clobber without overwrite", async () => {
+    await withFsNode(
+      (root) => ({ write: [path.join(root, "etc")] }),
+      async (root) => {
+        const target = path.join(root, "etc", "app.conf");
+        const first = expectPayload(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            data: Buffer.from("hello ").toString("base64"),
+          }),
+        );
+        expect(first).toMatchObject({ size: 6, done: false });
+        await expect(fs.stat(target)).rejects.toThrow();
+
+        await expect(
+          handleFsInvoke("fs.write", {
+            path: target,
+            transferId: first.transferId,
+            offset: 3,
+            data: "",
+          }),
+        ).rejects.toThrow("expected offset 6");
+
+        const last = expectPayload(
+          await handleFsInvoke("fs.write", {
+            path: target,
+            transferId: first.transferId,
+            offset: 6,
+            data: Buffer.from("world").toString("base64"),
+            final: true,
+            sha256: crypto.createHash("sha256").update("hello world").digest("hex"),
+          }),
+        );
+        expect(last).toMatchObject({ size: 11, done: true });
+        expect(await fs.readFile(target, "utf8")).toBe("hello world");
+        expect(await fs.readdir(path.join(root, "etc"))).toEqual(["app.conf"]);
+
+        await expect(
+          handleFsInvoke("fs.write", { path: target, data: "", final: true }),
+        ).rejects.toThrow("file exists");
+      },
+    );
+  });
+});
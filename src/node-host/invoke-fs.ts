@@ -0,0 +1,423 @@
+import crypto from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { isNotFoundPathError, isPathInside } from "../infra/path-guards.js";
+import { resolveUserPath } from "../utils.js";
+import {
+  loadNodeHostConfig,
+  saveNodeHostConfig,
+  type NodeHostConfig,
+  type NodeHostFsCommand,
+  type NodeHostFsConfig,
+} from "./config.js";
+import { resolveExecApprovalDecision } from "./exec-policy.js";
+
+export const FS_DEFAULT_CHUNK_BYTES = 512 * 1024;
+export const FS_MAX_CHUNK_BYTES = 4 * 1024 * 1024;
+const FS_LIST_DEFAULT_LIMIT = 200;
+const FS_LIST_MAX_LIMIT = 2000;
+// An allow-once approval covers follow-up calls of the same command on the same path (the
+// remaining chunks of an `fs.read`). Writes are instead tied to the approved upload.
+const FS_GRANT_TTL_MS = 10 * 60_000;
+const FS_UPLOAD_TTL_MS = 10 * 60_000;
+
+type FsAccess = "read" | "write";
+
+export type FsInvokeParams = {
+  path?: unknown;
+  offset?: unknown;
+  length?: unknown;
+  data?: unknown;
+  transferId?: unknown;
+  final?: unknown;
+  sha256?: unknown;
+  overwrite?: unknown;
+  limit?: unknown;
+  approved?: unknown;
+  approvalDecision?: unknown;
+};
+
+export type FsInvokeResult =
+  | { ok: true; payload: unknown }
+  | { ok: false; code: "UNAVAILABLE"; message: string };
+
+type FsEntryType = "file" | "dir" | "symlink" | "other";
+
+type FsUpload = {
+  path: string;
+  tempPath: string;
+  size: number;
+  hash: crypto.Hash;
+  expiresAtMs: number;
+};
+
+const grants = new Map<string, number>();
+const uploads = new Map<string, FsUpload>();
+
+function grantKey(command: NodeHostFsCommand, target: string) {
+  return `${command}:${target}`;
+}
+
+function hasGrant(command: NodeHostFsCommand, target: string, nowMs: number): boolean {
+  const expiresAtMs = grants.get(grantKey(command, target));
+  return expiresAtMs !== undefined && expiresAtMs > nowMs;
+}
+
+/** Follow-up chunks of an upload were authorized when the upload started. */
+function isAuthorizedUploadChunk(invoke: FsInvokeParams, target: string): boolean {
+  const transferId = typeof invoke.transferId === "string" ? invoke.transferId.trim() : "";
+  return Boolean(transferId) && uploads.get(transferId)?.path === target;
+}
+
+function sweepExpired(nowMs: number) {
+  for (const [key, expiresAtMs] of grants) {
+    if (expiresAtMs <= nowMs) {
+      grants.delete(key);
+    }
+  }
+  for (const [id, upload] of uploads) {
+    if (upload.expiresAtMs <= nowMs) {
+      uploads.delete(id);
+      void fs.rm(upload.tempPath, { force: true }).catch(() => {});
+    }
+  }
+}
+
+function entryType(stat: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): FsEntryType {
+  if (stat.isFile()) {
+    return "file";
+  }
+  if (stat.isDirectory()) {
+    return "dir";
+  }
+  if (stat.isSymbolicLink()) {
+    return "symlink";
+  }
+  return "other";
+}
+
+function readRequiredPath(params: FsInvokeParams): string {
+  const raw = typeof params.path === "string" ? params.path.trim() : "";
+  if (!raw) {
+    throw new Error("INVALID_REQUEST: path required");
+  }
+  if (!path.isAbsolute(raw) && !raw.startsWith("~")) {
+    throw new Error("INVALID_REQUEST: path must be absolute");
+  }
+  return resolveUserPath(raw);
+}
+
+function readNonNegativeInt(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`INVALID_REQUEST: ${label} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/** Resolve symlinks so allowlist checks apply to the file that is actually touched. */
+async function resolveRealTarget(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (err) {
+    if (!isNotFoundPathError(err)) {
+      throw err;
+    }
+    const parent = await fs.realpath(path.dirname(target));
+    return path.join(parent, path.basename(target));
+  }
+}
+
+async function resolveAllowedRoots(entries: string[] | undefined): Promise<string[]> {
+  const roots: string[] = [];
+  for (const entry of entries ?? []) {
+    const resolved = resolveUserPath(entry);
+    if (!resolved) {
+      continue;
+    }
+    roots.push(await fs.realpath(resolved).catch(() => resolved));
+  }
+  return roots;
+}
+
+async function isAllowlisted(
+  fsConfig: NodeHostFsConfig | undefined,
+  access: FsAccess,
+  target: string,
+) {
+  const roots = await resolveAllowedRoots(access === "read" ? fsConfig?.read : fsConfig?.write);
+  return roots.some((root) => isPathInside(root, target));
+}
+
+function isAllowedAlways(
+  fsConfig: NodeHostFsConfig | undefined,
+  command: NodeHostFsCommand,
+  target: string,
+) {
+  return fsConfig?.allowAlways?.[command]?.includes(target) ?? false;
+}
+
+/** Remember the exact command and path that was approved; never widen it to a subtree. */
+async function persistAllowAlways(
+  config: NodeHostConfig,
+  command: NodeHostFsCommand,
+  target: string,
+) {
+  const fsConfig = config.fs ?? {};
+  const current = fsConfig.allowAlways?.[command] ?? [];
+  if (current.includes(target)) {
+    return;
+  }
+  config.fs = {
+    ...fsConfig,
+    allowAlways: { ...fsConfig.allowAlways, [command]: [...current, target] },
+  };
+  await saveNodeHostConfig(config);
+}
+
+/**
+ * Allowlisted paths pass; anything else needs a gateway-verified approval for this exact
+ * command and path (or an unexpired grant from one) unless `fs.ask` is `off`, which denies
+ * outright.
+ */
+async function authorizeFsAccess(params: {
+  command: NodeHostFsCommand;
+  target: string;
+  invoke: FsInvokeParams;
+  nowMs: number;
+}): Promise<FsInvokeResult | null> {
+  const access: FsAccess = params.command === "fs.write" ? "write" : "read";
+  const config = await loadNodeHostConfig();
+  if (await isAllowlisted(config?.fs, access, params.target)) {
+    return null;
+  }
+  if (isAllowedAlways(config?.fs, params.command, params.target)) {
+    return null;
+  }
+  if (
+    params.command === "fs.write"
+      ? isAuthorizedUploadChunk(params.invoke, params.target)
+      : hasGrant(params.command, params.target, params.nowMs)
+  ) {
+    return null;
+  }
+  const decision = resolveExecApprovalDecision(params.invoke.approvalDecision);
+  if (params.invoke.approved === true && decision) {
+    if (params.command !== "fs.write") {
+      grants.set(grantKey(params.command, params.target), params.nowMs + FS_GRANT_TTL_MS);
+    }
+    if (decision === "allow-always" && config) {
+      await persistAllowAlways(config, params.command, params.target);
+    }
+    return null;
+  }
+  if (config?.fs?.ask === "off") {
+    return { ok: false, code: "UNAVAILABLE", message: "FS_DENIED: path not allowlisted" };
+  }
+  return { ok: false, code: "UNAVAILABLE", message: "FS_DENIED: approval required" };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+async function handleFsStat(target: string): Promise<unknown> {
+  try {
+    const stat = await fs.stat(target);
+    return {
+      path: target,
+      exists: true,
+      type: entryType(stat),
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      mode: (stat.mode & 0o777).toString(8),
+    };
+  } catch (err) {
+    if (isNotFoundPathError(err)) {
+      return { path: target, exists: false };
+    }
+    throw err;
+  }
+}
+
+async function handleFsList(target: string, params: FsInvokeParams): Promise<unknown> {
+  const limit = Math.min(
+    readNonNegativeInt(params.limit, "limit") || FS_LIST_DEFAULT_LIMIT,
+    FS_LIST_MAX_LIMIT,
+  );
+  const dirents = await fs.readdir(target, { withFileTypes: true });
+  dirents.sort((a, b) => a.name.localeCompare(b.name));
+  const entries = await Promise.all(
+    dirents.slice(0, limit).map(async (dirent) => {
+      const stat = await fs.lstat(path.join(target, dirent.name)).catch(() => null);
+      return {
+        name: dirent.name,
+        type: entryType(dirent),
+        size: stat?.size,
+        mtimeMs: stat?.mtimeMs,
+      };
+    }),
+  );
+  return { path: target, entries, truncated: dirents.length > limit };
+}
+
+async function handleFsRead(target: string, params: FsInvokeParams): Promise<unknown> {
+  const offset = readNonNegativeInt(params.offset, "offset") ?? 0;
+  const length = Math.min(
+    readNonNegativeInt(params.length, "length") || FS_DEFAULT_CHUNK_BYTES,
+    FS_MAX_CHUNK_BYTES,
+  );
+  const handle = await fs.open(target, "r");
+  try {
+    const stat = await handle.stat();
+    if (!stat.isFile()) {
+      throw new Error("INVALID_REQUEST: path is not a file");
+    }
+    const buffer = Buffer.alloc(Math.max(0, Math.min(length, stat.size - offset)));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+    const eof = offset + bytesRead >= stat.size;
+    return {
+      path: target,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      offset,
+      bytesRead,
+      eof,
+      data: buffer.subarray(0, bytesRead).toString("base64"),
+      // Whole-file digest on the last chunk lets the caller verify the reassembled copy.
+      ...(eof ? { sha256: await hashFile(target) } : {}),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function handleFsWrite(
+  target: string,
+  params: FsInvokeParams,
+  nowMs: number,
+): Promise<unknown> {
+  const data = typeof params.data === "string" ? Buffer.from(params.data, "base64") : null;
+  if (!data) {
+    throw new Error("INVALID_REQUEST: data (base64) required");
+  }
+  if (data.length > FS_MAX_CHUNK_BYTES) {
+    throw new Error(`INVALID_REQUEST: chunk exceeds ${FS_MAX_CHUNK_BYTES} bytes`);
+  }
+  const offset = readNonNegativeInt(params.offset, "offset") ?? 0;
+  const transferId = typeof params.transferId === "string" ? params.transferId.trim() : "";
+
+  let id = transferId;
+  let upload: FsUpload;
+  if (id) {
+    const existing = uploads.get(id);
+    if (!existing || existing.path !== target) {
+      throw new Error("INVALID_REQUEST: unknown or expired transferId");
+    }
+    if (offset !== existing.size) {
+      throw new Error(`INVALID_REQUEST: expected offset ${existing.size}, got ${offset}`);
+    }
+    upload = existing;
+  } else {
+    if (offset !== 0) {
+      throw new Error("INVALID_REQUEST: transferId required when offset > 0");
+    }
+    if (params.overwrite !== true) {
+      const exists = await fs.stat(target).then(
+        () => true,
+        () => false,
+      );
+      if (exists) {
+        throw new Error("INVALID_REQUEST: file exists (set overwrite to replace it)");
+      }
+    }
+    id = crypto.randomUUID();
+    upload = {
+      path: target,
+      tempPath: path.join(path.dirname(target), `.${path.basename(target)}.${id}.part`),
+      size: 0,
+      hash: crypto.createHash("sha256"),
+      expiresAtMs: 0,
+    };
+    await fs.writeFile(upload.tempPath, new Uint8Array(0), { flag: "wx", mode: 0o600 });
+    uploads.set(id, upload);
+  }
+
+  try {
+    await fs.appendFile(upload.tempPath, data);
+  } catch (err) {
+    uploads.delete(id);
+    await fs.rm(upload.tempPath, { force: true });
+    throw err;
+  }
+  upload.size += data.length;
+  upload.hash.update(data);
+  upload.expiresAtMs = nowMs + FS_UPLOAD_TTL_MS;
+
+  if (params.final !== true) {
+    return { path: target, transferId: id, size: upload.size, done: false };
+  }
+
+  uploads.delete(id);
+  const sha256 = upload.hash.digest("hex");
+  const expected = typeof params.sha256 === "string" ? params.sha256.trim().toLowerCase() : "";
+  if (expected && expected !== sha256) {
+    await fs.rm(upload.tempPath, { force: true });
+    throw new Error("INVALID_REQUEST: sha256 mismatch; upload discarded");
+  }
+  const previousMode = await fs.stat(target).then(
+    (stat) => stat.mode & 0o777,
+    () => null,
+  );
+  if (previousMode !== null) {
+    await fs.chmod(upload.tempPath, previousMode);
+  }
+  await fs.rename(upload.tempPath, target);
+  return { path: target, transferId: id, size: upload.size, sha256, done: true };
+}
+
+function isFsCommand(command: string): command is NodeHostFsCommand {
+  return (
+    command === "fs.stat" ||
+    command === "fs.list" ||
+    command === "fs.read" ||
+    command === "fs.write"
+  );
+}
+
+export async function handleFsInvoke(
+  command: string,
+  params: FsInvokeParams,
+  nowMs = Date.now(),
+): Promise<FsInvokeResult> {
+  sweepExpired(nowMs);
+  if (!isFsCommand(command)) {
+    throw new Error(`INVALID_REQUEST: unsupported fs command ${command}`);
+  }
+  const target = await resolveRealTarget(readRequiredPath(params));
+  const denied = await authorizeFsAccess({ command, target, invoke: params, nowMs });
+  if (denied) {
+    return denied;
+  }
+  switch (command) {
+    case "fs.stat":
+      return { ok: true, payload: await handleFsStat(target) };
+    case "fs.list":
+      return { ok: true, payload: await handleFsList(target, params) };
+    case "fs.read":
+      return { ok: true, payload: await handleFsRead(target, params) };
+    case "fs.write":
+      return { ok: true, payload: await handleFsWrite(target, params, nowMs) };
+  }
+}
@@ -19,7 +19,9 @@ import {
   type ExecHostResponse,
 } from "../infra/exec-host.js";
 import { sanitizeHostExecEnv } from "../infra/host-env-security.js";
+import { NODE_FS_COMMANDS } from "../infra/node-commands.js";
 import { runBrowserProxyCommand } from "./invoke-browser.js";
+import { handleFsInvoke, type FsInvokeParams } from "./invoke-fs.js";
 import { buildSystemRunApprovalPlanV2, handleSystemRunInvoke } from "./invoke-system-run.js";
 import type {
   ExecEventPayload,
@@ -420,6 +422,20 @@ export async function handleInvoke(
     return;
   }
 
+  if ((NODE_FS_COMMANDS as readonly string[]).includes(command)) {
+    try {
+      const result = await handleFsInvoke(command, decodeParams<FsInvokeParams>(frame.paramsJSON));
+      if (result.ok) {
+        await sendJsonPayloadResult(client, frame, result.payload);
+      } else {
+        await sendErrorResult(client, frame, result.code, result.message);
+      }
+    } catch (err) {
+      await sendInvalidRequestResult(client, frame, err);
+    }
+    return;
+  }
+
   if (command === "system.run.prepare") {
     try {
       const params = decodeParams<{
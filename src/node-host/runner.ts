@@ -9,6 +9,7 @@ import { getMachineDisplayName } from "../infra/machine-name.js";
 import {
   NODE_BROWSER_PROXY_COMMAND,
   NODE_EXEC_APPROVALS_COMMANDS,
+  NODE_FS_COMMANDS,
   NODE_SYSTEM_RUN_COMMANDS,
 } from "../infra/node-commands.js";
 import { ensureOpenClawCliOnPath } from "../infra/path-env.js";
@@ -196,6 +197,7 @@ export async function runNodeHost(opts: NodeHostRunOptions): Promise<void> {
     commands: [
       ...NODE_SYSTEM_RUN_COMMANDS,
       ...NODE_EXEC_APPROVALS_COMMANDS,
+      ...NODE_FS_COMMANDS,
       ...(browserProxyEnabled ? [NODE_BROWSER_PROXY_COMMAND] : []),
     ],
     pathEnv,
@@ -158,6 +158,7 @@ export type {
   MSTeamsConfig,
   MSTeamsReplyStyle,
   MSTeamsTeamConfig,
+  OutboundRetryConfig,
 } from "../config/types.js";
 export {
   GROUP_POLICY_BLOCKED_LABEL,
@@ -192,6 +193,7 @@ export {
   normalizeAllowFrom,
   ReplyRuntimeConfigSchemaShape,
   requireOpenAllowFrom,
+  RetryConfigSchema,
   TtsAutoSchema,
   TtsConfigSchema,
   TtsModeSchema,
@@ -270,6 +272,8 @@ export type {
   PersistentDedupeOptions,
 } from "./persistent-dedupe.js";
 export { formatErrorMessage } from "../infra/errors.js";
+export { resolveRetryConfig, retryAsync } from "../infra/retry.js";
+export type { RetryConfig, RetryInfo, RetryOptions } from "../infra/retry.js";
 export {
   formatUtcTimestamp,
   formatZonedTimestamp,
@@ -378,6 +382,7 @@ export {
 } from "../channels/plugins/allowlist-match.js";
 export { optionalStringEnum, stringEnum } from "../agents/schema/typebox.js";
 export type { PollInput } from "../polls.js";
+export { closeTrackedPoll, recordPollVote } from "../infra/outbound/poll-results.js";
 
 export { buildChannelConfigSchema } from "../channels/plugins/config-schema.js";
 export {
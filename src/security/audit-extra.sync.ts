@@ -21,10 +21,13 @@ import {
 } from "../config/model-input.js";
 import type { AgentToolsConfig } from "../config/types.tools.js";
 import { resolveGatewayAuth } from "../gateway/auth.js";
+import { isAdminOnlyMethod } from "../gateway/method-scopes.js";
 import {
   DEFAULT_DANGEROUS_NODE_COMMANDS,
   resolveNodeCommandAllowlist,
 } from "../gateway/node-command-policy.js";
+import { isCustomRoleAuthorizedForMethod } from "../gateway/role-policy.js";
+import { listGatewayMethods } from "../gateway/server-methods-list.js";
 import { inferParamBFromIdOrName } from "../shared/model-param-b.js";
 import { pickSandboxToolPolicy } from "./audit-tool-policy.js";
 
@@ -663,13 +666,15 @@ export function collectGatewayHttpSessionKeyOverrideFindings(
   const findings: SecurityAuditFinding[] = [];
   const chatCompletionsEnabled = cfg.gateway?.http?.endpoints?.chatCompletions?.enabled === true;
   const responsesEnabled = cfg.gateway?.http?.endpoints?.responses?.enabled === true;
-  if (!chatCompletionsEnabled && !responsesEnabled) {
+  const messagesEnabled = cfg.gateway?.http?.endpoints?.messages?.enabled === true;
+  if (!chatCompletionsEnabled && !responsesEnabled && !messagesEnabled) {
     return findings;
   }
 
   const enabledEndpoints = [
     chatCompletionsEnabled ? "/v1/chat/completions" : null,
     responsesEnabled ? "/v1/responses" : null,
+    messagesEnabled ? "/v1/messages" : null,
   ].filter((entry): entry is string => Boolean(entry));
 
   findings.push({
@@ -697,10 +702,17 @@ export function collectGatewayHttpNoAuthFindings(
 
   const chatCompletionsEnabled = cfg.gateway?.http?.endpoints?.chatCompletions?.enabled === true;
   const responsesEnabled = cfg.gateway?.http?.endpoints?.responses?.enabled === true;
+  const messagesEnabled = cfg.gateway?.http?.endpoints?.messages?.enabled === true;
+  const embeddingsEnabled = cfg.gateway?.http?.endpoints?.embeddings?.enabled === true;
   const enabledEndpoints = [
     "/tools/invoke",
     chatCompletionsEnabled ? "/v1/chat/completions" : null,
     responsesEnabled ? "/v1/responses" : null,
+    messagesEnabled ? "/v1/messages" : null,
+    embeddingsEnabled ? "/v1/embeddings" : null,
+    chatCompletionsEnabled || responsesEnabled || messagesEnabled || embeddingsEnabled
+      ? "/v1/models"
+      : null,
   ].filter((entry): entry is string => Boolean(entry));
 
   const remoteExposure = isGatewayRemotelyExposed(cfg);
@@ -718,6 +730,102 @@ export function collectGatewayHttpNoAuthFindings(
   return findings;
 }
 
+export function collectGatewayRoleFindings(cfg: OpenClawConfig): SecurityAuditFinding[] {
+  const findings: SecurityAuditFinding[] = [];
+  const roles = cfg.gateway?.roles ?? {};
+  const roleTokens = cfg.gateway?.auth?.roleTokens ?? [];
+  const roleNames = Object.keys(roles);
+  if (roleNames.length === 0 && roleTokens.length === 0) {
+    return findings;
+  }
+
+  const unknownRoles = roleTokens
+    .map((entry) => entry.role)
+    .filter((role) => !Object.hasOwn(roles, role));
+  if (unknownRoles.length > 0) {
+    findings.push({
+      checkId: "gateway.roles.unknown_role",
+      severity: "warn",
+      title: "Role tokens reference undefined roles",
+      detail:
+        `gateway.auth.roleTokens references ${Array.from(new Set(unknownRoles)).join(", ")}, ` +
+        "which are not defined in gateway.roles. These tokens connect but cannot call any method.",
+      remediation: "Define the role under gateway.roles or remove the stale role token.",
+    });
+  }
+
+  const sharedToken = cfg.gateway?.auth?.token?.trim();
+  const reused = roleTokens.filter(
+    (entry) => entry.token.trim() && entry.token.trim() === sharedToken,
+  );
+  if (reused.length > 0) {
+    findings.push({
+      checkId: "gateway.roles.token_reuses_shared_token",
+      severity: "critical",
+      title: "Role token matches the shared gateway token",
+      detail:
+        `Role token(s) for ${reused.map((entry) => entry.label ?? entry.role).join(", ")} equal gateway.auth.token, ` +
+        "so holders authenticate as a full operator instead of the restricted role.",
+      remediation: "Generate a distinct token for each role token entry.",
+    });
+  }
+
+  const seenTokens = new Set<string>();
+  const duplicated = roleTokens.filter((entry) => {
+    const token = entry.token.trim();
+    if (seenTokens.has(token)) {
+      return true;
+    }
+    seenTokens.add(token);
+    return false;
+  });
+  if (duplicated.length > 0) {
+    findings.push({
+      checkId: "gateway.roles.duplicate_token",
+      severity: "warn",
+      title: "Role tokens are shared between entries",
+      detail:
+        "Multiple gateway.auth.roleTokens entries use the same token; only the first entry's role applies.",
+      remediation: "Give each role token entry a unique token.",
+    });
+  }
+
+  const methods = listGatewayMethods();
+  const adminRoles: string[] = [];
+  const summary: string[] = [];
+  for (const name of roleNames) {
+    const policy = roles[name];
+    const granted = methods.filter((method) => isCustomRoleAuthorizedForMethod(policy, method));
+    if (granted.some((method) => isAdminOnlyMethod(method))) {
+      adminRoles.push(name);
+    }
+    const tokenCount = roleTokens.filter((entry) => entry.role === name).length;
+    summary.push(`${name}: ${granted.length} methods, ${tokenCount} role token(s)`);
+  }
+  if (adminRoles.length > 0) {
+    findings.push({
+      checkId: "gateway.roles.admin_methods",
+      severity: "warn",
+      title: "Custom roles grant admin-only methods",
+      detail:
+        `gateway.roles ${adminRoles.join(", ")} allow methods that otherwise require operator.admin ` +
+        "(for example config.*, wizard.* or update.run).",
+      remediation:
+        "Narrow the role's allow patterns or add deny patterns for admin-only methods you do not intend to delegate.",
+    });
+  }
+  if (summary.length > 0) {
+    findings.push({
+      checkId: "gateway.roles.summary",
+      severity: "info",
+      title: "Custom gateway roles",
+      detail: summary.map((line) => `- ${line}`).join("\n"),
+    });
+  }
+
+  return findings;
+}
+
 export function collectSandboxDockerNoopFindings(cfg: OpenClawConfig): SecurityAuditFinding[] {
   const findings: SecurityAuditFinding[] = [];
   const configuredPaths: string[] = [];
@@ -2150,6 +2150,18 @@ describe("security audit", () => {
         },
         expectedSeverity: "critical",
       },
+      {
+        name: "embeddings no-auth",
+        cfg: {
+          gateway: {
+            bind: "loopback",
+            auth: { mode: "none" },
+            http: { endpoints: { embeddings: { enabled: true } } },
+          },
+        },
+        expectedSeverity: "warn",
+        detailIncludes: ["/v1/embeddings", "/v1/models"],
+      },
     ];
 
     await Promise.all(
@@ -2201,6 +2213,33 @@ describe("security audit", () => {
     expectFinding(res, "gateway.http.session_key_override_enabled", "info");
   });
 
+  it("flags custom gateway roles with stale, reused or admin-level grants", async () => {
+    const cfg: OpenClawConfig = {
+      gateway: {
+        auth: {
+          mode: "token",
+          token: "shared-token-0123456789",
+          roleTokens: [
+            { token: "shared-token-0123456789", role: "ci", label: "ci-runner" },
+            { token: "ops-token-0123456789", role: "missing" },
+          ],
+        },
+        roles: {
+          ci: { allow: ["sessions.list", "sessions.preview"] },
+          ops: { allow: ["*"], deny: ["update.*"] },
+        },
+      },
+    };
+
+    const res = await audit(cfg, { env: {} });
+
+    expectFinding(res, "gateway.roles.unknown_role", "warn");
+    expectFinding(res, "gateway.roles.token_reuses_shared_token", "critical");
+    expectFinding(res, "gateway.roles.summary", "info");
+    const admin = res.findings.find((entry) => entry.checkId === "gateway.roles.admin_methods");
+    expect(admin?.detail).toContain("gateway.roles ops allow");
+  });
+
   it("warns when state/config look like a synced folder", async () => {
     const cfg: OpenClawConfig = {};
 
@@ -12,34 +12,54 @@ import { randomBytes } from "node:crypto";
 
 /**
  * Patterns that may indicate prompt injection attempts.
- * These are logged for monitoring but content is still processed (wrapped safely).
+ * Weights feed the heuristic scorer in injection-classifier.ts; the screening
+ * config decides whether a match only annotates the content or blocks it.
  */
-const SUSPICIOUS_PATTERNS = [
-  /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i,
-  /disregard\s+(all\s+)?(previous|prior|above)/i,
-  /forget\s+(everything|all|your)\s+(instructions?|rules?|guidelines?)/i,
-  /you\s+are\s+now\s+(a|an)\s+/i,
-  /new\s+instructions?:/i,
-  /system\s*:?\s*(prompt|override|command)/i,
-  /\bexec\b.*command\s*=/i,
-  /elevated\s*=\s*true/i,
-  /rm\s+-rf/i,
-  /delete\s+all\s+(emails?|files?|data)/i,
-  /<\/?system>/i,
-  /\]\s*\n\s*\[?(system|assistant|user)\]?:/i,
+const SUSPICIOUS_PATTERNS: ReadonlyArray<{ id: string; pattern: RegExp; weight: number }> = [
+  {
+    id: "ignore_previous",
+    pattern: /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i,
+    weight: 0.6,
+  },
+  {
+    id: "disregard_previous",
+    pattern: /disregard\s+(all\s+)?(previous|prior|above)/i,
+    weight: 0.5,
+  },
+  {
+    id: "forget_instructions",
+    pattern: /forget\s+(everything|all|your)\s+(instructions?|rules?|guidelines?)/i,
+    weight: 0.5,
+  },
+  { id: "role_reassignment", pattern: /you\s+are\s+now\s+(a|an)\s+/i, weight: 0.3 },
+  { id: "new_instructions", pattern: /new\s+instructions?:/i, weight: 0.4 },
+  { id: "system_override", pattern: /system\s*:?\s*(prompt|override|command)/i, weight: 0.4 },
+  { id: "exec_command", pattern: /\bexec\b.*command\s*=/i, weight: 0.4 },
+  { id: "elevated_flag", pattern: /elevated\s*=\s*true/i, weight: 0.5 },
+  { id: "destructive_shell", pattern: /rm\s+-rf/i, weight: 0.3 },
+  { id: "mass_delete", pattern: /delete\s+all\s+(emails?|files?|data)/i, weight: 0.4 },
+  { id: "system_tag", pattern: /<\/?system>/i, weight: 0.4 },
+  { id: "fake_role_turn", pattern: /\]\s*\n\s*\[?(system|assistant|user)\]?:/i, weight: 0.4 },
 ];
 
+export type SuspiciousPatternMatch = {
+  id: string;
+  pattern: RegExp;
+  weight: number;
+};
+
+/**
+ * Return the suspicious pattern rules that match `content`.
+ */
+export function matchSuspiciousPatterns(content: string): SuspiciousPatternMatch[] {
+  return SUSPICIOUS_PATTERNS.filter((rule) => rule.pattern.test(content));
+}
+
 /**
  * Check if content contains suspicious patterns that may indicate injection.
  */
 export function detectSuspiciousPatterns(content: string): string[] {
-  const matches: string[] = [];
-  for (const pattern of SUSPICIOUS_PATTERNS) {
-    if (pattern.test(content)) {
-      matches.push(pattern.source);
-    }
-  }
-  return matches;
+  return matchSuspiciousPatterns(content).map((rule) => rule.pattern.source);
 }
 
 /**
@@ -198,6 +218,8 @@ export type WrapExternalContentOptions = {
   subject?: string;
   /** Whether to include detailed security warning */
   includeWarning?: boolean;
+  /** Screening verdict shown in the trusted metadata header (see injection-classifier.ts) */
+  riskNote?: string;
 };
 
 /**
@@ -217,7 +239,7 @@ export type WrapExternalContentOptions = {
  * ```
  */
 export function wrapExternalContent(content: string, options: WrapExternalContentOptions): string {
-  const { source, sender, subject, includeWarning = true } = options;
+  const { source, sender, subject, includeWarning = true, riskNote } = options;
 
   const sanitized = replaceMarkers(content);
   const sourceLabel = EXTERNAL_SOURCE_LABELS[source] ?? "External";
@@ -229,6 +251,9 @@ export function wrapExternalContent(content: string, options: WrapExternalConten
   if (subject) {
     metadataLines.push(`Subject: ${subject}`);
   }
+  if (riskNote) {
+    metadataLines.push(`Injection risk: ${riskNote}`);
+  }
 
   const metadata = metadataLines.join("\n");
   const warningBlock = includeWarning ? `${EXTERNAL_CONTENT_WARNING}\n\n` : "";
@@ -256,14 +281,16 @@ export function buildSafeExternalPrompt(params: {
   jobName?: string;
   jobId?: string;
   timestamp?: string;
+  riskNote?: string;
 }): string {
-  const { content, source, sender, subject, jobName, jobId, timestamp } = params;
+  const { content, source, sender, subject, jobName, jobId, timestamp, riskNote } = params;
 
   const wrappedContent = wrapExternalContent(content, {
     source,
     sender,
     subject,
     includeWarning: true,
+    riskNote,
   });
 
   const contextLines: string[] = [];
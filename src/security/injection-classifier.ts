@@ -0,0 +1,211 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type {
+  InjectionScreeningAction,
+  InjectionScreeningConfig,
+  InjectionScreeningSource,
+} from "../config/types.security.js";
+import { logWarn } from "../logger.js";
+import type {
+  ExternalContentAction,
+  ExternalContentDecision,
+} from "../sessions/input-provenance.js";
+import { matchSuspiciousPatterns, type ExternalContentSource } from "./external-content.js";
+import { createLlmInjectionJudge } from "./injection-judge.js";
+import { writeQuarantinedContent } from "./injection-quarantine.js";
+
+/**
+ * Prompt-injection screening for untrusted external content.
+ *
+ * Content runs through classification stages (local heuristics first, then any extra
+ * classifiers such as the optional LLM judge); the highest score picks an action from
+ * `security.injection.thresholds`. The decision is returned for the caller to record
+ * (input provenance for hook turns, tool result details for web_fetch).
+ */
+
+export type InjectionClassification = {
+  classifier: string;
+  /** Injection risk in [0, 1]. */
+  score: number;
+  signals: string[];
+  reason?: string;
+};
+
+/** A classification stage. Return null to abstain (e.g. below its trigger score or unavailable). */
+export type InjectionClassifier = {
+  id: string;
+  classify: (params: {
+    content: string;
+    source: InjectionScreeningSource;
+    /** Best classification from the earlier stages. */
+    previous: InjectionClassification;
+  }) => Promise<InjectionClassification | null>;
+};
+
+export type ExternalContentScreening = {
+  /** Content to hand to the model: unchanged, stripped, or a placeholder. */
+  content: string;
+  decision: ExternalContentDecision;
+  /** Verdict for the trusted wrapper header; unset when the content is allowed as-is. */
+  riskNote?: string;
+};
+
+const DEFAULT_THRESHOLDS: Partial<Record<InjectionScreeningAction, number>> = { annotate: 0.3 };
+
+// Strongest first: the first action whose threshold is met wins.
+const ACTIONS_BY_SEVERITY: InjectionScreeningAction[] = [
+  "refuse",
+  "quarantine",
+  "strip",
+  "annotate",
+];
+
+const MARKER_SPOOF_RE = /external_untrusted_content/i;
+// Zero-width, bidi-override and word-joiner characters hide instructions from human reviewers.
+const INVISIBLE_CHARS_RE = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/;
+const STRIPPED_LINE = "[line removed: suspected prompt injection]";
+
+function roundScore(score: number): number {
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+/**
+ * Local scorer: each matched signal contributes its weight as an independent probability,
+ * so several weak signals add up without any single one reaching 1.
+ */
+export function scoreInjectionHeuristics(content: string): InjectionClassification {
+  const signals = matchSuspiciousPatterns(content).map((rule) => ({
+    id: rule.id,
+    weight: rule.weight,
+  }));
+  if (MARKER_SPOOF_RE.test(content)) {
+    signals.push({ id: "marker_spoof", weight: 0.6 });
+  }
+  if (INVISIBLE_CHARS_RE.test(content)) {
+    signals.push({ id: "invisible_unicode", weight: 0.2 });
+  }
+  const clean = signals.reduce((acc, signal) => acc * (1 - signal.weight), 1);
+  return {
+    classifier: "heuristic",
+    score: roundScore(1 - clean),
+    signals: signals.map((signal) => signal.id),
+  };
+}
+
+export function resolveInjectionAction(
+  score: number,
+  thresholds: Partial<Record<InjectionScreeningAction, number>> = DEFAULT_THRESHOLDS,
+): ExternalContentAction {
+  for (const action of ACTIONS_BY_SEVERITY) {
+    const threshold = thresholds[action];
+    if (typeof threshold === "number" && score >= threshold) {
+      return action;
+    }
+  }
+  return "allow";
+}
+
+/** Map a wrapper source onto a screening source; other sources are not screened. */
+export function resolveInjectionScreeningSource(
+  source: ExternalContentSource,
+): InjectionScreeningSource | undefined {
+  return source === "email" || source === "webhook" || source === "web_fetch" ? source : undefined;
+}
+
+function isScreeningEnabled(
+  config: InjectionScreeningConfig | undefined,
+  source: InjectionScreeningSource,
+): boolean {
+  if (config?.enabled === false) {
+    return false;
+  }
+  return !config?.sources || config.sources.includes(source);
+}
+
+function stripSuspiciousLines(content: string): string {
+  return content
+    .split("\n")
+    .map((line) =>
+      matchSuspiciousPatterns(line).length > 0 || MARKER_SPOOF_RE.test(line) ? STRIPPED_LINE : line,
+    )
+    .join("\n");
+}
+
+function formatRiskNote(decision: ExternalContentDecision): string {
+  const signals = decision.signals?.length ? ` [${decision.signals.join(", ")}]` : "";
+  return `${decision.score.toFixed(2)} via ${decision.classifier}${signals}; action=${decision.action}`;
+}
+
+/**
+ * Screen one piece of external content. Returns null when screening is disabled for the source.
+ */
+export async function screenExternalContent(params: {
+  content: string;
+  source: InjectionScreeningSource;
+  cfg?: OpenClawConfig;
+  sender?: string;
+  subject?: string;
+  /** Extra classification stages; the LLM judge is added automatically when configured. */
+  classifiers?: InjectionClassifier[];
+}): Promise<ExternalContentScreening | null> {
+  const config = params.cfg?.security?.injection;
+  if (!isScreeningEnabled(config, params.source)) {
+    return null;
+  }
+  const stages = [...(params.classifiers ?? [])];
+  if (config?.judge?.enabled && params.cfg) {
+    stages.push(createLlmInjectionJudge({ cfg: params.cfg, judge: config.judge }));
+  }
+
+  const heuristic = scoreInjectionHeuristics(params.content);
+  let best = heuristic;
+  for (const stage of stages) {
+    const result = await stage.classify({
+      content: params.content,
+      source: params.source,
+      previous: best,
+    });
+    if (result && result.score > best.score) {
+      best = { ...result, score: roundScore(result.score) };
+    }
+  }
+
+  const signals = [...new Set([...heuristic.signals, ...best.signals])];
+  const action = resolveInjectionAction(best.score, config?.thresholds ?? DEFAULT_THRESHOLDS);
+  const decision: ExternalContentDecision = {
+    source: params.source,
+    action,
+    score: best.score,
+    classifier: best.classifier,
+    signals: signals.length > 0 ? signals : undefined,
+  };
+  if (action === "allow") {
+    return { content: params.content, decision };
+  }
+
+  logWarn(
+    `[security] prompt-injection screening: source=${params.source} score=${best.score} ` +
+      `classifier=${best.classifier} action=${action}` +
+      (signals.length > 0 ? ` signals=${signals.slice(0, 5).join(",")}` : ""),
+  );
+
+  let content = params.content;
+  if (action === "strip") {
+    content = stripSuspiciousLines(params.content);
+  } else if (action === "quarantine") {
+    const entry = await writeQuarantinedContent({
+      source: params.source,
+      sender: params.sender,
+      subject: params.subject,
+      score: best.score,
+      classifier: best.classifier,
+      signals,
+      reason: best.reason,
+      content: params.content,
+    });
+    decision.quarantineId = entry.id;
+    content = `[Content withheld for operator review (quarantine id ${entry.id}): suspected prompt injection.]`;
+  } else if (action === "refuse") {
+    content = "[Content refused: suspected prompt injection.]";
+  }
+  return { content, decision, riskNote: formatRiskNote(decision) };
+}
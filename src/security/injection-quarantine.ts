@@ -0,0 +1,92 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+
+/**
+ * On-disk holding area for external content withheld by prompt-injection screening.
+ * Entries stay until an operator reviews and drops them.
+ */
+
+export type QuarantinedContent = {
+  id: string;
+  createdAt: number;
+  source: string;
+  sender?: string;
+  subject?: string;
+  score: number;
+  classifier: string;
+  signals: string[];
+  reason?: string;
+  content: string;
+};
+
+const QUARANTINE_ID_RE = /^q_[a-z0-9]+_[a-f0-9]+$/;
+
+export function resolveQuarantineDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "security", "quarantine");
+}
+
+function resolveQuarantinePath(id: string, env?: NodeJS.ProcessEnv): string | null {
+  // Ids come from operators on the CLI; never let them escape the quarantine dir.
+  if (!QUARANTINE_ID_RE.test(id)) {
+    return null;
+  }
+  return path.join(resolveQuarantineDir(env), `${id}.json`);
+}
+
+export async function writeQuarantinedContent(
+  entry: Omit<QuarantinedContent, "id" | "createdAt">,
+  env?: NodeJS.ProcessEnv,
+): Promise<QuarantinedContent> {
+  const createdAt = Date.now();
+  const id = `q_${createdAt.toString(36)}_${randomBytes(3).toString("hex")}`;
+  const record: QuarantinedContent = { id, createdAt, ...entry };
+  await writeJsonAtomic(path.join(resolveQuarantineDir(env), `${id}.json`), record);
+  return record;
+}
+
+export async function readQuarantinedContent(
+  id: string,
+  env?: NodeJS.ProcessEnv,
+): Promise<QuarantinedContent | null> {
+  const filePath = resolveQuarantinePath(id.trim(), env);
+  return filePath ? await readJsonFile<QuarantinedContent>(filePath) : null;
+}
+
+/** List quarantined entries, newest first. */
+export async function listQuarantinedContent(
+  env?: NodeJS.ProcessEnv,
+): Promise<QuarantinedContent[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(resolveQuarantineDir(env));
+  } catch {
+    return [];
+  }
+  const entries = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readQuarantinedContent(name.slice(0, -".json".length), env)),
+  );
+  return entries
+    .filter((entry): entry is QuarantinedContent => entry !== null)
+    .toSorted((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteQuarantinedContent(
+  id: string,
+  env?: NodeJS.ProcessEnv,
+): Promise<boolean> {
+  const filePath = resolveQuarantinePath(id.trim(), env);
+  if (!filePath) {
+    return false;
+  }
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
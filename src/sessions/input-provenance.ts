@@ -8,11 +8,34 @@ export const INPUT_PROVENANCE_KIND_VALUES = [
 
 export type InputProvenanceKind = (typeof INPUT_PROVENANCE_KIND_VALUES)[number];
 
+export const EXTERNAL_CONTENT_ACTION_VALUES = [
+  "allow",
+  "annotate",
+  "strip",
+  "quarantine",
+  "refuse",
+] as const;
+
+export type ExternalContentAction = (typeof EXTERNAL_CONTENT_ACTION_VALUES)[number];
+
+/** Outcome of prompt-injection screening for untrusted external content. */
+export type ExternalContentDecision = {
+  source: string;
+  action: ExternalContentAction;
+  /** Injection risk in [0, 1]. */
+  score: number;
+  /** Classifier that produced the winning score (`heuristic`, `llm`, ...). */
+  classifier: string;
+  signals?: string[];
+  quarantineId?: string;
+};
+
 export type InputProvenance = {
   kind: InputProvenanceKind;
   sourceSessionKey?: string;
   sourceChannel?: string;
   sourceTool?: string;
+  externalContent?: ExternalContentDecision;
 };
 
 function normalizeOptionalString(value: unknown): string | undefined {
@@ -29,6 +52,40 @@ function isInputProvenanceKind(value: unknown): value is InputProvenanceKind {
   );
 }
 
+function isExternalContentAction(value: unknown): value is ExternalContentAction {
+  return (
+    typeof value === "string" &&
+    (EXTERNAL_CONTENT_ACTION_VALUES as readonly string[]).includes(value)
+  );
+}
+
+export function normalizeExternalContentDecision(
+  value: unknown,
+): ExternalContentDecision | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const source = normalizeOptionalString(record.source);
+  const classifier = normalizeOptionalString(record.classifier);
+  const score =
+    typeof record.score === "number" && Number.isFinite(record.score) ? record.score : NaN;
+  if (!source || !classifier || !isExternalContentAction(record.action) || Number.isNaN(score)) {
+    return undefined;
+  }
+  const signals = Array.isArray(record.signals)
+    ? record.signals.filter((signal): signal is string => typeof signal === "string")
+    : undefined;
+  return {
+    source,
+    action: record.action,
+    score: Math.min(1, Math.max(0, score)),
+    classifier,
+    signals: signals && signals.length > 0 ? signals : undefined,
+    quarantineId: normalizeOptionalString(record.quarantineId),
+  };
+}
+
 export function normalizeInputProvenance(value: unknown): InputProvenance | undefined {
   if (!value || typeof value !== "object") {
     return undefined;
@@ -42,6 +99,7 @@ export function normalizeInputProvenance(value: unknown): InputProvenance | unde
     sourceSessionKey: normalizeOptionalString(record.sourceSessionKey),
     sourceChannel: normalizeOptionalString(record.sourceChannel),
     sourceTool: normalizeOptionalString(record.sourceTool),
+    externalContent: normalizeExternalContentDecision(record.externalContent),
   };
 }
 
@@ -130,3 +130,22 @@ export function resolveThreadParentSessionKey(
   const parent = raw.slice(0, idx).trim();
   return parent ? parent : null;
 }
+
+const FORK_SESSION_MARKER = ":fork:";
+
+export function isForkSessionKey(sessionKey: string | undefined | null): boolean {
+  return (sessionKey ?? "").trim().toLowerCase().includes(FORK_SESSION_MARKER);
+}
+
+/**
+ * Forks always hang off the original session, so forking a fork yields a sibling key.
+ */
+export function resolveForkRootSessionKey(sessionKey: string): string {
+  const raw = sessionKey.trim();
+  const idx = raw.toLowerCase().indexOf(FORK_SESSION_MARKER);
+  return idx > 0 ? raw.slice(0, idx) : raw;
+}
+
+export function buildForkSessionKey(sessionKey: string, forkId: string): string {
+  return `${resolveForkRootSessionKey(sessionKey)}${FORK_SESSION_MARKER}${forkId.toLowerCase()}`;
+}
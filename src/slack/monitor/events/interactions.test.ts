@@ -79,9 +79,11 @@ function createContext(overrides?: {
   let handler: RegisteredHandler | null = null;
   let viewHandler: RegisteredViewHandler | null = null;
   let viewClosedHandler: RegisteredViewClosedHandler | null = null;
+  const actionHandlers: Array<{ matcher: RegExp; handler: RegisteredHandler }> = [];
   const app = {
-    action: vi.fn((_matcher: RegExp, next: RegisteredHandler) => {
+    action: vi.fn((matcher: RegExp, next: RegisteredHandler) => {
       handler = next;
+      actionHandlers.push({ matcher, handler: next });
     }),
     view: vi.fn((_matcher: RegExp, next: RegisteredViewHandler) => {
       viewHandler = next;
@@ -142,6 +144,8 @@ function createContext(overrides?: {
     resolveUserName,
     resolveChannelName,
     getHandler: () => handler,
+    getActionHandler: (actionId: string) =>
+      actionHandlers.find((entry) => entry.matcher.test(actionId))?.handler ?? null,
     getViewHandler: () => viewHandler,
     getViewClosedHandler: () => viewClosedHandler,
   };
@@ -224,6 +228,70 @@ describe("registerSlackInteractionEvents", () => {
     expect(app.client.chat.update).toHaveBeenCalledTimes(1);
   });
 
+  it("routes reply choice clicks through the message handler", async () => {
+    enqueueSystemEventMock.mockClear();
+    const handleSlackMessage = vi.fn().mockResolvedValue(undefined);
+    const { ctx, app, getActionHandler } = createContext();
+    registerSlackInteractionEvents({ ctx: ctx as never, handleSlackMessage });
+    const handler = getActionHandler("oc_choice:1:Yes");
+    expect(handler).toBeTruthy();
+    expect(getActionHandler("openclaw:verify")).not.toBe(handler);
+
+    const ack = vi.fn().mockResolvedValue(undefined);
+    await handler!({
+      ack,
+      body: {
+        user: { id: "U123" },
+        channel: { id: "C1" },
+        container: { channel_id: "C1", message_ts: "100.200", thread_ts: "100.100" },
+        message: {
+          ts: "100.200",
+          text: "1. Yes",
+          blocks: [
+            {
+              type: "actions",
+              block_id: "openclaw_reply_choices",
+              elements: [{ type: "button", action_id: "oc_choice:1:Yes" }],
+            },
+          ],
+        },
+      },
+      action: {
+        type: "button",
+        action_id: "oc_choice:1:Yes",
+        action_ts: "100.300",
+        value: "oc_choice:1:Yes",
+        text: { type: "plain_text", text: "Yes" },
+      },
+    });
+
+    expect(ack).toHaveBeenCalled();
+    expect(enqueueSystemEventMock).not.toHaveBeenCalled();
+    expect(handleSlackMessage).toHaveBeenCalledWith(
+      {
+        type: "message",
+        user: "U123",
+        channel: "C1",
+        text: "oc_choice:1:Yes",
+        ts: "100.300",
+        thread_ts: "100.100",
+      },
+      { source: "message", wasMentioned: true },
+    );
+    expect(app.client.chat.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "C1",
+        ts: "100.200",
+        blocks: [
+          {
+            type: "context",
+            elements: [{ type: "mrkdwn", text: ":white_check_mark: *Yes* selected by <@U123>" }],
+          },
+        ],
+      }),
+    );
+  });
+
   it("captures select values and updates action rows for non-button actions", async () => {
     enqueueSystemEventMock.mockClear();
     const { ctx, app, getHandler } = createContext();
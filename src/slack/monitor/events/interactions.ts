@@ -1,9 +1,12 @@
 import type { SlackActionMiddlewareArgs } from "@slack/bolt";
 import type { Block, KnownBlock } from "@slack/web-api";
+import { REPLY_CHOICE_CALLBACK_PREFIX } from "../../../auto-reply/reply/reply-choices.js";
 import { enqueueSystemEvent } from "../../../infra/system-events.js";
 import { parseSlackModalPrivateMetadata } from "../../modal-metadata.js";
+import { SLACK_REPLY_CHOICES_BLOCK_ID } from "../../reply-choices.js";
 import { authorizeSlackSystemEventSender } from "../auth.js";
 import type { SlackMonitorContext } from "../context.js";
+import type { SlackMessageHandler } from "../message-handler.js";
 import { escapeSlackMrkdwn } from "../mrkdwn.js";
 
 // Prefix for OpenClaw-generated action IDs to scope our handler
@@ -536,12 +539,120 @@ function registerModalLifecycleHandler(params: {
   });
 }
 
-export function registerSlackInteractionEvents(params: { ctx: SlackMonitorContext }) {
+/**
+ * Reply choice buttons carry their callback data as the action id. A click is fed through the
+ * regular message pipeline as if the user had sent that text, so sender policy applies and
+ * reply choice resolution turns it into the session's selection.
+ */
+function registerSlackReplyChoiceActions(params: {
+  ctx: SlackMonitorContext;
+  handleSlackMessage: SlackMessageHandler;
+}) {
+  const { ctx, handleSlackMessage } = params;
+  ctx.app.action(
+    new RegExp(`^${REPLY_CHOICE_CALLBACK_PREFIX}`),
+    async (args: SlackActionMiddlewareArgs) => {
+      const { ack, body, action, respond } = args;
+      const typedBody = body as unknown as {
+        user?: { id?: string };
+        channel?: { id?: string };
+        container?: { channel_id?: string; message_ts?: string; thread_ts?: string };
+        message?: { ts?: string; text?: string; blocks?: unknown[] };
+      };
+      await ack();
+
+      const typedAction = readInteractionAction(action) as
+        | { action_id?: unknown; action_ts?: unknown; text?: { text?: string } }
+        | undefined;
+      const actionId = typeof typedAction?.action_id === "string" ? typedAction.action_id : "";
+      const userId = typedBody.user?.id;
+      const channelId = typedBody.channel?.id ?? typedBody.container?.channel_id;
+      if (!actionId || !userId || !channelId) {
+        ctx.runtime.log?.(
+          `slack:interaction malformed reply choice channel=${channelId ?? "unknown"} user=${userId ?? "unknown"}`,
+        );
+        return;
+      }
+      const auth = await authorizeSlackSystemEventSender({ ctx, senderId: userId, channelId });
+      if (!auth.allowed) {
+        ctx.runtime.log?.(
+          `slack:interaction drop reply choice user=${userId} channel=${channelId} reason=${auth.reason ?? "unauthorized"}`,
+        );
+        try {
+          await respond?.({
+            text: "You are not authorized to use this control.",
+            response_type: "ephemeral",
+          });
+        } catch {
+          // Best-effort feedback only.
+        }
+        return;
+      }
+
+      const messageTs = typedBody.message?.ts ?? typedBody.container?.message_ts;
+      const threadTs = typedBody.container?.thread_ts;
+      ctx.runtime.log?.(
+        `slack:interaction reply choice action=${actionId} user=${userId} channel=${channelId}`,
+      );
+      await handleSlackMessage(
+        {
+          type: "message",
+          user: userId,
+          channel: channelId,
+          text: actionId,
+          ts: typeof typedAction?.action_ts === "string" ? typedAction.action_ts : messageTs,
+          ...(threadTs ? { thread_ts: threadTs } : {}),
+        },
+        { source: "message", wasMentioned: true },
+      );
+
+      const originalBlocks = typedBody.message?.blocks;
+      if (!Array.isArray(originalBlocks) || !messageTs) {
+        return;
+      }
+      const selectedLabel = typedAction?.text?.text?.trim() || actionId;
+      const updatedBlocks = originalBlocks.map((block) => {
+        const typedBlock = block as InteractionMessageBlock;
+        if (typedBlock.type === "actions" && typedBlock.block_id === SLACK_REPLY_CHOICES_BLOCK_ID) {
+          return {
+            type: "context",
+            elements: [
+              {
+                type: "mrkdwn",
+                text: formatInteractionConfirmationText({ selectedLabel, userId }),
+              },
+            ],
+          };
+        }
+        return block;
+      });
+      try {
+        await ctx.app.client.chat.update({
+          channel: channelId,
+          ts: messageTs,
+          text: typedBody.message?.text ?? "",
+          blocks: updatedBlocks as (Block | KnownBlock)[],
+        });
+      } catch {
+        // The selection was already dispatched; the buttons just stay visible.
+      }
+    },
+  );
+}
+
+export function registerSlackInteractionEvents(params: {
+  ctx: SlackMonitorContext;
+  handleSlackMessage?: SlackMessageHandler;
+}) {
   const { ctx } = params;
   if (typeof ctx.app.action !== "function") {
     return;
   }
 
+  if (params.handleSlackMessage) {
+    registerSlackReplyChoiceActions({ ctx, handleSlackMessage: params.handleSlackMessage });
+  }
+
   // Handle Block Kit button clicks from OpenClaw-generated messages
   // Only matches action_ids that start with our prefix to avoid interfering
   // with other Slack integrations or future features
@@ -6,6 +6,11 @@ import type { ReplyPayload } from "../../auto-reply/types.js";
 import type { MarkdownTableMode } from "../../config/types.base.js";
 import type { RuntimeEnv } from "../../runtime.js";
 import { markdownToSlackMrkdwnChunks } from "../format.js";
+import {
+  buildSlackReplyChoiceBlocks,
+  formatSlackReplyChoicesFallbackText,
+  readSlackReplyChoiceButtons,
+} from "../reply-choices.js";
 import { sendMessageSlack } from "../send.js";
 
 export async function deliverReplies(params: {
@@ -25,20 +30,22 @@ export async function deliverReplies(params: {
     const threadTs = inlineReplyToId ?? params.replyThreadTs;
     const mediaList = payload.mediaUrls ?? (payload.mediaUrl ? [payload.mediaUrl] : []);
     const text = payload.text ?? "";
-    if (!text && mediaList.length === 0) {
+    const choiceButtons = readSlackReplyChoiceButtons(payload);
+    if (!text && mediaList.length === 0 && choiceButtons.length === 0) {
       continue;
     }
 
     if (mediaList.length === 0) {
       const trimmed = text.trim();
-      if (!trimmed || isSilentReplyText(trimmed, SILENT_REPLY_TOKEN)) {
+      if (trimmed && !isSilentReplyText(trimmed, SILENT_REPLY_TOKEN)) {
+        await sendMessageSlack(params.target, trimmed, {
+          token: params.token,
+          threadTs,
+          accountId: params.accountId,
+        });
+      } else if (choiceButtons.length === 0) {
         continue;
       }
-      await sendMessageSlack(params.target, trimmed, {
-        token: params.token,
-        threadTs,
-        accountId: params.accountId,
-      });
     } else {
       let first = true;
       for (const mediaUrl of mediaList) {
@@ -52,6 +59,15 @@ export async function deliverReplies(params: {
         });
       }
     }
+    if (choiceButtons.length > 0) {
+      // Reply choices follow the reply as their own Block Kit message.
+      await sendMessageSlack(params.target, formatSlackReplyChoicesFallbackText(choiceButtons), {
+        token: params.token,
+        threadTs,
+        accountId: params.accountId,
+        blocks: buildSlackReplyChoiceBlocks(choiceButtons),
+      });
+    }
     params.runtime.log?.(`delivered reply to ${params.target}`);
   }
 }
@@ -0,0 +1,63 @@
+import type { Block, KnownBlock } from "@slack/web-api";
+import {
+  buildReplyChoiceCallbackData,
+  formatReplyChoicesText,
+  REPLY_CHOICE_CALLBACK_PREFIX,
+} from "../auto-reply/reply/reply-choices.js";
+import type { ReplyChoice, ReplyPayload } from "../auto-reply/types.js";
+
+// Slack caps button text at 75 characters.
+const SLACK_BUTTON_TEXT_MAX_CHARS = 75;
+export const SLACK_REPLY_CHOICES_BLOCK_ID = "openclaw_reply_choices";
+
+/** Plain-data form kept in `channelData.slack.replyChoices` until the message is sent. */
+export type SlackReplyChoiceButton = {
+  label: string;
+  actionId: string;
+};
+
+/** Choice buttons use the shared `oc_choice:<n>:<label>` callback data as their action id. */
+export function buildSlackReplyChoiceButtons(choices: ReplyChoice[]): SlackReplyChoiceButton[] {
+  return choices.map((choice, index) => ({
+    label: choice.label,
+    actionId: buildReplyChoiceCallbackData(index, choice.label),
+  }));
+}
+
+export function readSlackReplyChoiceButtons(payload: ReplyPayload): SlackReplyChoiceButton[] {
+  const raw = (payload.channelData?.slack as { replyChoices?: unknown } | undefined)?.replyChoices;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter(
+    (entry): entry is SlackReplyChoiceButton =>
+      typeof entry?.label === "string" &&
+      typeof entry?.actionId === "string" &&
+      entry.actionId.startsWith(REPLY_CHOICE_CALLBACK_PREFIX),
+  );
+}
+
+export function buildSlackReplyChoiceBlocks(
+  buttons: SlackReplyChoiceButton[],
+): (Block | KnownBlock)[] {
+  return [
+    {
+      type: "actions",
+      block_id: SLACK_REPLY_CHOICES_BLOCK_ID,
+      elements: buttons.map((button) => ({
+        type: "button",
+        action_id: button.actionId,
+        value: button.actionId,
+        text: {
+          type: "plain_text",
+          text: Array.from(button.label).slice(0, SLACK_BUTTON_TEXT_MAX_CHARS).join(""),
+        },
+      })),
+    },
+  ];
+}
+
+/** Notification/fallback text for the buttons message. */
+export function formatSlackReplyChoicesFallbackText(buttons: SlackReplyChoiceButton[]): string {
+  return formatReplyChoicesText(buttons.map((button) => ({ label: button.label })));
+}
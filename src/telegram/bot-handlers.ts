@@ -20,6 +20,7 @@ import { loadSessionStore, resolveStorePath } from "../config/sessions.js";
 import type { DmPolicy } from "../config/types.base.js";
 import type { TelegramGroupConfig, TelegramTopicConfig } from "../config/types.js";
 import { danger, logVerbose, warn } from "../globals.js";
+import { applyPollSnapshot, recordPollVote } from "../infra/outbound/poll-results.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
 import { MediaFetchError } from "../media/fetch.js";
 import { readChannelAllowFromStore } from "../pairing/pairing-store.js";
@@ -986,6 +987,53 @@ export const registerTelegramHandlers = ({
       botUsername: ctx.me?.username,
     });
   };
+  // Track votes on polls the bot sent (poll_answer only arrives for non-anonymous polls;
+  // poll updates carry totals and the closed flag for every poll the bot sent).
+  bot.on("poll_answer", async (ctx) => {
+    const answer = ctx.pollAnswer;
+    if (!answer) {
+      return;
+    }
+    const voter = answer.user ?? answer.voter_chat;
+    if (!voter) {
+      return;
+    }
+    try {
+      recordPollVote({
+        channel: "telegram",
+        accountId,
+        pollId: answer.poll_id,
+        voterId: String(voter.id),
+        voterName:
+          answer.user?.username ??
+          answer.user?.first_name ??
+          (answer.voter_chat && "title" in answer.voter_chat ? answer.voter_chat.title : undefined),
+        optionIndexes: answer.option_ids,
+      });
+    } catch (err) {
+      runtime.error?.(danger(`telegram poll answer handler failed: ${String(err)}`));
+    }
+  });
+
+  bot.on("poll", async (ctx) => {
+    const poll = ctx.poll;
+    if (!poll) {
+      return;
+    }
+    try {
+      applyPollSnapshot({
+        channel: "telegram",
+        accountId,
+        pollId: poll.id,
+        counts: poll.options.map((option) => option.voter_count),
+        totalVoters: poll.total_voter_count,
+        closed: poll.is_closed,
+      });
+    } catch (err) {
+      runtime.error?.(danger(`telegram poll handler failed: ${String(err)}`));
+    }
+  });
+
   bot.on("callback_query", async (ctx) => {
     const callback = ctx.callbackQuery;
     if (!callback) {
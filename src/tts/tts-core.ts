@@ -1,4 +1,5 @@
-import { rmSync } from "node:fs";
+import { rmSync, statSync } from "node:fs";
+import path from "node:path";
 import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
 import { EdgeTTS } from "node-edge-tts";
 import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
@@ -10,6 +11,8 @@ import {
 } from "../agents/model-selection.js";
 import { resolveModel } from "../agents/pi-embedded-runner/model.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { TtsProvider } from "../config/types.tts.js";
+import { runCommandWithTimeout } from "../process/exec.js";
 import type {
   ResolvedTtsConfig,
   ResolvedTtsModelOverrides,
@@ -96,6 +99,23 @@ function parseNumberValue(value: string): number | undefined {
   return Number.isFinite(parsed) ? parsed : undefined;
 }
 
+export const TTS_PROVIDERS = [
+  "openai",
+  "elevenlabs",
+  "edge",
+  "openai-compatible",
+  "piper",
+] as const;
+
+export function isTtsProviderId(value: string): value is TtsProvider {
+  return (TTS_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** Voice/model names for self-hosted servers are free-form but must stay token-like. */
+function isValidCompatibleName(value: string): boolean {
+  return /^[\w.:+/-]{1,128}$/.test(value);
+}
+
 export function parseTtsDirectives(
   text: string,
   policy: ResolvedTtsModelOverrides,
@@ -139,7 +159,7 @@ export function parseTtsDirectives(
             if (!policy.allowProvider) {
               break;
             }
-            if (rawValue === "openai" || rawValue === "elevenlabs" || rawValue === "edge") {
+            if (isTtsProviderId(rawValue)) {
               overrides.provider = rawValue;
             } else {
               warnings.push(`unsupported provider "${rawValue}"`);
@@ -151,10 +171,34 @@ export function parseTtsDirectives(
             if (!policy.allowVoice) {
               break;
             }
-            if (isValidOpenAIVoice(rawValue)) {
-              overrides.openai = { ...overrides.openai, voice: rawValue };
-            } else {
-              warnings.push(`invalid OpenAI voice "${rawValue}"`);
+            {
+              let accepted = false;
+              if (isValidOpenAIVoice(rawValue)) {
+                overrides.openai = { ...overrides.openai, voice: rawValue };
+                accepted = true;
+              }
+              // Self-hosted servers define their own voice names.
+              if (isValidCompatibleName(rawValue)) {
+                overrides.openaiCompatible = { ...overrides.openaiCompatible, voice: rawValue };
+                accepted = true;
+              }
+              if (!accepted) {
+                warnings.push(`invalid OpenAI voice "${rawValue}"`);
+              }
+            }
+            break;
+          case "speaker":
+          case "piper_speaker":
+            if (!policy.allowVoice) {
+              break;
+            }
+            {
+              const value = Number.parseInt(rawValue, 10);
+              if (!/^\d+$/.test(rawValue) || !Number.isSafeInteger(value)) {
+                warnings.push(`invalid Piper speaker "${rawValue}"`);
+                break;
+              }
+              overrides.piper = { ...overrides.piper, speaker: value };
             }
             break;
           case "voiceid":
@@ -185,6 +229,9 @@ export function parseTtsDirectives(
             } else {
               overrides.elevenlabs = { ...overrides.elevenlabs, modelId: rawValue };
             }
+            if (isValidCompatibleName(rawValue)) {
+              overrides.openaiCompatible = { ...overrides.openaiCompatible, model: rawValue };
+            }
             break;
           case "stability":
             if (!policy.allowVoiceSettings) {
@@ -588,6 +635,46 @@ export async function elevenLabsTTS(params: {
   }
 }
 
+async function requestSpeech(params: {
+  url: string;
+  apiKey?: string;
+  model: string;
+  voice: string;
+  input: string;
+  responseFormat: string;
+  timeoutMs: number;
+  errorLabel: string;
+}): Promise<Buffer> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), params.timeoutMs);
+
+  try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (params.apiKey) {
+      headers.Authorization = `Bearer ${params.apiKey}`;
+    }
+    const response = await fetch(params.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: params.model,
+        input: params.input,
+        voice: params.voice,
+        response_format: params.responseFormat,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${params.errorLabel} error (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 export async function openaiTTS(params: {
   text: string;
   apiKey: string;
@@ -605,32 +692,104 @@ export async function openaiTTS(params: {
     throw new Error(`Invalid voice: ${voice}`);
   }
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  return await requestSpeech({
+    url: `${getOpenAITtsBaseUrl()}/audio/speech`,
+    apiKey,
+    model,
+    voice,
+    input: text,
+    responseFormat,
+    timeoutMs,
+    errorLabel: "OpenAI TTS API",
+  });
+}
 
-  try {
-    const response = await fetch(`${getOpenAITtsBaseUrl()}/audio/speech`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        input: text,
-        voice,
-        response_format: responseFormat,
-      }),
-      signal: controller.signal,
-    });
+/**
+ * Speech endpoint of a self-hosted server that mirrors OpenAI's `/audio/speech` API.
+ * Model and voice names are server-defined, so only the OpenAI allowlists are skipped.
+ */
+export async function openaiCompatibleTTS(params: {
+  text: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  voice: string;
+  responseFormat: string;
+  timeoutMs: number;
+}): Promise<Buffer> {
+  const { text, baseUrl, apiKey, model, voice, responseFormat, timeoutMs } = params;
+  return await requestSpeech({
+    url: `${baseUrl.trim().replace(/\/+$/, "")}/audio/speech`,
+    apiKey,
+    model,
+    voice,
+    input: text,
+    responseFormat,
+    timeoutMs,
+    errorLabel: "OpenAI-compatible TTS",
+  });
+}
 
-    if (!response.ok) {
-      throw new Error(`OpenAI TTS API error (${response.status})`);
-    }
+function applyPiperTemplate(value: string, vars: Record<string, string>): string {
+  return value.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) => vars[key] ?? match);
+}
 
-    return Buffer.from(await response.arrayBuffer());
-  } finally {
-    clearTimeout(timeout);
+export function buildPiperArgv(params: {
+  text: string;
+  outputPath: string;
+  config: ResolvedTtsConfig["piper"];
+  speaker?: number;
+}): string[] {
+  const { config, outputPath } = params;
+  const speaker = params.speaker ?? config.speaker;
+  if (config.args) {
+    const vars = {
+      OutputPath: outputPath,
+      Model: config.model ?? "",
+      Speaker: speaker === undefined ? "" : String(speaker),
+      Text: params.text,
+    };
+    return [config.command, ...config.args.map((arg) => applyPiperTemplate(arg, vars))];
+  }
+  if (!config.model) {
+    throw new Error("piper model is not configured");
+  }
+  const argv = [config.command, "--model", config.model, "--output_file", outputPath];
+  if (speaker !== undefined) {
+    argv.push("--speaker", String(speaker));
+  }
+  return argv;
+}
+
+/** Runs a local TTS command; text goes in on stdin and audio is read back from `outputPath`. */
+export async function piperTTS(params: {
+  text: string;
+  outputPath: string;
+  config: ResolvedTtsConfig["piper"];
+  speaker?: number;
+  timeoutMs: number;
+}): Promise<void> {
+  const { text, outputPath, config, timeoutMs } = params;
+  const argv = buildPiperArgv({ text, outputPath, config, speaker: params.speaker });
+  const result = await runCommandWithTimeout(argv, {
+    timeoutMs: config.timeoutMs ?? timeoutMs,
+    input: text,
+  });
+  if (result.termination === "timeout" || result.termination === "no-output-timeout") {
+    throw new Error("command timed out");
+  }
+  if (result.code !== 0) {
+    const detail = result.stderr.trim().split("\n").pop()?.slice(0, 200);
+    throw new Error(`command exited with code ${result.code}${detail ? `: ${detail}` : ""}`);
+  }
+  let size = 0;
+  try {
+    size = statSync(outputPath).size;
+  } catch {
+    // handled below
+  }
+  if (size === 0) {
+    throw new Error(`command produced no audio at ${path.basename(outputPath)}`);
   }
 }
 
@@ -53,6 +53,7 @@ const {
   summarizeText,
   resolveOutputFormat,
   resolveEdgeOutputFormat,
+  buildPiperArgv,
 } = _test;
 
 const mockAssistantMessage = (content: AssistantMessage["content"]): AssistantMessage => ({
@@ -242,6 +243,26 @@ describe("tts", () => {
       expect(result.overrides.provider).toBe("edge");
     });
 
+    it("accepts local providers and routes voice/model/speaker overrides", () => {
+      const policy = resolveModelOverridePolicy({ enabled: true, allowProvider: true });
+      const piper = parseTtsDirectives("Hi [[tts:provider=piper speaker=3]]", policy);
+      expect(piper.overrides.provider).toBe("piper");
+      expect(piper.overrides.piper?.speaker).toBe(3);
+
+      const compatible = parseTtsDirectives(
+        "Hi [[tts:provider=openai-compatible voice=af_bella model=kokoro]]",
+        policy,
+      );
+      expect(compatible.overrides.provider).toBe("openai-compatible");
+      expect(compatible.overrides.openaiCompatible).toEqual({ voice: "af_bella", model: "kokoro" });
+      expect(compatible.overrides.openai?.voice).toBeUndefined();
+      expect(compatible.warnings).toEqual([]);
+
+      const invalid = parseTtsDirectives("Hi [[tts:speaker=abc]]", policy);
+      expect(invalid.overrides.piper).toBeUndefined();
+      expect(invalid.warnings).toEqual(['invalid Piper speaker "abc"']);
+    });
+
     it("rejects provider override by default while keeping voice overrides enabled", () => {
       const policy = resolveModelOverridePolicy({ enabled: true });
       const input = "Hello [[tts:provider=edge voice=alloy]] world";
@@ -419,6 +440,65 @@ describe("tts", () => {
     });
   });
 
+  describe("local providers", () => {
+    it("prefers configured local providers over edge when no API keys are set", () => {
+      const env = {
+        OPENAI_API_KEY: undefined,
+        ELEVENLABS_API_KEY: undefined,
+        XI_API_KEY: undefined,
+      };
+      const cases = [
+        {
+          tts: { openaiCompatible: { baseUrl: "http://127.0.0.1:8880/v1" } },
+          expected: "openai-compatible",
+        },
+        { tts: { piper: { model: "/voices/en_US-lessac-medium.onnx" } }, expected: "piper" },
+        { tts: { piper: { command: "piper" } }, expected: "edge" },
+      ] as const;
+
+      for (const testCase of cases) {
+        withEnv(env, () => {
+          const config = resolveTtsConfig({ messages: { tts: testCase.tts } });
+          expect(getTtsProvider(config, "/tmp/tts-prefs-local.json")).toBe(testCase.expected);
+        });
+      }
+    });
+
+    it("builds piper argv from model and speaker or from templated args", () => {
+      const config = resolveTtsConfig({
+        messages: { tts: { piper: { model: "/voices/a.onnx", speaker: 1 } } },
+      });
+      expect(
+        buildPiperArgv({ text: "hi", outputPath: "/tmp/out.wav", config: config.piper }),
+      ).toEqual([
+        "piper",
+        "--model",
+        "/voices/a.onnx",
+        "--output_file",
+        "/tmp/out.wav",
+        "--speaker",
+        "1",
+      ]);
+      expect(
+        buildPiperArgv({
+          text: "hi",
+          outputPath: "/tmp/out.wav",
+          config: config.piper,
+          speaker: 4,
+        }),
+      ).toContain("4");
+
+      const custom = resolveTtsConfig({
+        messages: {
+          tts: { piper: { command: "espeak-ng", args: ["-w", "{{OutputPath}}", "{{ Text }}"] } },
+        },
+      });
+      expect(
+        buildPiperArgv({ text: "hello there", outputPath: "/tmp/o.wav", config: custom.piper }),
+      ).toEqual(["espeak-ng", "-w", "/tmp/o.wav", "hello there"]);
+    });
+  });
+
   describe("maybeApplyTtsToPayload", () => {
     const baseCfg: OpenClawConfig = {
       agents: { defaults: { model: { primary: "openai/gpt-4o-mini" } } },
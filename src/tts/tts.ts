@@ -27,6 +27,7 @@ import { stripMarkdown } from "../line/markdown-to-line.js";
 import { isVoiceCompatibleAudio } from "../media/audio.js";
 import { CONFIG_DIR, resolveUserPath } from "../utils.js";
 import {
+  buildPiperArgv,
   edgeTTS,
   elevenLabsTTS,
   inferEdgeExtension,
@@ -35,12 +36,20 @@ import {
   isValidVoiceId,
   OPENAI_TTS_MODELS,
   OPENAI_TTS_VOICES,
+  openaiCompatibleTTS,
   openaiTTS,
   parseTtsDirectives,
+  piperTTS,
   scheduleCleanup,
   summarizeText,
+  TTS_PROVIDERS,
+} from "./tts-core.js";
+export {
+  isTtsProviderId,
+  OPENAI_TTS_MODELS,
+  OPENAI_TTS_VOICES,
+  TTS_PROVIDERS,
 } from "./tts-core.js";
-export { OPENAI_TTS_MODELS, OPENAI_TTS_VOICES } from "./tts-core.js";
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 const DEFAULT_TTS_MAX_LENGTH = 1500;
@@ -55,6 +64,9 @@ const DEFAULT_OPENAI_VOICE = "alloy";
 const DEFAULT_EDGE_VOICE = "en-US-MichelleNeural";
 const DEFAULT_EDGE_LANG = "en-US";
 const DEFAULT_EDGE_OUTPUT_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
+const DEFAULT_PIPER_COMMAND = "piper";
+const DEFAULT_PIPER_OUTPUT_FORMAT = "wav";
+const DEFAULT_OPENAI_COMPATIBLE_MODEL = "tts-1";
 
 const DEFAULT_ELEVENLABS_VOICE_SETTINGS = {
   stability: 0.5,
@@ -128,6 +140,21 @@ export type ResolvedTtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  piper: {
+    command: string;
+    args?: string[];
+    model?: string;
+    speaker?: number;
+    outputFormat: "wav" | "mp3" | "ogg" | "opus";
+    timeoutMs?: number;
+  };
+  openaiCompatible: {
+    baseUrl?: string;
+    apiKey?: string;
+    model: string;
+    voice: string;
+    responseFormat?: "mp3" | "opus" | "aac" | "flac" | "wav" | "pcm";
+  };
   prefsPath?: string;
   maxTextLength: number;
   timeoutMs: number;
@@ -161,6 +188,13 @@ export type TtsDirectiveOverrides = {
     voice?: string;
     model?: string;
   };
+  openaiCompatible?: {
+    voice?: string;
+    model?: string;
+  };
+  piper?: {
+    speaker?: number;
+  };
   elevenlabs?: {
     voiceId?: string;
     modelId?: string;
@@ -303,6 +337,21 @@ export function resolveTtsConfig(cfg: OpenClawConfig): ResolvedTtsConfig {
       proxy: raw.edge?.proxy?.trim() || undefined,
       timeoutMs: raw.edge?.timeoutMs,
     },
+    piper: {
+      command: raw.piper?.command?.trim() || DEFAULT_PIPER_COMMAND,
+      args: raw.piper?.args,
+      model: raw.piper?.model?.trim() ? resolveUserPath(raw.piper.model.trim()) : undefined,
+      speaker: raw.piper?.speaker,
+      outputFormat: raw.piper?.outputFormat ?? DEFAULT_PIPER_OUTPUT_FORMAT,
+      timeoutMs: raw.piper?.timeoutMs,
+    },
+    openaiCompatible: {
+      baseUrl: raw.openaiCompatible?.baseUrl?.trim() || undefined,
+      apiKey: raw.openaiCompatible?.apiKey,
+      model: raw.openaiCompatible?.model?.trim() || DEFAULT_OPENAI_COMPATIBLE_MODEL,
+      voice: raw.openaiCompatible?.voice?.trim() || DEFAULT_OPENAI_VOICE,
+      responseFormat: raw.openaiCompatible?.responseFormat,
+    },
     prefsPath: raw.prefsPath,
     maxTextLength: raw.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH,
     timeoutMs: raw.timeoutMs ?? DEFAULT_TIMEOUT_MS,
@@ -441,6 +490,13 @@ export function getTtsProvider(config: ResolvedTtsConfig, prefsPath: string): Tt
   if (resolveTtsApiKey(config, "elevenlabs")) {
     return "elevenlabs";
   }
+  // Local providers only count once they are explicitly configured.
+  if (isTtsProviderConfigured(config, "openai-compatible")) {
+    return "openai-compatible";
+  }
+  if (isTtsProviderConfigured(config, "piper")) {
+    return "piper";
+  }
   return "edge";
 }
 
@@ -505,11 +561,12 @@ export function resolveTtsApiKey(
   if (provider === "openai") {
     return config.openai.apiKey || process.env.OPENAI_API_KEY;
   }
+  if (provider === "openai-compatible") {
+    return config.openaiCompatible.apiKey;
+  }
   return undefined;
 }
 
-export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge"] as const;
-
 export function resolveTtsProviderOrder(primary: TtsProvider): TtsProvider[] {
   return [primary, ...TTS_PROVIDERS.filter((provider) => provider !== primary)];
 }
@@ -518,6 +575,12 @@ export function isTtsProviderConfigured(config: ResolvedTtsConfig, provider: Tts
   if (provider === "edge") {
     return config.edge.enabled;
   }
+  if (provider === "piper") {
+    return Boolean(config.piper.model || config.piper.args);
+  }
+  if (provider === "openai-compatible") {
+    return Boolean(config.openaiCompatible.baseUrl);
+  }
   return Boolean(resolveTtsApiKey(config, provider));
 }
 
@@ -628,6 +691,78 @@ export async function textToSpeech(params: {
         };
       }
 
+      if (provider === "piper") {
+        if (!isTtsProviderConfigured(config, provider)) {
+          errors.push("piper: not configured");
+          continue;
+        }
+        const tempRoot = resolvePreferredOpenClawTmpDir();
+        mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+        const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+        const audioPath = path.join(tempDir, `voice-${Date.now()}.${config.piper.outputFormat}`);
+        try {
+          await piperTTS({
+            text: params.text,
+            outputPath: audioPath,
+            config: config.piper,
+            speaker: params.overrides?.piper?.speaker,
+            timeoutMs: config.timeoutMs,
+          });
+        } catch (err) {
+          try {
+            rmSync(tempDir, { recursive: true, force: true });
+          } catch {
+            // ignore cleanup errors
+          }
+          throw err;
+        }
+        scheduleCleanup(tempDir);
+
+        return {
+          success: true,
+          audioPath,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: config.piper.outputFormat,
+          voiceCompatible: isVoiceCompatibleAudio({ fileName: audioPath }),
+        };
+      }
+
+      if (provider === "openai-compatible") {
+        const baseUrl = config.openaiCompatible.baseUrl;
+        if (!baseUrl) {
+          errors.push("openai-compatible: no baseUrl");
+          continue;
+        }
+        const responseFormat = config.openaiCompatible.responseFormat ?? output.openai;
+        const audioBuffer = await openaiCompatibleTTS({
+          text: params.text,
+          baseUrl,
+          apiKey: config.openaiCompatible.apiKey,
+          model: params.overrides?.openaiCompatible?.model ?? config.openaiCompatible.model,
+          voice: params.overrides?.openaiCompatible?.voice ?? config.openaiCompatible.voice,
+          responseFormat,
+          timeoutMs: config.timeoutMs,
+        });
+        const latencyMs = Date.now() - providerStart;
+
+        const tempRoot = resolvePreferredOpenClawTmpDir();
+        mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+        const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+        const audioPath = path.join(tempDir, `voice-${Date.now()}.${responseFormat}`);
+        writeFileSync(audioPath, audioBuffer);
+        scheduleCleanup(tempDir);
+
+        return {
+          success: true,
+          audioPath,
+          latencyMs,
+          provider,
+          outputFormat: responseFormat,
+          voiceCompatible: isVoiceCompatibleAudio({ fileName: audioPath }),
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
@@ -722,11 +857,38 @@ export async function textToSpeechTelephony(params: {
   for (const provider of providers) {
     const providerStart = Date.now();
     try {
-      if (provider === "edge") {
-        errors.push("edge: unsupported for telephony");
+      if (provider === "edge" || provider === "piper") {
+        errors.push(`${provider}: unsupported for telephony`);
         continue;
       }
 
+      if (provider === "openai-compatible") {
+        const baseUrl = config.openaiCompatible.baseUrl;
+        if (!baseUrl) {
+          errors.push("openai-compatible: no baseUrl");
+          continue;
+        }
+        const output = TELEPHONY_OUTPUT.openai;
+        const audioBuffer = await openaiCompatibleTTS({
+          text: params.text,
+          baseUrl,
+          apiKey: config.openaiCompatible.apiKey,
+          model: config.openaiCompatible.model,
+          voice: config.openaiCompatible.voice,
+          responseFormat: output.format,
+          timeoutMs: config.timeoutMs,
+        });
+
+        return {
+          success: true,
+          audioBuffer,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: output.format,
+          sampleRate: output.sampleRate,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
@@ -944,4 +1106,5 @@ export const _test = {
   summarizeText,
   resolveOutputFormat,
   resolveEdgeOutputFormat,
+  buildPiperArgv,
 };
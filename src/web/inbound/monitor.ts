@@ -1,4 +1,4 @@
-import type { AnyMessageContent, proto, WAMessage } from "@whiskeysockets/baileys";
+import type { AnyMessageContent, proto, WAMessage, WAMessageUpdate } from "@whiskeysockets/baileys";
 import { DisconnectReason, isJidGroup } from "@whiskeysockets/baileys";
 import { createInboundDebouncer } from "../../auto-reply/inbound-debounce.js";
 import { formatLocationText } from "../../channels/location.js";
@@ -19,6 +19,7 @@ import {
   extractText,
 } from "./extract.js";
 import { downloadInboundMedia } from "./media.js";
+import { handleWhatsAppPollUpdates, rememberWhatsAppPollMessage } from "./poll-votes.js";
 import { createWebSendApi } from "./send-api.js";
 import type { WebInboundMessage, WebListenerCloseReason } from "./types.js";
 
@@ -364,9 +365,24 @@ export async function monitorWebInbox(options: {
   };
   sock.ev.on("connection.update", handleConnectionUpdate);
 
+  const handleMessagesUpdate = (updates: WAMessageUpdate[]) => {
+    try {
+      handleWhatsAppPollUpdates({ accountId: options.accountId, updates });
+    } catch (err) {
+      inboundLogger.error({ error: String(err) }, "messages.update handler error");
+    }
+  };
+  sock.ev.on("messages.update", handleMessagesUpdate);
+
   const sendApi = createWebSendApi({
     sock: {
-      sendMessage: (jid: string, content: AnyMessageContent) => sock.sendMessage(jid, content),
+      sendMessage: async (jid: string, content: AnyMessageContent) => {
+        const result = await sock.sendMessage(jid, content);
+        if ("poll" in content) {
+          rememberWhatsAppPollMessage(result);
+        }
+        return result;
+      },
       sendPresenceUpdate: (presence, jid?: string) => sock.sendPresenceUpdate(presence, jid),
     },
     defaultAccountId: options.accountId,
@@ -385,12 +401,17 @@ export async function monitorWebInbox(options: {
         const connectionUpdateHandler = handleConnectionUpdate as unknown as (
           ...args: unknown[]
         ) => void;
+        const messagesUpdateHandler = handleMessagesUpdate as unknown as (
+          ...args: unknown[]
+        ) => void;
         if (typeof ev.off === "function") {
           ev.off("messages.upsert", messagesUpsertHandler);
           ev.off("connection.update", connectionUpdateHandler);
+          ev.off("messages.update", messagesUpdateHandler);
         } else if (typeof ev.removeListener === "function") {
           ev.removeListener("messages.upsert", messagesUpsertHandler);
           ev.removeListener("connection.update", connectionUpdateHandler);
+          ev.removeListener("messages.update", messagesUpdateHandler);
         }
         sock.ws?.close();
       } catch (err) {
@@ -0,0 +1,84 @@
+import type { WAMessageUpdate } from "@whiskeysockets/baileys";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const recordPollVoteMock = vi.hoisted(() => vi.fn());
+const getAggregateVotesMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@whiskeysockets/baileys", () => ({
+  getAggregateVotesInPollMessage: (...args: unknown[]) => getAggregateVotesMock(...args),
+}));
+
+vi.mock("../../infra/outbound/poll-results.js", () => ({
+  recordPollVote: (...args: unknown[]) => recordPollVoteMock(...args),
+}));
+
+const { getWhatsAppPollMessage, handleWhatsAppPollUpdates, rememberWhatsAppPollMessage } =
+  await import("./poll-votes.js");
+
+const pollMessage = {
+  pollCreationMessage: {
+    name: "Lunch?",
+    options: [{ optionName: "Pizza" }, { optionName: "Sushi" }],
+  },
+  messageContextInfo: { messageSecret: new Uint8Array([1, 2, 3]) },
+};
+
+describe("WhatsApp poll votes", () => {
+  beforeEach(() => {
+    recordPollVoteMock.mockClear();
+    getAggregateVotesMock.mockReset();
+  });
+
+  it("loads remembered polls for vote decryption", async () => {
+    rememberWhatsAppPollMessage({
+      key: { id: "poll-1", remoteJid: "123@g.us", fromMe: true },
+      message: pollMessage,
+    });
+
+    await expect(getWhatsAppPollMessage({ id: "poll-1" })).resolves.toBe(pollMessage);
+    await expect(getWhatsAppPollMessage({ id: "other" })).resolves.toBeUndefined();
+  });
+
+  it("records each voter's selections, including cleared votes", () => {
+    rememberWhatsAppPollMessage({
+      key: { id: "poll-2", remoteJid: "123@g.us", fromMe: true },
+      message: pollMessage,
+    });
+    getAggregateVotesMock.mockReturnValue([
+      { name: "Pizza", voters: ["alice@s.whatsapp.net"] },
+      { name: "Sushi", voters: ["alice@s.whatsapp.net"] },
+    ]);
+    const updates = [
+      {
+        key: { id: "poll-2", remoteJid: "123@g.us" },
+        update: {
+          pollUpdates: [
+            { pollUpdateMessageKey: { participant: "alice@s.whatsapp.net" } },
+            { pollUpdateMessageKey: { participant: "bob@s.whatsapp.net" } },
+          ],
+        },
+      },
+      { key: { id: "unknown-poll" }, update: { pollUpdates: [{}] } },
+    ] as unknown as WAMessageUpdate[];
+
+    handleWhatsAppPollUpdates({ accountId: "default", updates });
+
+    expect(getAggregateVotesMock).toHaveBeenCalledTimes(1);
+    expect(recordPollVoteMock.mock.calls.map(([vote]) => vote)).toEqual([
+      {
+        channel: "whatsapp",
+        accountId: "default",
+        pollId: "poll-2",
+        voterId: "alice@s.whatsapp.net",
+        optionIndexes: [0, 1],
+      },
+      {
+        channel: "whatsapp",
+        accountId: "default",
+        pollId: "poll-2",
+        voterId: "bob@s.whatsapp.net",
+        optionIndexes: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  getAggregateVotesInPollMessage,
+  type proto,
+  type WAMessage,
+  type WAMessageUpdate,
+} from "@whiskeysockets/baileys";
+import { recordPollVote } from "../../infra/outbound/poll-results.js";
+
+// Poll votes are encrypted against the poll creation message, so keep the polls we sent.
+// In-memory only: votes on polls sent before a restart cannot be decrypted.
+const MAX_POLL_MESSAGES = 200;
+const pollMessagesById = new Map<string, WAMessage>();
+
+export function rememberWhatsAppPollMessage(message: unknown) {
+  const sent = message as WAMessage | undefined;
+  const id = sent?.key?.id;
+  if (!id || !sent.message) {
+    return;
+  }
+  pollMessagesById.delete(id);
+  pollMessagesById.set(id, sent);
+  while (pollMessagesById.size > MAX_POLL_MESSAGES) {
+    const oldest = pollMessagesById.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    pollMessagesById.delete(oldest);
+  }
+}
+
+/**
+ * Baileys `getMessage` hook: vote updates can only be decrypted when the socket can load the
+ * poll creation message (and its `messageSecret`) by key.
+ */
+export async function getWhatsAppPollMessage(
+  key: proto.IMessageKey,
+): Promise<proto.IMessage | undefined> {
+  return key.id ? (pollMessagesById.get(key.id)?.message ?? undefined) : undefined;
+}
+
+function resolveVoterId(key: proto.IMessageKey | null | undefined): string | undefined {
+  return key?.participant || key?.remoteJid || undefined;
+}
+
+/** Record decrypted poll votes from `messages.update` events for polls this socket sent. */
+export function handleWhatsAppPollUpdates(params: {
+  accountId: string;
+  updates: WAMessageUpdate[];
+}) {
+  for (const { key, update } of params.updates) {
+    const pollId = key.id;
+    const pollUpdates = update.pollUpdates;
+    const pollMessage = pollId ? pollMessagesById.get(pollId) : undefined;
+    if (!pollId || !pollUpdates?.length || !pollMessage) {
+      continue;
+    }
+    const options =
+      pollMessage.message?.pollCreationMessage?.options ??
+      pollMessage.message?.pollCreationMessageV3?.options ??
+      [];
+    const aggregate = getAggregateVotesInPollMessage({
+      message: pollMessage.message,
+      pollUpdates,
+    });
+    const selections = new Map<string, number[]>();
+    // Voters who cleared their vote still need an (empty) entry.
+    for (const pollUpdate of pollUpdates) {
+      const voterId = resolveVoterId(pollUpdate.pollUpdateMessageKey);
+      if (voterId) {
+        selections.set(voterId, []);
+      }
+    }
+    for (const option of aggregate) {
+      const index = options.findIndex((entry) => entry.optionName === option.name);
+      for (const voterId of option.voters) {
+        if (index >= 0) {
+          selections.set(voterId, [...(selections.get(voterId) ?? []), index]);
+        }
+      }
+    }
+    for (const [voterId, optionIndexes] of selections) {
+      recordPollVote({
+        channel: "whatsapp",
+        accountId: params.accountId,
+        pollId,
+        voterId,
+        optionIndexes,
+      });
+    }
+  }
+}
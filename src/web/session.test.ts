@@ -85,6 +85,19 @@ describe("web session", () => {
     expect(saveCreds).toHaveBeenCalled();
   });
 
+  it("lets the socket load sent polls so vote updates can be decrypted", async () => {
+    const { rememberWhatsAppPollMessage } = await import("./inbound/poll-votes.js");
+    const message = { pollCreationMessage: { name: "Lunch?", options: [] } };
+    rememberWhatsAppPollMessage({ key: { id: "poll-1", fromMe: true }, message });
+
+    await createWaSocket(false, false);
+    const makeWASocket = baileys.makeWASocket as ReturnType<typeof vi.fn>;
+    const passed = makeWASocket.mock.calls[0][0] as {
+      getMessage?: (key: { id?: string }) => Promise<unknown>;
+    };
+    await expect(passed.getMessage?.({ id: "poll-1" })).resolves.toBe(message);
+  });
+
   it("waits for connection open", async () => {
     const ev = new EventEmitter();
     const promise = waitForWaConnection({ ev } as unknown as ReturnType<
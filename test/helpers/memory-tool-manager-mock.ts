@@ -3,6 +3,7 @@ import { vi } from "vitest";
 export type SearchImpl = () => Promise<unknown[]>;
 export type MemoryReadParams = { relPath: string; from?: number; lines?: number };
 export type MemoryReadResult = { text: string; path: string };
+export type EmbedTextsImpl = (texts: string[]) => Promise<number[][]>;
 type MemoryBackend = "builtin" | "qmd";
 
 let backend: MemoryBackend = "builtin";
@@ -11,6 +12,7 @@ let readFileImpl: (params: MemoryReadParams) => Promise<MemoryReadResult> = asyn
   text: "",
   path: params.relPath,
 });
+let embedTextsImpl: EmbedTextsImpl = async (texts) => texts.map(() => []);
 
 const stubManager = {
   search: vi.fn(async () => await searchImpl()),
@@ -29,6 +31,8 @@ const stubManager = {
     sourceCounts: [{ source: "memory" as const, files: 1, chunks: 1 }],
   }),
   sync: vi.fn(),
+  syncAfterWrite: vi.fn(async () => {}),
+  embedTexts: vi.fn(async (texts: string[]) => await embedTextsImpl(texts)),
   probeVectorAvailability: vi.fn(async () => true),
   close: vi.fn(),
 };
@@ -51,13 +55,23 @@ export function setMemoryReadFileImpl(
   readFileImpl = next;
 }
 
+export function setMemoryEmbedTextsImpl(next: EmbedTextsImpl): void {
+  embedTextsImpl = next;
+}
+
+export function getMemoryToolStubManager() {
+  return stubManager;
+}
+
 export function resetMemoryToolMockState(overrides?: {
   backend?: MemoryBackend;
   searchImpl?: SearchImpl;
   readFileImpl?: (params: MemoryReadParams) => Promise<MemoryReadResult>;
+  embedTextsImpl?: EmbedTextsImpl;
 }): void {
   backend = overrides?.backend ?? "builtin";
   searchImpl = overrides?.searchImpl ?? (async () => []);
+  embedTextsImpl = overrides?.embedTextsImpl ?? (async (texts) => texts.map(() => []));
   readFileImpl =
     overrides?.readFileImpl ??
     (async (params: MemoryReadParams) => ({ text: "", path: params.relPath }));
@@ -26,6 +26,8 @@ export const DEFAULT_CRON_FORM: CronFormState = {
   scheduleExact: false,
   staggerAmount: "",
   staggerUnit: "seconds",
+  afterJobId: "",
+  afterOn: "ok",
   sessionTarget: "isolated",
   wakeMode: "now",
   payloadKind: "agentTurn",
@@ -54,7 +54,13 @@ import {
 import { loadLogs } from "./controllers/logs.ts";
 import { loadNodes } from "./controllers/nodes.ts";
 import { loadPresence } from "./controllers/presence.ts";
-import { deleteSessionAndRefresh, loadSessions, patchSession } from "./controllers/sessions.ts";
+import {
+  deleteSessionAndRefresh,
+  forkSession,
+  loadSessions,
+  patchSession,
+  switchSessionFork,
+} from "./controllers/sessions.ts";
 import {
   installSkill,
   loadSkills,
@@ -429,6 +435,8 @@ export function renderApp(state: AppViewState) {
                 onRefresh: () => loadSessions(state),
                 onPatch: (key, patch) => patchSession(state, key, patch),
                 onDelete: (key) => deleteSessionAndRefresh(state, key),
+                onFork: (key) => forkSession(state, key),
+                onSwitchFork: (key, target) => switchSessionFork(state, key, target),
               })
             : nothing
         }
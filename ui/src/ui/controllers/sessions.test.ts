@@ -1,5 +1,10 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { deleteSession, deleteSessionAndRefresh, type SessionsState } from "./sessions.ts";
+import {
+  deleteSession,
+  deleteSessionAndRefresh,
+  forkSession,
+  type SessionsState,
+} from "./sessions.ts";
 
 type RequestFn = (method: string, params?: unknown) => Promise<unknown>;
 
@@ -102,3 +107,40 @@ describe("deleteSession", () => {
     expect(request).not.toHaveBeenCalled();
   });
 });
+
+describe("forkSession", () => {
+  it("forks at the prompted turn and refreshes the list", async () => {
+    const request = vi.fn(async (method: string) => {
+      if (method === "sessions.fork") {
+        return { ok: true, key: "agent:main:main:fork:abc123" };
+      }
+      if (method === "sessions.list") {
+        return undefined;
+      }
+      throw new Error(`unexpected method: ${method}`);
+    });
+    const state = createState(request);
+    vi.spyOn(window, "prompt").mockReturnValue("2");
+
+    const forkKey = await forkSession(state, "agent:main:main");
+
+    expect(forkKey).toBe("agent:main:main:fork:abc123");
+    expect(request).toHaveBeenNthCalledWith(1, "sessions.fork", {
+      key: "agent:main:main",
+      turn: 2,
+    });
+    expect(request).toHaveBeenNthCalledWith(2, "sessions.list", {
+      includeGlobal: true,
+      includeUnknown: true,
+    });
+  });
+
+  it("does nothing when the prompt is cancelled", async () => {
+    const request = vi.fn(async () => undefined);
+    const state = createState(request);
+    vi.spyOn(window, "prompt").mockReturnValue(null);
+
+    expect(await forkSession(state, "agent:main:main")).toBeNull();
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -125,3 +125,45 @@ export async function deleteSessionAndRefresh(state: SessionsState, key: string)
   await loadSessions(state);
   return true;
 }
+
+export async function forkSession(state: SessionsState, key: string): Promise<string | null> {
+  if (!state.client || !state.connected) {
+    return null;
+  }
+  if (state.sessionsLoading) {
+    return null;
+  }
+  const input = window.prompt(
+    `Fork session "${key}" after which user turn?\n\nLeave empty to fork at the latest message.`,
+    "",
+  );
+  if (input === null) {
+    return null;
+  }
+  const turn = toNumber(input, 0);
+  state.sessionsError = null;
+  try {
+    const res = await state.client.request<{ key: string } | undefined>("sessions.fork", {
+      key,
+      ...(turn > 0 ? { turn } : {}),
+    });
+    await loadSessions(state);
+    return res?.key ?? null;
+  } catch (err) {
+    state.sessionsError = String(err);
+    return null;
+  }
+}
+
+export async function switchSessionFork(state: SessionsState, key: string, target: string) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  state.sessionsError = null;
+  try {
+    await state.client.request("sessions.switch", { key, target });
+    await loadSessions(state);
+  } catch (err) {
+    state.sessionsError = String(err);
+  }
+}
@@ -60,6 +60,10 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "after") {
+    const on = s.on?.length ? s.on.join("/") : "ok";
+    return `After ${s.jobId} (${on})`;
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
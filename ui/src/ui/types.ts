@@ -426,6 +426,8 @@ export type GatewaySessionRow = {
   verboseLevel?: string;
   reasoningLevel?: string;
   elevatedLevel?: string;
+  forkOf?: { sessionKey: string; turn: number; createdAt: number };
+  activeForkKey?: string;
   inputTokens?: number;
   outputTokens?: number;
   totalTokens?: number;
@@ -468,8 +470,9 @@ export type {
 
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number };
+  | { kind: "every"; everyMs: number; anchorMs?: number; exclude?: string[] }
+  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number; exclude?: string[] }
+  | { kind: "after"; jobId: string; on?: Array<"ok" | "error" | "skipped"> };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -491,6 +494,21 @@ export type CronDelivery = {
   bestEffort?: boolean;
 };
 
+export type CronErrorKind = "delivery-target" | "timeout" | "rate-limit" | "auth" | "unknown";
+
+export type CronRetryPolicy = {
+  maxAttempts?: number;
+  backoffMs?: number[];
+  retryOn?: CronErrorKind[];
+};
+
+export type CronFailureDelivery = {
+  mode: "announce" | "webhook";
+  channel?: string;
+  to?: string;
+  accountId?: string;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -498,6 +516,20 @@ export type CronJobState = {
   lastStatus?: "ok" | "error" | "skipped";
   lastError?: string;
   lastDurationMs?: number;
+  lastErrorKind?: CronErrorKind;
+  lastAttempt?: number;
+  retryAtMs?: number;
+  pendingTrigger?: CronJobTrigger;
+  lastTrigger?: CronJobTrigger;
+};
+
+export type CronJobTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: "ok" | "error" | "skipped";
+  summary?: string;
+  runAtMs?: number;
+  triggeredAtMs: number;
 };
 
 export type CronJob = {
@@ -514,13 +546,25 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
+  failureDelivery?: CronFailureDelivery;
   state?: CronJobState;
 };
 
+export type CronBlackoutSlot = {
+  jobId: string;
+  jobName: string;
+  skippedAtMs: number;
+  nextRunAtMs?: number;
+  calendar: string;
+  reason?: string;
+};
+
 export type CronStatus = {
   enabled: boolean;
   jobs: number;
   nextWakeAtMs?: number | null;
+  blackouts?: CronBlackoutSlot[];
 };
 
 export type CronJobsEnabledFilter = "all" | "enabled" | "disabled";
@@ -544,6 +588,11 @@ export type CronRunLogEntry = {
   delivered?: boolean;
   runAtMs?: number;
   nextRunAtMs?: number;
+  triggeredBy?: string;
+  errorKind?: CronErrorKind;
+  attempt?: number;
+  retryAtMs?: number;
+  deadLettered?: boolean;
   model?: string;
   provider?: string;
   usage?: {
@@ -21,7 +21,7 @@ export type CronFormState = {
   clearAgent: boolean;
   enabled: boolean;
   deleteAfterRun: boolean;
-  scheduleKind: "at" | "every" | "cron";
+  scheduleKind: "at" | "every" | "cron" | "after";
   scheduleAt: string;
   everyAmount: string;
   everyUnit: "minutes" | "hours" | "days";
@@ -30,6 +30,8 @@ export type CronFormState = {
   scheduleExact: boolean;
   staggerAmount: string;
   staggerUnit: "seconds" | "minutes";
+  afterJobId: string;
+  afterOn: "ok" | "error" | "skipped" | "any";
   sessionTarget: "main" | "isolated";
   wakeMode: "next-heartbeat" | "now";
   payloadKind: "systemEvent" | "agentTurn";
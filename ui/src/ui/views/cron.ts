@@ -219,6 +219,9 @@ function inputIdForField(key: CronFieldKey) {
   if (key === "cronExpr") {
     return "cron-cron-expr";
   }
+  if (key === "afterJobId") {
+    return "cron-after-job";
+  }
   if (key === "staggerAmount") {
     return "cron-stagger-amount";
   }
@@ -253,6 +256,7 @@ function fieldLabelForKey(
     scheduleAt: "Run at",
     everyAmount: "Every",
     cronExpr: "Expression",
+    afterJobId: "Upstream job",
     staggerAmount: "Stagger window",
     payloadText: "Payload text",
     payloadModel: "Model",
@@ -273,6 +277,7 @@ function collectBlockingFields(
     "scheduleAt",
     "everyAmount",
     "cronExpr",
+    "afterJobId",
     "staggerAmount",
     "payloadText",
     "payloadModel",
@@ -680,6 +685,7 @@ export function renderCron(props: CronProps) {
                   <option value="every">Every</option>
                   <option value="at">At</option>
                   <option value="cron">Cron</option>
+                  <option value="after">After job</option>
                 </select>
               </label>
             </div>
@@ -1136,6 +1142,50 @@ function renderScheduleFields(props: CronProps) {
       </label>
     `;
   }
+  if (form.scheduleKind === "after") {
+    const upstreamJobs = props.jobs.filter((job) => job.id !== props.editingJobId);
+    return html`
+      <div class="form-grid cron-form-grid" style="margin-top: 12px;">
+        <label class="field">
+          ${renderFieldLabel("Upstream job", true)}
+          <select
+            id="cron-after-job"
+            .value=${form.afterJobId}
+            aria-invalid=${props.fieldErrors.afterJobId ? "true" : "false"}
+            aria-describedby=${ifDefined(
+              props.fieldErrors.afterJobId ? errorIdForField("afterJobId") : undefined,
+            )}
+            @change=${(e: Event) =>
+              props.onFormChange({ afterJobId: (e.target as HTMLSelectElement).value })}
+          >
+            <option value="">Select a job</option>
+            ${upstreamJobs.map(
+              (job) =>
+                html`<option value=${job.id} ?selected=${job.id === form.afterJobId}>
+                  ${job.name}
+                </option>`,
+            )}
+          </select>
+          ${renderFieldError(props.fieldErrors.afterJobId, errorIdForField("afterJobId"))}
+        </label>
+        <label class="field">
+          <span>When it finishes with</span>
+          <select
+            .value=${form.afterOn}
+            @change=${(e: Event) =>
+              props.onFormChange({
+                afterOn: (e.target as HTMLSelectElement).value as CronFormState["afterOn"],
+              })}
+          >
+            <option value="ok">Success</option>
+            <option value="error">Error</option>
+            <option value="skipped">Skipped</option>
+            <option value="any">Any status</option>
+          </select>
+        </label>
+      </div>
+    `;
+  }
   if (form.scheduleKind === "every") {
     return html`
       <div class="form-grid cron-form-grid" style="margin-top: 12px;">
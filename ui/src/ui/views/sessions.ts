@@ -30,6 +30,9 @@ export type SessionsProps = {
     },
   ) => void;
   onDelete: (key: string) => void;
+  onFork: (key: string) => void;
+  /** Route `key`'s conversation to `target` (a fork key, or "main" for the original). */
+  onSwitchFork: (key: string, target: string) => void;
 };
 
 const THINK_LEVELS = ["", "off", "minimal", "low", "medium", "high", "xhigh"] as const;
@@ -109,6 +112,7 @@ function resolveThinkLevelPatchValue(value: string, isBinary: boolean): string |
 
 export function renderSessions(props: SessionsProps) {
   const rows = props.result?.sessions ?? [];
+  const activeForkKeys = new Set(rows.map((row) => row.activeForkKey).filter(Boolean));
   return html`
     <section class="card">
       <div class="row" style="justify-content: space-between;">
@@ -205,22 +209,44 @@ export function renderSessions(props: SessionsProps) {
             ? html`
                 <div class="muted">No sessions found.</div>
               `
-            : rows.map((row) =>
-                renderRow(row, props.basePath, props.onPatch, props.onDelete, props.loading),
-              )
+            : rows.map((row) => renderRow(row, props, activeForkKeys.has(row.key)))
         }
       </div>
     </section>
   `;
 }
 
-function renderRow(
-  row: GatewaySessionRow,
-  basePath: string,
-  onPatch: SessionsProps["onPatch"],
-  onDelete: SessionsProps["onDelete"],
-  disabled: boolean,
-) {
+function renderForkActions(row: GatewaySessionRow, props: SessionsProps, isActiveFork: boolean) {
+  const disabled = props.loading;
+  if (row.forkOf) {
+    const target = isActiveFork ? "main" : row.key;
+    return html`<button
+      class="btn"
+      ?disabled=${disabled}
+      @click=${() => props.onSwitchFork(row.key, target)}
+    >
+      ${isActiveFork ? "Switch back" : "Switch to"}
+    </button>`;
+  }
+  return html`
+    <button class="btn" ?disabled=${disabled} @click=${() => props.onFork(row.key)}>Fork</button>
+    ${
+      row.activeForkKey
+        ? html`<button
+            class="btn"
+            ?disabled=${disabled}
+            @click=${() => props.onSwitchFork(row.key, "main")}
+          >
+            Switch back
+          </button>`
+        : nothing
+    }
+  `;
+}
+
+function renderRow(row: GatewaySessionRow, props: SessionsProps, isActiveFork: boolean) {
+  const { basePath, onPatch, onDelete } = props;
+  const disabled = props.loading;
   const updated = row.updatedAt ? formatRelativeTimestamp(row.updatedAt) : "n/a";
   const rawThinking = row.thinkingLevel ?? "";
   const isBinaryThinking = isBinaryThinkingProvider(row.modelProvider);
@@ -246,6 +272,18 @@ function renderRow(
       <div class="mono session-key-cell">
         ${canLink ? html`<a href=${chatUrl} class="session-link">${row.key}</a>` : row.key}
         ${showDisplayName ? html`<span class="muted session-key-display-name">${displayName}</span>` : nothing}
+        ${
+          row.forkOf
+            ? html`<span class="muted session-key-display-name">
+                fork of ${row.forkOf.sessionKey} · turn ${row.forkOf.turn}${isActiveFork ? " · active" : ""}
+              </span>`
+            : nothing
+        }
+        ${
+          row.activeForkKey
+            ? html`<span class="muted session-key-display-name">routed to ${row.activeForkKey}</span>`
+            : nothing
+        }
       </div>
       <div>
         <input
@@ -312,6 +350,7 @@ function renderRow(
         </select>
       </div>
       <div>
+        ${row.kind !== "global" ? renderForkActions(row, props, isActiveFork) : nothing}
         <button class="btn danger" ?disabled=${disabled} @click=${() => onDelete(row.key)}>
           Delete
         </button>